@@ -4,6 +4,13 @@ import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
 import AppShell from '@/components/AppShell';
 
+interface ProviderStats {
+  requests: number;
+  successRate: number;
+  avgMs: number;
+  fallbacks: number;
+}
+
 interface Metrics {
   totalTriages: number;
   totalEmergenciesDetected: number;
@@ -33,6 +40,8 @@ interface Metrics {
     ttsSuccessRate: number;
     totalSTTRequests: number;
     totalTTSRequests: number;
+    failovers: number;
+    providers: Record<'stt' | 'tts', Record<string, ProviderStats>>;
   };
   errors: {
     triageErrorRate: number;
@@ -55,7 +64,8 @@ interface Metrics {
 
 const LANG_LABELS: Record<string, string> = {
   hi: 'Hindi', ta: 'Tamil', te: 'Telugu', mr: 'Marathi',
-  kn: 'Kannada', bn: 'Bengali', en: 'English',
+  kn: 'Kannada', bn: 'Bengali', gu: 'Gujarati', ml: 'Malayalam',
+  pa: 'Punjabi', or: 'Odia', ur: 'Urdu', en: 'English',
 };
 
 const SEVERITY_COLORS: Record<string, string> = {
@@ -317,6 +327,25 @@ export default function AnalyticsPage() {
                   <p className="text-[10px] text-gray-400 uppercase">Avg TTS</p>
                 </div>
               </div>
+              {(['stt', 'tts'] as const).some(kind => Object.keys(metrics.voicePipeline.providers[kind]).length > 0) && (
+                <div className="pt-1 space-y-1">
+                  {(['stt', 'tts'] as const).flatMap(kind =>
+                    Object.entries(metrics.voicePipeline.providers[kind]).map(([name, stats]) => (
+                      <div key={`${kind}-${name}`} className="flex justify-between text-xs">
+                        <span className="text-gray-500">
+                          <span className="uppercase">{kind}</span> · {name}
+                        </span>
+                        <span className="text-gray-700">
+                          {stats.requests} · {stats.successRate}% · {formatLatency(stats.avgMs)}
+                        </span>
+                      </div>
+                    ))
+                  )}
+                  {metrics.voicePipeline.failovers > 0 && (
+                    <p className="text-[10px] text-gray-400">{metrics.voicePipeline.failovers} failover{metrics.voicePipeline.failovers !== 1 ? 's' : ''} in the last 24h</p>
+                  )}
+                </div>
+              )}
             </div>
           </div>
 
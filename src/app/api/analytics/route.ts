@@ -1,5 +1,8 @@
 import { telemetry } from '@/lib/telemetry';
 import { getServiceClient } from '@/lib/supabase';
+import { LANGUAGE_CODES } from '@/lib/constants';
+import { getClientIP } from '@/lib/rate-limit';
+import { getBudgetStatus, getUsageSummary, usageSubject } from '@/lib/usage-budget';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -20,10 +23,16 @@ function isAdmin(userId: string | null): boolean {
   return adminIds.includes(userId);
 }
 
-export async function GET() {
+export async function GET(request: Request) {
   const userId = await getClerkUserId();
   const admin = isAdmin(userId);
 
+  // Model token usage: the caller's own daily budget, plus 24h totals for admins
+  const [usage, budget] = await Promise.all([
+    admin ? getUsageSummary(new Date(Date.now() - 24 * 60 * 60 * 1000)) : Promise.resolve(null),
+    getBudgetStatus(usageSubject(userId, getClientIP(request))),
+  ]);
+
   // Try Supabase-backed metrics first (persistent across deploys)
   const supabase = getServiceClient();
   if (supabase) {
@@ -43,6 +52,8 @@ export async function GET() {
       const triageEvents = allEvents.filter(e => e.event_type === 'triage');
       const sttEvents = allEvents.filter(e => e.event_type === 'transcribe');
       const ttsEvents = allEvents.filter(e => e.event_type === 'tts');
+      const validationEvents = allEvents.filter(e => e.event_type === 'validation');
+      const repairedEvents = validationEvents.filter(e => e.had_error);
       const recentHour = triageEvents.filter(e => new Date(e.created_at) > new Date(last1h));
 
       // Total counts (all-time)
@@ -103,7 +114,7 @@ export async function GET() {
           self_care: completed.filter(e => e.severity === 'self_care').length,
         },
 
-        languageDistribution: (['hi', 'ta', 'te', 'mr', 'kn', 'bn', 'en']).reduce(
+        languageDistribution: LANGUAGE_CODES.reduce(
           (acc, lang) => {
             acc[lang] = triageEvents.filter(e => e.language === lang).length;
             return acc;
@@ -141,6 +152,14 @@ export async function GET() {
           totalTTSRequests: ttsEvents.length,
         },
 
+        validation: {
+          resultsChecked: validationEvents.length,
+          repairsNeeded: repairedEvents.length,
+          repairsSucceeded: repairedEvents.filter(e => e.success).length,
+          repairRate: validationEvents.length > 0
+            ? Math.round((repairedEvents.length / validationEvents.length) * 100) : 0,
+        },
+
         errors: {
           triageErrorRate: triageEvents.length > 0
             ? Math.round((triageEvents.filter(e => e.had_error).length / triageEvents.length) * 100) : 0,
@@ -160,6 +179,9 @@ export async function GET() {
           isMedicalQuery: true,
         })) : [],
 
+        usage,
+        budget,
+
         isAdmin: admin,
         dataSource: 'supabase',
       };
@@ -180,6 +202,8 @@ export async function GET() {
       ...metrics,
       // Strip recent activity for non-admins
       recentActivity: admin ? metrics.recentActivity : [],
+      usage,
+      budget,
       isAdmin: admin,
       dataSource: 'memory',
     },
@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server';
+import { getServiceClient } from '@/lib/supabase';
+import { deliverDueFollowUps } from '@/lib/followups';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+/**
+ * GET /api/cron/followups
+ *
+ * Delivers due follow-up check reminders. Call it from a scheduler (e.g.
+ * Vercel Cron every 15 minutes) with `Authorization: Bearer $CRON_SECRET`.
+ * Open in development when CRON_SECRET is unset.
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  const authorized = secret
+    ? request.headers.get('authorization') === `Bearer ${secret}`
+    : process.env.NODE_ENV !== 'production';
+  if (!authorized) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (!getServiceClient()) {
+    return Response.json({ error: 'Database not configured' }, { status: 503 });
+  }
+
+  try {
+    const report = await deliverDueFollowUps();
+    return Response.json(report);
+  } catch (error) {
+    console.error('[cron/followups] Delivery run failed:', error);
+    return Response.json({ error: 'Delivery run failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest } from 'next/server';
+import { getTTSCacheStore, pregenerateStaticSpeech } from '@/lib/tts-cache';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+/**
+ * GET /api/cron/tts-cache
+ *
+ * Synthesises every static spoken phrase into the server-side TTS cache, so
+ * they play instantly from the first request. Vercel Cron runs it daily
+ * (vercel.json) with `Authorization: Bearer $CRON_SECRET`; call it the same
+ * way after a deploy to warm the cache straight away. Open in development
+ * when CRON_SECRET is unset.
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  const authorized = secret
+    ? request.headers.get('authorization') === `Bearer ${secret}`
+    : process.env.NODE_ENV !== 'production';
+  if (!authorized) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const store = getTTSCacheStore();
+  if (!store) {
+    return Response.json({ error: 'TTS cache is off' }, { status: 503 });
+  }
+
+  try {
+    const report = await pregenerateStaticSpeech();
+    return Response.json({ store: store.name, ...report });
+  } catch (error) {
+    console.error('[cron/tts-cache] Pre-generation run failed:', error);
+    return Response.json({ error: 'Pre-generation run failed' }, { status: 500 });
+  }
+}
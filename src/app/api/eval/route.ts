@@ -0,0 +1,60 @@
+import { NextRequest } from 'next/server';
+import { runTriageEval, EvalMode } from '@/lib/triage-eval';
+import { validateLanguage } from '@/lib/input-guard';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+async function getClerkUserId(): Promise<string | null> {
+  try {
+    const { auth } = await import('@clerk/nextjs/server');
+    const { userId } = await auth();
+    return userId;
+  } catch {
+    return null;
+  }
+}
+
+function isAdmin(userId: string | null): boolean {
+  if (!userId) return false;
+  const adminIds = (process.env.ADMIN_CLERK_IDS || '').split(',').map(id => id.trim()).filter(Boolean);
+  return adminIds.includes(userId);
+}
+
+/**
+ * GET /api/eval?mode=replay|live&lang=hi,ta&case=en-cardiac-01
+ *
+ * Runs the golden triage corpus and returns the scored report.
+ * Open in development; admin-only in production.
+ * Responds 422 when any emergency case was under-triaged (hard failure),
+ * so `curl -f` in CI fails the build.
+ */
+export async function GET(request: NextRequest) {
+  if (process.env.NODE_ENV === 'production' && !isAdmin(await getClerkUserId())) {
+    return Response.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const params = request.nextUrl.searchParams;
+  const mode: EvalMode = params.get('mode') === 'live' ? 'live' : 'replay';
+
+  if (mode === 'live' && !process.env.ANTHROPIC_API_KEY) {
+    return Response.json({ error: 'Live eval requires ANTHROPIC_API_KEY' }, { status: 503 });
+  }
+
+  const langParam = params.get('lang');
+  const caseParam = params.get('case');
+
+  try {
+    const report = await runTriageEval({
+      mode,
+      languages: langParam ? langParam.split(',').map(l => validateLanguage(l.trim())) : undefined,
+      caseIds: caseParam ? caseParam.split(',').map(id => id.trim()) : undefined,
+    });
+
+    return Response.json(report, { status: report.passed ? 200 : 422 });
+  } catch (error) {
+    console.error('[eval] Run failed:', error);
+    return Response.json({ error: 'Eval run failed' }, { status: 500 });
+  }
+}
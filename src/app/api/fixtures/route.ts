@@ -0,0 +1,39 @@
+import { NextRequest } from 'next/server';
+import path from 'path';
+import { getFixtureDir, listFixtures, loadFixture, parseFixture, replayFixture } from '@/lib/triage-fixtures';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Dev-only — fixtures hold raw patient messages and must never be served in production
+const isDev = process.env.NODE_ENV !== 'production';
+
+// GET — list recorded fixtures
+export async function GET() {
+  if (!isDev) return Response.json({ error: 'Not found' }, { status: 404 });
+  return Response.json({ dir: getFixtureDir(), fixtures: await listFixtures() });
+}
+
+// POST — replay a fixture: { name: "<file>.json" } or { fixture: {...} }
+export async function POST(request: NextRequest) {
+  if (!isDev) return Response.json({ error: 'Not found' }, { status: 404 });
+
+  let body: { name?: unknown; fixture?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  try {
+    const fixture = typeof body.name === 'string'
+      ? await loadFixture(path.join(getFixtureDir(), path.basename(body.name)))
+      : parseFixture(body.fixture);
+
+    const outcome = await replayFixture(fixture);
+    return Response.json(outcome);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Replay failed';
+    return Response.json({ error: message }, { status: 400 });
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest } from 'next/server';
+import { getServiceClient } from '@/lib/supabase';
+import { getFollowUp, respondToFollowUp, FollowUpResponse } from '@/lib/followups';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function getClerkUserId(): Promise<string | null> {
+  try {
+    const { auth } = await import('@clerk/nextjs/server');
+    const { userId } = await auth();
+    return userId;
+  } catch {
+    return null;
+  }
+}
+
+const RESPONSES = new Set<FollowUpResponse>(['better', 'same', 'worse', 'dismiss']);
+
+/**
+ * GET /api/followups/:checkId
+ *
+ * One check, localized, with the triage it was scheduled from (conversation,
+ * result, symptoms). The home chat uses it to open a check-in session.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ checkId: string }> }
+) {
+  const userId = await getClerkUserId();
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (!getServiceClient()) {
+    return Response.json({ error: 'Database not configured' }, { status: 503 });
+  }
+
+  const { checkId } = await params;
+  const followUp = await getFollowUp(checkId, userId);
+  if (!followUp) {
+    return Response.json({ error: 'Follow-up check not found' }, { status: 404 });
+  }
+
+  return Response.json(followUp);
+}
+
+/**
+ * POST /api/followups/:checkId  { response: 'better' | 'same' | 'worse' | 'dismiss' }
+ *
+ * Answers a follow-up check. Returns the updated check and, for answers, the
+ * new session (seeded with the original conversation) to continue triage in.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ checkId: string }> }
+) {
+  const userId = await getClerkUserId();
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (!getServiceClient()) {
+    return Response.json({ error: 'Database not configured' }, { status: 503 });
+  }
+
+  const { checkId } = await params;
+  const body = await request.json().catch(() => null);
+  const response = body?.response as FollowUpResponse;
+  if (!RESPONSES.has(response)) {
+    return Response.json({ error: 'response must be better, same, worse or dismiss' }, { status: 400 });
+  }
+
+  const result = await respondToFollowUp(checkId, userId, response);
+  if (!result.ok) {
+    return result.reason === 'not_found'
+      ? Response.json({ error: 'Follow-up check not found' }, { status: 404 })
+      : Response.json({ error: 'This check has already been answered' }, { status: 409 });
+  }
+
+  return Response.json({ check: result.check, sessionId: result.sessionId });
+}
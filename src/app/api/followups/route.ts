@@ -0,0 +1,42 @@
+import { getServiceClient } from '@/lib/supabase';
+import { countDueFollowUps, listFollowUps } from '@/lib/followups';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function getClerkUserId(): Promise<string | null> {
+  try {
+    const { auth } = await import('@clerk/nextjs/server');
+    const { userId } = await auth();
+    return userId;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET /api/followups            — the user's follow-up checks, in their preferred language
+ * GET /api/followups?count=due  — just the number of due checks (navigation badge)
+ */
+export async function GET(request: Request) {
+  const userId = await getClerkUserId();
+  if (!userId) {
+    return Response.json({ error: 'Sign in to view your check-ins' }, { status: 401 });
+  }
+
+  if (!getServiceClient()) {
+    return Response.json({ error: 'Database not configured' }, { status: 503 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  if (searchParams.get('count') === 'due') {
+    return Response.json({ due: await countDueFollowUps(userId) });
+  }
+
+  try {
+    return Response.json(await listFollowUps(userId));
+  } catch (err) {
+    console.error('[followups] Failed to list checks:', err);
+    return Response.json({ error: 'Failed to load check-ins' }, { status: 500 });
+  }
+}
@@ -0,0 +1,15 @@
+import { getTranslationReport } from '@/lib/i18n';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/i18n
+ *
+ * Translation coverage per language against the English catalog: missing keys,
+ * and stale ones (placeholders changed, or still the English text).
+ * Responds 422 when any language has gaps, so `curl -f` in CI fails the build.
+ */
+export async function GET() {
+  const report = getTranslationReport();
+  return Response.json(report, { status: report.complete ? 200 : 422 });
+}
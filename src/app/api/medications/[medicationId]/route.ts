@@ -0,0 +1,83 @@
+import { NextRequest } from 'next/server';
+import { getServiceClient } from '@/lib/supabase';
+import { deleteMedication, updateMedication, MedicationInput } from '@/lib/medications';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function getClerkUserId(): Promise<string | null> {
+  try {
+    const { auth } = await import('@clerk/nextjs/server');
+    const { userId } = await auth();
+    return userId;
+  } catch {
+    return null;
+  }
+}
+
+const EDITABLE_FIELDS = ['name', 'generic_name', 'dose', 'frequency', 'started_on', 'stopped_on'] as const;
+
+/**
+ * PATCH /api/medications/:medicationId  { name?, dose?, frequency?, started_on?, stopped_on?, generic_name? }
+ *
+ * Send `stopped_on` to mark a medicine stopped, or null to clear a field.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ medicationId: string }> }
+) {
+  const userId = await getClerkUserId();
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (!getServiceClient()) {
+    return Response.json({ error: 'Database not configured' }, { status: 503 });
+  }
+
+  const { medicationId } = await params;
+  const body = await request.json().catch(() => null);
+  const update: Partial<MedicationInput> = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (body && field in body) update[field] = body[field];
+  }
+
+  try {
+    const result = await updateMedication(medicationId, userId, update);
+    if (!result.ok) {
+      return result.reason === 'not_found'
+        ? Response.json({ error: 'Medication not found' }, { status: 404 })
+        : Response.json({ error: 'Provide a name, fields under 120 characters, and YYYY-MM-DD dates with stop after start' }, { status: 400 });
+    }
+    return Response.json({ medication: result.medication });
+  } catch (err) {
+    console.error('[medications] Failed to update medication:', err);
+    return Response.json({ error: 'Failed to update medication' }, { status: 500 });
+  }
+}
+
+/** DELETE /api/medications/:medicationId — remove a medication entered by mistake */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ medicationId: string }> }
+) {
+  const userId = await getClerkUserId();
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (!getServiceClient()) {
+    return Response.json({ error: 'Database not configured' }, { status: 503 });
+  }
+
+  const { medicationId } = await params;
+  try {
+    if (!(await deleteMedication(medicationId, userId))) {
+      return Response.json({ error: 'Medication not found' }, { status: 404 });
+    }
+    return Response.json({ deleted: true });
+  } catch (err) {
+    console.error('[medications] Failed to delete medication:', err);
+    return Response.json({ error: 'Failed to delete medication' }, { status: 500 });
+  }
+}
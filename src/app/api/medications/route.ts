@@ -0,0 +1,67 @@
+import { NextRequest } from 'next/server';
+import { getServiceClient } from '@/lib/supabase';
+import { addMedication, listMedications } from '@/lib/medications';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function getClerkUserId(): Promise<string | null> {
+  try {
+    const { auth } = await import('@clerk/nextjs/server');
+    const { userId } = await auth();
+    return userId;
+  } catch {
+    return null;
+  }
+}
+
+/** GET /api/medications — the user's medications, current before stopped */
+export async function GET() {
+  const userId = await getClerkUserId();
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (!getServiceClient()) {
+    return Response.json({ error: 'Database not configured' }, { status: 503 });
+  }
+
+  try {
+    return Response.json({ medications: await listMedications(userId) });
+  } catch (err) {
+    console.error('[medications] Failed to list medications:', err);
+    return Response.json({ error: 'Failed to load medications' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/medications  { name, dose?, frequency?, started_on?, stopped_on?, generic_name? }
+ *
+ * Dates are YYYY-MM-DD. The generic name is filled in from known brands when omitted.
+ */
+export async function POST(request: NextRequest) {
+  const userId = await getClerkUserId();
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (!getServiceClient()) {
+    return Response.json({ error: 'Database not configured' }, { status: 503 });
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== 'object') {
+    return Response.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  try {
+    const result = await addMedication(userId, body);
+    if (!result.ok) {
+      return Response.json({ error: 'Provide a name, fields under 120 characters, and YYYY-MM-DD dates with stop after start' }, { status: 400 });
+    }
+    return Response.json({ medication: result.medication }, { status: 201 });
+  } catch (err) {
+    console.error('[medications] Failed to add medication:', err);
+    return Response.json({ error: 'Failed to add medication' }, { status: 500 });
+  }
+}
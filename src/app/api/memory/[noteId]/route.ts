@@ -0,0 +1,82 @@
+import { NextRequest } from 'next/server';
+import { getServiceClient } from '@/lib/supabase';
+import { deleteNote, updateNote, NoteUpdate } from '@/lib/patient-memory';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function getClerkUserId(): Promise<string | null> {
+  try {
+    const { auth } = await import('@clerk/nextjs/server');
+    const { userId } = await auth();
+    return userId;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * PATCH /api/memory/:noteId  { content?, note_type?, confirm? }
+ *
+ * Correct or confirm a note. Either way the note becomes `confirmed`.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ noteId: string }> }
+) {
+  const userId = await getClerkUserId();
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (!getServiceClient()) {
+    return Response.json({ error: 'Database not configured' }, { status: 503 });
+  }
+
+  const { noteId } = await params;
+  const body = await request.json().catch(() => null);
+  const update: NoteUpdate = {
+    content: typeof body?.content === 'string' ? body.content : undefined,
+    note_type: body?.note_type,
+    confirm: body?.confirm === true,
+  };
+
+  try {
+    const result = await updateNote(noteId, userId, update);
+    if (!result.ok) {
+      return result.reason === 'not_found'
+        ? Response.json({ error: 'Note not found' }, { status: 404 })
+        : Response.json({ error: 'Provide content (1-500 characters), a valid note_type, or confirm: true' }, { status: 400 });
+    }
+    return Response.json({ note: result.note });
+  } catch (err) {
+    console.error('[memory] Failed to update note:', err);
+    return Response.json({ error: 'Failed to update note' }, { status: 500 });
+  }
+}
+
+/** DELETE /api/memory/:noteId — forget a note */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ noteId: string }> }
+) {
+  const userId = await getClerkUserId();
+  if (!userId) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (!getServiceClient()) {
+    return Response.json({ error: 'Database not configured' }, { status: 503 });
+  }
+
+  const { noteId } = await params;
+  try {
+    if (!(await deleteNote(noteId, userId))) {
+      return Response.json({ error: 'Note not found' }, { status: 404 });
+    }
+    return Response.json({ deleted: true });
+  } catch (err) {
+    console.error('[memory] Failed to delete note:', err);
+    return Response.json({ error: 'Failed to delete note' }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { getServiceClient } from '@/lib/supabase';
+import { listNotes, NOTE_TYPES } from '@/lib/patient-memory';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+async function getClerkUserId(): Promise<string | null> {
+  try {
+    const { auth } = await import('@clerk/nextjs/server');
+    const { userId } = await auth();
+    return userId;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * GET /api/memory — every clinical note Sehat keeps about the user,
+ * confirmed before inferred, plus the note types in display order.
+ */
+export async function GET() {
+  const userId = await getClerkUserId();
+  if (!userId) {
+    return Response.json({ error: 'Sign in to see what Sehat remembers' }, { status: 401 });
+  }
+
+  if (!getServiceClient()) {
+    return Response.json({ error: 'Database not configured' }, { status: 503 });
+  }
+
+  try {
+    return Response.json({ notes: await listNotes(userId), types: NOTE_TYPES });
+  } catch (err) {
+    console.error('[memory] Failed to list notes:', err);
+    return Response.json({ error: 'Failed to load notes' }, { status: 500 });
+  }
+}
@@ -1,7 +1,8 @@
 import { NextRequest } from 'next/server';
 import { getServiceClient } from '@/lib/supabase';
 import { savePeriodCycle } from '@/lib/db';
-import Anthropic from '@anthropic-ai/sdk';
+import { getLLMProvider } from '@/lib/llm-provider';
+import { createUsageMeter, getBudgetStatus, maxTokensForTier, meterProvider, recordUsage, usageSubject } from '@/lib/usage-budget';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -183,21 +184,26 @@ export async function POST(request: NextRequest) {
 }
 
 // AI-powered menstrual health Q&A
-async function handleAIQuestion(question: string, language: string, _userId: string, context: string) {
+async function handleAIQuestion(question: string, language: string, userId: string, context: string) {
   if (!question?.trim()) {
     return Response.json({ error: 'Question is required' }, { status: 400 });
   }
 
-  const apiKey = process.env.ANTHROPIC_API_KEY;
-  if (!apiKey) {
+  const baseProvider = getLLMProvider();
+  if (!baseProvider.configured) {
     return Response.json({ error: 'AI not configured' }, { status: 503 });
   }
 
-  const client = new Anthropic({ apiKey });
+  // Over the daily budget: shorter answers instead of a refusal
+  const subject = usageSubject(userId, '');
+  const { tier } = await getBudgetStatus(subject);
+  const usageMeter = createUsageMeter();
+  const provider = meterProvider(baseProvider, usageMeter);
 
   const LANG_MAP: Record<string, string> = {
     hi: 'Hindi', ta: 'Tamil', te: 'Telugu', mr: 'Marathi',
-    kn: 'Kannada', bn: 'Bengali', en: 'English',
+    kn: 'Kannada', bn: 'Bengali', gu: 'Gujarati', ml: 'Malayalam',
+    pa: 'Punjabi', or: 'Odia', ur: 'Urdu', en: 'English',
   };
   const langName = LANG_MAP[language] || 'the user\'s language';
 
@@ -250,21 +256,17 @@ Respond in ${langName}. Keep answers concise (2-4 paragraphs max). Use simple wo
 If the user's message is not about menstrual/reproductive health, gently redirect them to the main Sehat triage for other health concerns.`;
 
   try {
-    const response = await client.messages.create({
-      model: 'claude-opus-4-6',
-      max_tokens: 1024,
+    const text = await provider.complete({
+      maxTokens: maxTokensForTier(1024, tier),
       system: systemPrompt,
       messages: [{ role: 'user', content: question }],
     });
 
-    const text = response.content
-      .filter(b => b.type === 'text')
-      .map(b => b.text)
-      .join('');
-
     return Response.json({ answer: text });
   } catch (err) {
     console.error('[period-tracker] AI error:', err);
     return Response.json({ error: 'Failed to get AI response' }, { status: 500 });
+  } finally {
+    recordUsage({ subject, clerkUserId: userId, route: 'period_qa', model: provider.model, meter: usageMeter, tier });
   }
 }
@@ -1,4 +1,5 @@
 import { getServiceClient } from '@/lib/supabase';
+import { listLabTrends, LabTrend } from '@/lib/lab-results';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -24,8 +25,8 @@ export async function GET() {
     return Response.json({ error: 'Database not configured' }, { status: 503 });
   }
 
-  // Fetch triage results and medical uploads in parallel
-  const [triageRes, uploadsRes] = await Promise.all([
+  // Fetch triage results, medical uploads and lab trends in parallel
+  const [triageRes, uploadsRes, labTrends] = await Promise.all([
     supabase
       .from('triage_results')
       .select('session_id, result_json, language, created_at')
@@ -34,14 +35,19 @@ export async function GET() {
       .limit(50),
     supabase
       .from('medical_uploads')
-      .select('id, file_name, file_type, analysis, language, created_at')
+      .select('id, file_name, file_names, file_type, analysis, language, created_at')
       .eq('clerk_user_id', userId)
       .order('created_at', { ascending: false })
       .limit(50),
+    listLabTrends(userId).catch((err): LabTrend[] => {
+      console.error('[reports] Failed to load lab trends:', err instanceof Error ? err.message : err);
+      return [];
+    }),
   ]);
 
   return Response.json({
     triageReports: triageRes.data || [],
     documentAnalyses: uploadsRes.data || [],
+    labTrends,
   });
 }
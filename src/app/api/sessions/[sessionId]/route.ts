@@ -48,6 +48,7 @@ export async function GET(
       .from('conversation_messages')
       .select('*')
       .eq('session_id', sessionId)
+      .eq('is_result', false)
       .order('created_at', { ascending: true }),
     supabase
       .from('triage_results')
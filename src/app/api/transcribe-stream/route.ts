@@ -0,0 +1,126 @@
+import { NextRequest } from 'next/server';
+import { TranscribeStreamResponse } from '@/types';
+import { SpeechUnavailableError } from '@/lib/speech-provider';
+import {
+  appendTranscribeAudio,
+  closeTranscribeSession,
+  finishTranscribeSession,
+  getTranscribeSession,
+  openTranscribeSession,
+  MAX_SESSION_AUDIO_BYTES,
+  TranscribeSession,
+  TranscribeSessionError,
+} from '@/lib/transcribe-stream';
+import { checkRateLimit, rateLimitResponse } from '@/lib/rate-limit';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/** How long the last chunk waits for the provider's final transcript */
+const FINAL_TIMEOUT_MS = 15_000;
+const SAMPLE_RATES = new Set([8000, 16000, 22050, 24000, 44100, 48000]);
+
+async function getClerkUserId(): Promise<string | null> {
+  try {
+    const { auth } = await import('@clerk/nextjs/server');
+    const { userId } = await auth();
+    return userId;
+  } catch {
+    return null;
+  }
+}
+
+function toResponse(session: TranscribeSession): TranscribeStreamResponse {
+  return {
+    id: session.id,
+    partial: session.partial,
+    final: session.final,
+    language: session.detectedLanguage || session.languageCode,
+    done: session.final !== null,
+  };
+}
+
+/**
+ * Live transcription — the body is a chunk of raw 16-bit mono PCM.
+ *
+ *   POST ?seq=0&language=hi-IN&sampleRate=16000  → starts a session, returns its id
+ *   POST ?id=…&seq=1                              → next chunk, returns the partial so far
+ *   POST ?id=…&seq=N&end=1                        → last chunk, waits for the final
+ */
+export async function POST(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const clerkUserId = await getClerkUserId();
+  const id = params.get('id');
+  const seq = Number(params.get('seq'));
+  const end = params.get('end') === '1';
+
+  if (!Number.isInteger(seq) || seq < 0) {
+    return Response.json({ error: 'seq must be a non-negative integer' }, { status: 400 });
+  }
+
+  let session: TranscribeSession;
+  if (!id) {
+    if (seq !== 0) {
+      return Response.json({ error: 'A new transcription starts at seq 0' }, { status: 400 });
+    }
+    // Rate limit per recording, not per chunk
+    const rateLimitDecision = await checkRateLimit('transcribe', request, clerkUserId);
+    if (!rateLimitDecision.allowed) {
+      return rateLimitResponse(rateLimitDecision, 'Too many requests. Please wait.');
+    }
+
+    const sampleRate = Number(params.get('sampleRate') || 16000);
+    if (!SAMPLE_RATES.has(sampleRate)) {
+      return Response.json({ error: 'Unsupported sample rate' }, { status: 400 });
+    }
+    const language = params.get('language');
+    try {
+      session = openTranscribeSession(clerkUserId, language && language !== 'unknown' ? language : null, sampleRate);
+    } catch (err) {
+      if (err instanceof TranscribeSessionError) {
+        return Response.json({ error: err.message }, { status: err.status });
+      }
+      throw err;
+    }
+  } else {
+    const existing = getTranscribeSession(id, clerkUserId);
+    if (!existing) {
+      return Response.json({ error: 'Transcription not found or expired' }, { status: 404 });
+    }
+    session = existing;
+  }
+
+  let chunk: Uint8Array;
+  try {
+    chunk = new Uint8Array(await request.arrayBuffer());
+  } catch {
+    closeTranscribeSession(session);
+    return Response.json({ error: 'Could not read audio' }, { status: 400 });
+  }
+  if (chunk.length > MAX_SESSION_AUDIO_BYTES || chunk.length % 2 !== 0) {
+    closeTranscribeSession(session);
+    return Response.json({ error: 'Audio must be 16-bit PCM' }, { status: 400 });
+  }
+
+  try {
+    appendTranscribeAudio(session, seq, chunk, end);
+  } catch (err) {
+    closeTranscribeSession(session);
+    if (err instanceof TranscribeSessionError) {
+      return Response.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+
+  if (end) await finishTranscribeSession(session, FINAL_TIMEOUT_MS);
+
+  if (session.error) {
+    closeTranscribeSession(session);
+    if (session.error instanceof SpeechUnavailableError) {
+      return Response.json({ error: session.error.message }, { status: 500 });
+    }
+    return Response.json({ error: 'Transcription failed' }, { status: 502 });
+  }
+
+  return Response.json(toResponse(session));
+}
@@ -1,21 +1,29 @@
 import { NextRequest } from 'next/server';
 import { TranscribeResponse } from '@/types';
-import { telemetry } from '@/lib/telemetry';
-import { rateLimit, getClientIP } from '@/lib/rate-limit';
+import { isLikelyHallucination, SpeechUnavailableError, Transcription, transcribeSpeech } from '@/lib/speech-provider';
+import { validateLanguage } from '@/lib/input-guard';
+import { resolveLanguage } from '@/lib/language-detect';
+import { languageForSpeechCode } from '@/lib/constants';
+import { checkRateLimit, rateLimitHeaders, rateLimitResponse } from '@/lib/rate-limit';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-const SARVAM_STT_URL = 'https://api.sarvam.ai/speech-to-text';
+async function getClerkUserId(): Promise<string | null> {
+  try {
+    const { auth } = await import('@clerk/nextjs/server');
+    const { userId } = await auth();
+    return userId;
+  } catch {
+    return null;
+  }
+}
 
 export async function POST(request: NextRequest) {
-  const startTime = Date.now();
-
-  // Rate limit: 30 transcribe requests per IP per minute
-  const ip = getClientIP(request);
-  const { allowed } = rateLimit(`transcribe:${ip}`, 30);
-  if (!allowed) {
-    return Response.json({ error: 'Too many requests. Please wait.' }, { status: 429 });
+  // Rate limit per IP, and per user when signed in
+  const rateLimitDecision = await checkRateLimit('transcribe', request, await getClerkUserId());
+  if (!rateLimitDecision.allowed) {
+    return rateLimitResponse(rateLimitDecision, 'Too many requests. Please wait.');
   }
 
   try {
@@ -43,94 +51,33 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const apiKey = process.env.SARVAM_API_KEY;
-    if (!apiKey) {
-      return Response.json(
-        { error: 'Sarvam API key not configured' },
-        { status: 500 }
-      );
-    }
-
-    // Build multipart form data for Sarvam API
-    // Sarvam rejects MIME types with codec params (e.g. "audio/webm;codecs=opus")
-    // so strip everything after the semicolon to get the base type
-    const cleanType = audioFile.type.split(';')[0] || 'audio/webm';
-    const cleanFile = new File([audioFile], audioFile.name || 'recording.webm', {
-      type: cleanType,
-    });
-    const sarvamForm = new FormData();
-    sarvamForm.append('file', cleanFile, cleanFile.name);
-    sarvamForm.append('model', 'saaras:v3');
-    sarvamForm.append('mode', 'transcribe');
-    // Use language hint or auto-detect (Saaras v3 supports auto-detection)
-    if (languageHint && languageHint !== 'unknown') {
-      sarvamForm.append('language_code', languageHint);
-    }
-
-    const sarvamResponse = await fetch(SARVAM_STT_URL, {
-      method: 'POST',
-      headers: {
-        'API-Subscription-Key': apiKey,
-      },
-      body: sarvamForm,
-    });
-
-    if (!sarvamResponse.ok) {
-      const errorBody = await sarvamResponse.text();
-      console.error('Sarvam STT error:', sarvamResponse.status, errorBody);
-      telemetry.recordTranscribe({
-        timestamp: startTime,
-        language: languageHint || 'unknown',
-        latencyMs: Date.now() - startTime,
-        success: false,
-      });
-      return Response.json(
-        { error: `Transcription failed: ${sarvamResponse.status}` },
-        { status: 502 }
-      );
+    // Sarvam or the local server, per the language's configured primary — with failover
+    let transcription: Transcription;
+    try {
+      ({ result: transcription } = await transcribeSpeech({
+        audio: audioFile,
+        fileName: audioFile.name || 'recording.webm',
+        languageCode: languageHint && languageHint !== 'unknown' ? languageHint : null,
+      }, request.signal));
+    } catch (err) {
+      if (err instanceof SpeechUnavailableError) {
+        return Response.json({ error: err.message }, { status: 500 });
+      }
+      console.error('STT error:', err instanceof Error ? err.message : err);
+      return Response.json({ error: 'Transcription failed' }, { status: 502 });
     }
 
-    const data = await sarvamResponse.json();
-
-    let transcript: string = data.transcript || '';
+    let transcript = transcription.transcript;
 
     // ── STT hallucination detection ──
-    // Sarvam (and Whisper) hallucinate long text from very short/quiet audio.
-    // Classic signatures:
-    //   1. Tiny/silent audio produces long transcripts (YouTube intros, product reviews)
-    //   2. Repetitive phrases (same sentence 3+ times)
-    //   3. Common hallucination content (subscribe, channel, review, etc.)
-    const audioBytesPerCharRatio = audioFile.size / Math.max(transcript.length, 1);
-    const lowerTranscript = transcript.toLowerCase();
-
-    // Common hallucination phrases — Sarvam hallucinates these from silence/noise
-    const HALLUCINATION_KEYWORDS = [
-      'welcome to', 'subscribe', 'channel', 'like and share',
-      'video', 'samsung', 'galaxy', 'iphone', 'review',
-      'unboxing', 'best phone', 'manufacturer', 'this video',
-      'another video', 'our channel', 'my channel',
-      'engine and tires', 'raj kumar', 'press the bell',
-      'notification', 'comment below',
-    ];
-    const hallucinationKeywordHits = HALLUCINATION_KEYWORDS.filter(kw => lowerTranscript.includes(kw)).length;
-
-    const isLikelyHallucination =
-      // Tiny audio producing a novel
-      (audioFile.size < 100_000 && transcript.length > 150) ||
-      // Extremely low bytes-per-char ratio (normal speech: ~200-500 bytes/char)
-      (audioBytesPerCharRatio < 50 && transcript.length > 100) ||
-      // Repetitive phrases (hallucination signature: same phrase 3+ times)
-      /(.{15,})\1{2,}/i.test(transcript) ||
-      // Contains 2+ hallucination keywords — almost certainly not real medical speech
-      hallucinationKeywordHits >= 2 ||
-      // Single hallucination keyword + short audio = very likely noise
-      (hallucinationKeywordHits >= 1 && audioFile.size < 200_000);
-
-    if (isLikelyHallucination) {
+    // Recorders send trimmed WAV when the browser can decode its own audio,
+    // which is ~8× the size of the compressed clips the check was tuned on
+    const isWav = audioFile.type === 'audio/wav' || audioFile.name.endsWith('.wav');
+    const hallucinated = isLikelyHallucination(transcript, isWav ? audioFile.size / 8 : audioFile.size);
+    if (hallucinated) {
       console.warn('[Transcribe] Hallucination detected, rejecting:', {
         audioSize: audioFile.size,
         transcriptLen: transcript.length,
-        ratio: audioBytesPerCharRatio,
         preview: transcript.slice(0, 80),
       });
       transcript = '';
@@ -138,26 +85,19 @@ export async function POST(request: NextRequest) {
 
     const response: TranscribeResponse = {
       text: transcript,
-      language: data.language_code || languageHint || 'unknown',
-      confidence: isLikelyHallucination ? 0 : 1.0,
+      language: transcription.languageCode || languageHint || 'unknown',
+      confidence: hallucinated ? 0 : 1.0,
     };
 
-    telemetry.recordTranscribe({
-      timestamp: startTime,
-      language: languageHint || 'unknown',
-      latencyMs: Date.now() - startTime,
-      success: !!response.text,
-    });
+    // The reported language reflects the hint when one was sent, so identify
+    // the transcript itself — the patient may have spoken another language
+    if (transcript) {
+      response.detection = resolveLanguage(transcript, validateLanguage(languageForSpeechCode(languageHint)));
+    }
 
-    return Response.json(response);
+    return Response.json(response, { headers: rateLimitHeaders(rateLimitDecision) });
   } catch (error) {
     console.error('Transcription error:', error);
-    telemetry.recordTranscribe({
-      timestamp: startTime,
-      language: 'unknown',
-      latencyMs: Date.now() - startTime,
-      success: false,
-    });
     const message =
       error instanceof Error ? error.message : 'Transcription failed';
     return Response.json({ error: message }, { status: 500 });
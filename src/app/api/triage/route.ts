@@ -1,14 +1,26 @@
-import { NextRequest } from 'next/server';
+import { NextRequest, after } from 'next/server';
 import { detectEmergency } from '@/lib/emergency-detector';
 import { streamTriage } from '@/lib/triage-agent';
-import { TriageRequest, StreamEvent, PatientProfile, GeoLocation } from '@/types';
+import { TriageRequest, StreamEvent, PatientProfile, GeoLocation, SafetyOverride, TriageResult } from '@/types';
 import { telemetry, InputMode, TriageEvent } from '@/lib/telemetry';
-import { saveTriageSession, saveConversationMessage, saveTriageResult } from '@/lib/db';
+import { saveTriageSession, saveTriageResult } from '@/lib/db';
 import { validateLanguage, sanitizeMessage, sanitizeConversationHistory } from '@/lib/input-guard';
-import { rateLimit, getClientIP } from '@/lib/rate-limit';
+import { checkRateLimit, rateLimitHeaders, rateLimitResponse, RateLimitDecision, getClientIP } from '@/lib/rate-limit';
 import { getServiceClient } from '@/lib/supabase';
 import { executeTriageTool } from '@/lib/triage-tools';
 import { detectSymptomPattern } from '@/lib/symptom-patterns';
+import { getLLMProvider } from '@/lib/llm-provider';
+import { isFixtureRecordingEnabled, createFixtureRecorder, saveFixture } from '@/lib/triage-fixtures';
+import { formatOverrideReason } from '@/lib/safety-floor';
+import { resolveLanguage } from '@/lib/language-detect';
+import { t } from '@/lib/i18n';
+import { BudgetTier, createUsageMeter, getBudgetStatus, meterProvider, recordUsage, usageSubject } from '@/lib/usage-budget';
+import { loadConversation, appendMessage, summarizeResult, historyDiverges, verifySessionToken } from '@/lib/conversation-state';
+import { loadConfirmedNotes } from '@/lib/patient-memory';
+import { describeMedication, loadCurrentMedications } from '@/lib/medications';
+import { listSessionDocuments } from '@/lib/session-documents';
+import { MAX_FOLLOW_UPS } from '@/lib/constants';
+import { openTriageStream, findTriageStream, subscribeTriageStream, replayFrames, parseEventId } from '@/lib/triage-stream';
 
 // Fast regex to detect facility-only queries (no symptoms, just asking for nearby hospitals)
 const FACILITY_QUERY_PATTERN = /^(?:nearby|nearest|closest|find|show|where)\s*(?:clinics?|hospitals?|doctors?|phc|health\s*cent[re]+|medical|dispensary|facilities?|healthcare)|(?:clinics?|hospitals?|doctors?|phc|health\s*cent[re]+|dispensary)\s*(?:near(?:by)?|close|around)\s*(?:me|here)?$|^(?:paas|nazdeek|kareeb|najdeeki|aas\s*paas)\s+(?:hospital|clinic|davakhana|aspatal|doctor)|(?:hospital|clinic|davakhana|aspatal|doctor)\s+(?:paas|nazdeek|kareeb|najdeeki|aas\s*paas)/i;
@@ -27,39 +39,84 @@ export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 export const maxDuration = 120;
 
+const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+  'X-Accel-Buffering': 'no',
+};
+
 export async function POST(request: NextRequest) {
   const startTime = Date.now();
 
-  // Rate limit: 20 triage requests per IP per minute
-  const ip = getClientIP(request);
-  const { allowed } = rateLimit(`triage:${ip}`, 20);
-  if (!allowed) {
-    return Response.json({ error: 'Too many requests. Please wait a moment.' }, { status: 429 });
-  }
-
   try {
     const body: TriageRequest = await request.json();
-    const { message, conversationHistory, sessionId: rawSessionId, inputMode, location } = body;
+    const { message, conversationHistory, sessionId: rawSessionId, sessionToken, inputMode, location } = body;
     const clerkUserId = await getClerkUserId();
 
+    // Validate and sanitize inputs
+    const requestedLanguage = validateLanguage(body.language);
+    const { text: sanitizedMessage } = sanitizeMessage(message || '');
+    const clientHistory = sanitizeConversationHistory(conversationHistory);
+
+    if (!sanitizedMessage) {
+      return Response.json(
+        { error: 'Message and language are required' },
+        { status: 400 }
+      );
+    }
+
+    // Respond in the language the patient actually wrote in, not just the one selected
+    const languageCheck = resolveLanguage(sanitizedMessage, requestedLanguage);
+    const language = languageCheck.language;
+
+    // Server-side emergency detection (Layer 2)
+    const emergencyCheck = detectEmergency(sanitizedMessage, language);
+
+    // Rate limit per IP and per user — emergencies are never throttled
+    let rateLimitDecision: RateLimitDecision | null = null;
+    if (!emergencyCheck.isEmergency) {
+      rateLimitDecision = await checkRateLimit('triage', request, clerkUserId);
+      if (!rateLimitDecision.allowed) {
+        return rateLimitResponse(rateLimitDecision, 'Too many requests. Please wait a moment.');
+      }
+    }
+
+    // Daily model budget — over-budget callers get a cheaper triage, never a refusal.
+    // Emergencies always run at full budget.
+    const subject = usageSubject(clerkUserId, getClientIP(request));
+    const budgetPromise: Promise<BudgetTier> = emergencyCheck.isEmergency
+      ? Promise.resolve('full')
+      : getBudgetStatus(subject).then((b) => b.tier).catch(() => 'full');
+
+    // History comes from the server's record of the session, not the client
+    const conversationPromise = loadConversation({ sessionId: rawSessionId, clerkUserId, token: sessionToken });
+
     // Fetch patient profile for personalization (non-blocking — null if unavailable)
     let patientProfile: PatientProfile | null = null;
     if (clerkUserId) {
       try {
         const supabase = getServiceClient();
         if (supabase) {
-          const { data } = await supabase
-            .from('profiles')
-            .select('name, age, gender, pre_existing_conditions, preferred_language')
-            .eq('clerk_user_id', clerkUserId)
-            .single();
-          if (data) {
+          // Only notes the patient confirmed are trusted here; inferred ones reach the model through get_patient_history
+          const [{ data }, confirmedNotes, medications] = await Promise.all([
+            supabase
+              .from('profiles')
+              .select('name, age, gender, pre_existing_conditions, preferred_language')
+              .eq('clerk_user_id', clerkUserId)
+              .single(),
+            loadConfirmedNotes(clerkUserId),
+            loadCurrentMedications(clerkUserId),
+          ]);
+          if (data || confirmedNotes.length > 0 || medications.length > 0) {
             patientProfile = {
-              name: data.name,
-              age: data.age,
-              gender: data.gender,
-              pre_existing_conditions: data.pre_existing_conditions || [],
-              preferred_language: data.preferred_language,
+              name: data?.name,
+              age: data?.age,
+              gender: data?.gender,
+              pre_existing_conditions: data?.pre_existing_conditions || [],
+              preferred_language: data?.preferred_language,
+              confirmed_notes: confirmedNotes,
+              current_medications: medications.map(describeMedication),
             };
           }
         }
@@ -68,25 +125,26 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Validate and sanitize inputs
-    const language = validateLanguage(body.language);
-    const { text: sanitizedMessage } = sanitizeMessage(message || '');
-    const sanitizedHistory = sanitizeConversationHistory(conversationHistory);
-
-    // Guarantee a unique session ID — never fall back to 'unknown' (causes UNIQUE collisions)
-    const sessionId = rawSessionId || crypto.randomUUID();
-
-    if (!sanitizedMessage) {
-      return Response.json(
-        { error: 'Message and language are required' },
-        { status: 400 }
-      );
+    const budgetTier = await budgetPromise;
+    const conversation = await conversationPromise;
+    const { sessionId, history } = conversation;
+    const allowFollowUp = conversation.followUpCount < MAX_FOLLOW_UPS;
+    if (conversation.status !== 'forked' && historyDiverges(clientHistory, history)) {
+      console.warn(`[triage] Client-sent history for session ${sessionId} differs from the server record — using the server's`);
     }
+    // Documents uploaded earlier in this session — a forked session has none yet
+    const sessionDocuments = conversation.status === 'forked' ? [] : await listSessionDocuments(sessionId);
+    const usageMeter = createUsageMeter();
+    const provider = meterProvider(getLLMProvider(), usageMeter);
+    const saveUsage = () => recordUsage({
+      subject,
+      clerkUserId,
+      route: 'triage',
+      model: provider.model,
+      meter: usageMeter,
+      tier: budgetTier,
+    });
 
-    // Server-side emergency detection (Layer 2)
-    const emergencyCheck = detectEmergency(sanitizedMessage, language);
-
-    const encoder = new TextEncoder();
 
     // Telemetry accumulator — filled as stream progresses
     const tel: TriageEvent = {
@@ -97,7 +155,7 @@ export async function POST(request: NextRequest) {
       confidence: null,
       isEmergency: emergencyCheck.isEmergency,
       isMedicalQuery: true,
-      followUpCount: sanitizedHistory.filter(m => m.isFollowUp).length,
+      followUpCount: conversation.followUpCount,
       latencyMs: 0,
       hadError: false,
     };
@@ -107,213 +165,255 @@ export async function POST(request: NextRequest) {
     let resultReasoning: string | null = null;
     let thinkingAccumulator = '';
     let resultData: Record<string, unknown> | null = null;
+    let resultOverride: SafetyOverride | null = null;
 
-    const readable = new ReadableStream({
-      async start(controller) {
-        const send = (event: StreamEvent) => {
-          controller.enqueue(
-            encoder.encode(`data: ${JSON.stringify(event)}\n\n`)
-          );
-        };
+    const stream = openTriageStream(sessionId, clerkUserId);
+    const send = (event: StreamEvent) => stream.push(event);
 
-        try {
-          // If emergency detected, send emergency event immediately
-          if (emergencyCheck.isEmergency) {
-            send({ type: 'emergency', data: emergencyCheck });
-          }
+    // The run isn't tied to this response: if the connection drops it finishes
+    // into the buffer, and the client resumes via GET with Last-Event-ID
+    const run = async () => {
+      try {
+        send({ type: 'session', sessionId, token: conversation.token });
+
+        if (languageCheck.detected) {
+          send({ type: 'language', data: languageCheck });
+        }
+
+        // If emergency detected, send emergency event immediately
+        if (emergencyCheck.isEmergency) {
+          send({ type: 'emergency', data: emergencyCheck });
+        }
 
-          // Save user message to DB (fire-and-forget)
-          saveConversationMessage({
+        // Save user message to DB (fire-and-forget)
+        appendMessage({
+          session_id: sessionId,
+          clerk_user_id: clerkUserId,
+          role: 'user',
+          content: sanitizedMessage,
+          language,
+          is_follow_up: history.length > 0,
+        });
+
+        // ── Fast path 1: facility-only queries skip Claude entirely ──
+        if (FACILITY_QUERY_PATTERN.test(sanitizedMessage.trim()) && history.length === 0) {
+          const toolResult = await executeTriageTool(
+            'find_nearby_hospitals',
+            { care_level: 'hospital', radius_km: 10 },
+            { clerkUserId, sessionId, location: (location as GeoLocation) || null }
+          );
+          const hospitals = Array.isArray(toolResult.hospitals) ? toolResult.hospitals : [];
+          const fallbackUrl = typeof toolResult.fallback_url === 'string' ? toolResult.fallback_url : null;
+
+          const facilityMsg = t('triage.nearbyFacilities', language);
+          appendMessage({
             session_id: sessionId,
             clerk_user_id: clerkUserId,
-            role: 'user',
-            content: sanitizedMessage,
+            role: 'assistant',
+            content: facilityMsg,
             language,
-            is_follow_up: sanitizedHistory.length > 0,
+          });
+          send({
+            type: 'facility_result',
+            hospitals,
+            fallback_url: fallbackUrl,
+            message: facilityMsg,
           });
 
-          // ── Fast path 1: facility-only queries skip Claude entirely ──
-          if (FACILITY_QUERY_PATTERN.test(sanitizedMessage.trim()) && sanitizedHistory.length === 0) {
-            const toolResult = await executeTriageTool(
-              'find_nearby_hospitals',
-              { care_level: 'hospital', radius_km: 10 },
-              { clerkUserId, sessionId, location: (location as GeoLocation) || null }
-            );
-            const hospitals = Array.isArray(toolResult.hospitals) ? toolResult.hospitals : [];
-            const fallbackUrl = typeof toolResult.fallback_url === 'string' ? toolResult.fallback_url : null;
-
-            const FACILITY_MESSAGES: Record<string, string> = {
-              hi: 'यहाँ आपके पास के अस्पताल और क्लीनिक हैं। अगर कोई स्वास्थ्य समस्या है तो बताइए।',
-              ta: 'உங்களுக்கு அருகிலுள்ள மருத்துவமனைகள். ஏதாவது உடல்நலப் பிரச்சனை இருந்தால் சொல்லுங்கள்.',
-              te: 'మీ సమీపంలోని ఆసుపత్రులు ఇక్కడ ఉన్నాయి. ఏదైనా ఆరోగ్య సమస్య ఉంటే చెప్పండి.',
-              mr: 'तुमच्या जवळचे रुग्णालये येथे आहेत. काही आरोग्य समस्या असल्यास सांगा.',
-              kn: 'ಇಲ್ಲಿ ನಿಮ್ಮ ಹತ್ತಿರದ ಆಸ್ಪತ್ರೆಗಳಿವೆ. ಯಾವುದಾದರೂ ಆರೋಗ್ಯ ಸಮಸ್ಯೆ ಇದ್ದರೆ ಹೇಳಿ.',
-              bn: 'এখানে আপনার কাছের হাসপাতালগুলি আছে। কোনো স্বাস্থ্য সমস্যা থাকলে বলুন।',
-              en: 'Here are healthcare facilities near you. Let me know if you have any health concerns.',
-            };
+          stream.end();
+          tel.latencyMs = Date.now() - startTime;
+          tel.isMedicalQuery = false;
+          tel.severity = 'self_care';
+          telemetry.recordTriage(tel);
+          return;
+        }
 
-            const facilityMsg = FACILITY_MESSAGES[language] || FACILITY_MESSAGES.en;
-            controller.enqueue(encoder.encode(`data: ${JSON.stringify({
-              type: 'facility_result',
-              hospitals,
-              fallback_url: fallbackUrl,
-              message: facilityMsg,
-            })}\n\n`));
+        // ── Fast path 2: common symptom patterns → instant follow-up (skips Claude for first round) ──
+        if (history.length === 0) {
+          const patternMatch = detectSymptomPattern(sanitizedMessage, language, false);
+          if (patternMatch) {
+            send({
+              type: 'follow_up',
+              question: patternMatch.followUpQuestion,
+              options: patternMatch.followUpOptions,
+            });
+
+            // Persist follow-up question to DB
+            appendMessage({
+              session_id: sessionId,
+              clerk_user_id: clerkUserId,
+              role: 'assistant',
+              content: patternMatch.followUpQuestion,
+              language,
+              is_follow_up: true,
+            });
 
-            controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+            stream.end();
             tel.latencyMs = Date.now() - startTime;
-            tel.isMedicalQuery = false;
-            tel.severity = 'self_care';
+            tel.isMedicalQuery = true;
             telemetry.recordTriage(tel);
-            controller.close();
             return;
           }
+        }
 
-          // ── Fast path 2: common symptom patterns → instant follow-up (skips Claude for first round) ──
-          if (sanitizedHistory.length === 0) {
-            const patternMatch = detectSymptomPattern(sanitizedMessage, language, false);
-            if (patternMatch) {
-              send({
-                type: 'follow_up',
-                question: patternMatch.followUpQuestion,
-                options: patternMatch.followUpOptions,
-              });
+        // Dev-only: capture model turns + tool calls into a replayable fixture
+        const recorder = isFixtureRecordingEnabled()
+          ? createFixtureRecorder({
+              message: sanitizedMessage,
+              language,
+              history,
+              input_mode: (inputMode as 'text' | 'voice' | 'voice_conversation') || 'text',
+              location: (location as GeoLocation) || null,
+              patient_profile: patientProfile,
+              signed_in: !!clerkUserId,
+              allow_follow_up: allowFollowUp,
+              budget_tier: budgetTier,
+              session_documents: sessionDocuments,
+            }, provider)
+          : null;
+
+        // Stream triage response from Claude (with tool use)
+        for await (const event of streamTriage(
+          sanitizedMessage,
+          language,
+          history,
+          (inputMode as 'text' | 'voice' | 'voice_conversation') || 'text',
+          clerkUserId,
+          sessionId,
+          patientProfile,
+          location || null,
+          { provider, ...recorder?.options, budgetTier, allowFollowUp, sessionDocuments }
+        )) {
+          send(event);
+          recorder?.recordEvent(event);
+
+          // Capture thinking content for DB
+          if (event.type === 'thinking') {
+            thinkingAccumulator += event.content;
+          }
 
-              // Persist follow-up question to DB
-              saveConversationMessage({
+          // Capture result metrics for telemetry + DB
+          if (event.type === 'result') {
+            tel.severity = event.data.severity;
+            tel.confidence = event.data.confidence;
+            tel.isMedicalQuery = event.data.is_medical_query !== false;
+            resultSymptoms = event.data.symptoms_identified || [];
+            resultReasoning = event.data.reasoning_summary || null;
+            resultData = event.data as unknown as Record<string, unknown>;
+            resultOverride = event.data.safety_override || null;
+            if (event.data.severity === 'emergency') tel.isEmergency = true;
+          }
+
+          // Save follow-up questions as assistant messages
+          if (event.type === 'follow_up' || (event.type === 'result' && event.data.needs_follow_up && event.data.follow_up_question)) {
+            const question = event.type === 'follow_up'
+              ? (event as { type: 'follow_up'; question: string }).question
+              : event.data.follow_up_question;
+            if (question) {
+              appendMessage({
                 session_id: sessionId,
                 clerk_user_id: clerkUserId,
                 role: 'assistant',
-                content: patternMatch.followUpQuestion,
+                content: question,
                 language,
                 is_follow_up: true,
               });
-
-              controller.enqueue(encoder.encode('data: [DONE]\n\n'));
-              tel.latencyMs = Date.now() - startTime;
-              tel.isMedicalQuery = true;
-              telemetry.recordTriage(tel);
-              controller.close();
-              return;
-            }
-          }
-
-          // Stream triage response from Claude (with tool use)
-          for await (const event of streamTriage(
-            sanitizedMessage,
-            language,
-            sanitizedHistory,
-            (inputMode as 'text' | 'voice' | 'voice_conversation') || 'text',
-            clerkUserId,
-            sessionId,
-            patientProfile,
-            location || null
-          )) {
-            send(event);
-
-            // Capture thinking content for DB
-            if (event.type === 'thinking') {
-              thinkingAccumulator += event.content;
-            }
-
-            // Capture result metrics for telemetry + DB
-            if (event.type === 'result') {
-              tel.severity = event.data.severity;
-              tel.confidence = event.data.confidence;
-              tel.isMedicalQuery = event.data.is_medical_query !== false;
-              resultSymptoms = event.data.symptoms_identified || [];
-              resultReasoning = event.data.reasoning_summary || null;
-              resultData = event.data as unknown as Record<string, unknown>;
-            }
-
-            // Save follow-up questions as assistant messages
-            if (event.type === 'follow_up' || (event.type === 'result' && event.data.needs_follow_up && event.data.follow_up_question)) {
-              const question = event.type === 'follow_up'
-                ? (event as { type: 'follow_up'; question: string }).question
-                : event.data.follow_up_question;
-              if (question) {
-                saveConversationMessage({
-                  session_id: sessionId,
-                  clerk_user_id: clerkUserId,
-                  role: 'assistant',
-                  content: question,
-                  language,
-                  is_follow_up: true,
-                });
-              }
             }
           }
 
-          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
-          tel.latencyMs = Date.now() - startTime;
-          telemetry.recordTriage(tel);
-
-          // Persist to Supabase (fire-and-forget)
-          if (tel.severity || tel.isEmergency) {
-            saveTriageSession({
-              session_id: sessionId,
-              clerk_user_id: clerkUserId,
-              language,
-              severity: tel.severity || 'emergency',
-              confidence: tel.confidence,
-              symptoms: resultSymptoms,
-              input_mode: (inputMode as string) || 'text',
-              reasoning_summary: resultReasoning,
-              is_emergency: tel.isEmergency,
-              is_medical_query: tel.isMedicalQuery,
-              follow_up_count: tel.followUpCount,
-              latency_ms: tel.latencyMs,
-            });
-
-            // Save full result JSON for history replay
-            if (resultData) {
-              saveTriageResult({
+          // A final result stays in the history as context for later messages
+          if (event.type === 'result' && !(event.data.needs_follow_up && event.data.follow_up_question)) {
+            const summary = summarizeResult(event.data);
+            if (summary) {
+              appendMessage({
                 session_id: sessionId,
                 clerk_user_id: clerkUserId,
-                result_json: resultData,
-                thinking_content: thinkingAccumulator || null,
+                role: 'assistant',
+                content: summary,
                 language,
+                is_result: true,
               });
             }
           }
+        }
 
-          controller.close();
-        } catch (error) {
-          const errorMessage =
-            error instanceof Error ? error.message : 'An unexpected error occurred';
-          send({ type: 'error', message: errorMessage });
-          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
-          tel.hadError = true;
-          tel.latencyMs = Date.now() - startTime;
-          telemetry.recordTriage(tel);
+        stream.end();
+        tel.latencyMs = Date.now() - startTime;
+        telemetry.recordTriage(tel);
+        saveUsage();
 
-          // Persist error sessions too so they show in history
+        if (recorder) {
+          saveFixture(recorder.finish(), sessionId)
+            .then((file) => console.log(`[triage] Fixture recorded: ${file}`))
+            .catch((err) => console.error('[triage] Failed to save fixture:', err));
+        }
+
+        // Persist to Supabase (fire-and-forget)
+        if (tel.severity || tel.isEmergency) {
           saveTriageSession({
             session_id: sessionId,
             clerk_user_id: clerkUserId,
             language,
-            severity: tel.severity || 'routine',
+            severity: tel.severity || 'emergency',
             confidence: tel.confidence,
             symptoms: resultSymptoms,
             input_mode: (inputMode as string) || 'text',
-            reasoning_summary: `Error: ${errorMessage}`,
+            reasoning_summary: resultReasoning,
             is_emergency: tel.isEmergency,
             is_medical_query: tel.isMedicalQuery,
             follow_up_count: tel.followUpCount,
             latency_ms: tel.latencyMs,
+            model_severity: resultOverride?.model_severity ?? null,
+            safety_override_reason: resultOverride ? formatOverrideReason(resultOverride) : null,
           });
 
-          controller.close();
+          // Save full result JSON for history replay
+          if (resultData) {
+            saveTriageResult({
+              session_id: sessionId,
+              clerk_user_id: clerkUserId,
+              result_json: resultData,
+              thinking_content: thinkingAccumulator || null,
+              language,
+              stream_id: stream.streamId,
+            });
+          }
         }
-      },
-    });
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : 'An unexpected error occurred';
+        send({ type: 'error', message: errorMessage });
+        stream.end();
+        tel.hadError = true;
+        tel.latencyMs = Date.now() - startTime;
+        telemetry.recordTriage(tel);
+        saveUsage();
+
+        // Persist error sessions too so they show in history
+        saveTriageSession({
+          session_id: sessionId,
+          clerk_user_id: clerkUserId,
+          language,
+          severity: tel.severity || 'routine',
+          confidence: tel.confidence,
+          symptoms: resultSymptoms,
+          input_mode: (inputMode as string) || 'text',
+          reasoning_summary: `Error: ${errorMessage}`,
+          is_emergency: tel.isEmergency,
+          is_medical_query: tel.isMedicalQuery,
+          follow_up_count: tel.followUpCount,
+          latency_ms: tel.latencyMs,
+        });
+      } finally {
+        stream.end();
+      }
+    };
+    after(run());
 
-    return new Response(readable, {
+    return new Response(stream.subscribe(), {
       headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache, no-transform',
-        Connection: 'keep-alive',
-        'X-Accel-Buffering': 'no',
+        ...SSE_HEADERS,
+        ...(rateLimitDecision ? rateLimitHeaders(rateLimitDecision) : {}),
       },
     });
   } catch (error) {
@@ -324,3 +424,50 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+/**
+ * Resume a triage stream after a dropped connection.
+ * GET /api/triage?sessionId=… with the `Last-Event-ID` header (or a `lastEventId`
+ * param) and, for anonymous sessions, `X-Session-Token`. Without an event ID the
+ * stream is replayed from the start.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const sessionId = searchParams.get('sessionId');
+  if (!sessionId) {
+    return Response.json({ error: 'sessionId is required' }, { status: 400 });
+  }
+
+  const lastEvent = parseEventId(request.headers.get('last-event-id') || searchParams.get('lastEventId'));
+  const token = request.headers.get('x-session-token');
+  const clerkUserId = await getClerkUserId();
+  const canAccess = (owner: string | null) => owner ? owner === clerkUserId : verifySessionToken(sessionId, token);
+
+  // Still buffered — replay what was missed, then follow it live if the run is ongoing
+  const buffered = findTriageStream(sessionId);
+  if (buffered && (!lastEvent || lastEvent.streamId === buffered.streamId) && canAccess(buffered.clerkUserId)) {
+    return new Response(subscribeTriageStream(buffered, lastEvent?.seq ?? 0), { headers: SSE_HEADERS });
+  }
+
+  // Buffer expired — a finished stream can still be replayed from its stored result
+  const supabase = getServiceClient();
+  if (supabase) {
+    const { data } = await supabase
+      .from('triage_results')
+      .select('clerk_user_id, result_json, thinking_content, stream_id')
+      .eq('session_id', sessionId)
+      .single();
+
+    if (data?.stream_id && (!lastEvent || lastEvent.streamId === data.stream_id) && canAccess(data.clerk_user_id)) {
+      const events: StreamEvent[] = [];
+      // Thinking is only resent to a client that saw none of the stream
+      if (!lastEvent && data.thinking_content) {
+        events.push({ type: 'thinking', content: data.thinking_content }, { type: 'thinking_done' });
+      }
+      events.push({ type: 'result', data: data.result_json as TriageResult });
+      return new Response(replayFrames(data.stream_id, events), { headers: SSE_HEADERS });
+    }
+  }
+
+  return Response.json({ error: 'Stream no longer available' }, { status: 404 });
+}
@@ -1,38 +1,46 @@
 import { NextRequest } from 'next/server';
-import WebSocket from 'ws';
-import { telemetry } from '@/lib/telemetry';
-import { rateLimit, getClientIP } from '@/lib/rate-limit';
+import { checkRateLimit, rateLimitHeaders, rateLimitResponse } from '@/lib/rate-limit';
+import { supportsTTS } from '@/lib/constants';
+import { getSpeechProviders, toSpeechText } from '@/lib/speech-provider';
+import { streamCachedSpeech } from '@/lib/tts-cache';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
-const SARVAM_WS_URL = 'wss://api.sarvam.ai/text-to-speech/ws';
+async function getClerkUserId(): Promise<string | null> {
+  try {
+    const { auth } = await import('@clerk/nextjs/server');
+    const { userId } = await auth();
+    return userId;
+  } catch {
+    return null;
+  }
+}
 
 /**
- * WebSocket-proxied streaming TTS endpoint.
+ * Progressive streaming TTS endpoint.
  *
- * Opens a real WebSocket to Sarvam's TTS streaming API, sends text,
- * and relays progressive MP3 audio chunks back to the client via SSE.
+ * Relays MP3 audio chunks from the speech provider's streaming synthesis
+ * back to the client via SSE — for Sarvam a WebSocket to its TTS streaming
+ * API, for the local server one request per sentence. A provider that fails
+ * before its first chunk is replaced by the fallback. Phrases in the
+ * server-side TTS cache are sent as a single chunk without synthesis.
  *
  * Advantages over REST-based /api/tts-stream:
- * - Single connection handles up to 2500 chars (no manual chunking)
+ * - Sarvam handles up to 2500 chars on one connection (no manual chunking)
  * - Progressive audio delivery — first chunk in ~200-300ms
  * - MP3 format = smaller payloads, faster transfer
- * - Sarvam handles sentence splitting internally
  *
  * Events sent to client:
  *   data: {"type":"audio","index":0,"audio":"base64...","format":"mp3"}
- *   data: {"type":"done","totalChunks":5}
+ *   data: {"type":"done","totalChunks":5,"cached":false}
  *   data: [DONE]
  */
 export async function POST(request: NextRequest) {
-  const startTime = Date.now();
-
-  // Rate limit: 50 TTS requests per IP per minute
-  const ip = getClientIP(request);
-  const { allowed } = rateLimit(`tts:${ip}`, 50);
-  if (!allowed) {
-    return Response.json({ error: 'Too many requests.' }, { status: 429 });
+  // Rate limit per IP, and per user when signed in
+  const rateLimitDecision = await checkRateLimit('tts', request, await getClerkUserId());
+  if (!rateLimitDecision.allowed) {
+    return rateLimitResponse(rateLimitDecision, 'Too many requests.');
   }
 
   try {
@@ -42,29 +50,24 @@ export async function POST(request: NextRequest) {
       return Response.json({ error: 'Text is required' }, { status: 400 });
     }
 
-    const apiKey = process.env.SARVAM_API_KEY;
-    if (!apiKey) {
-      return Response.json({ error: 'Sarvam API key not configured' }, { status: 500 });
-    }
-
     // Strip markdown for cleaner speech
-    const plainText = text
-      .replace(/#{1,3}\s+/g, '')
-      .replace(/\*\*(.+?)\*\*/g, '$1')
-      .replace(/\*(.+?)\*/g, '$1')
-      .replace(/^[-*]\s+/gm, '')
-      .replace(/^\d+\.\s+/gm, '')
-      .trim();
+    const plainText = toSpeechText(text);
 
     if (!plainText) {
       return Response.json({ error: 'No text after stripping markdown' }, { status: 400 });
     }
 
     const langCode = language_code || 'en-IN';
+    if (!supportsTTS(langCode)) {
+      return Response.json({ error: `TTS is not available for ${langCode}` }, { status: 400 });
+    }
+    if (getSpeechProviders('tts', langCode).length === 0) {
+      return Response.json({ error: `No text-to-speech provider configured for ${langCode}` }, { status: 500 });
+    }
     const encoder = new TextEncoder();
 
     const readable = new ReadableStream({
-      start(controller) {
+      async start(controller) {
         const send = (data: Record<string, unknown>) => {
           try {
             controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
@@ -74,121 +77,26 @@ export async function POST(request: NextRequest) {
         };
 
         let chunkIndex = 0;
-        let wsOpen = false;
-        let completed = false;
-
-        const ws = new WebSocket(
-          `${SARVAM_WS_URL}?model=bulbul:v3&send_completion_event=true`,
-          {
-            headers: {
-              'api-subscription-key': apiKey,
-            },
+        let cached = false;
+        try {
+          for await (const audio of streamCachedSpeech(plainText, langCode, request.signal, () => { cached = true; })) {
+            // Stream audio chunk to client immediately
+            send({ type: 'audio', index: chunkIndex, audio: audio.toString('base64'), format: 'mp3' });
+            chunkIndex++;
           }
-        );
-
-        const cleanup = () => {
-          if (!completed) {
-            completed = true;
-            send({ type: 'done', totalChunks: chunkIndex });
-            controller.enqueue(encoder.encode('data: [DONE]\n\n'));
-
-            telemetry.recordTTS({
-              timestamp: startTime,
-              language: langCode,
-              textLength: plainText.length,
-              latencyMs: Date.now() - startTime,
-              success: chunkIndex > 0,
-            });
-
-            try {
-              controller.close();
-            } catch {
-              // Already closed
-            }
-          }
-        };
-
-        ws.on('open', () => {
-          wsOpen = true;
-
-          // Step 1: Send config
-          ws.send(JSON.stringify({
-            type: 'config',
-            data: {
-              target_language_code: langCode,
-              speaker: 'simran',
-              pace: 1.0,
-              temperature: 0.6,
-              speech_sample_rate: 24000,
-              output_audio_codec: 'mp3',
-              output_audio_bitrate: '128k',
-              min_buffer_size: 30,   // Minimum for fastest first audio
-              max_chunk_length: 150, // Natural sentence boundaries
-              enable_preprocessing: true,
-            },
-          }));
-
-          // Step 2: Send text (up to 2500 chars, no manual chunking needed)
-          ws.send(JSON.stringify({
-            type: 'text',
-            data: { text: plainText.slice(0, 2500) },
-          }));
-
-          // Step 3: Flush to process any remaining buffer
-          ws.send(JSON.stringify({ type: 'flush' }));
-        });
-
-        ws.on('message', (raw) => {
-          try {
-            const msg = JSON.parse(raw.toString());
-
-            if (msg.type === 'audio' && msg.data?.audio) {
-              // Stream audio chunk to client immediately
-              send({
-                type: 'audio',
-                index: chunkIndex,
-                audio: msg.data.audio,
-                format: 'mp3',
-              });
-              chunkIndex++;
-            } else if (msg.type === 'event' && msg.data?.event_type === 'final') {
-              // Audio generation complete
-              cleanup();
-              ws.close();
-            } else if (msg.type === 'error') {
-              console.error('Sarvam WS TTS error:', msg.data?.message);
-              if (chunkIndex === 0) {
-                send({ type: 'error', message: msg.data?.message || 'TTS failed' });
-              }
-              cleanup();
-              ws.close();
-            }
-          } catch {
-            // Skip malformed messages
-          }
-        });
-
-        ws.on('error', (err) => {
-          console.error('Sarvam WS connection error:', err.message);
-          if (chunkIndex === 0) {
-            send({ type: 'error', message: 'WebSocket connection failed' });
-          }
-          cleanup();
-        });
-
-        ws.on('close', () => {
-          wsOpen = false;
-          cleanup();
-        });
-
-        // Safety timeout — close after 30s max
-        setTimeout(() => {
-          if (wsOpen && !completed) {
-            console.warn('TTS WebSocket timeout after 30s');
-            cleanup();
-            ws.close();
-          }
-        }, 30000);
+        } catch (err) {
+          // Every provider failed, or the one streaming stopped part-way
+          console.error('Streaming TTS error:', err instanceof Error ? err.message : err);
+          send({ type: 'error', message: chunkIndex > 0 ? 'Audio cut off' : 'TTS failed', truncated: chunkIndex > 0 });
+        }
+
+        send({ type: 'done', totalChunks: chunkIndex, cached });
+        try {
+          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+          controller.close();
+        } catch {
+          // Already closed
+        }
       },
     });
 
@@ -198,17 +106,11 @@ export async function POST(request: NextRequest) {
         'Cache-Control': 'no-cache, no-transform',
         Connection: 'keep-alive',
         'X-Accel-Buffering': 'no',
+        ...rateLimitHeaders(rateLimitDecision),
       },
     });
   } catch (error) {
     console.error('TTS WS route error:', error);
-    telemetry.recordTTS({
-      timestamp: startTime,
-      language: 'unknown',
-      textLength: 0,
-      latencyMs: Date.now() - startTime,
-      success: false,
-    });
     return Response.json(
       { error: error instanceof Error ? error.message : 'TTS WebSocket streaming failed' },
       { status: 500 }
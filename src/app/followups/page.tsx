@@ -0,0 +1,266 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef, Suspense } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { SEVERITY_CONFIG, getLanguageDir } from '@/lib/constants';
+import { useTranslations } from '@/hooks/useTranslations';
+import { Language } from '@/types';
+import type { FollowUpListItem, FollowUpResponse } from '@/lib/followups';
+import AppShell from '@/components/AppShell';
+
+const ANSWERS: { value: FollowUpResponse; key: 'followup.better' | 'followup.same' | 'followup.worse'; className: string }[] = [
+  { value: 'better', key: 'followup.better', className: 'bg-green-50 text-green-700 border-green-200 hover:bg-green-100' },
+  { value: 'same', key: 'followup.same', className: 'bg-amber-50 text-amber-700 border-amber-200 hover:bg-amber-100' },
+  { value: 'worse', key: 'followup.worse', className: 'bg-red-50 text-red-700 border-red-200 hover:bg-red-100' },
+];
+
+const STATUS_KEYS = {
+  completed: 'followup.statusCompleted',
+  escalated: 'followup.statusEscalated',
+  dismissed: 'followup.statusDismissed',
+} as const;
+
+export default function FollowUpsPage() {
+  return (
+    <Suspense fallback={
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin w-8 h-8 border-4 border-teal-200 border-t-teal-600 rounded-full" />
+      </div>
+    }>
+      <FollowUps />
+    </Suspense>
+  );
+}
+
+function FollowUps() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const highlightId = searchParams.get('check');
+  const highlightRef = useRef<HTMLDivElement>(null);
+
+  const [checks, setChecks] = useState<FollowUpListItem[]>([]);
+  const [language, setLanguage] = useState<Language>('hi');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [answering, setAnswering] = useState<string | null>(null);
+  const [answerError, setAnswerError] = useState<string | null>(null);
+  const t = useTranslations(language);
+
+  const fetchChecks = useCallback(async () => {
+    try {
+      const res = await fetch('/api/followups');
+      if (res.status === 401) {
+        setError('sign-in');
+        return;
+      }
+      if (!res.ok) throw new Error('Failed to load');
+      const data: { language: Language; checks: FollowUpListItem[] } = await res.json();
+      setLanguage(data.language);
+      setChecks(data.checks);
+    } catch {
+      setError('load');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const saved = localStorage.getItem('sehat_preferred_language');
+    if (saved) setLanguage(saved as Language);
+    fetchChecks();
+  }, [fetchChecks]);
+
+  // Reminder links point at one check — bring it into view
+  useEffect(() => {
+    if (!loading && highlightRef.current) {
+      highlightRef.current.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [loading]);
+
+  async function answer(checkId: string, response: FollowUpResponse) {
+    setAnswering(checkId);
+    setAnswerError(null);
+    try {
+      const res = await fetch(`/api/followups/${checkId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ response }),
+      });
+      if (res.status === 409) {
+        // Answered elsewhere (another tab, a reminder link) — show where it stands
+        await fetchChecks();
+        return;
+      }
+      if (!res.ok) throw new Error('Failed to answer');
+      window.dispatchEvent(new Event('sehat-followups-changed'));
+
+      const data: { check: { status: FollowUpListItem['status']; response: FollowUpListItem['response']; responded_at: string | null }; sessionId: string | null } = await res.json();
+      if (data.sessionId) {
+        // Continue the original triage in the home chat
+        router.push(`/?followupCheck=${checkId}`);
+        return;
+      }
+      setChecks(prev => prev.map(c => c.id === checkId
+        ? { ...c, status: data.check.status, response: data.check.response, responded_at: data.check.responded_at, due: false }
+        : c));
+    } catch {
+      setAnswerError(checkId);
+    } finally {
+      setAnswering(null);
+    }
+  }
+
+  if (error === 'sign-in') {
+    return (
+      <div className="min-h-screen bg-gray-50 flex flex-col items-center justify-center gap-4 p-4" dir={getLanguageDir(language)}>
+        <div className="w-16 h-16 rounded-full bg-teal-100 flex items-center justify-center">
+          <svg className="w-8 h-8 text-teal-600" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M16.5 10.5V6.75a4.5 4.5 0 10-9 0v3.75m-.75 11.25h10.5a2.25 2.25 0 002.25-2.25v-6.75a2.25 2.25 0 00-2.25-2.25H6.75a2.25 2.25 0 00-2.25 2.25v6.75a2.25 2.25 0 002.25 2.25z" />
+          </svg>
+        </div>
+        <h2 className="text-xl font-bold text-gray-700 text-center">{t('followup.signIn')}</h2>
+        <Link href="/" className="mt-2 px-6 py-2.5 bg-teal-600 text-white rounded-xl font-medium hover:bg-teal-700 transition-colors">
+          Back to Sehat
+        </Link>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <p className="text-gray-500">{t('followup.loadError')}</p>
+      </div>
+    );
+  }
+
+  const locale = language === 'en' ? 'en-IN' : `${language}-IN`;
+  const formatDate = (iso: string) => new Date(iso).toLocaleDateString(locale, {
+    month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit',
+  });
+
+  const sections: { key: 'followup.sectionDue' | 'followup.sectionUpcoming' | 'followup.sectionPast'; items: FollowUpListItem[] }[] = [
+    { key: 'followup.sectionDue', items: checks.filter(c => c.status === 'pending' && c.due) },
+    // Soonest first
+    { key: 'followup.sectionUpcoming', items: checks.filter(c => c.status === 'pending' && !c.due).reverse() },
+    { key: 'followup.sectionPast', items: checks.filter(c => c.status !== 'pending') },
+  ];
+
+  return (
+    <AppShell title={t('followup.pageTitle')}>
+      <div className="max-w-3xl mx-auto space-y-6" dir={getLanguageDir(language)}>
+        {loading && (
+          <div className="flex items-center justify-center py-20">
+            <div className="animate-spin w-8 h-8 border-4 border-teal-200 border-t-teal-600 rounded-full" />
+          </div>
+        )}
+
+        {/* Empty state */}
+        {!loading && checks.length === 0 && (
+          <div className="text-center py-16 space-y-3">
+            <p className="text-gray-400 max-w-sm mx-auto">{t('followup.empty')}</p>
+            <Link href="/" className="inline-block px-5 py-2 bg-teal-600 text-white text-sm rounded-xl font-medium hover:bg-teal-700 transition-colors">
+              Start a triage
+            </Link>
+          </div>
+        )}
+
+        {sections.filter(s => s.items.length > 0).map(section => (
+          <section key={section.key} className="space-y-3">
+            <h2 className="text-xs font-semibold uppercase tracking-wide text-gray-400">{t(section.key)}</h2>
+            <div className="space-y-3 stagger-children">
+              {section.items.map(c => {
+                const config = c.severity ? SEVERITY_CONFIG[c.severity] : null;
+                const severityColor = config?.color || '#6b7280';
+
+                return (
+                  <div
+                    key={c.id}
+                    ref={c.id === highlightId ? highlightRef : undefined}
+                    className={`card-clinical overflow-hidden ${c.id === highlightId ? 'ring-2 ring-teal-400' : ''}`}
+                    style={{ borderInlineStartWidth: 4, borderInlineStartColor: c.due ? '#0d9488' : severityColor }}
+                  >
+                    <div className="p-4 space-y-2">
+                      <div className="flex items-start justify-between gap-3">
+                        <p className="text-sm font-medium text-gray-800" dir={getLanguageDir(c.language)}>{c.reason}</p>
+                        <time dateTime={c.check_at} className="flex-shrink-0 text-xs text-gray-400">
+                          {t('followup.checkAt', { date: formatDate(c.check_at) })}
+                        </time>
+                      </div>
+
+                      <div className="flex flex-wrap items-center gap-1">
+                        {config && (
+                          <span
+                            className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-bold"
+                            style={{ backgroundColor: `${severityColor}15`, color: severityColor }}
+                          >
+                            {config.icon} {config.label}
+                          </span>
+                        )}
+                        {c.symptoms.slice(0, 4).map((sym, i) => (
+                          <span key={i} className="text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full">
+                            {sym}
+                          </span>
+                        ))}
+                      </div>
+
+                      {c.escalation_criteria && (
+                        <p className="text-xs text-red-700 bg-red-50 border border-red-100 rounded-lg px-3 py-2" dir={getLanguageDir(c.language)}>
+                          {t('followup.escalation', { criteria: c.escalation_criteria })}
+                        </p>
+                      )}
+                    </div>
+
+                    {c.status === 'pending' ? (
+                      <div className="px-4 pb-4 space-y-2">
+                        <p className="text-xs font-medium text-gray-500">{t('followup.question')}</p>
+                        <div className="flex flex-wrap gap-2">
+                          {ANSWERS.map(a => (
+                            <button
+                              key={a.value}
+                              onClick={() => answer(c.id, a.value)}
+                              disabled={answering !== null}
+                              className={`px-4 py-2 text-sm font-medium rounded-xl border transition-colors disabled:opacity-50 ${a.className}`}
+                            >
+                              {t(a.key)}
+                            </button>
+                          ))}
+                          <button
+                            onClick={() => answer(c.id, 'dismiss')}
+                            disabled={answering !== null}
+                            className="px-3 py-2 text-xs text-gray-400 hover:text-gray-600 transition-colors disabled:opacity-50"
+                          >
+                            {t('followup.dismiss')}
+                          </button>
+                        </div>
+                        {answerError === c.id && (
+                          <p className="text-xs text-red-600">{t('followup.answerError')}</p>
+                        )}
+                      </div>
+                    ) : (
+                      <div className="px-4 pb-3 flex items-center justify-between border-t border-gray-50 pt-2">
+                        <span className="text-xs text-gray-400">
+                          {t(STATUS_KEYS[c.status])}
+                          {c.responded_at && ` · ${formatDate(c.responded_at)}`}
+                        </span>
+                        {c.followup_session_id && (
+                          <Link
+                            href={`/?followupCheck=${c.id}`}
+                            className="text-xs text-teal-600 hover:text-teal-700 px-2.5 py-1.5 rounded-lg hover:bg-teal-50 transition-colors font-medium"
+                          >
+                            {t('followup.continue')}
+                          </Link>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+        ))}
+      </div>
+    </AppShell>
+  );
+}
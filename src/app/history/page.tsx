@@ -20,7 +20,8 @@ interface SessionSummary {
 
 const LANG_LABELS: Record<string, string> = {
   hi: 'Hindi', ta: 'Tamil', te: 'Telugu', mr: 'Marathi',
-  kn: 'Kannada', bn: 'Bengali', en: 'English',
+  kn: 'Kannada', bn: 'Bengali', gu: 'Gujarati', ml: 'Malayalam',
+  pa: 'Punjabi', or: 'Odia', ur: 'Urdu', en: 'English',
 };
 
 function RelativeDate({ date }: { date: Date }) {
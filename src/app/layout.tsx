@@ -3,6 +3,7 @@ import { Noto_Sans } from 'next/font/google';
 import { ClerkProvider } from '@clerk/nextjs';
 import { Analytics } from '@vercel/analytics/react';
 import ErrorBoundary from '@/components/ErrorBoundary';
+import { LANGUAGE_CODES } from '@/lib/constants';
 import './globals.css';
 
 const notoSans = Noto_Sans({
@@ -21,7 +22,7 @@ export const metadata: Metadata = {
     template: '%s | Sehat',
   },
   description:
-    'Voice-first multilingual medical triage for India. Speak your symptoms in Hindi, Tamil, Telugu, Marathi, Kannada, Bengali, or English. AI-powered severity assessment with Claude Opus 4.6 extended thinking.',
+    'Voice-first multilingual medical triage for India. Speak your symptoms in Hindi, Tamil, Telugu, Marathi, Kannada, Bengali, Gujarati, Malayalam, Punjabi, Odia, Urdu, or English. AI-powered severity assessment with Claude Opus 4.6 extended thinking.',
   keywords: [
     'medical triage',
     'AI health',
@@ -41,7 +42,7 @@ export const metadata: Metadata = {
   openGraph: {
     title: 'Sehat - AI Medical Triage Assistant',
     description:
-      'Voice-first medical triage in 7 Indian languages. Understand symptom severity and get directed to the right care. Powered by Claude Opus 4.6.',
+      'Voice-first medical triage in 12 languages. Understand symptom severity and get directed to the right care. Powered by Claude Opus 4.6.',
     type: 'website',
     siteName: 'Sehat',
     locale: 'en_IN',
@@ -51,7 +52,7 @@ export const metadata: Metadata = {
     card: 'summary_large_image',
     title: 'Sehat - AI Medical Triage Assistant',
     description:
-      'Voice-first medical triage in 7 Indian languages. Powered by Claude Opus 4.6 extended thinking.',
+      'Voice-first medical triage in 12 languages. Powered by Claude Opus 4.6 extended thinking.',
   },
 };
 
@@ -88,7 +89,7 @@ export default function RootLayout({
               name: 'Sehat',
               alternateName: 'सेहत',
               description:
-                'Voice-first multilingual medical triage for India. AI-powered severity assessment in 7 Indian languages.',
+                'Voice-first multilingual medical triage for India. AI-powered severity assessment in 12 languages.',
               url: baseUrl,
               applicationCategory: 'HealthApplication',
               operatingSystem: 'Web',
@@ -101,7 +102,7 @@ export default function RootLayout({
                 '@type': 'Person',
                 name: 'Sahaib Singh Arora',
               },
-              inLanguage: ['en', 'hi', 'ta', 'te', 'mr', 'kn', 'bn'],
+              inLanguage: LANGUAGE_CODES,
             }),
           }}
         />
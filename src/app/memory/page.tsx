@@ -0,0 +1,265 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import type { ClinicalNote, NoteType } from '@/lib/patient-memory';
+import AppShell from '@/components/AppShell';
+
+const TYPE_LABELS: Record<NoteType, { label: string; hint: string }> = {
+  chronic_condition: { label: 'Long-term conditions', hint: 'e.g. diabetes, asthma, high blood pressure' },
+  allergy: { label: 'Allergies', hint: 'Medicines, foods or anything else you react to' },
+  family_history: { label: 'Family history', hint: 'Conditions that run in your family' },
+  medication: { label: 'Medicines', hint: 'What you take regularly' },
+  observation: { label: 'Other notes', hint: 'Risk factors and other things Sehat noticed' },
+};
+
+const TYPE_ORDER: NoteType[] = ['chronic_condition', 'allergy', 'family_history', 'medication', 'observation'];
+
+export default function MemoryPage() {
+  const [notes, setNotes] = useState<ClinicalNote[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ id: string; content: string; note_type: NoteType } | null>(null);
+  const [confirmingDelete, setConfirmingDelete] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchNotes() {
+      try {
+        const res = await fetch('/api/memory');
+        if (res.status === 401) {
+          setError('sign-in');
+          return;
+        }
+        if (!res.ok) throw new Error('Failed to load');
+        const data = await res.json();
+        setNotes(data.notes);
+      } catch {
+        setError('Failed to load your notes');
+      } finally {
+        setLoading(false);
+      }
+    }
+    fetchNotes();
+  }, []);
+
+  async function saveNote(id: string, body: { content?: string; note_type?: NoteType; confirm?: boolean }) {
+    setBusy(id);
+    setActionError(null);
+    try {
+      const res = await fetch(`/api/memory/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) throw new Error('Failed to save');
+      const data: { note: ClinicalNote } = await res.json();
+      setNotes(prev => prev.map(n => n.id === id ? data.note : n));
+      setEditing(null);
+    } catch {
+      setActionError(id);
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function removeNote(id: string) {
+    setBusy(id);
+    setActionError(null);
+    try {
+      const res = await fetch(`/api/memory/${id}`, { method: 'DELETE' });
+      if (!res.ok && res.status !== 404) throw new Error('Failed to delete');
+      setNotes(prev => prev.filter(n => n.id !== id));
+      setConfirmingDelete(null);
+    } catch {
+      setActionError(id);
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  if (error === 'sign-in') {
+    return (
+      <div className="min-h-screen bg-gray-50 flex flex-col items-center justify-center gap-4 p-4">
+        <div className="w-16 h-16 rounded-full bg-teal-100 flex items-center justify-center">
+          <svg className="w-8 h-8 text-teal-600" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M16.5 10.5V6.75a4.5 4.5 0 10-9 0v3.75m-.75 11.25h10.5a2.25 2.25 0 002.25-2.25v-6.75a2.25 2.25 0 00-2.25-2.25H6.75a2.25 2.25 0 00-2.25 2.25v6.75a2.25 2.25 0 002.25 2.25z" />
+          </svg>
+        </div>
+        <h2 className="text-xl font-bold text-gray-700">Sign in to see what Sehat remembers</h2>
+        <p className="text-gray-400 text-center max-w-sm">Sehat only keeps health notes for signed-in users.</p>
+        <Link href="/" className="mt-2 px-6 py-2.5 bg-teal-600 text-white rounded-xl font-medium hover:bg-teal-700 transition-colors">
+          Back to Sehat
+        </Link>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <p className="text-gray-500">{error}</p>
+      </div>
+    );
+  }
+
+  const inferredCount = notes.filter(n => n.status !== 'confirmed').length;
+
+  return (
+    <AppShell title="What Sehat remembers">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="card-clinical p-4 text-sm text-gray-600 space-y-1">
+          <p>
+            Sehat keeps short notes from your conversations to give better advice next time.
+            Notes you <span className="font-semibold text-teal-700">confirm</span> are trusted fully;
+            notes marked <span className="font-semibold text-amber-700">not confirmed</span> are only used to ask you better questions.
+          </p>
+          {!loading && inferredCount > 0 && (
+            <p className="text-xs text-amber-700">{inferredCount} note{inferredCount !== 1 ? 's' : ''} waiting for you to check.</p>
+          )}
+        </div>
+
+        {loading && (
+          <div className="flex items-center justify-center py-20">
+            <div className="animate-spin w-8 h-8 border-4 border-teal-200 border-t-teal-600 rounded-full" />
+          </div>
+        )}
+
+        {!loading && notes.length === 0 && (
+          <div className="text-center py-16 space-y-3">
+            <p className="text-gray-400">Sehat hasn&apos;t saved anything about you yet.</p>
+            <Link href="/" className="inline-block px-5 py-2 bg-teal-600 text-white text-sm rounded-xl font-medium hover:bg-teal-700 transition-colors">
+              Start a triage
+            </Link>
+          </div>
+        )}
+
+        {TYPE_ORDER.map(type => {
+          const group = notes.filter(n => n.note_type === type);
+          if (group.length === 0) return null;
+          return (
+            <section key={type} className="space-y-2">
+              <div>
+                <h2 className="text-sm font-bold text-gray-700">{TYPE_LABELS[type].label}</h2>
+                <p className="text-xs text-gray-400">{TYPE_LABELS[type].hint}</p>
+              </div>
+
+              {group.map(note => {
+                const confirmed = note.status === 'confirmed';
+                const isEditing = editing?.id === note.id;
+                return (
+                  <div key={note.id} className="card-clinical p-4 space-y-2">
+                    {isEditing ? (
+                      <div className="space-y-2">
+                        <textarea
+                          value={editing.content}
+                          onChange={(e) => setEditing({ ...editing, content: e.target.value })}
+                          maxLength={500}
+                          rows={2}
+                          className="w-full px-3 py-2 rounded-xl border border-gray-200 text-sm text-gray-800
+                                     focus:border-teal-400 focus:ring-2 focus:ring-teal-100 outline-none"
+                        />
+                        <select
+                          value={editing.note_type}
+                          onChange={(e) => setEditing({ ...editing, note_type: e.target.value as NoteType })}
+                          className="px-3 py-1.5 rounded-lg border border-gray-200 text-xs text-gray-600 bg-white"
+                        >
+                          {TYPE_ORDER.map(option => (
+                            <option key={option} value={option}>{TYPE_LABELS[option].label}</option>
+                          ))}
+                        </select>
+                      </div>
+                    ) : (
+                      <div className="flex items-start justify-between gap-3">
+                        <p className="text-sm text-gray-800">{note.content}</p>
+                        <span className={`flex-shrink-0 text-[10px] font-semibold px-2 py-0.5 rounded-full ${
+                          confirmed ? 'bg-teal-50 text-teal-700' : 'bg-amber-50 text-amber-700'
+                        }`}>
+                          {confirmed ? 'Confirmed' : 'Not confirmed'}
+                        </span>
+                      </div>
+                    )}
+
+                    <div className="flex items-center justify-between gap-2 flex-wrap">
+                      <span className="text-xs text-gray-400">
+                        {confirmed && note.confirmed_at
+                          ? `Confirmed ${new Date(note.confirmed_at).toLocaleDateString()}`
+                          : `Noted ${new Date(note.created_at).toLocaleDateString()}`}
+                      </span>
+
+                      <div className="flex items-center gap-1">
+                        {isEditing ? (
+                          <>
+                            <button
+                              onClick={() => setEditing(null)}
+                              className="px-2.5 py-1.5 text-xs text-gray-500 rounded-lg hover:bg-gray-50 transition-colors"
+                            >
+                              Cancel
+                            </button>
+                            <button
+                              onClick={() => saveNote(note.id, { content: editing.content, note_type: editing.note_type })}
+                              disabled={busy === note.id || !editing.content.trim()}
+                              className="px-2.5 py-1.5 text-xs font-medium text-white bg-teal-600 rounded-lg hover:bg-teal-700 transition-colors disabled:opacity-50"
+                            >
+                              Save
+                            </button>
+                          </>
+                        ) : confirmingDelete === note.id ? (
+                          <>
+                            <span className="text-xs text-gray-500 mr-1">Forget this note?</span>
+                            <button
+                              onClick={() => setConfirmingDelete(null)}
+                              className="px-2.5 py-1.5 text-xs text-gray-500 rounded-lg hover:bg-gray-50 transition-colors"
+                            >
+                              Keep
+                            </button>
+                            <button
+                              onClick={() => removeNote(note.id)}
+                              disabled={busy === note.id}
+                              className="px-2.5 py-1.5 text-xs font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                            >
+                              Delete
+                            </button>
+                          </>
+                        ) : (
+                          <>
+                            {!confirmed && (
+                              <button
+                                onClick={() => saveNote(note.id, { confirm: true })}
+                                disabled={busy === note.id}
+                                className="px-2.5 py-1.5 text-xs font-medium text-teal-700 rounded-lg hover:bg-teal-50 transition-colors disabled:opacity-50"
+                              >
+                                Confirm
+                              </button>
+                            )}
+                            <button
+                              onClick={() => setEditing({ id: note.id, content: note.content, note_type: note.note_type })}
+                              className="px-2.5 py-1.5 text-xs text-gray-500 rounded-lg hover:bg-gray-50 transition-colors"
+                            >
+                              Correct
+                            </button>
+                            <button
+                              onClick={() => setConfirmingDelete(note.id)}
+                              className="px-2.5 py-1.5 text-xs text-red-500 rounded-lg hover:bg-red-50 transition-colors"
+                            >
+                              Delete
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </div>
+
+                    {actionError === note.id && (
+                      <p className="text-xs text-red-600">Couldn&apos;t save that change. Please try again.</p>
+                    )}
+                  </div>
+                );
+              })}
+            </section>
+          );
+        })}
+      </div>
+    </AppShell>
+  );
+}
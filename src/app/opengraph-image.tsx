@@ -134,7 +134,7 @@ export default function OGImage() {
                 display: 'flex',
               }}
             >
-              Voice-first medical triage in 7 Indian languages.
+              Voice-first medical triage in 12 languages.
               Understand symptom severity. Get directed to the right care.
             </div>
           </div>
@@ -208,7 +208,7 @@ export default function OGImage() {
               fontSize: '16px',
             }}
           >
-            <span style={{ display: 'flex' }}>7 Indian Languages</span>
+            <span style={{ display: 'flex' }}>12 Languages</span>
             <span style={{ display: 'flex' }}>Voice-First</span>
             <span style={{ display: 'flex' }}>Extended Thinking</span>
           </div>
@@ -3,6 +3,7 @@
 import { useReducer, useCallback, useRef, useEffect, useState, useMemo, Suspense } from 'react';
 import { useSearchParams } from 'next/navigation';
 import { CLERK_ENABLED } from '@/hooks/useAuth';
+import { useTranslations } from '@/hooks/useTranslations';
 import ClerkAuthButtons from '@/components/ClerkAuthButtons';
 import {
   ConversationState,
@@ -13,12 +14,14 @@ import {
   NearbyHospital,
   TriageResult as TriageResultType,
   FollowUpOption,
+  EmergencyDetection,
 } from '@/types';
 import { detectEmergency } from '@/lib/emergency-detector';
 import { MAX_FOLLOW_UPS, SUPPORTED_LANGUAGES } from '@/lib/constants';
 import TextInput from '@/components/TextInput';
 import ConversationThread from '@/components/ConversationThread';
 import EmergencyBanner from '@/components/EmergencyBanner';
+import EmergencyGuide from '@/components/EmergencyGuide';
 import ThinkingDisplay from '@/components/ThinkingDisplay';
 import TriageResult from '@/components/TriageResult';
 import DoctorSummary from '@/components/DoctorSummary';
@@ -36,33 +39,16 @@ import { prewarmTTS } from '@/lib/tts-client';
 import { startCalmAudio, stopCalmAudio } from '@/lib/calm-audio';
 import Link from 'next/link';
 
+// Waits before each attempt to resume a dropped triage stream
+const STREAM_RESUME_DELAYS_MS = [1000, 3000, 6000];
+
 function generateId(): string {
   return Math.random().toString(36).substring(2, 15) + Date.now().toString(36);
 }
 
-// Welcome messages per language
-const WELCOME_GREETINGS: Record<Language, string> = {
-  hi: 'नमस्ते! कैसे हैं आप?',
-  ta: 'வணக்கம்! எப்படி இருக்கீர்கள்?',
-  te: 'నమస్కారం! ఎలా ఉన్నారు?',
-  mr: 'नमस्कार! कसे आहात?',
-  kn: 'ನಮಸ್ಕಾರ! ಹೇಗಿದ್ದೀರಿ?',
-  bn: 'নমস্কার! কেমন আছেন?',
-  en: 'Hello! How are you feeling?',
-};
-
-const WELCOME_SUBTITLES: Record<Language, string> = {
-  hi: 'अपने लक्षण बताएं — हम आपकी मदद करेंगे सही देखभाल तक पहुंचने में।',
-  ta: 'உங்கள் அறிகுறிகளை சொல்லுங்கள் — சரியான சிகிச்சைக்கு நாங்கள் வழிகாட்டுவோம்.',
-  te: 'మీ లక్షణాలను చెప్పండి — సరైన వైద్యానికి మేము మిమ్మల్ని మార్గదర్శనం చేస్తాము.',
-  mr: 'तुमची लक्षणे सांगा — योग्य उपचारापर्यंत पोहोचण्यात आम्ही मदत करू.',
-  kn: 'ನಿಮ್ಮ ರೋಗಲಕ್ಷಣಗಳನ್ನು ಹೇಳಿ — ಸರಿಯಾದ ಆರೈಕೆಗೆ ನಾವು ಮಾರ್ಗದರ್ಶನ ನೀಡುತ್ತೇವೆ.',
-  bn: 'আপনার উপসর্গগুলি বলুন — সঠিক চিকিৎসার দিকে আমরা আপনাকে গাইড করব।',
-  en: 'Tell us your symptoms — we\'ll help you understand the severity and guide you to the right care.',
-};
-
 const initialState: ConversationState = {
   sessionId: '',
+  sessionToken: null,
   messages: [],
   currentResult: null,
   thinkingContent: '',
@@ -76,6 +62,7 @@ const initialState: ConversationState = {
   toolSteps: [],
   nearbyHospitals: [],
   hospitalsFallbackUrl: null,
+  languageSuggestion: null,
 };
 
 function conversationReducer(
@@ -84,7 +71,7 @@ function conversationReducer(
 ): ConversationState {
   switch (action.type) {
     case 'SET_LANGUAGE':
-      return { ...state, language: action.language };
+      return { ...state, language: action.language, languageSuggestion: null };
 
     case 'USER_MESSAGE': {
       const msg: Message = {
@@ -135,8 +122,23 @@ function conversationReducer(
         toolSteps: [],
         nearbyHospitals: [],
         hospitalsFallbackUrl: null,
+        languageSuggestion: null,
+      };
+
+    case 'STREAM_LANGUAGE':
+      // Overrides follow the patient for this session only — the saved preference is untouched
+      if (action.data.decision === 'overridden') {
+        return { ...state, language: action.data.language, languageSuggestion: null };
+      }
+      return {
+        ...state,
+        languageSuggestion: action.data.decision === 'suggested' ? action.data.detected : null,
       };
 
+    case 'STREAM_SESSION':
+      // The server may start a new session if it couldn't continue this one
+      return { ...state, sessionId: action.sessionId, sessionToken: action.token };
+
     case 'STREAM_THINKING':
       return {
         ...state,
@@ -305,9 +307,11 @@ function Home() {
     ...initialState,
     sessionId: '',
   });
+  const t = useTranslations(state.language);
   const [showProfileForm, setShowProfileForm] = useState(false);
   const [userName, setUserName] = useState('');
   const [resumedDate, setResumedDate] = useState<string | null>(null);
+  const [checkInReason, setCheckInReason] = useState<string | null>(null);
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
   const locationRequestedRef = useRef(false);
   const searchParams = useSearchParams();
@@ -346,7 +350,59 @@ function Home() {
       }
 
       const resumeId = searchParams.get('resumeSession');
-      if (resumeId) {
+      const followUpCheckId = searchParams.get('followupCheck');
+      if (followUpCheckId) {
+        // Answered follow-up check — continue in the session seeded from the original triage
+        (async () => {
+          try {
+            const res = await fetch(`/api/followups/${followUpCheckId}`);
+            if (!res.ok) {
+              dispatch({ type: 'RESET' });
+              return;
+            }
+            const data: {
+              language: Language;
+              check: { reason: string; followup_session_id: string | null };
+              original: {
+                language: string;
+                messages: Array<{
+                  role: 'user' | 'assistant';
+                  content: string;
+                  language: string | null;
+                  is_follow_up: boolean;
+                  created_at: string;
+                }>;
+                result: TriageResultType | null;
+                thinkingContent: string | null;
+              } | null;
+            } = await res.json();
+            if (!data.check.followup_session_id) {
+              dispatch({ type: 'RESET' });
+              return;
+            }
+
+            const language = (data.original?.language || data.language) as Language;
+            dispatch({
+              type: 'RESTORE_SESSION',
+              sessionId: data.check.followup_session_id,
+              messages: (data.original?.messages || []).map((m, i) => ({
+                id: `${followUpCheckId}-${i}`,
+                role: m.role,
+                content: m.content,
+                timestamp: new Date(m.created_at).getTime(),
+                language: (m.language || language) as Language,
+                isFollowUp: m.is_follow_up,
+              })),
+              result: data.original?.result ?? null,
+              thinkingContent: data.original?.thinkingContent || '',
+              language,
+            });
+            setCheckInReason(data.check.reason);
+          } catch {
+            dispatch({ type: 'RESET' });
+          }
+        })();
+      } else if (resumeId) {
         // Restore a previous session
         (async () => {
           try {
@@ -473,6 +529,7 @@ function Home() {
             language: state.language,
             conversationHistory: state.messages,
             sessionId: state.sessionId,
+            sessionToken: state.sessionToken,
             inputMode: inputModeRef.current,
             location: userLocation,
           }),
@@ -495,115 +552,176 @@ function Home() {
           throw new Error('No response stream received. Please try again.');
         }
 
-        const reader = response.body.getReader();
-        const decoder = new TextDecoder();
-        let buffer = '';
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split('\n\n');
-          buffer = lines.pop() || '';
-
-          for (const line of lines) {
-            if (!line.startsWith('data: ')) continue;
-            const data = line.slice(6).trim();
-            if (data === '[DONE]') break;
-
-            try {
-              const event: StreamEvent = JSON.parse(data);
-              switch (event.type) {
-                case 'thinking':
-                  dispatch({
-                    type: 'STREAM_THINKING',
-                    content: event.content,
-                  });
-                  break;
-                case 'thinking_done':
-                  dispatch({ type: 'STREAM_THINKING_DONE' });
-                  break;
-                case 'result': {
-                  if (
-                    event.data.needs_follow_up &&
-                    event.data.follow_up_question &&
-                    followUpCountRef.current < MAX_FOLLOW_UPS
-                  ) {
-                    dispatch({
-                      type: 'STREAM_FOLLOW_UP',
-                      question: event.data.follow_up_question,
-                      options: event.data.follow_up_options || undefined,
-                    });
-                  }
-                  dispatch({ type: 'STREAM_RESULT', data: event.data });
-
-                  // TTS pre-warm is handled by the voiceTextToSpeak useEffect,
-                  // which ensures the pre-warmed text exactly matches what will be spoken
-                  // (including truncation). Prewarming here caused duplicate TTS requests
-                  // when text didn't match exactly.
-                  break;
-                }
-                case 'follow_up': {
-                  const fu = event as unknown as { question: string; options?: FollowUpOption[] };
-                  dispatch({
-                    type: 'STREAM_FOLLOW_UP',
-                    question: fu.question,
-                    options: fu.options || undefined,
-                  });
-                  break;
-                }
-                case 'early_tts':
-                  // Pre-warm TTS with go_to text while Claude is still generating.
-                  // This overlaps TTS synthesis with Claude response, saving ~500-800ms.
-                  // Cache key uses just go_to; when full text plays it re-synthesizes,
-                  // but the Sarvam WS connection is already warm.
-                  if (isVoiceMode && event.content) {
-                    const speechCode = SUPPORTED_LANGUAGES.find(l => l.code === state.language)?.speechCode || 'en-IN';
-                    prewarmTTS(event.content, speechCode);
-                  }
-                  break;
-                case 'tool_call':
-                  dispatch({
-                    type: 'STREAM_TOOL_CALL',
-                    name: event.name,
-                    input: event.input,
-                  });
-                  break;
-                case 'tool_result':
-                  dispatch({
-                    type: 'STREAM_TOOL_RESULT',
-                    name: event.name,
-                    result: event.result,
-                  });
-                  break;
-                case 'facility_result': {
-                  const fe = event as unknown as { hospitals: NearbyHospital[]; fallback_url: string | null; message: string };
-                  dispatch({
-                    type: 'FACILITY_RESULT',
-                    hospitals: fe.hospitals || [],
-                    fallbackUrl: fe.fallback_url || null,
-                    message: fe.message || '',
-                  });
-                  break;
-                }
-                case 'emergency':
-                  dispatch({
-                    type: 'STREAM_EMERGENCY',
-                    data: event.data,
-                  });
-                  break;
-                case 'error':
-                  dispatch({
-                    type: 'STREAM_ERROR',
-                    message: event.message,
-                  });
-                  break;
+        // Resume state — event IDs let a dropped connection pick up where it left off
+        const resume = {
+          sessionId: state.sessionId,
+          token: state.sessionToken,
+          lastEventId: null as string | null,
+          done: false,
+        };
+
+        const handleEvent = (event: StreamEvent) => {
+          switch (event.type) {
+            case 'thinking':
+              dispatch({
+                type: 'STREAM_THINKING',
+                content: event.content,
+              });
+              break;
+            case 'thinking_done':
+              dispatch({ type: 'STREAM_THINKING_DONE' });
+              break;
+            case 'result': {
+              if (
+                event.data.needs_follow_up &&
+                event.data.follow_up_question &&
+                followUpCountRef.current < MAX_FOLLOW_UPS
+              ) {
+                dispatch({
+                  type: 'STREAM_FOLLOW_UP',
+                  question: event.data.follow_up_question,
+                  options: event.data.follow_up_options || undefined,
+                });
+              }
+              dispatch({ type: 'STREAM_RESULT', data: event.data });
+
+              // TTS pre-warm is handled by the voiceTextToSpeak useEffect,
+              // which ensures the pre-warmed text exactly matches what will be spoken
+              // (including truncation). Prewarming here caused duplicate TTS requests
+              // when text didn't match exactly.
+              break;
+            }
+            case 'follow_up': {
+              const fu = event as unknown as { question: string; options?: FollowUpOption[] };
+              dispatch({
+                type: 'STREAM_FOLLOW_UP',
+                question: fu.question,
+                options: fu.options || undefined,
+              });
+              break;
+            }
+            case 'early_tts':
+              // Pre-warm TTS with go_to text while Claude is still generating.
+              // This overlaps TTS synthesis with Claude response, saving ~500-800ms.
+              // Cache key uses just go_to; when full text plays it re-synthesizes,
+              // but the Sarvam WS connection is already warm.
+              if (isVoiceMode && event.content) {
+                const speechCode = SUPPORTED_LANGUAGES.find(l => l.code === state.language)?.speechCode || 'en-IN';
+                prewarmTTS(event.content, speechCode);
+              }
+              break;
+            case 'tool_call':
+              dispatch({
+                type: 'STREAM_TOOL_CALL',
+                name: event.name,
+                input: event.input,
+              });
+              break;
+            case 'tool_result':
+              dispatch({
+                type: 'STREAM_TOOL_RESULT',
+                name: event.name,
+                result: event.result,
+              });
+              break;
+            case 'facility_result': {
+              const fe = event as unknown as { hospitals: NearbyHospital[]; fallback_url: string | null; message: string };
+              dispatch({
+                type: 'FACILITY_RESULT',
+                hospitals: fe.hospitals || [],
+                fallbackUrl: fe.fallback_url || null,
+                message: fe.message || '',
+              });
+              break;
+            }
+            case 'language':
+              dispatch({ type: 'STREAM_LANGUAGE', data: event.data });
+              break;
+            case 'session':
+              resume.sessionId = event.sessionId;
+              resume.token = event.token;
+              dispatch({ type: 'STREAM_SESSION', sessionId: event.sessionId, token: event.token });
+              break;
+            case 'emergency':
+              dispatch({
+                type: 'STREAM_EMERGENCY',
+                data: event.data,
+              });
+              break;
+            case 'error':
+              dispatch({
+                type: 'STREAM_ERROR',
+                message: event.message,
+              });
+              break;
+          }
+        };
+
+        const readStream = async (body: ReadableStream<Uint8Array>) => {
+          const reader = body.getReader();
+          const decoder = new TextDecoder();
+          let buffer = '';
+
+          while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            buffer += decoder.decode(value, { stream: true });
+            const frames = buffer.split('\n\n');
+            buffer = frames.pop() || '';
+
+            for (const frame of frames) {
+              let data: string | null = null;
+              for (const line of frame.split('\n')) {
+                if (line.startsWith('id: ')) resume.lastEventId = line.slice(4).trim();
+                else if (line.startsWith('data: ')) data = line.slice(6).trim();
+              }
+              if (data === null) continue;
+              if (data === '[DONE]') {
+                resume.done = true;
+                break;
+              }
+
+              try {
+                handleEvent(JSON.parse(data));
+              } catch {
+                // Skip malformed JSON
               }
-            } catch {
-              // Skip malformed JSON
             }
           }
+        };
+
+        let body: ReadableStream<Uint8Array> = response.body;
+        for (let attempt = 0; ; attempt++) {
+          let readError: unknown = null;
+          try {
+            await readStream(body);
+          } catch (error) {
+            readError = error;
+          }
+          if (resume.done) break;
+
+          const aborted = (readError as Error | null)?.name === 'AbortError';
+          if (aborted || !resume.lastEventId || attempt >= STREAM_RESUME_DELAYS_MS.length) {
+            if (readError) throw readError;
+            break;
+          }
+
+          // Connection dropped mid-stream — the server kept going, so fetch the
+          // events after the last one we saw instead of re-running triage
+          await new Promise((resolve) => setTimeout(resolve, STREAM_RESUME_DELAYS_MS[attempt]));
+          const resumed = await fetch(`/api/triage?sessionId=${encodeURIComponent(resume.sessionId)}`, {
+            headers: {
+              'Last-Event-ID': resume.lastEventId,
+              ...(resume.token ? { 'X-Session-Token': resume.token } : {}),
+            },
+            signal: controller.signal,
+          });
+          if (!resumed.ok || !resumed.body) {
+            if (readError) throw readError;
+            break;
+          }
+          body = resumed.body;
         }
 
         dispatch({ type: 'STREAM_END' });
@@ -619,7 +737,7 @@ function Home() {
         }
       }
     },
-    [state.language, state.messages, state.sessionId, userLocation, requestLocation]
+    [state.language, state.messages, state.sessionId, state.sessionToken, userLocation, requestLocation]
   );
 
   const handleTextSubmit = useCallback((text: string) => {
@@ -637,17 +755,33 @@ function Home() {
     handleSubmit(text);
   }, [handleSubmit]);
 
+  // Emergency seen in the live transcript but not yet confirmed by the final one
+  const [partialEmergency, setPartialEmergency] = useState<EmergencyDetection | null>(null);
+
   const handleVoiceConversationSubmit = useCallback((text: string) => {
     inputModeRef.current = 'voice_conversation';
+    setPartialEmergency(null);
     handleSubmit(text);
   }, [handleSubmit]);
 
+  // Client-side emergency detection on the live transcript — the banner
+  // shows while the patient is still describing the emergency. The sentence
+  // may not be finished ("seene mein dard … nahi hai"), so the guide and the
+  // triage request wait for the final transcript.
+  const handleVoicePartialTranscript = useCallback((text: string) => {
+    if (state.isEmergency) return;
+    const emergencyCheck = detectEmergency(text, state.language);
+    setPartialEmergency(emergencyCheck.isEmergency ? emergencyCheck : null);
+  }, [state.isEmergency, state.language]);
+
   const handleReset = useCallback(() => {
     abortRef.current?.abort();
     dispatch({ type: 'RESET' });
+    setPartialEmergency(null);
     setResumedDate(null);
-    // Clear resumeSession from URL without full page reload
-    if (searchParams.get('resumeSession')) {
+    setCheckInReason(null);
+    // Clear resumeSession / followupCheck from URL without full page reload
+    if (searchParams.get('resumeSession') || searchParams.get('followupCheck')) {
       window.history.replaceState({}, '', '/');
     }
   }, [searchParams]);
@@ -656,6 +790,13 @@ function Home() {
   const [isVoiceMode, setIsVoiceMode] = useState(false);
   const voiceTextRef = useRef<string | null>(null);
 
+  // Guided emergency flow — takes over voice mode until closed
+  const [emergencyGuideClosed, setEmergencyGuideClosed] = useState(false);
+  const showEmergencyGuide = isVoiceMode && state.isEmergency && !!state.emergencyData && !emergencyGuideClosed;
+  useEffect(() => {
+    if (!state.isEmergency) setEmergencyGuideClosed(false);
+  }, [state.isEmergency]);
+
   // Play calm ambient audio during thinking (text mode only — voice mode handles its own)
   useEffect(() => {
     if (state.isThinking && !isVoiceMode) {
@@ -756,54 +897,15 @@ function Home() {
   }, [isVoiceMode]);
 
   // Quick-start suggestion chips (only shown in welcome)
-  const QUICK_STARTS: Record<Language, string[]> = {
-    hi: ['सिर में दर्द है', 'बुखार और खांसी', 'पेट में दर्द'],
-    ta: ['தலைவலி', 'காய்ச்சல் மற்றும் இருமல்', 'வயிற்று வலி'],
-    te: ['తలనొప్పి', 'జ్వరం మరియు దగ్గు', 'కడుపు నొప్పి'],
-    mr: ['डोकेदुखी', 'ताप आणि खोकला', 'पोटदुखी'],
-    kn: ['ತಲೆನೋವು', 'ಜ್ವರ ಮತ್ತು ಕೆಮ್ಮು', 'ಹೊಟ್ಟೆ ನೋವು'],
-    bn: ['মাথাব্যথা', 'জ্বর এবং কাশি', 'পেটে ব্যথা'],
-    en: ['Headache', 'Fever and cough', 'Stomach pain'],
-  };
-
-  // Post-result follow-up pills — encourage continued conversation
-  const POST_RESULT_OPTIONS: Record<Language, FollowUpOption[]> = {
-    hi: [
-      { label: 'और बताएं', value: 'Tell me more about my condition and what to watch for' },
-      { label: 'अब कैसा लग रहा', value: 'I want to share how I am feeling now' },
-      { label: 'और सावधानी', value: 'What other precautions should I take' },
-    ],
-    ta: [
-      { label: 'மேலும் சொல்லுங்கள்', value: 'Tell me more about my condition and what to watch for' },
-      { label: 'இப்போது எப்படி', value: 'I want to share how I am feeling now' },
-      { label: 'மேலும் முன்னெச்சரிக்கை', value: 'What other precautions should I take' },
-    ],
-    te: [
-      { label: 'మరింత చెప్పండి', value: 'Tell me more about my condition and what to watch for' },
-      { label: 'ఇప్పుడు ఎలా ఉంది', value: 'I want to share how I am feeling now' },
-      { label: 'మరిన్ని జాగ్రత్తలు', value: 'What other precautions should I take' },
-    ],
-    mr: [
-      { label: 'अजून सांगा', value: 'Tell me more about my condition and what to watch for' },
-      { label: 'आता कसे वाटते', value: 'I want to share how I am feeling now' },
-      { label: 'अजून काळजी', value: 'What other precautions should I take' },
-    ],
-    kn: [
-      { label: 'ಇನ್ನಷ್ಟು ಹೇಳಿ', value: 'Tell me more about my condition and what to watch for' },
-      { label: 'ಈಗ ಹೇಗಿದೆ', value: 'I want to share how I am feeling now' },
-      { label: 'ಇನ್ನಷ್ಟು ಮುನ್ನೆಚ್ಚರಿಕೆ', value: 'What other precautions should I take' },
-    ],
-    bn: [
-      { label: 'আরও বলুন', value: 'Tell me more about my condition and what to watch for' },
-      { label: 'এখন কেমন লাগছে', value: 'I want to share how I am feeling now' },
-      { label: 'আরও সতর্কতা', value: 'What other precautions should I take' },
-    ],
-    en: [
-      { label: 'Tell me more', value: 'Tell me more about my condition and what to watch for' },
-      { label: 'How I feel now', value: 'I want to share how I am feeling now' },
-      { label: 'More precautions', value: 'What other precautions should I take' },
-    ],
-  };
+  const QUICK_STARTS = [t('welcome.quickStart1'), t('welcome.quickStart2'), t('welcome.quickStart3')];
+
+  // Post-result follow-up pills — encourage continued conversation.
+  // Labels are localized; values stay English so the model reads a clear intent.
+  const POST_RESULT_OPTIONS: FollowUpOption[] = [
+    { label: t('postResult.tellMore'), value: 'Tell me more about my condition and what to watch for' },
+    { label: t('postResult.feelingNow'), value: 'I want to share how I am feeling now' },
+    { label: t('postResult.precautions'), value: 'What other precautions should I take' },
+  ];
 
   return (
     <div className="relative h-[100dvh] overflow-hidden flex flex-col">
@@ -822,9 +924,26 @@ function Home() {
         </div>
       )}
 
-      {/* Emergency Banner Overlay */}
+      {/* Emergency overlay — step-by-step guide in voice mode, banner otherwise */}
       {state.isEmergency && state.emergencyData && (
-        <EmergencyBanner detection={state.emergencyData} />
+        isVoiceMode ? (
+          showEmergencyGuide && (
+            <ErrorBoundary>
+              <EmergencyGuide
+                detection={state.emergencyData}
+                language={state.language}
+                firstAid={state.currentResult?.action_plan?.first_aid}
+                onClose={() => setEmergencyGuideClosed(true)}
+              />
+            </ErrorBoundary>
+          )
+        ) : (
+          <EmergencyBanner detection={state.emergencyData} />
+        )
+      )}
+      {/* Preview while the patient is still talking — the mic stays with voice mode */}
+      {isVoiceMode && !state.isEmergency && partialEmergency && (
+        <EmergencyBanner detection={partialEmergency} />
       )}
 
       {/* Header — matches AppShell pattern */}
@@ -927,11 +1046,11 @@ function Home() {
               <div className="text-center mb-6 space-y-2">
                 <h2 className="hero-greeting">
                   {userName
-                    ? `${WELCOME_GREETINGS[state.language].split('!')[0]}, ${userName}!`
-                    : WELCOME_GREETINGS[state.language]}
+                    ? t('welcome.greetingNamed', { name: userName })
+                    : t('welcome.greeting')}
                 </h2>
                 <p className="text-gray-500/90 max-w-xs mx-auto text-[15px] leading-relaxed min-h-[3rem]">
-                  {WELCOME_SUBTITLES[state.language]}
+                  {t('welcome.subtitle')}
                 </p>
               </div>
 
@@ -967,7 +1086,7 @@ function Home() {
 
             {/* Bottom section: quick-start chips (anchored at bottom) */}
             <div className="flex flex-wrap justify-center gap-2 max-w-sm">
-              {QUICK_STARTS[state.language].map((chip) => (
+              {QUICK_STARTS.map((chip) => (
                 <button
                   key={chip}
                   onClick={() => handleTextSubmit(chip)}
@@ -987,13 +1106,15 @@ function Home() {
             <div className="flex gap-1 flex-wrap justify-center">
               {SUPPORTED_LANGUAGES.map((lang) => {
                 const isSelected = state.language === lang.code;
+                const isSuggested = state.languageSuggestion === lang.code;
                 return (
                   <button
                     key={lang.code}
                     onClick={() => dispatch({ type: 'SET_LANGUAGE', language: lang.code })}
                     disabled={isInputDisabled}
-                    className={`lang-pill lang-pill--sm ${isSelected ? 'lang-pill--active' : ''}`}
+                    className={`lang-pill lang-pill--sm ${isSelected ? 'lang-pill--active' : ''} ${isSuggested ? 'lang-pill--suggested' : ''}`}
                     aria-label={`Select ${lang.label}`}
+                    title={isSuggested ? t('triage.languageSuggested', { language: lang.nativeLabel }) : undefined}
                     aria-pressed={isSelected}
                   >
                     {lang.nativeLabel}
@@ -1013,6 +1134,15 @@ function Home() {
           </div>
         )}
 
+        {/* Follow-up check-in banner */}
+        {checkInReason && (
+          <div className="flex items-center justify-center gap-2 text-xs text-teal-600 py-2 animate-fade-in">
+            <div className="h-px flex-1 bg-teal-200/60" />
+            <span className="px-2 text-center">{t('followup.checkInBanner', { reason: checkInReason })}</span>
+            <div className="h-px flex-1 bg-teal-200/60" />
+          </div>
+        )}
+
         {/* Messages */}
         <ConversationThread
           messages={state.messages}
@@ -1105,7 +1235,7 @@ function Home() {
               />
               {/* Post-result continue options */}
               <div className="flex flex-wrap gap-2 mt-1 animate-fade-in">
-                {(POST_RESULT_OPTIONS[state.language] || POST_RESULT_OPTIONS['en']).map((opt, i) => (
+                {POST_RESULT_OPTIONS.map((opt, i) => (
                   <button
                     key={i}
                     onClick={() => handleTextSubmit(opt.value)}
@@ -1118,7 +1248,13 @@ function Home() {
                   </button>
                 ))}
               </div>
-              <FileUpload language={state.language} disabled={isInputDisabled} />
+              <FileUpload
+                language={state.language}
+                disabled={isInputDisabled}
+                sessionId={state.sessionId}
+                sessionToken={state.sessionToken}
+                onSessionLinked={(sessionId, token) => dispatch({ type: 'STREAM_SESSION', sessionId, token })}
+              />
               {(state.currentResult.severity === 'routine' || state.currentResult.severity === 'self_care') && (
                 <SignUpPrompt
                   language={state.language}
@@ -1163,16 +1299,23 @@ function Home() {
            style={{ background: 'linear-gradient(to top, rgba(255,255,255,0.95) 60%, rgba(255,255,255,0))' }}>
         <div className="max-w-5xl mx-auto px-4 pb-4 pt-3">
         {isVoiceMode ? (
-          <ErrorBoundary>
-            <VoiceConversationMode
-              language={state.language}
-              onTranscript={handleVoiceConversationSubmit}
-              onExit={() => setIsVoiceMode(false)}
-              textToSpeak={voiceTextToSpeak}
-              isProcessing={state.isStreaming || state.isThinking}
-              shouldAutoListen={voiceShouldAutoListen}
-            />
-          </ErrorBoundary>
+          // The emergency guide owns the mic and speaker while it's open
+          !showEmergencyGuide && (
+            <ErrorBoundary>
+              <VoiceConversationMode
+                language={state.language}
+                onTranscript={handleVoiceConversationSubmit}
+                onPartialTranscript={handleVoicePartialTranscript}
+                onExit={() => {
+                  setPartialEmergency(null);
+                  setIsVoiceMode(false);
+                }}
+                textToSpeak={voiceTextToSpeak}
+                isProcessing={state.isStreaming || state.isThinking}
+                shouldAutoListen={voiceShouldAutoListen}
+              />
+            </ErrorBoundary>
+          )
         ) : (
           <div className="relative">
             <TextInput
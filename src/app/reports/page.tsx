@@ -4,7 +4,9 @@ import { useState, useEffect, useMemo } from 'react';
 import Link from 'next/link';
 import { TriageResult as TriageResultType, Severity } from '@/types';
 import { SEVERITY_CONFIG, URGENCY_LABELS, SUPPORTED_LANGUAGES } from '@/lib/constants';
+import type { LabTrend } from '@/lib/lab-results';
 import RenderMarkdown from '@/components/RenderMarkdown';
+import LabTrendChart from '@/components/LabTrendChart';
 import AppShell from '@/components/AppShell';
 
 function esc(str: string): string {
@@ -71,6 +73,8 @@ interface TriageReport {
 interface DocumentAnalysis {
   id: string;
   file_name: string;
+  /** Every file in a multi-file upload */
+  file_names: string[] | null;
   file_type: string;
   analysis: string;
   language: string;
@@ -295,11 +299,12 @@ function TriageCard({ report, copiedId, onCopy }: {
 export default function ReportsPage() {
   const [triageReports, setTriageReports] = useState<TriageReport[]>([]);
   const [documentAnalyses, setDocumentAnalyses] = useState<DocumentAnalysis[]>([]);
+  const [labTrends, setLabTrends] = useState<LabTrend[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [copiedId, setCopiedId] = useState<string | null>(null);
   const [filter, setFilter] = useState<FilterType>('all');
-  const [tab, setTab] = useState<'triage' | 'documents'>('triage');
+  const [tab, setTab] = useState<'triage' | 'documents' | 'labs'>('triage');
 
   useEffect(() => {
     async function fetchReports() {
@@ -313,6 +318,7 @@ export default function ReportsPage() {
         const data = await res.json();
         setTriageReports(data.triageReports);
         setDocumentAnalyses(data.documentAnalyses);
+        setLabTrends(data.labTrends || []);
       } catch {
         setError('Failed to load reports');
       } finally {
@@ -408,6 +414,18 @@ export default function ReportsPage() {
                 Documents ({documentAnalyses.length})
               </button>
             )}
+            {labTrends.length > 0 && (
+              <button
+                onClick={() => setTab('labs')}
+                className={`px-4 py-1.5 text-sm font-medium rounded-lg transition-colors ${
+                  tab === 'labs'
+                    ? 'bg-teal-600 text-white'
+                    : 'text-gray-500 hover:bg-gray-100'
+                }`}
+              >
+                Lab trends ({labTrends.length})
+              </button>
+            )}
           </div>
         )}
         {isEmpty ? (
@@ -487,9 +505,17 @@ export default function ReportsPage() {
                               </svg>
                             </div>
                             <div>
-                              <p className="text-sm font-medium text-gray-700 truncate max-w-[200px]">{doc.file_name}</p>
+                              <p
+                                className="text-sm font-medium text-gray-700 truncate max-w-[200px]"
+                                title={doc.file_names && doc.file_names.length > 1 ? doc.file_names.join('\n') : undefined}
+                              >
+                                {doc.file_name}
+                              </p>
                               <div className="flex items-center gap-2">
                                 <span className="text-xs text-blue-600 capitalize font-medium">{doc.file_type}</span>
+                                {doc.file_names && doc.file_names.length > 1 && (
+                                  <span className="text-xs text-gray-400">{doc.file_names.length} files</span>
+                                )}
                                 <RelativeDate date={date} />
                               </div>
                             </div>
@@ -514,6 +540,20 @@ export default function ReportsPage() {
                 })}
               </div>
             )}
+
+            {/* Lab Trends Tab */}
+            {tab === 'labs' && (
+              <div className="space-y-3">
+                <p className="text-xs text-gray-400">
+                  Values from your uploaded lab reports, converted to one unit per test. Red points are outside the normal range.
+                </p>
+                <div className="grid gap-3 sm:grid-cols-2">
+                  {labTrends.map((trend) => (
+                    <LabTrendChart key={trend.test_key} trend={trend} />
+                  ))}
+                </div>
+              </div>
+            )}
           </>
         )}
       </div>
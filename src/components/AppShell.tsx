@@ -1,8 +1,9 @@
 'use client';
 
-import { ReactNode } from 'react';
+import { ReactNode, useEffect, useState } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
+import { CLERK_ENABLED } from '@/hooks/useAuth';
 import SehatOrb from './SehatOrb';
 
 interface AppShellProps {
@@ -26,6 +27,13 @@ const NAV_ITEMS = [
       <path strokeLinecap="round" strokeLinejoin="round" d="M12 6v6h4.5m4.5 0a9 9 0 11-18 0 9 9 0 0118 0z" />
     ),
   },
+  {
+    href: '/followups',
+    label: 'Check-ins',
+    icon: (
+      <path strokeLinecap="round" strokeLinejoin="round" d="M14.857 17.082a23.848 23.848 0 005.454-1.31A8.967 8.967 0 0118 9.75v-.7V9A6 6 0 006 9v.75a8.967 8.967 0 01-2.312 6.022c1.733.64 3.56 1.085 5.455 1.31m5.714 0a24.255 24.255 0 01-5.714 0m5.714 0a3 3 0 11-5.714 0" />
+    ),
+  },
   {
     href: '/dashboard',
     label: 'Dashboard',
@@ -51,8 +59,45 @@ const NAV_ITEMS = [
   },
 ];
 
+/** Due follow-up checks for the signed-in user — refreshed on navigation and when a check is answered */
+function useDueFollowUps(pathname: string): number {
+  const [due, setDue] = useState(0);
+
+  useEffect(() => {
+    if (!CLERK_ENABLED) return;
+    let cancelled = false;
+    const refresh = () => {
+      fetch('/api/followups?count=due')
+        .then(res => res.ok ? res.json() : null)
+        .then(data => { if (!cancelled) setDue(data?.due || 0); })
+        .catch(() => { /* ignore — anonymous users or network issues */ });
+    };
+    refresh();
+    window.addEventListener('sehat-followups-changed', refresh);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('sehat-followups-changed', refresh);
+    };
+  }, [pathname]);
+
+  return due;
+}
+
+function DueBadge({ count, className = '' }: { count: number; className?: string }) {
+  if (count <= 0) return null;
+  return (
+    <span
+      className={`min-w-[16px] h-4 px-1 rounded-full bg-red-500 text-white text-[10px] font-bold leading-4 text-center ${className}`}
+      aria-label={`${count} check-in${count !== 1 ? 's' : ''} due`}
+    >
+      {count > 9 ? '9+' : count}
+    </span>
+  );
+}
+
 export default function AppShell({ title, children }: AppShellProps) {
   const pathname = usePathname();
+  const dueFollowUps = useDueFollowUps(pathname);
 
   return (
     <div className="min-h-screen bg-gray-50/80">
@@ -78,13 +123,14 @@ export default function AppShell({ title, children }: AppShellProps) {
                 <Link
                   key={item.href}
                   href={item.href}
-                  className={`px-3 py-1.5 text-xs font-medium rounded-lg transition-all duration-200 ${
+                  className={`flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg transition-all duration-200 ${
                     isActive
                       ? 'bg-teal-50 text-teal-700 border border-teal-200/60 shadow-sm'
                       : 'text-gray-500 hover:text-teal-600 hover:bg-teal-50/60'
                   }`}
                 >
                   {item.label}
+                  {item.href === '/followups' && <DueBadge count={dueFollowUps} />}
                 </Link>
               );
             })}
@@ -109,7 +155,7 @@ export default function AppShell({ title, children }: AppShellProps) {
               <Link
                 key={item.href}
                 href={item.href}
-                className={`flex flex-col items-center gap-0.5 px-3 py-1.5 rounded-xl transition-all duration-200 min-w-[52px] ${
+                className={`relative flex flex-col items-center gap-0.5 px-3 py-1.5 rounded-xl transition-all duration-200 min-w-[52px] ${
                   isActive ? activeColor : 'text-gray-400 active:text-gray-500'
                 }`}
               >
@@ -122,6 +168,7 @@ export default function AppShell({ title, children }: AppShellProps) {
                 >
                   {item.icon}
                 </svg>
+                {item.href === '/followups' && <DueBadge count={dueFollowUps} className="absolute top-0.5 right-2" />}
                 <span className={`text-[10px] leading-none ${isActive ? 'font-semibold' : 'font-medium'}`}>{item.label}</span>
                 {isActive && (
                   <div className={`w-1 h-1 rounded-full ${dotColor}`} />
@@ -33,7 +33,8 @@ export default function ConversationThread({
         >
           {msg.role === 'user' ? (
             <div className="chat-bubble chat-bubble-user">
-              <p className="whitespace-pre-wrap text-base leading-relaxed">
+              {/* "auto" follows the text itself — Urdu right-to-left, English left-to-right */}
+              <p className="whitespace-pre-wrap text-base leading-relaxed" dir="auto">
                 {msg.content}
               </p>
             </div>
@@ -54,7 +55,7 @@ export default function ConversationThread({
                   <span className="text-xs font-semibold text-teal-700 uppercase tracking-wide">Follow-up question</span>
                 </div>
               )}
-              <div className="text-base leading-relaxed">
+              <div className="text-base leading-relaxed" dir="auto">
                 <RenderMarkdown text={msg.content} />
               </div>
               <div className="mt-2 pt-2 border-t border-gray-100">
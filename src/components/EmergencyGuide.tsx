@@ -0,0 +1,380 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { EmergencyDetection, Language } from '@/types';
+import { useStreamingTranscriber } from '@/hooks/useStreamingTranscriber';
+import { useTranslations } from '@/hooks/useTranslations';
+import { EMERGENCY_NUMBERS, SUPPORTED_LANGUAGES, getLanguageDir } from '@/lib/constants';
+import {
+  CPR_COMPRESSIONS_PER_MINUTE,
+  CPR_COUNT_TO,
+  EmergencyProtocolId,
+  GuideStep,
+  VoiceCommand,
+  emergencyIntro,
+  getEmergencyProtocol,
+  getGuideSteps,
+  matchVoiceCommand,
+  selectEmergencyProtocol,
+} from '@/lib/emergency-protocol';
+import { Metronome, startMetronome } from '@/lib/metronome';
+import { streamTTS, TTSPlaybackController } from '@/lib/tts-client';
+
+type GuidePhase = 'speaking' | 'listening' | 'waiting' | 'beat';
+
+interface EmergencyGuideProps {
+  detection: EmergencyDetection;
+  language: Language;
+  /** The model's first-aid steps — appended to the guide once the triage result arrives */
+  firstAid?: string[];
+  onClose: () => void;
+}
+
+// Turns without a command before the guide stops listening and waits for a tap
+const MAX_MISSED_COMMANDS = 3;
+
+/** Read text aloud with the browser's own voice — for when server TTS is down or has no voice */
+function speakWithBrowser(text: string, speechCode: string, onDone: () => void) {
+  if (typeof window === 'undefined' || !('speechSynthesis' in window)) {
+    onDone();
+    return;
+  }
+  const utterance = new SpeechSynthesisUtterance(text);
+  // Browsers know Odia as "or", Sarvam as "od"
+  utterance.lang = speechCode === 'od-IN' ? 'or-IN' : speechCode;
+  utterance.onend = onDone;
+  utterance.onerror = onDone;
+  window.speechSynthesis.cancel();
+  window.speechSynthesis.speak(utterance);
+}
+
+/**
+ * Guided emergency flow for voice mode: speaks the number to call, then
+ * walks the bystander through first aid one step at a time, moving on when
+ * they say "done" / "next" in any supported language. The CPR check waits
+ * for "breathing" or "not breathing" — someone still breathing goes to the
+ * recovery position instead. CPR compressions are paced by a metronome.
+ * Every step is static, so the guide runs the same
+ * when the model call is slow or fails — model first aid is added at the end.
+ */
+export default function EmergencyGuide({ detection, language, firstAid, onClose }: EmergencyGuideProps) {
+  const t = useTranslations(language);
+  const speechCode = SUPPORTED_LANGUAGES.find((l) => l.code === language)?.speechCode || 'en-IN';
+
+  const [protocolId, setProtocolId] = useState<EmergencyProtocolId>(() =>
+    selectEmergencyProtocol(detection.matchedKeywords)
+  );
+  // -1 is the intro, steps.length the closing message
+  const [stepIndex, setStepIndex] = useState(-1);
+  const [phase, setPhase] = useState<GuidePhase>('speaking');
+  const [beat, setBeat] = useState(0);
+
+  const steps = useMemo(() => getGuideSteps(protocolId, language, firstAid), [protocolId, language, firstAid]);
+  const stepsRef = useRef<GuideStep[]>(steps);
+  stepsRef.current = steps;
+  const stepIndexRef = useRef(stepIndex);
+  stepIndexRef.current = stepIndex;
+  const protocolIdRef = useRef(protocolId);
+  protocolIdRef.current = protocolId;
+
+  const mountedRef = useRef(true);
+  const ttsControllerRef = useRef<TTSPlaybackController | null>(null);
+  const metronomeRef = useRef<Metronome | null>(null);
+  // Bumped on every new utterance — callbacks from an interrupted one are ignored
+  const speechTokenRef = useRef(0);
+  const missedCommandsRef = useRef(0);
+
+  const playStepRef = useRef<(index: number) => void>(() => {});
+
+  const startProtocol = useCallback((id: EmergencyProtocolId) => {
+    stepsRef.current = getGuideSteps(id, language, firstAid);
+    protocolIdRef.current = id;
+    setProtocolId(id);
+    playStepRef.current(0);
+  }, [language, firstAid]);
+
+  const runCommand = useCallback((command: VoiceCommand) => {
+    const index = stepIndexRef.current;
+    const last = stepsRef.current.length;
+    const branch = stepsRef.current[index]?.ifBreathing;
+    if (command === 'breathing' && branch) startProtocol(branch);
+    else if (command === 'notBreathing' && !branch) startProtocol('cpr');
+    else if (command === 'next' || command === 'notBreathing') playStepRef.current(Math.min(index + 1, last));
+    else if (command === 'back') playStepRef.current(Math.max(0, index - 1));
+    else playStepRef.current(index);
+  }, [startProtocol]);
+
+  /**
+   * The command an utterance gives on the current step. "Breathing" only
+   * answers the breathing check; "not breathing" there carries on with CPR,
+   * and anywhere outside CPR starts it.
+   */
+  const commandFor = useCallback((text: string): VoiceCommand | null => {
+    const command = matchVoiceCommand(text);
+    const asksBreathing = !!stepsRef.current[stepIndexRef.current]?.ifBreathing;
+    if (command === 'breathing' && !asksBreathing) return null;
+    if (command === 'notBreathing' && !asksBreathing && protocolIdRef.current === 'cpr') return null;
+    return command;
+  }, []);
+
+  const listenRef = useRef<() => void>(() => {});
+
+  const handlePartial = useCallback((text: string) => {
+    const command = commandFor(text);
+    // Wait for the final transcript — in some languages the negation comes
+    // after the verb ("শ্বাস নিচ্ছে না")
+    if (command && command !== 'breathing') {
+      cancelRecordingRef.current();
+      runCommand(command);
+    }
+  }, [commandFor, runCommand]);
+
+  const handleFinal = useCallback((text: string) => {
+    if (!mountedRef.current) return;
+    const command = text ? commandFor(text) : null;
+    if (command) {
+      runCommand(command);
+      return;
+    }
+    missedCommandsRef.current++;
+    if (missedCommandsRef.current < MAX_MISSED_COMMANDS) {
+      setTimeout(() => {
+        if (mountedRef.current) listenRef.current();
+      }, 300);
+    } else {
+      setPhase('waiting');
+    }
+  }, [commandFor, runCommand]);
+
+  const { startRecording, cancelRecording } = useStreamingTranscriber({
+    languageCode: speechCode,
+    onPartial: handlePartial,
+    onFinal: handleFinal,
+  });
+  const cancelRecordingRef = useRef(cancelRecording);
+  cancelRecordingRef.current = cancelRecording;
+
+  listenRef.current = async () => {
+    setPhase('listening');
+    try {
+      await startRecording();
+    } catch {
+      // No mic — the buttons still work
+      if (mountedRef.current) setPhase('waiting');
+    }
+  };
+
+  const stopAll = useCallback(() => {
+    speechTokenRef.current++;
+    ttsControllerRef.current?.stop();
+    ttsControllerRef.current = null;
+    if (typeof window !== 'undefined' && 'speechSynthesis' in window) window.speechSynthesis.cancel();
+    metronomeRef.current?.stop();
+    metronomeRef.current = null;
+    cancelRecordingRef.current();
+  }, []);
+
+  const speak = useCallback((text: string, onDone: () => void) => {
+    const token = speechTokenRef.current;
+    const finish = () => {
+      if (mountedRef.current && token === speechTokenRef.current) onDone();
+    };
+    let fellBack = false;
+    setPhase('speaking');
+    ttsControllerRef.current = streamTTS({
+      text,
+      languageCode: speechCode,
+      onEnd: () => {
+        if (!fellBack) finish();
+      },
+      onError: () => {
+        // Server TTS failed or has no voice for this language
+        fellBack = true;
+        ttsControllerRef.current = null;
+        if (token === speechTokenRef.current) speakWithBrowser(text, speechCode, finish);
+      },
+    });
+  }, [speechCode]);
+
+  const startBeat = useCallback(() => {
+    metronomeRef.current?.stop();
+    setBeat(0);
+    setPhase('beat');
+    metronomeRef.current = startMetronome(CPR_COMPRESSIONS_PER_MINUTE, {
+      beatsPerSet: CPR_COUNT_TO,
+      onBeat: (n) => {
+        if (mountedRef.current) setBeat(n);
+      },
+    });
+  }, []);
+
+  playStepRef.current = (index: number) => {
+    stopAll();
+    missedCommandsRef.current = 0;
+    stepIndexRef.current = index;
+    setStepIndex(index);
+    const current = stepsRef.current;
+
+    if (index < 0) {
+      // Straight on to the first step — calling for help needs no confirmation
+      speak(emergencyIntro(language), () => playStepRef.current(0));
+    } else if (index >= current.length) {
+      speak(t('emergency.finished'), () => setPhase('waiting'));
+    } else if (current[index].metronome) {
+      speak(current[index].text, startBeat);
+    } else {
+      speak(current[index].text, () => listenRef.current());
+    }
+  };
+
+  useEffect(() => {
+    mountedRef.current = true;
+    playStepRef.current(-1);
+    return () => {
+      mountedRef.current = false;
+      stopAll();
+    };
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handleToggleBeat = () => {
+    if (metronomeRef.current) {
+      metronomeRef.current.stop();
+      metronomeRef.current = null;
+      setPhase('waiting');
+    } else {
+      stopAll();
+      startBeat();
+    }
+  };
+
+  const handleClose = () => {
+    stopAll();
+    onClose();
+  };
+
+  const step = stepIndex >= 0 && stepIndex < steps.length ? steps[stepIndex] : null;
+  const text = stepIndex < 0
+    ? emergencyIntro(language)
+    : step?.text ?? t('emergency.finished');
+
+  return (
+    <div
+      className="fixed inset-0 z-50 overflow-y-auto bg-emergency-600/95 animate-fade-in"
+      role="alertdialog"
+      aria-modal="true"
+      aria-label={t('emergency.title')}
+      dir={getLanguageDir(language)}
+    >
+      <div className="max-w-md w-full mx-auto px-4 py-6 min-h-full flex flex-col gap-5 text-center">
+        <div>
+          <h1 className="text-2xl font-bold text-white uppercase tracking-wide">{t('emergency.title')}</h1>
+          <p className="text-white/80 text-sm mt-1">{t(getEmergencyProtocol(protocolId).titleKey)}</p>
+        </div>
+
+        {/* One-tap call */}
+        <div className="space-y-2">
+          <a
+            href={`tel:${EMERGENCY_NUMBERS.unified}`}
+            className="block w-full py-5 bg-white text-emergency-600 text-2xl font-bold
+                       rounded-2xl shadow-lg active:scale-95 transition-transform ring-4 ring-white/30"
+          >
+            {t('emergency.call', { number: EMERGENCY_NUMBERS.unified })}
+          </a>
+          <a
+            href={`tel:${EMERGENCY_NUMBERS.ambulance}`}
+            className="block w-full py-3 bg-white/20 text-white text-lg font-semibold
+                       rounded-2xl active:scale-95 transition-transform"
+          >
+            {t('emergency.ambulance', { number: EMERGENCY_NUMBERS.ambulance })}
+          </a>
+        </div>
+
+        {/* Current step */}
+        <div className="flex-1 bg-white/10 rounded-2xl p-5 flex flex-col justify-center gap-3" aria-live="polite">
+          {step && (
+            <p className="text-white/70 text-sm font-medium">
+              {t('emergency.stepOf', { current: stepIndex + 1, total: steps.length })}
+              {step.fromAssessment && <> · {t('emergency.fromAssessment')}</>}
+            </p>
+          )}
+          <p className="text-white text-xl font-semibold leading-relaxed">{text}</p>
+
+          {step?.metronome && (
+            <div className="flex flex-col items-center gap-2 pt-2">
+              <div
+                className={`w-28 h-28 rounded-full bg-white flex items-center justify-center text-5xl font-bold
+                            text-emergency-600 tabular-nums ${phase === 'beat' ? 'animate-recording-pulse' : ''}`}
+                aria-hidden="true"
+              >
+                {beat || '–'}
+              </div>
+              <p className="text-white/90 text-sm">{t('emergency.pushWithBeat')}</p>
+              <button
+                onClick={handleToggleBeat}
+                className="px-4 py-2 rounded-xl bg-white/20 text-white text-sm font-medium active:scale-95 transition-transform"
+              >
+                {phase === 'beat' ? t('emergency.pauseBeat') : t('emergency.resumeBeat')}
+              </button>
+            </div>
+          )}
+
+          {phase === 'listening' && (
+            <p className="text-white/80 text-sm flex items-center justify-center gap-2">
+              <span className="w-2.5 h-2.5 rounded-full bg-white animate-pulse" aria-hidden="true" />
+              {step?.ifBreathing ? t('emergency.sayBreathing') : t('emergency.sayNext')}
+            </p>
+          )}
+        </div>
+
+        {step?.ifBreathing && (
+          <button
+            onClick={() => runCommand('breathing')}
+            className="w-full py-3 rounded-xl bg-white/20 text-white font-semibold active:scale-95 transition-transform"
+          >
+            {t('emergency.breathing')}
+          </button>
+        )}
+
+        {/* Step controls */}
+        <div className="grid grid-cols-3 gap-2">
+          <button
+            onClick={() => runCommand('back')}
+            disabled={stepIndex <= 0}
+            className="py-3 rounded-xl bg-white/20 text-white font-semibold active:scale-95 transition-transform disabled:opacity-40"
+          >
+            {t('emergency.back')}
+          </button>
+          <button
+            onClick={() => runCommand('repeat')}
+            className="py-3 rounded-xl bg-white/20 text-white font-semibold active:scale-95 transition-transform"
+          >
+            {t('emergency.repeat')}
+          </button>
+          <button
+            onClick={() => runCommand('next')}
+            disabled={stepIndex >= steps.length}
+            className="py-3 rounded-xl bg-white text-emergency-600 font-bold active:scale-95 transition-transform disabled:opacity-40"
+          >
+            {t('emergency.next')}
+          </button>
+        </div>
+
+        {protocolId !== 'cpr' && (
+          <button
+            onClick={() => startProtocol('cpr')}
+            className="w-full py-3 rounded-xl border-2 border-white/60 text-white font-semibold active:scale-95 transition-transform"
+          >
+            {t('emergency.startCpr')}
+          </button>
+        )}
+
+        <button
+          onClick={handleClose}
+          className="text-white/60 text-sm underline hover:text-white/80 transition-colors"
+        >
+          {t('emergency.close')}
+        </button>
+      </div>
+    </div>
+  );
+}
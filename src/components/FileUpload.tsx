@@ -2,42 +2,60 @@
 
 import { useState, useRef } from 'react';
 import { Language } from '@/types';
+import { useTranslations } from '@/hooks/useTranslations';
+import { MAX_FILES_PER_SET, MAX_FILE_SIZE, MAX_SET_SIZE } from '@/lib/constants';
+
+const MB = 1024 * 1024;
 
 interface FileUploadProps {
   language: Language;
   disabled: boolean;
+  /** Triage session the upload is linked to, so the chat can refer to it */
+  sessionId?: string;
+  sessionToken?: string | null;
+  /** Called with the session the server linked the upload to */
+  onSessionLinked?: (sessionId: string, token: string) => void;
 }
 
-const LABELS: Record<Language, { upload: string; analyzing: string }> = {
-  hi: { upload: 'रिपोर्ट अपलोड करें', analyzing: 'विश्लेषण हो रहा है...' },
-  en: { upload: 'Upload report', analyzing: 'Analyzing...' },
-  ta: { upload: 'அறிக்கை பதிவேற்றவும்', analyzing: 'பகுப்பாய்வு...' },
-  te: { upload: 'రిపోర్ట్ అప్‌లోడ్', analyzing: 'విశ్లేషణ...' },
-  mr: { upload: 'रिपोर्ट अपलोड करा', analyzing: 'विश्लेषण...' },
-  kn: { upload: 'ವರದಿ ಅಪ್‌ಲೋಡ್', analyzing: 'ವಿಶ್ಲೇಷಣೆ...' },
-  bn: { upload: 'রিপোর্ট আপলোড', analyzing: 'বিশ্লেষণ...' },
-};
-
-export default function FileUpload({ language, disabled }: FileUploadProps) {
+export default function FileUpload({ language, disabled, sessionId, sessionToken, onSessionLinked }: FileUploadProps) {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysis, setAnalysis] = useState<string | null>(null);
+  const [fileCount, setFileCount] = useState(0);
+  const [medicationsAdded, setMedicationsAdded] = useState(0);
+  const [labResultsSaved, setLabResultsSaved] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const fileRef = useRef<HTMLInputElement>(null);
-  const t = LABELS[language];
+  const t = useTranslations(language);
 
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+    const files = Array.from(e.target.files ?? []);
+    if (files.length === 0) return;
 
     // Reset
     setError(null);
     setAnalysis(null);
+    setFileCount(0);
+    setMedicationsAdded(0);
+    setLabResultsSaved(0);
+
+    // Same limits as the server — fail fast before uploading
+    const tooLarge = files.some((f) => f.size > MAX_FILE_SIZE) || files.reduce((total, f) => total + f.size, 0) > MAX_SET_SIZE;
+    if (files.length > MAX_FILES_PER_SET || tooLarge) {
+      setError(files.length > MAX_FILES_PER_SET
+        ? t('upload.tooManyFiles', { max: MAX_FILES_PER_SET })
+        : t('upload.tooLarge', { fileMb: MAX_FILE_SIZE / MB, setMb: MAX_SET_SIZE / MB }));
+      if (fileRef.current) fileRef.current.value = '';
+      return;
+    }
+
     setIsAnalyzing(true);
 
     try {
       const formData = new FormData();
-      formData.append('file', file);
+      files.forEach((file) => formData.append('file', file));
       formData.append('language', language);
+      if (sessionId) formData.append('sessionId', sessionId);
+      if (sessionToken) formData.append('sessionToken', sessionToken);
 
       const response = await fetch('/api/analyze-document', {
         method: 'POST',
@@ -46,13 +64,19 @@ export default function FileUpload({ language, disabled }: FileUploadProps) {
 
       const data = await response.json();
       if (!response.ok) {
-        setError(data.error || 'Analysis failed');
+        setError(data.error || t('upload.failed'));
         return;
       }
 
       setAnalysis(data.analysis);
+      setFileCount(typeof data.fileCount === 'number' ? data.fileCount : 1);
+      if (typeof data.sessionId === 'string' && typeof data.sessionToken === 'string') {
+        onSessionLinked?.(data.sessionId, data.sessionToken);
+      }
+      setMedicationsAdded(Array.isArray(data.medicationsAdded) ? data.medicationsAdded.length : 0);
+      setLabResultsSaved(typeof data.labResultsSaved === 'number' ? data.labResultsSaved : 0);
     } catch {
-      setError('Failed to analyze document. Please try again.');
+      setError(t('upload.failed'));
     } finally {
       setIsAnalyzing(false);
       if (fileRef.current) fileRef.current.value = '';
@@ -66,6 +90,7 @@ export default function FileUpload({ language, disabled }: FileUploadProps) {
         ref={fileRef}
         type="file"
         accept="image/jpeg,image/png,image/webp,application/pdf"
+        multiple
         onChange={handleFileSelect}
         className="hidden"
       />
@@ -87,7 +112,7 @@ export default function FileUpload({ language, disabled }: FileUploadProps) {
             <path strokeLinecap="round" strokeLinejoin="round" d="M18.375 12.739l-7.693 7.693a4.5 4.5 0 01-6.364-6.364l10.94-10.94A3 3 0 1119.5 7.372L8.552 18.32m.009-.01l-.01.01m5.699-9.941l-7.81 7.81a1.5 1.5 0 002.112 2.13" />
           </svg>
         )}
-        {isAnalyzing ? t.analyzing : t.upload}
+        {isAnalyzing ? t('upload.analyzing') : t('upload.button')}
       </button>
 
       {/* Error */}
@@ -109,6 +134,21 @@ export default function FileUpload({ language, disabled }: FileUploadProps) {
           <div className="prose prose-sm prose-teal max-w-none text-gray-700 text-sm leading-relaxed whitespace-pre-wrap">
             {analysis}
           </div>
+          {fileCount > 1 && (
+            <p className="mt-3 text-xs font-medium text-teal-700 bg-teal-50 rounded-lg px-2.5 py-1.5">
+              {t('upload.setLinked', { count: fileCount })}
+            </p>
+          )}
+          {medicationsAdded > 0 && (
+            <p className="mt-2 text-xs font-medium text-teal-700 bg-teal-50 rounded-lg px-2.5 py-1.5">
+              {t('upload.medicationsAdded', { count: medicationsAdded })}
+            </p>
+          )}
+          {labResultsSaved > 0 && (
+            <p className="mt-2 text-xs font-medium text-teal-700 bg-teal-50 rounded-lg px-2.5 py-1.5">
+              {t('upload.labResultsSaved', { count: labResultsSaved })}
+            </p>
+          )}
         </div>
       )}
     </div>
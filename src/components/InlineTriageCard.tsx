@@ -2,7 +2,7 @@
 
 import { useState } from 'react';
 import { TriageResult as TriageResultType, Severity, Language } from '@/types';
-import { SEVERITY_CONFIG, URGENCY_LABELS, SUPPORTED_LANGUAGES } from '@/lib/constants';
+import { SEVERITY_CONFIG, URGENCY_LABELS, SUPPORTED_LANGUAGES, getLanguageDir } from '@/lib/constants';
 import ReadAloudButton from './ReadAloudButton';
 import { inlineFormat } from './RenderMarkdown';
 
@@ -43,6 +43,7 @@ export default function InlineTriageCard({ result, language }: InlineTriageCardP
   return (
     <div
       className={`rounded-2xl border p-4 w-full ${config.bgColor} ${config.borderColor} transition-all duration-300`}
+      dir={getLanguageDir(language ?? 'en')}
       role="region"
       aria-label={`Previous triage: ${config.label}`}
     >
@@ -0,0 +1,104 @@
+'use client';
+
+import type { LabTrend } from '@/lib/lab-results';
+
+const WIDTH = 300;
+const HEIGHT = 110;
+const PAD_X = 8;
+const PAD_Y = 12;
+
+function formatValue(value: number): string {
+  return Number.isInteger(value) ? value.toString() : value.toFixed(value < 10 ? 2 : 1).replace(/\.?0+$/, '');
+}
+
+function formatDate(iso: string): string {
+  return new Date(`${iso}T00:00:00`).toLocaleDateString(undefined, { month: 'short', year: '2-digit' });
+}
+
+/**
+ * One lab test over time: values on a date-scaled line, the latest
+ * reference range shaded behind them, abnormal points in red.
+ */
+export default function LabTrendChart({ trend }: { trend: LabTrend }) {
+  const points = trend.points;
+  const latest = points[points.length - 1];
+  const previous = points.length > 1 ? points[points.length - 2] : null;
+  const abnormal = latest.flag === 'low' || latest.flag === 'high';
+
+  const low = latest.reference_low;
+  const high = latest.reference_high;
+  const values = points.map((p) => p.value);
+  const minY = Math.min(...values, ...(low !== null ? [low] : []));
+  const maxY = Math.max(...values, ...(high !== null ? [high] : []));
+  const spanY = maxY - minY || Math.abs(maxY) || 1;
+
+  const times = points.map((p) => new Date(p.report_date).getTime());
+  const spanX = times[times.length - 1] - times[0];
+
+  const x = (i: number) => points.length === 1 || spanX === 0
+    ? WIDTH / 2
+    : PAD_X + ((times[i] - times[0]) / spanX) * (WIDTH - PAD_X * 2);
+  const y = (v: number) => HEIGHT - PAD_Y - ((v - minY) / spanY) * (HEIGHT - PAD_Y * 2);
+
+  const bandTop = y(high !== null ? Math.min(high, maxY) : maxY);
+  const bandBottom = y(low !== null ? Math.max(low, minY) : minY);
+
+  return (
+    <div className="card-clinical p-4 space-y-2">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700">{trend.label}</h3>
+          <p className="text-xs text-gray-400">
+            {points.length} result{points.length !== 1 ? 's' : ''}
+            {(low !== null || high !== null) && ` · normal ${low !== null ? formatValue(low) : ''}–${high !== null ? formatValue(high) : ''}`}
+          </p>
+        </div>
+        <div className="text-right">
+          <p className={`text-lg font-bold ${abnormal ? 'text-red-600' : 'text-gray-800'}`}>
+            {formatValue(latest.value)}
+            <span className="text-xs font-normal text-gray-400 ml-1">{trend.unit}</span>
+          </p>
+          <p className="text-[11px] text-gray-400">
+            {formatDate(latest.report_date)}
+            {previous && latest.value !== previous.value && (
+              <span> · {latest.value > previous.value ? '▲' : '▼'} from {formatValue(previous.value)}</span>
+            )}
+          </p>
+        </div>
+      </div>
+
+      {points.length > 1 && (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-28" role="img" aria-label={`${trend.label} trend`}>
+          {(low !== null || high !== null) && (
+            <rect x={0} y={bandTop} width={WIDTH} height={Math.max(bandBottom - bandTop, 1)} fill="#14b8a6" opacity={0.08} />
+          )}
+          <polyline
+            points={points.map((p, i) => `${x(i)},${y(p.value)}`).join(' ')}
+            fill="none"
+            stroke="#0d9488"
+            strokeWidth={2}
+            strokeLinejoin="round"
+          />
+          {points.map((p, i) => (
+            <circle
+              key={i}
+              cx={x(i)}
+              cy={y(p.value)}
+              r={3.5}
+              fill={p.flag === 'low' || p.flag === 'high' ? '#dc2626' : '#0d9488'}
+            >
+              <title>{`${formatValue(p.value)} ${trend.unit ?? ''} — ${formatDate(p.report_date)}`}</title>
+            </circle>
+          ))}
+        </svg>
+      )}
+
+      {points.length > 1 && (
+        <div className="flex justify-between text-[10px] text-gray-400">
+          <span>{formatDate(points[0].report_date)}</span>
+          <span>{formatDate(latest.report_date)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
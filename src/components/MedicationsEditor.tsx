@@ -0,0 +1,237 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { Medication } from '@/lib/medications';
+
+interface Draft {
+  name: string;
+  dose: string;
+  frequency: string;
+  started_on: string;
+  stopped_on: string;
+}
+
+const EMPTY_DRAFT: Draft = { name: '', dose: '', frequency: '', started_on: '', stopped_on: '' };
+
+const inputClass = `w-full px-3 py-2 rounded-xl border border-gray-200 text-sm text-gray-800
+                    focus:border-teal-400 focus:ring-2 focus:ring-teal-100 outline-none transition-all duration-200`;
+
+function toDraft(med: Medication): Draft {
+  return {
+    name: med.name,
+    dose: med.dose ?? '',
+    frequency: med.frequency ?? '',
+    started_on: med.started_on ?? '',
+    stopped_on: med.stopped_on ?? '',
+  };
+}
+
+function isStopped(med: Medication): boolean {
+  return !!med.stopped_on && med.stopped_on <= new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * The patient's medication list, edited in place. Each change is saved
+ * straight away — independent of the profile form's Save button.
+ * Renders nothing for anonymous users or without a database.
+ */
+export default function MedicationsEditor() {
+  const [medications, setMedications] = useState<Medication[] | null>(null);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/medications')
+      .then(res => res.ok ? res.json() : null)
+      .then(data => setMedications(data?.medications ?? null))
+      .catch(() => setMedications(null));
+  }, []);
+
+  if (!medications) return null;
+
+  function startEdit(id: string | 'new', med?: Medication) {
+    setEditing(id);
+    setDraft(med ? toDraft(med) : EMPTY_DRAFT);
+    setError(false);
+  }
+
+  async function save(id: string | 'new', body: Partial<Record<keyof Draft, string | null>>) {
+    setBusy(true);
+    setError(false);
+    try {
+      const res = await fetch(id === 'new' ? '/api/medications' : `/api/medications/${id}`, {
+        method: id === 'new' ? 'POST' : 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) throw new Error('Failed to save');
+      const data: { medication: Medication } = await res.json();
+      setMedications(prev => id === 'new'
+        ? [data.medication, ...(prev ?? [])]
+        : (prev ?? []).map(m => m.id === id ? data.medication : m));
+      setEditing(null);
+    } catch {
+      setError(true);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function remove(id: string) {
+    setBusy(true);
+    setError(false);
+    try {
+      const res = await fetch(`/api/medications/${id}`, { method: 'DELETE' });
+      if (!res.ok && res.status !== 404) throw new Error('Failed to delete');
+      setMedications(prev => (prev ?? []).filter(m => m.id !== id));
+      setEditing(null);
+    } catch {
+      setError(true);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const draftBody = () => ({
+    name: draft.name,
+    dose: draft.dose || null,
+    frequency: draft.frequency || null,
+    started_on: draft.started_on || null,
+    stopped_on: draft.stopped_on || null,
+  });
+
+  const form = (id: string | 'new') => (
+    <div className="space-y-2 p-3 rounded-xl border border-teal-200 bg-teal-50/30">
+      <input
+        type="text"
+        value={draft.name}
+        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+        placeholder="Medicine name, e.g. Telma 40"
+        maxLength={120}
+        className={inputClass}
+      />
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          type="text"
+          value={draft.dose}
+          onChange={(e) => setDraft({ ...draft, dose: e.target.value })}
+          placeholder="Dose, e.g. 40 mg"
+          maxLength={120}
+          className={inputClass}
+        />
+        <input
+          type="text"
+          value={draft.frequency}
+          onChange={(e) => setDraft({ ...draft, frequency: e.target.value })}
+          placeholder="How often, e.g. once daily"
+          maxLength={120}
+          className={inputClass}
+        />
+        <label className="text-[11px] text-gray-500">
+          Started
+          <input
+            type="date"
+            value={draft.started_on}
+            onChange={(e) => setDraft({ ...draft, started_on: e.target.value })}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-[11px] text-gray-500">
+          Stopped
+          <input
+            type="date"
+            value={draft.stopped_on}
+            min={draft.started_on || undefined}
+            onChange={(e) => setDraft({ ...draft, stopped_on: e.target.value })}
+            className={inputClass}
+          />
+        </label>
+      </div>
+      <div className="flex items-center justify-end gap-1">
+        {id !== 'new' && (
+          <button
+            onClick={() => remove(id)}
+            disabled={busy}
+            className="mr-auto px-2.5 py-1.5 text-xs text-red-500 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+          >
+            Remove
+          </button>
+        )}
+        <button
+          onClick={() => setEditing(null)}
+          className="px-2.5 py-1.5 text-xs text-gray-500 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => save(id, draftBody())}
+          disabled={busy || !draft.name.trim()}
+          className="px-2.5 py-1.5 text-xs font-medium text-white bg-teal-600 rounded-lg hover:bg-teal-700 transition-colors disabled:opacity-50"
+        >
+          {id === 'new' ? 'Add' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="mb-5">
+      <label className="text-sm font-medium text-gray-600 block mb-1.5">Medicines you take</label>
+      <div className="space-y-2">
+        {medications.map(med => editing === med.id ? (
+          <div key={med.id}>{form(med.id)}</div>
+        ) : (
+          <div key={med.id} className={`flex items-start justify-between gap-2 px-3 py-2 rounded-xl border border-gray-200 ${isStopped(med) ? 'opacity-60' : ''}`}>
+            <div className="min-w-0">
+              <p className="text-sm text-gray-800">
+                {med.name}
+                {med.generic_name && med.generic_name.toLowerCase() !== med.name.toLowerCase() && (
+                  <span className="text-xs text-gray-400"> · {med.generic_name}</span>
+                )}
+              </p>
+              <p className="text-xs text-gray-400">
+                {[med.dose, med.frequency].filter(Boolean).join(', ')}
+                {isStopped(med)
+                  ? ` · stopped ${med.stopped_on}`
+                  : med.started_on ? ` · since ${med.started_on}` : ''}
+                {med.source === 'prescription' && ' · from prescription'}
+              </p>
+            </div>
+            <div className="flex items-center flex-shrink-0">
+              {!isStopped(med) && (
+                <button
+                  onClick={() => save(med.id, { stopped_on: new Date().toISOString().slice(0, 10) })}
+                  disabled={busy}
+                  className="px-2 py-1 text-xs text-gray-500 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                >
+                  Stop
+                </button>
+              )}
+              <button
+                onClick={() => startEdit(med.id, med)}
+                className="px-2 py-1 text-xs text-teal-600 rounded-lg hover:bg-teal-50 transition-colors"
+              >
+                Edit
+              </button>
+            </div>
+          </div>
+        ))}
+
+        {editing === 'new' ? form('new') : (
+          <button
+            onClick={() => startEdit('new')}
+            className="w-full px-3 py-2 rounded-xl border border-dashed border-gray-300 text-xs font-medium text-gray-500
+                       hover:border-teal-300 hover:text-teal-600 transition-colors"
+          >
+            + Add a medicine
+          </button>
+        )}
+      </div>
+      {error && (
+        <p className="mt-1 text-xs text-red-600">Couldn&apos;t save that change. Check the dates and try again.</p>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,10 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { Language } from '@/types';
 import { SUPPORTED_LANGUAGES } from '@/lib/constants';
+import MedicationsEditor from './MedicationsEditor';
 
 interface ProfileFormProps {
   onClose: () => void;
@@ -210,8 +212,14 @@ export default function ProfileForm({ onClose, language }: ProfileFormProps) {
                 </button>
               ))}
             </div>
+            <Link href="/memory" className="inline-block mt-2 text-xs text-teal-600 hover:text-teal-700 font-medium">
+              What Sehat remembers about me →
+            </Link>
           </div>
 
+          {/* Medications */}
+          <MedicationsEditor />
+
           {/* Save */}
           <button
             onClick={handleSave}
@@ -2,6 +2,7 @@
 
 import { useState, useRef, useCallback } from 'react';
 import { streamTTS, TTSPlaybackController } from '@/lib/tts-client';
+import { supportsTTS } from '@/lib/constants';
 
 interface ReadAloudButtonProps {
   text: string;
@@ -51,6 +52,9 @@ export default function ReadAloudButton({ text, languageCode, size = 'sm' }: Rea
     controllerRef.current = controller;
   }, [ttsState, text, languageCode]);
 
+  // No voice for this language (Urdu) — hide rather than offer a button that always fails
+  if (!supportsTTS(languageCode)) return null;
+
   const iconSize = size === 'md' ? 'w-5 h-5' : 'w-4 h-4';
   const textSize = size === 'md' ? 'text-sm' : 'text-xs';
 
@@ -2,7 +2,7 @@
 
 import { useState, useRef, useEffect } from 'react';
 import { Language } from '@/types';
-import { SUPPORTED_LANGUAGES } from '@/lib/constants';
+import { SUPPORTED_LANGUAGES, getLanguageDir } from '@/lib/constants';
 
 interface TextInputProps {
   onSubmit: (text: string) => void;
@@ -66,6 +66,7 @@ export default function TextInput({
         placeholder={placeholder}
         disabled={disabled}
         rows={1}
+        dir={getLanguageDir(language)}
         className="flex-1 min-w-0 resize-none bg-transparent border-0
                    pl-4 pr-0 py-3 text-gray-800 placeholder-gray-400
                    focus:outline-none focus:ring-0
@@ -57,7 +57,9 @@ const STEP_DEFINITIONS = [
 // Human-readable tool descriptions
 const TOOL_LABELS: Record<string, { label: string; description: string }> = {
   get_patient_history: { label: 'Patient history', description: 'Checking past triage sessions' },
-  get_medication_context: { label: 'Medication context', description: 'Scanning for medication mentions' },
+  get_medication_context: { label: 'Medication list', description: 'Checking current medicines' },
+  check_medication_safety: { label: 'Medicine safety', description: 'Checking interactions and allergies' },
+  get_lab_results: { label: 'Lab results', description: 'Checking recent lab values' },
   analyze_symptom_patterns: { label: 'Symptom patterns', description: 'Analyzing recurrence and trends' },
   check_symptom_combinations: { label: 'Condition matching', description: 'Cross-referencing symptom clusters' },
   recommend_specialist: { label: 'Specialist', description: 'Determining appropriate specialist' },
@@ -122,9 +124,21 @@ function getToolSummary(name: string, result: Record<string, unknown> | null): s
       return null;
     }
     case 'get_medication_context': {
-      const meds = result.mentioned_medications as unknown[];
-      if (!meds?.length) return 'No medication history found';
-      return `${meds.length} medication reference${meds.length > 1 ? 's' : ''}`;
+      const meds = result.current_medications as unknown[];
+      if (!meds?.length) return 'No current medicines on record';
+      return `${meds.length} current medicine${meds.length > 1 ? 's' : ''}`;
+    }
+    case 'get_lab_results': {
+      const latest = result.latest as unknown[];
+      const abnormal = result.abnormal_count as number;
+      if (!latest?.length) return (result.note as string) || 'No lab results';
+      return abnormal ? `${abnormal} abnormal value${abnormal > 1 ? 's' : ''}` : `${latest.length} test${latest.length > 1 ? 's' : ''}, all in range`;
+    }
+    case 'check_medication_safety': {
+      const findings = result.findings as { severity: string }[];
+      if (!findings?.length) return (result.note as string) || 'No known interactions';
+      const major = findings.filter((f) => f.severity === 'major').length;
+      return `${findings.length} caution${findings.length > 1 ? 's' : ''}${major ? ` — ${major} major` : ''}`;
     }
     case 'save_clinical_note': {
       const saved = result.saved as boolean;
@@ -137,8 +151,8 @@ function getToolSummary(name: string, result: Record<string, unknown> | null): s
     case 'update_risk_profile': {
       const updated = result.updated as boolean;
       if (!updated) return (result.note as string) || 'Profile not updated';
-      const count = result.conditions_merged as number;
-      return `Profile updated (${count} condition${count !== 1 ? 's' : ''})`;
+      const count = result.notes_recorded as number;
+      return `Profile updated (${count} note${count !== 1 ? 's' : ''})`;
     }
     case 'find_nearby_hospitals': {
       const hospitals = result.hospitals as unknown[];
@@ -1,7 +1,7 @@
 'use client';
 
 import { TriageResult as TriageResultType, Severity, Language, NearbyHospital } from '@/types';
-import { SEVERITY_CONFIG, URGENCY_LABELS, SUPPORTED_LANGUAGES } from '@/lib/constants';
+import { SEVERITY_CONFIG, URGENCY_LABELS, SUPPORTED_LANGUAGES, getLanguageDir } from '@/lib/constants';
 import ReadAloudButton from './ReadAloudButton';
 import NearbyHospitals from './NearbyHospitals';
 import { inlineFormat } from './RenderMarkdown';
@@ -69,6 +69,7 @@ export default function TriageResult({ result, language, nearbyHospitals }: Tria
   return (
     <div
       className={`severity-card ${config.bgColor} ${config.borderColor} w-full`}
+      dir={getLanguageDir(language ?? 'en')}
       role="region"
       aria-label={`Triage result: ${config.label}`}
       aria-live="polite"
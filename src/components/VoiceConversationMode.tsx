@@ -2,43 +2,25 @@
 
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { Language } from '@/types';
-import { useVoiceRecorder } from '@/hooks/useVoiceRecorder';
+import { useStreamingTranscriber } from '@/hooks/useStreamingTranscriber';
+import { useTranslations } from '@/hooks/useTranslations';
 import { SUPPORTED_LANGUAGES } from '@/lib/constants';
 import { streamTTS, TTSPlaybackController } from '@/lib/tts-client';
 import { startCalmAudio, stopCalmAudio } from '@/lib/calm-audio';
+import { monitorVoiceActivity, VoiceActivityMonitor } from '@/lib/vad';
 
 type VoicePhase = 'idle' | 'listening' | 'transcribing' | 'thinking' | 'speaking';
 
 const SARVAM_LANG_MAP: Record<Language, string> = {
-  hi: 'hi-IN', ta: 'ta-IN', te: 'te-IN', mr: 'mr-IN', kn: 'kn-IN', bn: 'bn-IN', en: 'en-IN',
-};
-
-const PHASE_LABELS: Record<VoicePhase, Record<Language, string>> = {
-  idle: {
-    hi: 'बोलने के लिए टैप करें', ta: 'பேச தட்டவும்', te: 'మాట్లాడటానికి నొక్కండి',
-    mr: 'बोलण्यासाठी टॅप करा', kn: 'ಮಾತನಾಡಲು ಟ್ಯಾಪ್ ಮಾಡಿ', bn: 'বলতে ট্যাপ করুন', en: 'Tap to speak',
-  },
-  listening: {
-    hi: 'सुन रहे हैं...', ta: 'கேட்கிறோம்...', te: 'వింటున్నాము...',
-    mr: 'ऐकत आहोत...', kn: 'ಕೇಳುತ್ತಿದ್ದೇವೆ...', bn: 'শুনছি...', en: 'Listening...',
-  },
-  transcribing: {
-    hi: 'समझ रहे हैं...', ta: 'புரிந்துகொள்கிறோம்...', te: 'అర్థం చేసుకుంటున్నాము...',
-    mr: 'समजून घेत आहोत...', kn: 'ಅರ್ಥಮಾಡಿಕೊಳ್ಳುತ್ತಿದ್ದೇವೆ...', bn: 'বুঝছি...', en: 'Processing...',
-  },
-  thinking: {
-    hi: 'सोच रहे हैं...', ta: 'யோசிக்கிறோம்...', te: 'ఆలోచిస్తున్నాము...',
-    mr: 'विचार करत आहोत...', kn: 'ಯೋಚಿಸುತ್ತಿದ್ದೇವೆ...', bn: 'ভাবছি...', en: 'Thinking...',
-  },
-  speaking: {
-    hi: 'बोल रहे हैं...', ta: 'பேசுகிறோம்...', te: 'చెబుతున్నాము...',
-    mr: 'बोलत आहोत...', kn: 'ಹೇಳುತ್ತಿದ್ದೇವೆ...', bn: 'বলছি...', en: 'Speaking...',
-  },
+  hi: 'hi-IN', ta: 'ta-IN', te: 'te-IN', mr: 'mr-IN', kn: 'kn-IN', bn: 'bn-IN',
+  gu: 'gu-IN', ml: 'ml-IN', pa: 'pa-IN', or: 'od-IN', ur: 'ur-IN', en: 'en-IN',
 };
 
 interface VoiceConversationModeProps {
   language: Language;
   onTranscript: (text: string) => void;
+  /** Live transcript while the patient is still speaking — e.g. for early emergency detection */
+  onPartialTranscript?: (text: string) => void;
   onExit: () => void;
   textToSpeak: string | null;
   isProcessing: boolean;
@@ -48,24 +30,29 @@ interface VoiceConversationModeProps {
 
 // Safety timeout: if stuck in thinking/transcribing for >20s, reset to idle
 const STUCK_TIMEOUT = 20000;
+// Barge-in needs clearer, longer speech than a normal turn — the TTS voice
+// leaks back into the mic, and a cough shouldn't cut the answer off
+const BARGE_IN_MIN_SNR_DB = 15;
+const BARGE_IN_MIN_SPEECH_MS = 300;
 
 export default function VoiceConversationMode({
   language,
   onTranscript,
+  onPartialTranscript,
   onExit,
   textToSpeak,
   isProcessing,
   shouldAutoListen = true,
 }: VoiceConversationModeProps) {
   const [phase, setPhase] = useState<VoicePhase>('idle');
+  const t = useTranslations(language);
   const ttsControllerRef = useRef<TTSPlaybackController | null>(null);
   const lastSpokenRef = useRef<string | null>(null);
   const mountedRef = useRef(true);
   const stuckTimerRef = useRef<NodeJS.Timeout | null>(null);
-  // Barge-in detection: audio context + analyser for mic monitoring during TTS
+  // Barge-in detection: voice activity on the mic during TTS
   const bargeinStreamRef = useRef<MediaStream | null>(null);
-  const bargeinContextRef = useRef<AudioContext | null>(null);
-  const bargeinIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const bargeinMonitorRef = useRef<VoiceActivityMonitor | null>(null);
 
   // Play calm ambient audio during thinking/transcribing phases
   useEffect(() => {
@@ -77,91 +64,66 @@ export default function VoiceConversationMode({
     return () => { stopCalmAudio(); };
   }, [phase]);
 
-  // Barge-in detection: monitor mic during TTS playback, auto-stop when user speaks
+  // Barge-in detection: monitor mic during TTS playback, stop TTS only on real speech
   useEffect(() => {
-    if (phase !== 'speaking') {
-      // Clean up barge-in monitoring when not speaking
-      if (bargeinIntervalRef.current) {
-        clearInterval(bargeinIntervalRef.current);
-        bargeinIntervalRef.current = null;
-      }
-      if (bargeinContextRef.current) {
-        bargeinContextRef.current.close().catch(() => {});
-        bargeinContextRef.current = null;
-      }
+    const stopMonitoring = () => {
+      bargeinMonitorRef.current?.stop();
+      bargeinMonitorRef.current = null;
       if (bargeinStreamRef.current) {
         bargeinStreamRef.current.getTracks().forEach((t) => t.stop());
         bargeinStreamRef.current = null;
       }
+    };
+
+    if (phase !== 'speaking') {
+      stopMonitoring();
       return;
     }
 
     // Start monitoring after a 600ms delay (let TTS audio stabilize first,
     // avoids false triggers from speaker → mic echo on initial playback)
+    let cancelled = false;
     const delayTimer = setTimeout(async () => {
-      if (!mountedRef.current || phase !== 'speaking') return;
+      if (!mountedRef.current || cancelled) return;
       try {
         const stream = await navigator.mediaDevices.getUserMedia({
           audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true },
         });
+        if (cancelled) {
+          stream.getTracks().forEach((t) => t.stop());
+          return;
+        }
         bargeinStreamRef.current = stream;
 
-        const ctx = new AudioContext();
-        bargeinContextRef.current = ctx;
-        const source = ctx.createMediaStreamSource(stream);
-        const analyser = ctx.createAnalyser();
-        analyser.fftSize = 512;
-        analyser.smoothingTimeConstant = 0.3;
-        source.connect(analyser);
-
-        const dataArray = new Uint8Array(analyser.frequencyBinCount);
-        let consecutiveHigh = 0;
-        const THRESHOLD = 40;        // volume level to detect speech (0-255)
-        const SUSTAIN_COUNT = 3;     // consecutive checks needed (~300ms at 100ms interval)
-
-        bargeinIntervalRef.current = setInterval(() => {
-          if (!mountedRef.current || phase !== 'speaking') return;
-          analyser.getByteFrequencyData(dataArray);
-          // Average volume across frequency bins
-          const avg = dataArray.reduce((sum, v) => sum + v, 0) / dataArray.length;
-
-          if (avg > THRESHOLD) {
-            consecutiveHigh++;
-            if (consecutiveHigh >= SUSTAIN_COUNT) {
-              // Barge-in detected — user is speaking
-              console.log('[VoiceMode] Barge-in detected, stopping TTS');
-              if (ttsControllerRef.current) {
-                ttsControllerRef.current.stop();
-                ttsControllerRef.current = null;
-              }
-              // Transition to listening
-              startListeningRef.current();
+        // Fans, traffic and the TV raise the detector's noise floor instead of triggering it
+        bargeinMonitorRef.current = monitorVoiceActivity(stream, {
+          minSnrDb: BARGE_IN_MIN_SNR_DB,
+          minSpeechMs: BARGE_IN_MIN_SPEECH_MS,
+          onSpeechStart: () => {
+            if (!mountedRef.current || cancelled) return;
+            // Barge-in detected — user is speaking
+            console.log('[VoiceMode] Barge-in detected, stopping TTS');
+            if (ttsControllerRef.current) {
+              ttsControllerRef.current.stop();
+              ttsControllerRef.current = null;
             }
-          } else {
-            consecutiveHigh = 0;
-          }
-        }, 100);
+            // Release the mic before the recorder asks for it
+            stopMonitoring();
+            // Transition to listening
+            startListeningRef.current();
+          },
+        });
       } catch {
         // Mic access failed — barge-in won't work, but manual tap still does
       }
     }, 600);
 
     return () => {
+      cancelled = true;
       clearTimeout(delayTimer);
-      if (bargeinIntervalRef.current) {
-        clearInterval(bargeinIntervalRef.current);
-        bargeinIntervalRef.current = null;
-      }
-      if (bargeinContextRef.current) {
-        bargeinContextRef.current.close().catch(() => {});
-        bargeinContextRef.current = null;
-      }
-      if (bargeinStreamRef.current) {
-        bargeinStreamRef.current.getTracks().forEach((t) => t.stop());
-        bargeinStreamRef.current = null;
-      }
+      stopMonitoring();
     };
-  }, [phase]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [phase]);
 
   // Safety: reset stuck phases after timeout
   useEffect(() => {
@@ -185,46 +147,42 @@ export default function VoiceConversationMode({
     };
   }, [phase]);
 
-  const handleAudioReady = useCallback(
-    async (blob: Blob) => {
+  const handleFinalTranscript = useCallback(
+    (text: string) => {
       if (!mountedRef.current) return;
-      setPhase('transcribing');
-      try {
-        const formData = new FormData();
-        const ext = blob.type.includes('webm') ? 'webm' : 'mp4';
-        formData.append('audio', blob, `recording.${ext}`);
-        formData.append('language', SARVAM_LANG_MAP[language]);
-        const response = await fetch('/api/transcribe', { method: 'POST', body: formData });
-        if (!response.ok) throw new Error('Transcription failed');
-        const data = await response.json();
-        if (data.text && mountedRef.current) {
-          setPhase('thinking');
-          onTranscript(data.text);
-        } else if (mountedRef.current) {
-          // Empty transcript (silence/noise) — only auto-retry if no UI is waiting for input
-          setPhase('idle');
-          if (shouldAutoListenRef.current) {
-            setTimeout(() => {
-              if (mountedRef.current && shouldAutoListenRef.current) startListeningRef.current();
-            }, 300);
-          }
-        }
-      } catch {
-        if (mountedRef.current) {
-          setPhase('idle');
-          // Only auto-retry if appropriate
-          if (shouldAutoListenRef.current) {
-            setTimeout(() => {
-              if (mountedRef.current && shouldAutoListenRef.current) startListeningRef.current();
-            }, 300);
-          }
+      if (text) {
+        setPhase('thinking');
+        onTranscript(text);
+      } else {
+        // Empty transcript (silence/noise/failure) — only auto-retry if no UI is waiting for input
+        setPhase('idle');
+        if (shouldAutoListenRef.current) {
+          setTimeout(() => {
+            if (mountedRef.current && shouldAutoListenRef.current) startListeningRef.current();
+          }, 300);
         }
       }
     },
-    [language, onTranscript]
+    [onTranscript]
   );
 
-  const { isRecording, startRecording, stopRecording } = useVoiceRecorder(handleAudioReady);
+  const {
+    isRecording,
+    isProcessing: isTranscribing,
+    partialTranscript,
+    startRecording,
+    stopRecording,
+    cancelRecording,
+  } = useStreamingTranscriber({
+    languageCode: SARVAM_LANG_MAP[language],
+    onPartial: onPartialTranscript,
+    onFinal: handleFinalTranscript,
+  });
+
+  // Recording ended — waiting on the final transcript
+  useEffect(() => {
+    if (isTranscribing && mountedRef.current) setPhase('transcribing');
+  }, [isTranscribing]);
 
   const startListening = useCallback(async () => {
     setPhase('listening');
@@ -314,8 +272,8 @@ export default function VoiceConversationMode({
     return () => {
       mountedRef.current = false;
       clearTimeout(t);
-      // Stop recording to release mic (privacy + battery)
-      stopRecording();
+      // Release the mic (privacy + battery) — nobody is left to hear the transcript
+      cancelRecording();
       if (ttsControllerRef.current) {
         ttsControllerRef.current.stop();
         ttsControllerRef.current = null;
@@ -344,11 +302,11 @@ export default function VoiceConversationMode({
       ttsControllerRef.current.stop();
       ttsControllerRef.current = null;
     }
-    if (isRecording) stopRecording();
+    if (isRecording) cancelRecording();
     onExit();
   };
 
-  const label = PHASE_LABELS[phase][language];
+  const label = t(`voice.${phase}`);
 
   // Determine ambient glow class
   const glowClass =
@@ -453,6 +411,13 @@ export default function VoiceConversationMode({
           </button>
         </div>
 
+        {/* Live caption — what has been heard so far */}
+        {(phase === 'listening' || phase === 'transcribing') && partialTranscript && (
+          <p className="max-w-md text-center text-sm text-gray-600 animate-fade-in" aria-live="polite">
+            {partialTranscript}
+          </p>
+        )}
+
         {/* Glow bar — like Claude's warm gradient bar */}
         {(phase === 'listening' || phase === 'speaking') && (
           <div className={`w-full max-w-xs h-12 rounded-full flex items-center justify-center animate-fade-in ${barClass}`}>
@@ -3,6 +3,7 @@
 import { useState, useCallback } from 'react';
 import { Language } from '@/types';
 import { useVoiceRecorder } from '@/hooks/useVoiceRecorder';
+import { useTranslations } from '@/hooks/useTranslations';
 
 interface VoiceInputProps {
   onTranscript: (text: string) => void;
@@ -12,13 +13,8 @@ interface VoiceInputProps {
 
 // BCP-47 language codes for Sarvam Saarika STT
 const SARVAM_LANG_MAP: Record<Language, string> = {
-  hi: 'hi-IN', ta: 'ta-IN', te: 'te-IN', mr: 'mr-IN', kn: 'kn-IN', bn: 'bn-IN', en: 'en-IN',
-};
-
-const LISTENING_LABELS: Record<Language, string> = {
-  hi: 'सुन रहे हैं...', ta: 'கேட்கிறோம்...', te: 'వింటున్నాము...',
-  mr: 'ऐकत आहोत...', kn: 'ಕೇಳುತ್ತಿದ್ದೇವೆ...', bn: 'শুনছি...',
-  en: 'Listening...',
+  hi: 'hi-IN', ta: 'ta-IN', te: 'te-IN', mr: 'mr-IN', kn: 'kn-IN', bn: 'bn-IN',
+  gu: 'gu-IN', ml: 'ml-IN', pa: 'pa-IN', or: 'od-IN', ur: 'ur-IN', en: 'en-IN',
 };
 
 export default function VoiceInput({
@@ -29,6 +25,7 @@ export default function VoiceInput({
   const [transcribedText, setTranscribedText] = useState<string | null>(null);
   const [isTranscribing, setIsTranscribing] = useState(false);
   const [transcribeError, setTranscribeError] = useState<string | null>(null);
+  const t = useTranslations(language);
 
   const handleAudioReady = useCallback(
     async (blob: Blob) => {
@@ -36,7 +33,7 @@ export default function VoiceInput({
       setTranscribeError(null);
       try {
         const formData = new FormData();
-        const ext = blob.type.includes('webm') ? 'webm' : 'mp4';
+        const ext = blob.type.includes('wav') ? 'wav' : blob.type.includes('webm') ? 'webm' : 'mp4';
         formData.append('audio', blob, `recording.${ext}`);
         formData.append('language', SARVAM_LANG_MAP[language]);
         const response = await fetch('/api/transcribe', { method: 'POST', body: formData });
@@ -46,7 +43,7 @@ export default function VoiceInput({
           setTranscribedText(data.text);
           setTimeout(() => { onTranscript(data.text); setTranscribedText(null); }, 1000);
         } else {
-          setTranscribeError('Could not understand. Try again or type instead.');
+          setTranscribeError(t('voice.notUnderstood'));
         }
       } catch {
         setTranscribeError('Transcription failed. Try again or type instead.');
@@ -54,7 +51,7 @@ export default function VoiceInput({
         setIsTranscribing(false);
       }
     },
-    [language, onTranscript]
+    [language, onTranscript, t]
   );
 
   const { isRecording, isProcessing, error: recorderError, startRecording, stopRecording } =
@@ -67,7 +64,7 @@ export default function VoiceInput({
 
   const isProcessingAny = isProcessing || isTranscribing;
   const error = recorderError || transcribeError;
-  const listeningLabel = LISTENING_LABELS[language];
+  const listeningLabel = t('voice.listening');
 
   return (
     <>
@@ -0,0 +1,294 @@
+'use client';
+
+import { useState, useRef, useCallback } from 'react';
+import type { TranscribeResponse, TranscribeStreamResponse } from '@/types';
+import { concatPcm, downsampleToPcm, encodeWav, pcmToFloat, PCM_SAMPLE_RATE } from '@/lib/pcm-audio';
+import { createVoiceActivityDetector, findSpeechBounds } from '@/lib/vad';
+
+interface UseStreamingTranscriberOptions {
+  /** Sarvam language code, e.g. hi-IN */
+  languageCode: string;
+  /** Every new best guess while the patient is still speaking */
+  onPartial?: (text: string) => void;
+  /** The finished transcript — empty for silence, noise or a failed transcription */
+  onFinal: (text: string) => void;
+  /** Stop by itself once the patient stops talking (default true) */
+  autoStop?: boolean;
+}
+
+interface UseStreamingTranscriberReturn {
+  isRecording: boolean;
+  /** Between the end of the recording and the final transcript */
+  isProcessing: boolean;
+  partialTranscript: string;
+  error: string | null;
+  startRecording: () => Promise<void>;
+  stopRecording: () => void;
+  /** Release the mic and discard the recording — no transcript is delivered */
+  cancelRecording: () => void;
+}
+
+const MAX_RECORDING_DURATION = 30000; // 30 seconds
+const SEND_INTERVAL = 300;
+
+/** The speech in a recording, without the silence around it — null when there is none */
+function trimPcm(pcm: Int16Array): Int16Array | null {
+  const bounds = findSpeechBounds(pcmToFloat(pcm), PCM_SAMPLE_RATE);
+  return bounds ? pcm.subarray(bounds.start, bounds.end) : null;
+}
+
+/**
+ * Records the mic as 16 kHz PCM and streams it to /api/transcribe-stream
+ * while the patient speaks, so partial transcripts arrive before they stop.
+ * The whole recording is kept: if streaming fails at any point it is sent
+ * to /api/transcribe as one clip instead, and the patient never notices.
+ * Sessions live on one server instance — a chunk that lands on another gets
+ * a 404, and the session is reopened there once with all the audio so far
+ * before giving up on streaming.
+ *
+ * Voice activity detection ends the turn when the patient goes quiet, and a
+ * recording with no speech in it is never transcribed — that is where STT
+ * hallucinations come from.
+ */
+export function useStreamingTranscriber({
+  languageCode,
+  onPartial,
+  onFinal,
+  autoStop = true,
+}: UseStreamingTranscriberOptions): UseStreamingTranscriberReturn {
+  const [isRecording, setIsRecording] = useState(false);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [partialTranscript, setPartialTranscript] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const streamRef = useRef<MediaStream | null>(null);
+  const contextRef = useRef<AudioContext | null>(null);
+  const processorRef = useRef<ScriptProcessorNode | null>(null);
+  const sendTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const timeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+  // Everything recorded, and the part not yet sent
+  const recordedRef = useRef<Int16Array[]>([]);
+  const unsentRef = useRef<Int16Array[]>([]);
+  const sessionIdRef = useRef<string | null>(null);
+  const seqRef = useRef(0);
+  const inFlightRef = useRef<Promise<unknown> | null>(null);
+  const streamFailedRef = useRef(false);
+  const reopenedRef = useRef(false);
+  const lastPartialRef = useRef('');
+  const heardSpeechRef = useRef(false);
+
+  const onPartialRef = useRef(onPartial);
+  onPartialRef.current = onPartial;
+  const onFinalRef = useRef(onFinal);
+  onFinalRef.current = onFinal;
+  const languageRef = useRef(languageCode);
+  languageRef.current = languageCode;
+  const autoStopRef = useRef(autoStop);
+  autoStopRef.current = autoStop;
+
+  const sendChunk = useCallback(async (end: boolean): Promise<TranscribeStreamResponse> => {
+    const pcm = concatPcm(unsentRef.current);
+    unsentRef.current = [];
+
+    const params = new URLSearchParams({ seq: String(seqRef.current) });
+    if (sessionIdRef.current) {
+      params.set('id', sessionIdRef.current);
+    } else {
+      params.set('language', languageRef.current);
+      params.set('sampleRate', String(PCM_SAMPLE_RATE));
+    }
+    if (end) params.set('end', '1');
+
+    const response = await fetch(`/api/transcribe-stream?${params}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: pcm.buffer as ArrayBuffer,
+    });
+    if (response.status === 404 && sessionIdRef.current && !reopenedRef.current) {
+      // Reached an instance that doesn't hold the session — start it again there
+      reopenedRef.current = true;
+      sessionIdRef.current = null;
+      seqRef.current = 0;
+      unsentRef.current = [...recordedRef.current];
+      return sendChunk(end);
+    }
+    if (!response.ok) throw new Error('Streaming transcription failed');
+    const data: TranscribeStreamResponse = await response.json();
+    sessionIdRef.current = data.id;
+    seqRef.current++;
+
+    if (data.partial && data.partial !== lastPartialRef.current) {
+      lastPartialRef.current = data.partial;
+      setPartialTranscript(data.partial);
+      onPartialRef.current?.(data.partial);
+    }
+    return data;
+  }, []);
+
+  // One request at a time — chunks must reach the server in order
+  const flush = useCallback(() => {
+    if (inFlightRef.current || streamFailedRef.current || unsentRef.current.length === 0) return;
+    inFlightRef.current = sendChunk(false)
+      .catch(() => { streamFailedRef.current = true; })
+      .finally(() => { inFlightRef.current = null; });
+  }, [sendChunk]);
+
+  const transcribeClip = useCallback(async (pcm: Int16Array): Promise<string> => {
+    // Silence either side of the speech adds nothing but upload time; with
+    // no speech found, send it all and let STT decide
+    const speech = trimPcm(pcm) ?? pcm;
+    const formData = new FormData();
+    formData.append('audio', encodeWav(speech), 'recording.wav');
+    formData.append('language', languageRef.current);
+    const response = await fetch('/api/transcribe', { method: 'POST', body: formData });
+    if (!response.ok) throw new Error('Transcription failed');
+    const data: TranscribeResponse = await response.json();
+    return data.text || '';
+  }, []);
+
+  const releaseMic = useCallback(() => {
+    if (sendTimerRef.current) {
+      clearInterval(sendTimerRef.current);
+      sendTimerRef.current = null;
+    }
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current);
+      timeoutRef.current = null;
+    }
+    processorRef.current?.disconnect();
+    processorRef.current = null;
+    contextRef.current?.close().catch(() => {});
+    contextRef.current = null;
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+  }, []);
+
+  const stopRecording = useCallback(() => {
+    if (!streamRef.current) return;
+    releaseMic();
+    setIsRecording(false);
+
+    // Nothing but silence or background noise — the server session, if
+    // any, is dropped once it goes idle
+    const recorded = concatPcm(recordedRef.current);
+    if (recorded.length === 0 || !heardSpeechRef.current) {
+      onFinalRef.current('');
+      return;
+    }
+    setIsProcessing(true);
+
+    (async () => {
+      await inFlightRef.current;
+      let text: string | null = null;
+      if (!streamFailedRef.current) {
+        try {
+          const data = await sendChunk(true);
+          text = data.final ?? '';
+        } catch {
+          streamFailedRef.current = true;
+        }
+      }
+      if (text === null) {
+        try {
+          text = await transcribeClip(recorded);
+        } catch {
+          text = '';
+        }
+      }
+      setIsProcessing(false);
+      onFinalRef.current(text);
+    })();
+  }, [releaseMic, sendChunk, transcribeClip]);
+
+  // The audio callback outlives renders — reach stopRecording through a ref
+  const stopRecordingRef = useRef(stopRecording);
+  stopRecordingRef.current = stopRecording;
+
+  const cancelRecording = useCallback(() => {
+    releaseMic();
+    recordedRef.current = [];
+    unsentRef.current = [];
+    // The server drops the abandoned session once it goes idle
+    streamFailedRef.current = true;
+    setIsRecording(false);
+  }, [releaseMic]);
+
+  const startRecording = useCallback(async () => {
+    setError(null);
+    setPartialTranscript('');
+    recordedRef.current = [];
+    unsentRef.current = [];
+    sessionIdRef.current = null;
+    seqRef.current = 0;
+    inFlightRef.current = null;
+    streamFailedRef.current = false;
+    reopenedRef.current = false;
+    lastPartialRef.current = '';
+    heardSpeechRef.current = false;
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          echoCancellation: true,
+          noiseSuppression: true,
+          sampleRate: PCM_SAMPLE_RATE,
+        },
+      });
+      streamRef.current = stream;
+
+      const context = new AudioContext();
+      contextRef.current = context;
+      const source = context.createMediaStreamSource(stream);
+      // ScriptProcessor is deprecated but is the one raw-sample API every mobile browser has
+      const processor = context.createScriptProcessor(4096, 1, 1);
+      processorRef.current = processor;
+      const detector = createVoiceActivityDetector({ sampleRate: context.sampleRate });
+      processor.onaudioprocess = (event) => {
+        const samples = event.inputBuffer.getChannelData(0);
+        const pcm = downsampleToPcm(samples, context.sampleRate);
+        recordedRef.current.push(pcm);
+        unsentRef.current.push(pcm);
+
+        for (const vadEvent of detector.process(samples)) {
+          if (vadEvent.type === 'speech_start') {
+            heardSpeechRef.current = true;
+          } else if (autoStopRef.current) {
+            // End of turn — the patient has stopped talking
+            stopRecordingRef.current();
+          }
+        }
+      };
+      source.connect(processor);
+      processor.connect(context.destination);
+
+      sendTimerRef.current = setInterval(flush, SEND_INTERVAL);
+      setIsRecording(true);
+
+      // Auto-stop after MAX_RECORDING_DURATION
+      timeoutRef.current = setTimeout(() => {
+        stopRecording();
+      }, MAX_RECORDING_DURATION);
+    } catch (err) {
+      releaseMic();
+      if (err instanceof DOMException && err.name === 'NotAllowedError') {
+        setError('Microphone access denied. Please allow microphone access and try again.');
+      } else if (err instanceof DOMException && err.name === 'NotFoundError') {
+        setError('No microphone found. Please connect a microphone.');
+      } else {
+        setError('Could not access microphone. Please use text input instead.');
+      }
+      throw err;
+    }
+  }, [flush, releaseMic, stopRecording]);
+
+  return {
+    isRecording,
+    isProcessing,
+    partialTranscript,
+    error,
+    startRecording,
+    stopRecording,
+    cancelRecording,
+  };
+}
@@ -0,0 +1,16 @@
+'use client';
+
+import { useCallback } from 'react';
+import { Language } from '@/types';
+import { t, MessageKey, MessageParams, Translator } from '@/lib/i18n';
+
+/**
+ * Message catalog lookup bound to the current language.
+ * Stable across renders until the language changes.
+ */
+export function useTranslations(language: Language): Translator {
+  return useCallback(
+    (key: MessageKey, params?: MessageParams) => t(key, language, params),
+    [language]
+  );
+}
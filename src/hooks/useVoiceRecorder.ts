@@ -1,6 +1,8 @@
 'use client';
 
 import { useState, useRef, useCallback } from 'react';
+import { downsampleToPcm, encodeWav } from '@/lib/pcm-audio';
+import { monitorVoiceActivity, trimSilence, VoiceActivityMonitor } from '@/lib/vad';
 
 interface UseVoiceRecorderReturn {
   isRecording: boolean;
@@ -12,6 +14,25 @@ interface UseVoiceRecorderReturn {
 
 const MAX_RECORDING_DURATION = 30000; // 30 seconds
 
+/**
+ * The recording as 16 kHz WAV with the silence around the speech cut off.
+ * When the VAD finds no speech, or the browser can't decode its own
+ * recording, it comes back untouched — quiet speech can fall under the VAD
+ * threshold, so STT and its hallucination check get the final say.
+ */
+async function trimRecording(blob: Blob): Promise<Blob> {
+  const context = new AudioContext();
+  try {
+    const audio = await context.decodeAudioData(await blob.arrayBuffer());
+    const speech = trimSilence(audio.getChannelData(0), audio.sampleRate);
+    return speech ? encodeWav(downsampleToPcm(speech, audio.sampleRate)) : blob;
+  } catch {
+    return blob;
+  } finally {
+    context.close().catch(() => {});
+  }
+}
+
 export function useVoiceRecorder(
   onAudioReady: (blob: Blob) => void
 ): UseVoiceRecorderReturn {
@@ -21,8 +42,11 @@ export function useVoiceRecorder(
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const vadRef = useRef<VoiceActivityMonitor | null>(null);
 
   const stopRecording = useCallback(() => {
+    vadRef.current?.stop();
+    vadRef.current = null;
     if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
       mediaRecorderRef.current.stop();
     }
@@ -62,19 +86,21 @@ export function useVoiceRecorder(
         }
       };
 
-      mediaRecorder.onstop = () => {
+      mediaRecorder.onstop = async () => {
         setIsProcessing(true);
         // Stop all tracks
         stream.getTracks().forEach((track) => track.stop());
 
         const blob = new Blob(chunksRef.current, { type: mimeType });
         if (blob.size > 0) {
-          onAudioReady(blob);
+          onAudioReady(await trimRecording(blob));
         }
         setIsProcessing(false);
       };
 
       mediaRecorder.onerror = () => {
+        vadRef.current?.stop();
+        vadRef.current = null;
         setError('Recording failed. Please try again.');
         setIsRecording(false);
         stream.getTracks().forEach((track) => track.stop());
@@ -85,6 +111,9 @@ export function useVoiceRecorder(
       mediaRecorder.start(250); // Collect data every 250ms
       setIsRecording(true);
 
+      // Stop by itself once the patient stops talking
+      vadRef.current = monitorVoiceActivity(stream, { onSpeechEnd: () => stopRecording() });
+
       // Auto-stop after MAX_RECORDING_DURATION
       timeoutRef.current = setTimeout(() => {
         stopRecording();
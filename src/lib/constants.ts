@@ -5,6 +5,14 @@ export const MAX_FOLLOW_UPS = 2;
 export const THINKING_BUDGET = 10000;
 export const VOICE_THINKING_BUDGET = 1536;
 export const VOICE_CONVERSATION_THINKING_BUDGET = 1024;
+// Thinking budgets once a caller nears / exceeds their daily usage budget
+export const REDUCED_THINKING_BUDGET = 4000;
+export const MINIMAL_THINKING_BUDGET = 1024;
+
+// Document uploads — several files can be analysed together as one set
+export const MAX_FILES_PER_SET = 8;
+export const MAX_FILE_SIZE = 10 * 1024 * 1024;
+export const MAX_SET_SIZE = 20 * 1024 * 1024;
 
 export const EMERGENCY_NUMBERS = {
   unified: '112',
@@ -18,6 +26,8 @@ export interface LanguageConfig {
   nativeLabel: string;
   speechCode: string;
   placeholder: string;
+  /** Text direction; Urdu is the only right-to-left language */
+  dir: 'ltr' | 'rtl';
 }
 
 export const SUPPORTED_LANGUAGES: LanguageConfig[] = [
@@ -27,6 +37,7 @@ export const SUPPORTED_LANGUAGES: LanguageConfig[] = [
     nativeLabel: 'हिन्दी',
     speechCode: 'hi-IN',
     placeholder: 'अपने लक्षण बताएं...',
+    dir: 'ltr',
   },
   {
     code: 'en',
@@ -34,6 +45,7 @@ export const SUPPORTED_LANGUAGES: LanguageConfig[] = [
     nativeLabel: 'English',
     speechCode: 'en-IN',
     placeholder: 'Describe your symptoms...',
+    dir: 'ltr',
   },
   {
     code: 'ta',
@@ -41,6 +53,7 @@ export const SUPPORTED_LANGUAGES: LanguageConfig[] = [
     nativeLabel: 'தமிழ்',
     speechCode: 'ta-IN',
     placeholder: 'உங்கள் அறிகுறிகளை விவரிக்கவும்...',
+    dir: 'ltr',
   },
   {
     code: 'te',
@@ -48,6 +61,7 @@ export const SUPPORTED_LANGUAGES: LanguageConfig[] = [
     nativeLabel: 'తెలుగు',
     speechCode: 'te-IN',
     placeholder: 'మీ లక్షణాలను వివరించండి...',
+    dir: 'ltr',
   },
   {
     code: 'mr',
@@ -55,6 +69,7 @@ export const SUPPORTED_LANGUAGES: LanguageConfig[] = [
     nativeLabel: 'मराठी',
     speechCode: 'mr-IN',
     placeholder: 'तुमची लक्षणे सांगा...',
+    dir: 'ltr',
   },
   {
     code: 'kn',
@@ -62,6 +77,7 @@ export const SUPPORTED_LANGUAGES: LanguageConfig[] = [
     nativeLabel: 'ಕನ್ನಡ',
     speechCode: 'kn-IN',
     placeholder: 'ನಿಮ್ಮ ರೋಗಲಕ್ಷಣಗಳನ್ನು ವಿವರಿಸಿ...',
+    dir: 'ltr',
   },
   {
     code: 'bn',
@@ -69,9 +85,72 @@ export const SUPPORTED_LANGUAGES: LanguageConfig[] = [
     nativeLabel: 'বাংলা',
     speechCode: 'bn-IN',
     placeholder: 'আপনার উপসর্গগুলি বর্ণনা করুন...',
+    dir: 'ltr',
+  },
+  {
+    code: 'gu',
+    label: 'Gujarati',
+    nativeLabel: 'ગુજરાતી',
+    speechCode: 'gu-IN',
+    placeholder: 'તમારા લક્ષણો જણાવો...',
+    dir: 'ltr',
+  },
+  {
+    code: 'ml',
+    label: 'Malayalam',
+    nativeLabel: 'മലയാളം',
+    speechCode: 'ml-IN',
+    placeholder: 'നിങ്ങളുടെ ലക്ഷണങ്ങൾ വിവരിക്കുക...',
+    dir: 'ltr',
+  },
+  {
+    code: 'pa',
+    label: 'Punjabi',
+    nativeLabel: 'ਪੰਜਾਬੀ',
+    speechCode: 'pa-IN',
+    placeholder: 'ਆਪਣੇ ਲੱਛਣ ਦੱਸੋ...',
+    dir: 'ltr',
+  },
+  {
+    code: 'or',
+    label: 'Odia',
+    nativeLabel: 'ଓଡ଼ିଆ',
+    // Sarvam uses "od" for Odia, not the ISO 639-1 "or"
+    speechCode: 'od-IN',
+    placeholder: 'ଆପଣଙ୍କ ଲକ୍ଷଣ ବର୍ଣ୍ଣନା କରନ୍ତୁ...',
+    dir: 'ltr',
+  },
+  {
+    code: 'ur',
+    label: 'Urdu',
+    nativeLabel: 'اردو',
+    speechCode: 'ur-IN',
+    placeholder: 'اپنی علامات بتائیں...',
+    dir: 'rtl',
   },
 ];
 
+/** All language codes, in selector order */
+export const LANGUAGE_CODES: Language[] = SUPPORTED_LANGUAGES.map((l) => l.code);
+
+/** Speech codes Sarvam's Bulbul TTS can speak — it has no Urdu voice */
+const TTS_SPEECH_CODES = new Set(
+  SUPPORTED_LANGUAGES.filter((l) => l.code !== 'ur').map((l) => l.speechCode)
+);
+
+export function supportsTTS(speechCode: string): boolean {
+  return TTS_SPEECH_CODES.has(speechCode);
+}
+
+/** Map a BCP-47 speech code back to its language ("od-IN" → "or") */
+export function languageForSpeechCode(speechCode: string | null | undefined): Language | undefined {
+  return SUPPORTED_LANGUAGES.find((l) => l.speechCode === speechCode)?.code;
+}
+
+export function getLanguageDir(language: Language): 'ltr' | 'rtl' {
+  return SUPPORTED_LANGUAGES.find((l) => l.code === language)?.dir ?? 'ltr';
+}
+
 export interface SeverityConfig {
   label: string;
   icon: string;
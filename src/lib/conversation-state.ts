@@ -0,0 +1,256 @@
+/**
+ * Server-side conversation state for /api/triage.
+ *
+ * The conversation sent to the model is rebuilt from conversation_messages
+ * for the session, never taken from the client — a client could otherwise
+ * fabricate earlier assistant turns or reset its follow-up count.
+ *
+ * Access to an existing session:
+ *   - owned by a signed-in user → only that Clerk user
+ *   - anonymous → whoever holds the session token issued on its first turn
+ *     (HMAC of the session ID, so no token table is needed)
+ *
+ * A request that fails the check is not refused; it starts a fresh session.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { Language, Message, TriageResult } from '@/types';
+import { ConversationMessageRecord, saveConversationMessage } from './db';
+import { sanitizeConversationHistory } from './input-guard';
+import { getServiceClient } from './supabase';
+
+// ─── Types ───────────────────────────────────────────
+
+export interface ConversationState {
+  sessionId: string;
+  /** 'forked' when the requested session couldn't be accessed and a new one was started */
+  status: 'new' | 'existing' | 'forked';
+  /** Sanitized, most recent turns — what the model sees */
+  history: Message[];
+  /** Follow-up questions already asked in this session */
+  followUpCount: number;
+  /** Token the client sends back to continue an anonymous session */
+  token: string;
+}
+
+interface StoredMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  language: string | null;
+  is_follow_up: boolean;
+  clerk_user_id: string | null;
+  created_at: string;
+}
+
+// ─── Session tokens ──────────────────────────────────
+
+let warnedEphemeralSecret = false;
+const ephemeralSecret = randomBytes(32).toString('hex');
+
+function getSecret(): string {
+  const secret = process.env.SESSION_TOKEN_SECRET;
+  if (secret) return secret;
+  if (!warnedEphemeralSecret) {
+    warnedEphemeralSecret = true;
+    console.warn('[conversation-state] SESSION_TOKEN_SECRET not set — anonymous session tokens won\'t survive a restart or work across instances');
+  }
+  return ephemeralSecret;
+}
+
+export function signSessionToken(sessionId: string): string {
+  return createHmac('sha256', getSecret()).update(sessionId).digest('base64url');
+}
+
+export function verifySessionToken(sessionId: string, token: unknown): boolean {
+  if (typeof token !== 'string' || !token) return false;
+  const expected = Buffer.from(signSessionToken(sessionId));
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// ─── In-memory fallback ──────────────────────────────
+
+// Used when Supabase isn't configured or a query fails; resets on deploy
+const memorySessions = new Map<string, StoredMessage[]>();
+const MAX_MEMORY_SESSIONS = 1000;
+
+function rememberMessage(record: ConversationMessageRecord): void {
+  const messages = memorySessions.get(record.session_id) ?? [];
+  messages.push({
+    role: record.role,
+    content: record.content,
+    language: record.language ?? null,
+    is_follow_up: record.is_follow_up ?? false,
+    clerk_user_id: record.clerk_user_id ?? null,
+    created_at: record.created_at ?? new Date().toISOString(),
+  });
+  // Re-insert so the Map's order tracks recent activity
+  memorySessions.delete(record.session_id);
+  memorySessions.set(record.session_id, messages);
+  if (memorySessions.size > MAX_MEMORY_SESSIONS) {
+    const oldest = memorySessions.keys().next().value;
+    if (oldest !== undefined) memorySessions.delete(oldest);
+  }
+}
+
+// ─── Loading ─────────────────────────────────────────
+
+/**
+ * Stored turns of a session. Null when the database read failed and this
+ * instance has no copy — the session may exist, so it must not be treated
+ * as unknown.
+ */
+async function loadMessages(sessionId: string): Promise<StoredMessage[] | null> {
+  const supabase = getServiceClient();
+  if (supabase) {
+    try {
+      const { data, error } = await supabase
+        .from('conversation_messages')
+        .select('role, content, language, is_follow_up, clerk_user_id, created_at')
+        .eq('session_id', sessionId)
+        .order('created_at', { ascending: true });
+      if (error) throw new Error(error.message);
+      return (data || []) as StoredMessage[];
+    } catch (err) {
+      console.error('[conversation-state] Supabase query failed, using in-memory messages:', err);
+      return memorySessions.get(sessionId) ?? null;
+    }
+  }
+  return memorySessions.get(sessionId) ?? [];
+}
+
+function canAccess(stored: StoredMessage[], sessionId: string, clerkUserId: string | null, token: unknown): boolean {
+  const owner = stored.find((m) => m.clerk_user_id)?.clerk_user_id ?? null;
+  if (owner) return owner === clerkUserId;
+  // Anonymous session — a user who signs in mid-conversation keeps it via the token
+  return verifySessionToken(sessionId, token);
+}
+
+/**
+ * Resolve the session a triage request continues and the history it's allowed to see.
+ * Unknown session IDs start a new session under that ID. If the session
+ * can't be read, a fresh session is forked — issuing a token for the
+ * requested ID would open it to whoever asked once the database is back.
+ */
+export async function loadConversation(params: {
+  sessionId: string | null | undefined;
+  clerkUserId: string | null;
+  token: unknown;
+}): Promise<ConversationState> {
+  const requestedId = typeof params.sessionId === 'string' && params.sessionId.trim()
+    ? params.sessionId.trim().slice(0, 128)
+    : null;
+
+  if (requestedId) {
+    const stored = await loadMessages(requestedId);
+    if (stored?.length === 0) {
+      return { sessionId: requestedId, status: 'new', history: [], followUpCount: 0, token: signSessionToken(requestedId) };
+    }
+    if (!stored) {
+      console.warn(`[conversation-state] Session ${requestedId} could not be read — starting a new session`);
+    } else if (canAccess(stored, requestedId, params.clerkUserId, params.token)) {
+      const messages: Message[] = stored.map((m, i) => ({
+        id: `${requestedId}-${i}`,
+        role: m.role,
+        content: m.content,
+        timestamp: new Date(m.created_at).getTime(),
+        language: (m.language || undefined) as Language | undefined,
+        isFollowUp: m.is_follow_up,
+      }));
+      return {
+        sessionId: requestedId,
+        status: 'existing',
+        history: sanitizeConversationHistory(messages),
+        followUpCount: messages.filter((m) => m.role === 'assistant' && m.isFollowUp).length,
+        token: signSessionToken(requestedId),
+      };
+    } else {
+      console.warn(`[conversation-state] Access to session ${requestedId} denied — starting a new session`);
+    }
+  }
+
+  // Guarantee a unique session ID — never fall back to 'unknown' (causes UNIQUE collisions)
+  const sessionId = crypto.randomUUID();
+  return {
+    sessionId,
+    status: requestedId ? 'forked' : 'new',
+    history: [],
+    followUpCount: 0,
+    token: signSessionToken(sessionId),
+  };
+}
+
+// ─── Recording ───────────────────────────────────────
+
+/** Persist one turn of the conversation (fire-and-forget) */
+export function appendMessage(record: ConversationMessageRecord): void {
+  rememberMessage(record);
+  saveConversationMessage(record);
+}
+
+/**
+ * Start a new session whose history already holds earlier turns: the
+ * conversation of `fromSessionId` (follow-up count reset), then `turns`.
+ * Unlike appendMessage this awaits the write, so the session's first
+ * request sees the seeded history.
+ */
+export async function seedConversation(params: {
+  sessionId: string;
+  clerkUserId: string;
+  fromSessionId?: string | null;
+  turns: Pick<ConversationMessageRecord, 'role' | 'content' | 'is_result'>[];
+}): Promise<boolean> {
+  const prior = (params.fromSessionId ? await loadMessages(params.fromSessionId) : null) ?? [];
+  const start = Date.now();
+
+  const records: ConversationMessageRecord[] = [
+    ...prior.map((m) => ({ role: m.role, content: m.content, language: m.language, is_result: true })),
+    ...params.turns,
+  ].map((turn, i) => ({
+    session_id: params.sessionId,
+    clerk_user_id: params.clerkUserId,
+    is_follow_up: false,
+    ...turn,
+    created_at: new Date(start + i).toISOString(),
+  }));
+
+  for (const record of records) rememberMessage(record);
+
+  const supabase = getServiceClient();
+  if (!supabase) return true;
+  const { error } = await supabase.from('conversation_messages').insert(records);
+  if (error) {
+    console.error('[conversation-state] Failed to seed conversation:', error.message);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * The assistant turn a final result leaves in the history, so a later
+ * message in the same session has the earlier triage as context.
+ * Matches the summary the client embeds in its own thread.
+ */
+export function summarizeResult(result: TriageResult): string {
+  if (result.is_medical_query === false) return result.redirect_message || '';
+  return `[Previous Triage] Severity: ${result.severity} | Advice: ${result.action_plan?.go_to || ''}`;
+}
+
+/**
+ * Compare the history the client sent against the server's record.
+ * The server's copy is always used; a mismatch is only logged.
+ */
+export function historyDiverges(clientHistory: Message[], serverHistory: Message[]): boolean {
+  const userTurns = (messages: Message[]) => messages
+    .filter((m) => m.role === 'user')
+    .map((m) => m.content.trim());
+  const client = userTurns(clientHistory);
+  const server = userTurns(serverHistory);
+  const clientFollowUps = clientHistory.filter((m) => m.role === 'assistant' && m.isFollowUp).length;
+  const serverFollowUps = serverHistory.filter((m) => m.role === 'assistant' && m.isFollowUp).length;
+
+  // The server window may be trimmed, so compare the most recent user turns only
+  const overlap = Math.min(client.length, server.length);
+  const recentMismatch = client.slice(-overlap).some((content, i) => content !== server.slice(-overlap)[i]);
+  return recentMismatch || client.length > server.length || clientFollowUps < serverFollowUps;
+}
@@ -19,12 +19,19 @@ export interface TriageSessionRecord {
   is_medical_query: boolean;
   follow_up_count: number;
   latency_ms: number;
+  /** Model's own severity when the safety floor overrode it */
+  model_severity?: string | null;
+  safety_override_reason?: string | null;
 }
 
 export interface MedicalUploadRecord {
+  /** Set by the caller when other rows (lab results) reference the upload */
+  id?: string;
   clerk_user_id?: string | null;
   session_id?: string | null;
   file_name: string;
+  /** Every file in a multi-file upload, in order */
+  file_names?: string[];
   file_type: 'report' | 'prescription' | 'image' | 'other';
   mime_type: string;
   analysis: string;
@@ -38,6 +45,10 @@ export interface ConversationMessageRecord {
   content: string;
   language?: string | null;
   is_follow_up?: boolean;
+  /** Model context only (result summaries, seeded turns) — hidden from session replay */
+  is_result?: boolean;
+  /** Set explicitly when several turns are written at once, to keep their order */
+  created_at?: string;
 }
 
 export interface TriageResultRecord {
@@ -46,10 +57,27 @@ export interface TriageResultRecord {
   result_json: Record<string, unknown>;
   thinking_content?: string | null;
   language?: string | null;
+  /** Stream that produced this result — lets a dropped client resume it */
+  stream_id?: string | null;
+}
+
+export interface LLMUsageRecord {
+  /** user:<clerk id> or ip:<hashed IP> */
+  subject: string;
+  clerk_user_id?: string | null;
+  route: 'triage' | 'analyze_document' | 'period_qa' | 'followups';
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+  thinking_tokens: number;
+  cache_read_tokens: number;
+  cache_write_tokens: number;
+  cost_usd: number;
+  budget_tier: 'full' | 'reduced' | 'minimal';
 }
 
 export interface TelemetryEventRecord {
-  event_type: 'triage' | 'transcribe' | 'tts';
+  event_type: 'triage' | 'transcribe' | 'tts' | 'validation';
   language?: string | null;
   input_mode?: string | null;
   severity?: string | null;
@@ -59,6 +87,8 @@ export interface TelemetryEventRecord {
   had_error?: boolean | null;
   text_length?: number | null;
   success?: boolean | null;
+  /** Speech provider, for transcribe / tts events */
+  provider?: string | null;
 }
 
 /**
@@ -176,3 +206,21 @@ export function saveTelemetryEvent(record: TelemetryEventRecord): void {
       }
     });
 }
+
+/**
+ * Save one request's model token usage to Supabase.
+ * Non-blocking — errors are logged, not thrown.
+ */
+export function saveLLMUsage(record: LLMUsageRecord): void {
+  const supabase = getServiceClient();
+  if (!supabase) return;
+
+  supabase
+    .from('llm_usage')
+    .insert(record)
+    .then(({ error }) => {
+      if (error) {
+        console.error('[db] Failed to save LLM usage:', error.message);
+      }
+    });
+}
@@ -0,0 +1,441 @@
+/**
+ * Local drug-interaction and allergy table.
+ *
+ * A deliberately small, conservative table of the interactions that matter
+ * most in Indian primary care — bleeding with blood thinners, dangerous
+ * blood-pressure drops, sedation, absorption clashes — plus the common brand
+ * names patients actually say ("Dolo", "Combiflam", "Acitrom").
+ *
+ * Names resolve brand → generic ingredients → drug classes; rules match on
+ * either a generic or a class. Anything not in the table is reported as
+ * unrecognized rather than assumed safe. This is a screening aid for the
+ * triage agent, not a substitute for a pharmacist.
+ *
+ * Pure data and functions — no I/O — so it can run anywhere.
+ */
+
+// ─── Types ───────────────────────────────────────────
+
+export type InteractionSeverity = 'major' | 'moderate';
+
+export interface ResolvedDrug {
+  /** As the patient or prescription named it */
+  input: string;
+  /** Brand matched, if any */
+  brand: string | null;
+  generics: string[];
+  classes: string[];
+}
+
+export interface MedicationFinding {
+  /** Stable across calls — the same medicines give the same id */
+  id: string;
+  kind: 'interaction' | 'allergy' | 'duplicate';
+  severity: InteractionSeverity;
+  /** The medicines involved, as named */
+  drugs: string[];
+  message: string;
+  /** Patient-facing caution, in English — for ActionPlan.do_not */
+  do_not: string;
+}
+
+export interface MedicationCheck {
+  resolved: ResolvedDrug[];
+  findings: MedicationFinding[];
+  /** Names not in the table — no conclusion either way */
+  unrecognized: string[];
+}
+
+// ─── Names ───────────────────────────────────────────
+
+/** Common Indian brands → generic ingredients */
+const BRANDS: Record<string, string[]> = {
+  crocin: ['paracetamol'],
+  dolo: ['paracetamol'],
+  calpol: ['paracetamol'],
+  pacimol: ['paracetamol'],
+  combiflam: ['ibuprofen', 'paracetamol'],
+  brufen: ['ibuprofen'],
+  ibugesic: ['ibuprofen'],
+  disprin: ['aspirin'],
+  ecosprin: ['aspirin'],
+  voveran: ['diclofenac'],
+  volini: ['diclofenac'],
+  zerodol: ['aceclofenac'],
+  hifenac: ['aceclofenac'],
+  nise: ['nimesulide'],
+  nimulid: ['nimesulide'],
+  meftal: ['mefenamic acid'],
+  'meftal spas': ['mefenamic acid', 'dicyclomine'],
+  ultracet: ['tramadol', 'paracetamol'],
+  sinarest: ['paracetamol', 'phenylephrine', 'chlorpheniramine'],
+  'd cold': ['paracetamol', 'phenylephrine', 'chlorpheniramine'],
+  glycomet: ['metformin'],
+  gluconorm: ['metformin'],
+  amaryl: ['glimepiride'],
+  glimisave: ['glimepiride'],
+  januvia: ['sitagliptin'],
+  amlong: ['amlodipine'],
+  amlokind: ['amlodipine'],
+  stamlo: ['amlodipine'],
+  telma: ['telmisartan'],
+  telmikind: ['telmisartan'],
+  losar: ['losartan'],
+  repace: ['losartan'],
+  envas: ['enalapril'],
+  cardace: ['ramipril'],
+  aten: ['atenolol'],
+  lasix: ['furosemide'],
+  aldactone: ['spironolactone'],
+  lanoxin: ['digoxin'],
+  sorbitrate: ['isosorbide dinitrate'],
+  monotrate: ['isosorbide mononitrate'],
+  clopilet: ['clopidogrel'],
+  deplatt: ['clopidogrel'],
+  acitrom: ['acenocoumarol'],
+  warf: ['warfarin'],
+  eliquis: ['apixaban'],
+  xarelto: ['rivaroxaban'],
+  atorva: ['atorvastatin'],
+  lipvas: ['atorvastatin'],
+  rosuvas: ['rosuvastatin'],
+  thyronorm: ['levothyroxine'],
+  eltroxin: ['levothyroxine'],
+  shelcal: ['calcium carbonate'],
+  livogen: ['ferrous fumarate'],
+  digene: ['aluminium hydroxide', 'magnesium hydroxide'],
+  gelusil: ['aluminium hydroxide', 'magnesium hydroxide'],
+  pan: ['pantoprazole'],
+  pantocid: ['pantoprazole'],
+  omez: ['omeprazole'],
+  azithral: ['azithromycin'],
+  azee: ['azithromycin'],
+  augmentin: ['amoxicillin', 'clavulanic acid'],
+  'moxikind cv': ['amoxicillin', 'clavulanic acid'],
+  mox: ['amoxicillin'],
+  novamox: ['amoxicillin'],
+  taxim: ['cefixime'],
+  zifi: ['cefixime'],
+  ciplox: ['ciprofloxacin'],
+  norflox: ['norfloxacin'],
+  oflox: ['ofloxacin'],
+  levoflox: ['levofloxacin'],
+  metrogyl: ['metronidazole'],
+  flagyl: ['metronidazole'],
+  septran: ['sulfamethoxazole', 'trimethoprim'],
+  bactrim: ['sulfamethoxazole', 'trimethoprim'],
+  forcan: ['fluconazole'],
+  zocon: ['fluconazole'],
+  allegra: ['fexofenadine'],
+  cetzine: ['cetirizine'],
+  okacet: ['cetirizine'],
+  'montair lc': ['montelukast', 'levocetirizine'],
+  asthalin: ['salbutamol'],
+  deriphyllin: ['theophylline'],
+  alprax: ['alprazolam'],
+  ativan: ['lorazepam'],
+  rivotril: ['clonazepam'],
+  nexito: ['escitalopram'],
+  fluvoxin: ['fluvoxamine'],
+  daxid: ['sertraline'],
+  viagra: ['sildenafil'],
+  manforce: ['sildenafil'],
+  tadacip: ['tadalafil'],
+};
+
+/** Drug classes by generic name */
+const CLASSES: Record<string, string[]> = {
+  nsaid: ['ibuprofen', 'diclofenac', 'aceclofenac', 'nimesulide', 'mefenamic acid', 'naproxen', 'ketorolac', 'aspirin'],
+  anticoagulant: ['warfarin', 'acenocoumarol', 'apixaban', 'rivaroxaban', 'dabigatran', 'heparin'],
+  antiplatelet: ['aspirin', 'clopidogrel', 'ticagrelor', 'prasugrel'],
+  ace_inhibitor: ['enalapril', 'ramipril', 'lisinopril', 'perindopril'],
+  arb: ['telmisartan', 'losartan', 'olmesartan', 'valsartan'],
+  potassium_sparing_diuretic: ['spironolactone', 'eplerenone'],
+  loop_diuretic: ['furosemide', 'torsemide'],
+  nitrate: ['isosorbide dinitrate', 'isosorbide mononitrate', 'nitroglycerin'],
+  pde5_inhibitor: ['sildenafil', 'tadalafil'],
+  benzodiazepine: ['alprazolam', 'lorazepam', 'clonazepam', 'diazepam'],
+  opioid: ['tramadol', 'codeine', 'morphine', 'tapentadol'],
+  ssri: ['escitalopram', 'sertraline', 'fluoxetine', 'fluvoxamine', 'paroxetine'],
+  statin: ['atorvastatin', 'rosuvastatin', 'simvastatin'],
+  macrolide: ['azithromycin', 'clarithromycin', 'erythromycin'],
+  fluoroquinolone: ['ciprofloxacin', 'norfloxacin', 'ofloxacin', 'levofloxacin'],
+  penicillin: ['amoxicillin', 'ampicillin', 'penicillin', 'cloxacillin'],
+  cephalosporin: ['cefixime', 'cephalexin', 'cefuroxime', 'ceftriaxone', 'cefpodoxime'],
+  sulfonamide: ['sulfamethoxazole'],
+  sulfonylurea: ['glimepiride', 'glipizide', 'gliclazide', 'glibenclamide'],
+  polyvalent_cation: ['aluminium hydroxide', 'magnesium hydroxide', 'calcium carbonate', 'ferrous fumarate', 'ferrous sulphate'],
+};
+
+const GENERICS = new Set([...Object.values(BRANDS).flat(), ...Object.values(CLASSES).flat(), 'levothyroxine', 'digoxin', 'metronidazole', 'fluconazole', 'metformin']);
+
+/** Generic names patients often say differently */
+const GENERIC_ALIASES: Record<string, string> = {
+  acetaminophen: 'paracetamol',
+  'amoxycillin': 'amoxicillin',
+  cotrimoxazole: 'sulfamethoxazole',
+  'co-trimoxazole': 'sulfamethoxazole',
+  thyroxine: 'levothyroxine',
+  'iron': 'ferrous fumarate',
+  calcium: 'calcium carbonate',
+  antacid: 'aluminium hydroxide',
+  frusemide: 'furosemide',
+};
+
+function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\(.*?\)/g, ' ')
+    .replace(/[.,;:]/g, ' ')
+    // Strength and form: "Dolo 650 mg tablet" → "dolo"
+    .replace(/\b\d+(\.\d+)?\s*(mg|mcg|g|ml|iu|%)?\b/g, ' ')
+    .replace(/\b(tab|tabs|tablet|tablets|cap|caps|capsule|capsules|syrup|syp|inj|injection|gel|drops|sr|er|xr|od|forte|plus|ds)\b/g, ' ')
+    .replace(/[-_/]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function classesOf(generics: string[]): string[] {
+  return Object.entries(CLASSES)
+    .filter(([, members]) => generics.some((g) => members.includes(g)))
+    .map(([cls]) => cls);
+}
+
+/** Resolve a medicine name (brand or generic, with or without strength) */
+export function resolveDrug(name: string): ResolvedDrug {
+  const normalized = normalizeName(name);
+  let brand: string | null = null;
+  let generics: string[] = [];
+
+  if (BRANDS[normalized]) {
+    brand = normalized;
+    generics = BRANDS[normalized];
+  } else if (GENERICS.has(GENERIC_ALIASES[normalized] ?? normalized)) {
+    generics = [GENERIC_ALIASES[normalized] ?? normalized];
+  } else {
+    // Longest brand that starts the name: "combiflam cold" → combiflam
+    const match = Object.keys(BRANDS)
+      .filter((b) => normalized === b || normalized.startsWith(`${b} `))
+      .sort((a, b) => b.length - a.length)[0];
+    if (match) {
+      brand = match;
+      generics = BRANDS[match];
+    }
+  }
+
+  return { input: name, brand, generics, classes: classesOf(generics) };
+}
+
+// ─── Interactions ────────────────────────────────────
+
+interface InteractionRule {
+  /** Generic name or class name */
+  a: string;
+  b: string;
+  severity: InteractionSeverity;
+  message: string;
+  do_not: string;
+}
+
+const INTERACTIONS: InteractionRule[] = [
+  {
+    a: 'anticoagulant', b: 'nsaid', severity: 'major',
+    message: 'Painkillers of the NSAID type with a blood thinner greatly raise the risk of serious bleeding.',
+    do_not: 'Do not take painkillers like ibuprofen (Brufen, Combiflam), diclofenac (Voveran) or aspirin with your blood thinner — ask a doctor before any painkiller.',
+  },
+  {
+    a: 'anticoagulant', b: 'antiplatelet', severity: 'major',
+    message: 'A blood thinner with an antiplatelet drug raises bleeding risk.',
+    do_not: 'Do not start or stop aspirin or clopidogrel alongside your blood thinner without your doctor.',
+  },
+  {
+    a: 'anticoagulant', b: 'metronidazole', severity: 'major',
+    message: 'Metronidazole strongly increases the effect of warfarin-type blood thinners.',
+    do_not: 'Do not take metronidazole (Metrogyl, Flagyl) with your blood thinner unless your doctor has checked your INR.',
+  },
+  {
+    a: 'anticoagulant', b: 'sulfamethoxazole', severity: 'major',
+    message: 'Co-trimoxazole strongly increases the effect of warfarin-type blood thinners.',
+    do_not: 'Do not take Septran / Bactrim with your blood thinner unless your doctor has checked your INR.',
+  },
+  {
+    a: 'anticoagulant', b: 'fluconazole', severity: 'major',
+    message: 'Fluconazole increases the effect of warfarin-type blood thinners.',
+    do_not: 'Do not take fluconazole with your blood thinner without asking your doctor.',
+  },
+  {
+    a: 'nitrate', b: 'pde5_inhibitor', severity: 'major',
+    message: 'Nitrates with sildenafil or tadalafil can cause a dangerous drop in blood pressure.',
+    do_not: 'Do not take sildenafil or tadalafil (Viagra, Manforce) if you use nitrate heart tablets like Sorbitrate.',
+  },
+  {
+    a: 'benzodiazepine', b: 'opioid', severity: 'major',
+    message: 'Sleeping or anxiety tablets with opioid painkillers can slow breathing dangerously.',
+    do_not: 'Do not combine sleeping/anxiety tablets (Alprax, Ativan) with tramadol or codeine.',
+  },
+  {
+    a: 'ssri', b: 'tramadol', severity: 'major',
+    message: 'Tramadol with SSRI antidepressants can cause seizures or serotonin syndrome.',
+    do_not: 'Do not take tramadol (Ultracet) with your antidepressant without asking your doctor.',
+  },
+  {
+    a: 'ace_inhibitor', b: 'potassium_sparing_diuretic', severity: 'major',
+    message: 'Together these can push potassium dangerously high.',
+    do_not: 'Do not take potassium supplements or salt substitutes with these blood-pressure medicines unless prescribed.',
+  },
+  {
+    a: 'arb', b: 'potassium_sparing_diuretic', severity: 'major',
+    message: 'Together these can push potassium dangerously high.',
+    do_not: 'Do not take potassium supplements or salt substitutes with these blood-pressure medicines unless prescribed.',
+  },
+  {
+    a: 'ace_inhibitor', b: 'nsaid', severity: 'moderate',
+    message: 'NSAID painkillers weaken blood-pressure control and can strain the kidneys with ACE inhibitors.',
+    do_not: 'Avoid regular ibuprofen or diclofenac with your blood-pressure medicine — paracetamol is usually safer.',
+  },
+  {
+    a: 'arb', b: 'nsaid', severity: 'moderate',
+    message: 'NSAID painkillers weaken blood-pressure control and can strain the kidneys with ARBs.',
+    do_not: 'Avoid regular ibuprofen or diclofenac with your blood-pressure medicine — paracetamol is usually safer.',
+  },
+  {
+    a: 'ssri', b: 'nsaid', severity: 'moderate',
+    message: 'SSRI antidepressants with NSAID painkillers raise the risk of stomach bleeding.',
+    do_not: 'Avoid regular ibuprofen or diclofenac with your antidepressant.',
+  },
+  {
+    a: 'macrolide', b: 'statin', severity: 'moderate',
+    message: 'Some macrolide antibiotics raise statin levels and the risk of muscle damage.',
+    do_not: 'Tell the doctor you take a cholesterol medicine before starting clarithromycin or erythromycin.',
+  },
+  {
+    a: 'fluoroquinolone', b: 'polyvalent_cation', severity: 'moderate',
+    message: 'Antacids, calcium and iron block absorption of quinolone antibiotics.',
+    do_not: 'Do not take antacids, calcium or iron within 2 hours of ciprofloxacin / norfloxacin.',
+  },
+  {
+    a: 'levothyroxine', b: 'polyvalent_cation', severity: 'moderate',
+    message: 'Antacids, calcium and iron reduce thyroid tablet absorption.',
+    do_not: 'Keep calcium, iron or antacids at least 4 hours apart from your thyroid tablet.',
+  },
+  {
+    a: 'sulfonylurea', b: 'fluoroquinolone', severity: 'moderate',
+    message: 'Quinolone antibiotics can cause very low sugar with sulfonylureas.',
+    do_not: 'Check your sugar more often if given ciprofloxacin or levofloxacin with glimepiride.',
+  },
+  {
+    a: 'digoxin', b: 'loop_diuretic', severity: 'moderate',
+    message: 'Loop diuretics lower potassium, which makes digoxin toxicity more likely.',
+    do_not: 'Do not skip potassium checks while taking digoxin with a water tablet like Lasix.',
+  },
+];
+
+// ─── Allergies ───────────────────────────────────────
+
+/** What an allergy mention covers — matched on words in the allergy text */
+const ALLERGY_GROUPS: { terms: string[]; avoid: string[]; crossReact?: string[]; label: string }[] = [
+  { terms: ['penicillin', 'amoxicillin', 'amoxycillin', 'augmentin', 'ampicillin'], avoid: ['penicillin'], crossReact: ['cephalosporin'], label: 'penicillin' },
+  { terms: ['sulfa', 'sulpha', 'sulfonamide', 'septran', 'bactrim', 'cotrimoxazole'], avoid: ['sulfonamide'], label: 'sulfa drugs' },
+  { terms: ['nsaid', 'aspirin', 'ibuprofen', 'diclofenac', 'painkiller'], avoid: ['nsaid'], label: 'NSAID painkillers' },
+  { terms: ['cephalosporin', 'cefixime', 'cephalexin', 'ceftriaxone'], avoid: ['cephalosporin'], label: 'cephalosporins' },
+  { terms: ['quinolone', 'ciprofloxacin', 'ciplox', 'norfloxacin', 'levofloxacin'], avoid: ['fluoroquinolone'], label: 'quinolone antibiotics' },
+  { terms: ['macrolide', 'azithromycin', 'erythromycin'], avoid: ['macrolide'], label: 'macrolide antibiotics' },
+  { terms: ['paracetamol', 'acetaminophen', 'crocin', 'dolo'], avoid: ['paracetamol'], label: 'paracetamol' },
+  { terms: ['metronidazole', 'metrogyl', 'flagyl'], avoid: ['metronidazole'], label: 'metronidazole' },
+];
+
+function matches(drug: ResolvedDrug, key: string): boolean {
+  return drug.generics.includes(key) || drug.classes.includes(key);
+}
+
+/** Which allergy groups an allergy description refers to */
+function allergyGroupsFor(allergy: string) {
+  const text = allergy.toLowerCase();
+  return ALLERGY_GROUPS.filter((g) => g.terms.some((term) => new RegExp(`\\b${term}`).test(text)));
+}
+
+/** e.g. "interaction:warfin 5+brufen" — the model tags its translated do_not lines with it */
+function findingId(kind: MedicationFinding['kind'], ...parts: string[]): string {
+  return `${kind}:${parts.map((p) => p.toLowerCase()).join('+')}`;
+}
+
+// ─── Check ───────────────────────────────────────────
+
+/**
+ * Check medicines against each other and against the patient's allergies.
+ * Findings are ordered major first.
+ */
+export function checkMedications(params: { medications: string[]; allergies?: string[] }): MedicationCheck {
+  const seen = new Set<string>();
+  const resolved = params.medications
+    .map((m) => m.trim())
+    .filter((m) => m && !seen.has(m.toLowerCase()) && seen.add(m.toLowerCase()))
+    .map(resolveDrug);
+  const known = resolved.filter((d) => d.generics.length > 0);
+  const findings: MedicationFinding[] = [];
+
+  // Drug–drug interactions
+  for (let i = 0; i < known.length; i++) {
+    for (let j = i + 1; j < known.length; j++) {
+      const [x, y] = [known[i], known[j]];
+      // First matching rule only — aspirin is both an NSAID and an antiplatelet
+      const rule = INTERACTIONS.find((r) => (matches(x, r.a) && matches(y, r.b)) || (matches(x, r.b) && matches(y, r.a)));
+      if (rule) {
+        findings.push({ id: findingId('interaction', x.input, y.input), kind: 'interaction', severity: rule.severity, drugs: [x.input, y.input], message: rule.message, do_not: rule.do_not });
+      }
+
+      // Same ingredient twice — e.g. Dolo with Sinarest is a double paracetamol dose
+      const shared = x.generics.filter((g) => y.generics.includes(g));
+      if (shared.length > 0) {
+        findings.push({
+          id: findingId('duplicate', x.input, y.input),
+          kind: 'duplicate',
+          severity: shared.includes('paracetamol') ? 'major' : 'moderate',
+          drugs: [x.input, y.input],
+          message: `Both contain ${shared.join(', ')} — taking both doubles the dose.`,
+          do_not: `Do not take ${x.input} and ${y.input} together — both contain ${shared.join(', ')}.`,
+        });
+      } else if (x.classes.includes('nsaid') && y.classes.includes('nsaid')) {
+        findings.push({
+          id: findingId('duplicate', x.input, y.input),
+          kind: 'duplicate',
+          severity: 'moderate',
+          drugs: [x.input, y.input],
+          message: 'Two NSAID painkillers together add up stomach-bleeding and kidney risk without better relief.',
+          do_not: `Do not take two painkillers like ${x.input} and ${y.input} together.`,
+        });
+      }
+    }
+  }
+
+  // Allergies
+  for (const allergy of params.allergies ?? []) {
+    for (const group of allergyGroupsFor(allergy)) {
+      for (const drug of known) {
+        const direct = group.avoid.some((key) => matches(drug, key));
+        const cross = !direct && (group.crossReact ?? []).some((key) => matches(drug, key));
+        if (!direct && !cross) continue;
+        findings.push({
+          id: findingId('allergy', drug.input, group.label),
+          kind: 'allergy',
+          severity: direct ? 'major' : 'moderate',
+          drugs: [drug.input],
+          message: direct
+            ? `${drug.input} belongs to ${group.label}, which the patient is allergic to (${allergy}).`
+            : `${drug.input} can cross-react in people allergic to ${group.label} (${allergy}).`,
+          do_not: direct
+            ? `Do not take ${drug.input} — you have reported an allergy to ${group.label}.`
+            : `Do not take ${drug.input} without telling the doctor about your ${group.label} allergy.`,
+        });
+      }
+    }
+  }
+
+  findings.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'major' ? -1 : 1));
+
+  return {
+    resolved,
+    findings,
+    unrecognized: resolved.filter((d) => d.generics.length === 0).map((d) => d.input),
+  };
+}
@@ -1,4 +1,5 @@
-import { Language, EmergencyDetection } from '@/types';
+import { Language, EmergencyDetection, EmergencyMatch, EmergencyMatchReason } from '@/types';
+import { CanonicalText, canonicalize, findPhrase, isLatinPhrase } from './transliterate';
 
 interface EmergencyDictionary {
   keywords: string[];
@@ -297,28 +298,606 @@ const EMERGENCY_KEYWORDS: Record<Language, EmergencyDictionary> = {
       /রক্তপাত/,
     ],
   },
+  gu: {
+    keywords: [
+      // Cardiac
+      'હાર્ટ એટેક', 'છાતીમાં દુખાવો', 'છાતીમાં દબાણ', 'હૃદય બંધ',
+      // Respiratory
+      'શ્વાસ લેવામાં તકલીફ', 'શ્વાસ નથી લેવાતો', 'શ્વાસ બંધ', 'ગૂંગળામણ',
+      // Neurological
+      'બેભાન', 'ભાન નથી', 'આંચકી', 'ખેંચ આવી', 'લકવો', 'સ્ટ્રોક',
+      'મોં વાંકું', 'બોલી શકતા નથી',
+      // Trauma
+      'રક્તસ્રાવ', 'ખૂબ લોહી', 'લોહી બંધ નથી થતું', 'માથામાં ઈજા',
+      // Poisoning
+      'ઝેર', 'ઝેર પીધું', 'જંતુનાશક',
+      // Pediatric
+      'બાળક શ્વાસ નથી લેતું', 'બાળક બેભાન',
+      // Allergic/Anaphylaxis
+      'ગંભીર એલર્જી', 'ગળું સૂજી ગયું', 'ચહેરો સૂજી ગયો',
+      // Diabetic
+      'સુગર ખૂબ ઓછી', 'ડાયાબિટીસ ઇમરજન્સી',
+      // Burns/Environment
+      'ગંભીર દાઝ્યા', 'વીજળીનો આંચકો', 'ડૂબી રહ્યા', 'લૂ લાગી',
+      // Trauma expanded
+      'હાડકું બહાર આવ્યું', 'રોડ અકસ્માત', 'ઊંચાઈથી પડ્યા',
+      // General
+      'જીવનું જોખમ', 'એમ્બ્યુલન્સ', 'મરી રહ્યા',
+      // Animal
+      'સાપ કરડ્યો', 'વીંછી કરડ્યો',
+      // Mental Health
+      'આત્મહત્યા',
+    ],
+    patterns: [
+      /શ્વાસ\s*(લેવામાં|બંધ|નથી)/,
+      /રક્તસ્રાવ/,
+    ],
+  },
+  ml: {
+    keywords: [
+      // Cardiac
+      'ഹൃദയാഘാതം', 'ഹാർട്ട് അറ്റാക്ക്', 'നെഞ്ചുവേദന', 'നെഞ്ച് വേദന',
+      // Respiratory
+      'ശ്വാസം കിട്ടുന്നില്ല', 'ശ്വാസതടസ്സം', 'ശ്വാസം നിലച്ചു', 'ശ്വാസം മുട്ടൽ',
+      // Neurological
+      'ബോധം പോയി', 'ബോധമില്ല', 'അപസ്മാരം', 'ജന്നി', 'പക്ഷാഘാതം', 'സ്ട്രോക്ക്',
+      'മുഖം കോടി', 'സംസാരിക്കാൻ കഴിയുന്നില്ല',
+      // Trauma
+      'രക്തസ്രാവം', 'ധാരാളം രക്തം', 'രക്തം നിൽക്കുന്നില്ല', 'തലയ്ക്ക് പരിക്ക്',
+      // Poisoning
+      'വിഷം', 'വിഷം കഴിച്ചു', 'കീടനാശിനി',
+      // Pediatric
+      'കുഞ്ഞ് ശ്വസിക്കുന്നില്ല', 'കുഞ്ഞിന് ബോധമില്ല',
+      // Allergic/Anaphylaxis
+      'കടുത്ത അലർജി', 'തൊണ്ട വീങ്ങി', 'മുഖം വീങ്ങി',
+      // Diabetic
+      'ഷുഗർ വളരെ കുറവ്', 'പ്രമേഹ അടിയന്തരാവസ്ഥ',
+      // Burns/Environment
+      'ഗുരുതരമായ പൊള്ളൽ', 'വൈദ്യുതാഘാതം', 'മുങ്ങിപ്പോകുന്നു', 'സൂര്യാഘാതം',
+      // Trauma expanded
+      'എല്ല് പുറത്തുവന്നു', 'റോഡപകടം', 'ഉയരത്തിൽ നിന്ന് വീണു',
+      // General
+      'ജീവന് അപകടം', 'ആംബുലൻസ്', 'മരിക്കുന്നു',
+      // Animal
+      'പാമ്പ് കടിച്ചു', 'തേൾ കുത്തി',
+      // Mental Health
+      'ആത്മഹത്യ',
+    ],
+    patterns: [
+      /ശ്വാസ(തടസ്സ|ം\s*(കിട്ടുന്നില്ല|മുട്ട|നിലച്ചു))/,
+      /രക്തസ്രാവ/,
+    ],
+  },
+  pa: {
+    keywords: [
+      // Cardiac
+      'ਦਿਲ ਦਾ ਦੌਰਾ', 'ਹਾਰਟ ਅਟੈਕ', 'ਛਾਤੀ ਵਿੱਚ ਦਰਦ', 'ਛਾਤੀ ਚ ਦਰਦ',
+      // Respiratory
+      'ਸਾਹ ਨਹੀਂ ਆ ਰਿਹਾ', 'ਸਾਹ ਲੈਣ ਵਿੱਚ ਤਕਲੀਫ਼', 'ਸਾਹ ਬੰਦ', 'ਦਮ ਘੁੱਟ ਰਿਹਾ',
+      // Neurological
+      'ਬੇਹੋਸ਼', 'ਹੋਸ਼ ਨਹੀਂ', 'ਦੌਰਾ ਪਿਆ', 'ਮਿਰਗੀ', 'ਅਧਰੰਗ', 'ਲਕਵਾ', 'ਸਟ੍ਰੋਕ',
+      'ਮੂੰਹ ਟੇਢਾ', 'ਬੋਲ ਨਹੀਂ ਸਕਦਾ',
+      // Trauma
+      'ਖੂਨ ਵਹਿ ਰਿਹਾ', 'ਬਹੁਤ ਖੂਨ', 'ਖੂਨ ਬੰਦ ਨਹੀਂ ਹੋ ਰਿਹਾ', 'ਸਿਰ ਵਿੱਚ ਸੱਟ',
+      // Poisoning
+      'ਜ਼ਹਿਰ', 'ਜ਼ਹਿਰ ਖਾ ਲਿਆ', 'ਕੀਟਨਾਸ਼ਕ',
+      // Pediatric
+      'ਬੱਚਾ ਸਾਹ ਨਹੀਂ ਲੈ ਰਿਹਾ', 'ਬੱਚਾ ਬੇਹੋਸ਼',
+      // Allergic/Anaphylaxis
+      'ਗੰਭੀਰ ਐਲਰਜੀ', 'ਗਲਾ ਸੁੱਜ ਗਿਆ', 'ਚਿਹਰਾ ਸੁੱਜ ਗਿਆ',
+      // Diabetic
+      'ਸ਼ੂਗਰ ਬਹੁਤ ਘੱਟ', 'ਸ਼ੂਗਰ ਬਹੁਤ ਵੱਧ',
+      // Burns/Environment
+      'ਬੁਰੀ ਤਰ੍ਹਾਂ ਸੜ ਗਿਆ', 'ਬਿਜਲੀ ਦਾ ਝਟਕਾ', 'ਡੁੱਬ ਰਿਹਾ', 'ਲੂ ਲੱਗ ਗਈ',
+      // Trauma expanded
+      'ਹੱਡੀ ਬਾਹਰ ਆ ਗਈ', 'ਸੜਕ ਹਾਦਸਾ', 'ਉਚਾਈ ਤੋਂ ਡਿੱਗ',
+      // General
+      'ਜਾਨ ਨੂੰ ਖ਼ਤਰਾ', 'ਐਂਬੂਲੈਂਸ', 'ਮਰ ਰਿਹਾ',
+      // Animal
+      'ਸੱਪ ਨੇ ਡੱਸਿਆ', 'ਬਿੱਛੂ ਨੇ ਡੰਗਿਆ',
+      // Mental Health
+      'ਖੁਦਕੁਸ਼ੀ', 'ਆਤਮਹੱਤਿਆ',
+    ],
+    patterns: [
+      /ਸਾਹ\s*(ਨਹੀਂ|ਬੰਦ|ਲੈਣ\s*ਵਿੱਚ)/,
+      /ਖੂਨ\s*ਵਹਿ/,
+    ],
+  },
+  or: {
+    keywords: [
+      // Cardiac
+      'ହୃଦଘାତ', 'ହାର୍ଟ ଆଟାକ', 'ଛାତି ଯନ୍ତ୍ରଣା', 'ଛାତିରେ ଯନ୍ତ୍ରଣା',
+      // Respiratory
+      'ନିଶ୍ୱାସ ନେଇ ପାରୁନାହିଁ', 'ନିଶ୍ୱାସ ବନ୍ଦ', 'ଶ୍ୱାସକଷ୍ଟ', 'ଦମ ବନ୍ଦ',
+      // Neurological
+      'ବେହୋସ', 'ଚେତା ନାହିଁ', 'ଅଚେତ', 'ମୃଗୀ', 'ପକ୍ଷାଘାତ', 'ଷ୍ଟ୍ରୋକ',
+      'ମୁହଁ ବଙ୍କା', 'କଥା କହିପାରୁନାହିଁ',
+      // Trauma
+      'ରକ୍ତସ୍ରାବ', 'ବହୁତ ରକ୍ତ', 'ରକ୍ତ ବନ୍ଦ ହେଉନାହିଁ', 'ମୁଣ୍ଡରେ ଆଘାତ',
+      // Poisoning
+      'ବିଷ', 'ବିଷ ଖାଇଛି', 'କୀଟନାଶକ',
+      // Pediatric
+      'ପିଲା ନିଶ୍ୱାସ ନେଉନାହିଁ', 'ପିଲା ଅଚେତ',
+      // Allergic/Anaphylaxis
+      'ଗୁରୁତର ଆଲର୍ଜି', 'ଗଳା ଫୁଲିଯାଇଛି', 'ମୁହଁ ଫୁଲିଯାଇଛି',
+      // Diabetic
+      'ସୁଗାର ବହୁତ କମ', 'ମଧୁମେହ ଜରୁରୀକାଳୀନ',
+      // Burns/Environment
+      'ଗୁରୁତର ପୋଡ଼ା', 'ବିଦ୍ୟୁତ ଶକ', 'ବୁଡ଼ି ଯାଉଛି', 'ଅଂଶୁଘାତ',
+      // Trauma expanded
+      'ହାଡ଼ ବାହାରି ଆସିଛି', 'ସଡ଼କ ଦୁର୍ଘଟଣା', 'ଉଚ୍ଚରୁ ପଡ଼ିଗଲେ',
+      // General
+      'ଜୀବନ ବିପଦ', 'ଆମ୍ବୁଲାନ୍ସ', 'ମରିଯାଉଛି',
+      // Animal
+      'ସାପ କାମୁଡ଼ିଛି', 'ବିଛା କାମୁଡ଼ିଛି',
+      // Mental Health
+      'ଆତ୍ମହତ୍ୟା',
+    ],
+    patterns: [
+      /ନିଶ୍ୱାସ\s*(ନେଇ|ବନ୍ଦ)/,
+      /ରକ୍ତସ୍ରାବ/,
+    ],
+  },
+  ur: {
+    keywords: [
+      // Cardiac
+      'دل کا دورہ', 'ہارٹ اٹیک', 'سینے میں درد', 'سینے میں جکڑن',
+      // Respiratory
+      'سانس نہیں آ رہی', 'سانس بند', 'سانس لینے میں تکلیف', 'دم گھٹ رہا',
+      // Neurological
+      'بے ہوش', 'بیہوش', 'ہوش نہیں', 'دورہ پڑ رہا', 'مرگی', 'فالج', 'اسٹروک',
+      'چہرہ ٹیڑھا', 'بول نہیں پا رہا',
+      // Trauma
+      'خون بہہ رہا', 'بہت خون', 'خون بند نہیں ہو رہا', 'سر میں چوٹ',
+      // Poisoning
+      'زہر', 'زہر کھا لیا', 'کیڑے مار دوا',
+      // Pediatric
+      'بچہ سانس نہیں لے رہا', 'بچہ بے ہوش',
+      // Obstetric
+      'حمل میں خون', 'اسقاط حمل',
+      // Allergic/Anaphylaxis
+      'شدید الرجی', 'گلا سوج گیا', 'چہرہ سوج گیا',
+      // Diabetic
+      'شوگر بہت کم', 'شوگر بہت زیادہ',
+      // Burns/Environment
+      'بری طرح جل گیا', 'بجلی کا جھٹکا', 'ڈوب رہا', 'لو لگ گئی',
+      // Trauma expanded
+      'ہڈی باہر آ گئی', 'سڑک حادثہ', 'اونچائی سے گرا',
+      // General
+      'جان کا خطرہ', 'ایمبولینس', 'مر رہا',
+      // Animal
+      'سانپ نے کاٹا', 'بچھو نے ڈنک',
+      // Mental Health
+      'خودکشی',
+    ],
+    patterns: [
+      /سانس\s*(نہیں|بند|لینے\s*میں)/,
+      /خون\s*بہہ/,
+    ],
+  },
 };
 
-export function detectEmergency(
-  text: string,
-  language?: Language
-): EmergencyDetection {
-  const normalizedText = text.toLowerCase().trim();
-  const matchedKeywords: string[] = [];
+// ─── Context Cues ────────────────────────────────────
+// Words around a keyword that change what it means. Cue lists from all
+// languages are applied together, since patients code-mix freely.
+// Keep discounting cues specific: a missed cue leaves the keyword counted
+// (fail-safe), a cue that is too broad silences a real emergency.
 
-  // Check all languages to handle code-mixing
+interface ContextCues {
+  /** Negators that precede the keyword ("no chest pain") */
+  preNegators: string[];
+  /** Negators that follow it (SOV languages: "सीने में दर्द नहीं है") */
+  postNegators: string[];
+  /** Words allowed around a post-negator without breaking it (copulas, particles) */
+  closers: string[];
+  historical: string[];
+  hypothetical: string[];
+  uncertain: string[];
+  /** Present-tense urgency — overrides historical/hypothetical framing */
+  immediacy: string[];
+  /** Still going or getting worse ("since last week", "getting worse") — overrides historical framing */
+  ongoing: string[];
+  thirdParty: string[];
+  past: string[];
+  /** Conjunctions that start a new clause */
+  clauseBreaks: string[];
+  /** "and" — splits a clause for negation and history, not for present-tense cues */
+  conjunctions: string[];
+}
+
+const CONTEXT_CUES: Record<Language, ContextCues> = {
+  en: {
+    preNegators: [
+      'no', 'not', 'never', 'without', 'denies', 'denied', 'nor', 'neither',
+      'don\'t', 'doesn\'t', 'didn\'t', 'haven\'t', 'hasn\'t', 'isn\'t', 'wasn\'t', 'aren\'t',
+      'dont', 'doesnt', 'didnt', 'havent', 'hasnt', 'isnt', 'wasnt',
+    ],
+    postNegators: ['gone', 'resolved', 'subsided'],
+    closers: ['is', 'has', 'have', 'been', 'was', 'now', 'completely', 'already', 'totally', 'anymore'],
+    historical: [
+      'last year', 'last month', 'last week', 'years ago', 'year ago', 'months ago', 'month ago',
+      'in the past', 'history of', 'previously', 'used to', 'long ago', 'as a child',
+      'family history', 'runs in the family', 'died of', 'passed away',
+    ],
+    hypothetical: [
+      'what if', 'in case', 'suppose', 'supposing', 'what to do if', 'what to do when',
+      'what should i do if', 'how to recognize', 'how to recognise', 'how do i know if',
+    ],
+    uncertain: ['not sure', 'maybe', 'might be', 'could be', 'i think', 'don\'t know', 'dont know'],
+    immediacy: ['now', 'right now', 'currently', 'just now', 'suddenly', 'help', 'urgent', 'today'],
+    ongoing: [
+      'since', 'still', 'ongoing', 'getting worse', 'gets worse', 'worse', 'worsening', 'keeps getting',
+      'not stopping', 'won\'t stop', 'wont stop',
+    ],
+    thirdParty: [
+      'my father', 'my mother', 'my uncle', 'my aunt', 'my grandfather', 'my grandmother',
+      'my brother', 'my sister', 'my friend', 'my neighbour', 'my neighbor', 'he', 'she', 'someone',
+    ],
+    past: ['had', 'was', 'died', 'suffered'],
+    clauseBreaks: ['but', 'however', 'although', 'though'],
+    conjunctions: ['and'],
+  },
+  hi: {
+    preNegators: ['बिना', 'bina'],
+    postNegators: ['नहीं', 'नही', 'नहीँ', 'न', 'nahi', 'nahin', 'nai'],
+    closers: ['है', 'हैं', 'था', 'थी', 'थे', 'हो', 'रहा', 'रही', 'रहे', 'हुआ', 'हुई', 'तो', 'भी', 'बिल्कुल', 'बिलकुल', 'अब', 'कभी', 'hai', 'tha', 'thi', 'ho', 'raha', 'rahi', 'bilkul'],
+    historical: [
+      'पिछले साल', 'पिछले महीने', 'पिछले हफ्ते', 'साल पहले', 'महीने पहले', 'बरस पहले', 'बचपन में',
+      'pichle saal', 'saal pehle', 'mahine pehle',
+    ],
+    hypothetical: ['अगर', 'यदि', 'मान लो', 'मान लीजिए', 'agar'],
+    uncertain: ['शायद', 'लगता है', 'पता नहीं', 'shayad', 'pata nahi'],
+    immediacy: ['अभी', 'अब', 'अचानक', 'आज', 'बचाओ', 'मदद', 'जल्दी', 'abhi', 'jaldi', 'bachao'],
+    ongoing: [
+      'तब से', 'से लगातार', 'लगातार', 'अब भी', 'अभी भी', 'बढ़ रहा', 'बढ़ रही', 'बढ़ता जा', 'बढ़ती जा', 'और बढ़',
+      'lagatar', 'ab bhi', 'abhi bhi', 'badh raha', 'badh rahi',
+    ],
+    thirdParty: ['पिता', 'पापा', 'माँ', 'मां', 'चाचा', 'मामा', 'दादा', 'दादी', 'नाना', 'नानी', 'भाई', 'बहन', 'दोस्त', 'पड़ोसी', 'उन्हें', 'उनको', 'उसे', 'उसको'],
+    past: ['था', 'थी', 'थे'],
+    clauseBreaks: ['लेकिन', 'मगर', 'परंतु', 'किंतु', 'lekin'],
+    conjunctions: ['और', 'aur'],
+  },
+  ta: {
+    preNegators: [],
+    postNegators: ['இல்லை', 'இல்ல', 'கிடையாது'],
+    closers: ['இப்போது', 'இப்ப', 'ஏதும்', 'எதுவும்'],
+    historical: ['கடந்த ஆண்டு', 'போன வருடம்', 'போன வருஷம்', 'வருடங்களுக்கு முன்பு', 'வருடங்களுக்கு முன்', 'மாதங்களுக்கு முன்பு', 'கடந்த மாதம்'],
+    hypothetical: ['என்றால்'],
+    uncertain: ['ஒருவேளை', 'தெரியவில்லை', 'தெரியல'],
+    immediacy: ['இப்போது', 'இப்ப', 'திடீரென்று', 'திடீர்னு', 'இன்று', 'உதவி', 'காப்பாற்றுங்கள்', 'அவசரம்'],
+    ongoing: ['இன்னும்', 'அதிகமாகிறது', 'அதிகமாகுது'],
+    thirdParty: ['அப்பா', 'அம்மா', 'மாமா', 'சித்தப்பா', 'தாத்தா', 'பாட்டி', 'அண்ணன்', 'தம்பி', 'அக்கா', 'தங்கை', 'நண்பர்', 'அவருக்கு', 'அவளுக்கு', 'அவனுக்கு'],
+    past: ['இருந்தது', 'வந்தது', 'ஏற்பட்டது'],
+    clauseBreaks: ['ஆனால்', 'ஆனா'],
+    conjunctions: ['மற்றும்'],
+  },
+  te: {
+    preNegators: [],
+    postNegators: ['లేదు', 'లేవు', 'కాదు', 'లేదండి'],
+    closers: ['ఇప్పుడు', 'ఏమీ', 'అసలు'],
+    historical: ['గత సంవత్సరం', 'పోయిన సంవత్సరం', 'పోయిన ఏడాది', 'సంవత్సరాల క్రితం', 'నెలల క్రితం', 'గత నెల', 'గతంలో'],
+    hypothetical: ['ఒకవేళ'],
+    uncertain: ['బహుశా', 'తెలియదు'],
+    immediacy: ['ఇప్పుడు', 'అకస్మాత్తుగా', 'ఈరోజు', 'సహాయం', 'కాపాడండి', 'త్వరగా'],
+    ongoing: ['ఇంకా', 'ఎక్కువవుతోంది', 'పెరుగుతోంది'],
+    thirdParty: ['నాన్న', 'అమ్మ', 'మామయ్య', 'బాబాయ్', 'తాత', 'అమ్మమ్మ', 'నానమ్మ', 'అన్న', 'తమ్ముడు', 'అక్క', 'చెల్లి', 'స్నేహితుడు', 'అతనికి', 'ఆమెకి', 'ఆయనకు'],
+    past: ['వచ్చింది', 'జరిగింది', 'ఉండేది'],
+    clauseBreaks: ['కానీ', 'కాని'],
+    conjunctions: ['మరియు'],
+  },
+  mr: {
+    preNegators: [],
+    postNegators: ['नाही', 'नाहीत', 'नव्हते', 'नव्हता', 'नव्हती'],
+    closers: ['आहे', 'आहेत', 'होते', 'होता', 'होती', 'अजिबात', 'आता', 'कधीच'],
+    historical: ['मागच्या वर्षी', 'मागील वर्षी', 'वर्षांपूर्वी', 'महिन्यांपूर्वी', 'मागच्या महिन्यात', 'लहानपणी'],
+    hypothetical: ['जर', 'समजा'],
+    uncertain: ['कदाचित', 'वाटते', 'माहित नाही'],
+    immediacy: ['आता', 'अचानक', 'आज', 'वाचवा', 'मदत', 'लवकर'],
+    ongoing: ['अजूनही', 'तेव्हापासून', 'वाढत आहे', 'वाढतंय'],
+    thirdParty: ['वडील', 'बाबा', 'आई', 'काका', 'मामा', 'आजोबा', 'आजी', 'भाऊ', 'बहीण', 'मित्र', 'शेजारी', 'त्यांना', 'त्याला', 'तिला'],
+    past: ['होता', 'होती', 'होते'],
+    clauseBreaks: ['पण', 'परंतु', 'मात्र'],
+    conjunctions: ['आणि'],
+  },
+  kn: {
+    preNegators: [],
+    postNegators: ['ಇಲ್ಲ', 'ಇಲ್ಲಾ', 'ಅಲ್ಲ'],
+    closers: ['ಈಗ', 'ಏನೂ', 'ಸ್ವಲ್ಪವೂ'],
+    historical: ['ಕಳೆದ ವರ್ಷ', 'ವರ್ಷಗಳ ಹಿಂದೆ', 'ತಿಂಗಳ ಹಿಂದೆ', 'ಕಳೆದ ತಿಂಗಳು', 'ಹಿಂದೊಮ್ಮೆ'],
+    hypothetical: ['ಒಂದು ವೇಳೆ'],
+    uncertain: ['ಬಹುಶಃ', 'ಗೊತ್ತಿಲ್ಲ'],
+    immediacy: ['ಈಗ', 'ಇದ್ದಕ್ಕಿದ್ದಂತೆ', 'ಇಂದು', 'ಸಹಾಯ', 'ಕಾಪಾಡಿ', 'ಬೇಗ'],
+    ongoing: ['ಇನ್ನೂ', 'ಹೆಚ್ಚಾಗುತ್ತಿದೆ'],
+    thirdParty: ['ಅಪ್ಪ', 'ಅಮ್ಮ', 'ಮಾವ', 'ಚಿಕ್ಕಪ್ಪ', 'ಅಜ್ಜ', 'ಅಜ್ಜಿ', 'ಅಣ್ಣ', 'ಅಕ್ಕ', 'ತಂಗಿ', 'ಸ್ನೇಹಿತ', 'ಅವರಿಗೆ', 'ಅವನಿಗೆ', 'ಅವಳಿಗೆ'],
+    past: ['ಆಗಿತ್ತು', 'ಬಂದಿತ್ತು'],
+    clauseBreaks: ['ಆದರೆ', 'ಆದ್ರೆ'],
+    conjunctions: ['ಮತ್ತು'],
+  },
+  bn: {
+    preNegators: [],
+    postNegators: ['নেই', 'না', 'নাই', 'নয়', 'হয়নি'],
+    closers: ['এখন', 'একদম', 'কোনো', 'তো', 'আর'],
+    historical: ['গত বছর', 'গত মাসে', 'বছর আগে', 'মাস আগে', 'অতীতে', 'আগে একবার', 'ছোটবেলায়'],
+    hypothetical: ['যদি', 'ধরুন'],
+    uncertain: ['হয়তো', 'মনে হয়', 'জানি না'],
+    immediacy: ['এখন', 'হঠাৎ', 'আজ', 'সাহায্য', 'বাঁচাও', 'তাড়াতাড়ি'],
+    ongoing: ['এখনও', 'তখন থেকে', 'বাড়ছে'],
+    thirdParty: ['বাবা', 'কাকা', 'মামা', 'দাদু', 'দিদিমা', 'ঠাকুমা', 'ভাই', 'বোন', 'বন্ধু', 'প্রতিবেশী', 'ওনার'],
+    past: ['ছিল', 'হয়েছিল'],
+    clauseBreaks: ['কিন্তু', 'তবে'],
+    conjunctions: ['এবং'],
+  },
+  gu: {
+    preNegators: [],
+    postNegators: ['નથી', 'નહીં', 'ના', 'નહોતું', 'નહોતો', 'નહોતી'],
+    closers: ['છે', 'હતું', 'હતો', 'હતી', 'હવે', 'જરાય', 'બિલકુલ'],
+    historical: ['ગયા વર્ષે', 'વર્ષો પહેલાં', 'વર્ષ પહેલાં', 'મહિના પહેલાં', 'ગયા મહિને', 'બાળપણમાં'],
+    hypothetical: ['જો', 'ધારો કે'],
+    uncertain: ['કદાચ', 'ખબર નથી'],
+    immediacy: ['હમણાં', 'અત્યારે', 'અચાનક', 'આજે', 'બચાવો', 'મદદ', 'જલ્દી'],
+    ongoing: ['હજુ પણ', 'ત્યારથી', 'વધી રહ્યો', 'વધી રહી', 'વધતો જાય'],
+    thirdParty: ['પિતા', 'પપ્પા', 'મમ્મી', 'કાકા', 'મામા', 'દાદા', 'દાદી', 'ભાઈ', 'બહેન', 'મિત્ર', 'પડોશી', 'તેમને', 'તેને'],
+    past: ['હતું', 'હતો', 'હતી'],
+    clauseBreaks: ['પરંતુ', 'પણ'],
+    conjunctions: ['અને'],
+  },
+  ml: {
+    preNegators: [],
+    postNegators: ['ഇല്ല', 'ഇല്ലാ', 'അല്ല', 'ഇല്ലായിരുന്നു'],
+    closers: ['ഇപ്പോൾ', 'ഒട്ടും', 'തീരെ'],
+    historical: ['കഴിഞ്ഞ വർഷം', 'വർഷങ്ങൾക്ക് മുമ്പ്', 'മാസങ്ങൾക്ക് മുമ്പ്', 'കഴിഞ്ഞ മാസം', 'കുട്ടിക്കാലത്ത്'],
+    hypothetical: ['എങ്കിൽ'],
+    uncertain: ['ഒരുപക്ഷേ', 'അറിയില്ല'],
+    immediacy: ['ഇപ്പോൾ', 'പെട്ടെന്ന്', 'ഇന്ന്', 'സഹായിക്കൂ', 'രക്ഷിക്കൂ', 'വേഗം'],
+    ongoing: ['ഇപ്പോഴും', 'അന്നുമുതൽ', 'കൂടുന്നു', 'കൂടിവരുന്നു'],
+    thirdParty: ['അച്ഛൻ', 'അമ്മ', 'അമ്മാവൻ', 'മുത്തച്ഛൻ', 'മുത്തശ്ശി', 'ചേട്ടൻ', 'അനിയൻ', 'ചേച്ചി', 'അനിയത്തി', 'സുഹൃത്ത്', 'അയൽക്കാരൻ', 'അദ്ദേഹത്തിന്', 'അവന്', 'അവൾക്ക്'],
+    past: ['ഉണ്ടായിരുന്നു', 'വന്നിരുന്നു'],
+    clauseBreaks: ['പക്ഷേ', 'പക്ഷെ', 'എന്നാൽ'],
+    conjunctions: ['കൂടാതെ'],
+  },
+  pa: {
+    preNegators: ['ਬਿਨਾਂ'],
+    postNegators: ['ਨਹੀਂ', 'ਨਹੀ', 'ਨਾ'],
+    closers: ['ਹੈ', 'ਹਨ', 'ਸੀ', 'ਸਨ', 'ਹੁਣ', 'ਬਿਲਕੁਲ', 'ਰਿਹਾ', 'ਰਹੀ', 'ਤਾਂ', 'ਵੀ'],
+    historical: ['ਪਿਛਲੇ ਸਾਲ', 'ਸਾਲ ਪਹਿਲਾਂ', 'ਮਹੀਨੇ ਪਹਿਲਾਂ', 'ਪਿਛਲੇ ਮਹੀਨੇ', 'ਬਚਪਨ ਵਿੱਚ'],
+    hypothetical: ['ਜੇ', 'ਜੇਕਰ', 'ਮੰਨ ਲਓ'],
+    uncertain: ['ਸ਼ਾਇਦ', 'ਪਤਾ ਨਹੀਂ'],
+    immediacy: ['ਹੁਣ', 'ਹੁਣੇ', 'ਅਚਾਨਕ', 'ਅੱਜ', 'ਬਚਾਓ', 'ਮਦਦ', 'ਜਲਦੀ'],
+    ongoing: ['ਅਜੇ ਵੀ', 'ਉਦੋਂ ਤੋਂ', 'ਵੱਧ ਰਿਹਾ', 'ਵੱਧ ਰਹੀ'],
+    thirdParty: ['ਪਿਤਾ', 'ਪਾਪਾ', 'ਮਾਂ', 'ਮੰਮੀ', 'ਚਾਚਾ', 'ਮਾਮਾ', 'ਦਾਦਾ', 'ਦਾਦੀ', 'ਨਾਨਾ', 'ਨਾਨੀ', 'ਭਰਾ', 'ਭੈਣ', 'ਦੋਸਤ', 'ਗੁਆਂਢੀ', 'ਉਹਨਾਂ ਨੂੰ', 'ਉਸਨੂੰ'],
+    past: ['ਸੀ', 'ਸਨ'],
+    clauseBreaks: ['ਪਰ', 'ਲੇਕਿਨ'],
+    conjunctions: ['ਅਤੇ'],
+  },
+  or: {
+    preNegators: [],
+    postNegators: ['ନାହିଁ', 'ନାହି', 'ନୁହେଁ'],
+    closers: ['ଏବେ', 'ଆଦୌ', 'ମୋଟେ'],
+    historical: ['ଗତ ବର୍ଷ', 'ବର୍ଷ ପୂର୍ବରୁ', 'ମାସ ପୂର୍ବରୁ', 'ଗତ ମାସ', 'ପିଲାଦିନେ'],
+    hypothetical: ['ଯଦି'],
+    uncertain: ['ବୋଧହୁଏ', 'ଜାଣିନି'],
+    immediacy: ['ଏବେ', 'ହଠାତ୍', 'ଆଜି', 'ସାହାଯ୍ୟ', 'ବଞ୍ଚାଅ', 'ଶୀଘ୍ର'],
+    ongoing: ['ଏବେ ବି', 'ସେବେଠାରୁ', 'ବଢୁଛି'],
+    thirdParty: ['ବାପା', 'ମାମୁଁ', 'ଦାଦା', 'ଜେଜେ', 'ଜେଜେମା', 'ଭାଇ', 'ଭଉଣୀ', 'ସାଙ୍ଗ', 'ପଡ଼ୋଶୀ', 'ତାଙ୍କୁ', 'ତାକୁ'],
+    past: ['ଥିଲା', 'ହୋଇଥିଲା'],
+    clauseBreaks: ['କିନ୍ତୁ', 'ମାତ୍ର'],
+    conjunctions: ['ଏବଂ'],
+  },
+  ur: {
+    preNegators: ['بغیر'],
+    postNegators: ['نہیں', 'نہ'],
+    closers: ['ہے', 'ہیں', 'تھا', 'تھی', 'تھے', 'ہو', 'رہا', 'رہی', 'رہے', 'ہوا', 'ہوئی', 'تو', 'بھی', 'بالکل', 'اب', 'کبھی'],
+    historical: ['پچھلے سال', 'پچھلے مہینے', 'سال پہلے', 'مہینے پہلے', 'بچپن میں'],
+    hypothetical: ['اگر', 'فرض کریں'],
+    uncertain: ['شاید', 'پتہ نہیں', 'پتا نہیں'],
+    immediacy: ['ابھی', 'اب', 'اچانک', 'آج', 'بچاؤ', 'مدد', 'جلدی'],
+    ongoing: ['اب بھی', 'ابھی بھی', 'تب سے', 'لگاتار', 'بڑھ رہا', 'بڑھ رہی'],
+    thirdParty: ['والد', 'ابو', 'امی', 'ماں', 'چچا', 'ماموں', 'دادا', 'دادی', 'نانا', 'نانی', 'بھائی', 'بہن', 'دوست', 'پڑوسی', 'انہیں', 'اسے'],
+    past: ['تھا', 'تھی', 'تھے'],
+    clauseBreaks: ['لیکن', 'مگر'],
+    conjunctions: ['اور'],
+  },
+};
+
+/** Confidence per reason — at or above EMERGENCY_THRESHOLD counts as an emergency */
+const REASON_CONFIDENCE: Record<EmergencyMatchReason, number> = {
+  affirmed: 0.95,
+  uncertain: 0.7,
+  third_party_past: 0.6,
+  hypothetical: 0.3,
+  historical: 0.2,
+  negated: 0.1,
+};
+
+const EMERGENCY_THRESHOLD = 0.5;
+const PRE_NEGATION_WINDOW = 3;
+// "not just chest pain", "not sure if it's a stroke" — not a negation of the keyword
+const NEGATION_EXCEPTIONS = new Set(['just', 'only', 'sure']);
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Whole-word matcher that also works for Indic scripts (vowel signs are \p{M}) */
+function cueRegex(cues: string[], flags = 'iu'): RegExp | null {
+  if (cues.length === 0) return null;
+  const alternation = [...cues].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+  return new RegExp(`(?<![\\p{L}\\p{M}])(?:${alternation})(?![\\p{L}\\p{M}])`, flags);
+}
+
+function allCues(key: keyof ContextCues): string[] {
+  return [...new Set(Object.values(CONTEXT_CUES).flatMap((c) => c[key]))];
+}
+
+const CUES = {
+  preNegators: new Set(allCues('preNegators')),
+  postNegators: new Set(allCues('postNegators')),
+  closers: new Set(allCues('closers')),
+  historical: cueRegex(allCues('historical')),
+  hypothetical: cueRegex(allCues('hypothetical')),
+  uncertain: cueRegex(allCues('uncertain')),
+  immediacy: cueRegex(allCues('immediacy')),
+  ongoing: cueRegex(allCues('ongoing')),
+  thirdParty: cueRegex(allCues('thirdParty')),
+  past: cueRegex(allCues('past')),
+  clauseBreak: new RegExp(
+    `[.!?;,\\n।॥،۔؟]|${cueRegex([...allCues('clauseBreaks'), ...allCues('conjunctions')], '')!.source}`, 'giu'
+  ),
+  // "chest pain since last week and it is getting worse" is one statement
+  sentenceBreak: new RegExp(`[.!?;\\n।॥۔؟]|${cueRegex(allCues('clauseBreaks'), '')!.source}`, 'giu'),
+};
+
+const YEAR_PATTERN = /(?<!\d)(19|20)\d{2}(?!\d)/;
+
+function tokens(text: string): string[] {
+  return text.split(/\s+/).map((t) => t.replace(/^["'(]+|["')?؟]+$/g, '')).filter(Boolean);
+}
+
+/** The clause (between punctuation/conjunctions) containing [start, end) */
+function clauseAround(
+  text: string, start: number, end: number, breaks: RegExp = CUES.clauseBreak
+): { before: string; after: string } {
+  let clauseStart = 0;
+  let clauseEnd = text.length;
+  breaks.lastIndex = 0;
+  for (const m of text.matchAll(breaks)) {
+    const breakEnd = m.index + m[0].length;
+    if (breakEnd <= start) clauseStart = breakEnd;
+    else if (m.index >= end) {
+      clauseEnd = m.index;
+      break;
+    }
+  }
+  return { before: text.slice(clauseStart, start), after: text.slice(end, clauseEnd) };
+}
+
+function findNegation(before: string, after: string): string | null {
+  const pre = tokens(before).slice(-PRE_NEGATION_WINDOW);
+  for (let i = 0; i < pre.length; i++) {
+    if (CUES.preNegators.has(pre[i]) && !NEGATION_EXCEPTIONS.has(pre[i + 1] ?? '')) return pre[i];
+  }
+
+  // Post-negation only when everything else up to the clause end is a copula/particle,
+  // so "दर्द नहीं रुक रहा" (pain isn't stopping) isn't read as "no pain"
+  const post = tokens(after);
+  const negIndex = post.slice(0, 2).findIndex((t) => CUES.postNegators.has(t));
+  if (negIndex === -1) return null;
+  const rest = post.filter((_, i) => i !== negIndex);
+  return rest.every((t) => CUES.closers.has(t) || CUES.postNegators.has(t)) ? post[negIndex] : null;
+}
+
+function firstCue(regex: RegExp | null, text: string): string | null {
+  return regex?.exec(text)?.[0] ?? null;
+}
+
+/** Classify one keyword occurrence from its clause context */
+function classifyOccurrence(text: string, start: number, end: number): Omit<EmergencyMatch, 'keyword'> {
+  const { before, after } = clauseAround(text, start, end);
+  const clause = `${before} ${after}`;
+  const result = (reason: EmergencyMatchReason, cue?: string) => ({
+    confidence: REASON_CONFIDENCE[reason], reason, ...(cue ? { cue } : {}),
+  });
+
+  const uncertain = firstCue(CUES.uncertain, clause);
+  if (uncertain) return result('uncertain', uncertain);
+
+  const negation = findNegation(before, after);
+  if (negation) return result('negated', negation);
+
+  // Present-tense cues count across "and" — the patient is still describing the same thing
+  const sentence = clauseAround(text, start, end, CUES.sentenceBreak);
+  const sentenceText = `${sentence.before} ${sentence.after}`;
+  if (firstCue(CUES.immediacy, sentenceText) || firstCue(CUES.ongoing, sentenceText)) return result('affirmed');
+
+  // A bare year is history only next to a past-tense verb ("had a stroke in 2019")
+  const year = clause.match(YEAR_PATTERN)?.[0] ?? null;
+  const historical = firstCue(CUES.historical, clause) ?? (year && firstCue(CUES.past, clause) ? year : null);
+  if (historical) return result('historical', historical);
+
+  const hypothetical = firstCue(CUES.hypothetical, clause);
+  if (hypothetical) return result('hypothetical', hypothetical);
+
+  const thirdParty = firstCue(CUES.thirdParty, clause);
+  if (thirdParty && firstCue(CUES.past, clause)) return result('third_party_past', thirdParty);
+
+  return result('affirmed');
+}
+
+const WORD_CHAR = /[\p{L}\p{M}]/u;
+
+/**
+ * Verbatim hits, plus romanized/mixed-script hits for native-script keywords.
+ * A hit must start a word — "होश नहीं" is not in "बेहोश नहीं" — but may end
+ * mid-word, like the transliteration layer's last word ("seizures", "बेहोशी").
+ */
+function keywordOccurrences(text: string, canonical: CanonicalText, keyword: string): [number, number][] {
+  const out: [number, number][] = [];
+  const needle = keyword.toLowerCase();
+  for (let i = text.indexOf(needle); i !== -1; i = text.indexOf(needle, i + 1)) {
+    if (i > 0 && WORD_CHAR.test(text[i - 1])) continue;
+    out.push([i, i + needle.length]);
+  }
+  if (!isLatinPhrase(keyword)) {
+    for (const span of findPhrase(canonical, keyword)) {
+      if (!out.some(([start]) => start === span[0])) out.push(span);
+    }
+  }
+  return out;
+}
+
+interface KeywordHit {
+  keyword: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * One hit per stretch of the input — typed "stroke" is also found by the
+ * Hindi "स्ट्रोक", and "behosh" by "बेहोश", "ਬੇਹੋਸ਼" and "ବେହୋସ". Of hits that
+ * overlap, the first by `prefer` wins; input order is kept otherwise.
+ */
+function dedupeBySpan<T extends KeywordHit>(hits: T[], prefer: (a: T, b: T) => number): T[] {
+  const kept: T[] = [];
+  for (const hit of [...hits].sort(prefer)) {
+    if (!kept.some((k) => hit.start < k.end && k.start < hit.end)) kept.push(hit);
+  }
+  return hits.filter((hit) => kept.includes(hit));
+}
+
+/** The spelling the patient typed, then the longer phrase */
+function byVerbatimThenLength(text: string) {
+  const verbatim = (h: KeywordHit) => text.slice(h.start, h.end) === h.keyword.toLowerCase();
+  return (a: KeywordHit, b: KeywordHit) =>
+    Number(verbatim(b)) - Number(verbatim(a)) || (b.end - b.start) - (a.end - a.start);
+}
+
+function patternOccurrences(text: string, pattern: RegExp): { match: string; range: [number, number] }[] {
+  const global = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g');
+  return [...text.matchAll(global)].map((m) => ({ match: m[0], range: [m.index, m.index + m[0].length] }));
+}
+
+function languageOrder(language?: Language): Language[] {
   const allLanguages = Object.keys(EMERGENCY_KEYWORDS) as Language[];
   // Prioritize selected language first, then check all others
-  const languagesToCheck = language
-    ? [language, ...allLanguages.filter((l) => l !== language)]
-    : allLanguages;
+  return language ? [language, ...allLanguages.filter((l) => l !== language)] : allLanguages;
+}
+
+export type EmergencyDetectionMode = 'contextual' | 'substring';
+
+/** Substring (and transliterated) matching — every hit counts */
+function detectBySubstring(text: string, language?: Language): EmergencyDetection {
+  const normalizedText = text.toLowerCase().trim();
+  const canonical = canonicalize(normalizedText);
+  const hits: KeywordHit[] = [];
+  const patternMatches: string[] = [];
 
-  for (const lang of languagesToCheck) {
+  // Check all languages to handle code-mixing
+  for (const lang of languageOrder(language)) {
     const dict = EMERGENCY_KEYWORDS[lang];
 
     for (const keyword of dict.keywords) {
-      if (normalizedText.includes(keyword.toLowerCase())) {
-        matchedKeywords.push(keyword);
+      for (const [start, end] of keywordOccurrences(normalizedText, canonical, keyword)) {
+        hits.push({ keyword, start, end });
       }
     }
 
@@ -326,16 +905,83 @@ export function detectEmergency(
       if (pattern.test(text)) {
         // Use original text for regex (case/script sensitivity)
         const match = text.match(pattern);
-        if (match && !matchedKeywords.includes(match[0])) {
-          matchedKeywords.push(match[0]);
+        if (match && !patternMatches.includes(match[0])) {
+          patternMatches.push(match[0]);
         }
       }
     }
   }
 
+  const keywords = dedupeBySpan(hits, byVerbatimThenLength(normalizedText)).map((h) => h.keyword);
+  const unique = [...new Set([...keywords, ...patternMatches])];
   return {
-    isEmergency: matchedKeywords.length > 0,
-    matchedKeywords: [...new Set(matchedKeywords)],
+    isEmergency: unique.length > 0,
+    matchedKeywords: unique,
     detectedLanguage: language,
+    confidence: unique.length > 0 ? REASON_CONFIDENCE.affirmed : 0,
+    matches: unique.map((keyword) => ({ keyword, confidence: REASON_CONFIDENCE.affirmed, reason: 'affirmed' })),
   };
 }
+
+/** Substring hits re-scored by their clause: negation, history, hypotheticals, hedging */
+function detectByContext(text: string, language?: Language): EmergencyDetection {
+  const normalizedText = text.toLowerCase();
+  const canonical = canonicalize(normalizedText);
+  const hits: (KeywordHit & { scored: EmergencyMatch })[] = [];
+  const consider = (keyword: string, start: number, end: number) => {
+    hits.push({ keyword, start, end, scored: { keyword, ...classifyOccurrence(normalizedText, start, end) } });
+  };
+
+  for (const lang of languageOrder(language)) {
+    const dict = EMERGENCY_KEYWORDS[lang];
+    for (const keyword of dict.keywords) {
+      for (const [start, end] of keywordOccurrences(normalizedText, canonical, keyword)) consider(keyword, start, end);
+    }
+    for (const pattern of dict.patterns) {
+      for (const { match, range } of patternOccurrences(normalizedText, pattern)) consider(match, range[0], range[1]);
+    }
+  }
+
+  // Best-scoring occurrence per keyword — "no pain yesterday, chest pain now" counts
+  const spelling = byVerbatimThenLength(normalizedText);
+  const best = new Map<string, EmergencyMatch>();
+  const preferred = dedupeBySpan(hits, (a, b) => b.scored.confidence - a.scored.confidence || spelling(a, b));
+  for (const { scored } of preferred) {
+    const current = best.get(scored.keyword);
+    if (!current || scored.confidence > current.confidence) best.set(scored.keyword, scored);
+  }
+
+  const matches = [...best.values()];
+  const counted = matches.filter((m) => m.confidence >= EMERGENCY_THRESHOLD);
+  return {
+    isEmergency: counted.length > 0,
+    matchedKeywords: counted.map((m) => m.keyword),
+    detectedLanguage: language,
+    confidence: matches.reduce((max, m) => Math.max(max, m.confidence), 0),
+    matches,
+  };
+}
+
+/**
+ * Detect emergency keywords in any supported language.
+ *
+ * 'contextual' (default) discounts keywords that are negated, historical,
+ * hypothetical or about someone else in the past; hedged or conflicting
+ * context still counts. Both modes also match native-script keywords typed
+ * in Latin script ("seene mein dard") via the transliteration layer. 'substring' flags every hit. If contextual analysis
+ * throws, the substring result is returned — never a silent miss.
+ */
+export function detectEmergency(
+  text: string,
+  language?: Language,
+  mode: EmergencyDetectionMode = 'contextual'
+): EmergencyDetection {
+  if (mode === 'substring') return detectBySubstring(text, language);
+
+  try {
+    return detectByContext(text, language);
+  } catch (error) {
+    console.warn('[emergency-detector] Contextual detection failed, using substring match:', error);
+    return detectBySubstring(text, language);
+  }
+}
@@ -0,0 +1,358 @@
+/**
+ * Guided emergency protocols — the step-by-step first aid voice mode walks
+ * a bystander through while the ambulance is on its way.
+ *
+ * Everything here is static: protocols are picked from the emergency
+ * keywords that fired, and every step lives in the message catalog under
+ * emergency.*, so the guide works in all languages when the model call is
+ * slow or fails. Model first-aid steps are appended once they arrive.
+ */
+
+import { Language } from '@/types';
+import { EMERGENCY_NUMBERS } from './constants';
+import { MessageKey, t } from './i18n';
+import { CanonicalText, canonicalize, findPhrase, isLatinPhrase } from './transliterate';
+
+// ─── Types ───────────────────────────────────────────
+
+export type EmergencyProtocolId =
+  | 'cpr' | 'recovery' | 'choking' | 'snakebite' | 'stroke' | 'seizure' | 'bleeding' | 'chest_pain' | 'general';
+
+interface ProtocolStep {
+  key: MessageKey;
+  /** Paced by the CPR metronome instead of waiting for "next" */
+  metronome?: boolean;
+  /** Asks whether they're breathing — "breathing" switches to this protocol, "not breathing" carries on */
+  ifBreathing?: EmergencyProtocolId;
+}
+
+export interface EmergencyProtocol {
+  id: EmergencyProtocolId;
+  titleKey: MessageKey;
+  steps: ProtocolStep[];
+}
+
+export interface GuideStep {
+  text: string;
+  metronome: boolean;
+  /** From the model's action plan rather than the static protocol */
+  fromAssessment: boolean;
+  /** Protocol to switch to when the answer is "breathing" */
+  ifBreathing: EmergencyProtocolId | null;
+}
+
+export type VoiceCommand = 'next' | 'repeat' | 'back' | 'breathing' | 'notBreathing';
+
+/** Hands-only CPR — 100–120 compressions a minute */
+export const CPR_COMPRESSIONS_PER_MINUTE = 110;
+/** Counted aloud in sets, the way first-aid courses teach it */
+export const CPR_COUNT_TO = 30;
+
+// ─── Protocols ───────────────────────────────────────
+
+const PROTOCOLS: Record<EmergencyProtocolId, EmergencyProtocol> = {
+  cpr: {
+    id: 'cpr',
+    titleKey: 'emergency.cpr.title',
+    steps: [
+      { key: 'emergency.cpr.check', ifBreathing: 'recovery' },
+      { key: 'emergency.cpr.position' },
+      { key: 'emergency.cpr.hands' },
+      { key: 'emergency.cpr.compress', metronome: true },
+    ],
+  },
+  // Unresponsive but breathing — the other ending of the CPR check
+  recovery: {
+    id: 'recovery',
+    titleKey: 'emergency.recovery.title',
+    steps: [
+      { key: 'emergency.recovery.side' },
+      { key: 'emergency.recovery.airway' },
+      { key: 'emergency.recovery.watch' },
+    ],
+  },
+  choking: {
+    id: 'choking',
+    titleKey: 'emergency.choking.title',
+    steps: [
+      { key: 'emergency.choking.cough' },
+      { key: 'emergency.choking.backBlows' },
+      { key: 'emergency.choking.thrusts' },
+      { key: 'emergency.choking.unconscious' },
+    ],
+  },
+  snakebite: {
+    id: 'snakebite',
+    titleKey: 'emergency.snakebite.title',
+    steps: [
+      { key: 'emergency.snakebite.calm' },
+      { key: 'emergency.snakebite.immobilize' },
+      { key: 'emergency.snakebite.dont' },
+      { key: 'emergency.snakebite.transport' },
+    ],
+  },
+  stroke: {
+    id: 'stroke',
+    titleKey: 'emergency.stroke.title',
+    steps: [
+      { key: 'emergency.stroke.face' },
+      { key: 'emergency.stroke.arms' },
+      { key: 'emergency.stroke.speech' },
+      { key: 'emergency.stroke.time' },
+    ],
+  },
+  seizure: {
+    id: 'seizure',
+    titleKey: 'emergency.seizure.title',
+    steps: [
+      { key: 'emergency.seizure.clear' },
+      { key: 'emergency.seizure.head' },
+      { key: 'emergency.seizure.side' },
+      { key: 'emergency.seizure.time' },
+    ],
+  },
+  bleeding: {
+    id: 'bleeding',
+    titleKey: 'emergency.bleeding.title',
+    steps: [
+      { key: 'emergency.bleeding.press' },
+      { key: 'emergency.bleeding.more' },
+      { key: 'emergency.bleeding.raise' },
+    ],
+  },
+  chest_pain: {
+    id: 'chest_pain',
+    titleKey: 'emergency.chest.title',
+    steps: [
+      { key: 'emergency.chest.rest' },
+      { key: 'emergency.chest.nothing' },
+      { key: 'emergency.chest.watch' },
+    ],
+  },
+  general: {
+    id: 'general',
+    titleKey: 'emergency.general.title',
+    steps: [
+      { key: 'emergency.general.safe' },
+      { key: 'emergency.general.breathing' },
+      { key: 'emergency.general.wait' },
+    ],
+  },
+};
+
+export function getEmergencyProtocol(id: EmergencyProtocolId): EmergencyProtocol {
+  return PROTOCOLS[id];
+}
+
+// ─── Protocol selection ──────────────────────────────
+
+/**
+ * English phrases match as words — their skeletons collide with romanized
+ * Indic words ("again" and "aage" both become "ake"). Native-script phrases
+ * match verbatim or through the transliteration layer, so romanized speech
+ * ("ho gaya", "seene mein dard") finds them too.
+ */
+function mentions(lower: string, canonical: CanonicalText, phrase: string): boolean {
+  if (isLatinPhrase(phrase)) {
+    return new RegExp(`(^|[^a-z])${phrase.replace(/ /g, '\\s+')}`).test(lower);
+  }
+  return lower.includes(phrase) || findPhrase(canonical, phrase).length > 0;
+}
+
+interface ProtocolMatcher {
+  id: EmergencyProtocolId;
+  phrases: string[]; // multilingual, matched through the transliteration layer
+}
+
+// Most time-critical first — someone not breathing after a snakebite needs CPR
+const PROTOCOL_MATCHERS: ProtocolMatcher[] = [
+  {
+    id: 'cpr',
+    phrases: [
+      'not breathing', 'stopped breathing', 'cardiac arrest', 'no pulse', 'unconscious', 'unresponsive', 'collapsed',
+      'सांस नहीं ले रहा', 'सांस बंद', 'सांस रुक', 'बेहोश', 'होश नहीं',
+      'மூச்சு விடவில்லை', 'மயக்கம்', 'சுயநினைவு இல்லை',
+      'ఊపిరి ఆడటం లేదు', 'స్పృహ లేదు', 'స్పృహ తప్పి',
+      'श्वास घेत नाही', 'बेशुद्ध', 'ಉಸಿರಾಟ ನಿಂತ', 'ಪ್ರಜ್ಞೆ ಇಲ್ಲ', 'ಪ್ರಜ್ಞೆ ತಪ್ಪಿ',
+      'শ্বাস নিচ্ছে না', 'অজ্ঞান', 'શ્વાસ નથી લેતા', 'બેભાન',
+      'ശ്വാസം ഇല്ല', 'ബോധമില്ല', 'ബോധം പോയി', 'ਸਾਹ ਨਹੀਂ ਲੈ ਰਿਹਾ', 'ਬੇਹੋਸ਼',
+      'ନିଶ୍ୱାସ ବନ୍ଦ', 'ବେହୋସ', 'ଅଚେତ', 'ଚେତା ନାହିଁ',
+      'سانس نہیں لے رہا', 'سانس بند', 'بے ہوش', 'بیہوش',
+    ],
+  },
+  {
+    id: 'choking',
+    phrases: [
+      'choking', 'गला घुट', 'दम घुट', 'மூச்சுத் திணறல்', 'గొంతులో ఇరుక్కు', 'ಗಂಟಲಲ್ಲಿ ಸಿಕ್ಕ',
+      'গলায় আটকে', 'ગળામાં ફસા', 'തൊണ്ടയിൽ കുടുങ്ങി', 'ਗਲਾ ਘੁੱਟ', 'ଗଳାରେ ଅଟକି', 'گلا گھٹ', 'دم گھٹ',
+    ],
+  },
+  {
+    id: 'snakebite',
+    phrases: [
+      'snake', 'सांप', 'साँप', 'பாம்பு', 'పాము', 'साप', 'ಹಾವು', 'সাপ', 'સાપ', 'പാമ്പ്',
+      'ਸੱਪ', 'ସାପ', 'سانپ',
+    ],
+  },
+  {
+    id: 'stroke',
+    phrases: [
+      'stroke', 'face drooping', 'arm weakness', 'slurred speech', 'paralysis',
+      'स्ट्रोक', 'लकवा', 'पक्षाघात', 'चेहरा टेढ़ा', 'பக்கவாதம்', 'పక్షవాతం', 'अर्धांगवायू',
+      'ಪಾರ್ಶ್ವವಾಯು', 'পক্ষাঘাত', 'লকওয়া', 'લકવો', 'പക്ഷാഘാതം', 'ਅਧਰੰਗ', 'ପକ୍ଷାଘାତ', 'ଷ୍ଟ୍ରୋକ', 'فالج', 'اسٹروک',
+    ],
+  },
+  {
+    id: 'chest_pain',
+    phrases: [
+      'heart attack', 'chest pain', 'chest tightness', 'दिल का दौरा', 'हार्ट अटैक', 'सीने में दर्द', 'छाती में दर्द',
+      'மாரடைப்பு', 'நெஞ்சு வலி', 'గుండెపోటు', 'ఛాతీ నొప్పి', 'हृदयविकार', 'छातीत दुखत', 'ಹೃದಯಾಘಾತ', 'ಎದೆ ನೋವು',
+      'হার্ট অ্যাটাক', 'বুকে ব্যথা', 'હાર્ટ એટેક', 'છાતીમાં દુખાવો', 'ഹൃദയാഘാതം', 'നെഞ്ചുവേദന',
+      'ਦਿਲ ਦਾ ਦੌਰਾ', 'ਛਾਤੀ ਵਿੱਚ ਦਰਦ', 'ହୃଦଘାତ', 'ଛାତି ଯନ୍ତ୍ରଣା', 'دل کا دورہ', 'ہارٹ اٹیک', 'سینے میں درد',
+    ],
+  },
+  {
+    id: 'seizure',
+    phrases: [
+      'seizure', 'convulsion', 'fits', 'दौरा पड़', 'दौरा आया', 'मिर्गी', 'வலிப்பு', 'ఫిట్స్', 'మూర్ఛ',
+      'फेफरे', 'ಮೂರ್ಛೆ', 'ಫಿಟ್ಸ್', 'খিঁচুনি', 'তড়কা', 'આંચકી', 'അപസ്മാരം', 'ਦੌਰਾ ਪਿਆ', 'ମୃଗୀ', 'دورہ پڑ', 'مرگی',
+    ],
+  },
+  {
+    id: 'bleeding',
+    phrases: [
+      'bleeding', 'stabbed', 'stab wound', 'khoon beh', 'bahut khoon', 'खून बह', 'बहुत खून', 'रक्तस्राव', 'இரத்தப்போக்கு', 'ரத்தம்',
+      'రక్తస్రావం', 'రక్తం కారు', 'रक्तस्त्राव', 'ರಕ್ತಸ್ರಾವ', 'রক্তপাত', 'রক্ত পড়', 'લોહી વહે', 'രക്തസ്രാവം',
+      'ਖੂਨ ਵਹਿ', 'ରକ୍ତସ୍ରାବ', 'ବହୁତ ରକ୍ତ', 'خون بہہ', 'بہت خون',
+    ],
+  },
+];
+
+/**
+ * Pick the protocol for an emergency from what the patient said — the
+ * keywords the detector matched, or the transcript itself. Falls back to
+ * the general steps (safety, breathing, wait with them).
+ */
+export function selectEmergencyProtocol(texts: string[]): EmergencyProtocolId {
+  const lower = texts.join(' . ').toLowerCase();
+  const canonical = canonicalize(lower);
+  for (const matcher of PROTOCOL_MATCHERS) {
+    if (matcher.phrases.some((phrase) => mentions(lower, canonical, phrase))) {
+      return matcher.id;
+    }
+  }
+  return 'general';
+}
+
+// ─── Guide steps ─────────────────────────────────────
+
+/** Spoken first — the number to call, before any first aid */
+export function emergencyIntro(language: Language): string {
+  return t('emergency.intro', language, { number: EMERGENCY_NUMBERS.unified });
+}
+
+/** A protocol's steps in the patient's language, then the model's first aid */
+export function getGuideSteps(id: EmergencyProtocolId, language: Language, firstAid: string[] = []): GuideStep[] {
+  const steps: GuideStep[] = PROTOCOLS[id].steps.map((step) => ({
+    text: t(step.key, language),
+    metronome: !!step.metronome,
+    fromAssessment: false,
+    ifBreathing: step.ifBreathing ?? null,
+  }));
+  for (const text of firstAid) {
+    if (text.trim()) steps.push({ text: text.trim(), metronome: false, fromAssessment: true, ifBreathing: null });
+  }
+  return steps;
+}
+
+/** Every static phrase the guide can speak, for TTS pre-generation */
+export const EMERGENCY_SPEECH_KEYS: MessageKey[] = [
+  'emergency.intro',
+  'emergency.finished',
+  ...Object.values(PROTOCOLS).flatMap((protocol) => protocol.steps.map((step) => step.key)),
+];
+
+// ─── Voice commands ──────────────────────────────────
+
+// Checked in this order — "not breathing" mustn't read as "breathing", nor
+// "go back" and "say again" as "next"
+const VOICE_COMMANDS: { command: VoiceCommand; phrases: string[] }[] = [
+  {
+    command: 'notBreathing',
+    phrases: [
+      'not breathing', "isn't breathing", 'stopped breathing', 'no breathing',
+      'सांस नहीं', 'सांस बंद', 'saans nahi', 'saans band',
+      'மூச்சு விடவில்லை', 'மூச்சு இல்லை', 'ఊపిరి ఆడటం లేదు', 'ఊపిరి లేదు', 'శ్వాస లేదు',
+      'श्वास घेत नाही', 'श्वास नाही', 'ಉಸಿರಾಡುತ್ತಿಲ್ಲ', 'ಉಸಿರು ಇಲ್ಲ',
+      'শ্বাস নিচ্ছে না', 'শ্বাস নেই', 'શ્વાસ નથી', 'શ્વાસ લેતા નથી',
+      'ശ്വസിക്കുന്നില്ല', 'ശ്വാസമില്ല', 'ശ്വാസം ഇല്ല', 'ਸਾਹ ਨਹੀਂ', 'ਸਾਹ ਬੰਦ',
+      'ନିଶ୍ୱାସ ନେଉନାହାଁନ୍ତି', 'ନିଶ୍ୱାସ ନେଉନି', 'ନିଶ୍ୱାସ ବନ୍ଦ', 'سانس نہیں', 'سانس بند',
+    ],
+  },
+  {
+    command: 'breathing',
+    phrases: [
+      'breathing',
+      'सांस ले रहा', 'सांस ले रही', 'सांस ले रहे', 'saans le raha', 'saans le rahi', 'saans le rahe',
+      'மூச்சு விடுகிறார்', 'மூச்சு இருக்கு', 'ఊపిరి ఆడుతోంది', 'ఊపిరి ఉంది', 'శ్వాస తీసుకుంటున్నారు',
+      'श्वास घेत आहे', 'श्वास चालू', 'ಉಸಿರಾಡುತ್ತಿದ್ದಾರೆ', 'ಉಸಿರು ಇದೆ',
+      'শ্বাস নিচ্ছে', 'শ্বাস আছে', 'શ્વાસ લે છે', 'શ્વાસ ચાલે છે',
+      'ശ്വസിക്കുന്നുണ്ട്', 'ശ്വാസമുണ്ട്', 'ਸਾਹ ਲੈ ਰਿਹਾ', 'ਸਾਹ ਲੈ ਰਹੀ', 'ਸਾਹ ਲੈ ਰਹੇ',
+      'ନିଶ୍ୱାସ ନେଉଛନ୍ତି', 'ନିଶ୍ୱାସ ନେଉଛି', 'سانس لے رہا', 'سانس لے رہی', 'سانس لے رہے',
+    ],
+  },
+  {
+    command: 'back',
+    phrases: [
+      'back', 'previous', 'go back', 'बैक',
+      'पीछे', 'पिछला', 'वापस', 'peeche', 'pichla', 'wapas',
+      'முந்தைய', 'பின்னால்', 'వెనక్కి', 'వెనుక', 'मागे', 'मागचं', 'ಹಿಂದೆ', 'ಹಿಂದಿನದು',
+      'আগের', 'পিছনে', 'પાછળ', 'પાછલું', 'പിന്നോട്ട്', 'മുമ്പത്തെ', 'ਪਿੱਛੇ', 'ਪਿਛਲਾ',
+      'ପଛକୁ', 'ପୂର୍ବବର୍ତ୍ତୀ', 'پیچھے', 'پچھلا', 'واپس',
+    ],
+  },
+  {
+    command: 'repeat',
+    phrases: [
+      'repeat', 'again', 'say again', 'what', 'रिपीट',
+      'फिर से', 'दोबारा', 'दुबारा', 'phir se', 'dobara',
+      'மீண்டும்', 'மறுபடி', 'మళ్ళీ', 'మళ్లీ', 'మరలా', 'पुन्हा', 'परत सांग', 'ಮತ್ತೆ', 'ಇನ್ನೊಮ್ಮೆ',
+      'আবার', 'আরেকবার', 'ફરીથી', 'ફરી', 'വീണ്ടും', 'ഒന്നുകൂടി', 'ਫਿਰ ਤੋਂ', 'ਦੁਬਾਰਾ',
+      'ପୁଣି', 'ଆଉ ଥରେ', 'پھر سے', 'دوبارہ',
+    ],
+  },
+  {
+    command: 'next',
+    phrases: [
+      'next', 'done', 'okay', 'ok', 'continue', 'go on', 'नेक्स्ट',
+      'हो गया', 'हो गई', 'आगे', 'अगला', 'ठीक है', 'कर दिया', 'ho gaya', 'aage', 'agla', 'theek hai',
+      'முடிந்தது', 'ஆச்சு', 'அடுத்து', 'அடுத்தது', 'சரி',
+      'అయింది', 'అయిపోయింది', 'తరువాత', 'తర్వాత', 'సరే',
+      'झालं', 'झाले', 'पुढे', 'पुढचं', 'ठीक आहे',
+      'ಆಯಿತು', 'ಆಯ್ತು', 'ಮುಂದೆ', 'ಮುಂದಿನದು', 'ಸರಿ',
+      'হয়ে গেছে', 'হয়েছে', 'পরের', 'পরেরটা', 'ঠিক আছে',
+      'થઈ ગયું', 'પૂરું', 'આગળ', 'આગળનું', 'બરાબર',
+      'കഴിഞ്ഞു', 'അടുത്തത്', 'ശരി',
+      'ਹੋ ਗਿਆ', 'ਅੱਗੇ', 'ਅਗਲਾ', 'ਠੀਕ ਹੈ',
+      'ହୋଇଗଲା', 'ସରିଲା', 'ପରବର୍ତ୍ତୀ', 'ଆଗକୁ', 'ଠିକ ଅଛି',
+      'ہو گیا', 'آگے', 'اگلا', 'ٹھیک ہے',
+    ],
+  },
+];
+
+/**
+ * Read a confirmation out of a short utterance — "done", "next", "फिर से",
+ * "ಹಿಂದೆ", or an answer to the breathing check — in any supported language,
+ * whatever the selected one is: a bystander answers in whatever comes out
+ * under stress.
+ */
+export function matchVoiceCommand(transcript: string): VoiceCommand | null {
+  const lower = transcript.toLowerCase();
+  const canonical = canonicalize(lower);
+  for (const { command, phrases } of VOICE_COMMANDS) {
+    if (phrases.some((phrase) => mentions(lower, canonical, phrase))) {
+      return command;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,760 @@
+/**
+ * Follow-up check reminders.
+ *
+ * The schedule_followup_check tool writes followup_checks rows. A scheduled
+ * request to /api/cron/followups runs deliverDueFollowUps(), which claims due
+ * `pending` checks and sends a reminder through the channels listed in
+ * FOLLOWUP_CHANNELS (default: in_app):
+ *   - in_app:          a row in inbox_messages
+ *   - sms / whatsapp:  Twilio
+ *   - email:           Resend
+ * In-app delivery always happens when listed; of the other channels, the
+ * first one that can reach the patient is used. A channel without
+ * credentials — or every channel, with FOLLOWUP_TRANSPORT=fake — uses a fake
+ * transport that logs and keeps the message in memory.
+ *
+ * SMS, WhatsApp and email carry only a generic nudge and a link; the reason
+ * for the check stays in the app.
+ *
+ * The patient answers better / same / worse (respondToFollowUp): worse
+ * escalates the check, anything else completes it, and a new triage session
+ * is seeded with the original conversation so the next message continues it.
+ *
+ * The /followups inbox (listFollowUps) shows each check's reason and
+ * escalation criteria in the patient's preferred language. The tool writes
+ * them in English; translations are made once by the model and cached on the
+ * row, keyed by language.
+ */
+
+import { Language, Severity, TriageResult } from '@/types';
+import { getServiceClient } from './supabase';
+import { validateLanguage } from './input-guard';
+import { seedConversation, summarizeResult } from './conversation-state';
+import { getLLMProvider } from './llm-provider';
+import { createUsageMeter, getBudgetStatus, meterProvider, recordUsage, usageSubject } from './usage-budget';
+import { SUPPORTED_LANGUAGES } from './constants';
+import { t } from './i18n';
+
+// ─── Types ───────────────────────────────────────────
+
+export type FollowUpStatus = 'pending' | 'completed' | 'escalated' | 'dismissed';
+
+export type FollowUpAnswer = 'better' | 'same' | 'worse';
+
+export type ChannelName = 'in_app' | 'sms' | 'whatsapp' | 'email';
+
+export interface FollowUpCheck {
+  id: string;
+  clerk_user_id: string;
+  session_id: string | null;
+  check_at: string;
+  reason: string;
+  escalation_criteria: string | null;
+  status: FollowUpStatus;
+  delivered_at: string | null;
+  delivery_channels: ChannelName[] | null;
+  attempts: number;
+  last_error: string | null;
+  response: FollowUpAnswer | null;
+  responded_at: string | null;
+  /** Session seeded when the patient answered */
+  followup_session_id: string | null;
+  /** Cached translations of reason / escalation_criteria, by language */
+  translations: Partial<Record<Language, CheckText>> | null;
+  created_at: string;
+}
+
+export interface CheckText {
+  reason: string;
+  escalation_criteria: string | null;
+}
+
+export interface Recipient {
+  clerkUserId: string;
+  language: Language;
+  phone: string | null;
+  email: string | null;
+}
+
+export interface Reminder {
+  checkId: string;
+  recipient: Recipient;
+  subject: string;
+  /** Generic nudge + link — safe for a lock screen */
+  text: string;
+  url: string;
+  /** Only shown in the app */
+  reason: string;
+}
+
+export interface DeliveryChannel {
+  name: ChannelName;
+  /** 'fake' logs and keeps the message in memory instead of sending it */
+  transport: 'live' | 'fake';
+  canReach(recipient: Recipient): boolean;
+  send(reminder: Reminder): Promise<void>;
+}
+
+export interface DeliveryReport {
+  due: number;
+  delivered: number;
+  failed: number;
+  /** Claimed by an overlapping run */
+  skipped: number;
+  byChannel: Record<ChannelName, number>;
+}
+
+export type FollowUpResponse = FollowUpAnswer | 'dismiss';
+
+export type RespondResult =
+  | { ok: true; check: FollowUpCheck; sessionId: string | null }
+  | { ok: false; reason: 'not_found' | 'closed' };
+
+/** A check as the /followups inbox shows it */
+export interface FollowUpListItem extends CheckText {
+  id: string;
+  session_id: string | null;
+  check_at: string;
+  status: FollowUpStatus;
+  /** Pending and past its check time */
+  due: boolean;
+  /** Language of reason / escalation_criteria — English when no translation was possible */
+  language: Language;
+  response: FollowUpAnswer | null;
+  responded_at: string | null;
+  followup_session_id: string | null;
+  created_at: string;
+  /** From the triage session that scheduled the check */
+  symptoms: string[];
+  severity: Severity | null;
+}
+
+export interface FollowUpInbox {
+  language: Language;
+  checks: FollowUpListItem[];
+  due: number;
+}
+
+/** The triage a check was scheduled from — what a check-in continues */
+export interface OriginalTriage {
+  language: string;
+  symptoms: string[];
+  severity: Severity | null;
+  created_at: string;
+  messages: Array<{
+    role: 'user' | 'assistant';
+    content: string;
+    language: string | null;
+    is_follow_up: boolean;
+    created_at: string;
+  }>;
+  result: TriageResult | null;
+  thinkingContent: string | null;
+}
+
+// ─── Fake transport ──────────────────────────────────
+
+export interface FakeDelivery {
+  channel: ChannelName;
+  to: string;
+  subject: string;
+  text: string;
+  timestamp: number;
+}
+
+const fakeOutbox: FakeDelivery[] = [];
+const MAX_FAKE_OUTBOX = 200;
+
+/** Messages the fake transports "sent" in this process (local development) */
+export function getFakeOutbox(): readonly FakeDelivery[] {
+  return fakeOutbox;
+}
+
+function sendFake(channel: ChannelName, to: string, reminder: Reminder): void {
+  fakeOutbox.push({ channel, to, subject: reminder.subject, text: reminder.text, timestamp: Date.now() });
+  if (fakeOutbox.length > MAX_FAKE_OUTBOX) fakeOutbox.shift();
+  console.log(`[followups] (fake ${channel}) check ${reminder.checkId} → ${to}`);
+}
+
+// ─── Channels ────────────────────────────────────────
+
+const SEND_TIMEOUT_MS = 10000;
+
+function forceFake(): boolean {
+  return process.env.FOLLOWUP_TRANSPORT === 'fake';
+}
+
+function createInAppChannel(): DeliveryChannel {
+  const supabase = forceFake() ? null : getServiceClient();
+  return {
+    name: 'in_app',
+    transport: supabase ? 'live' : 'fake',
+    canReach: () => true,
+    async send(reminder) {
+      if (!supabase) return sendFake('in_app', reminder.recipient.clerkUserId, reminder);
+      const { error } = await supabase.from('inbox_messages').insert({
+        clerk_user_id: reminder.recipient.clerkUserId,
+        kind: 'followup_check',
+        ref_id: reminder.checkId,
+        title: reminder.subject,
+        body: reminder.reason,
+        url: reminder.url,
+      });
+      if (error) throw new Error(error.message);
+    },
+  };
+}
+
+async function sendTwilio(to: string, from: string, body: string): Promise<void> {
+  const sid = process.env.TWILIO_ACCOUNT_SID;
+  const token = process.env.TWILIO_AUTH_TOKEN;
+  const res = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${sid}/Messages.json`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Basic ${Buffer.from(`${sid}:${token}`).toString('base64')}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({ To: to, From: from, Body: body }),
+    signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+  });
+  if (!res.ok) throw new Error(`Twilio ${res.status}: ${await res.text()}`);
+}
+
+function createTwilioChannel(name: 'sms' | 'whatsapp'): DeliveryChannel {
+  const from = name === 'sms' ? process.env.TWILIO_SMS_FROM : process.env.TWILIO_WHATSAPP_FROM;
+  const live = !forceFake() && !!(process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN && from);
+  const address = (phone: string) => (name === 'whatsapp' ? `whatsapp:${phone.replace(/^whatsapp:/, '')}` : phone);
+  return {
+    name,
+    transport: live ? 'live' : 'fake',
+    canReach: (recipient) => !!recipient.phone,
+    async send(reminder) {
+      const to = address(reminder.recipient.phone!);
+      if (!live) return sendFake(name, to, reminder);
+      await sendTwilio(to, address(from!), reminder.text);
+    },
+  };
+}
+
+function createEmailChannel(): DeliveryChannel {
+  const apiKey = process.env.RESEND_API_KEY;
+  const from = process.env.FOLLOWUP_EMAIL_FROM;
+  const live = !forceFake() && !!(apiKey && from);
+  return {
+    name: 'email',
+    transport: live ? 'live' : 'fake',
+    canReach: (recipient) => !!recipient.email,
+    async send(reminder) {
+      const to = reminder.recipient.email!;
+      if (!live) return sendFake('email', to, reminder);
+      const res = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ from, to: [to], subject: reminder.subject, text: reminder.text }),
+        signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+      });
+      if (!res.ok) throw new Error(`Resend ${res.status}: ${await res.text()}`);
+    },
+  };
+}
+
+const CHANNEL_FACTORIES: Record<ChannelName, () => DeliveryChannel> = {
+  in_app: createInAppChannel,
+  sms: () => createTwilioChannel('sms'),
+  whatsapp: () => createTwilioChannel('whatsapp'),
+  email: createEmailChannel,
+};
+
+/** Channels from FOLLOWUP_CHANNELS, in priority order */
+export function getDeliveryChannels(): DeliveryChannel[] {
+  const names = (process.env.FOLLOWUP_CHANNELS || 'in_app')
+    .split(',')
+    .map((n) => n.trim())
+    .filter((n): n is ChannelName => n in CHANNEL_FACTORIES);
+  return Array.from(new Set(names)).map((name) => CHANNEL_FACTORIES[name]());
+}
+
+// ─── Reminders ───────────────────────────────────────
+
+const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL || 'https://sehat.vercel.app';
+
+async function getRecipient(clerkUserId: string, needsContact: boolean): Promise<Recipient> {
+  const recipient: Recipient = { clerkUserId, language: 'hi', phone: null, email: null };
+
+  const supabase = getServiceClient();
+  if (supabase) {
+    const { data } = await supabase
+      .from('profiles')
+      .select('preferred_language')
+      .eq('clerk_user_id', clerkUserId)
+      .single();
+    if (data?.preferred_language) recipient.language = validateLanguage(data.preferred_language);
+  }
+
+  if (needsContact) {
+    try {
+      const { clerkClient } = await import('@clerk/nextjs/server');
+      const user = await (await clerkClient()).users.getUser(clerkUserId);
+      recipient.phone = user.primaryPhoneNumber?.phoneNumber ?? null;
+      recipient.email = user.primaryEmailAddress?.emailAddress ?? null;
+    } catch {
+      // Clerk not configured — only in-app delivery is possible
+    }
+  }
+
+  return recipient;
+}
+
+function buildReminder(check: FollowUpCheck, recipient: Recipient): Reminder {
+  const url = `${BASE_URL}/followups?check=${check.id}`;
+  return {
+    checkId: check.id,
+    recipient,
+    subject: t('followup.emailSubject', recipient.language),
+    text: `${t('followup.reminder', recipient.language)}\n${t('followup.reminderLink', recipient.language, { url })}`,
+    url,
+    reason: check.reason,
+  };
+}
+
+/** Send one reminder; returns the channels that delivered it */
+async function deliverReminder(
+  check: FollowUpCheck,
+  channels: DeliveryChannel[]
+): Promise<{ delivered: ChannelName[]; errors: string[] }> {
+  const external = channels.filter((c) => c.name !== 'in_app');
+  const recipient = await getRecipient(check.clerk_user_id, external.length > 0);
+  const reminder = buildReminder(check, recipient);
+  const delivered: ChannelName[] = [];
+  const errors: string[] = [];
+
+  const attempt = async (channel: DeliveryChannel) => {
+    try {
+      await channel.send(reminder);
+      delivered.push(channel.name);
+      return true;
+    } catch (err) {
+      errors.push(`${channel.name}: ${err instanceof Error ? err.message : 'send failed'}`);
+      return false;
+    }
+  };
+
+  const inApp = channels.find((c) => c.name === 'in_app');
+  if (inApp) await attempt(inApp);
+
+  // One outside message is enough — fall through the list only on failure
+  for (const channel of external) {
+    if (!channel.canReach(recipient)) continue;
+    if (await attempt(channel)) break;
+  }
+
+  return { delivered, errors };
+}
+
+// ─── Scheduler ───────────────────────────────────────
+
+const MAX_ATTEMPTS = 3;
+const BATCH_SIZE = 50;
+
+/** Deliver every due, undelivered `pending` check. Safe to run concurrently. */
+export async function deliverDueFollowUps(now = new Date()): Promise<DeliveryReport> {
+  const supabase = getServiceClient();
+  if (!supabase) throw new Error('Database not configured');
+
+  const { data, error } = await supabase
+    .from('followup_checks')
+    .select('*')
+    .eq('status', 'pending')
+    .is('delivered_at', null)
+    .lte('check_at', now.toISOString())
+    .lt('attempts', MAX_ATTEMPTS)
+    .order('check_at', { ascending: true })
+    .limit(BATCH_SIZE);
+  if (error) throw new Error(error.message);
+
+  const checks = (data || []) as FollowUpCheck[];
+  const channels = getDeliveryChannels();
+  const report: DeliveryReport = {
+    due: checks.length,
+    delivered: 0,
+    failed: 0,
+    skipped: 0,
+    byChannel: { in_app: 0, sms: 0, whatsapp: 0, email: 0 },
+  };
+
+  for (const check of checks) {
+    // Claim before sending so an overlapping run can't send it twice
+    const { data: claimed } = await supabase
+      .from('followup_checks')
+      .update({ delivered_at: now.toISOString(), attempts: check.attempts + 1 })
+      .eq('id', check.id)
+      .is('delivered_at', null)
+      .select('id');
+    if (!claimed || claimed.length === 0) {
+      report.skipped++;
+      continue;
+    }
+
+    const { delivered, errors } = await deliverReminder(check, channels);
+    if (delivered.length > 0) {
+      report.delivered++;
+      for (const name of delivered) report.byChannel[name]++;
+    } else {
+      report.failed++;
+    }
+
+    // Record the outcome; if nothing went out, release the claim so the next run retries
+    await supabase
+      .from('followup_checks')
+      .update({
+        delivery_channels: delivered,
+        last_error: errors.length > 0 ? errors.join('; ') : null,
+        ...(delivered.length === 0 ? { delivered_at: null } : {}),
+      })
+      .eq('id', check.id);
+  }
+
+  return report;
+}
+
+// ─── Original triage ─────────────────────────────────
+
+/** The session a check was scheduled from: its conversation, result and symptoms */
+export async function loadOriginalTriage(sessionId: string): Promise<OriginalTriage | null> {
+  const supabase = getServiceClient();
+  if (!supabase) return null;
+
+  const [sessionRes, messagesRes, resultRes] = await Promise.all([
+    supabase
+      .from('triage_sessions')
+      .select('language, symptoms, severity, created_at')
+      .eq('session_id', sessionId)
+      .single(),
+    supabase
+      .from('conversation_messages')
+      .select('role, content, language, is_follow_up, created_at')
+      .eq('session_id', sessionId)
+      .eq('is_result', false)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('triage_results')
+      .select('result_json, thinking_content')
+      .eq('session_id', sessionId)
+      .single(),
+  ]);
+  if (!sessionRes.data) return null;
+
+  return {
+    language: sessionRes.data.language,
+    symptoms: sessionRes.data.symptoms || [],
+    severity: sessionRes.data.severity ?? null,
+    created_at: sessionRes.data.created_at,
+    messages: messagesRes.data || [],
+    result: (resultRes.data?.result_json as TriageResult | undefined) ?? null,
+    thinkingContent: resultRes.data?.thinking_content ?? null,
+  };
+}
+
+// ─── Responses ───────────────────────────────────────
+
+const STATUS_FOR_RESPONSE: Record<FollowUpResponse, FollowUpStatus> = {
+  better: 'completed',
+  same: 'completed',
+  worse: 'escalated',
+  dismiss: 'dismissed',
+};
+
+/** The turns a check-in adds after the original conversation */
+function checkInTurns(check: FollowUpCheck, answer: FollowUpAnswer, original: OriginalTriage | null) {
+  const feeling = answer === 'same' ? 'about the same' : answer;
+  const context = [
+    original && original.symptoms.length > 0 ? ` Original symptoms: ${original.symptoms.join(', ')}.` : '',
+    original?.result ? ` ${summarizeResult(original.result)}.` : '',
+    check.escalation_criteria ? ` Escalation criteria set at the last triage: ${check.escalation_criteria}.` : '',
+  ].join('');
+  return [
+    {
+      role: 'user' as const,
+      content: `[Follow-up check-in] Checking back about: ${check.reason}. Since the last triage I feel ${feeling}.`,
+      is_result: true,
+    },
+    {
+      role: 'assistant' as const,
+      content: `[Follow-up check] Patient reports feeling ${feeling}.${context} Reassess with this in mind.`,
+      is_result: true,
+    },
+  ];
+}
+
+/**
+ * Record the patient's answer to a check. Only the first answer counts.
+ * Answers (not dismissals) return a new session to continue the triage in,
+ * seeded with the original conversation, symptoms and result.
+ */
+export async function respondToFollowUp(
+  checkId: string,
+  clerkUserId: string,
+  response: FollowUpResponse
+): Promise<RespondResult> {
+  const supabase = getServiceClient();
+  if (!supabase) throw new Error('Database not configured');
+
+  const { data } = await supabase
+    .from('followup_checks')
+    .select('*')
+    .eq('id', checkId)
+    .eq('clerk_user_id', clerkUserId)
+    .single();
+  const check = data as FollowUpCheck | null;
+  if (!check) return { ok: false, reason: 'not_found' };
+  if (check.status !== 'pending') return { ok: false, reason: 'closed' };
+
+  let sessionId: string | null = null;
+  if (response !== 'dismiss') {
+    const original = check.session_id ? await loadOriginalTriage(check.session_id) : null;
+    sessionId = crypto.randomUUID();
+    const seeded = await seedConversation({
+      sessionId,
+      clerkUserId,
+      fromSessionId: check.session_id,
+      turns: checkInTurns(check, response, original),
+    });
+    if (!seeded) sessionId = null;
+  }
+
+  const respondedAt = new Date().toISOString();
+  const { data: updated } = await supabase
+    .from('followup_checks')
+    .update({
+      status: STATUS_FOR_RESPONSE[response],
+      response: response === 'dismiss' ? null : response,
+      responded_at: respondedAt,
+      followup_session_id: sessionId,
+    })
+    .eq('id', checkId)
+    .eq('status', 'pending')
+    .select('*');
+  if (!updated || updated.length === 0) return { ok: false, reason: 'closed' };
+
+  // The reminder in the inbox has done its job
+  supabase
+    .from('inbox_messages')
+    .update({ read_at: respondedAt })
+    .eq('clerk_user_id', clerkUserId)
+    .eq('ref_id', checkId)
+    .is('read_at', null)
+    .then(({ error }) => {
+      if (error) console.error('[followups] Failed to mark reminder read:', error.message);
+    });
+
+  return { ok: true, check: updated[0] as FollowUpCheck, sessionId };
+}
+
+// ─── Localization ────────────────────────────────────
+
+const MAX_TRANSLATE_BATCH = 20;
+
+const LANGUAGE_NAMES = Object.fromEntries(SUPPORTED_LANGUAGES.map((l) => [l.code, l.label])) as Record<Language, string>;
+
+function englishText(check: FollowUpCheck): CheckText {
+  return { reason: check.reason, escalation_criteria: check.escalation_criteria };
+}
+
+/** Read `{ "<check id>": { reason, escalation_criteria } }` from model output */
+function parseTranslations(text: string, checks: FollowUpCheck[]): Map<string, CheckText> {
+  const parsed = new Map<string, CheckText>();
+  let data: unknown = null;
+  try {
+    data = JSON.parse(text.match(/\{[\s\S]*\}/)?.[0] ?? text);
+  } catch {
+    return parsed;
+  }
+  if (!data || typeof data !== 'object') return parsed;
+
+  for (const check of checks) {
+    const entry = (data as Record<string, Partial<CheckText> | undefined>)[check.id];
+    if (typeof entry?.reason !== 'string' || !entry.reason.trim()) continue;
+    parsed.set(check.id, {
+      reason: entry.reason.trim(),
+      escalation_criteria: check.escalation_criteria && typeof entry.escalation_criteria === 'string'
+        ? entry.escalation_criteria.trim()
+        : check.escalation_criteria,
+    });
+  }
+  return parsed;
+}
+
+/**
+ * Check text in `language`, from the cache on each row or translated now.
+ * Checks left out of the map stay in English.
+ */
+async function localizeChecks(
+  checks: FollowUpCheck[],
+  language: Language,
+  clerkUserId: string
+): Promise<Map<string, CheckText>> {
+  const localized = new Map<string, CheckText>();
+  if (language === 'en') return localized;
+
+  for (const check of checks) {
+    const cached = check.translations?.[language];
+    if (cached) localized.set(check.id, cached);
+  }
+  const missing = checks.filter((c) => !localized.has(c.id)).slice(0, MAX_TRANSLATE_BATCH);
+  if (missing.length === 0) return localized;
+
+  const baseProvider = getLLMProvider();
+  if (!baseProvider.configured) return localized;
+
+  // Translation is a convenience — over the daily budget, show the English text
+  const subject = usageSubject(clerkUserId, '');
+  const { tier } = await getBudgetStatus(subject);
+  if (tier === 'minimal') return localized;
+  const usageMeter = createUsageMeter();
+  const provider = meterProvider(baseProvider, usageMeter);
+
+  try {
+    const text = await provider.complete({
+      maxTokens: 2048,
+      system: `Translate patient follow-up reminders from English into ${LANGUAGE_NAMES[language]} for a patient in India. Use simple, everyday words in the native script; keep medicine names and numbers as they are. Reply with only a JSON object in the same shape as the input: { "<id>": { "reason": string, "escalation_criteria": string | null } }.`,
+      messages: [{
+        role: 'user',
+        content: JSON.stringify(Object.fromEntries(missing.map((c) => [c.id, englishText(c)]))),
+      }],
+    });
+
+    const supabase = getServiceClient();
+    for (const [id, translated] of parseTranslations(text, missing)) {
+      localized.set(id, translated);
+      const check = missing.find((c) => c.id === id)!;
+      supabase
+        ?.from('followup_checks')
+        .update({ translations: { ...check.translations, [language]: translated } })
+        .eq('id', id)
+        .then(({ error }) => {
+          if (error) console.error('[followups] Failed to cache translation:', error.message);
+        });
+    }
+  } catch (err) {
+    console.error('[followups] Translation failed, showing English:', err);
+  } finally {
+    recordUsage({ subject, clerkUserId, route: 'followups', model: provider.model, meter: usageMeter, tier });
+  }
+
+  return localized;
+}
+
+// ─── Inbox ───────────────────────────────────────────
+
+const MAX_INBOX_CHECKS = 50;
+
+function isDue(check: FollowUpCheck, now: Date): boolean {
+  return check.status === 'pending' && new Date(check.check_at) <= now;
+}
+
+function toListItem(
+  check: FollowUpCheck,
+  localized: CheckText | undefined,
+  language: Language,
+  session: { symptoms: string[] | null; severity: Severity | null } | undefined,
+  now: Date
+): FollowUpListItem {
+  return {
+    id: check.id,
+    session_id: check.session_id,
+    check_at: check.check_at,
+    status: check.status,
+    due: isDue(check, now),
+    ...(localized ?? englishText(check)),
+    language: localized ? language : 'en',
+    response: check.response,
+    responded_at: check.responded_at,
+    followup_session_id: check.followup_session_id,
+    created_at: check.created_at,
+    symptoms: session?.symptoms || [],
+    severity: session?.severity ?? null,
+  };
+}
+
+/** A patient's checks, newest first, in their preferred language */
+export async function listFollowUps(clerkUserId: string, now = new Date()): Promise<FollowUpInbox> {
+  const supabase = getServiceClient();
+  if (!supabase) throw new Error('Database not configured');
+
+  const [{ language }, { data, error }] = await Promise.all([
+    getRecipient(clerkUserId, false),
+    supabase
+      .from('followup_checks')
+      .select('*')
+      .eq('clerk_user_id', clerkUserId)
+      .order('check_at', { ascending: false })
+      .limit(MAX_INBOX_CHECKS),
+  ]);
+  if (error) throw new Error(error.message);
+  const checks = (data || []) as FollowUpCheck[];
+
+  const sessionIds = Array.from(new Set(checks.map((c) => c.session_id).filter((id): id is string => !!id)));
+  const [localized, sessions] = await Promise.all([
+    localizeChecks(checks, language, clerkUserId),
+    sessionIds.length > 0
+      ? supabase
+        .from('triage_sessions')
+        .select('session_id, symptoms, severity')
+        .in('session_id', sessionIds)
+        .then(({ data: rows }) => new Map((rows || []).map((r) => [r.session_id as string, r])))
+      : Promise.resolve(new Map()),
+  ]);
+
+  return {
+    language,
+    checks: checks.map((c) => toListItem(c, localized.get(c.id), language, c.session_id ? sessions.get(c.session_id) : undefined, now)),
+    due: checks.filter((c) => isDue(c, now)).length,
+  };
+}
+
+/** One check plus the triage it continues — what the home chat opens a check-in with */
+export async function getFollowUp(
+  checkId: string,
+  clerkUserId: string,
+  now = new Date()
+): Promise<{ language: Language; check: FollowUpListItem; original: OriginalTriage | null } | null> {
+  const supabase = getServiceClient();
+  if (!supabase) throw new Error('Database not configured');
+
+  const [{ language }, { data }] = await Promise.all([
+    getRecipient(clerkUserId, false),
+    supabase
+      .from('followup_checks')
+      .select('*')
+      .eq('id', checkId)
+      .eq('clerk_user_id', clerkUserId)
+      .single(),
+  ]);
+  const check = data as FollowUpCheck | null;
+  if (!check) return null;
+
+  const [localized, original] = await Promise.all([
+    localizeChecks([check], language, clerkUserId),
+    check.session_id ? loadOriginalTriage(check.session_id) : Promise.resolve(null),
+  ]);
+
+  return {
+    language,
+    check: toListItem(check, localized.get(check.id), language, original ?? undefined, now),
+    original,
+  };
+}
+
+/** Pending checks past their check time — the navigation badge */
+export async function countDueFollowUps(clerkUserId: string, now = new Date()): Promise<number> {
+  const supabase = getServiceClient();
+  if (!supabase) return 0;
+
+  const { count } = await supabase
+    .from('followup_checks')
+    .select('id', { count: 'exact', head: true })
+    .eq('clerk_user_id', clerkUserId)
+    .eq('status', 'pending')
+    .lte('check_at', now.toISOString());
+  return count || 0;
+}
@@ -0,0 +1,178 @@
+/**
+ * Message catalog — every user-facing string that varies by language.
+ *
+ * Catalogs live in ./messages, one file per language. English (en.ts) is the
+ * source: it defines the keys, and every other catalog translates a subset.
+ *
+ *   t('welcome.greetingNamed', 'hi', { name: 'Asha' })   → "नमस्ते, Asha!"
+ *   t('period.days', 'en', { count: 1 })                 → "1 day"
+ *
+ * - Interpolation: "{name}" is replaced by params.name; unknown placeholders stay as-is.
+ * - Plurals: a message may be { one, other, … } keyed by Intl.PluralRules category;
+ *   the form is picked from params.count.
+ * - Fallback: requested language → English → the key itself.
+ *
+ * Server code calls t() / getTranslator() directly; client components use the
+ * useTranslations() hook. getTranslationReport() lists gaps per language.
+ */
+
+import { Language } from '@/types';
+import { LANGUAGE_CODES } from './constants';
+import { en } from './messages/en';
+import { hi } from './messages/hi';
+import { ta } from './messages/ta';
+import { te } from './messages/te';
+import { mr } from './messages/mr';
+import { kn } from './messages/kn';
+import { bn } from './messages/bn';
+import { gu } from './messages/gu';
+import { ml } from './messages/ml';
+import { pa } from './messages/pa';
+import { or } from './messages/or';
+import { ur } from './messages/ur';
+
+// ─── Types ───────────────────────────────────────────
+
+type PluralCategory = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
+
+/** Plural forms by CLDR category; "other" is required */
+export type PluralMessage = Partial<Record<PluralCategory, string>> & { other: string };
+
+export type Message = string | PluralMessage;
+
+export type MessageKey = keyof typeof en;
+
+/** A translation: any subset of the English keys */
+export type Catalog = Partial<Record<MessageKey, Message>>;
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translator = (key: MessageKey, params?: MessageParams) => string;
+
+const CATALOGS: Record<Language, Catalog> = { en, hi, ta, te, mr, kn, bn, gu, ml, pa, or, ur };
+
+const SOURCE_LANGUAGE: Language = 'en';
+
+// ─── Lookup ──────────────────────────────────────────
+
+/** Languages to try, in order, for one lookup */
+function fallbackChain(language: Language): Language[] {
+  return language === SOURCE_LANGUAGE ? [SOURCE_LANGUAGE] : [language, SOURCE_LANGUAGE];
+}
+
+const pluralRules = new Map<Language, Intl.PluralRules>();
+
+function pluralCategory(language: Language, count: number): PluralCategory {
+  let rules = pluralRules.get(language);
+  if (!rules) {
+    rules = new Intl.PluralRules(language);
+    pluralRules.set(language, rules);
+  }
+  return rules.select(count) as PluralCategory;
+}
+
+function interpolate(template: string, params?: MessageParams): string {
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+}
+
+/** Translate a key into a language, falling back to English, then the key */
+export function t(key: MessageKey, language: Language, params?: MessageParams): string {
+  for (const lang of fallbackChain(language)) {
+    const message = CATALOGS[lang][key];
+    if (message === undefined) continue;
+    if (typeof message === 'string') return interpolate(message, params);
+
+    const count = Number(params?.count ?? 0);
+    return interpolate(message[pluralCategory(lang, count)] ?? message.other, params);
+  }
+  return key;
+}
+
+/** Bind t() to one language — for server code that formats several messages */
+export function getTranslator(language: Language): Translator {
+  return (key, params) => t(key, language, params);
+}
+
+// ─── Coverage report ─────────────────────────────────
+
+export interface StaleTranslation {
+  key: MessageKey;
+  /**
+   * placeholders — its {params} no longer match the English source
+   * untranslated — identical to the English text
+   */
+  reason: 'placeholders' | 'untranslated';
+}
+
+export interface LanguageCoverage {
+  language: Language;
+  total: number;
+  translated: number;
+  /** 0-100 */
+  coverage: number;
+  missing: MessageKey[];
+  stale: StaleTranslation[];
+}
+
+export interface TranslationReport {
+  /** True when no language has missing or stale keys */
+  complete: boolean;
+  languages: LanguageCoverage[];
+}
+
+function messageForms(message: Message): string[] {
+  return typeof message === 'string' ? [message] : Object.values(message).filter((f): f is string => !!f);
+}
+
+function placeholders(message: Message): string {
+  const names = new Set<string>();
+  for (const form of messageForms(message)) {
+    for (const m of form.matchAll(/\{(\w+)\}/g)) names.add(m[1]);
+  }
+  return [...names].sort().join(',');
+}
+
+function hasLetters(message: Message): boolean {
+  return messageForms(message).some((f) => /\p{L}{2,}/u.test(f.replace(/\{\w+\}/g, '')));
+}
+
+/** Missing and stale keys per language, against the English source */
+export function getTranslationReport(): TranslationReport {
+  const keys = Object.keys(en) as MessageKey[];
+
+  const languages = LANGUAGE_CODES.filter((l) => l !== SOURCE_LANGUAGE).map((language): LanguageCoverage => {
+    const catalog = CATALOGS[language];
+    const missing: MessageKey[] = [];
+    const stale: StaleTranslation[] = [];
+
+    for (const key of keys) {
+      const message = catalog[key];
+      const source: Message = en[key];
+      if (message === undefined) {
+        missing.push(key);
+      } else if (placeholders(message) !== placeholders(source)) {
+        stale.push({ key, reason: 'placeholders' });
+      } else if (hasLetters(source) && JSON.stringify(message) === JSON.stringify(source)) {
+        stale.push({ key, reason: 'untranslated' });
+      }
+    }
+
+    const translated = keys.length - missing.length;
+    return {
+      language,
+      total: keys.length,
+      translated,
+      coverage: Math.round((translated / keys.length) * 100),
+      missing,
+      stale,
+    };
+  });
+
+  return {
+    complete: languages.every((l) => l.missing.length === 0 && l.stale.length === 0),
+    languages,
+  };
+}
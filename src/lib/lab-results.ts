@@ -0,0 +1,380 @@
+/**
+ * Structured lab results extracted from uploaded reports.
+ *
+ * /api/analyze-document asks the model to end a lab-report analysis with a
+ * `<lab_results>` JSON block. Each value is matched to a known test
+ * ("Glycated Haemoglobin (HbA1c)" → hba1c), converted to that test's
+ * canonical unit (mmol/L glucose → mg/dL, g/L haemoglobin → g/dL, lakh/cumm
+ * platelets → 10³/µL) and flagged against the report's reference range —
+ * so values from different labs line up on one trend.
+ *
+ * Tests outside the catalog are still kept, keyed by their name in the unit
+ * the lab used, and never converted. So are values without a unit — a bare
+ * "13" could be g/dL or g/L — and ratios, red-cell indices and urine tests
+ * whose names mention a catalogued test ("Urine Creatinine", "MCHC").
+ */
+
+import { getServiceClient } from './supabase';
+
+// ─── Types ───────────────────────────────────────────
+
+export type LabFlag = 'low' | 'normal' | 'high';
+
+/** One normalized value, ready to store */
+export interface LabValue {
+  test_key: string;
+  test_name: string;
+  value: number;
+  unit: string | null;
+  reference_low: number | null;
+  reference_high: number | null;
+  flag: LabFlag | null;
+  abnormal: boolean;
+  /** YYYY-MM-DD — the date on the report, or the upload date */
+  report_date: string;
+}
+
+export interface LabResult extends LabValue {
+  id: string;
+  clerk_user_id: string;
+  upload_id: string | null;
+  created_at: string;
+}
+
+export interface LabTrendPoint {
+  value: number;
+  report_date: string;
+  flag: LabFlag | null;
+  reference_low: number | null;
+  reference_high: number | null;
+}
+
+/** One test over time, oldest point first */
+export interface LabTrend {
+  test_key: string;
+  label: string;
+  unit: string | null;
+  points: LabTrendPoint[];
+}
+
+// ─── Test catalog ────────────────────────────────────
+
+type Conversion = number | ((value: number) => number);
+
+interface LabTest {
+  key: string;
+  label: string;
+  /** Whole-word phrases matched against the lab's test name */
+  aliases: string[];
+  unit: string;
+  /** Other units (normalized spelling) → canonical */
+  conversions: Record<string, Conversion>;
+  /** Used only when the report gives no range — adult, sex-independent */
+  defaultRange?: [number, number];
+}
+
+const GLUCOSE: Record<string, Conversion> = { 'mmol/l': 18.016 };
+const LIPID: Record<string, Conversion> = { 'mmol/l': 38.67 };
+const PER_UL: Record<string, Conversion> = { '/ul': 0.001, 'lakh/ul': 100, '10^9/l': 1, '10^3/ul': 1, 'k/ul': 1, 'thou/ul': 1 };
+
+/** Order matters: the first test whose alias matches wins, so specific names come first */
+const LAB_TESTS: LabTest[] = [
+  { key: 'hba1c', label: 'HbA1c', aliases: ['hba1c', 'a1c', 'glycated haemoglobin', 'glycated hemoglobin', 'glycosylated haemoglobin', 'glycosylated hemoglobin'], unit: '%', conversions: { 'mmol/mol': (v) => 0.0915 * v + 2.15 }, defaultRange: [4, 5.6] },
+  { key: 'glucose_fasting', label: 'Fasting glucose', aliases: ['fasting blood sugar', 'fasting glucose', 'fasting plasma glucose', 'glucose fasting', 'blood sugar fasting', 'fbs', 'fbg', 'fpg'], unit: 'mg/dL', conversions: GLUCOSE, defaultRange: [70, 100] },
+  { key: 'glucose_pp', label: 'Post-meal glucose', aliases: ['post prandial', 'postprandial', 'ppbs', 'ppbg', 'pp blood sugar', 'glucose pp'], unit: 'mg/dL', conversions: GLUCOSE, defaultRange: [70, 140] },
+  { key: 'glucose_random', label: 'Random glucose', aliases: ['random blood sugar', 'random glucose', 'rbs', 'glucose random'], unit: 'mg/dL', conversions: GLUCOSE, defaultRange: [70, 140] },
+  { key: 'hemoglobin', label: 'Haemoglobin', aliases: ['haemoglobin', 'hemoglobin', 'hb', 'hgb'], unit: 'g/dL', conversions: { 'g/l': 0.1, 'mmol/l': 1.611 } },
+  { key: 'platelets', label: 'Platelets', aliases: ['platelet', 'platelets', 'platelet count', 'plt'], unit: '10³/µL', conversions: PER_UL, defaultRange: [150, 450] },
+  { key: 'wbc', label: 'White cells (WBC)', aliases: ['wbc', 'tlc', 'total leucocyte count', 'total leukocyte count', 'white blood cell', 'white blood cells'], unit: '10³/µL', conversions: PER_UL, defaultRange: [4, 11] },
+  { key: 'ldl', label: 'LDL cholesterol', aliases: ['ldl'], unit: 'mg/dL', conversions: LIPID, defaultRange: [0, 100] },
+  { key: 'vldl', label: 'VLDL cholesterol', aliases: ['vldl'], unit: 'mg/dL', conversions: LIPID, defaultRange: [0, 30] },
+  { key: 'hdl', label: 'HDL cholesterol', aliases: ['hdl'], unit: 'mg/dL', conversions: LIPID },
+  { key: 'triglycerides', label: 'Triglycerides', aliases: ['triglycerides', 'triglyceride', 'tg'], unit: 'mg/dL', conversions: { 'mmol/l': 88.57 }, defaultRange: [0, 150] },
+  { key: 'cholesterol_total', label: 'Total cholesterol', aliases: ['total cholesterol', 'cholesterol total', 'serum cholesterol', 'cholesterol'], unit: 'mg/dL', conversions: LIPID, defaultRange: [0, 200] },
+  { key: 'creatinine', label: 'Creatinine', aliases: ['creatinine'], unit: 'mg/dL', conversions: { 'umol/l': 1 / 88.4 } },
+  { key: 'bun', label: 'Blood urea nitrogen', aliases: ['bun', 'blood urea nitrogen'], unit: 'mg/dL', conversions: { 'mmol/l': 2.801 }, defaultRange: [7, 20] },
+  { key: 'urea', label: 'Urea', aliases: ['urea', 'blood urea', 'serum urea'], unit: 'mg/dL', conversions: { 'mmol/l': 6.006 }, defaultRange: [15, 40] },
+  { key: 'uric_acid', label: 'Uric acid', aliases: ['uric acid'], unit: 'mg/dL', conversions: { 'umol/l': 1 / 59.48 } },
+  { key: 'tsh', label: 'TSH', aliases: ['tsh', 'thyroid stimulating hormone'], unit: 'mIU/L', conversions: { 'uiu/ml': 1, 'miu/l': 1, 'uu/ml': 1 }, defaultRange: [0.4, 4.5] },
+  { key: 'free_t4', label: 'Free T4', aliases: ['free t4', 'ft4', 'free thyroxine'], unit: 'ng/dL', conversions: { 'pmol/l': 1 / 12.87 }, defaultRange: [0.8, 1.8] },
+  { key: 'vitamin_d', label: 'Vitamin D', aliases: ['vitamin d', 'vit d', '25 oh vitamin d', '25 hydroxy vitamin d'], unit: 'ng/mL', conversions: { 'nmol/l': 1 / 2.496 }, defaultRange: [30, 100] },
+  { key: 'vitamin_b12', label: 'Vitamin B12', aliases: ['vitamin b12', 'vit b12', 'b12', 'cobalamin'], unit: 'pg/mL', conversions: { 'pmol/l': 1.355 }, defaultRange: [200, 900] },
+  { key: 'ferritin', label: 'Ferritin', aliases: ['ferritin'], unit: 'ng/mL', conversions: { 'ug/l': 1 } },
+  { key: 'alt', label: 'ALT (SGPT)', aliases: ['alt', 'sgpt', 'alanine aminotransferase'], unit: 'U/L', conversions: { 'iu/l': 1 } },
+  { key: 'ast', label: 'AST (SGOT)', aliases: ['ast', 'sgot', 'aspartate aminotransferase'], unit: 'U/L', conversions: { 'iu/l': 1 } },
+  { key: 'bilirubin_total', label: 'Total bilirubin', aliases: ['total bilirubin', 'bilirubin total', 'serum bilirubin'], unit: 'mg/dL', conversions: { 'umol/l': 1 / 17.1 }, defaultRange: [0.1, 1.2] },
+  { key: 'sodium', label: 'Sodium', aliases: ['sodium'], unit: 'mmol/L', conversions: { 'meq/l': 1 }, defaultRange: [135, 145] },
+  { key: 'potassium', label: 'Potassium', aliases: ['potassium'], unit: 'mmol/L', conversions: { 'meq/l': 1 }, defaultRange: [3.5, 5.1] },
+  { key: 'crp', label: 'CRP', aliases: ['crp', 'c reactive protein'], unit: 'mg/L', conversions: { 'mg/dl': 10 }, defaultRange: [0, 6] },
+  { key: 'esr', label: 'ESR', aliases: ['esr', 'erythrocyte sedimentation rate'], unit: 'mm/hr', conversions: {} },
+];
+
+function normalizeTestName(name: string): string {
+  return ` ${name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()} `;
+}
+
+/** Lowercase, ASCII spelling of a unit so "µmol/L", "umol/l" and "mcmol/L" compare equal */
+export function normalizeUnit(unit: string): string {
+  return unit
+    .toLowerCase()
+    .replace(/[µμ]/g, 'u')
+    .replace(/mc(?=g|mol)/g, 'u')
+    .replace(/\bgm\b/g, 'g')
+    .replace(/cumm|cmm|mm3|mm³|cu\.?\s?mm/g, 'ul')
+    .replace(/(x|×|\*)?\s*10\s*(\^|e)?\s*(3|³)/g, '10^3')
+    .replace(/(x|×|\*)?\s*10\s*(\^|e)?\s*(9|⁹)/g, '10^9')
+    .replace(/lakhs?/g, 'lakh')
+    .replace(/cells?/g, '')
+    .replace(/\s+/g, '');
+}
+
+/** Names that mention a catalogued test but measure something else */
+const EXCLUDED_NAME_WORDS = [
+  'ratio', 'index', 'mch', 'mchc', 'mean corpuscular', 'non hdl', 'urine', 'urinary', 'clearance', 'egfr',
+];
+
+function findTest(name: string): LabTest | null {
+  const normalized = normalizeTestName(name);
+  if (EXCLUDED_NAME_WORDS.some((w) => normalized.includes(` ${w} `))) return null;
+  return LAB_TESTS.find((t) => t.aliases.some((a) => normalized.includes(` ${a} `))) ?? null;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// ─── Normalization ───────────────────────────────────
+
+/** A value as the model read it off the report */
+export interface RawLabValue {
+  test: string;
+  value: number;
+  unit?: string | null;
+  reference_low?: number | null;
+  reference_high?: number | null;
+  flag?: string | null;
+}
+
+/**
+ * Match a raw value to the catalog and convert it (and its reference range)
+ * to the canonical unit. Reference ranges are converted with the value; the
+ * catalog's default range fills in only when the report gives none.
+ */
+export function normalizeLabValue(raw: RawLabValue, reportDate: string): LabValue | null {
+  const name = raw.test.trim().slice(0, 120);
+  if (!name || !Number.isFinite(raw.value)) return null;
+
+  const num = (v: unknown) => typeof v === 'number' && Number.isFinite(v) ? v : null;
+  let value = raw.value;
+  let low = num(raw.reference_low);
+  let high = num(raw.reference_high);
+  let unit = raw.unit?.trim() || null;
+
+  // Uncatalogued tests, and catalogued ones in a unit we can't convert, get
+  // a trend of their own per unit so values in different units never mix
+  const slug = (s: string) => s.replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+  const unitSuffix = unit ? `_${slug(normalizeUnit(unit))}` : '';
+  const test = findTest(name);
+  let key = `${slug(name.toLowerCase()) || 'test'}${unitSuffix}`;
+  let label = name;
+  let usedDefaultRange = false;
+
+  if (test && !unit) {
+    key = `${test.key}_no_unit`;
+  } else if (test && unit) {
+    const from = normalizeUnit(unit);
+    const conversion = from === normalizeUnit(test.unit) ? 1 : test.conversions[from];
+    if (conversion !== undefined) {
+      const convert = (v: number) => round(typeof conversion === 'number' ? v * conversion : conversion(v));
+      value = convert(value);
+      low = low !== null ? convert(low) : null;
+      high = high !== null ? convert(high) : null;
+      unit = test.unit;
+      key = test.key;
+      label = test.label;
+      if (low === null && high === null && test.defaultRange) {
+        [low, high] = test.defaultRange;
+        usedDefaultRange = true;
+      }
+    } else {
+      key = `${test.key}${unitSuffix}`;
+    }
+  }
+
+  // The report's own range decides; the model's flag only when there is none
+  const rawFlag = raw.flag === 'low' || raw.flag === 'high' || raw.flag === 'normal' ? raw.flag : null;
+  let flag: LabFlag | null = rawFlag;
+  if ((low !== null || high !== null) && !(usedDefaultRange && rawFlag)) {
+    flag = low !== null && value < low ? 'low' : high !== null && value > high ? 'high' : 'normal';
+  }
+
+  return {
+    test_key: key.slice(0, 80),
+    test_name: label,
+    value,
+    unit,
+    reference_low: low,
+    reference_high: high,
+    flag,
+    abnormal: flag === 'low' || flag === 'high',
+    report_date: reportDate,
+  };
+}
+
+// ─── Extraction ──────────────────────────────────────
+
+const LAB_BLOCK = /<lab_results>([\s\S]*?)<\/lab_results>/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Pull the machine-readable lab values out of a report analysis. The
+ * analysis prompt asks the model to end with
+ * `<lab_results>{"report_date", "results": [{"test", "value", "unit", "reference_low", "reference_high", "flag"}]}</lab_results>`;
+ * the block is removed from the text the patient sees. A result may carry
+ * its own report_date when a multi-page upload spans several reports, and
+ * a value repeated across pages (same test, date and amount) is kept once.
+ */
+export function extractLabResults(analysis: string): { text: string; results: LabValue[] } {
+  const match = analysis.match(LAB_BLOCK);
+  if (!match) return { text: analysis, results: [] };
+
+  const text = analysis.replace(LAB_BLOCK, '').trim();
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(match[1].trim());
+  } catch {
+    return { text, results: [] };
+  }
+  const block = parsed as { report_date?: unknown; results?: unknown } | null;
+  if (!block || !Array.isArray(block.results)) return { text, results: [] };
+
+  const today = new Date().toISOString().slice(0, 10);
+  const validDate = (value: unknown): value is string =>
+    typeof value === 'string' && DATE_PATTERN.test(value) && value <= today;
+  const reportDate = validDate(block.report_date) ? block.report_date : today;
+
+  const results: LabValue[] = [];
+  const seen = new Set<string>();
+  for (const item of block.results.slice(0, 100)) {
+    if (!item || typeof item !== 'object') continue;
+    const raw = item as Record<string, unknown>;
+    const value = typeof raw.value === 'string' ? parseFloat(raw.value) : raw.value;
+    if (typeof raw.test !== 'string' || typeof value !== 'number') continue;
+    const normalized = normalizeLabValue({
+      test: raw.test,
+      value,
+      unit: typeof raw.unit === 'string' ? raw.unit : null,
+      reference_low: raw.reference_low as number | null,
+      reference_high: raw.reference_high as number | null,
+      flag: typeof raw.flag === 'string' ? raw.flag.toLowerCase() : null,
+    }, validDate(raw.report_date) ? raw.report_date : reportDate);
+    if (!normalized) continue;
+    const key = `${normalized.test_key}:${normalized.report_date}:${normalized.value}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    results.push(normalized);
+  }
+  return { text, results };
+}
+
+// ─── Storage ─────────────────────────────────────────
+
+/**
+ * Save a report's values. Values already stored for the same test, date
+ * and amount are skipped, so uploading a report twice doesn't double its
+ * points on the trend. Returns how many were saved.
+ */
+export async function recordLabResults(
+  clerkUserId: string,
+  uploadId: string | null,
+  results: LabValue[]
+): Promise<number> {
+  const supabase = getServiceClient();
+  if (!supabase) throw new Error('Database not configured');
+  if (results.length === 0) return 0;
+
+  const { data: existing } = await supabase
+    .from('lab_results')
+    .select('test_key, value, report_date')
+    .eq('clerk_user_id', clerkUserId)
+    .in('report_date', Array.from(new Set(results.map((r) => r.report_date))));
+
+  const seen = new Set((existing || []).map((r) => `${r.test_key}:${r.report_date}:${Number(r.value)}`));
+  const rows = [];
+  for (const result of results) {
+    const key = `${result.test_key}:${result.report_date}:${result.value}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    rows.push({ ...result, clerk_user_id: clerkUserId, upload_id: uploadId });
+  }
+  if (rows.length === 0) return 0;
+
+  const { error } = await supabase.from('lab_results').insert(rows);
+  if (error) throw new Error(error.message);
+  return rows.length;
+}
+
+async function loadLabResults(clerkUserId: string, sinceDate?: string): Promise<LabResult[]> {
+  const supabase = getServiceClient();
+  if (!supabase) throw new Error('Database not configured');
+
+  let query = supabase
+    .from('lab_results')
+    .select('*')
+    .eq('clerk_user_id', clerkUserId)
+    .order('report_date', { ascending: true })
+    .limit(1000);
+  if (sinceDate) query = query.gte('report_date', sinceDate);
+
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+  return ((data || []) as LabResult[]).map((r) => ({ ...r, value: Number(r.value) }));
+}
+
+/** Every test the patient has results for, most-measured first */
+export async function listLabTrends(clerkUserId: string): Promise<LabTrend[]> {
+  const trends = new Map<string, LabTrend>();
+  for (const r of await loadLabResults(clerkUserId)) {
+    const trend = trends.get(r.test_key) ?? { test_key: r.test_key, label: r.test_name, unit: r.unit, points: [] };
+    trend.points.push({
+      value: r.value,
+      report_date: r.report_date,
+      flag: r.flag,
+      reference_low: r.reference_low,
+      reference_high: r.reference_high,
+    });
+    trends.set(r.test_key, trend);
+  }
+  return Array.from(trends.values()).sort((a, b) => b.points.length - a.points.length);
+}
+
+/**
+ * The latest value of each test within the look-back window, with the
+ * previous value for direction. Abnormal latest values come first.
+ */
+export async function latestLabValues(clerkUserId: string, days = 365) {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const byTest = new Map<string, LabResult[]>();
+  for (const r of await loadLabResults(clerkUserId, since)) {
+    byTest.set(r.test_key, [...(byTest.get(r.test_key) ?? []), r]);
+  }
+
+  const latest = Array.from(byTest.values()).map((results) => {
+    const last = results[results.length - 1];
+    const previous = results.length > 1 ? results[results.length - 2] : null;
+    return {
+      test: last.test_name,
+      value: last.value,
+      unit: last.unit,
+      flag: last.flag,
+      abnormal: last.abnormal,
+      reference_range: last.reference_low !== null || last.reference_high !== null
+        ? `${last.reference_low ?? ''}–${last.reference_high ?? ''}`
+        : null,
+      report_date: last.report_date,
+      previous: previous ? { value: previous.value, report_date: previous.report_date } : null,
+    };
+  });
+
+  return latest.sort((a, b) => Number(b.abnormal) - Number(a.abnormal) || b.report_date.localeCompare(a.report_date));
+}
@@ -0,0 +1,263 @@
+/**
+ * Server-side language identification for typed and transcribed text.
+ *
+ * The client's `language` is only a preference — patients pick Hindi and type
+ * Tamil, or leave the default and type English. identifyLanguage() looks at
+ * what was actually written:
+ *
+ *   1. Script. Each Indic script block (and Perso-Arabic, for Urdu) maps
+ *      to one language, except Devanagari (Hindi vs Marathi), which a small
+ *      function-word lexicon splits.
+ *   2. Romanized text. Latin-script words are scored against romanized
+ *      function-word lexicons ("mujhe", "hai", "enakku", "naaku") and English
+ *      stopwords, so Hinglish is told apart from English.
+ *
+ * resolveLanguage() then applies the code-mixing policy:
+ *   - Native script the patient clearly wrote in overrides the selection —
+ *     they can read it, and the model should answer in it.
+ *   - Romanized or English text only suggests a switch; many patients read
+ *     their selected script but type in Latin.
+ *   - Short or ambiguous text keeps the selection.
+ *
+ * LANGUAGE_DETECTION=suggest never overrides; LANGUAGE_DETECTION=off skips
+ * detection entirely.
+ */
+
+import { DetectedScript, Language, LanguageDetection } from '@/types';
+
+// ─── Scripts ─────────────────────────────────────────
+
+const SCRIPT_RANGES: { script: DetectedScript; from: number; to: number }[] = [
+  { script: 'devanagari', from: 0x0900, to: 0x097f },
+  { script: 'bengali', from: 0x0980, to: 0x09ff },
+  { script: 'gurmukhi', from: 0x0a00, to: 0x0a7f },
+  { script: 'gujarati', from: 0x0a80, to: 0x0aff },
+  { script: 'odia', from: 0x0b00, to: 0x0b7f },
+  { script: 'tamil', from: 0x0b80, to: 0x0bff },
+  { script: 'telugu', from: 0x0c00, to: 0x0c7f },
+  { script: 'kannada', from: 0x0c80, to: 0x0cff },
+  { script: 'malayalam', from: 0x0d00, to: 0x0d7f },
+  { script: 'arabic', from: 0x0600, to: 0x06ff },
+];
+
+/** Scripts that identify a single supported language on their own */
+const SCRIPT_LANGUAGE: Partial<Record<DetectedScript, Language>> = {
+  bengali: 'bn',
+  gurmukhi: 'pa',
+  gujarati: 'gu',
+  odia: 'or',
+  tamil: 'ta',
+  telugu: 'te',
+  kannada: 'kn',
+  malayalam: 'ml',
+  // Perso-Arabic script — Urdu is the only supported language written in it
+  arabic: 'ur',
+};
+
+function scriptOf(cp: number): DetectedScript | null {
+  if ((cp >= 0x41 && cp <= 0x5a) || (cp >= 0x61 && cp <= 0x7a)) return 'latin';
+  for (const range of SCRIPT_RANGES) {
+    if (cp >= range.from && cp <= range.to) return range.script;
+  }
+  return null;
+}
+
+// ─── Lexicons ────────────────────────────────────────
+// Function words and very common symptom words only — content words are
+// shared across languages too often to be useful.
+
+const DEVANAGARI_LEXICON: Record<'hi' | 'mr', string[]> = {
+  hi: ['है', 'हैं', 'था', 'थी', 'नहीं', 'और', 'मुझे', 'मेरा', 'मेरी', 'मेरे', 'में', 'से', 'को', 'का', 'की', 'के', 'क्या', 'रहा', 'रही', 'बहुत', 'हो', 'गया', 'दर्द', 'बुखार'],
+  mr: ['आहे', 'आहेत', 'नाही', 'आणि', 'मला', 'माझा', 'माझी', 'माझे', 'मध्ये', 'काय', 'खूप', 'झाला', 'झाले', 'दुखत', 'दुखतंय', 'ताप', 'पोटात', 'डोकं'],
+};
+
+const ROMANIZED_LEXICON: Record<Language, string[]> = {
+  en: ['the', 'is', 'am', 'are', 'was', 'i', 'my', 'me', 'have', 'has', 'had', 'and', 'with', 'since', 'for', 'it', 'of', 'a', 'an', 'to', 'in', 'from', 'feel', 'feeling', 'this', 'not', 'no', 'days', 'day', 'pain', 'very', 'what', 'should'],
+  hi: ['hai', 'hain', 'tha', 'thi', 'nahi', 'nahin', 'mujhe', 'mera', 'meri', 'mere', 'mein', 'aur', 'kya', 'raha', 'rahi', 'rahe', 'bahut', 'bohot', 'dard', 'bukhar', 'ko', 'ka', 'ki', 'ke', 'se', 'ho', 'gaya', 'gayi', 'hua', 'hui', 'kuch', 'abhi', 'pet'],
+  mr: ['aahe', 'ahe', 'aahet', 'mala', 'majha', 'majhi', 'majhe', 'aani', 'nahi', 'kay', 'zala', 'zhala', 'zale', 'dukhat', 'dukhtay', 'khup', 'hota', 'hoti', 'tap', 'potat', 'doka'],
+  ta: ['enakku', 'enaku', 'irukku', 'iruku', 'illai', 'illa', 'romba', 'vali', 'kaichal', 'enna', 'naan', 'oru', 'konjam', 'vayiru', 'thalai', 'udambu'],
+  te: ['naaku', 'naku', 'undi', 'vundi', 'ledu', 'chala', 'noppi', 'jwaram', 'emi', 'nenu', 'ela', 'kadupu', 'tala', 'vachindi'],
+  kn: ['nanage', 'ide', 'illa', 'tumba', 'novu', 'jwara', 'yenu', 'enu', 'naanu', 'hotte', 'tale', 'agide', 'aagide'],
+  bn: ['amar', 'ami', 'ache', 'achhe', 'khub', 'byatha', 'batha', 'jor', 'kore', 'korche', 'hocche', 'hochhe', 'matha', 'ki', 'pet'],
+  gu: ['mane', 'maru', 'mari', 'chhe', 'che', 'nathi', 'ane', 'dukhe', 'dukhavo', 'taav', 'tav', 'kem', 'thay', 'thai'],
+  ml: ['enikku', 'enik', 'undu', 'und', 'illa', 'valare', 'vedana', 'pani', 'thala', 'vayaru', 'njan', 'ente', 'aanu', 'ano'],
+  pa: ['mainu', 'menu', 'taap', 'vich', 'da', 'di', 'de', 'reha', 'hoya', 'hoyi', 'sanu', 'tuhanu', 'nal'],
+  or: ['mora', 'mote', 'achhi', 'achi', 'jwara', 'kasta', 'pete', 'munda', 'hauchi', 'heuchi', 'kichi'],
+  // Romanized Urdu is near-identical to Hinglish; only words Hindi speakers rarely use
+  ur: ['takleef', 'bukhaar', 'tabiyat', 'tabiyet', 'pareshani', 'zyada', 'kamzori', 'sakht', 'shadeed'],
+};
+
+/** Separate Devanagari words; \b doesn't work outside ASCII */
+const WORD = /[^\s.,!?;:।॥،۔؟"'()[\]{}\/-]+/gu;
+
+function words(text: string): string[] {
+  return Array.from(text.toLowerCase().matchAll(WORD), (m) => m[0]);
+}
+
+function countHits(tokens: string[], lexicon: string[]): number {
+  const set = new Set(lexicon);
+  return tokens.filter((t) => set.has(t)).length;
+}
+
+// ─── Identification ──────────────────────────────────
+
+/** Below this many letters the text is too short to say anything ("ok", "2 din") */
+const MIN_LETTERS = 4;
+
+/** A second script/language counts as code-mixing above this share */
+const CODE_MIX_SHARE = 0.2;
+
+/** Native-script share above which native script wins over Latin */
+const NATIVE_MIN_SHARE = 0.3;
+
+/** Lexicon hits needed before a romanized guess reaches full confidence */
+const FULL_CONFIDENCE_HITS = 3;
+
+export interface LanguageIdentification {
+  /** null when the text is too short or carries no signal */
+  language: Language | null;
+  /** 0-1 */
+  confidence: number;
+  script: DetectedScript | null;
+  codeMixed: boolean;
+  /** Latin-script text identified as an Indic language */
+  romanized: boolean;
+}
+
+const NO_SIGNAL: LanguageIdentification = {
+  language: null, confidence: 0, script: null, codeMixed: false, romanized: false,
+};
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/** Hindi vs Marathi by function words; near-ties go to the hint, then Hindi */
+function splitDevanagari(tokens: string[], hint?: Language): { language: Language; certainty: number } {
+  const hi = countHits(tokens, DEVANAGARI_LEXICON.hi);
+  const mr = countHits(tokens, DEVANAGARI_LEXICON.mr);
+  // One shared-looking word ("दर्द") shouldn't flip a Marathi speaker to Hindi
+  if (Math.abs(hi - mr) < 2 && (hint === 'hi' || hint === 'mr')) {
+    return { language: hint, certainty: 0.85 };
+  }
+  if (hi === mr) {
+    return { language: 'hi', certainty: 0.85 };
+  }
+  const language: Language = mr > hi ? 'mr' : 'hi';
+  return { language, certainty: Math.max(hi, mr) / (hi + mr) };
+}
+
+/** Score Latin words against every romanized lexicon */
+function identifyLatin(tokens: string[]): Pick<LanguageIdentification, 'language' | 'confidence' | 'codeMixed' | 'romanized'> {
+  const scores = (Object.keys(ROMANIZED_LEXICON) as Language[])
+    .map((language) => ({ language, hits: countHits(tokens, ROMANIZED_LEXICON[language]) }))
+    .sort((a, b) => b.hits - a.hits);
+
+  const [best, second] = scores;
+  if (best.hits === 0) return { language: null, confidence: 0, codeMixed: false, romanized: false };
+
+  // Romanized Indic languages share words ("nahi", "pet"), so only English
+  // vs the best Indic language counts toward the total
+  const english = scores.find((s) => s.language === 'en')!.hits;
+  const indic = scores.find((s) => s.language !== 'en')!;
+  const total = english + indic.hits;
+  const winnerShare = best.hits / Math.max(total, best.hits);
+  const ambiguity = best.language !== 'en' && second.language !== 'en' && second.hits === best.hits ? 0.5 : 1;
+
+  return {
+    language: best.language,
+    confidence: round(winnerShare * Math.min(1, best.hits / FULL_CONFIDENCE_HITS) * ambiguity),
+    codeMixed: english > 0 && indic.hits > 0 && Math.min(english, indic.hits) / total >= CODE_MIX_SHARE,
+    romanized: best.language !== 'en',
+  };
+}
+
+/**
+ * Identify the language a message is written in, independent of the
+ * client's selection. `hint` only breaks Hindi/Marathi ties.
+ */
+export function identifyLanguage(text: string, hint?: Language): LanguageIdentification {
+  const counts = new Map<DetectedScript, number>();
+  let letters = 0;
+  for (const ch of text) {
+    const script = scriptOf(ch.codePointAt(0)!);
+    if (!script) continue;
+    counts.set(script, (counts.get(script) || 0) + 1);
+    letters++;
+  }
+  if (letters < MIN_LETTERS) return NO_SIGNAL;
+
+  const ranked = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+  const native = ranked.filter(([script]) => script !== 'latin');
+  const tokens = words(text);
+
+  const codeMixed = ranked.length > 1 && ranked[1][1] / letters >= CODE_MIX_SHARE;
+
+  // Any substantial native script wins over Latin — "मुझे fever है" is Hindi
+  if (native.length > 0 && native[0][1] / letters >= NATIVE_MIN_SHARE) {
+    const [script, count] = native[0];
+    const share = count / letters;
+    const { language, certainty } = script === 'devanagari'
+      ? splitDevanagari(tokens, hint)
+      : { language: SCRIPT_LANGUAGE[script]!, certainty: 1 };
+    return {
+      language,
+      // Mixed with English still counts as native; mixed native scripts don't
+      confidence: round(certainty * (share >= 0.5 ? 1 : 0.85) * (native.length > 1 ? share : 1)),
+      script,
+      codeMixed,
+      romanized: false,
+    };
+  }
+
+  const latin = identifyLatin(tokens);
+  return { ...latin, script: 'latin', codeMixed: latin.codeMixed || codeMixed };
+}
+
+// ─── Policy ──────────────────────────────────────────
+
+/** Native-script detections at or above this replace the selected language */
+const OVERRIDE_CONFIDENCE = 0.8;
+
+/** Anything at or above this (and not overriding) is offered as a suggestion */
+const SUGGEST_CONFIDENCE = 0.5;
+
+type DetectionMode = 'override' | 'suggest' | 'off';
+
+function detectionMode(): DetectionMode {
+  const mode = process.env.LANGUAGE_DETECTION;
+  return mode === 'suggest' || mode === 'off' ? mode : 'override';
+}
+
+/**
+ * Decide which language to respond in. The selection is kept unless the
+ * message clearly says otherwise — see the policy in the header comment.
+ */
+export function resolveLanguage(
+  text: string,
+  requested: Language,
+  mode: DetectionMode = detectionMode()
+): LanguageDetection {
+  const kept = (id: LanguageIdentification): LanguageDetection => ({
+    detected: id.language,
+    confidence: id.confidence,
+    script: id.script,
+    codeMixed: id.codeMixed,
+    requested,
+    language: requested,
+    decision: 'kept',
+  });
+
+  if (mode === 'off') return kept(NO_SIGNAL);
+
+  const id = identifyLanguage(text, requested);
+  if (!id.language || id.language === requested) return kept(id);
+
+  if (mode === 'override' && !id.romanized && id.script !== 'latin' && id.confidence >= OVERRIDE_CONFIDENCE) {
+    return { ...kept(id), language: id.language, decision: 'overridden' };
+  }
+  if (id.confidence >= SUGGEST_CONFIDENCE) {
+    return { ...kept(id), decision: 'suggested' };
+  }
+  return kept(id);
+}
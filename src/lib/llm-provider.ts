@@ -0,0 +1,501 @@
+/**
+ * LLM provider abstraction — lets the triage agent loop, document analysis
+ * and period Q&A run against different model backends:
+ *   - anthropic: Claude via the Anthropic SDK (default)
+ *   - openai:    any OpenAI-compatible /chat/completions server (vLLM, llama.cpp, Ollama, ...)
+ *   - fake:      deterministic scripted replies for tests and evals
+ *
+ * Selected by LLM_PROVIDER (+ LLM_MODEL, LLM_BASE_URL, LLM_API_KEY).
+ *
+ * Requests and stream events use the Anthropic message shape — it is the
+ * richest of the supported APIs (thinking deltas + tool_use blocks), so other
+ * providers are adapted into it and the agent loop never changes. That keeps
+ * the StreamEvent contract sent to /api/triage identical across providers.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { MODEL_ID } from './constants';
+
+// ─── Types ───────────────────────────────────────────
+
+export type ProviderName = 'anthropic' | 'openai' | 'fake';
+
+export interface LLMRequest {
+  system?: string | Anthropic.TextBlockParam[];
+  messages: Anthropic.MessageParam[];
+  maxTokens: number;
+  /** Extended thinking budget; ignored by providers without thinking support */
+  thinkingBudget?: number;
+  tools?: Anthropic.Tool[];
+  /** Called once per model call with its token usage (not called by the fake provider) */
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+/** Token usage of one model call */
+export interface TokenUsage {
+  inputTokens: number;
+  /** Includes thinking tokens */
+  outputTokens: number;
+  /** Share of outputTokens spent thinking — estimated from thinking text where the API doesn't report it */
+  thinkingTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+}
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+  readonly model: string;
+  /** False when required credentials/endpoints are missing */
+  readonly configured: boolean;
+  /** Stream one model turn as Anthropic-shaped events */
+  stream(request: LLMRequest): AsyncIterable<Anthropic.MessageStreamEvent>;
+  /** Single non-streaming turn, text blocks joined. Retries transient errors. */
+  complete(request: LLMRequest): Promise<string>;
+  /** Whether an error from this provider is transient and worth retrying */
+  isRetryable(error: unknown): boolean;
+}
+
+/** One scripted model turn for the fake provider */
+export interface ScriptedTurn {
+  thinking?: string;
+  tool_calls?: { name: string; input: Record<string, unknown> }[];
+  /** Final response — objects are JSON-serialized (omit on pure tool-use turns) */
+  response?: Record<string, unknown> | string;
+}
+
+/** One scripted complete() call — the reply, or the error it threw */
+export type ScriptedCompletion = string | { error: string };
+
+/** HTTP error from a non-SDK provider, carrying the status for retry decisions */
+export class ProviderHTTPError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'ProviderHTTPError';
+  }
+}
+
+export const MAX_RETRIES = 3;
+export const RETRY_DELAYS = [1000, 2000, 4000];
+const RETRYABLE_STATUSES = [529, 500, 502, 503];
+
+function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError && error.message.includes('fetch');
+}
+
+async function withRetries<T>(fn: () => Promise<T>, isRetryable: (e: unknown) => boolean): Promise<T> {
+  let lastError: unknown = null;
+  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      lastError = error;
+      if (attempt < MAX_RETRIES - 1 && isRetryable(error)) {
+        await new Promise(resolve => setTimeout(resolve, RETRY_DELAYS[attempt] || 4000));
+        continue;
+      }
+      throw error;
+    }
+  }
+  throw lastError || new Error('LLM request failed after retries');
+}
+
+/** Rough token count for text the API doesn't count separately */
+const CHARS_PER_TOKEN = 4;
+
+function estimateTokens(chars: number): number {
+  return Math.ceil(chars / CHARS_PER_TOKEN);
+}
+
+function systemText(system: LLMRequest['system']): string {
+  if (!system) return '';
+  return typeof system === 'string' ? system : system.map(b => b.text).join('\n\n');
+}
+
+// ─── Anthropic ───────────────────────────────────────
+
+function createAnthropicProvider(model: string): LLMProvider {
+  let client: Anthropic | null = null;
+  const getClient = () => (client ??= new Anthropic());
+
+  const params = (request: LLMRequest): Anthropic.MessageStreamParams => ({
+    model,
+    max_tokens: request.maxTokens,
+    ...(request.thinkingBudget ? { thinking: { type: 'enabled', budget_tokens: request.thinkingBudget } } : {}),
+    ...(request.system ? { system: request.system } : {}),
+    messages: request.messages,
+    ...(request.tools ? { tools: request.tools } : {}),
+  });
+
+  const isRetryable = (error: unknown) =>
+    error instanceof Anthropic.APIError
+      ? RETRYABLE_STATUSES.includes(error.status as number)
+      : isNetworkError(error);
+
+  const toUsage = (usage: Partial<Anthropic.Usage>, thinkingChars: number): TokenUsage => {
+    const outputTokens = usage.output_tokens ?? 0;
+    return {
+      inputTokens: usage.input_tokens ?? 0,
+      outputTokens,
+      thinkingTokens: Math.min(outputTokens, estimateTokens(thinkingChars)),
+      cacheReadTokens: usage.cache_read_input_tokens ?? 0,
+      cacheWriteTokens: usage.cache_creation_input_tokens ?? 0,
+    };
+  };
+
+  // Input/cache counts arrive in message_start, the final output count in message_delta
+  async function* stream(request: LLMRequest): AsyncGenerator<Anthropic.MessageStreamEvent> {
+    let usage: Partial<Anthropic.Usage> = {};
+    let thinkingChars = 0;
+    for await (const event of getClient().messages.stream(params(request))) {
+      if (event.type === 'message_start') {
+        usage = { ...event.message.usage };
+      } else if (event.type === 'message_delta') {
+        usage.output_tokens = event.usage.output_tokens;
+      } else if (event.type === 'content_block_delta' && event.delta.type === 'thinking_delta') {
+        thinkingChars += event.delta.thinking.length;
+      }
+      yield event;
+    }
+    request.onUsage?.(toUsage(usage, thinkingChars));
+  }
+
+  return {
+    name: 'anthropic',
+    model,
+    configured: !!process.env.ANTHROPIC_API_KEY,
+    isRetryable,
+    stream,
+    complete: (request) =>
+      withRetries(async () => {
+        const response = await getClient().messages.create({ ...params(request), stream: false });
+        const thinkingChars = response.content
+          .reduce((n, block) => n + (block.type === 'thinking' ? block.thinking.length : 0), 0);
+        request.onUsage?.(toUsage(response.usage, thinkingChars));
+        return response.content
+          .filter((block): block is Anthropic.TextBlock => block.type === 'text')
+          .map(block => block.text)
+          .join('\n');
+      }, isRetryable),
+  };
+}
+
+// ─── OpenAI-compatible ───────────────────────────────
+
+type OpenAIMessage =
+  | { role: 'system' | 'user'; content: string | Record<string, unknown>[] }
+  | { role: 'assistant'; content: string | null; tool_calls?: { id: string; type: 'function'; function: { name: string; arguments: string } }[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+/** Translate Anthropic-shaped messages into OpenAI chat messages */
+function toOpenAIMessages(request: LLMRequest): OpenAIMessage[] {
+  const out: OpenAIMessage[] = [];
+  const system = systemText(request.system);
+  if (system) out.push({ role: 'system', content: system });
+
+  for (const msg of request.messages) {
+    if (typeof msg.content === 'string') {
+      out.push({ role: msg.role, content: msg.content } as OpenAIMessage);
+      continue;
+    }
+
+    if (msg.role === 'assistant') {
+      const text = msg.content
+        .filter((b): b is Anthropic.TextBlockParam => b.type === 'text')
+        .map(b => b.text)
+        .join('');
+      const toolCalls = msg.content
+        .filter((b): b is Anthropic.ToolUseBlockParam => b.type === 'tool_use')
+        .map(b => ({ id: b.id, type: 'function' as const, function: { name: b.name, arguments: JSON.stringify(b.input ?? {}) } }));
+      out.push({ role: 'assistant', content: text || null, ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}) });
+      continue;
+    }
+
+    const parts: Record<string, unknown>[] = [];
+    for (const block of msg.content) {
+      if (block.type === 'tool_result') {
+        const content = typeof block.content === 'string'
+          ? block.content
+          : (block.content || []).map(c => (c.type === 'text' ? c.text : '')).join('');
+        out.push({ role: 'tool', tool_call_id: block.tool_use_id, content });
+      } else if (block.type === 'text') {
+        parts.push({ type: 'text', text: block.text });
+      } else if (block.type === 'image' && block.source.type === 'base64') {
+        parts.push({ type: 'image_url', image_url: { url: `data:${block.source.media_type};base64,${block.source.data}` } });
+      } else if (block.type === 'document') {
+        throw new Error('PDF documents are not supported by the openai provider');
+      }
+    }
+    if (parts.length > 0) out.push({ role: 'user', content: parts });
+  }
+
+  return out;
+}
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  prompt_tokens_details?: { cached_tokens?: number } | null;
+  completion_tokens_details?: { reasoning_tokens?: number } | null;
+}
+
+function fromOpenAIUsage(usage: OpenAIUsage | null | undefined, reasoningChars: number): TokenUsage {
+  const outputTokens = usage?.completion_tokens ?? 0;
+  const cacheReadTokens = usage?.prompt_tokens_details?.cached_tokens ?? 0;
+  return {
+    inputTokens: (usage?.prompt_tokens ?? 0) - cacheReadTokens,
+    outputTokens,
+    thinkingTokens: usage?.completion_tokens_details?.reasoning_tokens
+      ?? Math.min(outputTokens, estimateTokens(reasoningChars)),
+    cacheReadTokens,
+    cacheWriteTokens: 0,
+  };
+}
+
+interface OpenAIStreamChunk {
+  usage?: OpenAIUsage | null;
+  choices?: {
+    delta?: {
+      content?: string | null;
+      reasoning_content?: string | null;
+      tool_calls?: { index: number; id?: string; function?: { name?: string; arguments?: string } }[];
+    };
+    finish_reason?: string | null;
+  }[];
+}
+
+const FINISH_REASONS: Record<string, Anthropic.Message['stop_reason']> = {
+  stop: 'end_turn',
+  tool_calls: 'tool_use',
+  length: 'max_tokens',
+};
+
+async function* readSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (trimmed.startsWith('data:')) yield trimmed.slice(5).trim();
+    }
+  }
+}
+
+function createOpenAICompatibleProvider(model: string): LLMProvider {
+  const baseUrl = (process.env.LLM_BASE_URL || '').replace(/\/$/, '');
+  const apiKey = process.env.LLM_API_KEY;
+
+  const post = async (body: Record<string, unknown>) => {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new ProviderHTTPError(response.status, `LLM server returned ${response.status}: ${await response.text().catch(() => '')}`);
+    }
+    return response;
+  };
+
+  const baseBody = (request: LLMRequest) => ({
+    model,
+    max_tokens: request.maxTokens,
+    messages: toOpenAIMessages(request),
+    ...(request.tools
+      ? {
+          tools: request.tools.map(t => ({
+            type: 'function',
+            function: { name: t.name, description: t.description, parameters: t.input_schema },
+          })),
+        }
+      : {}),
+  });
+
+  const isRetryable = (error: unknown) =>
+    error instanceof ProviderHTTPError ? RETRYABLE_STATUSES.includes(error.status) : isNetworkError(error);
+
+  async function* stream(request: LLMRequest): AsyncGenerator<Anthropic.MessageStreamEvent> {
+    const response = await post({ ...baseBody(request), stream: true, stream_options: { include_usage: true } });
+    if (!response.body) throw new Error('LLM server returned an empty stream');
+
+    // Map OpenAI deltas onto sequential Anthropic content blocks
+    let index = -1;
+    let open: 'thinking' | 'text' | `tool:${number}` | null = null;
+    let stopReason: Anthropic.Message['stop_reason'] = 'end_turn';
+    let usage: OpenAIUsage | null = null;
+    let reasoningChars = 0;
+
+    function* openBlock(kind: NonNullable<typeof open>, block: Anthropic.RawContentBlockStartEvent['content_block']) {
+      if (open) yield { type: 'content_block_stop' as const, index };
+      index++;
+      open = kind;
+      yield { type: 'content_block_start' as const, index, content_block: block };
+    }
+
+    for await (const data of readSSE(response.body)) {
+      if (data === '[DONE]') break;
+      let chunk: OpenAIStreamChunk;
+      try {
+        chunk = JSON.parse(data);
+      } catch {
+        continue;
+      }
+      // With include_usage, the last chunk carries usage and no choices
+      if (chunk.usage) usage = chunk.usage;
+      const choice = chunk.choices?.[0];
+      if (!choice) continue;
+      const delta = choice.delta || {};
+
+      if (delta.reasoning_content) {
+        reasoningChars += delta.reasoning_content.length;
+        if (open !== 'thinking') yield* openBlock('thinking', { type: 'thinking', thinking: '', signature: '' });
+        yield { type: 'content_block_delta', index, delta: { type: 'thinking_delta', thinking: delta.reasoning_content } };
+      }
+      if (delta.content) {
+        if (open !== 'text') yield* openBlock('text', { type: 'text', text: '', citations: null });
+        yield { type: 'content_block_delta', index, delta: { type: 'text_delta', text: delta.content } };
+      }
+      for (const call of delta.tool_calls || []) {
+        const kind = `tool:${call.index}` as const;
+        if (open !== kind) {
+          yield* openBlock(kind, {
+            type: 'tool_use',
+            id: call.id || `call_${Date.now()}_${call.index}`,
+            name: call.function?.name || '',
+            input: {},
+          });
+        }
+        if (call.function?.arguments) {
+          yield { type: 'content_block_delta', index, delta: { type: 'input_json_delta', partial_json: call.function.arguments } };
+        }
+      }
+      if (choice.finish_reason) {
+        stopReason = FINISH_REASONS[choice.finish_reason] ?? 'end_turn';
+      }
+    }
+
+    if (open) yield { type: 'content_block_stop', index };
+    const tokenUsage = fromOpenAIUsage(usage, reasoningChars);
+    yield { type: 'message_delta', delta: { stop_reason: stopReason, stop_sequence: null }, usage: { output_tokens: tokenUsage.outputTokens } };
+    yield { type: 'message_stop' };
+    request.onUsage?.(tokenUsage);
+  }
+
+  return {
+    name: 'openai',
+    model,
+    configured: !!baseUrl,
+    isRetryable,
+    stream,
+    complete: (request) =>
+      withRetries(async () => {
+        const response = await post(baseBody(request));
+        const json = await response.json();
+        const reasoning = json?.choices?.[0]?.message?.reasoning_content;
+        request.onUsage?.(fromOpenAIUsage(json?.usage, typeof reasoning === 'string' ? reasoning.length : 0));
+        return typeof json?.choices?.[0]?.message?.content === 'string' ? json.choices[0].message.content : '';
+      }, isRetryable),
+  };
+}
+
+// ─── Fake (scripted) ─────────────────────────────────
+
+/** Reply once the script runs out — validates to the safe fallback triage result */
+const FAKE_DEFAULT_RESPONSE = '{}';
+
+async function* replayTurn(turn: ScriptedTurn, turnNumber: number): AsyncGenerator<Anthropic.MessageStreamEvent> {
+  let index = 0;
+
+  if (turn.thinking) {
+    yield { type: 'content_block_start', index, content_block: { type: 'thinking', thinking: '', signature: '' } };
+    yield { type: 'content_block_delta', index, delta: { type: 'thinking_delta', thinking: turn.thinking } };
+    yield { type: 'content_block_stop', index };
+    index++;
+  }
+
+  const toolCalls = turn.tool_calls ?? [];
+  for (let i = 0; i < toolCalls.length; i++) {
+    const call = toolCalls[i];
+    yield {
+      type: 'content_block_start',
+      index,
+      content_block: { type: 'tool_use', id: `toolu_fake_${turnNumber}_${i}`, name: call.name, input: {} },
+    };
+    yield { type: 'content_block_delta', index, delta: { type: 'input_json_delta', partial_json: JSON.stringify(call.input) } };
+    yield { type: 'content_block_stop', index };
+    index++;
+  }
+
+  if (turn.response !== undefined) {
+    const text = typeof turn.response === 'string' ? turn.response : JSON.stringify(turn.response);
+    yield { type: 'content_block_start', index, content_block: { type: 'text', text: '', citations: null } };
+    yield { type: 'content_block_delta', index, delta: { type: 'text_delta', text } };
+    yield { type: 'content_block_stop', index };
+  }
+
+  yield {
+    type: 'message_delta',
+    delta: { stop_reason: toolCalls.length > 0 ? 'tool_use' : 'end_turn', stop_sequence: null },
+    usage: { output_tokens: 0 },
+  };
+  yield { type: 'message_stop' };
+}
+
+/**
+ * Deterministic provider that plays back scripted turns, one per model call.
+ * With no script (or once exhausted) every call returns FAKE_DEFAULT_RESPONSE.
+ * When `completions` is given, complete() plays those in order instead of
+ * taking the next turn.
+ */
+export function createFakeProvider(turns: ScriptedTurn[] = [], completions?: ScriptedCompletion[]): LLMProvider {
+  let cursor = 0;
+  let completionCursor = 0;
+  const next = (): ScriptedTurn => turns[cursor++] ?? { response: FAKE_DEFAULT_RESPONSE };
+
+  return {
+    name: 'fake',
+    model: 'fake',
+    configured: true,
+    isRetryable: () => false,
+    stream: () => replayTurn(next(), cursor),
+    complete: async () => {
+      if (completions) {
+        const completion = completions[completionCursor++] ?? FAKE_DEFAULT_RESPONSE;
+        if (typeof completion !== 'string') throw new Error(completion.error);
+        return completion;
+      }
+      const turn = next();
+      if (turn.response === undefined) return '';
+      return typeof turn.response === 'string' ? turn.response : JSON.stringify(turn.response);
+    },
+  };
+}
+
+// ─── Selection ───────────────────────────────────────
+
+let cachedProvider: LLMProvider | null = null;
+
+/** Provider selected by LLM_PROVIDER (default: anthropic), cached per process */
+export function getLLMProvider(): LLMProvider {
+  if (cachedProvider) return cachedProvider;
+
+  const name = (process.env.LLM_PROVIDER || 'anthropic').toLowerCase();
+  const model = process.env.LLM_MODEL;
+
+  if (name === 'openai') {
+    cachedProvider = createOpenAICompatibleProvider(model || 'default');
+  } else if (name === 'fake') {
+    cachedProvider = createFakeProvider();
+  } else {
+    cachedProvider = createAnthropicProvider(model || MODEL_ID);
+  }
+  return cachedProvider;
+}
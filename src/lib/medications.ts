@@ -0,0 +1,278 @@
+/**
+ * Medication list — what a signed-in patient takes, as structured rows.
+ *
+ * Rows come from two places:
+ *   - the patient, editing the list in their health profile (`user`)
+ *   - prescriptions analysed by /api/analyze-document (`prescription`)
+ *
+ * A medication is current until its `stopped_on` date arrives.
+ * The generic name is resolved from the local brand table when the patient
+ * or prescription gives only a brand ("Dolo 650" → paracetamol), so the
+ * interaction check in drug-interactions.ts works on whatever was entered.
+ */
+
+import { getServiceClient } from './supabase';
+import { resolveDrug } from './drug-interactions';
+
+// ─── Types ───────────────────────────────────────────
+
+export type MedicationSource = 'user' | 'prescription';
+
+export interface Medication {
+  id: string;
+  clerk_user_id: string;
+  name: string;
+  generic_name: string | null;
+  dose: string | null;
+  frequency: string | null;
+  /** YYYY-MM-DD */
+  started_on: string | null;
+  /** YYYY-MM-DD, the first day it is no longer taken — null while ongoing */
+  stopped_on: string | null;
+  source: MedicationSource;
+  created_at: string;
+  updated_at: string | null;
+}
+
+/** Editable fields — what the profile form and prescription parser provide */
+export interface MedicationInput {
+  name: string;
+  generic_name?: string | null;
+  dose?: string | null;
+  frequency?: string | null;
+  started_on?: string | null;
+  stopped_on?: string | null;
+}
+
+export type MedicationResult =
+  | { ok: true; medication: Medication }
+  | { ok: false; reason: 'not_found' | 'invalid' };
+
+const MAX_FIELD_LENGTH = 120;
+const MAX_MEDICATIONS = 50;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export function isCurrent(med: Pick<Medication, 'stopped_on'>): boolean {
+  return !med.stopped_on || med.stopped_on > today();
+}
+
+/**
+ * Validate and tidy one medication. Returns null when the name is missing,
+ * a field is too long, a date is malformed, or it stops before it starts.
+ */
+export function cleanMedication(input: Partial<MedicationInput>): MedicationInput | null {
+  const text = (value: unknown): string | null => {
+    if (typeof value !== 'string') return null;
+    const trimmed = value.trim().replace(/\s+/g, ' ');
+    return trimmed ? trimmed : null;
+  };
+  const date = (value: unknown): string | null | false => {
+    const trimmed = text(value);
+    if (!trimmed) return null;
+    return DATE_PATTERN.test(trimmed) && !isNaN(Date.parse(trimmed)) ? trimmed : false;
+  };
+
+  const name = text(input.name);
+  const startedOn = date(input.started_on);
+  const stoppedOn = date(input.stopped_on);
+  if (!name || startedOn === false || stoppedOn === false) return null;
+  if (startedOn && stoppedOn && stoppedOn < startedOn) return null;
+
+  const fields = {
+    name,
+    generic_name: text(input.generic_name) ?? (resolveDrug(name).generics.join(' + ') || null),
+    dose: text(input.dose),
+    frequency: text(input.frequency),
+  };
+  if (Object.values(fields).some((v) => v !== null && v.length > MAX_FIELD_LENGTH)) return null;
+
+  return { ...fields, started_on: startedOn, stopped_on: stoppedOn };
+}
+
+// ─── Reading ─────────────────────────────────────────
+
+/** A patient's medications — current first, then stopped, newest first within each */
+export async function listMedications(clerkUserId: string): Promise<Medication[]> {
+  const supabase = getServiceClient();
+  if (!supabase) throw new Error('Database not configured');
+
+  const { data, error } = await supabase
+    .from('medications')
+    .select('*')
+    .eq('clerk_user_id', clerkUserId)
+    .order('created_at', { ascending: false })
+    .limit(MAX_MEDICATIONS);
+  if (error) throw new Error(error.message);
+
+  const meds = (data || []) as Medication[];
+  return [...meds.filter(isCurrent), ...meds.filter((m) => !isCurrent(m))];
+}
+
+/** Current medications for the verified patient context — empty when unavailable */
+export async function loadCurrentMedications(clerkUserId: string): Promise<Medication[]> {
+  try {
+    return (await listMedications(clerkUserId)).filter(isCurrent);
+  } catch (err) {
+    console.error('[medications] Failed to load current medications:', err instanceof Error ? err.message : err);
+    return [];
+  }
+}
+
+/** One line per medication, e.g. "Telma 40 (telmisartan) — 40 mg, once daily" */
+export function describeMedication(med: Pick<Medication, 'name' | 'generic_name' | 'dose' | 'frequency'>): string {
+  const generic = med.generic_name && med.generic_name.toLowerCase() !== med.name.toLowerCase() ? ` (${med.generic_name})` : '';
+  const detail = [med.dose, med.frequency].filter(Boolean).join(', ');
+  return `${med.name}${generic}${detail ? ` — ${detail}` : ''}`;
+}
+
+// ─── Patient edits ───────────────────────────────────
+
+export async function addMedication(clerkUserId: string, input: Partial<MedicationInput>): Promise<MedicationResult> {
+  const supabase = getServiceClient();
+  if (!supabase) throw new Error('Database not configured');
+
+  const med = cleanMedication(input);
+  if (!med) return { ok: false, reason: 'invalid' };
+
+  const { data, error } = await supabase
+    .from('medications')
+    .insert({ ...med, clerk_user_id: clerkUserId, source: 'user' })
+    .select('*')
+    .single();
+  if (error) throw new Error(error.message);
+  return { ok: true, medication: data as Medication };
+}
+
+/**
+ * Update a medication. The incoming fields are merged over the stored row
+ * and validated as a whole, so stopping a medicine can't predate its start.
+ */
+export async function updateMedication(
+  medicationId: string,
+  clerkUserId: string,
+  update: Partial<MedicationInput>
+): Promise<MedicationResult> {
+  const supabase = getServiceClient();
+  if (!supabase) throw new Error('Database not configured');
+
+  const { data: existing } = await supabase
+    .from('medications')
+    .select('*')
+    .eq('id', medicationId)
+    .eq('clerk_user_id', clerkUserId)
+    .maybeSingle();
+  if (!existing) return { ok: false, reason: 'not_found' };
+
+  // A renamed medicine gets its generic name re-resolved unless one was given
+  const renamed = update.name !== undefined && update.name !== existing.name;
+  const med = cleanMedication({
+    ...existing,
+    ...(renamed && update.generic_name === undefined ? { generic_name: null } : {}),
+    ...update,
+  });
+  if (!med) return { ok: false, reason: 'invalid' };
+
+  const { data, error } = await supabase
+    .from('medications')
+    .update({ ...med, updated_at: new Date().toISOString() })
+    .eq('id', medicationId)
+    .eq('clerk_user_id', clerkUserId)
+    .select('*');
+  if (error) throw new Error(error.message);
+  if (!data || data.length === 0) return { ok: false, reason: 'not_found' };
+
+  return { ok: true, medication: data[0] as Medication };
+}
+
+/** Remove a medication entered by mistake. Returns false when there is no such row. */
+export async function deleteMedication(medicationId: string, clerkUserId: string): Promise<boolean> {
+  const supabase = getServiceClient();
+  if (!supabase) throw new Error('Database not configured');
+
+  const { data, error } = await supabase
+    .from('medications')
+    .delete()
+    .eq('id', medicationId)
+    .eq('clerk_user_id', clerkUserId)
+    .select('id');
+  if (error) throw new Error(error.message);
+  return !!data && data.length > 0;
+}
+
+// ─── Prescriptions ───────────────────────────────────
+
+const PRESCRIPTION_BLOCK = /<medications>([\s\S]*?)<\/medications>/i;
+
+/**
+ * Pull the machine-readable medication list out of a prescription analysis.
+ * The analysis prompt asks the model to end with
+ * `<medications>[{"name", "generic", "dose", "frequency", "duration_days"}]</medications>`;
+ * the block is removed from the text the patient sees.
+ */
+export function extractPrescribedMedications(analysis: string): { text: string; medications: MedicationInput[] } {
+  const match = analysis.match(PRESCRIPTION_BLOCK);
+  if (!match) return { text: analysis, medications: [] };
+
+  const text = analysis.replace(PRESCRIPTION_BLOCK, '').trim();
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(match[1].trim());
+  } catch {
+    return { text, medications: [] };
+  }
+  if (!Array.isArray(parsed)) return { text, medications: [] };
+
+  const start = today();
+  const medications: MedicationInput[] = [];
+  for (const item of parsed.slice(0, 20)) {
+    if (!item || typeof item !== 'object') continue;
+    const raw = item as Record<string, unknown>;
+    const days = typeof raw.duration_days === 'number' && raw.duration_days > 0 ? Math.round(raw.duration_days) : null;
+    const stop = days ? new Date(Date.now() + days * 86_400_000).toISOString().slice(0, 10) : null;
+    const med = cleanMedication({
+      name: raw.name as string,
+      generic_name: raw.generic as string,
+      dose: raw.dose as string,
+      frequency: raw.frequency as string,
+      started_on: start,
+      stopped_on: stop,
+    });
+    if (med) medications.push(med);
+  }
+  return { text, medications };
+}
+
+/**
+ * Add a prescription's medications to the patient's list. Medicines already
+ * current under the same name or generic are skipped, so re-uploading a
+ * prescription doesn't duplicate it. Returns the rows added.
+ */
+export async function recordPrescribedMedications(
+  clerkUserId: string,
+  medications: MedicationInput[]
+): Promise<Medication[]> {
+  const supabase = getServiceClient();
+  if (!supabase) throw new Error('Database not configured');
+  if (medications.length === 0) return [];
+
+  const current = (await listMedications(clerkUserId)).filter(isCurrent);
+  const seen = new Set(current.flatMap((m) => [m.name.toLowerCase(), m.generic_name?.toLowerCase()]).filter(Boolean));
+
+  const rows = [];
+  for (const med of medications) {
+    const keys = [med.name.toLowerCase(), med.generic_name?.toLowerCase()].filter((k): k is string => !!k);
+    if (keys.some((k) => seen.has(k))) continue;
+    keys.forEach((k) => seen.add(k));
+    rows.push({ ...med, clerk_user_id: clerkUserId, source: 'prescription' as MedicationSource });
+  }
+  if (rows.length === 0) return [];
+
+  const { data, error } = await supabase.from('medications').insert(rows).select('*');
+  if (error) throw new Error(error.message);
+  return (data || []) as Medication[];
+}
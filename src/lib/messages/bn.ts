@@ -0,0 +1,326 @@
+import type { Catalog } from '../i18n';
+
+/** Bengali */
+export const bn: Catalog = {
+  // ─── Triage ───
+  'triage.nearbyFacilities': 'এখানে আপনার কাছের হাসপাতালগুলি আছে। কোনো স্বাস্থ্য সমস্যা থাকলে বলুন।',
+  'triage.languageSuggested': 'মনে হচ্ছে আপনি {language} ভাষায় লিখছেন — সেই ভাষায় উত্তর পেতে ট্যাপ করুন',
+
+  // ─── Welcome ───
+  'welcome.greeting': 'নমস্কার! কেমন আছেন?',
+  'welcome.greetingNamed': 'নমস্কার, {name}!',
+  'welcome.subtitle': 'আপনার উপসর্গগুলি বলুন — সঠিক চিকিৎসার দিকে আমরা আপনাকে গাইড করব।',
+  'welcome.quickStart1': 'মাথাব্যথা',
+  'welcome.quickStart2': 'জ্বর এবং কাশি',
+  'welcome.quickStart3': 'পেটে ব্যথা',
+
+  // ─── Post-result follow-ups ───
+  'postResult.tellMore': 'আরও বলুন',
+  'postResult.feelingNow': 'এখন কেমন লাগছে',
+  'postResult.precautions': 'আরও সতর্কতা',
+
+  // ─── Report upload ───
+  'upload.button': 'রিপোর্ট আপলোড',
+  'upload.analyzing': 'বিশ্লেষণ...',
+  'upload.medicationsAdded': 'আপনার ওষুধের তালিকায় {count}টি ওষুধ যোগ করা হয়েছে',
+  'upload.labResultsSaved': '{count}টি ল্যাব মান রিপোর্টে আপনার ট্রেন্ডে সংরক্ষিত হয়েছে',
+  'upload.setLinked': '{count}টি ফাইল একসাথে বিশ্লেষণ করা হয়েছে — আপনি এই চ্যাটে এগুলি নিয়ে প্রশ্ন করতে পারেন',
+  'upload.tooManyFiles': 'একবারে সর্বোচ্চ {max}টি ফাইল বেছে নিন।',
+  'upload.tooLarge': 'ফাইলগুলি খুব বড় — প্রতিটি {fileMb}MB পর্যন্ত এবং সব মিলিয়ে {setMb}MB পর্যন্ত।',
+  'upload.failed': 'নথি বিশ্লেষণ করা যায়নি। আবার চেষ্টা করুন।',
+
+  // ─── Sign-up prompt ───
+  'signUp.title': 'আপনার স্বাস্থ্য ট্র্যাক করুন',
+  'signUp.subtitle': 'বিনামূল্যে অ্যাকাউন্ট তৈরি করুন — আপনার স্বাস্থ্য প্রোফাইল সেভ করুন।',
+  'signUp.cta': 'সাইন আপ করুন',
+  'signUp.later': 'পরে',
+  'signUp.profile': 'প্রোফাইল সম্পূর্ণ করুন',
+
+  // ─── Voice mode ───
+  'voice.idle': 'বলতে ট্যাপ করুন',
+  'voice.listening': 'শুনছি...',
+  'voice.transcribing': 'বুঝছি...',
+  'voice.thinking': 'ভাবছি...',
+  'voice.speaking': 'বলছি...',
+  'voice.notUnderstood': 'বুঝতে পারিনি। আবার বলুন বা টাইপ করুন।',
+
+  // ─── Voice acknowledgments — ~3 seconds of speech each ───
+  'voice.ack.generic': 'আমি শুনছি। আপনার উপসর্গগুলি দেখছি।',
+  'voice.ack.head': 'আপনার মাথাব্যথা বুঝতে পারছি। আমি দেখছি।',
+  'voice.ack.fever': 'আপনার জ্বর আছে। আমি মূল্যায়ন করছি।',
+  'voice.ack.chest': 'বুকের উপসর্গ বুঝতে পারছি। এখনই দেখছি।',
+  'voice.ack.stomach': 'পেটের সমস্যা বুঝতে পারছি। আমি দেখছি।',
+  'voice.ack.breathing': 'শ্বাসকষ্টের কথা বুঝতে পারছি। সতর্কভাবে দেখছি।',
+  'voice.ack.pain': 'আপনার ব্যথা বুঝতে পারছি। উপসর্গগুলি দেখছি।',
+  'voice.ack.child': 'শিশুর বিষয়। সতর্কভাবে দেখছি।',
+
+  // ─── Symptom fast-path follow-ups ───
+  'pattern.fever.question': 'কতদিন ধরে জ্বর আছে?',
+  'pattern.fever.option1.label': 'আজ থেকে',
+  'pattern.fever.option1.value': 'আজ থেকে জ্বর',
+  'pattern.fever.option2.label': '১-২ দিন',
+  'pattern.fever.option2.value': '১-২ দিন ধরে জ্বর',
+  'pattern.fever.option3.label': '৩-৫ দিন',
+  'pattern.fever.option3.value': '৩-৫ দিন ধরে জ্বর',
+  'pattern.fever.option4.label': '৫ দিনের বেশি',
+  'pattern.fever.option4.value': '৫ দিনের বেশি জ্বর',
+  'pattern.headache.question': 'এটা কি আপনার জীবনের সবচেয়ে খারাপ মাথাব্যথা, না সাধারণত যেরকম হয়?',
+  'pattern.headache.option1.label': 'সবচেয়ে খারাপ',
+  'pattern.headache.option1.value': 'এটা আমার জীবনের সবচেয়ে খারাপ হঠাৎ মাথাব্যথা',
+  'pattern.headache.option2.label': 'স্বাভাবিক',
+  'pattern.headache.option2.value': 'আমার সাধারণত যেমন হয় তেমনই',
+  'pattern.headache.option3.label': 'জ্বরসহ',
+  'pattern.headache.option3.value': 'মাথাব্যথার সাথে জ্বরও আছে',
+  'pattern.headache.option4.label': 'জানি না',
+  'pattern.headache.option4.value': 'আমি নিশ্চিত নই',
+  'pattern.cough.question': 'কতদিন ধরে কাশি আছে? কফে রক্ত আসছে কি?',
+  'pattern.cough.option1.label': 'কয়েকদিন',
+  'pattern.cough.option1.value': 'কয়েকদিন ধরে কাশি, রক্ত নেই',
+  'pattern.cough.option2.label': '১-২ সপ্তাহ',
+  'pattern.cough.option2.value': '১-২ সপ্তাহ ধরে কাশি',
+  'pattern.cough.option3.label': '২ সপ্তাহের বেশি',
+  'pattern.cough.option3.value': '২ সপ্তাহের বেশি কাশি',
+  'pattern.cough.option4.label': 'রক্ত আসছে',
+  'pattern.cough.option4.value': 'কফে রক্ত আসছে',
+  'pattern.stomach_pain.question': 'ব্যথা কোথায় — উপরে, নিচে, বাম দিকে, ডান দিকে?',
+  'pattern.stomach_pain.option1.label': 'উপরে মাঝখানে',
+  'pattern.stomach_pain.option1.value': 'পেটের উপরে মাঝখানে ব্যথা',
+  'pattern.stomach_pain.option2.label': 'নিচে ডানদিকে',
+  'pattern.stomach_pain.option2.value': 'পেটের নিচে ডানদিকে ব্যথা',
+  'pattern.stomach_pain.option3.label': 'সব জায়গায়',
+  'pattern.stomach_pain.option3.value': 'পুরো পেটে ব্যথা',
+  'pattern.stomach_pain.option4.label': 'জানি না',
+  'pattern.stomach_pain.option4.value': 'আমি বুঝতে পারছি না ঠিক কোথায় ব্যথা',
+  'pattern.diarrhea.question': 'আজ কতবার হয়েছে? পায়খানায় রক্ত বা শ্লেষ্মা আসছে কি?',
+  'pattern.diarrhea.option1.label': '২-৩ বার',
+  'pattern.diarrhea.option1.value': 'আজ ২-৩ বার পাতলা পায়খানা',
+  'pattern.diarrhea.option2.label': '৪-৬ বার',
+  'pattern.diarrhea.option2.value': 'আজ ৪-৬ বার পাতলা পায়খানা',
+  'pattern.diarrhea.option3.label': '৬ বারের বেশি',
+  'pattern.diarrhea.option3.value': 'আজ ৬ বারের বেশি পাতলা পায়খানা',
+  'pattern.diarrhea.option4.label': 'রক্ত আসছে',
+  'pattern.diarrhea.option4.value': 'পায়খানায় রক্ত বা শ্লেষ্মা আসছে',
+  'pattern.period_issues.question': 'পিরিয়ড কতদিন দেরি হয়েছে? ওজন বেড়েছে কি বা মুখে অতিরিক্ত লোম বা ব্রণ হচ্ছে কি?',
+  'pattern.period_issues.option1.label': 'কয়েকদিন দেরি',
+  'pattern.period_issues.option1.value': 'পিরিয়ড কয়েকদিন দেরি হয়েছে',
+  'pattern.period_issues.option2.label': '২ সপ্তাহের বেশি',
+  'pattern.period_issues.option2.value': 'পিরিয়ড ২ সপ্তাহের বেশি দেরি',
+  'pattern.period_issues.option3.label': 'অনিয়মিত + ওজন',
+  'pattern.period_issues.option3.value': 'পিরিয়ড অনিয়মিত এবং ওজন বেড়েছে',
+  'pattern.period_issues.option4.label': 'বেশি/ব্যথা',
+  'pattern.period_issues.option4.value': 'পিরিয়ড খুব বেশি এবং ব্যথাযুক্ত',
+  'pattern.body_ache.question': 'জ্বরও আছে কি? ব্যথা গাঁটে নাকি সারা শরীরে?',
+  'pattern.body_ache.option1.label': 'জ্বর + ব্যথা',
+  'pattern.body_ache.option1.value': 'জ্বরের সাথে সারা শরীরে ব্যথা',
+  'pattern.body_ache.option2.label': 'শুধু গাঁটে',
+  'pattern.body_ache.option2.value': 'শুধু গাঁটে ব্যথা, জ্বর নেই',
+  'pattern.body_ache.option3.label': 'দুর্বলতা/ক্লান্তি',
+  'pattern.body_ache.option3.value': 'খুব দুর্বল এবং ক্লান্ত লাগছে',
+  'pattern.body_ache.option4.label': 'ব্যায়ামের পরে',
+  'pattern.body_ache.option4.value': 'শারীরিক পরিশ্রমের পরে ব্যথা শুরু হয়েছে',
+  'pattern.breathing.question': 'শ্বাসকষ্ট বিশ্রামে হয় নাকি শুধু কাজ করার সময়? হঠাৎ শুরু হয়েছে?',
+  'pattern.breathing.option1.label': 'বিশ্রামে',
+  'pattern.breathing.option1.value': 'কিছু না করেও শ্বাসকষ্ট হচ্ছে',
+  'pattern.breathing.option2.label': 'কাজ করলে',
+  'pattern.breathing.option2.value': 'হাঁটলে বা সিঁড়ি উঠলে শ্বাসকষ্ট হয়',
+  'pattern.breathing.option3.label': 'ব্যায়ামের পরে',
+  'pattern.breathing.option3.value': 'দৌড়ানোর পরে শ্বাসকষ্ট, বিশ্রামে ভালো হয়ে যায়',
+  'pattern.breathing.option4.label': 'হঠাৎ',
+  'pattern.breathing.option4.value': 'শ্বাসকষ্ট হঠাৎ করে শুরু হয়েছে',
+  'pattern.skin.question': 'ফুসকুড়ি কি গোলাকার? পরিবারে আর কারও আছে কি?',
+  'pattern.skin.option1.label': 'গোলাকার ফুসকুড়ি',
+  'pattern.skin.option1.value': 'গোলাকার ফুসকুড়ি, মাঝখানে পরিষ্কার, খুব চুলকানি',
+  'pattern.skin.option2.label': 'সব জায়গায় চুলকানি',
+  'pattern.skin.option2.value': 'সারা শরীরে চুলকানি, রাতে বেশি',
+  'pattern.skin.option3.label': 'ব্রণ',
+  'pattern.skin.option3.value': 'মুখে ব্রণ আছে',
+  'pattern.skin.option4.label': 'অন্য সমস্যা',
+  'pattern.skin.option4.value': 'অন্য কোনো ত্বকের সমস্যা আছে',
+  'pattern.cold_flu.question': 'কতদিন ধরে আছে? জ্বর বা শরীর ব্যথাও আছে কি?',
+  'pattern.cold_flu.option1.label': '১-৩ দিন',
+  'pattern.cold_flu.option1.value': '১-৩ দিন ধরে সর্দি, শুধু নাক দিয়ে পানি পড়ছে',
+  'pattern.cold_flu.option2.label': 'জ্বরসহ',
+  'pattern.cold_flu.option2.value': 'সর্দির সাথে জ্বর এবং শরীর ব্যথা',
+  'pattern.cold_flu.option3.label': 'এক সপ্তাহের বেশি',
+  'pattern.cold_flu.option3.value': 'এক সপ্তাহের বেশি ধরে সর্দি',
+  'pattern.cold_flu.option4.label': 'বাড়ছে',
+  'pattern.cold_flu.option4.value': 'সর্দি আগে হালকা ছিল কিন্তু এখন বাড়ছে',
+
+  // ─── Period health ───
+  'period.headerTitle': 'পিরিয়ড স্বাস্থ্য',
+  'period.headerTitleAlly': 'পিরিয়ড স্বাস্থ্য সচেতনতা',
+  'period.headerSubtitle': 'AI-চালিত ঋতু স্বাস্থ্য',
+  'period.headerSubtitleAlly': 'আপনার জীবনের নারীদের সহায়তা করুন',
+  'period.history': 'ইতিহাস',
+  'period.dashboard': 'ড্যাশবোর্ড',
+  'period.signInTitle': 'পিরিয়ড স্বাস্থ্য দেখতে সাইন ইন করুন',
+  'period.signInDesc': 'আপনার স্বাস্থ্য তথ্য ব্যক্তিগত এবং শুধুমাত্র আপনি দেখতে পারবেন।',
+  'period.backToSehat': 'সেহতে ফিরে যান',
+  'period.retry': 'আবার চেষ্টা করুন',
+  'period.allyHeroTitle': 'তার পাশে দাঁড়ান',
+  'period.allyHeroDesc': 'ভারতে 71% কিশোরী মেয়ে তাদের প্রথম পিরিয়ডের আগে এটি সম্পর্কে জানে না। আপনি এটি পরিবর্তন করতে পারেন — শিখে, বুঝে এবং সহায়তা করে।',
+  'period.eduCard1Title': 'মাসিক কী?',
+  'period.eduCard1Body': 'মাসিক (পিরিয়ড) হলো একটি প্রাকৃতিক মাসিক প্রক্রিয়া যেখানে জরায়ু তার আস্তরণ ত্যাগ করে। এটি সাধারণত 3-7 দিন স্থায়ী হয় এবং প্রতি 21-35 দিনে হয়। এটি রোগ, দুর্বলতা বা অপবিত্রতা নয় — এটি সুস্বাস্থ্যের লক্ষণ।',
+  'period.eduCard2Title': 'আপনি কীভাবে সাহায্য করতে পারেন?',
+  'period.eduCard2Body': 'লজ্জা ছাড়াই স্যানিটারি পণ্য কিনুন। ব্যথার জন্য গরম পানির বোতল দিন। ঠাট্টা করবেন না। প্রয়োজনে জায়গা দিন। জিজ্ঞাসা করুন "আমি কীভাবে সাহায্য করতে পারি?"',
+  'period.eduCard3Title': 'ভুল ধারণা দূর করুন',
+  'period.eduCard3Body': 'পিরিয়ডের সময় মহিলারা রান্না করতে পারেন, মন্দিরে যেতে পারেন, আচার ছুঁতে পারেন — এসব নিষেধের কোনো বৈজ্ঞানিক ভিত্তি নেই। পিরিয়ডের রক্ত "অপবিত্র" নয় — এটি আপনার শিরায় বহমান একই রক্ত।',
+  'period.eduCard4Title': 'ডাক্তারের কাছে কখন যেতে হবে',
+  'period.eduCard4Body': 'অত্যধিক রক্তপাত (প্রতি 1-2 ঘণ্টায় প্যাড বদলানো), দৈনন্দিন কাজে বাধা দেওয়ার মতো তীব্র ব্যথা, 3+ মাস পিরিয়ড না হওয়া, বা মাঝে মাঝে স্পটিং — গাইনোকোলজিস্ট দেখাতে বলুন।',
+  'period.quickFacts': 'গুরুত্বপূর্ণ তথ্য',
+  'period.fact1': 'পিরিয়ড সাধারণত 3-7 দিন থাকে এবং প্রতি 21-35 দিনে হয়',
+  'period.fact2': 'খিঁচুনি, মেজাজ পরিবর্তন ও ক্লান্তি স্বাভাবিক — "ড্রামা" নয়',
+  'period.fact3': 'একজন নারী তার জীবনে ~10,000-15,000 প্যাড ব্যবহার করেন — পিরিয়ড পণ্য প্রয়োজনীয়, বিলাসিতা নয়',
+  'period.fact4': 'PCOS ভারতে প্রতি 5 জন নারীর মধ্যে 1 জনকে প্রভাবিত করে — এর জন্য সচেতনতা দরকার, লজ্জা নয়',
+  'period.fact5': 'পিরিয়ড নিয়ে খোলামেলা কথা বলা পরবর্তী প্রজন্মকে সুস্থ করে তোলে',
+  'period.ctaShare': 'এই পেজটি প্রয়োজনীয় কারো সাথে শেয়ার করুন',
+  'period.ctaBreak': 'নিষেধাজ্ঞা ভাঙা একটি কথোপকথন দিয়ে শুরু হয়। আপনি এইমাত্র শুরু করলেন।',
+  'period.cycleOverview': 'চক্র সারসংক্ষেপ',
+  'period.cyclesLogged': '{count} চক্র রেকর্ড',
+  'period.avgCycleDays': 'গড় চক্র (দিন)',
+  'period.avgPeriodDays': 'গড় পিরিয়ড (দিন)',
+  'period.daysLate': 'দিন দেরি',
+  'period.daysUntilNext': 'পরবর্তী পর্যন্ত দিন',
+  'period.nextPeriod': 'পরবর্তী পিরিয়ড',
+  'period.logPeriod': 'পিরিয়ড রেকর্ড করুন',
+  'period.logYourPeriod': 'আপনার পিরিয়ড রেকর্ড করুন',
+  'period.startDate': 'শুরুর তারিখ',
+  'period.periodLength': 'পিরিয়ডের দৈর্ঘ্য (দিন)',
+  'period.flowLevel': 'প্রবাহের মাত্রা',
+  'period.flowLight': 'হালকা',
+  'period.flowMedium': 'মাঝারি',
+  'period.flowHeavy': 'ভারী',
+  'period.symptoms': 'উপসর্গ',
+  'period.mood': 'মেজাজ',
+  'period.notesOpt': 'নোট (ঐচ্ছিক)',
+  'period.save': 'সংরক্ষণ করুন',
+  'period.saving': 'সংরক্ষণ হচ্ছে...',
+  'period.cycleHistory': 'চক্র ইতিহাস',
+  'period.days': '{count} দিন',
+  'period.flow': 'প্রবাহ',
+  'period.dayCycle': '{count} দিন চক্র',
+  'period.emptyTitle': 'আপনার চক্র ট্র্যাক করা শুরু করুন',
+  'period.emptyDesc': 'আপনার পিরিয়ড রেকর্ড করুন — ব্যক্তিগত পূর্বাভাস, স্বাস্থ্য তথ্য এবং রিমাইন্ডার পান।',
+  'period.askTitle': 'পিরিয়ড স্বাস্থ্য সম্পর্কে জিজ্ঞাসা করুন',
+  'period.askTitleAlly': 'মাসিক স্বাস্থ্য সম্পর্কে জিজ্ঞাসা করুন',
+  'period.askDesc': 'পিরিয়ড, চক্র স্বাস্থ্য, পরিচ্ছন্নতা, PCOS, বা ঋতু স্বাস্থ্য সম্পর্কে যেকোনো কিছু জিজ্ঞাসা করুন — আপনার ভাষায়।',
+  'period.askDescAlly': 'মাসিক স্বাস্থ্য সম্পর্কে যেকোনো কিছু জিজ্ঞাসা করুন — পিরিয়ড বুঝুন, ভুল ধারণা দূর করুন, সহায়ক হতে শিখুন।',
+  'period.askPlaceholder': 'আপনার প্রশ্ন জিজ্ঞাসা করুন...',
+  'period.askBtn': 'জিজ্ঞাসা',
+  'period.thinking': 'ভাবছে...',
+  'period.aiDisclaimer': 'AI উত্তর — চিকিৎসা পরামর্শের জন্য ডাক্তারের সাথে যোগাযোগ করুন',
+  'period.sCramps': 'খিঁচুনি',
+  'period.sHeadache': 'মাথাব্যথা',
+  'period.sBackPain': 'পিঠে ব্যথা',
+  'period.sBloating': 'পেট ফোলা',
+  'period.sFatigue': 'ক্লান্তি',
+  'period.sMoodSwings': 'মেজাজ পরিবর্তন',
+  'period.sAcne': 'ব্রণ',
+  'period.sBreast': 'স্তনে ব্যথা',
+  'period.sNausea': 'বমি ভাব',
+  'period.sCravings': 'খাবারের তীব্র ইচ্ছা',
+  'period.mHappy': 'খুশি',
+  'period.mCalm': 'শান্ত',
+  'period.mAnxious': 'উদ্বিগ্ন',
+  'period.mSad': 'দুঃখিত',
+  'period.mIrritable': 'বিরক্ত',
+  'period.mEnergetic': 'প্রাণবন্ত',
+  'period.mTired': 'ক্লান্ত',
+  'period.footerAlly': 'জ্ঞানই শক্তি। মাসিক স্বাস্থ্যে নীরবতা ভাঙুন।',
+  'period.deleteConfirm': 'আপনি কি এই চক্রটি মুছে ফেলতে চান?',
+  'period.footerTracker': 'আপনার পিরিয়ড ডেটা ব্যক্তিগত। এটি চিকিৎসা নির্ণয় নয়।',
+  'period.allyQuestion1': 'পিরিয়ড সম্পর্কে আমার কী জানা উচিত?',
+  'period.allyQuestion2': 'আমি কীভাবে আমার বোন/স্ত্রীকে সাহায্য করতে পারি?',
+  'period.allyQuestion3': 'পিরিয়ড সম্পর্কে ভুল ধারণাগুলো কী?',
+  'period.selfQuestion1': 'পিরিয়ডের ব্যথা প্রাকৃতিকভাবে কমানোর উপায়',
+  'period.selfQuestion2': 'PCOS কী?',
+  'period.selfQuestion3': 'পিরিয়ডে কী খাওয়া উচিত',
+
+  // ─── Follow-up check reminders ───
+  'followup.reminder': 'সেহত চেক-ইন: এখন কেমন বোধ করছেন — আগের চেয়ে ভালো, একই রকম, নাকি আরও খারাপ?',
+  'followup.reminderLink': 'এখানে উত্তর দিন: {url}',
+  'followup.emailSubject': 'কেমন বোধ করছেন? — সেহত চেক-ইন',
+
+  // ─── Follow-up inbox ───
+  'followup.pageTitle': 'চেক-ইন',
+  'followup.sectionDue': 'এখন করার',
+  'followup.sectionUpcoming': 'আসন্ন',
+  'followup.sectionPast': 'আগের',
+  'followup.checkAt': '{date} তারিখে চেক-ইন',
+  'followup.escalation': 'এমন হলে সঙ্গে সঙ্গে চিকিৎসা নিন: {criteria}',
+  'followup.question': 'এখন কেমন বোধ করছেন?',
+  'followup.better': 'ভালো',
+  'followup.same': 'একই রকম',
+  'followup.worse': 'আরও খারাপ',
+  'followup.dismiss': 'সরান',
+  'followup.continue': 'কথোপকথন চালিয়ে যান',
+  'followup.statusCompleted': 'উত্তর দেওয়া হয়েছে',
+  'followup.statusEscalated': 'খারাপ হয়েছে',
+  'followup.statusDismissed': 'সরানো হয়েছে',
+  'followup.empty': 'এখনও কোনো চেক-ইন নেই। কোনো উপসর্গ নিয়ে পরে আপনার খবর নিতে চাইলে সেহত একটি চেক-ইন ঠিক করবে।',
+  'followup.signIn': 'আপনার চেক-ইন দেখতে সাইন ইন করুন',
+  'followup.loadError': 'আপনার চেক-ইন লোড করা যায়নি',
+  'followup.answerError': 'আপনার উত্তর সেভ করা যায়নি। আবার চেষ্টা করুন।',
+  'followup.checkInBanner': 'ফলো-আপ চেক-ইন: {reason}',
+
+  // ─── Emergency guide ───
+  'emergency.title': 'জরুরি অবস্থা',
+  'emergency.intro': 'এটি জরুরি অবস্থা। এখনই {number} নম্বরে ফোন করুন — লাল বোতামটি চাপুন। সাহায্য না আসা পর্যন্ত আমি আপনাকে ধাপে ধাপে বলে দেব।',
+  'emergency.call': 'এখনই {number} নম্বরে ফোন করুন',
+  'emergency.ambulance': 'অ্যাম্বুলেন্স: {number}',
+  'emergency.stepOf': 'ধাপ {current} / {total}',
+  'emergency.next': 'পরের',
+  'emergency.repeat': 'আবার',
+  'emergency.back': 'আগের',
+  'emergency.sayNext': 'হয়ে গেলে "হয়ে গেছে" বলুন, অথবা পরের চাপুন',
+  'emergency.sayBreathing': '"শ্বাস আছে" বা "শ্বাস নেই" বলুন, অথবা একটি বোতাম চাপুন',
+  'emergency.breathing': 'শ্বাস নিচ্ছেন',
+  'emergency.startCpr': 'শ্বাস নিচ্ছে না? CPR শুরু করুন',
+  'emergency.pushWithBeat': 'তালের সঙ্গে চাপ দিন',
+  'emergency.pauseBeat': 'তাল থামান',
+  'emergency.resumeBeat': 'তাল আবার চালু করুন',
+  'emergency.fromAssessment': 'আপনার মূল্যায়ন থেকে',
+  'emergency.finished': 'এই ছিল সব ধাপ। সাহায্য না আসা পর্যন্ত তাঁর পাশে থাকুন এবং তাঁর শ্বাসের দিকে নজর রাখুন।',
+  'emergency.close': 'গাইড বন্ধ করুন',
+  'emergency.cpr.title': 'সিপিআর (CPR)',
+  'emergency.cpr.check': 'তাঁর কাঁধে টোকা দিয়ে জোরে ডাকুন। তিনি কি স্বাভাবিকভাবে শ্বাস নিচ্ছেন? "শ্বাস আছে" বা "শ্বাস নেই" বলুন।',
+  'emergency.cpr.position': 'তাঁকে শক্ত জায়গায় চিত করে সোজা শোয়ান এবং বুকের পাশে হাঁটু গেড়ে বসুন।',
+  'emergency.cpr.hands': 'এক হাতের তালুর নিচের অংশ বুকের মাঝখানে রাখুন, অন্য হাতটি তার উপরে রাখুন। হাত সোজা রাখুন।',
+  'emergency.cpr.compress': 'প্রতিটি তালে জোরে ও দ্রুত প্রায় 5 সেন্টিমিটার নিচে চাপ দিন। 30 পর্যন্ত গুনে আবার শুরু করুন। সাহায্য না আসা পর্যন্ত থামবেন না।',
+  'emergency.recovery.title': 'রিকভারি পজিশন',
+  'emergency.recovery.side': 'তাঁর পাশে হাঁটু গেড়ে বসুন। দূরের হাঁটুটি ভাঁজ করে টেনে তাঁকে আপনার দিকে পাশ ফিরিয়ে দিন।',
+  'emergency.recovery.airway': 'মাথা আলতো করে পিছনে হেলিয়ে মুখ নিচের দিকে রাখুন, যাতে শ্বাস চলে এবং মুখের ভিতরের জিনিস বেরিয়ে যায়।',
+  'emergency.recovery.watch': 'তাঁর পাশে থাকুন এবং শ্বাস দেখতে থাকুন। শ্বাস বন্ধ হলে "শ্বাস নেই" বলুন অথবা CPR শুরু করুন চাপুন।',
+  'emergency.choking.title': 'গলায় আটকে যাওয়া',
+  'emergency.choking.cough': 'কাশতে বা কথা বলতে পারলে তাঁকে কাশতে দিন। এখনই পিঠে মারবেন না।',
+  'emergency.choking.backBlows': 'শ্বাস নিতে বা কথা বলতে না পারলে তাঁকে সামনে ঝুঁকিয়ে, তালুর নিচের অংশ দিয়ে দুই কাঁধের মাঝখানে 5 বার জোরে মারুন।',
+  'emergency.choking.thrusts': 'তারপর তাঁর পিছনে দাঁড়িয়ে নাভির ঠিক উপরে মুঠি রাখুন এবং 5 বার জোরে ভিতরে ও উপরের দিকে টানুন। পিঠে মারা আর পেটে চাপ পালা করে চালিয়ে যান।',
+  'emergency.choking.unconscious': 'তিনি অজ্ঞান হয়ে গেলে চিত করে শুইয়ে CPR শুরু করুন।',
+  'emergency.snakebite.title': 'সাপের কামড়',
+  'emergency.snakebite.calm': 'মানুষটিকে শান্ত রাখুন এবং স্থির করে শুইয়ে রাখুন। নড়াচড়া করলে বিষ দ্রুত ছড়ায়।',
+  'emergency.snakebite.immobilize': 'কামড়ানো হাত বা পা স্প্লিন্টের মতো স্থির রাখুন, হৃৎপিণ্ডের চেয়ে নিচে। আংটি, চুড়ি, ঘড়ি আর আঁটসাঁট পোশাক খুলে ফেলুন।',
+  'emergency.snakebite.dont': 'কামড়ের জায়গা কাটবেন না, চুষবেন না, শক্ত করে বাঁধবেন না, আর বরফ বা জড়িবুটি লাগাবেন না।',
+  'emergency.snakebite.transport': 'তাঁকে বহন করে এমন হাসপাতালে নিয়ে যান যেখানে অ্যান্টি-ভেনম আছে। হাঁটতে দেবেন না। কামড়ের সময় লিখে রাখুন।',
+  'emergency.stroke.title': 'স্ট্রোক — FAST পরীক্ষা',
+  'emergency.stroke.face': 'মুখ (F): হাসতে বলুন। মুখের একদিক কি ঝুলে পড়ছে?',
+  'emergency.stroke.arms': 'হাত (A): দুই হাত তুলতে বলুন। একটা হাত কি নিচে নেমে যাচ্ছে?',
+  'emergency.stroke.speech': 'কথা (S): একটা সহজ বাক্য আবার বলতে বলুন। কথা কি জড়িয়ে যাচ্ছে বা অদ্ভুত শোনাচ্ছে?',
+  'emergency.stroke.time': 'সময় (T): এর কোনোটা দেখলে শুরুর সময় লিখে রাখুন এবং এখনই হাসপাতালে নিয়ে যান। খাবার, জল বা ওষুধ দেবেন না।',
+  'emergency.seizure.title': 'খিঁচুনি',
+  'emergency.seizure.clear': 'শক্ত আর ধারালো জিনিস তাঁর কাছ থেকে সরিয়ে দিন। তাঁকে জোর করে চেপে ধরবেন না।',
+  'emergency.seizure.head': 'মাথার নিচে নরম কিছু দিন। মুখে কিছু দেবেন না — চামচও না, জলও না।',
+  'emergency.seizure.side': 'কাঁপুনি থামলে তাঁকে পাশ ফিরিয়ে শোয়ান এবং দেখুন শ্বাস নিচ্ছেন কি না।',
+  'emergency.seizure.time': 'কতক্ষণ চলছে খেয়াল রাখুন। 5 মিনিটের বেশি খিঁচুনি হলে তা জরুরি অবস্থা।',
+  'emergency.bleeding.title': 'প্রচুর রক্তপাত',
+  'emergency.bleeding.press': 'পরিষ্কার কাপড় দিয়ে ক্ষতের উপর জোরে চাপ দিন। দেখার জন্য কাপড় তুলবেন না।',
+  'emergency.bleeding.more': 'রক্ত কাপড় ভিজিয়ে বেরিয়ে এলে উপরে আরও কাপড় দিয়ে চাপ দিতে থাকুন।',
+  'emergency.bleeding.raise': 'তাঁকে শুইয়ে রাখুন এবং পারলে আঘাতের জায়গাটা হৃৎপিণ্ডের উপরে তুলে ধরুন।',
+  'emergency.chest.title': 'বুকে ব্যথা',
+  'emergency.chest.rest': 'কিছুতে হেলান দিয়ে বসে বিশ্রাম নিতে সাহায্য করুন। আঁটসাঁট পোশাক ঢিলে করুন।',
+  'emergency.chest.nothing': 'তাঁকে হাঁটাচলা করতে দেবেন না। খাওয়া বা পান করার কিছু দেবেন না, আর ব্যথা কখন শুরু হয়েছে লিখে রাখুন।',
+  'emergency.chest.watch': 'তাঁর পাশে থাকুন। তিনি পড়ে গিয়ে স্বাভাবিক শ্বাস বন্ধ হয়ে গেলে CPR বোতাম চেপে CPR শুরু করুন।',
+  'emergency.general.title': 'প্রাথমিক চিকিৎসা',
+  'emergency.general.safe': 'আপনি আর ওই মানুষটি নিরাপদ আছেন কি না নিশ্চিত করুন। তাঁকে শুইয়ে স্থির রাখুন।',
+  'emergency.general.breathing': 'তিনি শ্বাস নিচ্ছেন কি না দেখুন। না নিলে CPR বোতাম চেপে CPR শুরু করুন।',
+  'emergency.general.wait': 'তাঁর পাশে থাকুন এবং তাঁকে গরম রাখুন। সাহায্য না আসা পর্যন্ত খাওয়া বা পান করার কিছু দেবেন না।',
+};
@@ -0,0 +1,329 @@
+import type { Message } from '../i18n';
+
+/**
+ * English — the source catalog. Keys are defined here; every other catalog
+ * translates a subset of them and falls back to these strings for the rest.
+ */
+export const en = {
+  // ─── Triage ───
+  'triage.nearbyFacilities': 'Here are healthcare facilities near you. Let me know if you have any health concerns.',
+  'triage.languageSuggested': 'Looks like you\'re writing in {language} — tap to reply in it',
+
+  // ─── Welcome ───
+  'welcome.greeting': 'Hello! How are you feeling?',
+  'welcome.greetingNamed': 'Hello, {name}!',
+  'welcome.subtitle': 'Tell us your symptoms — we\'ll help you understand the severity and guide you to the right care.',
+  'welcome.quickStart1': 'Headache',
+  'welcome.quickStart2': 'Fever and cough',
+  'welcome.quickStart3': 'Stomach pain',
+
+  // ─── Post-result follow-ups ───
+  'postResult.tellMore': 'Tell me more',
+  'postResult.feelingNow': 'How I feel now',
+  'postResult.precautions': 'More precautions',
+
+  // ─── Report upload ───
+  'upload.button': 'Upload report',
+  'upload.analyzing': 'Analyzing...',
+  'upload.medicationsAdded': { one: 'Added {count} medicine to your medication list', other: 'Added {count} medicines to your medication list' },
+  'upload.labResultsSaved': { one: 'Saved {count} lab value to your trends in Reports', other: 'Saved {count} lab values to your trends in Reports' },
+  'upload.setLinked': 'Analyzed {count} files together — you can ask about them in this chat',
+  'upload.tooManyFiles': 'Please choose at most {max} files at a time.',
+  'upload.tooLarge': 'Files are too large — up to {fileMb}MB each and {setMb}MB together.',
+  'upload.failed': 'Failed to analyze document. Please try again.',
+
+  // ─── Sign-up prompt ───
+  'signUp.title': 'Track your health',
+  'signUp.subtitle': 'Create a free account to save your health profile and get personalized guidance.',
+  'signUp.cta': 'Sign up free',
+  'signUp.later': 'Maybe later',
+  'signUp.profile': 'Complete Profile',
+
+  // ─── Voice mode ───
+  'voice.idle': 'Tap to speak',
+  'voice.listening': 'Listening...',
+  'voice.transcribing': 'Processing...',
+  'voice.thinking': 'Thinking...',
+  'voice.speaking': 'Speaking...',
+  'voice.notUnderstood': 'Could not understand. Try again or type instead.',
+
+  // ─── Voice acknowledgments — ~3 seconds of speech each ───
+  'voice.ack.generic': 'I\'m listening. Let me assess your symptoms.',
+  'voice.ack.head': 'I hear you\'re having head pain. Let me look into this.',
+  'voice.ack.fever': 'You mentioned fever. Let me evaluate this for you.',
+  'voice.ack.chest': 'You\'re describing chest symptoms. Let me assess this right away.',
+  'voice.ack.stomach': 'I understand you have stomach trouble. Let me check this.',
+  'voice.ack.breathing': 'You mentioned breathing issues. Let me assess this carefully.',
+  'voice.ack.pain': 'I hear you\'re in pain. Let me evaluate your symptoms.',
+  'voice.ack.child': 'I understand this is about a child. Let me assess carefully.',
+
+  // ─── Symptom fast-path follow-ups ───
+  'pattern.fever.question': 'How many days have you had this fever?',
+  'pattern.fever.option1.label': 'Since today',
+  'pattern.fever.option1.value': 'Fever started today',
+  'pattern.fever.option2.label': '1-2 days',
+  'pattern.fever.option2.value': 'Fever for 1-2 days',
+  'pattern.fever.option3.label': '3-5 days',
+  'pattern.fever.option3.value': 'Fever for 3-5 days',
+  'pattern.fever.option4.label': 'More than 5 days',
+  'pattern.fever.option4.value': 'Fever for more than 5 days',
+  'pattern.headache.question': 'Is this the worst headache you\'ve ever had, or does it feel like your usual headaches?',
+  'pattern.headache.option1.label': 'Worst ever',
+  'pattern.headache.option1.value': 'This is the worst headache I have ever had, sudden and severe',
+  'pattern.headache.option2.label': 'Usual type',
+  'pattern.headache.option2.value': 'This feels like my usual headaches',
+  'pattern.headache.option3.label': 'With fever',
+  'pattern.headache.option3.value': 'I have a headache along with fever',
+  'pattern.headache.option4.label': 'Not sure',
+  'pattern.headache.option4.value': 'I am not sure how to compare it',
+  'pattern.cough.question': 'How long have you been coughing? Is there blood in the sputum?',
+  'pattern.cough.option1.label': 'Few days, no blood',
+  'pattern.cough.option1.value': 'Cough for a few days, no blood in sputum',
+  'pattern.cough.option2.label': '1-2 weeks',
+  'pattern.cough.option2.value': 'Cough for 1-2 weeks',
+  'pattern.cough.option3.label': 'Over 2 weeks',
+  'pattern.cough.option3.value': 'Cough for more than 2 weeks',
+  'pattern.cough.option4.label': 'Blood in sputum',
+  'pattern.cough.option4.value': 'There is blood in my sputum when I cough',
+  'pattern.stomach_pain.question': 'Where exactly is the pain — upper, lower, left side, or right side?',
+  'pattern.stomach_pain.option1.label': 'Upper middle',
+  'pattern.stomach_pain.option1.value': 'Pain in upper middle abdomen',
+  'pattern.stomach_pain.option2.label': 'Lower right',
+  'pattern.stomach_pain.option2.value': 'Pain in lower right side of abdomen',
+  'pattern.stomach_pain.option3.label': 'All over',
+  'pattern.stomach_pain.option3.value': 'Pain all over the abdomen',
+  'pattern.stomach_pain.option4.label': 'Not sure',
+  'pattern.stomach_pain.option4.value': 'I cannot pinpoint where the pain is',
+  'pattern.diarrhea.question': 'How many times today? Is there blood or mucus in the stool?',
+  'pattern.diarrhea.option1.label': '2-3 times',
+  'pattern.diarrhea.option1.value': 'Loose motions 2-3 times today',
+  'pattern.diarrhea.option2.label': '4-6 times',
+  'pattern.diarrhea.option2.value': 'Loose motions 4-6 times today',
+  'pattern.diarrhea.option3.label': 'More than 6',
+  'pattern.diarrhea.option3.value': 'Loose motions more than 6 times today',
+  'pattern.diarrhea.option4.label': 'Blood in stool',
+  'pattern.diarrhea.option4.value': 'There is blood or mucus in the stool',
+  'pattern.period_issues.question': 'How many days has your period been delayed? Have you gained weight or noticed excess facial hair or acne?',
+  'pattern.period_issues.option1.label': 'Few days late',
+  'pattern.period_issues.option1.value': 'Period is a few days late',
+  'pattern.period_issues.option2.label': 'Over 2 weeks late',
+  'pattern.period_issues.option2.value': 'Period is more than 2 weeks late',
+  'pattern.period_issues.option3.label': 'Irregular + weight gain',
+  'pattern.period_issues.option3.value': 'Periods are irregular and I have gained weight',
+  'pattern.period_issues.option4.label': 'Heavy/painful',
+  'pattern.period_issues.option4.value': 'My periods are very heavy and painful',
+  'pattern.body_ache.question': 'Do you also have fever? Is the pain in your joints or all over?',
+  'pattern.body_ache.option1.label': 'Fever + body ache',
+  'pattern.body_ache.option1.value': 'I have fever along with body ache all over',
+  'pattern.body_ache.option2.label': 'Joint pain only',
+  'pattern.body_ache.option2.value': 'Pain is mainly in my joints, no fever',
+  'pattern.body_ache.option3.label': 'Weakness/tired',
+  'pattern.body_ache.option3.value': 'I feel very weak and tired, no specific pain',
+  'pattern.body_ache.option4.label': 'After exercise',
+  'pattern.body_ache.option4.value': 'Body ache started after physical activity or exercise',
+  'pattern.breathing.question': 'Does the breathlessness happen at rest or only during activity? Did it start suddenly?',
+  'pattern.breathing.option1.label': 'At rest',
+  'pattern.breathing.option1.value': 'Breathlessness happens even at rest without any activity',
+  'pattern.breathing.option2.label': 'During activity',
+  'pattern.breathing.option2.value': 'Breathlessness only during physical activity like walking or climbing stairs',
+  'pattern.breathing.option3.label': 'After exercise',
+  'pattern.breathing.option3.value': 'Breathlessness after running or exercise, gets better with rest',
+  'pattern.breathing.option4.label': 'Sudden onset',
+  'pattern.breathing.option4.value': 'Breathing difficulty started suddenly out of nowhere',
+  'pattern.skin.question': 'Is the rash ring-shaped? Is anyone else in your family also affected?',
+  'pattern.skin.option1.label': 'Ring-shaped rash',
+  'pattern.skin.option1.value': 'The rash is ring-shaped with clear center, very itchy',
+  'pattern.skin.option2.label': 'Itching everywhere',
+  'pattern.skin.option2.value': 'Itching all over the body, worse at night',
+  'pattern.skin.option3.label': 'Pimples/acne',
+  'pattern.skin.option3.value': 'I have pimples or acne on my face',
+  'pattern.skin.option4.label': 'Other skin issue',
+  'pattern.skin.option4.value': 'I have some other skin problem',
+  'pattern.cold_flu.question': 'How many days have you had this? Do you also have fever or body ache?',
+  'pattern.cold_flu.option1.label': '1-3 days, mild',
+  'pattern.cold_flu.option1.value': 'Cold for 1-3 days, just runny nose and sneezing',
+  'pattern.cold_flu.option2.label': 'With fever',
+  'pattern.cold_flu.option2.value': 'Cold with fever and body ache',
+  'pattern.cold_flu.option3.label': 'Over a week',
+  'pattern.cold_flu.option3.value': 'Cold symptoms for more than a week',
+  'pattern.cold_flu.option4.label': 'Getting worse',
+  'pattern.cold_flu.option4.value': 'Cold started mild but is getting worse',
+
+  // ─── Period health ───
+  'period.headerTitle': 'Period Health',
+  'period.headerTitleAlly': 'Period Health Awareness',
+  'period.headerSubtitle': 'AI-powered menstrual wellness',
+  'period.headerSubtitleAlly': 'Learn to support the women in your life',
+  'period.history': 'History',
+  'period.dashboard': 'Dashboard',
+  'period.signInTitle': 'Sign in to access period health',
+  'period.signInDesc': 'Your health data is private and only visible to you.',
+  'period.backToSehat': 'Back to Sehat',
+  'period.retry': 'Retry',
+  'period.allyHeroTitle': 'Be Her Ally',
+  'period.allyHeroDesc': '71% of adolescent girls in India don\'t know about menstruation before their first period. You can change this — by learning, understanding, and supporting the women around you.',
+  'period.eduCard1Title': 'What is menstruation?',
+  'period.eduCard1Body': 'Menstruation (periods) is a natural monthly process where the uterus sheds its lining. It typically lasts 3-7 days and happens every 21-35 days. It is NOT a disease, weakness, or impurity — it is a sign of good health.',
+  'period.eduCard2Title': 'How can you help?',
+  'period.eduCard2Body': 'Buy sanitary products without embarrassment. Offer a hot water bottle for cramps. Don\'t make jokes or faces. Give space when needed. Ask "How can I help?" — just like you would for any health matter.',
+  'period.eduCard3Title': 'Myths to unlearn',
+  'period.eduCard3Body': 'Women on periods can cook, enter temples, touch pickles, and do everything else — these restrictions have no scientific basis. Period blood is not "dirty" — it\'s the same blood that flows in your veins.',
+  'period.eduCard4Title': 'When to encourage a doctor visit',
+  'period.eduCard4Body': 'If she has very heavy bleeding (changing pad every 1-2 hours), severe pain that prevents daily activities, periods missing for 3+ months, or spotting between periods — encourage visiting a gynecologist.',
+  'period.quickFacts': 'Quick Facts',
+  'period.fact1': 'Average period lasts 3-7 days and happens every 21-35 days',
+  'period.fact2': 'Cramps, mood changes, and fatigue are normal — not "drama"',
+  'period.fact3': 'A woman uses ~10,000-15,000 pads in her lifetime — period products are essential, not luxury',
+  'period.fact4': 'PCOS affects 1 in 5 Indian women — it needs awareness, not shame',
+  'period.fact5': 'Talking about periods openly helps the next generation grow up healthier',
+  'period.ctaShare': 'Share this page with someone who could use it',
+  'period.ctaBreak': 'Breaking the taboo starts with one conversation. You just started yours.',
+  'period.cycleOverview': 'Cycle Overview',
+  'period.cyclesLogged': { one: '{count} cycle logged', other: '{count} cycles logged' },
+  'period.avgCycleDays': 'Avg Cycle (days)',
+  'period.avgPeriodDays': 'Avg Period (days)',
+  'period.daysLate': 'Days late',
+  'period.daysUntilNext': 'Days until next',
+  'period.nextPeriod': 'Next period',
+  'period.logPeriod': 'Log Period',
+  'period.logYourPeriod': 'Log Your Period',
+  'period.startDate': 'Start Date',
+  'period.periodLength': 'Period Length (days)',
+  'period.flowLevel': 'Flow Level',
+  'period.flowLight': 'Light',
+  'period.flowMedium': 'Medium',
+  'period.flowHeavy': 'Heavy',
+  'period.symptoms': 'Symptoms',
+  'period.mood': 'Mood',
+  'period.notesOpt': 'Notes (optional)',
+  'period.save': 'Save',
+  'period.saving': 'Saving...',
+  'period.cycleHistory': 'Cycle History',
+  'period.days': { one: '{count} day', other: '{count} days' },
+  'period.flow': 'flow',
+  'period.dayCycle': '{count}-day cycle',
+  'period.emptyTitle': 'Start tracking your cycle',
+  'period.emptyDesc': 'Log your periods to get personalized predictions, health insights, and reminders — all in your language.',
+  'period.askTitle': 'Ask About Period Health',
+  'period.askTitleAlly': 'Ask About Menstrual Health',
+  'period.askDesc': 'Ask anything about periods, cycle health, hygiene, PCOS, or menstrual wellness — in your language.',
+  'period.askDescAlly': 'Ask anything about menstrual health — understand periods, bust myths, learn how to be supportive — in your language.',
+  'period.askPlaceholder': 'Ask your question...',
+  'period.askBtn': 'Ask',
+  'period.thinking': 'Thinking...',
+  'period.aiDisclaimer': 'AI response — consult a doctor for medical advice',
+  'period.sCramps': 'Cramps',
+  'period.sHeadache': 'Headache',
+  'period.sBackPain': 'Back pain',
+  'period.sBloating': 'Bloating',
+  'period.sFatigue': 'Fatigue',
+  'period.sMoodSwings': 'Mood swings',
+  'period.sAcne': 'Acne',
+  'period.sBreast': 'Breast tenderness',
+  'period.sNausea': 'Nausea',
+  'period.sCravings': 'Cravings',
+  'period.mHappy': 'Happy',
+  'period.mCalm': 'Calm',
+  'period.mAnxious': 'Anxious',
+  'period.mSad': 'Sad',
+  'period.mIrritable': 'Irritable',
+  'period.mEnergetic': 'Energetic',
+  'period.mTired': 'Tired',
+  'period.footerAlly': 'Knowledge is power. Break the silence around menstrual health.',
+  'period.deleteConfirm': 'Delete this cycle entry?',
+  'period.footerTracker': 'Your period data is private and visible only to you. Not a medical diagnosis.',
+  'period.allyQuestion1': 'What should I know about periods?',
+  'period.allyQuestion2': 'How can I support my sister/wife during periods?',
+  'period.allyQuestion3': 'What are common myths about periods?',
+  'period.selfQuestion1': 'How to reduce period pain naturally',
+  'period.selfQuestion2': 'What is PCOS?',
+  'period.selfQuestion3': 'What to eat during periods',
+
+  // ─── Follow-up check reminders ───
+  'followup.reminder': 'Sehat check-in: How are you feeling now — better, the same, or worse?',
+  'followup.reminderLink': 'Answer here: {url}',
+  'followup.emailSubject': 'How are you feeling? — Sehat check-in',
+
+  // ─── Follow-up inbox ───
+  'followup.pageTitle': 'Check-ins',
+  'followup.sectionDue': 'Due now',
+  'followup.sectionUpcoming': 'Upcoming',
+  'followup.sectionPast': 'Past',
+  'followup.checkAt': 'Check-in on {date}',
+  'followup.escalation': 'Get care right away if: {criteria}',
+  'followup.question': 'How are you feeling now?',
+  'followup.better': 'Better',
+  'followup.same': 'Same',
+  'followup.worse': 'Worse',
+  'followup.dismiss': 'Dismiss',
+  'followup.continue': 'Continue chat',
+  'followup.statusCompleted': 'Answered',
+  'followup.statusEscalated': 'Felt worse',
+  'followup.statusDismissed': 'Dismissed',
+  'followup.empty': 'No check-ins yet. Sehat schedules one when it wants to hear back from you about a symptom.',
+  'followup.signIn': 'Sign in to see your check-ins',
+  'followup.loadError': 'Could not load your check-ins',
+  'followup.answerError': 'Could not save your answer. Please try again.',
+  'followup.checkInBanner': 'Follow-up check-in: {reason}',
+
+  // ─── Emergency guide ───
+  'emergency.title': 'Emergency',
+  'emergency.intro': 'This is an emergency. Call {number} now — tap the red button. I will guide you step by step until help arrives.',
+  'emergency.call': 'Call {number} now',
+  'emergency.ambulance': 'Ambulance: {number}',
+  'emergency.stepOf': 'Step {current} of {total}',
+  'emergency.next': 'Next',
+  'emergency.repeat': 'Repeat',
+  'emergency.back': 'Back',
+  'emergency.sayNext': 'Say "done" when ready, or tap Next',
+  'emergency.sayBreathing': 'Say "breathing" or "not breathing", or tap a button',
+  'emergency.breathing': 'They\'re breathing',
+  'emergency.startCpr': 'Not breathing? Start CPR',
+  'emergency.pushWithBeat': 'Push with the beat',
+  'emergency.pauseBeat': 'Pause beat',
+  'emergency.resumeBeat': 'Resume beat',
+  'emergency.fromAssessment': 'From your assessment',
+  'emergency.finished': 'Those are all the steps. Stay with them and keep watching their breathing until help arrives.',
+  'emergency.close': 'Close guide',
+  'emergency.cpr.title': 'CPR',
+  'emergency.cpr.check': 'Tap their shoulders and shout. Are they breathing normally? Say "breathing" or "not breathing".',
+  'emergency.cpr.position': 'Lay them flat on their back on a firm surface and kneel beside their chest.',
+  'emergency.cpr.hands': 'Put the heel of one hand in the centre of the chest and the other hand on top. Keep your arms straight.',
+  'emergency.cpr.compress': 'Push down hard and fast, about 5 centimetres, with every beat. Count to 30 and start again. Do not stop until help arrives.',
+  'emergency.recovery.title': 'Recovery position',
+  'emergency.recovery.side': 'Kneel beside them. Bend the far knee up, then pull on it to roll them towards you onto their side.',
+  'emergency.recovery.airway': 'Tilt their head back gently with the mouth pointing down, so they can breathe and anything in the mouth can drain out.',
+  'emergency.recovery.watch': 'Stay with them and keep checking their breathing. If it stops, say "not breathing" or tap Start CPR.',
+  'emergency.choking.title': 'Choking',
+  'emergency.choking.cough': 'If they can cough or speak, let them keep coughing. Do not hit their back yet.',
+  'emergency.choking.backBlows': 'If they cannot breathe or speak, lean them forward and give 5 firm blows between the shoulder blades with the heel of your hand.',
+  'emergency.choking.thrusts': 'Then stand behind them, put a fist just above the navel, and pull sharply in and up 5 times. Keep repeating back blows and thrusts.',
+  'emergency.choking.unconscious': 'If they become unconscious, lay them on their back and start CPR.',
+  'emergency.snakebite.title': 'Snakebite',
+  'emergency.snakebite.calm': 'Keep the person calm and lying still. Moving makes the venom spread faster.',
+  'emergency.snakebite.immobilize': 'Keep the bitten arm or leg still, like in a splint, below heart level. Remove rings, bangles, watches and tight clothes.',
+  'emergency.snakebite.dont': 'Do not cut the bite, suck it, tie a tight band, or put ice or herbs on it.',
+  'emergency.snakebite.transport': 'Carry them to a hospital that has anti-venom. Do not let them walk. Note the time of the bite.',
+  'emergency.stroke.title': 'Stroke — FAST check',
+  'emergency.stroke.face': 'F for face: ask them to smile. Is one side of the face drooping?',
+  'emergency.stroke.arms': 'A for arms: ask them to raise both arms. Does one arm drift down?',
+  'emergency.stroke.speech': 'S for speech: ask them to repeat a simple sentence. Is it slurred or strange?',
+  'emergency.stroke.time': 'T for time: if you saw any of these, note the time it started and get them to a hospital now. Give no food, water or medicine.',
+  'emergency.seizure.title': 'Seizure',
+  'emergency.seizure.clear': 'Move hard and sharp things away from them. Do not hold them down.',
+  'emergency.seizure.head': 'Put something soft under their head. Put nothing in their mouth — not a spoon, not water.',
+  'emergency.seizure.side': 'When the shaking stops, roll them onto their side and check they are breathing.',
+  'emergency.seizure.time': 'Note how long it lasts. Shaking for more than 5 minutes is an emergency.',
+  'emergency.bleeding.title': 'Severe bleeding',
+  'emergency.bleeding.press': 'Press hard on the wound with a clean cloth. Do not lift it to check.',
+  'emergency.bleeding.more': 'If blood soaks through, put more cloth on top and keep pressing.',
+  'emergency.bleeding.raise': 'Keep them lying down and, if you can, raise the injured part above the heart.',
+  'emergency.chest.title': 'Chest pain',
+  'emergency.chest.rest': 'Help them sit down and rest, leaning back against something. Loosen tight clothes.',
+  'emergency.chest.nothing': 'Do not let them walk around. Give nothing to eat or drink, and note when the pain started.',
+  'emergency.chest.watch': 'Stay with them. If they collapse and stop breathing normally, tap the CPR button to start CPR.',
+  'emergency.general.title': 'First aid',
+  'emergency.general.safe': 'Make sure you and the person are safe. Keep them lying down and still.',
+  'emergency.general.breathing': 'Check that they are breathing. If they are not, tap the CPR button to start CPR.',
+  'emergency.general.wait': 'Stay with them and keep them warm. Give nothing to eat or drink until help arrives.',
+} satisfies Record<string, Message>;
@@ -0,0 +1,326 @@
+import type { Catalog } from '../i18n';
+
+/** Gujarati */
+export const gu: Catalog = {
+  // ─── Triage ───
+  'triage.nearbyFacilities': 'અહીં તમારી નજીકની હોસ્પિટલો અને ક્લિનિક છે. કોઈ સ્વાસ્થ્ય સમસ્યા હોય તો જણાવો.',
+  'triage.languageSuggested': 'લાગે છે કે તમે {language}માં લખી રહ્યા છો — તેમાં જવાબ મેળવવા ટૅપ કરો',
+
+  // ─── Welcome ───
+  'welcome.greeting': 'નમસ્તે! તમે કેમ છો?',
+  'welcome.greetingNamed': 'નમસ્તે, {name}!',
+  'welcome.subtitle': 'તમારા લક્ષણો જણાવો — યોગ્ય સારવાર સુધી પહોંચવામાં અમે તમારી મદદ કરીશું.',
+  'welcome.quickStart1': 'માથાનો દુખાવો',
+  'welcome.quickStart2': 'તાવ અને ઉધરસ',
+  'welcome.quickStart3': 'પેટમાં દુખાવો',
+
+  // ─── Post-result follow-ups ───
+  'postResult.tellMore': 'વધુ જણાવો',
+  'postResult.feelingNow': 'હવે કેવું લાગે છે',
+  'postResult.precautions': 'વધુ સાવચેતી',
+
+  // ─── Report upload ───
+  'upload.button': 'રિપોર્ટ અપલોડ કરો',
+  'upload.analyzing': 'વિશ્લેષણ...',
+  'upload.medicationsAdded': { one: 'તમારી દવાઓની યાદીમાં {count} દવા ઉમેરાઈ', other: 'તમારી દવાઓની યાદીમાં {count} દવાઓ ઉમેરાઈ' },
+  'upload.labResultsSaved': { one: '{count} લેબ મૂલ્ય રિપોર્ટ્સમાં તમારા ટ્રેન્ડમાં સાચવ્યું', other: '{count} લેબ મૂલ્યો રિપોર્ટ્સમાં તમારા ટ્રેન્ડમાં સાચવ્યા' },
+  'upload.setLinked': '{count} ફાઇલોનું એકસાથે વિશ્લેષણ કર્યું — તમે આ ચેટમાં તેના વિશે પૂછી શકો છો',
+  'upload.tooManyFiles': 'એક સમયે વધુમાં વધુ {max} ફાઇલો પસંદ કરો.',
+  'upload.tooLarge': 'ફાઇલો ખૂબ મોટી છે — દરેક {fileMb}MB સુધી અને કુલ {setMb}MB સુધી.',
+  'upload.failed': 'દસ્તાવેજનું વિશ્લેષણ થઈ શક્યું નહીં. કૃપા કરીને ફરી પ્રયાસ કરો.',
+
+  // ─── Sign-up prompt ───
+  'signUp.title': 'તમારા સ્વાસ્થ્યને ટ્રૅક કરો',
+  'signUp.subtitle': 'મફત એકાઉન્ટ બનાવો — તમારી સ્વાસ્થ્ય પ્રોફાઇલ સાચવો.',
+  'signUp.cta': 'સાઇન અપ કરો',
+  'signUp.later': 'પછી',
+  'signUp.profile': 'પ્રોફાઇલ પૂર્ણ કરો',
+
+  // ─── Voice mode ───
+  'voice.idle': 'બોલવા માટે ટૅપ કરો',
+  'voice.listening': 'સાંભળી રહ્યા છીએ...',
+  'voice.transcribing': 'સમજી રહ્યા છીએ...',
+  'voice.thinking': 'વિચારી રહ્યા છીએ...',
+  'voice.speaking': 'બોલી રહ્યા છીએ...',
+  'voice.notUnderstood': 'સમજાયું નહીં. ફરી બોલો અથવા ટાઇપ કરો.',
+
+  // ─── Voice acknowledgments — ~3 seconds of speech each ───
+  'voice.ack.generic': 'હું સાંભળું છું. તમારા લક્ષણો જોઉં છું.',
+  'voice.ack.head': 'તમારા માથાના દુખાવા વિશે સમજાયું. હું જોઉં છું.',
+  'voice.ack.fever': 'તમને તાવ છે. હું તેનું મૂલ્યાંકન કરું છું.',
+  'voice.ack.chest': 'છાતીની તકલીફ વિશે સમજાયું. હું તરત જોઉં છું.',
+  'voice.ack.stomach': 'પેટની તકલીફ વિશે સમજાયું. હું જોઉં છું.',
+  'voice.ack.breathing': 'શ્વાસની તકલીફ વિશે સમજાયું. હું ધ્યાનથી જોઉં છું.',
+  'voice.ack.pain': 'તમને દુખાવો છે. હું તમારા લક્ષણો જોઉં છું.',
+  'voice.ack.child': 'બાળકની વાત છે. હું ધ્યાનથી જોઉં છું.',
+
+  // ─── Symptom fast-path follow-ups ───
+  'pattern.fever.question': 'કેટલા દિવસથી તાવ છે?',
+  'pattern.fever.option1.label': 'આજથી',
+  'pattern.fever.option1.value': 'આજથી તાવ છે',
+  'pattern.fever.option2.label': '1-2 દિવસ',
+  'pattern.fever.option2.value': '1-2 દિવસથી તાવ છે',
+  'pattern.fever.option3.label': '3-5 દિવસ',
+  'pattern.fever.option3.value': '3-5 દિવસથી તાવ છે',
+  'pattern.fever.option4.label': '5 દિવસથી વધુ',
+  'pattern.fever.option4.value': '5 દિવસથી વધુ તાવ છે',
+  'pattern.headache.question': 'શું આ તમારા જીવનનો સૌથી ખરાબ માથાનો દુખાવો છે, કે હંમેશા જેવો જ છે?',
+  'pattern.headache.option1.label': 'સૌથી ખરાબ',
+  'pattern.headache.option1.value': 'આ અત્યાર સુધીનો સૌથી તીવ્ર અને અચાનક માથાનો દુખાવો છે',
+  'pattern.headache.option2.label': 'હંમેશા જેવો',
+  'pattern.headache.option2.value': 'આ હંમેશા થાય છે તેવો જ માથાનો દુખાવો છે',
+  'pattern.headache.option3.label': 'તાવ સાથે',
+  'pattern.headache.option3.value': 'માથાના દુખાવા સાથે તાવ પણ છે',
+  'pattern.headache.option4.label': 'ખબર નથી',
+  'pattern.headache.option4.value': 'મને ચોક્કસ ખબર નથી',
+  'pattern.cough.question': 'કેટલા દિવસથી ઉધરસ છે? શું કફમાં લોહી આવે છે?',
+  'pattern.cough.option1.label': 'થોડા દિવસ',
+  'pattern.cough.option1.value': 'થોડા દિવસથી ઉધરસ છે, કફમાં લોહી નથી',
+  'pattern.cough.option2.label': '1-2 અઠવાડિયા',
+  'pattern.cough.option2.value': '1-2 અઠવાડિયાથી ઉધરસ છે',
+  'pattern.cough.option3.label': '2 અઠવાડિયાથી વધુ',
+  'pattern.cough.option3.value': '2 અઠવાડિયાથી વધુ ઉધરસ છે',
+  'pattern.cough.option4.label': 'લોહી આવે છે',
+  'pattern.cough.option4.value': 'કફમાં લોહી આવે છે',
+  'pattern.stomach_pain.question': 'દુખાવો બરાબર ક્યાં છે — ઉપર, નીચે, ડાબી બાજુ કે જમણી બાજુ?',
+  'pattern.stomach_pain.option1.label': 'ઉપર વચ્ચે',
+  'pattern.stomach_pain.option1.value': 'પેટના ઉપરના વચ્ચેના ભાગમાં દુખાવો',
+  'pattern.stomach_pain.option2.label': 'નીચે જમણે',
+  'pattern.stomach_pain.option2.value': 'પેટના નીચેના જમણા ભાગમાં દુખાવો',
+  'pattern.stomach_pain.option3.label': 'આખા પેટમાં',
+  'pattern.stomach_pain.option3.value': 'આખા પેટમાં દુખાવો',
+  'pattern.stomach_pain.option4.label': 'ખબર નથી',
+  'pattern.stomach_pain.option4.value': 'દુખાવો ક્યાં છે તે ચોક્કસ કહી શકતો નથી',
+  'pattern.diarrhea.question': 'આજે કેટલી વાર થયા? શું ઝાડામાં લોહી કે ચીકાશ છે?',
+  'pattern.diarrhea.option1.label': '2-3 વાર',
+  'pattern.diarrhea.option1.value': 'આજે 2-3 વાર ઝાડા થયા',
+  'pattern.diarrhea.option2.label': '4-6 વાર',
+  'pattern.diarrhea.option2.value': 'આજે 4-6 વાર ઝાડા થયા',
+  'pattern.diarrhea.option3.label': '6 થી વધુ',
+  'pattern.diarrhea.option3.value': 'આજે 6 થી વધુ વાર ઝાડા થયા',
+  'pattern.diarrhea.option4.label': 'લોહી છે',
+  'pattern.diarrhea.option4.value': 'ઝાડામાં લોહી કે ચીકાશ છે',
+  'pattern.period_issues.question': 'માસિક કેટલા દિવસ મોડું છે? શું વજન વધ્યું છે કે ચહેરા પર વધારે વાળ કે ખીલ દેખાય છે?',
+  'pattern.period_issues.option1.label': 'થોડા દિવસ મોડું',
+  'pattern.period_issues.option1.value': 'માસિક થોડા દિવસ મોડું છે',
+  'pattern.period_issues.option2.label': '2 અઠવાડિયાથી વધુ',
+  'pattern.period_issues.option2.value': 'માસિક 2 અઠવાડિયાથી વધુ મોડું છે',
+  'pattern.period_issues.option3.label': 'અનિયમિત + વજન',
+  'pattern.period_issues.option3.value': 'માસિક અનિયમિત છે અને વજન વધ્યું છે',
+  'pattern.period_issues.option4.label': 'વધુ/દુખાવો',
+  'pattern.period_issues.option4.value': 'માસિક ખૂબ વધારે આવે છે અને દુખાવો થાય છે',
+  'pattern.body_ache.question': 'શું તાવ પણ છે? દુખાવો સાંધામાં છે કે આખા શરીરમાં?',
+  'pattern.body_ache.option1.label': 'તાવ + શરીર દુખે',
+  'pattern.body_ache.option1.value': 'તાવ સાથે આખા શરીરમાં દુખાવો છે',
+  'pattern.body_ache.option2.label': 'ફક્ત સાંધા',
+  'pattern.body_ache.option2.value': 'દુખાવો મુખ્યત્વે સાંધામાં છે, તાવ નથી',
+  'pattern.body_ache.option3.label': 'કમજોરી/થાક',
+  'pattern.body_ache.option3.value': 'ખૂબ કમજોરી અને થાક લાગે છે, કોઈ ખાસ દુખાવો નથી',
+  'pattern.body_ache.option4.label': 'કસરત પછી',
+  'pattern.body_ache.option4.value': 'કસરત કે મહેનત પછી શરીર દુખવા લાગ્યું',
+  'pattern.breathing.question': 'શું આરામ કરતી વખતે પણ શ્વાસ ચડે છે કે ફક્ત કામ કરતી વખતે? શું તે અચાનક શરૂ થયું?',
+  'pattern.breathing.option1.label': 'આરામમાં પણ',
+  'pattern.breathing.option1.value': 'આરામ કરતી વખતે પણ શ્વાસ ચડે છે',
+  'pattern.breathing.option2.label': 'કામ કરતી વખતે',
+  'pattern.breathing.option2.value': 'ફક્ત ચાલતી કે દાદર ચડતી વખતે શ્વાસ ચડે છે',
+  'pattern.breathing.option3.label': 'કસરત પછી',
+  'pattern.breathing.option3.value': 'દોડ્યા કે કસરત પછી શ્વાસ ચડે છે, આરામથી સારું થાય છે',
+  'pattern.breathing.option4.label': 'અચાનક શરૂ',
+  'pattern.breathing.option4.value': 'શ્વાસની તકલીફ અચાનક શરૂ થઈ',
+  'pattern.skin.question': 'શું ચકામું ગોળ વીંટી જેવું છે? શું પરિવારમાં બીજા કોઈને પણ છે?',
+  'pattern.skin.option1.label': 'ગોળ ચકામું',
+  'pattern.skin.option1.value': 'ચકામું ગોળ છે, વચ્ચેથી સાફ, ખૂબ ખંજવાળ આવે છે',
+  'pattern.skin.option2.label': 'આખા શરીરે ખંજવાળ',
+  'pattern.skin.option2.value': 'આખા શરીરે ખંજવાળ, રાત્રે વધારે',
+  'pattern.skin.option3.label': 'ખીલ',
+  'pattern.skin.option3.value': 'ચહેરા પર ખીલ છે',
+  'pattern.skin.option4.label': 'બીજી તકલીફ',
+  'pattern.skin.option4.value': 'ચામડીની બીજી કોઈ તકલીફ છે',
+  'pattern.cold_flu.question': 'કેટલા દિવસથી છે? શું તાવ કે શરીરમાં દુખાવો પણ છે?',
+  'pattern.cold_flu.option1.label': '1-3 દિવસ, હળવું',
+  'pattern.cold_flu.option1.value': '1-3 દિવસથી શરદી, ફક્ત નાક વહે છે',
+  'pattern.cold_flu.option2.label': 'તાવ સાથે',
+  'pattern.cold_flu.option2.value': 'શરદી સાથે તાવ અને શરીરમાં દુખાવો',
+  'pattern.cold_flu.option3.label': 'અઠવાડિયાથી વધુ',
+  'pattern.cold_flu.option3.value': 'અઠવાડિયાથી વધુ સમયથી શરદી',
+  'pattern.cold_flu.option4.label': 'વધી રહ્યું છે',
+  'pattern.cold_flu.option4.value': 'શરદી પહેલાં હળવી હતી પણ હવે વધી રહી છે',
+
+  // ─── Period health ───
+  'period.headerTitle': 'માસિક સ્વાસ્થ્ય',
+  'period.headerTitleAlly': 'માસિક સ્વાસ્થ્ય જાગૃતિ',
+  'period.headerSubtitle': 'AI-સંચાલિત માસિક સ્વાસ્થ્ય',
+  'period.headerSubtitleAlly': 'તમારા જીવનની મહિલાઓને સાથ આપો',
+  'period.history': 'ઇતિહાસ',
+  'period.dashboard': 'ડેશબોર્ડ',
+  'period.signInTitle': 'માસિક સ્વાસ્થ્ય જોવા માટે સાઇન ઇન કરો',
+  'period.signInDesc': 'તમારો સ્વાસ્થ્ય ડેટા ખાનગી છે અને ફક્ત તમને જ દેખાય છે.',
+  'period.backToSehat': 'Sehat પર પાછા જાઓ',
+  'period.retry': 'ફરી પ્રયાસ કરો',
+  'period.allyHeroTitle': 'તેનો સાથ આપો',
+  'period.allyHeroDesc': 'ભારતમાં 71% કિશોરીઓને પ્રથમ માસિક પહેલાં તેના વિશે ખબર હોતી નથી. તમે આ બદલી શકો છો — શીખીને, સમજીને અને તમારી આસપાસની મહિલાઓને સાથ આપીને.',
+  'period.eduCard1Title': 'માસિક શું છે?',
+  'period.eduCard1Body': 'માસિક (પીરિયડ) એક કુદરતી માસિક પ્રક્રિયા છે જેમાં ગર્ભાશય પોતાનું અંદરનું આવરણ છોડે છે. તે સામાન્ય રીતે 3-7 દિવસ ચાલે છે અને દર 21-35 દિવસે આવે છે. તે કોઈ રોગ, નબળાઈ કે અશુદ્ધિ નથી — તે સારા સ્વાસ્થ્યની નિશાની છે.',
+  'period.eduCard2Title': 'તમે કેવી રીતે મદદ કરી શકો?',
+  'period.eduCard2Body': 'સંકોચ વગર સેનિટરી પ્રોડક્ટ ખરીદો. ખેંચાણ માટે ગરમ પાણીની બોટલ આપો. મજાક ન કરો કે મોં ન બગાડો. જરૂર હોય ત્યારે જગ્યા આપો. પૂછો "હું કેવી રીતે મદદ કરું?" — જેમ કોઈ પણ સ્વાસ્થ્યની બાબતમાં પૂછો છો.',
+  'period.eduCard3Title': 'ભૂલવા જેવી માન્યતાઓ',
+  'period.eduCard3Body': 'માસિક દરમિયાન મહિલાઓ રસોઈ કરી શકે, મંદિરમાં જઈ શકે, અથાણાને અડી શકે અને બધું જ કરી શકે — આ પ્રતિબંધોનો કોઈ વૈજ્ઞાનિક આધાર નથી. માસિકનું લોહી "ગંદું" નથી — તે એ જ લોહી છે જે તમારી નસોમાં વહે છે.',
+  'period.eduCard4Title': 'ડૉક્ટરને બતાવવાની સલાહ ક્યારે આપવી',
+  'period.eduCard4Body': 'જો તેને ખૂબ વધારે માસિક આવે (દર 1-2 કલાકે પેડ બદલવું પડે), રોજિંદા કામ રોકી દે એવો તીવ્ર દુખાવો, 3+ મહિનાથી માસિક ન આવે, કે બે માસિક વચ્ચે ડાઘા પડે — તો સ્ત્રીરોગ નિષ્ણાતને બતાવવાની સલાહ આપો.',
+  'period.quickFacts': 'ઝડપી તથ્યો',
+  'period.fact1': 'સરેરાશ માસિક 3-7 દિવસ ચાલે છે અને દર 21-35 દિવસે આવે છે',
+  'period.fact2': 'ખેંચાણ, મૂડમાં ફેરફાર અને થાક સામાન્ય છે — "નાટક" નથી',
+  'period.fact3': 'એક મહિલા જીવનભરમાં ~10,000-15,000 પેડ વાપરે છે — માસિક પ્રોડક્ટ જરૂરિયાત છે, વૈભવ નહીં',
+  'period.fact4': 'PCOS દર 5માંથી 1 ભારતીય મહિલાને અસર કરે છે — તેને શરમ નહીં, જાગૃતિ જોઈએ',
+  'period.fact5': 'માસિક વિશે ખુલ્લી વાત કરવાથી આગામી પેઢી વધુ સ્વસ્થ બને છે',
+  'period.ctaShare': 'આ પેજ એવી વ્યક્તિ સાથે શેર કરો જેને તેની જરૂર હોય',
+  'period.ctaBreak': 'વર્જના તોડવાની શરૂઆત એક વાતચીતથી થાય છે. તમે તમારી શરૂ કરી દીધી છે.',
+  'period.cycleOverview': 'ચક્રની ઝાંખી',
+  'period.cyclesLogged': '{count} ચક્ર નોંધાયા',
+  'period.avgCycleDays': 'સરેરાશ ચક્ર (દિવસ)',
+  'period.avgPeriodDays': 'સરેરાશ માસિક (દિવસ)',
+  'period.daysLate': 'દિવસ મોડું',
+  'period.daysUntilNext': 'આગામી સુધી દિવસ',
+  'period.nextPeriod': 'આગામી માસિક',
+  'period.logPeriod': 'માસિક નોંધો',
+  'period.logYourPeriod': 'તમારું માસિક નોંધો',
+  'period.startDate': 'શરૂઆતની તારીખ',
+  'period.periodLength': 'માસિકની અવધિ (દિવસ)',
+  'period.flowLevel': 'પ્રવાહનું સ્તર',
+  'period.flowLight': 'હળવો',
+  'period.flowMedium': 'મધ્યમ',
+  'period.flowHeavy': 'વધુ',
+  'period.symptoms': 'લક્ષણો',
+  'period.mood': 'મૂડ',
+  'period.notesOpt': 'નોંધ (વૈકલ્પિક)',
+  'period.save': 'સાચવો',
+  'period.saving': 'સાચવી રહ્યા છીએ...',
+  'period.cycleHistory': 'ચક્રનો ઇતિહાસ',
+  'period.days': '{count} દિવસ',
+  'period.flow': 'પ્રવાહ',
+  'period.dayCycle': '{count} દિવસનું ચક્ર',
+  'period.emptyTitle': 'તમારું ચક્ર ટ્રૅક કરવાનું શરૂ કરો',
+  'period.emptyDesc': 'વ્યક્તિગત અનુમાન, સ્વાસ્થ્ય માહિતી અને રિમાઇન્ડર મેળવવા તમારું માસિક નોંધો — બધું તમારી ભાષામાં.',
+  'period.askTitle': 'માસિક સ્વાસ્થ્ય વિશે પૂછો',
+  'period.askTitleAlly': 'માસિક સ્વાસ્થ્ય વિશે પૂછો',
+  'period.askDesc': 'માસિક, ચક્રનું સ્વાસ્થ્ય, સ્વચ્છતા, PCOS કે માસિક સુખાકારી વિશે કંઈ પણ પૂછો — તમારી ભાષામાં.',
+  'period.askDescAlly': 'માસિક સ્વાસ્થ્ય વિશે કંઈ પણ પૂછો — માસિકને સમજો, માન્યતાઓ તોડો, સાથ આપતા શીખો — તમારી ભાષામાં.',
+  'period.askPlaceholder': 'તમારો પ્રશ્ન પૂછો...',
+  'period.askBtn': 'પૂછો',
+  'period.thinking': 'વિચારી રહ્યા છીએ...',
+  'period.aiDisclaimer': 'AI જવાબ — તબીબી સલાહ માટે ડૉક્ટરની સલાહ લો',
+  'period.sCramps': 'ખેંચાણ',
+  'period.sHeadache': 'માથાનો દુખાવો',
+  'period.sBackPain': 'કમરનો દુખાવો',
+  'period.sBloating': 'પેટ ફૂલવું',
+  'period.sFatigue': 'થાક',
+  'period.sMoodSwings': 'મૂડમાં ફેરફાર',
+  'period.sAcne': 'ખીલ',
+  'period.sBreast': 'સ્તનમાં દુખાવો',
+  'period.sNausea': 'ઉબકા',
+  'period.sCravings': 'ખાવાની ઇચ્છા',
+  'period.mHappy': 'ખુશ',
+  'period.mCalm': 'શાંત',
+  'period.mAnxious': 'ચિંતિત',
+  'period.mSad': 'ઉદાસ',
+  'period.mIrritable': 'ચીડિયું',
+  'period.mEnergetic': 'ઉત્સાહી',
+  'period.mTired': 'થાકેલું',
+  'period.footerAlly': 'જ્ઞાન જ શક્તિ છે. માસિક સ્વાસ્થ્ય વિશેનું મૌન તોડો.',
+  'period.deleteConfirm': 'આ ચક્રની નોંધ કાઢી નાખીએ?',
+  'period.footerTracker': 'તમારો માસિક ડેટા ખાનગી છે અને ફક્ત તમને જ દેખાય છે. આ તબીબી નિદાન નથી.',
+  'period.allyQuestion1': 'માસિક વિશે મારે શું જાણવું જોઈએ?',
+  'period.allyQuestion2': 'હું મારી બહેન/પત્નીને કેવી રીતે મદદ કરી શકું?',
+  'period.allyQuestion3': 'માસિક વિશેની ખોટી માન્યતાઓ કઈ છે?',
+  'period.selfQuestion1': 'માસિકનો દુખાવો કુદરતી રીતે કેવી રીતે ઘટાડવો',
+  'period.selfQuestion2': 'PCOS શું છે?',
+  'period.selfQuestion3': 'માસિક દરમિયાન શું ખાવું જોઈએ',
+
+  // ─── Follow-up check reminders ───
+  'followup.reminder': 'Sehat ચેક-ઇન: હવે તમને કેવું લાગે છે — પહેલાં કરતાં સારું, એવું જ, કે વધુ ખરાબ?',
+  'followup.reminderLink': 'અહીં જવાબ આપો: {url}',
+  'followup.emailSubject': 'તમને કેવું લાગે છે? — Sehat ચેક-ઇન',
+
+  // ─── Follow-up inbox ───
+  'followup.pageTitle': 'ચેક-ઇન',
+  'followup.sectionDue': 'હમણાં કરવાના',
+  'followup.sectionUpcoming': 'આવનારા',
+  'followup.sectionPast': 'પાછલા',
+  'followup.checkAt': '{date} ના રોજ ચેક-ઇન',
+  'followup.escalation': 'આવું થાય તો તરત સારવાર લો: {criteria}',
+  'followup.question': 'હવે તમને કેવું લાગે છે?',
+  'followup.better': 'સારું',
+  'followup.same': 'એવું જ',
+  'followup.worse': 'વધુ ખરાબ',
+  'followup.dismiss': 'દૂર કરો',
+  'followup.continue': 'વાતચીત ચાલુ રાખો',
+  'followup.statusCompleted': 'જવાબ આપ્યો',
+  'followup.statusEscalated': 'તબિયત બગડી',
+  'followup.statusDismissed': 'દૂર કર્યું',
+  'followup.empty': 'હજી કોઈ ચેક-ઇન નથી. કોઈ લક્ષણ વિશે પછી તમારી ખબર લેવી હોય ત્યારે Sehat ચેક-ઇન નક્કી કરશે.',
+  'followup.signIn': 'તમારા ચેક-ઇન જોવા માટે સાઇન ઇન કરો',
+  'followup.loadError': 'તમારા ચેક-ઇન લોડ થઈ શક્યા નહીં',
+  'followup.answerError': 'તમારો જવાબ સેવ થઈ શક્યો નહીં. કૃપા કરીને ફરી પ્રયાસ કરો.',
+  'followup.checkInBanner': 'ફોલો-અપ ચેક-ઇન: {reason}',
+
+  // ─── Emergency guide ───
+  'emergency.title': 'કટોકટી',
+  'emergency.intro': 'આ કટોકટી છે. હમણાં જ {number} પર કૉલ કરો — લાલ બટન દબાવો. મદદ આવે ત્યાં સુધી હું તમને એક-એક પગલું જણાવીશ.',
+  'emergency.call': 'હમણાં જ {number} પર કૉલ કરો',
+  'emergency.ambulance': 'એમ્બ્યુલન્સ: {number}',
+  'emergency.stepOf': 'પગલું {current} / {total}',
+  'emergency.next': 'આગળ',
+  'emergency.repeat': 'ફરીથી',
+  'emergency.back': 'પાછળ',
+  'emergency.sayNext': 'થઈ જાય ત્યારે "થઈ ગયું" બોલો, અથવા આગળ દબાવો',
+  'emergency.sayBreathing': '"શ્વાસ ચાલે છે" અથવા "શ્વાસ નથી" બોલો, અથવા કોઈ બટન દબાવો',
+  'emergency.breathing': 'શ્વાસ લે છે',
+  'emergency.startCpr': 'શ્વાસ નથી લેતા? CPR શરૂ કરો',
+  'emergency.pushWithBeat': 'બીટ સાથે દબાવો',
+  'emergency.pauseBeat': 'બીટ રોકો',
+  'emergency.resumeBeat': 'બીટ ફરી શરૂ કરો',
+  'emergency.fromAssessment': 'તમારા મૂલ્યાંકનમાંથી',
+  'emergency.finished': 'આ બધાં પગલાં હતાં. મદદ આવે ત્યાં સુધી તેમની સાથે રહો અને તેમના શ્વાસ પર નજર રાખો.',
+  'emergency.close': 'માર્ગદર્શિકા બંધ કરો',
+  'emergency.cpr.title': 'સીપીઆર (CPR)',
+  'emergency.cpr.check': 'તેમના ખભા થપથપાવો અને મોટેથી બોલાવો. શું તેઓ સામાન્ય રીતે શ્વાસ લે છે? "શ્વાસ ચાલે છે" અથવા "શ્વાસ નથી" બોલો.',
+  'emergency.cpr.position': 'તેમને સખત સપાટી પર ચત્તા સીધા સુવડાવો અને તેમની છાતી પાસે ઘૂંટણિયે બેસો.',
+  'emergency.cpr.hands': 'એક હથેળીનો નીચેનો ભાગ છાતીની વચ્ચે મૂકો અને બીજો હાથ તેના પર મૂકો. હાથ સીધા રાખો.',
+  'emergency.cpr.compress': 'દરેક બીટ સાથે જોરથી અને ઝડપથી લગભગ 5 સેન્ટિમીટર નીચે દબાવો. 30 સુધી ગણો અને ફરી શરૂ કરો. મદદ આવે ત્યાં સુધી અટકશો નહીં.',
+  'emergency.recovery.title': 'રિકવરી પોઝિશન',
+  'emergency.recovery.side': 'તેમની બાજુમાં ઘૂંટણિયે બેસો. દૂરનો ઘૂંટણ વાળો અને તેને ખેંચીને તેમને તમારી તરફ પડખે ફેરવો.',
+  'emergency.recovery.airway': 'માથું હળવેથી પાછળ નમાવો અને મોં નીચે તરફ રાખો, જેથી શ્વાસ ચાલુ રહે અને મોંમાંનું બહાર નીકળી જાય.',
+  'emergency.recovery.watch': 'તેમની સાથે રહો અને તેમનો શ્વાસ જોતા રહો. શ્વાસ બંધ થાય તો "શ્વાસ નથી" બોલો અથવા CPR શરૂ કરો દબાવો.',
+  'emergency.choking.title': 'ગળામાં કંઈક ફસાવું',
+  'emergency.choking.cough': 'જો તેઓ ખાંસી ખાઈ કે બોલી શકતા હોય, તો તેમને ખાંસવા દો. હમણાં પીઠ પર મારશો નહીં.',
+  'emergency.choking.backBlows': 'જો તેઓ શ્વાસ ન લઈ શકે કે બોલી ન શકે, તો તેમને આગળ નમાવો અને હથેળીના નીચેના ભાગથી ખભાની વચ્ચે 5 વાર જોરથી મારો.',
+  'emergency.choking.thrusts': 'પછી તેમની પાછળ ઊભા રહી, ડૂંટીની સહેજ ઉપર મુઠ્ઠી મૂકો અને 5 વાર જોરથી અંદર અને ઉપર તરફ ખેંચો. પીઠ પર મારવું અને પેટ દબાવવું વારાફરતી કરતા રહો.',
+  'emergency.choking.unconscious': 'જો તેઓ બેભાન થઈ જાય, તો ચત્તા સુવડાવો અને CPR શરૂ કરો.',
+  'emergency.snakebite.title': 'સાપ કરડવો',
+  'emergency.snakebite.calm': 'વ્યક્તિને શાંત રાખો અને સ્થિર સુવડાવી રાખો. હલનચલનથી ઝેર ઝડપથી ફેલાય છે.',
+  'emergency.snakebite.immobilize': 'કરડેલો હાથ કે પગ પાટો બાંધ્યો હોય તેમ સ્થિર રાખો, હૃદયથી નીચે. વીંટી, બંગડી, ઘડિયાળ અને તંગ કપડાં કાઢી નાખો.',
+  'emergency.snakebite.dont': 'કરડેલી જગ્યાને કાપશો નહીં, ચૂસશો નહીં, કસીને પાટો બાંધશો નહીં, અને તેના પર બરફ કે જડીબુટ્ટી લગાવશો નહીં.',
+  'emergency.snakebite.transport': 'તેમને ઉપાડીને એવી હોસ્પિટલમાં લઈ જાઓ જ્યાં એન્ટી-વેનમ હોય. તેમને ચાલવા દેશો નહીં. કરડવાનો સમય નોંધી લો.',
+  'emergency.stroke.title': 'સ્ટ્રોક — FAST તપાસ',
+  'emergency.stroke.face': 'ચહેરો (F): તેમને હસવા કહો. શું ચહેરાની એક બાજુ નમી ગઈ છે?',
+  'emergency.stroke.arms': 'હાથ (A): તેમને બંને હાથ ઊંચા કરવા કહો. શું એક હાથ નીચે સરકે છે?',
+  'emergency.stroke.speech': 'બોલી (S): તેમને એક સરળ વાક્ય ફરી બોલવા કહો. શું બોલી લથડાય છે કે વિચિત્ર છે?',
+  'emergency.stroke.time': 'સમય (T): આમાંથી કંઈ પણ દેખાય, તો શરૂ થયાનો સમય નોંધો અને તેમને હમણાં જ હોસ્પિટલ લઈ જાઓ. ખોરાક, પાણી કે દવા આપશો નહીં.',
+  'emergency.seizure.title': 'આંચકી',
+  'emergency.seizure.clear': 'સખત અને ધારદાર વસ્તુઓ તેમનાથી દૂર કરો. તેમને જબરદસ્તી પકડી રાખશો નહીં.',
+  'emergency.seizure.head': 'તેમના માથા નીચે કંઈક નરમ મૂકો. મોંમાં કંઈ ન નાખો — ન ચમચી, ન પાણી.',
+  'emergency.seizure.side': 'આંચકા બંધ થાય ત્યારે તેમને પડખે ફેરવો અને જુઓ કે તેઓ શ્વાસ લે છે.',
+  'emergency.seizure.time': 'તે કેટલો સમય ચાલે છે તે નોંધો. 5 મિનિટથી વધુ આંચકી આવે તો તે કટોકટી છે.',
+  'emergency.bleeding.title': 'વધુ પડતું લોહી વહેવું',
+  'emergency.bleeding.press': 'સ્વચ્છ કપડાથી ઘા પર જોરથી દબાવો. જોવા માટે કપડું ઉપાડશો નહીં.',
+  'emergency.bleeding.more': 'જો લોહી કપડામાંથી બહાર આવે, તો ઉપર વધુ કપડું મૂકો અને દબાવતા રહો.',
+  'emergency.bleeding.raise': 'તેમને સુવડાવી રાખો અને શક્ય હોય તો ઈજાવાળો ભાગ હૃદયથી ઊંચો રાખો.',
+  'emergency.chest.title': 'છાતીમાં દુખાવો',
+  'emergency.chest.rest': 'તેમને કોઈ વસ્તુના ટેકે બેસીને આરામ કરવામાં મદદ કરો. તંગ કપડાં ઢીલાં કરો.',
+  'emergency.chest.nothing': 'તેમને હરવા-ફરવા દેશો નહીં. ખાવા-પીવા કંઈ આપશો નહીં, અને દુખાવો ક્યારે શરૂ થયો તે નોંધો.',
+  'emergency.chest.watch': 'તેમની સાથે રહો. જો તેઓ ઢળી પડે અને સામાન્ય શ્વાસ બંધ થઈ જાય, તો CPR બટન દબાવીને CPR શરૂ કરો.',
+  'emergency.general.title': 'પ્રાથમિક સારવાર',
+  'emergency.general.safe': 'ખાતરી કરો કે તમે અને તે વ્યક્તિ સુરક્ષિત છો. તેમને સુવડાવીને સ્થિર રાખો.',
+  'emergency.general.breathing': 'જુઓ કે તેઓ શ્વાસ લે છે. જો નહીં, તો CPR બટન દબાવીને CPR શરૂ કરો.',
+  'emergency.general.wait': 'તેમની સાથે રહો અને તેમને ગરમ રાખો. મદદ આવે ત્યાં સુધી ખાવા-પીવા કંઈ આપશો નહીં.',
+};
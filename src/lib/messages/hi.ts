@@ -0,0 +1,326 @@
+import type { Catalog } from '../i18n';
+
+/** Hindi */
+export const hi: Catalog = {
+  // ─── Triage ───
+  'triage.nearbyFacilities': 'यहाँ आपके पास के अस्पताल और क्लीनिक हैं। अगर कोई स्वास्थ्य समस्या है तो बताइए।',
+  'triage.languageSuggested': 'लगता है आप {language} में लिख रहे हैं — उसमें जवाब पाने के लिए टैप करें',
+
+  // ─── Welcome ───
+  'welcome.greeting': 'नमस्ते! कैसे हैं आप?',
+  'welcome.greetingNamed': 'नमस्ते, {name}!',
+  'welcome.subtitle': 'अपने लक्षण बताएं — हम आपकी मदद करेंगे सही देखभाल तक पहुंचने में।',
+  'welcome.quickStart1': 'सिर में दर्द है',
+  'welcome.quickStart2': 'बुखार और खांसी',
+  'welcome.quickStart3': 'पेट में दर्द',
+
+  // ─── Post-result follow-ups ───
+  'postResult.tellMore': 'और बताएं',
+  'postResult.feelingNow': 'अब कैसा लग रहा',
+  'postResult.precautions': 'और सावधानी',
+
+  // ─── Report upload ───
+  'upload.button': 'रिपोर्ट अपलोड करें',
+  'upload.analyzing': 'विश्लेषण हो रहा है...',
+  'upload.medicationsAdded': { one: 'आपकी दवा सूची में {count} दवा जोड़ी गई', other: 'आपकी दवा सूची में {count} दवाएँ जोड़ी गईं' },
+  'upload.labResultsSaved': { one: '{count} लैब मान रिपोर्ट्स में आपके ट्रेंड में सहेजा गया', other: '{count} लैब मान रिपोर्ट्स में आपके ट्रेंड में सहेजे गए' },
+  'upload.setLinked': '{count} फ़ाइलों का एक साथ विश्लेषण किया गया — आप इस चैट में इनके बारे में पूछ सकते हैं',
+  'upload.tooManyFiles': 'एक बार में ज़्यादा से ज़्यादा {max} फ़ाइलें चुनें।',
+  'upload.tooLarge': 'फ़ाइलें बहुत बड़ी हैं — हर फ़ाइल {fileMb}MB तक और सब मिलाकर {setMb}MB तक।',
+  'upload.failed': 'दस्तावेज़ का विश्लेषण नहीं हो सका। कृपया फिर से कोशिश करें।',
+
+  // ─── Sign-up prompt ───
+  'signUp.title': 'अपनी सेहत को ट्रैक करें',
+  'signUp.subtitle': 'फ्री अकाउंट बनाएं — अपना हेल्थ प्रोफाइल सेव करें और बेहतर सलाह पाएं।',
+  'signUp.cta': 'साइन अप करें',
+  'signUp.later': 'बाद में',
+  'signUp.profile': 'प्रोफाइल पूरा करें',
+
+  // ─── Voice mode ───
+  'voice.idle': 'बोलने के लिए टैप करें',
+  'voice.listening': 'सुन रहे हैं...',
+  'voice.transcribing': 'समझ रहे हैं...',
+  'voice.thinking': 'सोच रहे हैं...',
+  'voice.speaking': 'बोल रहे हैं...',
+  'voice.notUnderstood': 'समझ नहीं आया। फिर से बोलें या टाइप करें।',
+
+  // ─── Voice acknowledgments — ~3 seconds of speech each ───
+  'voice.ack.generic': 'मैं सुन रहा हूँ। आपके लक्षणों को देखता हूँ।',
+  'voice.ack.head': 'आपके सिर में दर्द हो रहा है। मैं इसे देखता हूँ।',
+  'voice.ack.fever': 'आपको बुखार है। मैं इसका मूल्यांकन करता हूँ।',
+  'voice.ack.chest': 'आपकी छाती में तकलीफ है। मैं तुरंत देखता हूँ।',
+  'voice.ack.stomach': 'आपके पेट में तकलीफ है। मैं इसे देखता हूँ।',
+  'voice.ack.breathing': 'आपको सांस की तकलीफ है। मैं ध्यान से देखता हूँ।',
+  'voice.ack.pain': 'आपको दर्द हो रहा है। मैं आपके लक्षण देखता हूँ।',
+  'voice.ack.child': 'बच्चे की बात है। मैं ध्यान से देखता हूँ।',
+
+  // ─── Symptom fast-path follow-ups ───
+  'pattern.fever.question': 'कितने दिन से बुखार है?',
+  'pattern.fever.option1.label': 'आज से',
+  'pattern.fever.option1.value': 'बुखार आज से है',
+  'pattern.fever.option2.label': '1-2 दिन',
+  'pattern.fever.option2.value': '1-2 दिन से बुखार है',
+  'pattern.fever.option3.label': '3-5 दिन',
+  'pattern.fever.option3.value': '3-5 दिन से बुखार है',
+  'pattern.fever.option4.label': '5 दिन से ज़्यादा',
+  'pattern.fever.option4.value': '5 दिन से ज़्यादा बुखार है',
+  'pattern.headache.question': 'क्या यह अब तक का सबसे तेज़ सिर दर्द है, या पहले भी ऐसा होता रहा है?',
+  'pattern.headache.option1.label': 'सबसे तेज़',
+  'pattern.headache.option1.value': 'यह अब तक का सबसे तेज़ और अचानक सिर दर्द है',
+  'pattern.headache.option2.label': 'पहले जैसा',
+  'pattern.headache.option2.value': 'यह पहले भी होता रहा है, वैसा ही है',
+  'pattern.headache.option3.label': 'बुखार भी है',
+  'pattern.headache.option3.value': 'सिर दर्द के साथ बुखार भी है',
+  'pattern.headache.option4.label': 'पता नहीं',
+  'pattern.headache.option4.value': 'मुझे पक्का नहीं पता',
+  'pattern.cough.question': 'कितने दिन से खांसी है? क्या बलगम में खून आ रहा है?',
+  'pattern.cough.option1.label': 'कुछ दिन, खून नहीं',
+  'pattern.cough.option1.value': 'कुछ दिन से खांसी है, बलगम में खून नहीं',
+  'pattern.cough.option2.label': '1-2 हफ्ते',
+  'pattern.cough.option2.value': '1-2 हफ्ते से खांसी है',
+  'pattern.cough.option3.label': '2 हफ्ते से ज़्यादा',
+  'pattern.cough.option3.value': '2 हफ्ते से ज़्यादा खांसी है',
+  'pattern.cough.option4.label': 'खून आ रहा',
+  'pattern.cough.option4.value': 'बलगम में खून आ रहा है',
+  'pattern.stomach_pain.question': 'दर्द कहाँ है — ऊपर, नीचे, बाएं तरफ, या दाएं तरफ?',
+  'pattern.stomach_pain.option1.label': 'ऊपर बीच में',
+  'pattern.stomach_pain.option1.value': 'पेट के ऊपर बीच में दर्द',
+  'pattern.stomach_pain.option2.label': 'नीचे दाएं',
+  'pattern.stomach_pain.option2.value': 'पेट के नीचे दाएं तरफ दर्द',
+  'pattern.stomach_pain.option3.label': 'पूरे पेट में',
+  'pattern.stomach_pain.option3.value': 'पूरे पेट में दर्द',
+  'pattern.stomach_pain.option4.label': 'पता नहीं',
+  'pattern.stomach_pain.option4.value': 'मुझे ठीक से पता नहीं कहाँ दर्द है',
+  'pattern.diarrhea.question': 'आज कितनी बार हुआ? क्या खून या म्यूकस आ रहा है?',
+  'pattern.diarrhea.option1.label': '2-3 बार',
+  'pattern.diarrhea.option1.value': 'आज 2-3 बार दस्त हुए',
+  'pattern.diarrhea.option2.label': '4-6 बार',
+  'pattern.diarrhea.option2.value': 'आज 4-6 बार दस्त हुए',
+  'pattern.diarrhea.option3.label': '6 से ज़्यादा',
+  'pattern.diarrhea.option3.value': 'आज 6 से ज़्यादा बार दस्त हुए',
+  'pattern.diarrhea.option4.label': 'खून आ रहा',
+  'pattern.diarrhea.option4.value': 'दस्त में खून या म्यूकस आ रहा है',
+  'pattern.period_issues.question': 'पीरियड कितने दिन लेट है? क्या वज़न बढ़ा है या चेहरे पर बाल या पिंपल आ रहे हैं?',
+  'pattern.period_issues.option1.label': 'कुछ दिन लेट',
+  'pattern.period_issues.option1.value': 'पीरियड कुछ दिन लेट है',
+  'pattern.period_issues.option2.label': '2 हफ्ते से ज़्यादा',
+  'pattern.period_issues.option2.value': 'पीरियड 2 हफ्ते से ज़्यादा लेट है',
+  'pattern.period_issues.option3.label': 'अनियमित + वज़न',
+  'pattern.period_issues.option3.value': 'पीरियड अनियमित है और वज़न बढ़ रहा है',
+  'pattern.period_issues.option4.label': 'ज़्यादा/दर्द',
+  'pattern.period_issues.option4.value': 'पीरियड बहुत ज़्यादा और दर्द भरे हैं',
+  'pattern.body_ache.question': 'क्या बुखार भी है? दर्द जोड़ों में है या पूरे शरीर में?',
+  'pattern.body_ache.option1.label': 'बुखार + दर्द',
+  'pattern.body_ache.option1.value': 'बुखार के साथ पूरे बदन में दर्द है',
+  'pattern.body_ache.option2.label': 'सिर्फ जोड़ों में',
+  'pattern.body_ache.option2.value': 'दर्द सिर्फ जोड़ों में है, बुखार नहीं',
+  'pattern.body_ache.option3.label': 'कमज़ोरी/थकान',
+  'pattern.body_ache.option3.value': 'बहुत कमज़ोरी और थकान है, दर्द नहीं',
+  'pattern.body_ache.option4.label': 'एक्सरसाइज के बाद',
+  'pattern.body_ache.option4.value': 'शारीरिक गतिविधि के बाद दर्द हुआ',
+  'pattern.breathing.question': 'सांस की तकलीफ आराम में होती है या सिर्फ काम करते वक्त? क्या अचानक शुरू हुई?',
+  'pattern.breathing.option1.label': 'आराम में भी',
+  'pattern.breathing.option1.value': 'बिना कुछ किए भी सांस की तकलीफ होती है',
+  'pattern.breathing.option2.label': 'काम करते वक्त',
+  'pattern.breathing.option2.value': 'सिर्फ चलने या सीढ़ी चढ़ने पर सांस फूलती है',
+  'pattern.breathing.option3.label': 'एक्सरसाइज के बाद',
+  'pattern.breathing.option3.value': 'दौड़ने या एक्सरसाइज के बाद सांस फूलती है, आराम करने पर ठीक हो जाती है',
+  'pattern.breathing.option4.label': 'अचानक शुरू',
+  'pattern.breathing.option4.value': 'सांस की तकलीफ अचानक शुरू हुई बिना किसी कारण',
+  'pattern.skin.question': 'क्या दाद गोल आकार का है? क्या घर में किसी और को भी है?',
+  'pattern.skin.option1.label': 'गोल दाद',
+  'pattern.skin.option1.value': 'गोल आकार का दाद है जिसमें बहुत खुजली है',
+  'pattern.skin.option2.label': 'पूरे शरीर में खुजली',
+  'pattern.skin.option2.value': 'पूरे शरीर में खुजली है, रात को ज़्यादा',
+  'pattern.skin.option3.label': 'पिंपल/मुंहासे',
+  'pattern.skin.option3.value': 'चेहरे पर पिंपल या मुंहासे हैं',
+  'pattern.skin.option4.label': 'और कुछ',
+  'pattern.skin.option4.value': 'कोई और त्वचा की समस्या है',
+  'pattern.cold_flu.question': 'कितने दिन से है? बुखार या बदन दर्द भी है क्या?',
+  'pattern.cold_flu.option1.label': '1-3 दिन, हल्का',
+  'pattern.cold_flu.option1.value': '1-3 दिन से सर्दी, बस नाक बह रही है',
+  'pattern.cold_flu.option2.label': 'बुखार के साथ',
+  'pattern.cold_flu.option2.value': 'सर्दी बुखार और बदन दर्द के साथ',
+  'pattern.cold_flu.option3.label': 'एक हफ्ते से ज़्यादा',
+  'pattern.cold_flu.option3.value': 'एक हफ्ते से ज़्यादा सर्दी ज़ुकाम',
+  'pattern.cold_flu.option4.label': 'बढ़ रहा है',
+  'pattern.cold_flu.option4.value': 'सर्दी पहले हल्की थी पर अब बढ़ रही है',
+
+  // ─── Period health ───
+  'period.headerTitle': 'पीरियड स्वास्थ्य',
+  'period.headerTitleAlly': 'पीरियड स्वास्थ्य जागरूकता',
+  'period.headerSubtitle': 'AI-संचालित मासिक स्वास्थ्य',
+  'period.headerSubtitleAlly': 'अपने जीवन की महिलाओं का साथ दें',
+  'period.history': 'इतिहास',
+  'period.dashboard': 'डैशबोर्ड',
+  'period.signInTitle': 'पीरियड स्वास्थ्य देखने के लिए साइन इन करें',
+  'period.signInDesc': 'आपका स्वास्थ्य डेटा निजी है और केवल आपको दिखाई देता है।',
+  'period.backToSehat': 'सेहत पर वापस जाएं',
+  'period.retry': 'पुनः प्रयास करें',
+  'period.allyHeroTitle': 'उनका साथी बनें',
+  'period.allyHeroDesc': 'भारत में 71% किशोर लड़कियों को पहली बार पीरियड्स आने से पहले इसके बारे में पता नहीं होता। आप इसे बदल सकते हैं — सीखकर, समझकर और अपने आस-पास की महिलाओं का साथ देकर।',
+  'period.eduCard1Title': 'मासिक धर्म क्या है?',
+  'period.eduCard1Body': 'मासिक धर्म (पीरियड्स) एक प्राकृतिक मासिक प्रक्रिया है जिसमें गर्भाशय अपनी परत छोड़ता है। यह आमतौर पर 3-7 दिन रहती है और हर 21-35 दिन में होती है। यह कोई बीमारी, कमज़ोरी या अशुद्धता नहीं है — यह अच्छे स्वास्थ्य की निशानी है।',
+  'period.eduCard2Title': 'आप कैसे मदद कर सकते हैं?',
+  'period.eduCard2Body': 'बिना शर्मिंदगी के सैनिटरी प्रोडक्ट्स खरीदें। ऐंठन के लिए गर्म पानी की बोतल दें। मज़ाक न उड़ाएं। ज़रूरत होने पर जगह दें। पूछें "मैं कैसे मदद कर सकता हूं?" — जैसे किसी भी स्वास्थ्य मामले में पूछेंगे।',
+  'period.eduCard3Title': 'मिथक जो छोड़ने होंगे',
+  'period.eduCard3Body': 'पीरियड्स में महिलाएं खाना बना सकती हैं, मंदिर जा सकती हैं, अचार छू सकती हैं — इन पाबंदियों का कोई वैज्ञानिक आधार नहीं है। पीरियड का खून "गंदा" नहीं है — यह वही खून है जो आपकी नसों में बहता है।',
+  'period.eduCard4Title': 'डॉक्टर के पास कब जाएं',
+  'period.eduCard4Body': 'अगर बहुत ज़्यादा ब्लीडिंग हो (हर 1-2 घंटे में पैड बदलना), दैनिक कार्य न कर पाने जैसा तेज़ दर्द, 3+ महीने पीरियड न आना, या पीरियड्स के बीच स्पॉटिंग — तो गायनेकोलॉजिस्ट से मिलने को कहें।',
+  'period.quickFacts': 'महत्वपूर्ण तथ्य',
+  'period.fact1': 'पीरियड्स आमतौर पर 3-7 दिन रहते हैं और हर 21-35 दिन में आते हैं',
+  'period.fact2': 'ऐंठन, मूड बदलना और थकान सामान्य है — "ड्रामा" नहीं',
+  'period.fact3': 'एक महिला अपने जीवनकाल में ~10,000-15,000 पैड इस्तेमाल करती है — पीरियड प्रोडक्ट्स ज़रूरत हैं, लग्ज़री नहीं',
+  'period.fact4': 'PCOS भारत में हर 5 में से 1 महिला को प्रभावित करता है — इसे जागरूकता चाहिए, शर्म नहीं',
+  'period.fact5': 'पीरियड्स के बारे में खुलकर बात करने से अगली पीढ़ी स्वस्थ बनती है',
+  'period.ctaShare': 'इस पेज को किसी ज़रूरतमंद के साथ शेयर करें',
+  'period.ctaBreak': 'वर्जना तोड़ना एक बातचीत से शुरू होता है। आपने अभी शुरू किया।',
+  'period.cycleOverview': 'चक्र सारांश',
+  'period.cyclesLogged': '{count} चक्र दर्ज',
+  'period.avgCycleDays': 'औसत चक्र (दिन)',
+  'period.avgPeriodDays': 'औसत पीरियड (दिन)',
+  'period.daysLate': 'दिन देर से',
+  'period.daysUntilNext': 'अगले तक दिन',
+  'period.nextPeriod': 'अगला पीरियड',
+  'period.logPeriod': 'पीरियड दर्ज करें',
+  'period.logYourPeriod': 'अपना पीरियड दर्ज करें',
+  'period.startDate': 'शुरू तारीख',
+  'period.periodLength': 'पीरियड अवधि (दिन)',
+  'period.flowLevel': 'प्रवाह स्तर',
+  'period.flowLight': 'हल्का',
+  'period.flowMedium': 'मध्यम',
+  'period.flowHeavy': 'भारी',
+  'period.symptoms': 'लक्षण',
+  'period.mood': 'मूड',
+  'period.notesOpt': 'नोट्स (वैकल्पिक)',
+  'period.save': 'सेव करें',
+  'period.saving': 'सेव हो रहा है...',
+  'period.cycleHistory': 'चक्र इतिहास',
+  'period.days': '{count} दिन',
+  'period.flow': 'प्रवाह',
+  'period.dayCycle': '{count} दिन चक्र',
+  'period.emptyTitle': 'अपना चक्र ट्रैक करना शुरू करें',
+  'period.emptyDesc': 'अपने पीरियड्स दर्ज करें — व्यक्तिगत भविष्यवाणी, स्वास्थ्य जानकारी और रिमाइंडर पाएं — अपनी भाषा में।',
+  'period.askTitle': 'पीरियड स्वास्थ्य के बारे में पूछें',
+  'period.askTitleAlly': 'मासिक स्वास्थ्य के बारे में पूछें',
+  'period.askDesc': 'पीरियड्स, चक्र स्वास्थ्य, स्वच्छता, PCOS, या मासिक कल्याण के बारे में कुछ भी पूछें — अपनी भाषा में।',
+  'period.askDescAlly': 'मासिक स्वास्थ्य के बारे में कुछ भी पूछें — पीरियड्स समझें, मिथक तोड़ें, सहायक बनना सीखें — अपनी भाषा में।',
+  'period.askPlaceholder': 'अपना सवाल पूछें...',
+  'period.askBtn': 'पूछें',
+  'period.thinking': 'सोच रहा है...',
+  'period.aiDisclaimer': 'AI उत्तर — चिकित्सा सलाह के लिए डॉक्टर से परामर्श करें',
+  'period.sCramps': 'ऐंठन',
+  'period.sHeadache': 'सिरदर्द',
+  'period.sBackPain': 'कमर दर्द',
+  'period.sBloating': 'पेट फूलना',
+  'period.sFatigue': 'थकान',
+  'period.sMoodSwings': 'मूड बदलना',
+  'period.sAcne': 'मुँहासे',
+  'period.sBreast': 'स्तन कोमलता',
+  'period.sNausea': 'जी मिचलाना',
+  'period.sCravings': 'खाने की तलब',
+  'period.mHappy': 'खुश',
+  'period.mCalm': 'शांत',
+  'period.mAnxious': 'चिंतित',
+  'period.mSad': 'उदास',
+  'period.mIrritable': 'चिड़चिड़ा',
+  'period.mEnergetic': 'ऊर्जावान',
+  'period.mTired': 'थका हुआ',
+  'period.footerAlly': 'ज्ञान शक्ति है। मासिक स्वास्थ्य पर चुप्पी तोड़ें।',
+  'period.deleteConfirm': 'क्या आप इस चक्र को हटाना चाहती हैं?',
+  'period.footerTracker': 'आपका पीरियड डेटा निजी है और केवल आपको दिखाई देता है। यह चिकित्सा निदान नहीं है।',
+  'period.allyQuestion1': 'पीरियड्स के बारे में मुझे क्या जानना चाहिए?',
+  'period.allyQuestion2': 'मैं अपनी बहन/पत्नी की कैसे मदद कर सकता हूं?',
+  'period.allyQuestion3': 'पीरियड्स से जुड़े मिथक क्या हैं?',
+  'period.selfQuestion1': 'पीरियड्स में दर्द कम करने के उपाय',
+  'period.selfQuestion2': 'PCOS क्या है?',
+  'period.selfQuestion3': 'पीरियड में क्या खाना चाहिए',
+
+  // ─── Follow-up check reminders ───
+  'followup.reminder': 'सेहत चेक-इन: अब आप कैसा महसूस कर रहे हैं — पहले से बेहतर, वैसा ही, या ज़्यादा खराब?',
+  'followup.reminderLink': 'यहाँ जवाब दें: {url}',
+  'followup.emailSubject': 'आप कैसा महसूस कर रहे हैं? — सेहत चेक-इन',
+
+  // ─── Follow-up inbox ───
+  'followup.pageTitle': 'चेक-इन',
+  'followup.sectionDue': 'अभी करें',
+  'followup.sectionUpcoming': 'आने वाले',
+  'followup.sectionPast': 'पिछले',
+  'followup.checkAt': '{date} को चेक-इन',
+  'followup.escalation': 'तुरंत इलाज लें अगर: {criteria}',
+  'followup.question': 'अब आप कैसा महसूस कर रहे हैं?',
+  'followup.better': 'बेहतर',
+  'followup.same': 'वैसा ही',
+  'followup.worse': 'ज़्यादा खराब',
+  'followup.dismiss': 'हटाएं',
+  'followup.continue': 'बातचीत जारी रखें',
+  'followup.statusCompleted': 'जवाब दिया',
+  'followup.statusEscalated': 'तबीयत बिगड़ी',
+  'followup.statusDismissed': 'हटाया गया',
+  'followup.empty': 'अभी कोई चेक-इन नहीं। जब सेहत को किसी लक्षण के बारे में बाद में आपका हाल जानना होगा, तब वह चेक-इन तय करेगा।',
+  'followup.signIn': 'अपने चेक-इन देखने के लिए साइन इन करें',
+  'followup.loadError': 'आपके चेक-इन लोड नहीं हो सके',
+  'followup.answerError': 'आपका जवाब सेव नहीं हो सका। कृपया फिर से कोशिश करें।',
+  'followup.checkInBanner': 'फ़ॉलो-अप चेक-इन: {reason}',
+
+  // ─── Emergency guide ───
+  'emergency.title': 'आपातकाल',
+  'emergency.intro': 'यह आपातकाल है। अभी {number} पर कॉल करें — लाल बटन दबाएं। मदद आने तक मैं आपको एक-एक कदम बताऊंगा।',
+  'emergency.call': 'अभी {number} पर कॉल करें',
+  'emergency.ambulance': 'एम्बुलेंस: {number}',
+  'emergency.stepOf': 'कदम {current} / {total}',
+  'emergency.next': 'आगे',
+  'emergency.repeat': 'फिर से',
+  'emergency.back': 'पीछे',
+  'emergency.sayNext': 'हो जाने पर "हो गया" बोलें, या आगे दबाएं',
+  'emergency.sayBreathing': '"सांस ले रहे" या "सांस नहीं" बोलें, या कोई बटन दबाएं',
+  'emergency.breathing': 'सांस ले रहे हैं',
+  'emergency.startCpr': 'सांस नहीं ले रहे? CPR शुरू करें',
+  'emergency.pushWithBeat': 'बीट के साथ दबाएं',
+  'emergency.pauseBeat': 'बीट रोकें',
+  'emergency.resumeBeat': 'बीट फिर शुरू करें',
+  'emergency.fromAssessment': 'आपके आकलन से',
+  'emergency.finished': 'ये सभी कदम थे। मदद आने तक उनके साथ रहें और उनकी सांस पर नज़र रखें।',
+  'emergency.close': 'गाइड बंद करें',
+  'emergency.cpr.title': 'सीपीआर (CPR)',
+  'emergency.cpr.check': 'उनके कंधे थपथपाएं और ज़ोर से पुकारें। क्या वे ठीक से सांस ले रहे हैं? "सांस ले रहे" या "सांस नहीं" बोलें।',
+  'emergency.cpr.position': 'उन्हें किसी सख्त सतह पर पीठ के बल सीधा लिटाएं और उनकी छाती के पास घुटनों पर बैठें।',
+  'emergency.cpr.hands': 'एक हथेली का निचला हिस्सा छाती के बीच में रखें और दूसरा हाथ उसके ऊपर। अपनी बाहें सीधी रखें।',
+  'emergency.cpr.compress': 'हर बीट के साथ ज़ोर से और तेज़ी से लगभग 5 सेंटीमीटर नीचे दबाएं। 30 तक गिनें और फिर से शुरू करें। मदद आने तक रुकें नहीं।',
+  'emergency.recovery.title': 'रिकवरी पोज़िशन',
+  'emergency.recovery.side': 'उनके पास घुटनों के बल बैठें। दूर वाला घुटना मोड़ें और उसे खींचकर उन्हें अपनी ओर करवट दिला दें।',
+  'emergency.recovery.airway': 'उनका सिर हल्का पीछे झुकाएं और मुंह नीचे की ओर रखें, ताकि सांस चलती रहे और मुंह में जो हो वह बाहर निकल जाए।',
+  'emergency.recovery.watch': 'उनके साथ रहें और उनकी सांस देखते रहें। अगर सांस रुक जाए, तो "सांस नहीं" बोलें या CPR शुरू करें दबाएं।',
+  'emergency.choking.title': 'गला घुटना',
+  'emergency.choking.cough': 'अगर वे खांस या बोल पा रहे हैं, तो उन्हें खांसते रहने दें। अभी पीठ पर न मारें।',
+  'emergency.choking.backBlows': 'अगर वे सांस नहीं ले पा रहे या बोल नहीं पा रहे, तो उन्हें आगे झुकाएं और हथेली के निचले हिस्से से कंधों के बीच 5 बार ज़ोर से मारें।',
+  'emergency.choking.thrusts': 'फिर उनके पीछे खड़े होकर मुट्ठी नाभि के ठीक ऊपर रखें और 5 बार ज़ोर से अंदर और ऊपर की ओर खींचें। पीठ पर मारना और पेट दबाना दोहराते रहें।',
+  'emergency.choking.unconscious': 'अगर वे बेहोश हो जाएं, तो उन्हें पीठ के बल लिटाएं और CPR शुरू करें।',
+  'emergency.snakebite.title': 'सांप का काटना',
+  'emergency.snakebite.calm': 'व्यक्ति को शांत रखें और लिटाए रखें। हिलने-डुलने से ज़हर तेज़ी से फैलता है।',
+  'emergency.snakebite.immobilize': 'काटे गए हाथ या पैर को पट्टी की तरह स्थिर रखें, दिल से नीचे। अंगूठी, चूड़ियां, घड़ी और तंग कपड़े उतार दें।',
+  'emergency.snakebite.dont': 'काटी हुई जगह को न काटें, न चूसें, कसकर पट्टी न बांधें, और उस पर बर्फ या जड़ी-बूटी न लगाएं।',
+  'emergency.snakebite.transport': 'उन्हें उठाकर ऐसे अस्पताल ले जाएं जहां एंटी-वेनम हो। उन्हें चलने न दें। काटने का समय नोट करें।',
+  'emergency.stroke.title': 'स्ट्रोक — FAST जांच',
+  'emergency.stroke.face': 'चेहरा (F): उन्हें मुस्कुराने को कहें। क्या चेहरे का एक तरफ़ लटक रहा है?',
+  'emergency.stroke.arms': 'बाहें (A): उन्हें दोनों बाहें उठाने को कहें। क्या एक बांह नीचे गिर रही है?',
+  'emergency.stroke.speech': 'बोली (S): उन्हें एक आसान वाक्य दोहराने को कहें। क्या बोली लड़खड़ा रही है या अजीब है?',
+  'emergency.stroke.time': 'समय (T): अगर इनमें से कुछ भी दिखा, तो शुरू होने का समय नोट करें और उन्हें अभी अस्पताल ले जाएं। खाना, पानी या दवा न दें।',
+  'emergency.seizure.title': 'दौरा',
+  'emergency.seizure.clear': 'सख्त और नुकीली चीज़ें उनसे दूर करें। उन्हें ज़बरदस्ती न पकड़ें।',
+  'emergency.seizure.head': 'उनके सिर के नीचे कुछ नरम रखें। मुंह में कुछ न डालें — न चम्मच, न पानी।',
+  'emergency.seizure.side': 'झटके रुकने पर उन्हें करवट दिलाएं और देखें कि वे सांस ले रहे हैं।',
+  'emergency.seizure.time': 'देखें कि दौरा कितनी देर चलता है। 5 मिनट से ज़्यादा झटके आना आपातकाल है।',
+  'emergency.bleeding.title': 'बहुत ज़्यादा खून बहना',
+  'emergency.bleeding.press': 'साफ़ कपड़े से घाव पर ज़ोर से दबाएं। देखने के लिए कपड़ा न हटाएं।',
+  'emergency.bleeding.more': 'अगर खून कपड़े से बाहर आ जाए, तो ऊपर और कपड़ा रखें और दबाते रहें।',
+  'emergency.bleeding.raise': 'उन्हें लिटाए रखें और हो सके तो चोट वाले हिस्से को दिल से ऊपर उठाएं।',
+  'emergency.chest.title': 'सीने में दर्द',
+  'emergency.chest.rest': 'उन्हें किसी चीज़ से टेक लगाकर बैठने और आराम करने में मदद करें। तंग कपड़े ढीले करें।',
+  'emergency.chest.nothing': 'उन्हें चलने-फिरने न दें। कुछ भी खाने-पीने को न दें, और नोट करें कि दर्द कब शुरू हुआ।',
+  'emergency.chest.watch': 'उनके साथ रहें। अगर वे गिर जाएं और ठीक से सांस लेना बंद कर दें, तो CPR बटन दबाकर CPR शुरू करें।',
+  'emergency.general.title': 'प्राथमिक उपचार',
+  'emergency.general.safe': 'पक्का करें कि आप और वह व्यक्ति सुरक्षित हैं। उन्हें लिटाए रखें और हिलने न दें।',
+  'emergency.general.breathing': 'देखें कि वे सांस ले रहे हैं। अगर नहीं, तो CPR बटन दबाकर CPR शुरू करें।',
+  'emergency.general.wait': 'उनके साथ रहें और उन्हें गर्म रखें। मदद आने तक कुछ भी खाने-पीने को न दें।',
+};
@@ -0,0 +1,326 @@
+import type { Catalog } from '../i18n';
+
+/** Kannada */
+export const kn: Catalog = {
+  // ─── Triage ───
+  'triage.nearbyFacilities': 'ಇಲ್ಲಿ ನಿಮ್ಮ ಹತ್ತಿರದ ಆಸ್ಪತ್ರೆಗಳಿವೆ. ಯಾವುದಾದರೂ ಆರೋಗ್ಯ ಸಮಸ್ಯೆ ಇದ್ದರೆ ಹೇಳಿ.',
+  'triage.languageSuggested': 'ನೀವು {language}ಯಲ್ಲಿ ಬರೆಯುತ್ತಿರುವಂತಿದೆ — ಅದರಲ್ಲಿ ಉತ್ತರ ಪಡೆಯಲು ಟ್ಯಾಪ್ ಮಾಡಿ',
+
+  // ─── Welcome ───
+  'welcome.greeting': 'ನಮಸ್ಕಾರ! ಹೇಗಿದ್ದೀರಿ?',
+  'welcome.greetingNamed': 'ನಮಸ್ಕಾರ, {name}!',
+  'welcome.subtitle': 'ನಿಮ್ಮ ರೋಗಲಕ್ಷಣಗಳನ್ನು ಹೇಳಿ — ಸರಿಯಾದ ಆರೈಕೆಗೆ ನಾವು ಮಾರ್ಗದರ್ಶನ ನೀಡುತ್ತೇವೆ.',
+  'welcome.quickStart1': 'ತಲೆನೋವು',
+  'welcome.quickStart2': 'ಜ್ವರ ಮತ್ತು ಕೆಮ್ಮು',
+  'welcome.quickStart3': 'ಹೊಟ್ಟೆ ನೋವು',
+
+  // ─── Post-result follow-ups ───
+  'postResult.tellMore': 'ಇನ್ನಷ್ಟು ಹೇಳಿ',
+  'postResult.feelingNow': 'ಈಗ ಹೇಗಿದೆ',
+  'postResult.precautions': 'ಇನ್ನಷ್ಟು ಮುನ್ನೆಚ್ಚರಿಕೆ',
+
+  // ─── Report upload ───
+  'upload.button': 'ವರದಿ ಅಪ್‌ಲೋಡ್',
+  'upload.analyzing': 'ವಿಶ್ಲೇಷಣೆ...',
+  'upload.medicationsAdded': { one: 'ನಿಮ್ಮ ಔಷಧಿ ಪಟ್ಟಿಗೆ {count} ಔಷಧಿ ಸೇರಿಸಲಾಗಿದೆ', other: 'ನಿಮ್ಮ ಔಷಧಿ ಪಟ್ಟಿಗೆ {count} ಔಷಧಿಗಳನ್ನು ಸೇರಿಸಲಾಗಿದೆ' },
+  'upload.labResultsSaved': { one: '{count} ಲ್ಯಾಬ್ ಮೌಲ್ಯವನ್ನು ವರದಿಗಳಲ್ಲಿ ನಿಮ್ಮ ಪ್ರವೃತ್ತಿಗೆ ಉಳಿಸಲಾಗಿದೆ', other: '{count} ಲ್ಯಾಬ್ ಮೌಲ್ಯಗಳನ್ನು ವರದಿಗಳಲ್ಲಿ ನಿಮ್ಮ ಪ್ರವೃತ್ತಿಗೆ ಉಳಿಸಲಾಗಿದೆ' },
+  'upload.setLinked': '{count} ಫೈಲ್‌ಗಳನ್ನು ಒಟ್ಟಿಗೆ ವಿಶ್ಲೇಷಿಸಲಾಗಿದೆ — ಈ ಚಾಟ್‌ನಲ್ಲಿ ಅವುಗಳ ಬಗ್ಗೆ ಕೇಳಬಹುದು',
+  'upload.tooManyFiles': 'ಒಮ್ಮೆಗೆ ಗರಿಷ್ಠ {max} ಫೈಲ್‌ಗಳನ್ನು ಆಯ್ಕೆಮಾಡಿ.',
+  'upload.tooLarge': 'ಫೈಲ್‌ಗಳು ತುಂಬಾ ದೊಡ್ಡದಾಗಿವೆ — ಪ್ರತಿಯೊಂದೂ {fileMb}MB ವರೆಗೆ, ಒಟ್ಟು {setMb}MB ವರೆಗೆ.',
+  'upload.failed': 'ದಾಖಲೆಯನ್ನು ವಿಶ್ಲೇಷಿಸಲು ಆಗಲಿಲ್ಲ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+
+  // ─── Sign-up prompt ───
+  'signUp.title': 'ನಿಮ್ಮ ಆರೋಗ್ಯವನ್ನು ಟ್ರ್ಯಾಕ್ ಮಾಡಿ',
+  'signUp.subtitle': 'ಉಚಿತ ಖಾತೆ ರಚಿಸಿ, ನಿಮ್ಮ ಆರೋಗ್ಯ ಪ್ರೊಫೈಲ್ ಅನ್ನು ಉಳಿಸಿ.',
+  'signUp.cta': 'ಸೈನ್ ಅಪ್ ಮಾಡಿ',
+  'signUp.later': 'ನಂತರ',
+  'signUp.profile': 'ಪ್ರೊಫೈಲ್ ಪೂರ್ಣಗೊಳಿಸಿ',
+
+  // ─── Voice mode ───
+  'voice.idle': 'ಮಾತನಾಡಲು ಟ್ಯಾಪ್ ಮಾಡಿ',
+  'voice.listening': 'ಕೇಳುತ್ತಿದ್ದೇವೆ...',
+  'voice.transcribing': 'ಅರ್ಥಮಾಡಿಕೊಳ್ಳುತ್ತಿದ್ದೇವೆ...',
+  'voice.thinking': 'ಯೋಚಿಸುತ್ತಿದ್ದೇವೆ...',
+  'voice.speaking': 'ಹೇಳುತ್ತಿದ್ದೇವೆ...',
+  'voice.notUnderstood': 'ಅರ್ಥವಾಗಲಿಲ್ಲ. ಮತ್ತೆ ಹೇಳಿ ಅಥವಾ ಟೈಪ್ ಮಾಡಿ.',
+
+  // ─── Voice acknowledgments — ~3 seconds of speech each ───
+  'voice.ack.generic': 'ನಾನು ಕೇಳುತ್ತಿದ್ದೇನೆ. ನಿಮ್ಮ ರೋಗಲಕ್ಷಣಗಳನ್ನು ನೋಡುತ್ತೇನೆ.',
+  'voice.ack.head': 'ನಿಮ್ಮ ತಲೆನೋವು ಬಗ್ಗೆ ಅರ್ಥವಾಯಿತು. ನಾನು ನೋಡುತ್ತೇನೆ.',
+  'voice.ack.fever': 'ನಿಮಗೆ ಜ್ವರ ಇದೆ. ನಾನು ಮೌಲ್ಯಮಾಪನ ಮಾಡುತ್ತೇನೆ.',
+  'voice.ack.chest': 'ಎದೆ ಲಕ್ಷಣಗಳ ಬಗ್ಗೆ ಅರ್ಥವಾಯಿತು. ತಕ್ಷಣ ನೋಡುತ್ತೇನೆ.',
+  'voice.ack.stomach': 'ಹೊಟ್ಟೆ ತೊಂದರೆ ಬಗ್ಗೆ ಅರ್ಥವಾಯಿತು. ನಾನು ನೋಡುತ್ತೇನೆ.',
+  'voice.ack.breathing': 'ಉಸಿರಾಟ ತೊಂದರೆ ಬಗ್ಗೆ ಅರ್ಥವಾಯಿತು. ಎಚ್ಚರಿಕೆಯಿಂದ ನೋಡುತ್ತೇನೆ.',
+  'voice.ack.pain': 'ನಿಮ್ಮ ನೋವು ಬಗ್ಗೆ ಅರ್ಥವಾಯಿತು. ಲಕ್ಷಣಗಳನ್ನು ನೋಡುತ್ತೇನೆ.',
+  'voice.ack.child': 'ಮಗುವಿನ ವಿಷಯ. ಎಚ್ಚರಿಕೆಯಿಂದ ನೋಡುತ್ತೇನೆ.',
+
+  // ─── Symptom fast-path follow-ups ───
+  'pattern.fever.question': 'ಎಷ್ಟು ದಿನಗಳಿಂದ ಜ್ವರ ಇದೆ?',
+  'pattern.fever.option1.label': 'ಇಂದಿನಿಂದ',
+  'pattern.fever.option1.value': 'ಇಂದಿನಿಂದ ಜ್ವರ',
+  'pattern.fever.option2.label': '1-2 ದಿನ',
+  'pattern.fever.option2.value': '1-2 ದಿನಗಳಿಂದ ಜ್ವರ',
+  'pattern.fever.option3.label': '3-5 ದಿನ',
+  'pattern.fever.option3.value': '3-5 ದಿನಗಳಿಂದ ಜ್ವರ',
+  'pattern.fever.option4.label': '5 ದಿನಕ್ಕಿಂತ ಹೆಚ್ಚು',
+  'pattern.fever.option4.value': '5 ದಿನಕ್ಕಿಂತ ಹೆಚ್ಚು ಜ್ವರ',
+  'pattern.headache.question': 'ಇದು ನಿಮಗೆ ಈವರೆಗೆ ಬಂದ ಅತ್ಯಂತ ತೀವ್ರ ತಲೆನೋವಾ, ಅಥವಾ ಯಾವಾಗಲೂ ಬರುವ ತರಹ ಇದೆಯಾ?',
+  'pattern.headache.option1.label': 'ಅತ್ಯಂತ ತೀವ್ರ',
+  'pattern.headache.option1.value': 'ಇದು ಈವರೆಗೆ ಬಂದ ಅತ್ಯಂತ ತೀವ್ರ ಹಠಾತ್ ತಲೆನೋವು',
+  'pattern.headache.option2.label': 'ಯಾವಾಗಲೂ ಬರುವ',
+  'pattern.headache.option2.value': 'ಯಾವಾಗಲೂ ಬರುವ ತಲೆನೋವಿನ ರೀತಿ ಇದೆ',
+  'pattern.headache.option3.label': 'ಜ್ವರದೊಂದಿಗೆ',
+  'pattern.headache.option3.value': 'ತಲೆನೋವಿನ ಜೊತೆಗೆ ಜ್ವರವೂ ಇದೆ',
+  'pattern.headache.option4.label': 'ಗೊತ್ತಿಲ್ಲ',
+  'pattern.headache.option4.value': 'ನನಗೆ ಖಚಿತವಾಗಿ ಗೊತ್ತಿಲ್ಲ',
+  'pattern.cough.question': 'ಎಷ್ಟು ದಿನಗಳಿಂದ ಕೆಮ್ಮು ಇದೆ? ಕಫದಲ್ಲಿ ರಕ್ತ ಬರುತ್ತಿದೆಯಾ?',
+  'pattern.cough.option1.label': 'ಕೆಲವು ದಿನ',
+  'pattern.cough.option1.value': 'ಕೆಲವು ದಿನಗಳಿಂದ ಕೆಮ್ಮು, ರಕ್ತ ಇಲ್ಲ',
+  'pattern.cough.option2.label': '1-2 ವಾರ',
+  'pattern.cough.option2.value': '1-2 ವಾರಗಳಿಂದ ಕೆಮ್ಮು',
+  'pattern.cough.option3.label': '2 ವಾರಕ್ಕಿಂತ ಹೆಚ್ಚು',
+  'pattern.cough.option3.value': '2 ವಾರಕ್ಕಿಂತ ಹೆಚ್ಚು ಕೆಮ್ಮು',
+  'pattern.cough.option4.label': 'ರಕ್ತ ಬರುತ್ತಿದೆ',
+  'pattern.cough.option4.value': 'ಕಫದಲ್ಲಿ ರಕ್ತ ಬರುತ್ತಿದೆ',
+  'pattern.stomach_pain.question': 'ನೋವು ಎಲ್ಲಿ ಇದೆ — ಮೇಲೆ, ಕೆಳಗೆ, ಎಡಭಾಗ, ಬಲಭಾಗ?',
+  'pattern.stomach_pain.option1.label': 'ಮೇಲೆ ಮಧ್ಯದಲ್ಲಿ',
+  'pattern.stomach_pain.option1.value': 'ಹೊಟ್ಟೆಯ ಮೇಲೆ ಮಧ್ಯದಲ್ಲಿ ನೋವು',
+  'pattern.stomach_pain.option2.label': 'ಕೆಳಗೆ ಬಲಭಾಗ',
+  'pattern.stomach_pain.option2.value': 'ಹೊಟ್ಟೆಯ ಕೆಳಗೆ ಬಲಭಾಗದಲ್ಲಿ ನೋವು',
+  'pattern.stomach_pain.option3.label': 'ಎಲ್ಲಾ ಕಡೆ',
+  'pattern.stomach_pain.option3.value': 'ಇಡೀ ಹೊಟ್ಟೆಯಲ್ಲಿ ನೋವು',
+  'pattern.stomach_pain.option4.label': 'ಗೊತ್ತಿಲ್ಲ',
+  'pattern.stomach_pain.option4.value': 'ನನಗೆ ಎಲ್ಲಿ ನೋವು ಇದೆ ಎಂದು ಗೊತ್ತಿಲ್ಲ',
+  'pattern.diarrhea.question': 'ಇಂದು ಎಷ್ಟು ಬಾರಿ? ಮಲದಲ್ಲಿ ರಕ್ತ ಅಥವಾ ಲೋಳೆ ಇದೆಯಾ?',
+  'pattern.diarrhea.option1.label': '2-3 ಬಾರಿ',
+  'pattern.diarrhea.option1.value': 'ಇಂದು 2-3 ಬಾರಿ ಭೇದಿ',
+  'pattern.diarrhea.option2.label': '4-6 ಬಾರಿ',
+  'pattern.diarrhea.option2.value': 'ಇಂದು 4-6 ಬಾರಿ ಭೇದಿ',
+  'pattern.diarrhea.option3.label': '6 ಕ್ಕಿಂತ ಹೆಚ್ಚು',
+  'pattern.diarrhea.option3.value': 'ಇಂದು 6 ಕ್ಕಿಂತ ಹೆಚ್ಚು ಬಾರಿ ಭೇದಿ',
+  'pattern.diarrhea.option4.label': 'ರಕ್ತ ಬರುತ್ತಿದೆ',
+  'pattern.diarrhea.option4.value': 'ಮಲದಲ್ಲಿ ರಕ್ತ ಅಥವಾ ಲೋಳೆ ಬರುತ್ತಿದೆ',
+  'pattern.period_issues.question': 'ಮುಟ್ಟು ಎಷ್ಟು ದಿನ ತಡವಾಗಿದೆ? ತೂಕ ಹೆಚ್ಚಾಗಿದೆಯಾ ಅಥವಾ ಮುಖದಲ್ಲಿ ಕೂದಲು ಅಥವಾ ಮೊಡವೆ ಬಂದಿದೆಯಾ?',
+  'pattern.period_issues.option1.label': 'ಕೆಲವು ದಿನ ತಡ',
+  'pattern.period_issues.option1.value': 'ಮುಟ್ಟು ಕೆಲವು ದಿನ ತಡವಾಗಿದೆ',
+  'pattern.period_issues.option2.label': '2 ವಾರಕ್ಕಿಂತ ಹೆಚ್ಚು',
+  'pattern.period_issues.option2.value': 'ಮುಟ್ಟು 2 ವಾರಕ್ಕಿಂತ ಹೆಚ್ಚು ತಡವಾಗಿದೆ',
+  'pattern.period_issues.option3.label': 'ಅನಿಯಮಿತ + ತೂಕ',
+  'pattern.period_issues.option3.value': 'ಮುಟ್ಟು ಅನಿಯಮಿತ ಮತ್ತು ತೂಕ ಹೆಚ್ಚಾಗಿದೆ',
+  'pattern.period_issues.option4.label': 'ಹೆಚ್ಚು/ನೋವು',
+  'pattern.period_issues.option4.value': 'ಮುಟ್ಟು ತುಂಬಾ ಹೆಚ್ಚಾಗಿದೆ ಮತ್ತು ನೋವು ಇದೆ',
+  'pattern.body_ache.question': 'ಜ್ವರವೂ ಇದೆಯಾ? ನೋವು ಕೀಲುಗಳಲ್ಲಿ ಇದೆಯಾ ಅಥವಾ ಇಡೀ ಮೈಯಲ್ಲಿ?',
+  'pattern.body_ache.option1.label': 'ಜ್ವರ + ನೋವು',
+  'pattern.body_ache.option1.value': 'ಜ್ವರದೊಂದಿಗೆ ಇಡೀ ಮೈಯಲ್ಲಿ ನೋವು',
+  'pattern.body_ache.option2.label': 'ಕೀಲು ನೋವು ಮಾತ್ರ',
+  'pattern.body_ache.option2.value': 'ಕೀಲುಗಳಲ್ಲಿ ಮಾತ್ರ ನೋವು, ಜ್ವರ ಇಲ್ಲ',
+  'pattern.body_ache.option3.label': 'ದಣಿವು/ಆಯಾಸ',
+  'pattern.body_ache.option3.value': 'ತುಂಬಾ ದಣಿವಾಗಿದೆ ಮತ್ತು ಆಯಾಸವಾಗಿದೆ',
+  'pattern.body_ache.option4.label': 'ವ್ಯಾಯಾಮದ ನಂತರ',
+  'pattern.body_ache.option4.value': 'ದೈಹಿಕ ಚಟುವಟಿಕೆಯ ನಂತರ ನೋವು ಶುರುವಾಯಿತು',
+  'pattern.breathing.question': 'ಉಸಿರಾಟ ಕಷ್ಟ ವಿಶ್ರಾಂತಿಯಲ್ಲಿ ಆಗುತ್ತಾ ಅಥವಾ ಚಟುವಟಿಕೆ ಮಾಡುವಾಗ ಮಾತ್ರ? ಇದ್ದಕ್ಕಿದ್ದಂತೆ ಶುರುವಾಯಿತಾ?',
+  'pattern.breathing.option1.label': 'ವಿಶ್ರಾಂತಿಯಲ್ಲಿ',
+  'pattern.breathing.option1.value': 'ಏನೂ ಮಾಡದೆಯೂ ಉಸಿರಾಟ ಕಷ್ಟವಾಗುತ್ತಿದೆ',
+  'pattern.breathing.option2.label': 'ಚಟುವಟಿಕೆಯಲ್ಲಿ',
+  'pattern.breathing.option2.value': 'ನಡೆಯುವಾಗ ಅಥವಾ ಮೆಟ್ಟಿಲು ಹತ್ತುವಾಗ ಮಾತ್ರ',
+  'pattern.breathing.option3.label': 'ವ್ಯಾಯಾಮದ ನಂತರ',
+  'pattern.breathing.option3.value': 'ಓಡಿದ ನಂತರ ಏದುಸಿರು, ವಿಶ್ರಾಂತಿ ತೆಗೆದುಕೊಂಡರೆ ಸರಿಯಾಗುತ್ತದೆ',
+  'pattern.breathing.option4.label': 'ಇದ್ದಕ್ಕಿದ್ದಂತೆ',
+  'pattern.breathing.option4.value': 'ಉಸಿರಾಟ ಕಷ್ಟ ಇದ್ದಕ್ಕಿದ್ದಂತೆ ಶುರುವಾಯಿತು',
+  'pattern.skin.question': 'ದದ್ದು ವೃತ್ತಾಕಾರವಾಗಿದೆಯಾ? ನಿಮ್ಮ ಕುಟುಂಬದಲ್ಲಿ ಬೇರೆ ಯಾರಿಗಾದರೂ ಇದೆಯಾ?',
+  'pattern.skin.option1.label': 'ವೃತ್ತಾಕಾರ ದದ್ದು',
+  'pattern.skin.option1.value': 'ವೃತ್ತಾಕಾರ ದದ್ದು, ಮಧ್ಯದಲ್ಲಿ ಸ್ಪಷ್ಟ, ತುಂಬಾ ತುರಿಕೆ',
+  'pattern.skin.option2.label': 'ಎಲ್ಲಾ ಕಡೆ ತುರಿಕೆ',
+  'pattern.skin.option2.value': 'ಇಡೀ ಮೈಯಲ್ಲಿ ತುರಿಕೆ, ರಾತ್ರಿ ಹೆಚ್ಚು',
+  'pattern.skin.option3.label': 'ಮೊಡವೆ',
+  'pattern.skin.option3.value': 'ಮುಖದಲ್ಲಿ ಮೊಡವೆ ಇದೆ',
+  'pattern.skin.option4.label': 'ಬೇರೆ ಸಮಸ್ಯೆ',
+  'pattern.skin.option4.value': 'ಬೇರೆ ಯಾವುದೋ ಚರ್ಮ ಸಮಸ್ಯೆ ಇದೆ',
+  'pattern.cold_flu.question': 'ಎಷ್ಟು ದಿನಗಳಿಂದ ಇದೆ? ಜ್ವರ ಅಥವಾ ಮೈ ನೋವು ಕೂಡ ಇದೆಯಾ?',
+  'pattern.cold_flu.option1.label': '1-3 ದಿನ',
+  'pattern.cold_flu.option1.value': '1-3 ದಿನಗಳಿಂದ ಶೀತ, ಮೂಗು ಸೋರುವುದು ಮಾತ್ರ',
+  'pattern.cold_flu.option2.label': 'ಜ್ವರದೊಂದಿಗೆ',
+  'pattern.cold_flu.option2.value': 'ಶೀತದ ಜೊತೆಗೆ ಜ್ವರ ಮತ್ತು ಮೈ ನೋವು',
+  'pattern.cold_flu.option3.label': 'ಒಂದು ವಾರಕ್ಕಿಂತ ಹೆಚ್ಚು',
+  'pattern.cold_flu.option3.value': 'ಒಂದು ವಾರಕ್ಕಿಂತ ಹೆಚ್ಚು ಶೀತ',
+  'pattern.cold_flu.option4.label': 'ಹೆಚ್ಚಾಗುತ್ತಿದೆ',
+  'pattern.cold_flu.option4.value': 'ಶೀತ ಮೊದಲು ಕಡಿಮೆ ಇತ್ತು ಈಗ ಹೆಚ್ಚಾಗುತ್ತಿದೆ',
+
+  // ─── Period health ───
+  'period.headerTitle': 'ಮುಟ್ಟಿನ ಆರೋಗ್ಯ',
+  'period.headerTitleAlly': 'ಮುಟ್ಟಿನ ಆರೋಗ್ಯ ಜಾಗೃತಿ',
+  'period.headerSubtitle': 'AI-ಚಾಲಿತ ಮುಟ್ಟಿನ ಆರೋಗ್ಯ',
+  'period.headerSubtitleAlly': 'ನಿಮ್ಮ ಜೀವನದ ಮಹಿಳೆಯರನ್ನು ಬೆಂಬಲಿಸಿ',
+  'period.history': 'ಇತಿಹಾಸ',
+  'period.dashboard': 'ಡ್ಯಾಶ್‌ಬೋರ್ಡ್',
+  'period.signInTitle': 'ಮುಟ್ಟಿನ ಆರೋಗ್ಯವನ್ನು ನೋಡಲು ಸೈನ್ ಇನ್ ಮಾಡಿ',
+  'period.signInDesc': 'ನಿಮ್ಮ ಆರೋಗ್ಯ ಡೇಟಾ ಖಾಸಗಿ ಮತ್ತು ನಿಮಗೆ ಮಾತ್ರ ಗೋಚರಿಸುತ್ತದೆ.',
+  'period.backToSehat': 'ಸೆಹತ್‌ಗೆ ಹಿಂತಿರುಗಿ',
+  'period.retry': 'ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ',
+  'period.allyHeroTitle': 'ಅವಳ ಬೆಂಬಲಿಗರಾಗಿ',
+  'period.allyHeroDesc': 'ಭಾರತದಲ್ಲಿ 71% ಹದಿಹರೆಯದ ಹುಡುಗಿಯರಿಗೆ ತಮ್ಮ ಮೊದಲ ಮುಟ್ಟಿನ ಮೊದಲು ಅದರ ಬಗ್ಗೆ ತಿಳಿದಿರುವುದಿಲ್ಲ. ನೀವು ಕಲಿಯುವ, ಅರ್ಥಮಾಡಿಕೊಳ್ಳುವ ಮತ್ತು ಬೆಂಬಲಿಸುವ ಮೂಲಕ ಇದನ್ನು ಬದಲಾಯಿಸಬಹುದು.',
+  'period.eduCard1Title': 'ಮುಟ್ಟು ಎಂದರೇನು?',
+  'period.eduCard1Body': 'ಮುಟ್ಟು (ಪೀರಿಯಡ್ಸ್) ಎಂಬುದು ಗರ್ಭಕೋಶವು ತನ್ನ ಒಳಪೊರೆಯನ್ನು ಬಿಡುಗಡೆ ಮಾಡುವ ನೈಸರ್ಗಿಕ ಮಾಸಿಕ ಪ್ರಕ್ರಿಯೆ. ಇದು ಸಾಮಾನ್ಯವಾಗಿ 3-7 ದಿನಗಳ ಕಾಲ ಇರುತ್ತದೆ, ಪ್ರತಿ 21-35 ದಿನಗಳಿಗೊಮ್ಮೆ ಆಗುತ್ತದೆ. ಇದು ರೋಗ, ದೌರ್ಬಲ್ಯ ಅಥವಾ ಅಶುದ್ಧತೆ ಅಲ್ಲ — ಉತ್ತಮ ಆರೋಗ್ಯದ ಸಂಕೇತ.',
+  'period.eduCard2Title': 'ನೀವು ಹೇಗೆ ಸಹಾಯ ಮಾಡಬಹುದು?',
+  'period.eduCard2Body': 'ಮುಜುಗರವಿಲ್ಲದೆ ಸ್ಯಾನಿಟರಿ ಉತ್ಪನ್ನಗಳನ್ನು ಖರೀದಿಸಿ. ನೋವಿಗೆ ಬಿಸಿ ನೀರಿನ ಬಾಟಲಿ ಕೊಡಿ. ತಮಾಷೆ ಮಾಡಬೇಡಿ. ಅಗತ್ಯವಿರುವಾಗ ಜಾಗ ಕೊಡಿ. "ನಾನು ಹೇಗೆ ಸಹಾಯ ಮಾಡಲಿ?" ಎಂದು ಕೇಳಿ.',
+  'period.eduCard3Title': 'ತೊಡೆದುಹಾಕಬೇಕಾದ ಮಿಥ್ಯೆಗಳು',
+  'period.eduCard3Body': 'ಮುಟ್ಟಿನ ಸಮಯದಲ್ಲಿ ಮಹಿಳೆಯರು ಅಡುಗೆ ಮಾಡಬಹುದು, ದೇವಸ್ಥಾನಕ್ಕೆ ಹೋಗಬಹುದು, ಉಪ್ಪಿನಕಾಯಿ ಮುಟ್ಟಬಹುದು — ಈ ನಿರ್ಬಂಧಗಳಿಗೆ ಯಾವುದೇ ವೈಜ್ಞಾನಿಕ ಆಧಾರವಿಲ್ಲ.',
+  'period.eduCard4Title': 'ವೈದ್ಯರ ಬಳಿ ಯಾವಾಗ ಹೋಗಬೇಕು',
+  'period.eduCard4Body': 'ತುಂಬಾ ಹೆಚ್ಚು ರಕ್ತಸ್ರಾವ (ಪ್ರತಿ 1-2 ಗಂಟೆಗೆ ಪ್ಯಾಡ್ ಬದಲಾಯಿಸುವುದು), ದೈನಂದಿನ ಚಟುವಟಿಕೆಗಳನ್ನು ತಡೆಯುವ ತೀವ್ರ ನೋವು, 3+ ತಿಂಗಳು ಮುಟ್ಟು ಬಾರದಿರುವುದು — ಸ್ತ್ರೀರೋಗ ತಜ್ಞರನ್ನು ಭೇಟಿ ಮಾಡಲು ಪ್ರೋತ್ಸಾಹಿಸಿ.',
+  'period.quickFacts': 'ಪ್ರಮುಖ ಸಂಗತಿಗಳು',
+  'period.fact1': 'ಮುಟ್ಟು ಸಾಮಾನ್ಯವಾಗಿ 3-7 ದಿನ ಇರುತ್ತದೆ, ಪ್ರತಿ 21-35 ದಿನಗಳಿಗೊಮ್ಮೆ ಬರುತ್ತದೆ',
+  'period.fact2': 'ನೋವು, ಮನಸ್ಥಿತಿ ಬದಲಾವಣೆ ಮತ್ತು ಆಯಾಸ ಸಹಜ — "ಡ್ರಾಮಾ" ಅಲ್ಲ',
+  'period.fact3': 'ಒಬ್ಬ ಮಹಿಳೆ ತನ್ನ ಜೀವಿತಾವಧಿಯಲ್ಲಿ ~10,000-15,000 ಪ್ಯಾಡ್‌ಗಳನ್ನು ಬಳಸುತ್ತಾಳೆ — ಮುಟ್ಟಿನ ಉತ್ಪನ್ನಗಳು ಅಗತ್ಯ, ಐಷಾರಾಮ ಅಲ್ಲ',
+  'period.fact4': 'PCOS ಭಾರತದಲ್ಲಿ ಪ್ರತಿ 5 ಮಹಿಳೆಯರಲ್ಲಿ 1 ಮಹಿಳೆಯನ್ನು ಪ್ರಭಾವಿಸುತ್ತದೆ — ಇದಕ್ಕೆ ಅರಿವು ಬೇಕು, ಅವಮಾನ ಅಲ್ಲ',
+  'period.fact5': 'ಮುಟ್ಟಿನ ಬಗ್ಗೆ ಮುಕ್ತವಾಗಿ ಮಾತನಾಡುವುದು ಮುಂದಿನ ಪೀಳಿಗೆಯನ್ನು ಆರೋಗ್ಯವಂತರನ್ನಾಗಿ ಬೆಳೆಸಲು ಸಹಾಯ ಮಾಡುತ್ತದೆ',
+  'period.ctaShare': 'ಈ ಪುಟವನ್ನು ಅಗತ್ಯವಿರುವವರೊಂದಿಗೆ ಹಂಚಿಕೊಳ್ಳಿ',
+  'period.ctaBreak': 'ನಿಷೇಧವನ್ನು ಮುರಿಯುವುದು ಒಂದು ಸಂಭಾಷಣೆಯಿಂದ ಪ್ರಾರಂಭವಾಗುತ್ತದೆ. ನೀವು ಈಗ ಪ್ರಾರಂಭಿಸಿದ್ದೀರಿ.',
+  'period.cycleOverview': 'ಚಕ್ರ ಅವಲೋಕನ',
+  'period.cyclesLogged': '{count} ಚಕ್ರಗಳು ದಾಖಲು',
+  'period.avgCycleDays': 'ಸರಾಸರಿ ಚಕ್ರ (ದಿನಗಳು)',
+  'period.avgPeriodDays': 'ಸರಾಸರಿ ಮುಟ್ಟು (ದಿನಗಳು)',
+  'period.daysLate': 'ದಿನಗಳು ತಡವಾಗಿ',
+  'period.daysUntilNext': 'ಮುಂದಿನವರೆಗೆ ದಿನಗಳು',
+  'period.nextPeriod': 'ಮುಂದಿನ ಮುಟ್ಟು',
+  'period.logPeriod': 'ಮುಟ್ಟು ದಾಖಲಿಸಿ',
+  'period.logYourPeriod': 'ನಿಮ್ಮ ಮುಟ್ಟನ್ನು ದಾಖಲಿಸಿ',
+  'period.startDate': 'ಪ್ರಾರಂಭ ದಿನಾಂಕ',
+  'period.periodLength': 'ಮುಟ್ಟಿನ ಅವಧಿ (ದಿನಗಳು)',
+  'period.flowLevel': 'ಹರಿವಿನ ಮಟ್ಟ',
+  'period.flowLight': 'ಕಡಿಮೆ',
+  'period.flowMedium': 'ಮಧ್ಯಮ',
+  'period.flowHeavy': 'ಹೆಚ್ಚು',
+  'period.symptoms': 'ರೋಗಲಕ್ಷಣಗಳು',
+  'period.mood': 'ಮನಸ್ಥಿತಿ',
+  'period.notesOpt': 'ಟಿಪ್ಪಣಿಗಳು (ಐಚ್ಛಿಕ)',
+  'period.save': 'ಉಳಿಸಿ',
+  'period.saving': 'ಉಳಿಸಲಾಗುತ್ತಿದೆ...',
+  'period.cycleHistory': 'ಚಕ್ರ ಇತಿಹಾಸ',
+  'period.days': '{count} ದಿನಗಳು',
+  'period.flow': 'ಹರಿವು',
+  'period.dayCycle': '{count} ದಿನ ಚಕ್ರ',
+  'period.emptyTitle': 'ನಿಮ್ಮ ಚಕ್ರವನ್ನು ಟ್ರ್ಯಾಕ್ ಮಾಡಲು ಪ್ರಾರಂಭಿಸಿ',
+  'period.emptyDesc': 'ನಿಮ್ಮ ಮುಟ್ಟನ್ನು ದಾಖಲಿಸಿ — ವೈಯಕ್ತಿಕ ಮುನ್ಸೂಚನೆಗಳು, ಆರೋಗ್ಯ ಒಳನೋಟಗಳು ಮತ್ತು ಜ್ಞಾಪನೆಗಳನ್ನು ಪಡೆಯಿರಿ.',
+  'period.askTitle': 'ಮುಟ್ಟಿನ ಆರೋಗ್ಯದ ಬಗ್ಗೆ ಕೇಳಿ',
+  'period.askTitleAlly': 'ಮುಟ್ಟಿನ ಆರೋಗ್ಯದ ಬಗ್ಗೆ ಕೇಳಿ',
+  'period.askDesc': 'ಮುಟ್ಟು, ಚಕ್ರ ಆರೋಗ್ಯ, ನೈರ್ಮಲ್ಯ, PCOS, ಅಥವಾ ಮುಟ್ಟಿನ ಆರೋಗ್ಯದ ಬಗ್ಗೆ ಏನನ್ನಾದರೂ ಕೇಳಿ — ನಿಮ್ಮ ಭಾಷೆಯಲ್ಲಿ.',
+  'period.askDescAlly': 'ಮುಟ್ಟಿನ ಆರೋಗ್ಯದ ಬಗ್ಗೆ ಏನನ್ನಾದರೂ ಕೇಳಿ — ಮುಟ್ಟನ್ನು ಅರ್ಥಮಾಡಿಕೊಳ್ಳಿ, ಮಿಥ್ಯೆಗಳನ್ನು ಮುರಿಯಿರಿ, ಬೆಂಬಲಿಸಲು ಕಲಿಯಿರಿ.',
+  'period.askPlaceholder': 'ನಿಮ್ಮ ಪ್ರಶ್ನೆ ಕೇಳಿ...',
+  'period.askBtn': 'ಕೇಳಿ',
+  'period.thinking': 'ಯೋಚಿಸುತ್ತಿದೆ...',
+  'period.aiDisclaimer': 'AI ಉತ್ತರ — ವೈದ್ಯಕೀಯ ಸಲಹೆಗಾಗಿ ವೈದ್ಯರನ್ನು ಸಂಪರ್ಕಿಸಿ',
+  'period.sCramps': 'ನೋವು',
+  'period.sHeadache': 'ತಲೆನೋವು',
+  'period.sBackPain': 'ಬೆನ್ನು ನೋವು',
+  'period.sBloating': 'ಹೊಟ್ಟೆ ಉಬ್ಬರ',
+  'period.sFatigue': 'ಆಯಾಸ',
+  'period.sMoodSwings': 'ಮನಸ್ಥಿತಿ ಬದಲಾವಣೆ',
+  'period.sAcne': 'ಮೊಡವೆ',
+  'period.sBreast': 'ಎದೆ ನೋವು',
+  'period.sNausea': 'ವಾಕರಿಕೆ',
+  'period.sCravings': 'ಆಹಾರ ಬಯಕೆ',
+  'period.mHappy': 'ಸಂತೋಷ',
+  'period.mCalm': 'ಶಾಂತ',
+  'period.mAnxious': 'ಆತಂಕ',
+  'period.mSad': 'ದುಃಖ',
+  'period.mIrritable': 'ಕಿರಿಕಿರಿ',
+  'period.mEnergetic': 'ಚೈತನ್ಯ',
+  'period.mTired': 'ದಣಿವು',
+  'period.footerAlly': 'ಜ್ಞಾನವೇ ಶಕ್ತಿ. ಮುಟ್ಟಿನ ಆರೋಗ್ಯದ ಬಗ್ಗೆ ಮೌನ ಮುರಿಯಿರಿ.',
+  'period.deleteConfirm': 'ಈ ಚಕ್ರವನ್ನು ಅಳಿಸಲು ಬಯಸುವಿರಾ?',
+  'period.footerTracker': 'ನಿಮ್ಮ ಮುಟ್ಟಿನ ಡೇಟಾ ಖಾಸಗಿ. ಇದು ವೈದ್ಯಕೀಯ ರೋಗನಿರ್ಣಯ ಅಲ್ಲ.',
+  'period.allyQuestion1': 'ಮುಟ್ಟಿನ ಬಗ್ಗೆ ನಾನು ಏನು ತಿಳಿದಿರಬೇಕು?',
+  'period.allyQuestion2': 'ನನ್ನ ಸಹೋದರಿ/ಪತ್ನಿಗೆ ನಾನು ಹೇಗೆ ಸಹಾಯ ಮಾಡಬಹುದು?',
+  'period.allyQuestion3': 'ಮುಟ್ಟಿನ ಬಗ್ಗೆ ಮಿಥ್ಯೆಗಳೇನು?',
+  'period.selfQuestion1': 'ಮುಟ್ಟಿನ ನೋವನ್ನು ನೈಸರ್ಗಿಕವಾಗಿ ಕಡಿಮೆ ಮಾಡುವುದು ಹೇಗೆ',
+  'period.selfQuestion2': 'PCOS ಎಂದರೇನು?',
+  'period.selfQuestion3': 'ಮುಟ್ಟಿನ ಸಮಯದಲ್ಲಿ ಏನು ತಿನ್ನಬೇಕು',
+
+  // ─── Follow-up check reminders ───
+  'followup.reminder': 'ಸೆಹತ್ ಚೆಕ್-ಇನ್: ಈಗ ನಿಮಗೆ ಹೇಗಿದೆ — ಮೊದಲಿಗಿಂತ ಉತ್ತಮ, ಹಾಗೆಯೇ, ಅಥವಾ ಇನ್ನಷ್ಟು ಕೆಟ್ಟದಾಗಿದೆಯೇ?',
+  'followup.reminderLink': 'ಇಲ್ಲಿ ಉತ್ತರಿಸಿ: {url}',
+  'followup.emailSubject': 'ನಿಮಗೆ ಹೇಗಿದೆ? — ಸೆಹತ್ ಚೆಕ್-ಇನ್',
+
+  // ─── Follow-up inbox ───
+  'followup.pageTitle': 'ಚೆಕ್-ಇನ್‌ಗಳು',
+  'followup.sectionDue': 'ಈಗ ಮಾಡಬೇಕಾದವು',
+  'followup.sectionUpcoming': 'ಮುಂಬರುವವು',
+  'followup.sectionPast': 'ಹಿಂದಿನವು',
+  'followup.checkAt': '{date} ರಂದು ಚೆಕ್-ಇನ್',
+  'followup.escalation': 'ಹೀಗಿದ್ದರೆ ತಕ್ಷಣ ಚಿಕಿತ್ಸೆ ಪಡೆಯಿರಿ: {criteria}',
+  'followup.question': 'ಈಗ ನಿಮಗೆ ಹೇಗಿದೆ?',
+  'followup.better': 'ಉತ್ತಮ',
+  'followup.same': 'ಹಾಗೆಯೇ',
+  'followup.worse': 'ಇನ್ನಷ್ಟು ಕೆಟ್ಟದು',
+  'followup.dismiss': 'ತೆಗೆದುಹಾಕಿ',
+  'followup.continue': 'ಸಂಭಾಷಣೆ ಮುಂದುವರಿಸಿ',
+  'followup.statusCompleted': 'ಉತ್ತರಿಸಲಾಗಿದೆ',
+  'followup.statusEscalated': 'ಕೆಟ್ಟದಾಯಿತು',
+  'followup.statusDismissed': 'ತೆಗೆದುಹಾಕಲಾಗಿದೆ',
+  'followup.empty': 'ಇನ್ನೂ ಯಾವುದೇ ಚೆಕ್-ಇನ್‌ಗಳಿಲ್ಲ. ಯಾವುದಾದರೂ ಲಕ್ಷಣದ ಬಗ್ಗೆ ನಂತರ ನಿಮ್ಮಿಂದ ತಿಳಿಯಬೇಕಾದಾಗ ಸೆಹತ್ ಒಂದನ್ನು ನಿಗದಿಪಡಿಸುತ್ತದೆ.',
+  'followup.signIn': 'ನಿಮ್ಮ ಚೆಕ್-ಇನ್‌ಗಳನ್ನು ನೋಡಲು ಸೈನ್ ಇನ್ ಮಾಡಿ',
+  'followup.loadError': 'ನಿಮ್ಮ ಚೆಕ್-ಇನ್‌ಗಳನ್ನು ಲೋಡ್ ಮಾಡಲಾಗಲಿಲ್ಲ',
+  'followup.answerError': 'ನಿಮ್ಮ ಉತ್ತರವನ್ನು ಉಳಿಸಲಾಗಲಿಲ್ಲ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+  'followup.checkInBanner': 'ಫಾಲೋ-ಅಪ್ ಚೆಕ್-ಇನ್: {reason}',
+
+  // ─── Emergency guide ───
+  'emergency.title': 'ತುರ್ತು ಪರಿಸ್ಥಿತಿ',
+  'emergency.intro': 'ಇದು ತುರ್ತು ಪರಿಸ್ಥಿತಿ. ಈಗಲೇ {number} ಗೆ ಕರೆ ಮಾಡಿ — ಕೆಂಪು ಬಟನ್ ಒತ್ತಿ. ಸಹಾಯ ಬರುವವರೆಗೆ ನಾನು ನಿಮಗೆ ಒಂದೊಂದೇ ಹಂತ ಹೇಳುತ್ತೇನೆ.',
+  'emergency.call': 'ಈಗಲೇ {number} ಗೆ ಕರೆ ಮಾಡಿ',
+  'emergency.ambulance': 'ಆಂಬ್ಯುಲೆನ್ಸ್: {number}',
+  'emergency.stepOf': 'ಹಂತ {current} / {total}',
+  'emergency.next': 'ಮುಂದೆ',
+  'emergency.repeat': 'ಮತ್ತೆ',
+  'emergency.back': 'ಹಿಂದೆ',
+  'emergency.sayNext': 'ಮುಗಿದ ಮೇಲೆ "ಆಯಿತು" ಎನ್ನಿ, ಅಥವಾ ಮುಂದೆ ಒತ್ತಿ',
+  'emergency.sayBreathing': '"ಉಸಿರು ಇದೆ" ಅಥವಾ "ಉಸಿರು ಇಲ್ಲ" ಎನ್ನಿ, ಅಥವಾ ಒಂದು ಬಟನ್ ಒತ್ತಿ',
+  'emergency.breathing': 'ಉಸಿರಾಡುತ್ತಿದ್ದಾರೆ',
+  'emergency.startCpr': 'ಉಸಿರಾಡುತ್ತಿಲ್ಲವೇ? CPR ಆರಂಭಿಸಿ',
+  'emergency.pushWithBeat': 'ಬೀಟ್ ಜೊತೆ ಒತ್ತಿ',
+  'emergency.pauseBeat': 'ಬೀಟ್ ನಿಲ್ಲಿಸಿ',
+  'emergency.resumeBeat': 'ಬೀಟ್ ಮತ್ತೆ ಆರಂಭಿಸಿ',
+  'emergency.fromAssessment': 'ನಿಮ್ಮ ಮೌಲ್ಯಮಾಪನದಿಂದ',
+  'emergency.finished': 'ಇವೇ ಎಲ್ಲಾ ಹಂತಗಳು. ಸಹಾಯ ಬರುವವರೆಗೆ ಅವರ ಜೊತೆಯಲ್ಲೇ ಇದ್ದು ಅವರ ಉಸಿರಾಟವನ್ನು ಗಮನಿಸುತ್ತಿರಿ.',
+  'emergency.close': 'ಮಾರ್ಗದರ್ಶಿ ಮುಚ್ಚಿ',
+  'emergency.cpr.title': 'ಸಿಪಿಆರ್ (CPR)',
+  'emergency.cpr.check': 'ಅವರ ಭುಜ ತಟ್ಟಿ ಜೋರಾಗಿ ಕರೆಯಿರಿ. ಅವರು ಸಾಮಾನ್ಯವಾಗಿ ಉಸಿರಾಡುತ್ತಿದ್ದಾರೆಯೇ? "ಉಸಿರು ಇದೆ" ಅಥವಾ "ಉಸಿರು ಇಲ್ಲ" ಎನ್ನಿ.',
+  'emergency.cpr.position': 'ಅವರನ್ನು ಗಟ್ಟಿಯಾದ ನೆಲದ ಮೇಲೆ ಅಂಗಾತ ಮಲಗಿಸಿ, ಅವರ ಎದೆಯ ಪಕ್ಕ ಮಂಡಿಯೂರಿ ಕುಳಿತುಕೊಳ್ಳಿ.',
+  'emergency.cpr.hands': 'ಒಂದು ಅಂಗೈಯ ಕೆಳಭಾಗವನ್ನು ಎದೆಯ ಮಧ್ಯದಲ್ಲಿ ಇಟ್ಟು, ಇನ್ನೊಂದು ಕೈಯನ್ನು ಅದರ ಮೇಲೆ ಇಡಿ. ಕೈಗಳನ್ನು ನೇರವಾಗಿ ಇಡಿ.',
+  'emergency.cpr.compress': 'ಪ್ರತಿ ಬೀಟ್‌ಗೆ ಸುಮಾರು 5 ಸೆಂಟಿಮೀಟರ್ ಗಟ್ಟಿಯಾಗಿ, ವೇಗವಾಗಿ ಒತ್ತಿ. 30 ರವರೆಗೆ ಎಣಿಸಿ ಮತ್ತೆ ಆರಂಭಿಸಿ. ಸಹಾಯ ಬರುವವರೆಗೆ ನಿಲ್ಲಿಸಬೇಡಿ.',
+  'emergency.recovery.title': 'ರಿಕವರಿ ಸ್ಥಿತಿ',
+  'emergency.recovery.side': 'ಅವರ ಪಕ್ಕದಲ್ಲಿ ಮಂಡಿಯೂರಿ. ದೂರದ ಮಂಡಿಯನ್ನು ಮಡಚಿ, ಅದನ್ನು ಎಳೆದು ಅವರನ್ನು ನಿಮ್ಮ ಕಡೆಗೆ ಒಂದು ಬದಿಗೆ ತಿರುಗಿಸಿ.',
+  'emergency.recovery.airway': 'ತಲೆಯನ್ನು ನಿಧಾನವಾಗಿ ಹಿಂದಕ್ಕೆ ಬಾಗಿಸಿ ಬಾಯಿ ಕೆಳಮುಖವಾಗಿರಲಿ, ಆಗ ಉಸಿರಾಟ ಸರಾಗವಾಗಿರುತ್ತದೆ ಮತ್ತು ಬಾಯಲ್ಲಿರುವುದು ಹೊರಬರುತ್ತದೆ.',
+  'emergency.recovery.watch': 'ಅವರ ಜೊತೆಯಲ್ಲೇ ಇದ್ದು ಉಸಿರಾಟ ಗಮನಿಸುತ್ತಿರಿ. ಉಸಿರು ನಿಂತರೆ "ಉಸಿರು ಇಲ್ಲ" ಎನ್ನಿ ಅಥವಾ CPR ಆರಂಭಿಸಿ ಒತ್ತಿ.',
+  'emergency.choking.title': 'ಗಂಟಲು ಕಟ್ಟುವುದು',
+  'emergency.choking.cough': 'ಅವರು ಕೆಮ್ಮಲು ಅಥವಾ ಮಾತನಾಡಲು ಸಾಧ್ಯವಾದರೆ, ಕೆಮ್ಮುತ್ತಲೇ ಇರಲು ಬಿಡಿ. ಈಗಲೇ ಬೆನ್ನಿಗೆ ಹೊಡೆಯಬೇಡಿ.',
+  'emergency.choking.backBlows': 'ಅವರು ಉಸಿರಾಡಲು ಅಥವಾ ಮಾತನಾಡಲು ಆಗದಿದ್ದರೆ, ಮುಂದಕ್ಕೆ ಬಗ್ಗಿಸಿ, ಅಂಗೈಯ ಕೆಳಭಾಗದಿಂದ ಭುಜಗಳ ನಡುವೆ 5 ಬಾರಿ ಬಲವಾಗಿ ಹೊಡೆಯಿರಿ.',
+  'emergency.choking.thrusts': 'ನಂತರ ಅವರ ಹಿಂದೆ ನಿಂತು, ಹೊಕ್ಕುಳಿನ ಸ್ವಲ್ಪ ಮೇಲೆ ಮುಷ್ಟಿ ಇಟ್ಟು, 5 ಬಾರಿ ಒಳಗೆ ಮತ್ತು ಮೇಲಕ್ಕೆ ಜೋರಾಗಿ ಎಳೆಯಿರಿ. ಬೆನ್ನಿನ ಹೊಡೆತ ಮತ್ತು ಹೊಟ್ಟೆ ಒತ್ತುವಿಕೆಯನ್ನು ಪುನರಾವರ್ತಿಸುತ್ತಿರಿ.',
+  'emergency.choking.unconscious': 'ಅವರು ಪ್ರಜ್ಞೆ ತಪ್ಪಿದರೆ, ಅಂಗಾತ ಮಲಗಿಸಿ CPR ಆರಂಭಿಸಿ.',
+  'emergency.snakebite.title': 'ಹಾವು ಕಡಿತ',
+  'emergency.snakebite.calm': 'ವ್ಯಕ್ತಿಯನ್ನು ಶಾಂತವಾಗಿ, ಅಲುಗಾಡದಂತೆ ಮಲಗಿಸಿ. ಚಲಿಸಿದರೆ ವಿಷ ವೇಗವಾಗಿ ಹರಡುತ್ತದೆ.',
+  'emergency.snakebite.immobilize': 'ಕಚ್ಚಿದ ಕೈ ಅಥವಾ ಕಾಲನ್ನು, ಹೃದಯಕ್ಕಿಂತ ಕೆಳಗೆ, ಪಟ್ಟಿ ಕಟ್ಟಿದಂತೆ ಅಲುಗಾಡದಂತೆ ಇಡಿ. ಉಂಗುರ, ಬಳೆ, ಗಡಿಯಾರ ಮತ್ತು ಬಿಗಿಯಾದ ಬಟ್ಟೆ ತೆಗೆಯಿರಿ.',
+  'emergency.snakebite.dont': 'ಕಚ್ಚಿದ ಜಾಗವನ್ನು ಕೊಯ್ಯಬೇಡಿ, ಹೀರಬೇಡಿ, ಬಿಗಿಯಾಗಿ ಕಟ್ಟಬೇಡಿ, ಅದರ ಮೇಲೆ ಐಸ್ ಅಥವಾ ಗಿಡಮೂಲಿಕೆ ಹಚ್ಚಬೇಡಿ.',
+  'emergency.snakebite.transport': 'ವಿಷನಿರೋಧಕ ಔಷಧಿ ಇರುವ ಆಸ್ಪತ್ರೆಗೆ ಅವರನ್ನು ಎತ್ತಿಕೊಂಡು ಹೋಗಿ. ನಡೆಯಲು ಬಿಡಬೇಡಿ. ಕಚ್ಚಿದ ಸಮಯವನ್ನು ಬರೆದಿಟ್ಟುಕೊಳ್ಳಿ.',
+  'emergency.stroke.title': 'ಪಾರ್ಶ್ವವಾಯು — FAST ಪರೀಕ್ಷೆ',
+  'emergency.stroke.face': 'ಮುಖ (F): ನಗಲು ಹೇಳಿ. ಮುಖದ ಒಂದು ಬದಿ ಜೋತುಬಿದ್ದಿದೆಯೇ?',
+  'emergency.stroke.arms': 'ಕೈಗಳು (A): ಎರಡೂ ಕೈ ಎತ್ತಲು ಹೇಳಿ. ಒಂದು ಕೈ ಕೆಳಗೆ ಜಾರುತ್ತದೆಯೇ?',
+  'emergency.stroke.speech': 'ಮಾತು (S): ಒಂದು ಸರಳ ವಾಕ್ಯ ಪುನರಾವರ್ತಿಸಲು ಹೇಳಿ. ಮಾತು ತೊದಲುತ್ತಿದೆಯೇ ಅಥವಾ ವಿಚಿತ್ರವಾಗಿದೆಯೇ?',
+  'emergency.stroke.time': 'ಸಮಯ (T): ಇವುಗಳಲ್ಲಿ ಯಾವುದಾದರೂ ಕಂಡರೆ, ಆರಂಭವಾದ ಸಮಯ ಬರೆದಿಟ್ಟು ಈಗಲೇ ಆಸ್ಪತ್ರೆಗೆ ಕರೆದೊಯ್ಯಿರಿ. ಆಹಾರ, ನೀರು ಅಥವಾ ಔಷಧಿ ಕೊಡಬೇಡಿ.',
+  'emergency.seizure.title': 'ಮೂರ್ಛೆ (ಫಿಟ್ಸ್)',
+  'emergency.seizure.clear': 'ಗಟ್ಟಿಯಾದ, ಚೂಪಾದ ವಸ್ತುಗಳನ್ನು ಅವರಿಂದ ದೂರ ಸರಿಸಿ. ಅವರನ್ನು ಬಲವಂತವಾಗಿ ಹಿಡಿಯಬೇಡಿ.',
+  'emergency.seizure.head': 'ಅವರ ತಲೆಯ ಕೆಳಗೆ ಮೃದುವಾದದ್ದನ್ನು ಇಡಿ. ಬಾಯಿಗೆ ಏನನ್ನೂ ಹಾಕಬೇಡಿ — ಚಮಚವೂ ಬೇಡ, ನೀರೂ ಬೇಡ.',
+  'emergency.seizure.side': 'ನಡುಕ ನಿಂತ ಮೇಲೆ, ಒಂದು ಬದಿಗೆ ತಿರುಗಿಸಿ ಉಸಿರಾಡುತ್ತಿದ್ದಾರೆಯೇ ನೋಡಿ.',
+  'emergency.seizure.time': 'ಎಷ್ಟು ಹೊತ್ತು ಇರುತ್ತದೆ ಗಮನಿಸಿ. 5 ನಿಮಿಷಕ್ಕಿಂತ ಹೆಚ್ಚು ನಡುಕ ಇದ್ದರೆ ಅದು ತುರ್ತು ಪರಿಸ್ಥಿತಿ.',
+  'emergency.bleeding.title': 'ತೀವ್ರ ರಕ್ತಸ್ರಾವ',
+  'emergency.bleeding.press': 'ಸ್ವಚ್ಛ ಬಟ್ಟೆಯಿಂದ ಗಾಯದ ಮೇಲೆ ಬಲವಾಗಿ ಒತ್ತಿ. ನೋಡಲು ಬಟ್ಟೆ ಎತ್ತಬೇಡಿ.',
+  'emergency.bleeding.more': 'ರಕ್ತ ಬಟ್ಟೆಯಿಂದ ಹೊರಬಂದರೆ, ಮೇಲೆ ಇನ್ನಷ್ಟು ಬಟ್ಟೆ ಇಟ್ಟು ಒತ್ತುತ್ತಲೇ ಇರಿ.',
+  'emergency.bleeding.raise': 'ಅವರನ್ನು ಮಲಗಿಸಿಯೇ ಇಡಿ, ಸಾಧ್ಯವಾದರೆ ಗಾಯಗೊಂಡ ಭಾಗವನ್ನು ಹೃದಯಕ್ಕಿಂತ ಮೇಲೆ ಎತ್ತಿ.',
+  'emergency.chest.title': 'ಎದೆ ನೋವು',
+  'emergency.chest.rest': 'ಯಾವುದಕ್ಕಾದರೂ ಒರಗಿ ಕುಳಿತು ವಿಶ್ರಾಂತಿ ಪಡೆಯಲು ಸಹಾಯ ಮಾಡಿ. ಬಿಗಿಯಾದ ಬಟ್ಟೆ ಸಡಿಲಿಸಿ.',
+  'emergency.chest.nothing': 'ಅವರನ್ನು ಓಡಾಡಲು ಬಿಡಬೇಡಿ. ತಿನ್ನಲು, ಕುಡಿಯಲು ಏನೂ ಕೊಡಬೇಡಿ, ನೋವು ಯಾವಾಗ ಶುರುವಾಯಿತು ಎಂದು ಬರೆದಿಟ್ಟುಕೊಳ್ಳಿ.',
+  'emergency.chest.watch': 'ಅವರ ಜೊತೆಯಲ್ಲೇ ಇರಿ. ಅವರು ಕುಸಿದು ಸಾಮಾನ್ಯವಾಗಿ ಉಸಿರಾಡುವುದು ನಿಂತರೆ, CPR ಬಟನ್ ಒತ್ತಿ CPR ಆರಂಭಿಸಿ.',
+  'emergency.general.title': 'ಪ್ರಥಮ ಚಿಕಿತ್ಸೆ',
+  'emergency.general.safe': 'ನೀವು ಮತ್ತು ಆ ವ್ಯಕ್ತಿ ಸುರಕ್ಷಿತವಾಗಿದ್ದೀರಿ ಎಂದು ಖಚಿತಪಡಿಸಿಕೊಳ್ಳಿ. ಅವರನ್ನು ಮಲಗಿಸಿ ಅಲುಗಾಡದಂತೆ ಇಡಿ.',
+  'emergency.general.breathing': 'ಅವರು ಉಸಿರಾಡುತ್ತಿದ್ದಾರೆಯೇ ನೋಡಿ. ಇಲ್ಲದಿದ್ದರೆ, CPR ಬಟನ್ ಒತ್ತಿ CPR ಆರಂಭಿಸಿ.',
+  'emergency.general.wait': 'ಅವರ ಜೊತೆಯಲ್ಲೇ ಇದ್ದು ಬೆಚ್ಚಗಿಡಿ. ಸಹಾಯ ಬರುವವರೆಗೆ ತಿನ್ನಲು, ಕುಡಿಯಲು ಏನೂ ಕೊಡಬೇಡಿ.',
+};
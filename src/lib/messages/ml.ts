@@ -0,0 +1,326 @@
+import type { Catalog } from '../i18n';
+
+/** Malayalam */
+export const ml: Catalog = {
+  // ─── Triage ───
+  'triage.nearbyFacilities': 'നിങ്ങളുടെ അടുത്തുള്ള ആശുപത്രികളും ക്ലിനിക്കുകളും ഇതാ. എന്തെങ്കിലും ആരോഗ്യപ്രശ്നം ഉണ്ടെങ്കിൽ പറയൂ.',
+  'triage.languageSuggested': 'നിങ്ങൾ {language}യിൽ എഴുതുന്നതായി തോന്നുന്നു — അതിൽ മറുപടി ലഭിക്കാൻ ടാപ്പ് ചെയ്യുക',
+
+  // ─── Welcome ───
+  'welcome.greeting': 'നമസ്കാരം! സുഖമാണോ?',
+  'welcome.greetingNamed': 'നമസ്കാരം, {name}!',
+  'welcome.subtitle': 'നിങ്ങളുടെ ലക്ഷണങ്ങൾ പറയൂ — ശരിയായ ചികിത്സയിലേക്ക് ഞങ്ങൾ വഴികാട്ടാം.',
+  'welcome.quickStart1': 'തലവേദന',
+  'welcome.quickStart2': 'പനിയും ചുമയും',
+  'welcome.quickStart3': 'വയറുവേദന',
+
+  // ─── Post-result follow-ups ───
+  'postResult.tellMore': 'കൂടുതൽ പറയൂ',
+  'postResult.feelingNow': 'ഇപ്പോൾ എങ്ങനെ',
+  'postResult.precautions': 'കൂടുതൽ മുൻകരുതൽ',
+
+  // ─── Report upload ───
+  'upload.button': 'റിപ്പോർട്ട് അപ്‌ലോഡ്',
+  'upload.analyzing': 'വിശകലനം...',
+  'upload.medicationsAdded': { one: 'നിങ്ങളുടെ മരുന്ന് പട്ടികയിൽ {count} മരുന്ന് ചേർത്തു', other: 'നിങ്ങളുടെ മരുന്ന് പട്ടികയിൽ {count} മരുന്നുകൾ ചേർത്തു' },
+  'upload.labResultsSaved': { one: '{count} ലാബ് മൂല്യം റിപ്പോർട്ടുകളിലെ നിങ്ങളുടെ ട്രെൻഡിൽ സേവ് ചെയ്തു', other: '{count} ലാബ് മൂല്യങ്ങൾ റിപ്പോർട്ടുകളിലെ നിങ്ങളുടെ ട്രെൻഡിൽ സേവ് ചെയ്തു' },
+  'upload.setLinked': '{count} ഫയലുകൾ ഒരുമിച്ച് വിശകലനം ചെയ്തു — ഈ ചാറ്റിൽ അവയെക്കുറിച്ച് ചോദിക്കാം',
+  'upload.tooManyFiles': 'ഒരു തവണ പരമാവധി {max} ഫയലുകൾ തിരഞ്ഞെടുക്കുക.',
+  'upload.tooLarge': 'ഫയലുകൾ വളരെ വലുതാണ് — ഓരോന്നും {fileMb}MB വരെ, ആകെ {setMb}MB വരെ.',
+  'upload.failed': 'രേഖ വിശകലനം ചെയ്യാൻ കഴിഞ്ഞില്ല. വീണ്ടും ശ്രമിക്കുക.',
+
+  // ─── Sign-up prompt ───
+  'signUp.title': 'നിങ്ങളുടെ ആരോഗ്യം ട്രാക്ക് ചെയ്യൂ',
+  'signUp.subtitle': 'സൗജന്യ അക്കൗണ്ട് ഉണ്ടാക്കൂ — നിങ്ങളുടെ ആരോഗ്യ പ്രൊഫൈൽ സേവ് ചെയ്യൂ.',
+  'signUp.cta': 'സൈൻ അപ്പ് ചെയ്യൂ',
+  'signUp.later': 'പിന്നീട്',
+  'signUp.profile': 'പ്രൊഫൈൽ പൂർത്തിയാക്കൂ',
+
+  // ─── Voice mode ───
+  'voice.idle': 'സംസാരിക്കാൻ ടാപ്പ് ചെയ്യൂ',
+  'voice.listening': 'കേൾക്കുന്നു...',
+  'voice.transcribing': 'മനസ്സിലാക്കുന്നു...',
+  'voice.thinking': 'ആലോചിക്കുന്നു...',
+  'voice.speaking': 'പറയുന്നു...',
+  'voice.notUnderstood': 'മനസ്സിലായില്ല. വീണ്ടും പറയുക അല്ലെങ്കിൽ ടൈപ്പ് ചെയ്യുക.',
+
+  // ─── Voice acknowledgments — ~3 seconds of speech each ───
+  'voice.ack.generic': 'ഞാൻ കേൾക്കുന്നുണ്ട്. നിങ്ങളുടെ ലക്ഷണങ്ങൾ നോക്കുന്നു.',
+  'voice.ack.head': 'നിങ്ങളുടെ തലവേദന മനസ്സിലായി. ഞാൻ നോക്കുന്നു.',
+  'voice.ack.fever': 'നിങ്ങൾക്ക് പനിയുണ്ട്. ഞാൻ വിലയിരുത്തുന്നു.',
+  'voice.ack.chest': 'നെഞ്ചിലെ ബുദ്ധിമുട്ട് മനസ്സിലായി. ഉടനെ നോക്കുന്നു.',
+  'voice.ack.stomach': 'വയറിലെ പ്രശ്നം മനസ്സിലായി. ഞാൻ നോക്കുന്നു.',
+  'voice.ack.breathing': 'ശ്വാസതടസ്സം മനസ്സിലായി. ശ്രദ്ധയോടെ നോക്കുന്നു.',
+  'voice.ack.pain': 'നിങ്ങളുടെ വേദന മനസ്സിലായി. ലക്ഷണങ്ങൾ നോക്കുന്നു.',
+  'voice.ack.child': 'കുട്ടിയുടെ കാര്യമാണ്. ശ്രദ്ധയോടെ നോക്കുന്നു.',
+
+  // ─── Symptom fast-path follow-ups ───
+  'pattern.fever.question': 'എത്ര ദിവസമായി പനി ഉണ്ട്?',
+  'pattern.fever.option1.label': 'ഇന്ന് മുതൽ',
+  'pattern.fever.option1.value': 'ഇന്ന് മുതൽ പനി',
+  'pattern.fever.option2.label': '1-2 ദിവസം',
+  'pattern.fever.option2.value': '1-2 ദിവസമായി പനി',
+  'pattern.fever.option3.label': '3-5 ദിവസം',
+  'pattern.fever.option3.value': '3-5 ദിവസമായി പനി',
+  'pattern.fever.option4.label': '5 ദിവസത്തിൽ കൂടുതൽ',
+  'pattern.fever.option4.value': '5 ദിവസത്തിൽ കൂടുതലായി പനി',
+  'pattern.headache.question': 'ഇത് നിങ്ങൾക്ക് ഇതുവരെ വന്നതിൽ ഏറ്റവും കടുത്ത തലവേദനയാണോ, അതോ സാധാരണ വരുന്നതുപോലെയാണോ?',
+  'pattern.headache.option1.label': 'ഏറ്റവും കടുത്തത്',
+  'pattern.headache.option1.value': 'ഇത് ഇതുവരെ വന്നതിൽ ഏറ്റവും കടുത്ത, പെട്ടെന്നുള്ള തലവേദനയാണ്',
+  'pattern.headache.option2.label': 'സാധാരണ പോലെ',
+  'pattern.headache.option2.value': 'സാധാരണ വരുന്ന തലവേദന പോലെയാണ്',
+  'pattern.headache.option3.label': 'പനിയോടൊപ്പം',
+  'pattern.headache.option3.value': 'തലവേദനയോടൊപ്പം പനിയും ഉണ്ട്',
+  'pattern.headache.option4.label': 'അറിയില്ല',
+  'pattern.headache.option4.value': 'എനിക്ക് ഉറപ്പില്ല',
+  'pattern.cough.question': 'എത്ര ദിവസമായി ചുമയുണ്ട്? കഫത്തിൽ രക്തം വരുന്നുണ്ടോ?',
+  'pattern.cough.option1.label': 'കുറച്ച് ദിവസം',
+  'pattern.cough.option1.value': 'കുറച്ച് ദിവസമായി ചുമ, രക്തമില്ല',
+  'pattern.cough.option2.label': '1-2 ആഴ്ച',
+  'pattern.cough.option2.value': '1-2 ആഴ്ചയായി ചുമ',
+  'pattern.cough.option3.label': '2 ആഴ്ചയിൽ കൂടുതൽ',
+  'pattern.cough.option3.value': '2 ആഴ്ചയിൽ കൂടുതലായി ചുമ',
+  'pattern.cough.option4.label': 'രക്തം വരുന്നു',
+  'pattern.cough.option4.value': 'കഫത്തിൽ രക്തം വരുന്നുണ്ട്',
+  'pattern.stomach_pain.question': 'വേദന കൃത്യമായി എവിടെയാണ് — മുകളിൽ, താഴെ, ഇടത് വശത്തോ വലത് വശത്തോ?',
+  'pattern.stomach_pain.option1.label': 'മുകളിൽ നടുവിൽ',
+  'pattern.stomach_pain.option1.value': 'വയറിന്റെ മുകളിൽ നടുഭാഗത്ത് വേദന',
+  'pattern.stomach_pain.option2.label': 'താഴെ വലത്',
+  'pattern.stomach_pain.option2.value': 'വയറിന്റെ താഴെ വലത് വശത്ത് വേദന',
+  'pattern.stomach_pain.option3.label': 'വയറ് മുഴുവൻ',
+  'pattern.stomach_pain.option3.value': 'വയറ് മുഴുവൻ വേദന',
+  'pattern.stomach_pain.option4.label': 'അറിയില്ല',
+  'pattern.stomach_pain.option4.value': 'വേദന എവിടെയാണെന്ന് കൃത്യമായി പറയാൻ കഴിയുന്നില്ല',
+  'pattern.diarrhea.question': 'ഇന്ന് എത്ര തവണ പോയി? മലത്തിൽ രക്തമോ കഫമോ ഉണ്ടോ?',
+  'pattern.diarrhea.option1.label': '2-3 തവണ',
+  'pattern.diarrhea.option1.value': 'ഇന്ന് 2-3 തവണ വയറിളക്കം',
+  'pattern.diarrhea.option2.label': '4-6 തവണ',
+  'pattern.diarrhea.option2.value': 'ഇന്ന് 4-6 തവണ വയറിളക്കം',
+  'pattern.diarrhea.option3.label': '6-ൽ കൂടുതൽ',
+  'pattern.diarrhea.option3.value': 'ഇന്ന് 6-ൽ കൂടുതൽ തവണ വയറിളക്കം',
+  'pattern.diarrhea.option4.label': 'രക്തം ഉണ്ട്',
+  'pattern.diarrhea.option4.value': 'മലത്തിൽ രക്തമോ കഫമോ ഉണ്ട്',
+  'pattern.period_issues.question': 'ആർത്തവം എത്ര ദിവസം വൈകി? ശരീരഭാരം കൂടിയോ, മുഖത്ത് അധികം രോമമോ മുഖക്കുരുവോ ഉണ്ടോ?',
+  'pattern.period_issues.option1.label': 'കുറച്ച് ദിവസം വൈകി',
+  'pattern.period_issues.option1.value': 'ആർത്തവം കുറച്ച് ദിവസം വൈകി',
+  'pattern.period_issues.option2.label': '2 ആഴ്ചയിൽ കൂടുതൽ',
+  'pattern.period_issues.option2.value': 'ആർത്തവം 2 ആഴ്ചയിൽ കൂടുതൽ വൈകി',
+  'pattern.period_issues.option3.label': 'ക്രമമില്ല + ഭാരം',
+  'pattern.period_issues.option3.value': 'ആർത്തവം ക്രമമല്ല, ശരീരഭാരം കൂടി',
+  'pattern.period_issues.option4.label': 'അമിതം/വേദന',
+  'pattern.period_issues.option4.value': 'ആർത്തവം വളരെ കൂടുതലും വേദനയുമുണ്ട്',
+  'pattern.body_ache.question': 'പനിയും ഉണ്ടോ? വേദന സന്ധികളിലാണോ അതോ ശരീരം മുഴുവനാണോ?',
+  'pattern.body_ache.option1.label': 'പനി + ശരീരവേദന',
+  'pattern.body_ache.option1.value': 'പനിയോടൊപ്പം ശരീരം മുഴുവൻ വേദനയുണ്ട്',
+  'pattern.body_ache.option2.label': 'സന്ധിവേദന മാത്രം',
+  'pattern.body_ache.option2.value': 'വേദന പ്രധാനമായും സന്ധികളിലാണ്, പനിയില്ല',
+  'pattern.body_ache.option3.label': 'ക്ഷീണം/തളർച്ച',
+  'pattern.body_ache.option3.value': 'വളരെ ക്ഷീണവും തളർച്ചയുമുണ്ട്, പ്രത്യേക വേദനയില്ല',
+  'pattern.body_ache.option4.label': 'വ്യായാമത്തിന് ശേഷം',
+  'pattern.body_ache.option4.value': 'വ്യായാമത്തിനോ അധ്വാനത്തിനോ ശേഷം ശരീരവേദന തുടങ്ങി',
+  'pattern.breathing.question': 'വിശ്രമിക്കുമ്പോഴും ശ്വാസംമുട്ടുണ്ടോ, അതോ ജോലി ചെയ്യുമ്പോൾ മാത്രമാണോ? ഇത് പെട്ടെന്ന് തുടങ്ങിയതാണോ?',
+  'pattern.breathing.option1.label': 'വിശ്രമത്തിലും',
+  'pattern.breathing.option1.value': 'വിശ്രമിക്കുമ്പോഴും ശ്വാസംമുട്ടുണ്ട്',
+  'pattern.breathing.option2.label': 'ജോലി ചെയ്യുമ്പോൾ',
+  'pattern.breathing.option2.value': 'നടക്കുമ്പോഴോ പടി കയറുമ്പോഴോ മാത്രം ശ്വാസംമുട്ട്',
+  'pattern.breathing.option3.label': 'വ്യായാമത്തിന് ശേഷം',
+  'pattern.breathing.option3.value': 'ഓടിയതിനോ വ്യായാമത്തിനോ ശേഷം ശ്വാസംമുട്ട്, വിശ്രമിച്ചാൽ കുറയും',
+  'pattern.breathing.option4.label': 'പെട്ടെന്ന് തുടങ്ങി',
+  'pattern.breathing.option4.value': 'ശ്വാസംമുട്ട് പെട്ടെന്ന് തുടങ്ങി',
+  'pattern.skin.question': 'തടിപ്പ് വളയത്തിന്റെ ആകൃതിയിലാണോ? കുടുംബത്തിൽ മറ്റാർക്കെങ്കിലും ഇതുണ്ടോ?',
+  'pattern.skin.option1.label': 'വളയം പോലെ',
+  'pattern.skin.option1.value': 'തടിപ്പ് വളയം പോലെയാണ്, നടുവിൽ തെളിഞ്ഞത്, നല്ല ചൊറിച്ചിൽ',
+  'pattern.skin.option2.label': 'ദേഹം മുഴുവൻ ചൊറിച്ചിൽ',
+  'pattern.skin.option2.value': 'ദേഹം മുഴുവൻ ചൊറിച്ചിൽ, രാത്രിയിൽ കൂടുതൽ',
+  'pattern.skin.option3.label': 'മുഖക്കുരു',
+  'pattern.skin.option3.value': 'മുഖത്ത് മുഖക്കുരു ഉണ്ട്',
+  'pattern.skin.option4.label': 'മറ്റ് പ്രശ്നം',
+  'pattern.skin.option4.value': 'തൊലിയിൽ മറ്റെന്തോ പ്രശ്നമുണ്ട്',
+  'pattern.cold_flu.question': 'എത്ര ദിവസമായി ഉണ്ട്? പനിയോ ശരീരവേദനയോ കൂടി ഉണ്ടോ?',
+  'pattern.cold_flu.option1.label': '1-3 ദിവസം, ചെറുത്',
+  'pattern.cold_flu.option1.value': '1-3 ദിവസമായി ജലദോഷം, മൂക്കൊലിപ്പ് മാത്രം',
+  'pattern.cold_flu.option2.label': 'പനിയോടൊപ്പം',
+  'pattern.cold_flu.option2.value': 'ജലദോഷത്തോടൊപ്പം പനിയും ശരീരവേദനയും',
+  'pattern.cold_flu.option3.label': 'ഒരാഴ്ചയിൽ കൂടുതൽ',
+  'pattern.cold_flu.option3.value': 'ഒരാഴ്ചയിൽ കൂടുതലായി ജലദോഷം',
+  'pattern.cold_flu.option4.label': 'കൂടിവരുന്നു',
+  'pattern.cold_flu.option4.value': 'ജലദോഷം ആദ്യം കുറവായിരുന്നു, ഇപ്പോൾ കൂടിവരുന്നു',
+
+  // ─── Period health ───
+  'period.headerTitle': 'ആർത്തവ ആരോഗ്യം',
+  'period.headerTitleAlly': 'ആർത്തവ ആരോഗ്യ അവബോധം',
+  'period.headerSubtitle': 'AI-അധിഷ്ഠിത ആർത്തവ ആരോഗ്യം',
+  'period.headerSubtitleAlly': 'നിങ്ങളുടെ ജീവിതത്തിലെ സ്ത്രീകളെ പിന്തുണയ്ക്കൂ',
+  'period.history': 'ചരിത്രം',
+  'period.dashboard': 'ഡാഷ്ബോർഡ്',
+  'period.signInTitle': 'ആർത്തവ ആരോഗ്യം കാണാൻ സൈൻ ഇൻ ചെയ്യൂ',
+  'period.signInDesc': 'നിങ്ങളുടെ ആരോഗ്യ വിവരങ്ങൾ സ്വകാര്യമാണ്, നിങ്ങൾക്ക് മാത്രമേ കാണാനാകൂ.',
+  'period.backToSehat': 'Sehat-ലേക്ക് മടങ്ങുക',
+  'period.retry': 'വീണ്ടും ശ്രമിക്കുക',
+  'period.allyHeroTitle': 'അവൾക്ക് തുണയാകൂ',
+  'period.allyHeroDesc': 'ഇന്ത്യയിലെ 71% കൗമാരക്കാരായ പെൺകുട്ടികൾക്കും ആദ്യ ആർത്തവത്തിന് മുമ്പ് അതിനെക്കുറിച്ച് അറിയില്ല. നിങ്ങൾക്ക് ഇത് മാറ്റാം — പഠിച്ചും മനസ്സിലാക്കിയും ചുറ്റുമുള്ള സ്ത്രീകളെ പിന്തുണച്ചും.',
+  'period.eduCard1Title': 'ആർത്തവം എന്താണ്?',
+  'period.eduCard1Body': 'ഗർഭപാത്രം അതിന്റെ ഉൾപ്പാളി പുറന്തള്ളുന്ന സ്വാഭാവികമായ മാസപ്രക്രിയയാണ് ആർത്തവം. ഇത് സാധാരണയായി 3-7 ദിവസം നീളും, 21-35 ദിവസം കൂടുമ്പോൾ വരും. ഇത് രോഗമോ ബലഹീനതയോ അശുദ്ധിയോ അല്ല — നല്ല ആരോഗ്യത്തിന്റെ ലക്ഷണമാണ്.',
+  'period.eduCard2Title': 'നിങ്ങൾക്ക് എങ്ങനെ സഹായിക്കാം?',
+  'period.eduCard2Body': 'മടിയില്ലാതെ സാനിറ്ററി ഉൽപ്പന്നങ്ങൾ വാങ്ങൂ. വയറുവലിവിന് ചൂടുവെള്ളക്കുപ്പി നൽകൂ. തമാശ പറയുകയോ മുഖം ചുളിക്കുകയോ ചെയ്യരുത്. ആവശ്യമുള്ളപ്പോൾ ഇടം നൽകൂ. "ഞാൻ എങ്ങനെ സഹായിക്കണം?" എന്ന് ചോദിക്കൂ — മറ്റേത് ആരോഗ്യകാര്യത്തിലും ചോദിക്കുന്നതുപോലെ.',
+  'period.eduCard3Title': 'തിരുത്തേണ്ട മിഥ്യാധാരണകൾ',
+  'period.eduCard3Body': 'ആർത്തവകാലത്ത് സ്ത്രീകൾക്ക് പാചകം ചെയ്യാം, ക്ഷേത്രത്തിൽ പോകാം, അച്ചാർ തൊടാം, മറ്റെല്ലാം ചെയ്യാം — ഈ വിലക്കുകൾക്ക് ശാസ്ത്രീയ അടിസ്ഥാനമില്ല. ആർത്തവരക്തം "അഴുക്കല്ല" — നിങ്ങളുടെ ഞരമ്പുകളിൽ ഒഴുകുന്ന അതേ രക്തമാണ്.',
+  'period.eduCard4Title': 'ഡോക്ടറെ കാണാൻ എപ്പോൾ പ്രോത്സാഹിപ്പിക്കണം',
+  'period.eduCard4Body': 'അവൾക്ക് വളരെ കൂടിയ ആർത്തവം (1-2 മണിക്കൂർ കൂടുമ്പോൾ പാഡ് മാറ്റേണ്ടി വരിക), ദൈനംദിന കാര്യങ്ങൾ തടയുന്ന കടുത്ത വേദന, 3+ മാസമായി ആർത്തവം ഇല്ലാതിരിക്കുക, അല്ലെങ്കിൽ ആർത്തവങ്ങൾക്കിടയിൽ പാടുകൾ കാണുക — ഇവയുണ്ടെങ്കിൽ ഗൈനക്കോളജിസ്റ്റിനെ കാണാൻ പ്രോത്സാഹിപ്പിക്കൂ.',
+  'period.quickFacts': 'പ്രധാന വസ്തുതകൾ',
+  'period.fact1': 'ശരാശരി ആർത്തവം 3-7 ദിവസം നീളും, 21-35 ദിവസം കൂടുമ്പോൾ വരും',
+  'period.fact2': 'വയറുവലിവ്, മാനസികാവസ്ഥയിലെ മാറ്റം, ക്ഷീണം എന്നിവ സാധാരണമാണ് — "അഭിനയം" അല്ല',
+  'period.fact3': 'ഒരു സ്ത്രീ ജീവിതകാലത്ത് ~10,000-15,000 പാഡുകൾ ഉപയോഗിക്കുന്നു — ആർത്തവ ഉൽപ്പന്നങ്ങൾ അത്യാവശ്യമാണ്, ആഡംബരമല്ല',
+  'period.fact4': 'PCOS 5-ൽ 1 ഇന്ത്യൻ സ്ത്രീയെ ബാധിക്കുന്നു — ഇതിന് ലജ്ജയല്ല, അവബോധമാണ് വേണ്ടത്',
+  'period.fact5': 'ആർത്തവത്തെക്കുറിച്ച് തുറന്ന് സംസാരിക്കുന്നത് അടുത്ത തലമുറയെ കൂടുതൽ ആരോഗ്യമുള്ളവരാക്കുന്നു',
+  'period.ctaShare': 'ഇത് ആവശ്യമുള്ള ഒരാളുമായി ഈ പേജ് പങ്കിടൂ',
+  'period.ctaBreak': 'വിലക്ക് തകർക്കുന്നത് ഒരു സംഭാഷണത്തിൽ നിന്നാണ് തുടങ്ങുന്നത്. നിങ്ങൾ അത് തുടങ്ങിക്കഴിഞ്ഞു.',
+  'period.cycleOverview': 'ചക്രത്തിന്റെ അവലോകനം',
+  'period.cyclesLogged': '{count} ചക്രങ്ങൾ രേഖപ്പെടുത്തി',
+  'period.avgCycleDays': 'ശരാശരി ചക്രം (ദിവസം)',
+  'period.avgPeriodDays': 'ശരാശരി ആർത്തവം (ദിവസം)',
+  'period.daysLate': 'ദിവസം വൈകി',
+  'period.daysUntilNext': 'അടുത്തതിന് ദിവസം',
+  'period.nextPeriod': 'അടുത്ത ആർത്തവം',
+  'period.logPeriod': 'ആർത്തവം രേഖപ്പെടുത്തുക',
+  'period.logYourPeriod': 'നിങ്ങളുടെ ആർത്തവം രേഖപ്പെടുത്തുക',
+  'period.startDate': 'ആരംഭ തീയതി',
+  'period.periodLength': 'ആർത്തവ ദൈർഘ്യം (ദിവസം)',
+  'period.flowLevel': 'ഒഴുക്കിന്റെ അളവ്',
+  'period.flowLight': 'കുറവ്',
+  'period.flowMedium': 'ഇടത്തരം',
+  'period.flowHeavy': 'കൂടുതൽ',
+  'period.symptoms': 'ലക്ഷണങ്ങൾ',
+  'period.mood': 'മാനസികാവസ്ഥ',
+  'period.notesOpt': 'കുറിപ്പുകൾ (ഓപ്ഷണൽ)',
+  'period.save': 'സേവ് ചെയ്യുക',
+  'period.saving': 'സേവ് ചെയ്യുന്നു...',
+  'period.cycleHistory': 'ചക്ര ചരിത്രം',
+  'period.days': '{count} ദിവസം',
+  'period.flow': 'ഒഴുക്ക്',
+  'period.dayCycle': '{count} ദിവസ ചക്രം',
+  'period.emptyTitle': 'നിങ്ങളുടെ ചക്രം ട്രാക്ക് ചെയ്യാൻ തുടങ്ങൂ',
+  'period.emptyDesc': 'വ്യക്തിഗത പ്രവചനങ്ങൾ, ആരോഗ്യ വിവരങ്ങൾ, ഓർമ്മപ്പെടുത്തലുകൾ എന്നിവയ്ക്കായി ആർത്തവം രേഖപ്പെടുത്തൂ — എല്ലാം നിങ്ങളുടെ ഭാഷയിൽ.',
+  'period.askTitle': 'ആർത്തവ ആരോഗ്യത്തെക്കുറിച്ച് ചോദിക്കൂ',
+  'period.askTitleAlly': 'ആർത്തവ ആരോഗ്യത്തെക്കുറിച്ച് ചോദിക്കൂ',
+  'period.askDesc': 'ആർത്തവം, ചക്ര ആരോഗ്യം, ശുചിത്വം, PCOS, ആർത്തവ ക്ഷേമം എന്നിവയെക്കുറിച്ച് എന്തും ചോദിക്കൂ — നിങ്ങളുടെ ഭാഷയിൽ.',
+  'period.askDescAlly': 'ആർത്തവ ആരോഗ്യത്തെക്കുറിച്ച് എന്തും ചോദിക്കൂ — ആർത്തവം മനസ്സിലാക്കൂ, മിഥ്യാധാരണകൾ തിരുത്തൂ, പിന്തുണയ്ക്കാൻ പഠിക്കൂ — നിങ്ങളുടെ ഭാഷയിൽ.',
+  'period.askPlaceholder': 'നിങ്ങളുടെ ചോദ്യം ചോദിക്കൂ...',
+  'period.askBtn': 'ചോദിക്കൂ',
+  'period.thinking': 'ആലോചിക്കുന്നു...',
+  'period.aiDisclaimer': 'AI മറുപടി — വൈദ്യോപദേശത്തിന് ഡോക്ടറെ സമീപിക്കുക',
+  'period.sCramps': 'വയറുവലിവ്',
+  'period.sHeadache': 'തലവേദന',
+  'period.sBackPain': 'നടുവേദന',
+  'period.sBloating': 'വയറുവീർപ്പ്',
+  'period.sFatigue': 'ക്ഷീണം',
+  'period.sMoodSwings': 'മാനസികാവസ്ഥയിലെ മാറ്റം',
+  'period.sAcne': 'മുഖക്കുരു',
+  'period.sBreast': 'സ്തനവേദന',
+  'period.sNausea': 'ഓക്കാനം',
+  'period.sCravings': 'ഭക്ഷണക്കൊതി',
+  'period.mHappy': 'സന്തോഷം',
+  'period.mCalm': 'ശാന്തം',
+  'period.mAnxious': 'ഉത്കണ്ഠ',
+  'period.mSad': 'ദുഃഖം',
+  'period.mIrritable': 'ദേഷ്യം',
+  'period.mEnergetic': 'ഊർജ്ജസ്വലം',
+  'period.mTired': 'തളർച്ച',
+  'period.footerAlly': 'അറിവാണ് ശക്തി. ആർത്തവ ആരോഗ്യത്തെക്കുറിച്ചുള്ള മൗനം തകർക്കൂ.',
+  'period.deleteConfirm': 'ഈ ചക്ര രേഖ ഇല്ലാതാക്കണോ?',
+  'period.footerTracker': 'നിങ്ങളുടെ ആർത്തവ വിവരങ്ങൾ സ്വകാര്യമാണ്, നിങ്ങൾക്ക് മാത്രമേ കാണാനാകൂ. ഇത് വൈദ്യരോഗനിർണയമല്ല.',
+  'period.allyQuestion1': 'ആർത്തവത്തെക്കുറിച്ച് ഞാൻ എന്താണ് അറിയേണ്ടത്?',
+  'period.allyQuestion2': 'എന്റെ സഹോദരിയെ/ഭാര്യയെ എങ്ങനെ സഹായിക്കാം?',
+  'period.allyQuestion3': 'ആർത്തവത്തെക്കുറിച്ചുള്ള മിഥ്യാധാരണകൾ എന്തൊക്കെ?',
+  'period.selfQuestion1': 'ആർത്തവ വേദന സ്വാഭാവികമായി എങ്ങനെ കുറയ്ക്കാം',
+  'period.selfQuestion2': 'PCOS എന്താണ്?',
+  'period.selfQuestion3': 'ആർത്തവ സമയത്ത് എന്ത് കഴിക്കണം',
+
+  // ─── Follow-up check reminders ───
+  'followup.reminder': 'Sehat ചെക്ക്-ഇൻ: ഇപ്പോൾ നിങ്ങൾക്ക് എങ്ങനെയുണ്ട് — മുമ്പത്തേക്കാൾ ഭേദം, അതുപോലെ തന്നെ, അതോ കൂടുതൽ മോശം?',
+  'followup.reminderLink': 'ഇവിടെ മറുപടി നൽകുക: {url}',
+  'followup.emailSubject': 'നിങ്ങൾക്ക് എങ്ങനെയുണ്ട്? — Sehat ചെക്ക്-ഇൻ',
+
+  // ─── Follow-up inbox ───
+  'followup.pageTitle': 'ചെക്ക്-ഇന്നുകൾ',
+  'followup.sectionDue': 'ഇപ്പോൾ ചെയ്യേണ്ടവ',
+  'followup.sectionUpcoming': 'വരാനിരിക്കുന്നവ',
+  'followup.sectionPast': 'മുമ്പത്തേവ',
+  'followup.checkAt': '{date} ന് ചെക്ക്-ഇൻ',
+  'followup.escalation': 'ഇങ്ങനെയെങ്കിൽ ഉടൻ ചികിത്സ തേടുക: {criteria}',
+  'followup.question': 'ഇപ്പോൾ നിങ്ങൾക്ക് എങ്ങനെയുണ്ട്?',
+  'followup.better': 'ഭേദം',
+  'followup.same': 'അതുപോലെ തന്നെ',
+  'followup.worse': 'കൂടുതൽ മോശം',
+  'followup.dismiss': 'ഒഴിവാക്കുക',
+  'followup.continue': 'സംഭാഷണം തുടരുക',
+  'followup.statusCompleted': 'മറുപടി നൽകി',
+  'followup.statusEscalated': 'മോശമായി',
+  'followup.statusDismissed': 'ഒഴിവാക്കി',
+  'followup.empty': 'ഇതുവരെ ചെക്ക്-ഇന്നുകളൊന്നുമില്ല. ഒരു ലക്ഷണത്തെക്കുറിച്ച് പിന്നീട് നിങ്ങളോട് ചോദിക്കേണ്ടിവരുമ്പോൾ Sehat ഒന്ന് ക്രമീകരിക്കും.',
+  'followup.signIn': 'നിങ്ങളുടെ ചെക്ക്-ഇന്നുകൾ കാണാൻ സൈൻ ഇൻ ചെയ്യുക',
+  'followup.loadError': 'നിങ്ങളുടെ ചെക്ക്-ഇന്നുകൾ ലോഡ് ചെയ്യാനായില്ല',
+  'followup.answerError': 'നിങ്ങളുടെ മറുപടി സേവ് ചെയ്യാനായില്ല. വീണ്ടും ശ്രമിക്കുക.',
+  'followup.checkInBanner': 'ഫോളോ-അപ്പ് ചെക്ക്-ഇൻ: {reason}',
+
+  // ─── Emergency guide ───
+  'emergency.title': 'അടിയന്തരാവസ്ഥ',
+  'emergency.intro': 'ഇതൊരു അടിയന്തരാവസ്ഥയാണ്. ഇപ്പോൾ തന്നെ {number} ൽ വിളിക്കുക — ചുവന്ന ബട്ടൺ അമർത്തുക. സഹായം എത്തുന്നതുവരെ ഞാൻ ഓരോ ഘട്ടവും പറഞ്ഞുതരാം.',
+  'emergency.call': 'ഇപ്പോൾ തന്നെ {number} ൽ വിളിക്കുക',
+  'emergency.ambulance': 'ആംബുലൻസ്: {number}',
+  'emergency.stepOf': 'ഘട്ടം {current} / {total}',
+  'emergency.next': 'അടുത്തത്',
+  'emergency.repeat': 'വീണ്ടും',
+  'emergency.back': 'മുമ്പത്തെ',
+  'emergency.sayNext': 'കഴിഞ്ഞാൽ "കഴിഞ്ഞു" എന്ന് പറയുക, അല്ലെങ്കിൽ അടുത്തത് അമർത്തുക',
+  'emergency.sayBreathing': '"ശ്വാസമുണ്ട്" അല്ലെങ്കിൽ "ശ്വാസമില്ല" എന്ന് പറയുക, അല്ലെങ്കിൽ ഒരു ബട്ടൺ അമർത്തുക',
+  'emergency.breathing': 'ശ്വസിക്കുന്നുണ്ട്',
+  'emergency.startCpr': 'ശ്വസിക്കുന്നില്ലേ? CPR തുടങ്ങുക',
+  'emergency.pushWithBeat': 'താളത്തിനൊപ്പം അമർത്തുക',
+  'emergency.pauseBeat': 'താളം നിർത്തുക',
+  'emergency.resumeBeat': 'താളം വീണ്ടും തുടങ്ങുക',
+  'emergency.fromAssessment': 'നിങ്ങളുടെ വിലയിരുത്തലിൽ നിന്ന്',
+  'emergency.finished': 'ഇത്രയുമാണ് എല്ലാ ഘട്ടങ്ങളും. സഹായം എത്തുന്നതുവരെ അവരുടെ കൂടെ നിന്ന് ശ്വാസം ശ്രദ്ധിച്ചുകൊണ്ടിരിക്കുക.',
+  'emergency.close': 'ഗൈഡ് അടയ്ക്കുക',
+  'emergency.cpr.title': 'സിപിആർ (CPR)',
+  'emergency.cpr.check': 'അവരുടെ തോളിൽ തട്ടി ഉറക്കെ വിളിക്കുക. സാധാരണ പോലെ ശ്വസിക്കുന്നുണ്ടോ? "ശ്വാസമുണ്ട്" അല്ലെങ്കിൽ "ശ്വാസമില്ല" എന്ന് പറയുക.',
+  'emergency.cpr.position': 'അവരെ ഉറപ്പുള്ള പ്രതലത്തിൽ മലർത്തി നേരെ കിടത്തി, നെഞ്ചിനരികിൽ മുട്ടുകുത്തി ഇരിക്കുക.',
+  'emergency.cpr.hands': 'ഒരു കൈപ്പത്തിയുടെ താഴ്ഭാഗം നെഞ്ചിന്റെ നടുവിൽ വച്ച് മറ്റേ കൈ അതിനു മുകളിൽ വയ്ക്കുക. കൈകൾ നിവർത്തി പിടിക്കുക.',
+  'emergency.cpr.compress': 'ഓരോ താളത്തിനും ഏകദേശം 5 സെന്റിമീറ്റർ ശക്തിയായും വേഗത്തിലും അമർത്തുക. 30 വരെ എണ്ണി വീണ്ടും തുടങ്ങുക. സഹായം എത്തുന്നതുവരെ നിർത്തരുത്.',
+  'emergency.recovery.title': 'റിക്കവറി പൊസിഷൻ',
+  'emergency.recovery.side': 'അവരുടെ അരികിൽ മുട്ടുകുത്തി ഇരിക്കുക. അകലെയുള്ള കാൽമുട്ട് മടക്കി, അത് വലിച്ച് അവരെ നിങ്ങളുടെ നേരെ ഒരു വശത്തേക്ക് ചരിക്കുക.',
+  'emergency.recovery.airway': 'തല പതുക്കെ പിന്നോട്ട് ചായ്ച്ച് വായ് താഴേക്ക് വരുന്ന വിധം വയ്ക്കുക, അപ്പോൾ ശ്വാസം തടസ്സമില്ലാതെ നടക്കും, വായിലുള്ളത് പുറത്തേക്ക് ഒഴുകും.',
+  'emergency.recovery.watch': 'അവരുടെ കൂടെ നിന്ന് ശ്വാസം ശ്രദ്ധിച്ചുകൊണ്ടിരിക്കുക. ശ്വാസം നിലച്ചാൽ "ശ്വാസമില്ല" എന്ന് പറയുക അല്ലെങ്കിൽ CPR തുടങ്ങുക അമർത്തുക.',
+  'emergency.choking.title': 'തൊണ്ടയിൽ കുടുങ്ങൽ',
+  'emergency.choking.cough': 'ചുമയ്ക്കാനോ സംസാരിക്കാനോ കഴിയുന്നുണ്ടെങ്കിൽ ചുമച്ചുകൊണ്ടിരിക്കാൻ അനുവദിക്കുക. ഇപ്പോൾ പുറത്ത് അടിക്കരുത്.',
+  'emergency.choking.backBlows': 'ശ്വസിക്കാനോ സംസാരിക്കാനോ കഴിയുന്നില്ലെങ്കിൽ മുന്നോട്ട് കുനിച്ച്, കൈപ്പത്തിയുടെ താഴ്ഭാഗം കൊണ്ട് തോൾപ്പലകകൾക്കിടയിൽ 5 തവണ ശക്തിയായി അടിക്കുക.',
+  'emergency.choking.thrusts': 'പിന്നെ അവരുടെ പിന്നിൽ നിന്ന്, പൊക്കിളിന് അൽപം മുകളിൽ മുഷ്ടി വച്ച്, 5 തവണ അകത്തേക്കും മുകളിലേക്കും ശക്തിയായി വലിക്കുക. പുറത്തടിയും വയർ അമർത്തലും മാറിമാറി തുടരുക.',
+  'emergency.choking.unconscious': 'ബോധം പോയാൽ മലർത്തി കിടത്തി CPR തുടങ്ങുക.',
+  'emergency.snakebite.title': 'പാമ്പുകടി',
+  'emergency.snakebite.calm': 'ആളെ ശാന്തനാക്കി അനങ്ങാതെ കിടത്തുക. അനങ്ങിയാൽ വിഷം വേഗത്തിൽ പടരും.',
+  'emergency.snakebite.immobilize': 'കടിയേറ്റ കയ്യോ കാലോ സ്പ്ലിന്റ് വച്ചതുപോലെ അനങ്ങാതെ, ഹൃദയത്തേക്കാൾ താഴെ വയ്ക്കുക. മോതിരം, വള, വാച്ച്, ഇറുകിയ വസ്ത്രങ്ങൾ ഊരിമാറ്റുക.',
+  'emergency.snakebite.dont': 'കടിയേറ്റ ഭാഗം മുറിക്കരുത്, വലിച്ചെടുക്കരുത്, മുറുക്കി കെട്ടരുത്, ഐസോ പച്ചമരുന്നോ വയ്ക്കരുത്.',
+  'emergency.snakebite.transport': 'ആന്റി-വെനം ഉള്ള ആശുപത്രിയിലേക്ക് അവരെ എടുത്തുകൊണ്ടുപോകുക. നടക്കാൻ അനുവദിക്കരുത്. കടിയേറ്റ സമയം കുറിച്ചുവയ്ക്കുക.',
+  'emergency.stroke.title': 'സ്ട്രോക്ക് — FAST പരിശോധന',
+  'emergency.stroke.face': 'മുഖം (F): ചിരിക്കാൻ പറയുക. മുഖത്തിന്റെ ഒരു വശം തൂങ്ങുന്നുണ്ടോ?',
+  'emergency.stroke.arms': 'കൈകൾ (A): രണ്ടു കൈകളും ഉയർത്താൻ പറയുക. ഒരു കൈ താഴേക്ക് ഊർന്നുപോകുന്നുണ്ടോ?',
+  'emergency.stroke.speech': 'സംസാരം (S): ഒരു ലളിതമായ വാചകം ആവർത്തിക്കാൻ പറയുക. സംസാരം കുഴയുന്നുണ്ടോ, വിചിത്രമാണോ?',
+  'emergency.stroke.time': 'സമയം (T): ഇവയിൽ ഏതെങ്കിലും കണ്ടാൽ തുടങ്ങിയ സമയം കുറിച്ച് ഉടൻ ആശുപത്രിയിൽ എത്തിക്കുക. ഭക്ഷണമോ വെള്ളമോ മരുന്നോ കൊടുക്കരുത്.',
+  'emergency.seizure.title': 'അപസ്മാരം',
+  'emergency.seizure.clear': 'കട്ടിയുള്ളതും മൂർച്ചയുള്ളതുമായ സാധനങ്ങൾ അവരിൽ നിന്ന് മാറ്റുക. അവരെ ബലമായി പിടിച്ചുവയ്ക്കരുത്.',
+  'emergency.seizure.head': 'തലയ്ക്കടിയിൽ മൃദുവായ എന്തെങ്കിലും വയ്ക്കുക. വായിൽ ഒന്നും ഇടരുത് — സ്പൂണും വേണ്ട, വെള്ളവും വേണ്ട.',
+  'emergency.seizure.side': 'വിറയൽ നിന്നാൽ ഒരു വശത്തേക്ക് ചരിച്ചു കിടത്തി ശ്വസിക്കുന്നുണ്ടോ എന്ന് നോക്കുക.',
+  'emergency.seizure.time': 'എത്ര നേരം നീളുന്നു എന്ന് ശ്രദ്ധിക്കുക. 5 മിനിറ്റിൽ കൂടുതൽ വിറയൽ ഉണ്ടെങ്കിൽ അത് അടിയന്തരാവസ്ഥയാണ്.',
+  'emergency.bleeding.title': 'കടുത്ത രക്തസ്രാവം',
+  'emergency.bleeding.press': 'വൃത്തിയുള്ള തുണി കൊണ്ട് മുറിവിൽ ശക്തിയായി അമർത്തുക. നോക്കാനായി തുണി പൊക്കരുത്.',
+  'emergency.bleeding.more': 'രക്തം തുണിയിലൂടെ കിനിഞ്ഞാൽ മുകളിൽ കൂടുതൽ തുണി വച്ച് അമർത്തിക്കൊണ്ടിരിക്കുക.',
+  'emergency.bleeding.raise': 'അവരെ കിടത്തിത്തന്നെ വയ്ക്കുക, കഴിയുമെങ്കിൽ പരിക്കേറ്റ ഭാഗം ഹൃദയത്തേക്കാൾ ഉയർത്തുക.',
+  'emergency.chest.title': 'നെഞ്ചുവേദന',
+  'emergency.chest.rest': 'എന്തിലെങ്കിലും ചാരിയിരുന്ന് വിശ്രമിക്കാൻ സഹായിക്കുക. ഇറുകിയ വസ്ത്രങ്ങൾ അയയ്ക്കുക.',
+  'emergency.chest.nothing': 'അവരെ നടക്കാൻ അനുവദിക്കരുത്. കഴിക്കാനോ കുടിക്കാനോ ഒന്നും കൊടുക്കരുത്, വേദന എപ്പോൾ തുടങ്ങി എന്ന് കുറിച്ചുവയ്ക്കുക.',
+  'emergency.chest.watch': 'അവരുടെ കൂടെ നിൽക്കുക. കുഴഞ്ഞുവീണ് സാധാരണ ശ്വാസം നിലച്ചാൽ CPR ബട്ടൺ അമർത്തി CPR തുടങ്ങുക.',
+  'emergency.general.title': 'പ്രഥമശുശ്രൂഷ',
+  'emergency.general.safe': 'നിങ്ങളും ആ വ്യക്തിയും സുരക്ഷിതരാണെന്ന് ഉറപ്പാക്കുക. അവരെ അനങ്ങാതെ കിടത്തുക.',
+  'emergency.general.breathing': 'അവർ ശ്വസിക്കുന്നുണ്ടോ എന്ന് നോക്കുക. ഇല്ലെങ്കിൽ CPR ബട്ടൺ അമർത്തി CPR തുടങ്ങുക.',
+  'emergency.general.wait': 'അവരുടെ കൂടെ നിന്ന് ചൂട് നിലനിർത്തുക. സഹായം എത്തുന്നതുവരെ കഴിക്കാനോ കുടിക്കാനോ ഒന്നും കൊടുക്കരുത്.',
+};
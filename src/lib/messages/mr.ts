@@ -0,0 +1,326 @@
+import type { Catalog } from '../i18n';
+
+/** Marathi */
+export const mr: Catalog = {
+  // ─── Triage ───
+  'triage.nearbyFacilities': 'तुमच्या जवळचे रुग्णालये येथे आहेत. काही आरोग्य समस्या असल्यास सांगा.',
+  'triage.languageSuggested': 'तुम्ही {language} मध्ये लिहित आहात असे दिसते — त्यात उत्तर मिळवण्यासाठी टॅप करा',
+
+  // ─── Welcome ───
+  'welcome.greeting': 'नमस्कार! कसे आहात?',
+  'welcome.greetingNamed': 'नमस्कार, {name}!',
+  'welcome.subtitle': 'तुमची लक्षणे सांगा — योग्य उपचारापर्यंत पोहोचण्यात आम्ही मदत करू.',
+  'welcome.quickStart1': 'डोकेदुखी',
+  'welcome.quickStart2': 'ताप आणि खोकला',
+  'welcome.quickStart3': 'पोटदुखी',
+
+  // ─── Post-result follow-ups ───
+  'postResult.tellMore': 'अजून सांगा',
+  'postResult.feelingNow': 'आता कसे वाटते',
+  'postResult.precautions': 'अजून काळजी',
+
+  // ─── Report upload ───
+  'upload.button': 'रिपोर्ट अपलोड करा',
+  'upload.analyzing': 'विश्लेषण...',
+  'upload.medicationsAdded': { one: 'तुमच्या औषध यादीत {count} औषध जोडले', other: 'तुमच्या औषध यादीत {count} औषधे जोडली' },
+  'upload.labResultsSaved': { one: '{count} लॅब मूल्य रिपोर्ट्समध्ये तुमच्या ट्रेंडमध्ये जतन केले', other: '{count} लॅब मूल्ये रिपोर्ट्समध्ये तुमच्या ट्रेंडमध्ये जतन केली' },
+  'upload.setLinked': '{count} फायलींचे एकत्र विश्लेषण केले — तुम्ही या चॅटमध्ये त्यांच्याबद्दल विचारू शकता',
+  'upload.tooManyFiles': 'एका वेळी जास्तीत जास्त {max} फायली निवडा.',
+  'upload.tooLarge': 'फायली खूप मोठ्या आहेत — प्रत्येकी {fileMb}MB पर्यंत आणि एकूण {setMb}MB पर्यंत.',
+  'upload.failed': 'दस्तऐवजाचे विश्लेषण होऊ शकले नाही. कृपया पुन्हा प्रयत्न करा.',
+
+  // ─── Sign-up prompt ───
+  'signUp.title': 'तुमच्या आरोग्याचा मागोवा घ्या',
+  'signUp.subtitle': 'मोफत अकाउंट तयार करा — तुमचे हेल्थ प्रोफाइल सेव्ह करा.',
+  'signUp.cta': 'साइन अप करा',
+  'signUp.later': 'नंतर',
+  'signUp.profile': 'प्रोफाइल पूर्ण करा',
+
+  // ─── Voice mode ───
+  'voice.idle': 'बोलण्यासाठी टॅप करा',
+  'voice.listening': 'ऐकत आहोत...',
+  'voice.transcribing': 'समजून घेत आहोत...',
+  'voice.thinking': 'विचार करत आहोत...',
+  'voice.speaking': 'बोलत आहोत...',
+  'voice.notUnderstood': 'समजले नाही. पुन्हा बोला किंवा टाइप करा.',
+
+  // ─── Voice acknowledgments — ~3 seconds of speech each ───
+  'voice.ack.generic': 'मी ऐकतो आहे. तुमच्या लक्षणांचे मूल्यांकन करतो.',
+  'voice.ack.head': 'तुमच्या डोक्यात दुखतंय. मी बघतो.',
+  'voice.ack.fever': 'तुम्हाला ताप आहे. मी मूल्यांकन करतो.',
+  'voice.ack.chest': 'छातीत त्रास होतोय. मी लगेच बघतो.',
+  'voice.ack.stomach': 'पोटात त्रास होतोय. मी बघतो.',
+  'voice.ack.breathing': 'श्वासाचा त्रास होतोय. मी काळजीपूर्वक बघतो.',
+  'voice.ack.pain': 'तुम्हाला दुखतंय. मी लक्षणे बघतो.',
+  'voice.ack.child': 'मुलांबद्दल आहे. मी काळजीपूर्वक बघतो.',
+
+  // ─── Symptom fast-path follow-ups ───
+  'pattern.fever.question': 'किती दिवसांपासून ताप आहे?',
+  'pattern.fever.option1.label': 'आजपासून',
+  'pattern.fever.option1.value': 'आजपासून ताप आहे',
+  'pattern.fever.option2.label': '1-2 दिवस',
+  'pattern.fever.option2.value': '1-2 दिवसांपासून ताप',
+  'pattern.fever.option3.label': '3-5 दिवस',
+  'pattern.fever.option3.value': '3-5 दिवसांपासून ताप',
+  'pattern.fever.option4.label': '5 दिवसांपेक्षा जास्त',
+  'pattern.fever.option4.value': '5 दिवसांपेक्षा जास्त ताप',
+  'pattern.headache.question': 'हे आतापर्यंतचे सर्वात तीव्र डोकेदुखी आहे, की नेहमीसारखे आहे?',
+  'pattern.headache.option1.label': 'सर्वात तीव्र',
+  'pattern.headache.option1.value': 'हे आतापर्यंतचे सर्वात तीव्र अचानक डोकेदुखी आहे',
+  'pattern.headache.option2.label': 'नेहमीसारखे',
+  'pattern.headache.option2.value': 'नेहमी होते तसेच आहे',
+  'pattern.headache.option3.label': 'तापासह',
+  'pattern.headache.option3.value': 'डोकेदुखीसोबत ताप पण आहे',
+  'pattern.headache.option4.label': 'माहीत नाही',
+  'pattern.headache.option4.value': 'मला नक्की माहीत नाही',
+  'pattern.cough.question': 'किती दिवसांपासून खोकला आहे? कफात रक्त येतंय का?',
+  'pattern.cough.option1.label': 'काही दिवस',
+  'pattern.cough.option1.value': 'काही दिवसांपासून खोकला, रक्त नाही',
+  'pattern.cough.option2.label': '1-2 आठवडे',
+  'pattern.cough.option2.value': '1-2 आठवड्यांपासून खोकला',
+  'pattern.cough.option3.label': '2 आठवड्यांपेक्षा जास्त',
+  'pattern.cough.option3.value': '2 आठवड्यांपेक्षा जास्त खोकला',
+  'pattern.cough.option4.label': 'रक्त येतंय',
+  'pattern.cough.option4.value': 'कफात रक्त येतंय',
+  'pattern.stomach_pain.question': 'दुखणे कुठे आहे — वर, खाली, डावीकडे, उजवीकडे?',
+  'pattern.stomach_pain.option1.label': 'वर मध्यभागी',
+  'pattern.stomach_pain.option1.value': 'पोटाच्या वर मध्यभागी दुखतंय',
+  'pattern.stomach_pain.option2.label': 'खाली उजवीकडे',
+  'pattern.stomach_pain.option2.value': 'पोटाच्या खाली उजवीकडे दुखतंय',
+  'pattern.stomach_pain.option3.label': 'संपूर्ण पोटात',
+  'pattern.stomach_pain.option3.value': 'संपूर्ण पोटात दुखतंय',
+  'pattern.stomach_pain.option4.label': 'माहीत नाही',
+  'pattern.stomach_pain.option4.value': 'मला नक्की कुठे दुखतंय ते माहीत नाही',
+  'pattern.diarrhea.question': 'आज किती वेळा झाले? रक्त किंवा श्लेष्मा येतंय का?',
+  'pattern.diarrhea.option1.label': '2-3 वेळा',
+  'pattern.diarrhea.option1.value': 'आज 2-3 वेळा जुलाब',
+  'pattern.diarrhea.option2.label': '4-6 वेळा',
+  'pattern.diarrhea.option2.value': 'आज 4-6 वेळा जुलाब',
+  'pattern.diarrhea.option3.label': '6 पेक्षा जास्त',
+  'pattern.diarrhea.option3.value': 'आज 6 पेक्षा जास्त वेळा जुलाब',
+  'pattern.diarrhea.option4.label': 'रक्त येतंय',
+  'pattern.diarrhea.option4.value': 'संडासात रक्त किंवा श्लेष्मा येतंय',
+  'pattern.period_issues.question': 'पाळी किती दिवस उशीरा आली? वजन वाढलं का किंवा चेहऱ्यावर केस किंवा पिंपल येतायत का?',
+  'pattern.period_issues.option1.label': 'काही दिवस उशीर',
+  'pattern.period_issues.option1.value': 'पाळी काही दिवस उशीरा आली',
+  'pattern.period_issues.option2.label': '2 आठवड्यांपेक्षा जास्त',
+  'pattern.period_issues.option2.value': 'पाळी 2 आठवड्यांपेक्षा जास्त उशीरा',
+  'pattern.period_issues.option3.label': 'अनियमित + वजन',
+  'pattern.period_issues.option3.value': 'पाळी अनियमित आहे आणि वजन वाढलं',
+  'pattern.period_issues.option4.label': 'जास्त/वेदना',
+  'pattern.period_issues.option4.value': 'पाळी खूप जास्त आणि वेदनादायक आहे',
+  'pattern.body_ache.question': 'ताप पण आहे का? दुखणे सांध्यात आहे की संपूर्ण शरीरात?',
+  'pattern.body_ache.option1.label': 'ताप + दुखणे',
+  'pattern.body_ache.option1.value': 'तापासोबत संपूर्ण शरीरात दुखतंय',
+  'pattern.body_ache.option2.label': 'फक्त सांधे',
+  'pattern.body_ache.option2.value': 'फक्त सांध्यात दुखतंय, ताप नाही',
+  'pattern.body_ache.option3.label': 'अशक्तपणा/थकवा',
+  'pattern.body_ache.option3.value': 'खूप अशक्तपणा आणि थकवा आहे',
+  'pattern.body_ache.option4.label': 'व्यायामानंतर',
+  'pattern.body_ache.option4.value': 'शारीरिक मेहनतीनंतर दुखायला लागलं',
+  'pattern.breathing.question': 'श्वास घेणे कठीण आरामात होतं की फक्त काम करताना? अचानक सुरू झालं का?',
+  'pattern.breathing.option1.label': 'आरामात',
+  'pattern.breathing.option1.value': 'काहीही न करता श्वास घेणे कठीण होतंय',
+  'pattern.breathing.option2.label': 'काम करताना',
+  'pattern.breathing.option2.value': 'चालताना किंवा पायऱ्या चढताना श्वास लागतो',
+  'pattern.breathing.option3.label': 'व्यायामानंतर',
+  'pattern.breathing.option3.value': 'धावल्यानंतर दम लागतो, आराम केल्यावर बरं वाटतं',
+  'pattern.breathing.option4.label': 'अचानक',
+  'pattern.breathing.option4.value': 'श्वास घेणे कठीण अचानक सुरू झालं',
+  'pattern.skin.question': 'पुरळ गोलाकार आहे का? घरात इतर कोणाला पण आहे का?',
+  'pattern.skin.option1.label': 'गोलाकार पुरळ',
+  'pattern.skin.option1.value': 'गोलाकार पुरळ, मध्ये स्वच्छ, खूप खाज',
+  'pattern.skin.option2.label': 'सगळीकडे खाज',
+  'pattern.skin.option2.value': 'संपूर्ण शरीरात खाज, रात्री जास्त',
+  'pattern.skin.option3.label': 'पिंपल',
+  'pattern.skin.option3.value': 'चेहऱ्यावर पिंपल आहेत',
+  'pattern.skin.option4.label': 'इतर समस्या',
+  'pattern.skin.option4.value': 'काही इतर त्वचा समस्या आहे',
+  'pattern.cold_flu.question': 'किती दिवसांपासून आहे? ताप किंवा अंगदुखी पण आहे का?',
+  'pattern.cold_flu.option1.label': '1-3 दिवस',
+  'pattern.cold_flu.option1.value': '1-3 दिवसांपासून सर्दी, फक्त नाक वाहते',
+  'pattern.cold_flu.option2.label': 'तापासह',
+  'pattern.cold_flu.option2.value': 'सर्दीसोबत ताप आणि अंगदुखी',
+  'pattern.cold_flu.option3.label': 'आठवड्यापेक्षा जास्त',
+  'pattern.cold_flu.option3.value': 'आठवड्यापेक्षा जास्त दिवस सर्दी',
+  'pattern.cold_flu.option4.label': 'वाढतंय',
+  'pattern.cold_flu.option4.value': 'सर्दी आधी सौम्य होती पण आता वाढतंय',
+
+  // ─── Period health ───
+  'period.headerTitle': 'मासिक पाळी आरोग्य',
+  'period.headerTitleAlly': 'मासिक पाळी जागरूकता',
+  'period.headerSubtitle': 'AI-चालित मासिक आरोग्य',
+  'period.headerSubtitleAlly': 'तुमच्या आयुष्यातील स्त्रियांना साथ द्या',
+  'period.history': 'इतिहास',
+  'period.dashboard': 'डॅशबोर्ड',
+  'period.signInTitle': 'मासिक पाळी आरोग्य पाहण्यासाठी साइन इन करा',
+  'period.signInDesc': 'तुमचा आरोग्य डेटा खाजगी आहे आणि फक्त तुम्हाला दिसतो.',
+  'period.backToSehat': 'सेहतवर परत जा',
+  'period.retry': 'पुन्हा प्रयत्न करा',
+  'period.allyHeroTitle': 'तिची साथ द्या',
+  'period.allyHeroDesc': 'भारतातील 71% किशोरवयीन मुलींना पहिल्या मासिक पाळीपूर्वी त्याबद्दल माहिती नसते. तुम्ही हे बदलू शकता — शिकून, समजून आणि साथ देऊन.',
+  'period.eduCard1Title': 'मासिक पाळी म्हणजे काय?',
+  'period.eduCard1Body': 'मासिक पाळी हा गर्भाशयाच्या अस्तराच्या बाहेर पडण्याची नैसर्गिक मासिक प्रक्रिया आहे. हे सामान्यतः 3-7 दिवस टिकते आणि दर 21-35 दिवसांनी होते. हा आजार, अशक्तपणा किंवा अशुद्धता नाही — चांगल्या आरोग्याचे लक्षण आहे.',
+  'period.eduCard2Title': 'तुम्ही कशी मदत करू शकता?',
+  'period.eduCard2Body': 'लाजिरवाणे न होता सॅनिटरी प्रॉडक्ट्स विकत घ्या. पोटदुखीसाठी गरम पाण्याची बाटली द्या. विनोद करू नका. गरज असेल तेव्हा जागा द्या. "मी कशी मदत करू?" असे विचारा.',
+  'period.eduCard3Title': 'दूर करायच्या गैरसमजुती',
+  'period.eduCard3Body': 'पाळीत स्त्रिया स्वयंपाक करू शकतात, मंदिरात जाऊ शकतात, लोणचे लावू शकतात — या निर्बंधांना कोणताही वैज्ञानिक आधार नाही. पाळीचे रक्त "अशुद्ध" नाही — ते तुमच्या शिरांमध्ये वाहणारे तेच रक्त आहे.',
+  'period.eduCard4Title': 'डॉक्टरकडे कधी जायचे',
+  'period.eduCard4Body': 'खूप जास्त रक्तस्राव (दर 1-2 तासाला पॅड बदलणे), रोजची कामे करता न येणे इतकी तीव्र वेदना, 3+ महिने पाळी न येणे, किंवा पाळी दरम्यान स्पॉटिंग — स्त्रीरोग तज्ञांकडे जाण्यास सांगा.',
+  'period.quickFacts': 'महत्त्वाचे तथ्य',
+  'period.fact1': 'पाळी साधारणतः 3-7 दिवस टिकते आणि दर 21-35 दिवसांनी येते',
+  'period.fact2': 'पोटदुखी, मूड बदलणे आणि थकवा सामान्य आहे — "ड्रामा" नाही',
+  'period.fact3': 'एक स्त्री आपल्या आयुष्यात ~10,000-15,000 पॅड वापरते — पीरियड प्रॉडक्ट्स गरज आहेत, चैन नाही',
+  'period.fact4': 'PCOS भारतातील दर 5 पैकी 1 स्त्रीला प्रभावित करते — याला जागरूकता हवी, लाज नाही',
+  'period.fact5': 'पाळीबद्दल उघडपणे बोलणे पुढच्या पिढीला निरोगी बनवते',
+  'period.ctaShare': 'हे पेज गरजू व्यक्तीसोबत शेअर करा',
+  'period.ctaBreak': 'वर्ज्य मोडणे एका संवादातून सुरू होते. तुम्ही आत्ता सुरू केले.',
+  'period.cycleOverview': 'चक्र सारांश',
+  'period.cyclesLogged': '{count} चक्र नोंदवले',
+  'period.avgCycleDays': 'सरासरी चक्र (दिवस)',
+  'period.avgPeriodDays': 'सरासरी पाळी (दिवस)',
+  'period.daysLate': 'दिवस उशीर',
+  'period.daysUntilNext': 'पुढील पर्यंत दिवस',
+  'period.nextPeriod': 'पुढील पाळी',
+  'period.logPeriod': 'पाळी नोंदवा',
+  'period.logYourPeriod': 'तुमची पाळी नोंदवा',
+  'period.startDate': 'सुरुवात तारीख',
+  'period.periodLength': 'पाळी कालावधी (दिवस)',
+  'period.flowLevel': 'प्रवाह पातळी',
+  'period.flowLight': 'हलका',
+  'period.flowMedium': 'मध्यम',
+  'period.flowHeavy': 'जास्त',
+  'period.symptoms': 'लक्षणे',
+  'period.mood': 'मूड',
+  'period.notesOpt': 'नोट्स (ऐच्छिक)',
+  'period.save': 'सेव्ह करा',
+  'period.saving': 'सेव्ह होत आहे...',
+  'period.cycleHistory': 'चक्र इतिहास',
+  'period.days': '{count} दिवस',
+  'period.flow': 'प्रवाह',
+  'period.dayCycle': '{count} दिवस चक्र',
+  'period.emptyTitle': 'तुमचे चक्र ट्रॅक करायला सुरू करा',
+  'period.emptyDesc': 'तुमच्या पाळी नोंदवा — वैयक्तिक अंदाज, आरोग्य माहिती आणि स्मरणपत्रे मिळवा.',
+  'period.askTitle': 'मासिक पाळी आरोग्याबद्दल विचारा',
+  'period.askTitleAlly': 'मासिक आरोग्याबद्दल विचारा',
+  'period.askDesc': 'पाळी, चक्र आरोग्य, स्वच्छता, PCOS, किंवा मासिक कल्याण बद्दल काहीही विचारा — तुमच्या भाषेत.',
+  'period.askDescAlly': 'मासिक आरोग्याबद्दल काहीही विचारा — पाळी समजून घ्या, गैरसमज दूर करा, सहाय्यक बनायला शिका.',
+  'period.askPlaceholder': 'तुमचा प्रश्न विचारा...',
+  'period.askBtn': 'विचारा',
+  'period.thinking': 'विचार करत आहे...',
+  'period.aiDisclaimer': 'AI उत्तर — वैद्यकीय सल्ल्यासाठी डॉक्टरांचा सल्ला घ्या',
+  'period.sCramps': 'पोटदुखी',
+  'period.sHeadache': 'डोकेदुखी',
+  'period.sBackPain': 'पाठदुखी',
+  'period.sBloating': 'पोट फुगणे',
+  'period.sFatigue': 'थकवा',
+  'period.sMoodSwings': 'मूड बदलणे',
+  'period.sAcne': 'पुरळ',
+  'period.sBreast': 'स्तनदुखी',
+  'period.sNausea': 'मळमळ',
+  'period.sCravings': 'खाण्याची इच्छा',
+  'period.mHappy': 'आनंदी',
+  'period.mCalm': 'शांत',
+  'period.mAnxious': 'चिंताग्रस्त',
+  'period.mSad': 'दुःखी',
+  'period.mIrritable': 'चिडचिड',
+  'period.mEnergetic': 'उत्साही',
+  'period.mTired': 'थकलेले',
+  'period.footerAlly': 'ज्ञान हीच शक्ती. मासिक आरोग्यावरील शांतता मोडा.',
+  'period.deleteConfirm': 'तुम्हाला हे चक्र हटवायचे आहे का?',
+  'period.footerTracker': 'तुमचा पाळी डेटा खाजगी आहे. हे वैद्यकीय निदान नाही.',
+  'period.allyQuestion1': 'मासिक पाळीबद्दल मला काय माहित असावे?',
+  'period.allyQuestion2': 'मी माझ्या बहिणीची/पत्नीची कशी मदत करू शकतो?',
+  'period.allyQuestion3': 'पाळीबद्दलचे गैरसमज काय आहेत?',
+  'period.selfQuestion1': 'पाळीदुखी कमी करण्याचे नैसर्गिक उपाय',
+  'period.selfQuestion2': 'PCOS म्हणजे काय?',
+  'period.selfQuestion3': 'पाळीत काय खावे',
+
+  // ─── Follow-up check reminders ───
+  'followup.reminder': 'सेहत चेक-इन: आता तुम्हाला कसे वाटते — आधीपेक्षा बरे, तसेच, की जास्त त्रास?',
+  'followup.reminderLink': 'इथे उत्तर द्या: {url}',
+  'followup.emailSubject': 'तुम्हाला कसे वाटते? — सेहत चेक-इन',
+
+  // ─── Follow-up inbox ───
+  'followup.pageTitle': 'चेक-इन',
+  'followup.sectionDue': 'आता करायचे',
+  'followup.sectionUpcoming': 'पुढील',
+  'followup.sectionPast': 'मागील',
+  'followup.checkAt': '{date} रोजी चेक-इन',
+  'followup.escalation': 'असे झाल्यास लगेच उपचार घ्या: {criteria}',
+  'followup.question': 'आता तुम्हाला कसे वाटते?',
+  'followup.better': 'बरे',
+  'followup.same': 'तसेच',
+  'followup.worse': 'जास्त त्रास',
+  'followup.dismiss': 'काढून टाका',
+  'followup.continue': 'संभाषण सुरू ठेवा',
+  'followup.statusCompleted': 'उत्तर दिले',
+  'followup.statusEscalated': 'त्रास वाढला',
+  'followup.statusDismissed': 'काढून टाकले',
+  'followup.empty': 'अजून कोणतेही चेक-इन नाहीत. एखाद्या लक्षणाबद्दल नंतर तुमच्याकडून जाणून घ्यायचे असल्यास सेहत चेक-इन ठरवेल.',
+  'followup.signIn': 'तुमचे चेक-इन पाहण्यासाठी साइन इन करा',
+  'followup.loadError': 'तुमचे चेक-इन लोड करता आले नाहीत',
+  'followup.answerError': 'तुमचे उत्तर सेव्ह करता आले नाही. कृपया पुन्हा प्रयत्न करा.',
+  'followup.checkInBanner': 'फॉलो-अप चेक-इन: {reason}',
+
+  // ─── Emergency guide ───
+  'emergency.title': 'आणीबाणी',
+  'emergency.intro': 'ही आणीबाणी आहे. आत्ताच {number} वर कॉल करा — लाल बटण दाबा. मदत येईपर्यंत मी तुम्हाला एक-एक पायरी सांगेन.',
+  'emergency.call': 'आत्ताच {number} वर कॉल करा',
+  'emergency.ambulance': 'रुग्णवाहिका: {number}',
+  'emergency.stepOf': 'पायरी {current} / {total}',
+  'emergency.next': 'पुढे',
+  'emergency.repeat': 'पुन्हा',
+  'emergency.back': 'मागे',
+  'emergency.sayNext': 'झाल्यावर "झालं" म्हणा, किंवा पुढे दाबा',
+  'emergency.sayBreathing': '"श्वास चालू" किंवा "श्वास नाही" म्हणा, किंवा एखादे बटण दाबा',
+  'emergency.breathing': 'श्वास घेत आहेत',
+  'emergency.startCpr': 'श्वास घेत नाहीत? CPR सुरू करा',
+  'emergency.pushWithBeat': 'ठोक्याबरोबर दाबा',
+  'emergency.pauseBeat': 'ठोका थांबवा',
+  'emergency.resumeBeat': 'ठोका पुन्हा सुरू करा',
+  'emergency.fromAssessment': 'तुमच्या मूल्यांकनातून',
+  'emergency.finished': 'या सगळ्या पायऱ्या झाल्या. मदत येईपर्यंत त्यांच्यासोबत राहा आणि त्यांच्या श्वासावर लक्ष ठेवा.',
+  'emergency.close': 'मार्गदर्शक बंद करा',
+  'emergency.cpr.title': 'सीपीआर (CPR)',
+  'emergency.cpr.check': 'त्यांच्या खांद्यावर थोपटा आणि मोठ्याने हाक मारा. ते नीट श्वास घेत आहेत का? "श्वास चालू" किंवा "श्वास नाही" म्हणा.',
+  'emergency.cpr.position': 'त्यांना कठीण पृष्ठभागावर पाठीवर सरळ झोपवा आणि त्यांच्या छातीजवळ गुडघ्यांवर बसा.',
+  'emergency.cpr.hands': 'एका तळहाताचा खालचा भाग छातीच्या मध्यभागी ठेवा आणि दुसरा हात त्यावर ठेवा. हात सरळ ठेवा.',
+  'emergency.cpr.compress': 'प्रत्येक ठोक्याबरोबर जोरात आणि वेगाने सुमारे 5 सेंटीमीटर खाली दाबा. 30 पर्यंत मोजा आणि पुन्हा सुरू करा. मदत येईपर्यंत थांबू नका.',
+  'emergency.recovery.title': 'रिकव्हरी पोझिशन',
+  'emergency.recovery.side': 'त्यांच्या शेजारी गुडघ्यावर बसा. लांबचा गुडघा वाकवा आणि तो ओढून त्यांना तुमच्याकडे कुशीवर वळवा.',
+  'emergency.recovery.airway': 'डोके हलकेच मागे झुकवा आणि तोंड खालच्या बाजूला ठेवा, म्हणजे श्वास चालू राहील आणि तोंडातले बाहेर पडेल.',
+  'emergency.recovery.watch': 'त्यांच्यासोबत राहा आणि त्यांचा श्वास पाहत राहा. श्वास थांबला तर "श्वास नाही" म्हणा किंवा CPR सुरू करा दाबा.',
+  'emergency.choking.title': 'घसा अडकणे',
+  'emergency.choking.cough': 'ते खोकू किंवा बोलू शकत असतील तर त्यांना खोकत राहू द्या. आत्ताच पाठीवर मारू नका.',
+  'emergency.choking.backBlows': 'ते श्वास घेऊ किंवा बोलू शकत नसतील तर त्यांना पुढे वाकवा आणि तळहाताच्या खालच्या भागाने खांद्यांच्या मध्ये 5 वेळा जोरात मारा.',
+  'emergency.choking.thrusts': 'मग त्यांच्या मागे उभे राहा, मूठ बेंबीच्या थोडी वर ठेवा आणि 5 वेळा जोरात आत आणि वर ओढा. पाठीवर मारणे आणि पोट दाबणे चालू ठेवा.',
+  'emergency.choking.unconscious': 'ते बेशुद्ध झाले तर त्यांना पाठीवर झोपवा आणि CPR सुरू करा.',
+  'emergency.snakebite.title': 'सर्पदंश',
+  'emergency.snakebite.calm': 'व्यक्तीला शांत ठेवा आणि झोपवून ठेवा. हालचाल केल्याने विष वेगाने पसरते.',
+  'emergency.snakebite.immobilize': 'चावलेला हात किंवा पाय पट्टी बांधल्यासारखा स्थिर ठेवा, हृदयापेक्षा खाली. अंगठ्या, बांगड्या, घड्याळ आणि घट्ट कपडे काढा.',
+  'emergency.snakebite.dont': 'चाव्याची जागा कापू नका, चोखू नका, घट्ट पट्टी बांधू नका, आणि त्यावर बर्फ किंवा जडीबुटी लावू नका.',
+  'emergency.snakebite.transport': 'त्यांना उचलून अँटी-व्हेनम असलेल्या रुग्णालयात न्या. त्यांना चालू देऊ नका. चावल्याची वेळ लिहून ठेवा.',
+  'emergency.stroke.title': 'स्ट्रोक — FAST तपासणी',
+  'emergency.stroke.face': 'चेहरा (F): त्यांना हसायला सांगा. चेहऱ्याची एक बाजू खाली झुकली आहे का?',
+  'emergency.stroke.arms': 'हात (A): त्यांना दोन्ही हात वर करायला सांगा. एक हात खाली घसरतो का?',
+  'emergency.stroke.speech': 'बोलणे (S): त्यांना एक सोपे वाक्य पुन्हा म्हणायला सांगा. बोलणे अडखळते किंवा विचित्र आहे का?',
+  'emergency.stroke.time': 'वेळ (T): यापैकी काहीही दिसले तर सुरुवातीची वेळ लिहून ठेवा आणि त्यांना आत्ताच रुग्णालयात न्या. अन्न, पाणी किंवा औषध देऊ नका.',
+  'emergency.seizure.title': 'फेफरे (झटके)',
+  'emergency.seizure.clear': 'कठीण आणि टोकदार वस्तू त्यांच्यापासून दूर करा. त्यांना जबरदस्तीने धरून ठेवू नका.',
+  'emergency.seizure.head': 'त्यांच्या डोक्याखाली काहीतरी मऊ ठेवा. तोंडात काहीही घालू नका — ना चमचा, ना पाणी.',
+  'emergency.seizure.side': 'झटके थांबल्यावर त्यांना कुशीवर वळवा आणि ते श्वास घेत आहेत का ते पाहा.',
+  'emergency.seizure.time': 'झटके किती वेळ चालतात ते पाहा. 5 मिनिटांपेक्षा जास्त झटके येणे ही आणीबाणी आहे.',
+  'emergency.bleeding.title': 'जास्त रक्तस्त्राव',
+  'emergency.bleeding.press': 'स्वच्छ कापडाने जखमेवर जोरात दाबा. बघण्यासाठी कापड उचलू नका.',
+  'emergency.bleeding.more': 'रक्त कापडातून बाहेर आले तर वर आणखी कापड ठेवा आणि दाबत राहा.',
+  'emergency.bleeding.raise': 'त्यांना झोपवून ठेवा आणि शक्य असल्यास जखमी भाग हृदयापेक्षा वर उचला.',
+  'emergency.chest.title': 'छातीत दुखणे',
+  'emergency.chest.rest': 'त्यांना कशालातरी टेकून बसायला आणि आराम करायला मदत करा. घट्ट कपडे सैल करा.',
+  'emergency.chest.nothing': 'त्यांना फिरू देऊ नका. काहीही खायला-प्यायला देऊ नका, आणि दुखणे कधी सुरू झाले ते लिहून ठेवा.',
+  'emergency.chest.watch': 'त्यांच्यासोबत राहा. ते कोसळले आणि नीट श्वास घेणे थांबले तर CPR बटण दाबून CPR सुरू करा.',
+  'emergency.general.title': 'प्रथमोपचार',
+  'emergency.general.safe': 'तुम्ही आणि ती व्यक्ती सुरक्षित आहात याची खात्री करा. त्यांना झोपवून स्थिर ठेवा.',
+  'emergency.general.breathing': 'ते श्वास घेत आहेत का ते तपासा. नसतील तर CPR बटण दाबून CPR सुरू करा.',
+  'emergency.general.wait': 'त्यांच्यासोबत राहा आणि त्यांना उबदार ठेवा. मदत येईपर्यंत काहीही खायला-प्यायला देऊ नका.',
+};
@@ -0,0 +1,326 @@
+import type { Catalog } from '../i18n';
+
+/** Odia */
+export const or: Catalog = {
+  // ─── Triage ───
+  'triage.nearbyFacilities': 'ଏଠାରେ ଆପଣଙ୍କ ନିକଟସ୍ଥ ହସ୍ପିଟାଲ ଓ କ୍ଲିନିକ ଅଛି। କୌଣସି ସ୍ୱାସ୍ଥ୍ୟ ସମସ୍ୟା ଥିଲେ କୁହନ୍ତୁ।',
+  'triage.languageSuggested': 'ଲାଗୁଛି ଆପଣ {language}ରେ ଲେଖୁଛନ୍ତି — ସେଥିରେ ଉତ୍ତର ପାଇଁ ଟ୍ୟାପ୍ କରନ୍ତୁ',
+
+  // ─── Welcome ───
+  'welcome.greeting': 'ନମସ୍କାର! ଆପଣ କେମିତି ଅଛନ୍ତି?',
+  'welcome.greetingNamed': 'ନମସ୍କାର, {name}!',
+  'welcome.subtitle': 'ଆପଣଙ୍କ ଲକ୍ଷଣ କୁହନ୍ତୁ — ଠିକ୍ ଚିକିତ୍ସା ପର୍ଯ୍ୟନ୍ତ ପହଞ୍ଚିବାରେ ଆମେ ସାହାଯ୍ୟ କରିବୁ।',
+  'welcome.quickStart1': 'ମୁଣ୍ଡବିନ୍ଧା',
+  'welcome.quickStart2': 'ଜ୍ୱର ଓ କାଶ',
+  'welcome.quickStart3': 'ପେଟ ବିନ୍ଧା',
+
+  // ─── Post-result follow-ups ───
+  'postResult.tellMore': 'ଆଉ କୁହନ୍ତୁ',
+  'postResult.feelingNow': 'ଏବେ କେମିତି ଲାଗୁଛି',
+  'postResult.precautions': 'ଆଉ ସାବଧାନତା',
+
+  // ─── Report upload ───
+  'upload.button': 'ରିପୋର୍ଟ ଅପଲୋଡ୍',
+  'upload.analyzing': 'ବିଶ୍ଳେଷଣ...',
+  'upload.medicationsAdded': 'ଆପଣଙ୍କ ଔଷଧ ତାଲିକାରେ {count}ଟି ଔଷଧ ଯୋଡ଼ାଗଲା',
+  'upload.labResultsSaved': '{count}ଟି ଲ୍ୟାବ ମୂଲ୍ୟ ରିପୋର୍ଟରେ ଆପଣଙ୍କ ଟ୍ରେଣ୍ଡରେ ସେଭ୍ ହେଲା',
+  'upload.setLinked': '{count}ଟି ଫାଇଲ୍ ଏକାଠି ବିଶ୍ଳେଷଣ କରାଗଲା — ଆପଣ ଏହି ଚାଟରେ ସେଗୁଡ଼ିକ ବିଷୟରେ ପଚାରିପାରିବେ',
+  'upload.tooManyFiles': 'ଥରକେ ସର୍ବାଧିକ {max}ଟି ଫାଇଲ୍ ବାଛନ୍ତୁ।',
+  'upload.tooLarge': 'ଫାଇଲଗୁଡ଼ିକ ବହୁତ ବଡ଼ — ପ୍ରତ୍ୟେକ {fileMb}MB ପର୍ଯ୍ୟନ୍ତ ଏବଂ ସମୁଦାୟ {setMb}MB ପର୍ଯ୍ୟନ୍ତ।',
+  'upload.failed': 'ଦଲିଲ ବିଶ୍ଳେଷଣ କରାଯାଇପାରିଲା ନାହିଁ। ଦୟାକରି ପୁଣି ଚେଷ୍ଟା କରନ୍ତୁ।',
+
+  // ─── Sign-up prompt ───
+  'signUp.title': 'ଆପଣଙ୍କ ସ୍ୱାସ୍ଥ୍ୟ ଟ୍ରାକ୍ କରନ୍ତୁ',
+  'signUp.subtitle': 'ମାଗଣା ଆକାଉଣ୍ଟ ତିଆରି କରନ୍ତୁ — ଆପଣଙ୍କ ସ୍ୱାସ୍ଥ୍ୟ ପ୍ରୋଫାଇଲ ସେଭ କରନ୍ତୁ।',
+  'signUp.cta': 'ସାଇନ ଅପ କରନ୍ତୁ',
+  'signUp.later': 'ପରେ',
+  'signUp.profile': 'ପ୍ରୋଫାଇଲ ସମ୍ପୂର୍ଣ୍ଣ କରନ୍ତୁ',
+
+  // ─── Voice mode ───
+  'voice.idle': 'କହିବାକୁ ଟ୍ୟାପ କରନ୍ତୁ',
+  'voice.listening': 'ଶୁଣୁଛୁ...',
+  'voice.transcribing': 'ବୁଝୁଛୁ...',
+  'voice.thinking': 'ଭାବୁଛୁ...',
+  'voice.speaking': 'କହୁଛୁ...',
+  'voice.notUnderstood': 'ବୁଝିପାରିଲୁ ନାହିଁ। ପୁଣି କୁହନ୍ତୁ କିମ୍ବା ଟାଇପ୍ କରନ୍ତୁ।',
+
+  // ─── Voice acknowledgments — ~3 seconds of speech each ───
+  'voice.ack.generic': 'ମୁଁ ଶୁଣୁଛି। ଆପଣଙ୍କ ଲକ୍ଷଣ ଦେଖୁଛି।',
+  'voice.ack.head': 'ଆପଣଙ୍କ ମୁଣ୍ଡବିନ୍ଧା ବିଷୟରେ ବୁଝିଲି। ମୁଁ ଦେଖୁଛି।',
+  'voice.ack.fever': 'ଆପଣଙ୍କୁ ଜ୍ୱର ଅଛି। ମୁଁ ମୂଲ୍ୟାଙ୍କନ କରୁଛି।',
+  'voice.ack.chest': 'ଛାତି ସମସ୍ୟା ବିଷୟରେ ବୁଝିଲି। ତୁରନ୍ତ ଦେଖୁଛି।',
+  'voice.ack.stomach': 'ପେଟ ସମସ୍ୟା ବିଷୟରେ ବୁଝିଲି। ମୁଁ ଦେଖୁଛି।',
+  'voice.ack.breathing': 'ନିଶ୍ୱାସ ସମସ୍ୟା ବିଷୟରେ ବୁଝିଲି। ସାବଧାନରେ ଦେଖୁଛି।',
+  'voice.ack.pain': 'ଆପଣଙ୍କ ଯନ୍ତ୍ରଣା ବିଷୟରେ ବୁଝିଲି। ଲକ୍ଷଣ ଦେଖୁଛି।',
+  'voice.ack.child': 'ପିଲାଙ୍କ ବିଷୟ। ସାବଧାନରେ ଦେଖୁଛି।',
+
+  // ─── Symptom fast-path follow-ups ───
+  'pattern.fever.question': 'କେତେ ଦିନ ହେବ ଜ୍ୱର ଅଛି?',
+  'pattern.fever.option1.label': 'ଆଜିଠାରୁ',
+  'pattern.fever.option1.value': 'ଆଜିଠାରୁ ଜ୍ୱର ଅଛି',
+  'pattern.fever.option2.label': '1-2 ଦିନ',
+  'pattern.fever.option2.value': '1-2 ଦିନ ହେବ ଜ୍ୱର',
+  'pattern.fever.option3.label': '3-5 ଦିନ',
+  'pattern.fever.option3.value': '3-5 ଦିନ ହେବ ଜ୍ୱର',
+  'pattern.fever.option4.label': '5 ଦିନରୁ ଅଧିକ',
+  'pattern.fever.option4.value': '5 ଦିନରୁ ଅଧିକ ଜ୍ୱର',
+  'pattern.headache.question': 'ଏହା କଣ ଆପଣଙ୍କର ଏଯାବତ୍ ସବୁଠାରୁ ଖରାପ ମୁଣ୍ଡବିନ୍ଧା, ନା ସାଧାରଣତଃ ହେଉଥିବା ପରି?',
+  'pattern.headache.option1.label': 'ସବୁଠାରୁ ଖରାପ',
+  'pattern.headache.option1.value': 'ଏହା ଏଯାବତ୍ ସବୁଠାରୁ ତୀବ୍ର ଓ ହଠାତ୍ ମୁଣ୍ଡବିନ୍ଧା',
+  'pattern.headache.option2.label': 'ସାଧାରଣ ପରି',
+  'pattern.headache.option2.value': 'ସାଧାରଣତଃ ହେଉଥିବା ମୁଣ୍ଡବିନ୍ଧା ପରି',
+  'pattern.headache.option3.label': 'ଜ୍ୱର ସହିତ',
+  'pattern.headache.option3.value': 'ମୁଣ୍ଡବିନ୍ଧା ସହିତ ଜ୍ୱର ମଧ୍ୟ ଅଛି',
+  'pattern.headache.option4.label': 'ଜାଣିନି',
+  'pattern.headache.option4.value': 'ମୁଁ ନିଶ୍ଚିତ ନୁହେଁ',
+  'pattern.cough.question': 'କେତେ ଦିନ ହେବ କାଶ ହେଉଛି? କଫରେ ରକ୍ତ ଆସୁଛି କି?',
+  'pattern.cough.option1.label': 'କିଛି ଦିନ',
+  'pattern.cough.option1.value': 'କିଛି ଦିନ ହେବ କାଶ, ରକ୍ତ ନାହିଁ',
+  'pattern.cough.option2.label': '1-2 ସପ୍ତାହ',
+  'pattern.cough.option2.value': '1-2 ସପ୍ତାହ ହେବ କାଶ',
+  'pattern.cough.option3.label': '2 ସପ୍ତାହରୁ ଅଧିକ',
+  'pattern.cough.option3.value': '2 ସପ୍ତାହରୁ ଅଧିକ କାଶ',
+  'pattern.cough.option4.label': 'ରକ୍ତ ଆସୁଛି',
+  'pattern.cough.option4.value': 'କଫରେ ରକ୍ତ ଆସୁଛି',
+  'pattern.stomach_pain.question': 'ଯନ୍ତ୍ରଣା ଠିକ୍ କେଉଁଠି — ଉପରେ, ତଳେ, ବାମ ପଟେ ନା ଡାହାଣ ପଟେ?',
+  'pattern.stomach_pain.option1.label': 'ଉପର ମଝି',
+  'pattern.stomach_pain.option1.value': 'ପେଟର ଉପର ମଝିରେ ଯନ୍ତ୍ରଣା',
+  'pattern.stomach_pain.option2.label': 'ତଳ ଡାହାଣ',
+  'pattern.stomach_pain.option2.value': 'ପେଟର ତଳ ଡାହାଣ ପଟେ ଯନ୍ତ୍ରଣା',
+  'pattern.stomach_pain.option3.label': 'ସାରା ପେଟ',
+  'pattern.stomach_pain.option3.value': 'ସାରା ପେଟରେ ଯନ୍ତ୍ରଣା',
+  'pattern.stomach_pain.option4.label': 'ଜାଣିନି',
+  'pattern.stomach_pain.option4.value': 'ଯନ୍ତ୍ରଣା କେଉଁଠି ଠିକ୍ କହିପାରୁନି',
+  'pattern.diarrhea.question': 'ଆଜି କେତେ ଥର ହେଲାଣି? ଝାଡ଼ାରେ ରକ୍ତ ବା ଶ୍ଳେଷ୍ମା ଅଛି କି?',
+  'pattern.diarrhea.option1.label': '2-3 ଥର',
+  'pattern.diarrhea.option1.value': 'ଆଜି 2-3 ଥର ଝାଡ଼ା',
+  'pattern.diarrhea.option2.label': '4-6 ଥର',
+  'pattern.diarrhea.option2.value': 'ଆଜି 4-6 ଥର ଝାଡ଼ା',
+  'pattern.diarrhea.option3.label': '6 ଥରରୁ ଅଧିକ',
+  'pattern.diarrhea.option3.value': 'ଆଜି 6 ଥରରୁ ଅଧିକ ଝାଡ଼ା',
+  'pattern.diarrhea.option4.label': 'ରକ୍ତ ଅଛି',
+  'pattern.diarrhea.option4.value': 'ଝାଡ଼ାରେ ରକ୍ତ ବା ଶ୍ଳେଷ୍ମା ଅଛି',
+  'pattern.period_issues.question': 'ଋତୁସ୍ରାବ କେତେ ଦିନ ଡେରି ହୋଇଛି? ଓଜନ ବଢ଼ିଛି କି ମୁହଁରେ ଅଧିକ କେଶ ବା ବ୍ରଣ ଦେଖାଯାଉଛି କି?',
+  'pattern.period_issues.option1.label': 'କିଛି ଦିନ ଡେରି',
+  'pattern.period_issues.option1.value': 'ଋତୁସ୍ରାବ କିଛି ଦିନ ଡେରି',
+  'pattern.period_issues.option2.label': '2 ସପ୍ତାହରୁ ଅଧିକ',
+  'pattern.period_issues.option2.value': 'ଋତୁସ୍ରାବ 2 ସପ୍ତାହରୁ ଅଧିକ ଡେରି',
+  'pattern.period_issues.option3.label': 'ଅନିୟମିତ + ଓଜନ',
+  'pattern.period_issues.option3.value': 'ଋତୁସ୍ରାବ ଅନିୟମିତ ଓ ଓଜନ ବଢ଼ିଛି',
+  'pattern.period_issues.option4.label': 'ଅଧିକ/ଯନ୍ତ୍ରଣା',
+  'pattern.period_issues.option4.value': 'ଋତୁସ୍ରାବ ବହୁତ ଅଧିକ ଓ ଯନ୍ତ୍ରଣାଦାୟକ',
+  'pattern.body_ache.question': 'ଜ୍ୱର ମଧ୍ୟ ଅଛି କି? ଯନ୍ତ୍ରଣା ଗଣ୍ଠିରେ ନା ସାରା ଦେହରେ?',
+  'pattern.body_ache.option1.label': 'ଜ୍ୱର + ଦେହ ବିନ୍ଧା',
+  'pattern.body_ache.option1.value': 'ଜ୍ୱର ସହିତ ସାରା ଦେହ ବିନ୍ଧୁଛି',
+  'pattern.body_ache.option2.label': 'କେବଳ ଗଣ୍ଠି',
+  'pattern.body_ache.option2.value': 'ଯନ୍ତ୍ରଣା ମୁଖ୍ୟତଃ ଗଣ୍ଠିରେ, ଜ୍ୱର ନାହିଁ',
+  'pattern.body_ache.option3.label': 'ଦୁର୍ବଳତା/କ୍ଳାନ୍ତି',
+  'pattern.body_ache.option3.value': 'ବହୁତ ଦୁର୍ବଳ ଓ କ୍ଳାନ୍ତ ଲାଗୁଛି, କୌଣସି ବିଶେଷ ଯନ୍ତ୍ରଣା ନାହିଁ',
+  'pattern.body_ache.option4.label': 'ବ୍ୟାୟାମ ପରେ',
+  'pattern.body_ache.option4.value': 'ବ୍ୟାୟାମ ବା ପରିଶ୍ରମ ପରେ ଦେହ ବିନ୍ଧା ଆରମ୍ଭ ହେଲା',
+  'pattern.breathing.question': 'ବିଶ୍ରାମ ସମୟରେ ମଧ୍ୟ ନିଶ୍ୱାସ ନେବାରେ କଷ୍ଟ ହୁଏ କି କେବଳ କାମ କଲାବେଳେ? ଏହା ହଠାତ୍ ଆରମ୍ଭ ହେଲା କି?',
+  'pattern.breathing.option1.label': 'ବିଶ୍ରାମରେ ମଧ୍ୟ',
+  'pattern.breathing.option1.value': 'ବିଶ୍ରାମ ସମୟରେ ମଧ୍ୟ ନିଶ୍ୱାସ ନେବାରେ କଷ୍ଟ',
+  'pattern.breathing.option2.label': 'କାମ କଲାବେଳେ',
+  'pattern.breathing.option2.value': 'କେବଳ ଚାଲିବା ବା ସିଡ଼ି ଚଢ଼ିବା ବେଳେ ଧଇଁସଇଁ',
+  'pattern.breathing.option3.label': 'ବ୍ୟାୟାମ ପରେ',
+  'pattern.breathing.option3.value': 'ଦୌଡ଼ିବା ବା ବ୍ୟାୟାମ ପରେ ଧଇଁସଇଁ, ବିଶ୍ରାମ ନେଲେ ଭଲ ହୁଏ',
+  'pattern.breathing.option4.label': 'ହଠାତ୍ ଆରମ୍ଭ',
+  'pattern.breathing.option4.value': 'ନିଶ୍ୱାସ କଷ୍ଟ ହଠାତ୍ ଆରମ୍ଭ ହେଲା',
+  'pattern.skin.question': 'ଦାଗଟି ଗୋଲ ମୁଦି ଆକାରର କି? ପରିବାରରେ ଆଉ କାହାକୁ ମଧ୍ୟ ହୋଇଛି କି?',
+  'pattern.skin.option1.label': 'ଗୋଲ ଦାଗ',
+  'pattern.skin.option1.value': 'ଦାଗଟି ଗୋଲ, ମଝି ସଫା, ବହୁତ କୁଣ୍ଡାଉଛି',
+  'pattern.skin.option2.label': 'ସାରା ଦେହ କୁଣ୍ଡାଉଛି',
+  'pattern.skin.option2.value': 'ସାରା ଦେହ କୁଣ୍ଡାଉଛି, ରାତିରେ ଅଧିକ',
+  'pattern.skin.option3.label': 'ବ୍ରଣ',
+  'pattern.skin.option3.value': 'ମୁହଁରେ ବ୍ରଣ ଅଛି',
+  'pattern.skin.option4.label': 'ଅନ୍ୟ ସମସ୍ୟା',
+  'pattern.skin.option4.value': 'ଚର୍ମର ଅନ୍ୟ କିଛି ସମସ୍ୟା ଅଛି',
+  'pattern.cold_flu.question': 'କେତେ ଦିନ ହେବ ଅଛି? ଜ୍ୱର ବା ଦେହ ବିନ୍ଧା ମଧ୍ୟ ଅଛି କି?',
+  'pattern.cold_flu.option1.label': '1-3 ଦିନ, ସାମାନ୍ୟ',
+  'pattern.cold_flu.option1.value': '1-3 ଦିନ ହେବ ସର୍ଦ୍ଦି, କେବଳ ନାକରୁ ପାଣି ବୋହୁଛି',
+  'pattern.cold_flu.option2.label': 'ଜ୍ୱର ସହିତ',
+  'pattern.cold_flu.option2.value': 'ସର୍ଦ୍ଦି ସହିତ ଜ୍ୱର ଓ ଦେହ ବିନ୍ଧା',
+  'pattern.cold_flu.option3.label': 'ସପ୍ତାହରୁ ଅଧିକ',
+  'pattern.cold_flu.option3.value': 'ଏକ ସପ୍ତାହରୁ ଅଧିକ ସର୍ଦ୍ଦି',
+  'pattern.cold_flu.option4.label': 'ବଢ଼ୁଛି',
+  'pattern.cold_flu.option4.value': 'ସର୍ଦ୍ଦି ପ୍ରଥମେ ସାମାନ୍ୟ ଥିଲା କିନ୍ତୁ ଏବେ ବଢ଼ୁଛି',
+
+  // ─── Period health ───
+  'period.headerTitle': 'ଋତୁସ୍ରାବ ସ୍ୱାସ୍ଥ୍ୟ',
+  'period.headerTitleAlly': 'ଋତୁସ୍ରାବ ସ୍ୱାସ୍ଥ୍ୟ ସଚେତନତା',
+  'period.headerSubtitle': 'AI-ଚାଳିତ ଋତୁ ସ୍ୱାସ୍ଥ୍ୟ',
+  'period.headerSubtitleAlly': 'ଆପଣଙ୍କ ଜୀବନର ମହିଳାଙ୍କୁ ସହଯୋଗ କରନ୍ତୁ',
+  'period.history': 'ଇତିହାସ',
+  'period.dashboard': 'ଡ୍ୟାସବୋର୍ଡ',
+  'period.signInTitle': 'ଋତୁସ୍ରାବ ସ୍ୱାସ୍ଥ୍ୟ ଦେଖିବାକୁ ସାଇନ ଇନ କରନ୍ତୁ',
+  'period.signInDesc': 'ଆପଣଙ୍କ ସ୍ୱାସ୍ଥ୍ୟ ତଥ୍ୟ ଗୋପନୀୟ ଏବଂ କେବଳ ଆପଣଙ୍କୁ ଦେଖାଯାଏ।',
+  'period.backToSehat': 'Sehat କୁ ଫେରନ୍ତୁ',
+  'period.retry': 'ପୁଣି ଚେଷ୍ଟା କରନ୍ତୁ',
+  'period.allyHeroTitle': 'ତାଙ୍କ ସହଯୋଗୀ ହୁଅନ୍ତୁ',
+  'period.allyHeroDesc': 'ଭାରତରେ 71% କିଶୋରୀ ପ୍ରଥମ ଋତୁସ୍ରାବ ପୂର୍ବରୁ ଏହା ବିଷୟରେ ଜାଣନ୍ତି ନାହିଁ। ଆପଣ ଏହା ବଦଳାଇ ପାରିବେ — ଶିଖି, ବୁଝି ଓ ଆପଣଙ୍କ ଆଖପାଖର ମହିଳାଙ୍କୁ ସହଯୋଗ କରି।',
+  'period.eduCard1Title': 'ଋତୁସ୍ରାବ କଣ?',
+  'period.eduCard1Body': 'ଋତୁସ୍ରାବ (ପିରିୟଡ) ଏକ ପ୍ରାକୃତିକ ମାସିକ ପ୍ରକ୍ରିୟା ଯେଉଁଥିରେ ଗର୍ଭାଶୟ ତାର ଭିତର ସ୍ତର ତ୍ୟାଗ କରେ। ଏହା ସାଧାରଣତଃ 3-7 ଦିନ ରହେ ଏବଂ ପ୍ରତି 21-35 ଦିନରେ ହୁଏ। ଏହା କୌଣସି ରୋଗ, ଦୁର୍ବଳତା ବା ଅଶୁଦ୍ଧତା ନୁହେଁ — ଏହା ଭଲ ସ୍ୱାସ୍ଥ୍ୟର ଲକ୍ଷଣ।',
+  'period.eduCard2Title': 'ଆପଣ କିପରି ସାହାଯ୍ୟ କରିପାରିବେ?',
+  'period.eduCard2Body': 'ସଙ୍କୋଚ ନକରି ସାନିଟାରୀ ସାମଗ୍ରୀ କିଣନ୍ତୁ। ପେଟ ମୋଡ଼ି ପାଇଁ ଗରମ ପାଣି ବୋତଲ ଦିଅନ୍ତୁ। ଥଟ୍ଟା କରନ୍ତୁ ନାହିଁ କି ମୁହଁ ବିକୃତ କରନ୍ତୁ ନାହିଁ। ଆବଶ୍ୟକ ହେଲେ ସମୟ ଦିଅନ୍ତୁ। ପଚାରନ୍ତୁ "ମୁଁ କିପରି ସାହାଯ୍ୟ କରିବି?" — ଯେପରି ଅନ୍ୟ କୌଣସି ସ୍ୱାସ୍ଥ୍ୟ ବିଷୟରେ ପଚାରନ୍ତି।',
+  'period.eduCard3Title': 'ଭୁଲିବାକୁ ଥିବା ଭ୍ରାନ୍ତ ଧାରଣା',
+  'period.eduCard3Body': 'ଋତୁସ୍ରାବ ସମୟରେ ମହିଳାମାନେ ରୋଷେଇ କରିପାରିବେ, ମନ୍ଦିର ଯାଇପାରିବେ, ଆଚାର ଛୁଇଁପାରିବେ ଏବଂ ସବୁକିଛି କରିପାରିବେ — ଏହି କଟକଣାର କୌଣସି ବୈଜ୍ଞାନିକ ଆଧାର ନାହିଁ। ଋତୁସ୍ରାବର ରକ୍ତ "ଅପରିଷ୍କାର" ନୁହେଁ — ଏହା ସେହି ରକ୍ତ ଯାହା ଆପଣଙ୍କ ଶିରାରେ ପ୍ରବାହିତ ହୁଏ।',
+  'period.eduCard4Title': 'କେବେ ଡାକ୍ତର ଦେଖାଇବାକୁ ଉତ୍ସାହିତ କରିବେ',
+  'period.eduCard4Body': 'ଯଦି ତାଙ୍କର ବହୁତ ଅଧିକ ଋତୁସ୍ରାବ (ପ୍ରତି 1-2 ଘଣ୍ଟାରେ ପ୍ୟାଡ ବଦଳାଇବାକୁ ପଡ଼େ), ଦୈନନ୍ଦିନ କାମ ରୋକୁଥିବା ତୀବ୍ର ଯନ୍ତ୍ରଣା, 3+ ମାସ ହେବ ଋତୁସ୍ରାବ ନହେବା, ବା ଦୁଇ ଋତୁସ୍ରାବ ମଧ୍ୟରେ ଦାଗ ଦେଖାଯାଏ — ତେବେ ସ୍ତ୍ରୀରୋଗ ବିଶେଷଜ୍ଞଙ୍କ ପାଖକୁ ଯିବାକୁ ଉତ୍ସାହିତ କରନ୍ତୁ।',
+  'period.quickFacts': 'ମୁଖ୍ୟ ତଥ୍ୟ',
+  'period.fact1': 'ହାରାହାରି ଋତୁସ୍ରାବ 3-7 ଦିନ ରହେ ଏବଂ ପ୍ରତି 21-35 ଦିନରେ ହୁଏ',
+  'period.fact2': 'ପେଟ ମୋଡ଼ି, ମନୋଭାବ ପରିବର୍ତ୍ତନ ଓ କ୍ଳାନ୍ତି ସାଧାରଣ — "ନାଟକ" ନୁହେଁ',
+  'period.fact3': 'ଜଣେ ମହିଳା ଜୀବନକାଳରେ ~10,000-15,000 ପ୍ୟାଡ ବ୍ୟବହାର କରନ୍ତି — ଋତୁସ୍ରାବ ସାମଗ୍ରୀ ଜରୁରୀ, ବିଳାସ ନୁହେଁ',
+  'period.fact4': 'PCOS ପ୍ରତି 5 ଜଣରେ 1 ଜଣ ଭାରତୀୟ ମହିଳାଙ୍କୁ ପ୍ରଭାବିତ କରେ — ଏହାକୁ ଲଜ୍ଜା ନୁହେଁ, ସଚେତନତା ଦରକାର',
+  'period.fact5': 'ଋତୁସ୍ରାବ ବିଷୟରେ ଖୋଲାଖୋଲି କଥା ହେବା ପରବର୍ତ୍ତୀ ପିଢ଼ିକୁ ଅଧିକ ସୁସ୍ଥ କରେ',
+  'period.ctaShare': 'ଏହି ପୃଷ୍ଠା ଆବଶ୍ୟକ ଥିବା କାହା ସହ ସେୟାର କରନ୍ତୁ',
+  'period.ctaBreak': 'ନିଷେଧ ଭାଙ୍ଗିବା ଗୋଟିଏ କଥାବାର୍ତ୍ତାରୁ ଆରମ୍ଭ ହୁଏ। ଆପଣ ଆପଣଙ୍କର ଆରମ୍ଭ କରିସାରିଛନ୍ତି।',
+  'period.cycleOverview': 'ଚକ୍ରର ସାରାଂଶ',
+  'period.cyclesLogged': '{count} ଚକ୍ର ଲିପିବଦ୍ଧ',
+  'period.avgCycleDays': 'ହାରାହାରି ଚକ୍ର (ଦିନ)',
+  'period.avgPeriodDays': 'ହାରାହାରି ଋତୁସ୍ରାବ (ଦିନ)',
+  'period.daysLate': 'ଦିନ ଡେରି',
+  'period.daysUntilNext': 'ପରବର୍ତ୍ତୀ ପର୍ଯ୍ୟନ୍ତ ଦିନ',
+  'period.nextPeriod': 'ପରବର୍ତ୍ତୀ ଋତୁସ୍ରାବ',
+  'period.logPeriod': 'ଋତୁସ୍ରାବ ଲିପିବଦ୍ଧ କରନ୍ତୁ',
+  'period.logYourPeriod': 'ଆପଣଙ୍କ ଋତୁସ୍ରାବ ଲିପିବଦ୍ଧ କରନ୍ତୁ',
+  'period.startDate': 'ଆରମ୍ଭ ତାରିଖ',
+  'period.periodLength': 'ଋତୁସ୍ରାବ ଅବଧି (ଦିନ)',
+  'period.flowLevel': 'ପ୍ରବାହ ସ୍ତର',
+  'period.flowLight': 'କମ୍',
+  'period.flowMedium': 'ମଧ୍ୟମ',
+  'period.flowHeavy': 'ଅଧିକ',
+  'period.symptoms': 'ଲକ୍ଷଣ',
+  'period.mood': 'ମନୋଭାବ',
+  'period.notesOpt': 'ଟିପ୍ପଣୀ (ଇଚ୍ଛାଧୀନ)',
+  'period.save': 'ସେଭ କରନ୍ତୁ',
+  'period.saving': 'ସେଭ ହେଉଛି...',
+  'period.cycleHistory': 'ଚକ୍ର ଇତିହାସ',
+  'period.days': '{count} ଦିନ',
+  'period.flow': 'ପ୍ରବାହ',
+  'period.dayCycle': '{count} ଦିନର ଚକ୍ର',
+  'period.emptyTitle': 'ଆପଣଙ୍କ ଚକ୍ର ଟ୍ରାକ କରିବା ଆରମ୍ଭ କରନ୍ତୁ',
+  'period.emptyDesc': 'ବ୍ୟକ୍ତିଗତ ପୂର୍ବାନୁମାନ, ସ୍ୱାସ୍ଥ୍ୟ ସୂଚନା ଓ ସ୍ମାରକ ପାଇଁ ଋତୁସ୍ରାବ ଲିପିବଦ୍ଧ କରନ୍ତୁ — ସବୁ ଆପଣଙ୍କ ଭାଷାରେ।',
+  'period.askTitle': 'ଋତୁସ୍ରାବ ସ୍ୱାସ୍ଥ୍ୟ ବିଷୟରେ ପଚାରନ୍ତୁ',
+  'period.askTitleAlly': 'ଋତୁସ୍ରାବ ସ୍ୱାସ୍ଥ୍ୟ ବିଷୟରେ ପଚାରନ୍ତୁ',
+  'period.askDesc': 'ଋତୁସ୍ରାବ, ଚକ୍ର ସ୍ୱାସ୍ଥ୍ୟ, ପରିଚ୍ଛନ୍ନତା, PCOS ବା ଋତୁ ସୁସ୍ଥତା ବିଷୟରେ କିଛି ବି ପଚାରନ୍ତୁ — ଆପଣଙ୍କ ଭାଷାରେ।',
+  'period.askDescAlly': 'ଋତୁସ୍ରାବ ସ୍ୱାସ୍ଥ୍ୟ ବିଷୟରେ କିଛି ବି ପଚାରନ୍ତୁ — ଋତୁସ୍ରାବ ବୁଝନ୍ତୁ, ଭ୍ରାନ୍ତ ଧାରଣା ଭାଙ୍ଗନ୍ତୁ, ସହଯୋଗ କରିବା ଶିଖନ୍ତୁ — ଆପଣଙ୍କ ଭାଷାରେ।',
+  'period.askPlaceholder': 'ଆପଣଙ୍କ ପ୍ରଶ୍ନ ପଚାରନ୍ତୁ...',
+  'period.askBtn': 'ପଚାରନ୍ତୁ',
+  'period.thinking': 'ଭାବୁଛୁ...',
+  'period.aiDisclaimer': 'AI ଉତ୍ତର — ଚିକିତ୍ସା ପରାମର୍ଶ ପାଇଁ ଡାକ୍ତରଙ୍କ ସହ ପରାମର୍ଶ କରନ୍ତୁ',
+  'period.sCramps': 'ପେଟ ମୋଡ଼ି',
+  'period.sHeadache': 'ମୁଣ୍ଡବିନ୍ଧା',
+  'period.sBackPain': 'ପିଠି ବିନ୍ଧା',
+  'period.sBloating': 'ପେଟ ଫୁଲା',
+  'period.sFatigue': 'କ୍ଳାନ୍ତି',
+  'period.sMoodSwings': 'ମନୋଭାବ ପରିବର୍ତ୍ତନ',
+  'period.sAcne': 'ବ୍ରଣ',
+  'period.sBreast': 'ସ୍ତନରେ କୋମଳତା',
+  'period.sNausea': 'ବାନ୍ତି ଭାବ',
+  'period.sCravings': 'ଖାଇବା ଇଚ୍ଛା',
+  'period.mHappy': 'ଖୁସି',
+  'period.mCalm': 'ଶାନ୍ତ',
+  'period.mAnxious': 'ଚିନ୍ତିତ',
+  'period.mSad': 'ଦୁଃଖୀ',
+  'period.mIrritable': 'ଚିଡ଼ିଚିଡ଼ା',
+  'period.mEnergetic': 'ଉତ୍ସାହୀ',
+  'period.mTired': 'କ୍ଳାନ୍ତ',
+  'period.footerAlly': 'ଜ୍ଞାନ ହିଁ ଶକ୍ତି। ଋତୁସ୍ରାବ ସ୍ୱାସ୍ଥ୍ୟ ବିଷୟରେ ନୀରବତା ଭାଙ୍ଗନ୍ତୁ।',
+  'period.deleteConfirm': 'ଏହି ଚକ୍ର ଏଣ୍ଟ୍ରି ଡିଲିଟ କରିବେ?',
+  'period.footerTracker': 'ଆପଣଙ୍କ ଋତୁସ୍ରାବ ତଥ୍ୟ ଗୋପନୀୟ ଏବଂ କେବଳ ଆପଣଙ୍କୁ ଦେଖାଯାଏ। ଏହା ଚିକିତ୍ସା ନିଦାନ ନୁହେଁ।',
+  'period.allyQuestion1': 'ଋତୁସ୍ରାବ ବିଷୟରେ ମୋତେ କଣ ଜାଣିବା ଦରକାର?',
+  'period.allyQuestion2': 'ମୁଁ ମୋ ଭଉଣୀ/ପତ୍ନୀଙ୍କୁ କିପରି ସାହାଯ୍ୟ କରିପାରିବି?',
+  'period.allyQuestion3': 'ଋତୁସ୍ରାବ ବିଷୟରେ ଭ୍ରାନ୍ତ ଧାରଣା କଣ?',
+  'period.selfQuestion1': 'ଋତୁସ୍ରାବ ଯନ୍ତ୍ରଣା ପ୍ରାକୃତିକ ଭାବେ କିପରି କମାଇବେ',
+  'period.selfQuestion2': 'PCOS କଣ?',
+  'period.selfQuestion3': 'ଋତୁସ୍ରାବ ସମୟରେ କଣ ଖାଇବା ଉଚିତ',
+
+  // ─── Follow-up check reminders ───
+  'followup.reminder': 'Sehat ଚେକ୍-ଇନ୍: ଏବେ ଆପଣ କେମିତି ଅନୁଭବ କରୁଛନ୍ତି — ଆଗଠାରୁ ଭଲ, ସେମିତି, ନା ଅଧିକ ଖରାପ?',
+  'followup.reminderLink': 'ଏଠାରେ ଉତ୍ତର ଦିଅନ୍ତୁ: {url}',
+  'followup.emailSubject': 'ଆପଣ କେମିତି ଅନୁଭବ କରୁଛନ୍ତି? — Sehat ଚେକ୍-ଇନ୍',
+
+  // ─── Follow-up inbox ───
+  'followup.pageTitle': 'ଚେକ୍-ଇନ୍',
+  'followup.sectionDue': 'ଏବେ କରିବାକୁ ଥିବା',
+  'followup.sectionUpcoming': 'ଆସନ୍ତା',
+  'followup.sectionPast': 'ପୂର୍ବର',
+  'followup.checkAt': '{date} ରେ ଚେକ୍-ଇନ୍',
+  'followup.escalation': 'ଏମିତି ହେଲେ ତୁରନ୍ତ ଚିକିତ୍ସା ନିଅନ୍ତୁ: {criteria}',
+  'followup.question': 'ଏବେ ଆପଣ କେମିତି ଅନୁଭବ କରୁଛନ୍ତି?',
+  'followup.better': 'ଭଲ',
+  'followup.same': 'ସେମିତି',
+  'followup.worse': 'ଅଧିକ ଖରାପ',
+  'followup.dismiss': 'ହଟାନ୍ତୁ',
+  'followup.continue': 'କଥାବାର୍ତ୍ତା ଜାରି ରଖନ୍ତୁ',
+  'followup.statusCompleted': 'ଉତ୍ତର ଦିଆଗଲା',
+  'followup.statusEscalated': 'ଖରାପ ହେଲା',
+  'followup.statusDismissed': 'ହଟାଗଲା',
+  'followup.empty': 'ଏପର୍ଯ୍ୟନ୍ତ କୌଣସି ଚେକ୍-ଇନ୍ ନାହିଁ। କୌଣସି ଲକ୍ଷଣ ବିଷୟରେ ପରେ ଆପଣଙ୍କ ଖବର ନେବାକୁ ହେଲେ Sehat ଗୋଟିଏ ଚେକ୍-ଇନ୍ ସ୍ଥିର କରିବ।',
+  'followup.signIn': 'ଆପଣଙ୍କ ଚେକ୍-ଇନ୍ ଦେଖିବାକୁ ସାଇନ୍ ଇନ୍ କରନ୍ତୁ',
+  'followup.loadError': 'ଆପଣଙ୍କ ଚେକ୍-ଇନ୍ ଲୋଡ୍ ହୋଇପାରିଲା ନାହିଁ',
+  'followup.answerError': 'ଆପଣଙ୍କ ଉତ୍ତର ସେଭ୍ ହୋଇପାରିଲା ନାହିଁ। ଦୟାକରି ପୁଣି ଚେଷ୍ଟା କରନ୍ତୁ।',
+  'followup.checkInBanner': 'ଫଲୋ-ଅପ୍ ଚେକ୍-ଇନ୍: {reason}',
+
+  // ─── Emergency guide ───
+  'emergency.title': 'ଜରୁରୀକାଳୀନ ସ୍ଥିତି',
+  'emergency.intro': 'ଏହା ଜରୁରୀକାଳୀନ ସ୍ଥିତି। ଏବେ {number} କୁ କଲ କରନ୍ତୁ — ଲାଲ ବଟନ ଦବାନ୍ତୁ। ସାହାଯ୍ୟ ଆସିବା ପର୍ଯ୍ୟନ୍ତ ମୁଁ ଆପଣଙ୍କୁ ଗୋଟିଏ ଗୋଟିଏ ପଦକ୍ଷେପ କହିବି।',
+  'emergency.call': 'ଏବେ {number} କୁ କଲ କରନ୍ତୁ',
+  'emergency.ambulance': 'ଆମ୍ବୁଲାନ୍ସ: {number}',
+  'emergency.stepOf': 'ପଦକ୍ଷେପ {current} / {total}',
+  'emergency.next': 'ପରବର୍ତ୍ତୀ',
+  'emergency.repeat': 'ପୁଣି',
+  'emergency.back': 'ପଛକୁ',
+  'emergency.sayNext': 'ସରିଗଲେ "ହୋଇଗଲା" କୁହନ୍ତୁ, କିମ୍ବା ପରବର୍ତ୍ତୀ ଦବାନ୍ତୁ',
+  'emergency.sayBreathing': '"ନିଶ୍ୱାସ ନେଉଛନ୍ତି" କିମ୍ବା "ନିଶ୍ୱାସ ବନ୍ଦ" କୁହନ୍ତୁ, କିମ୍ବା ଗୋଟିଏ ବଟନ୍ ଦବାନ୍ତୁ',
+  'emergency.breathing': 'ନିଶ୍ୱାସ ନେଉଛନ୍ତି',
+  'emergency.startCpr': 'ନିଶ୍ୱାସ ନେଉନାହାଁନ୍ତି? CPR ଆରମ୍ଭ କରନ୍ତୁ',
+  'emergency.pushWithBeat': 'ତାଳ ସହିତ ଦବାନ୍ତୁ',
+  'emergency.pauseBeat': 'ତାଳ ବନ୍ଦ କରନ୍ତୁ',
+  'emergency.resumeBeat': 'ତାଳ ପୁଣି ଆରମ୍ଭ କରନ୍ତୁ',
+  'emergency.fromAssessment': 'ଆପଣଙ୍କ ମୂଲ୍ୟାଙ୍କନରୁ',
+  'emergency.finished': 'ଏହି ସବୁ ପଦକ୍ଷେପ ଥିଲା। ସାହାଯ୍ୟ ଆସିବା ପର୍ଯ୍ୟନ୍ତ ତାଙ୍କ ସହିତ ରୁହନ୍ତୁ ଏବଂ ତାଙ୍କ ନିଶ୍ୱାସ ଉପରେ ନଜର ରଖନ୍ତୁ।',
+  'emergency.close': 'ଗାଇଡ ବନ୍ଦ କରନ୍ତୁ',
+  'emergency.cpr.title': 'ସିପିଆର (CPR)',
+  'emergency.cpr.check': 'ତାଙ୍କ କାନ୍ଧରେ ଥାପୁଡ଼େଇ ଜୋରରେ ଡାକନ୍ତୁ। ସେ ସାଧାରଣ ଭାବେ ନିଶ୍ୱାସ ନେଉଛନ୍ତି କି? "ନିଶ୍ୱାସ ନେଉଛନ୍ତି" କିମ୍ବା "ନିଶ୍ୱାସ ବନ୍ଦ" କୁହନ୍ତୁ।',
+  'emergency.cpr.position': 'ତାଙ୍କୁ ଟାଣ ଜାଗାରେ ଚିତ୍ କରି ସିଧା ଶୁଆନ୍ତୁ ଏବଂ ତାଙ୍କ ଛାତି ପାଖରେ ଆଣ୍ଠୁମାଡ଼ି ବସନ୍ତୁ।',
+  'emergency.cpr.hands': 'ଗୋଟିଏ ପାପୁଲିର ତଳ ଭାଗ ଛାତିର ମଝିରେ ରଖନ୍ତୁ ଏବଂ ଅନ୍ୟ ହାତଟି ତା ଉପରେ। ହାତ ସିଧା ରଖନ୍ତୁ।',
+  'emergency.cpr.compress': 'ପ୍ରତ୍ୟେକ ତାଳ ସହିତ ଜୋରରେ ଓ ଶୀଘ୍ର ପ୍ରାୟ 5 ସେଣ୍ଟିମିଟର ତଳକୁ ଦବାନ୍ତୁ। 30 ପର୍ଯ୍ୟନ୍ତ ଗଣନ୍ତୁ ଏବଂ ପୁଣି ଆରମ୍ଭ କରନ୍ତୁ। ସାହାଯ୍ୟ ଆସିବା ପର୍ଯ୍ୟନ୍ତ ଅଟକନ୍ତୁ ନାହିଁ।',
+  'emergency.recovery.title': 'ରିକଭରି ପୋଜିସନ',
+  'emergency.recovery.side': 'ତାଙ୍କ ପାଖରେ ଆଣ୍ଠୁମାଡ଼ି ବସନ୍ତୁ। ଦୂର ପଟର ଆଣ୍ଠୁକୁ ଭାଙ୍ଗି, ତାକୁ ଟାଣି ତାଙ୍କୁ ଆପଣଙ୍କ ଆଡ଼କୁ ଗୋଟିଏ ପାର୍ଶ୍ୱକୁ ବୁଲାଇ ଦିଅନ୍ତୁ।',
+  'emergency.recovery.airway': 'ମୁଣ୍ଡକୁ ଧୀରେ ପଛକୁ ଢାଳି ପାଟି ତଳକୁ ରଖନ୍ତୁ, ଯାହାଦ୍ୱାରା ନିଶ୍ୱାସ ଚାଲୁ ରହିବ ଏବଂ ପାଟିରେ ଥିବା ଜିନିଷ ବାହାରି ଯିବ।',
+  'emergency.recovery.watch': 'ତାଙ୍କ ସହିତ ରୁହନ୍ତୁ ଏବଂ ତାଙ୍କ ନିଶ୍ୱାସ ଉପରେ ନଜର ରଖନ୍ତୁ। ନିଶ୍ୱାସ ବନ୍ଦ ହେଲେ "ନିଶ୍ୱାସ ବନ୍ଦ" କୁହନ୍ତୁ କିମ୍ବା CPR ଆରମ୍ଭ କରନ୍ତୁ ଦବାନ୍ତୁ।',
+  'emergency.choking.title': 'ଗଳାରେ ଅଟକିବା',
+  'emergency.choking.cough': 'ସେ କାଶି କିମ୍ବା କଥା କହିପାରୁଥିଲେ, ତାଙ୍କୁ କାଶିବାକୁ ଦିଅନ୍ତୁ। ଏବେ ପିଠିରେ ମାରନ୍ତୁ ନାହିଁ।',
+  'emergency.choking.backBlows': 'ସେ ନିଶ୍ୱାସ ନେଇ କିମ୍ବା କଥା କହିପାରୁନଥିଲେ, ତାଙ୍କୁ ଆଗକୁ ନୁଆଁଇ ପାପୁଲିର ତଳ ଭାଗରେ କାନ୍ଧ ମଝିରେ 5 ଥର ଜୋରରେ ମାରନ୍ତୁ।',
+  'emergency.choking.thrusts': 'ତା\'ପରେ ତାଙ୍କ ପଛରେ ଠିଆ ହୋଇ ନାଭିର ଟିକେ ଉପରେ ମୁଠା ରଖନ୍ତୁ ଏବଂ 5 ଥର ଜୋରରେ ଭିତରକୁ ଓ ଉପରକୁ ଟାଣନ୍ତୁ। ପିଠିରେ ମାରିବା ଓ ପେଟ ଦବାଇବା ପାଳି କରି ଜାରି ରଖନ୍ତୁ।',
+  'emergency.choking.unconscious': 'ସେ ଅଚେତ ହୋଇଗଲେ, ଚିତ୍ କରି ଶୁଆଇ CPR ଆରମ୍ଭ କରନ୍ତୁ।',
+  'emergency.snakebite.title': 'ସାପ କାମୁଡ଼ା',
+  'emergency.snakebite.calm': 'ବ୍ୟକ୍ତିଙ୍କୁ ଶାନ୍ତ ରଖନ୍ତୁ ଏବଂ ସ୍ଥିର ଭାବେ ଶୁଆଇ ରଖନ୍ତୁ। ହଲଚଲ କଲେ ବିଷ ଶୀଘ୍ର ବ୍ୟାପେ।',
+  'emergency.snakebite.immobilize': 'କାମୁଡ଼ା ହୋଇଥିବା ହାତ ବା ଗୋଡ଼କୁ ସ୍ପ୍ଲିଣ୍ଟ ପରି ସ୍ଥିର ରଖନ୍ତୁ, ହୃଦୟଠାରୁ ତଳେ। ମୁଦି, ଚୁଡ଼ି, ଘଣ୍ଟା ଓ ଟାଇଟ ଲୁଗା କାଢ଼ି ଦିଅନ୍ତୁ।',
+  'emergency.snakebite.dont': 'କାମୁଡ଼ା ଜାଗା କାଟନ୍ତୁ ନାହିଁ, ଚୋପନ୍ତୁ ନାହିଁ, ଟାଣି ବାନ୍ଧନ୍ତୁ ନାହିଁ, ଏବଂ ବରଫ କିମ୍ବା ଜଡ଼ିବୁଟି ଲଗାନ୍ତୁ ନାହିଁ।',
+  'emergency.snakebite.transport': 'ତାଙ୍କୁ ବୋହି ଏପରି ଡାକ୍ତରଖାନାକୁ ନିଅନ୍ତୁ ଯେଉଁଠି ଆଣ୍ଟି-ଭେନମ ଅଛି। ଚାଲିବାକୁ ଦିଅନ୍ତୁ ନାହିଁ। କାମୁଡ଼ିବା ସମୟ ଲେଖି ରଖନ୍ତୁ।',
+  'emergency.stroke.title': 'ଷ୍ଟ୍ରୋକ — FAST ଯାଞ୍ଚ',
+  'emergency.stroke.face': 'ମୁହଁ (F): ହସିବାକୁ କୁହନ୍ତୁ। ମୁହଁର ଗୋଟିଏ ପାର୍ଶ୍ୱ ଝୁଲି ପଡ଼ୁଛି କି?',
+  'emergency.stroke.arms': 'ହାତ (A): ଦୁଇ ହାତ ଉପରକୁ ଉଠାଇବାକୁ କୁହନ୍ତୁ। ଗୋଟିଏ ହାତ ତଳକୁ ଖସି ଯାଉଛି କି?',
+  'emergency.stroke.speech': 'କଥା (S): ଗୋଟିଏ ସହଜ ବାକ୍ୟ ପୁଣି କହିବାକୁ କୁହନ୍ତୁ। କଥା ଅସ୍ପଷ୍ଟ କିମ୍ବା ଅଦ୍ଭୁତ ଲାଗୁଛି କି?',
+  'emergency.stroke.time': 'ସମୟ (T): ଏଥିରୁ କିଛି ଦେଖିଲେ, ଆରମ୍ଭ ସମୟ ଲେଖି ରଖନ୍ତୁ ଏବଂ ତାଙ୍କୁ ଏବେ ଡାକ୍ତରଖାନା ନିଅନ୍ତୁ। ଖାଦ୍ୟ, ପାଣି କିମ୍ବା ଔଷଧ ଦିଅନ୍ତୁ ନାହିଁ।',
+  'emergency.seizure.title': 'ମୃଗୀ ଆକ୍ରମଣ',
+  'emergency.seizure.clear': 'ଟାଣ ଓ ଧାରୁଆ ଜିନିଷ ତାଙ୍କଠାରୁ ଦୂରେଇ ଦିଅନ୍ତୁ। ତାଙ୍କୁ ଜବରଦସ୍ତି ଧରି ରଖନ୍ତୁ ନାହିଁ।',
+  'emergency.seizure.head': 'ତାଙ୍କ ମୁଣ୍ଡ ତଳେ କିଛି ନରମ ଜିନିଷ ରଖନ୍ତୁ। ପାଟିରେ କିଛି ଦିଅନ୍ତୁ ନାହିଁ — ଚାମଚ ନୁହେଁ, ପାଣି ନୁହେଁ।',
+  'emergency.seizure.side': 'ଝାଙ୍କୁଣି ବନ୍ଦ ହେଲେ ତାଙ୍କୁ ଗୋଟିଏ ପାର୍ଶ୍ୱକୁ ବୁଲାଇ ଦେଖନ୍ତୁ ସେ ନିଶ୍ୱାସ ନେଉଛନ୍ତି କି ନାହିଁ।',
+  'emergency.seizure.time': 'କେତେ ସମୟ ଚାଲୁଛି ଧ୍ୟାନ ଦିଅନ୍ତୁ। 5 ମିନିଟରୁ ଅଧିକ ଝାଙ୍କୁଣି ହେଲେ ତାହା ଜରୁରୀକାଳୀନ ସ୍ଥିତି।',
+  'emergency.bleeding.title': 'ଅଧିକ ରକ୍ତସ୍ରାବ',
+  'emergency.bleeding.press': 'ସଫା କପଡ଼ାରେ କ୍ଷତ ଉପରେ ଜୋରରେ ଦବାନ୍ତୁ। ଦେଖିବା ପାଇଁ କପଡ଼ା ଉଠାନ୍ତୁ ନାହିଁ।',
+  'emergency.bleeding.more': 'ରକ୍ତ କପଡ଼ା ଭେଦି ବାହାରିଲେ, ଉପରେ ଆଉ କପଡ଼ା ରଖି ଦବାଇ ଚାଲନ୍ତୁ।',
+  'emergency.bleeding.raise': 'ତାଙ୍କୁ ଶୁଆଇ ରଖନ୍ତୁ ଏବଂ ସମ୍ଭବ ହେଲେ ଆଘାତ ପାଇଥିବା ଅଂଶକୁ ହୃଦୟଠାରୁ ଉପରକୁ ଉଠାନ୍ତୁ।',
+  'emergency.chest.title': 'ଛାତି ଯନ୍ତ୍ରଣା',
+  'emergency.chest.rest': 'କିଛିରେ ଆଉଜି ବସି ବିଶ୍ରାମ ନେବାରେ ସାହାଯ୍ୟ କରନ୍ତୁ। ଟାଇଟ ଲୁଗା ଢିଲା କରନ୍ତୁ।',
+  'emergency.chest.nothing': 'ତାଙ୍କୁ ଚାଲିବୁଲିବାକୁ ଦିଅନ୍ତୁ ନାହିଁ। ଖାଇବା ପିଇବା ପାଇଁ କିଛି ଦିଅନ୍ତୁ ନାହିଁ, ଏବଂ ଯନ୍ତ୍ରଣା କେବେ ଆରମ୍ଭ ହେଲା ଲେଖି ରଖନ୍ତୁ।',
+  'emergency.chest.watch': 'ତାଙ୍କ ସହିତ ରୁହନ୍ତୁ। ସେ ଢଳି ପଡ଼ି ସାଧାରଣ ନିଶ୍ୱାସ ବନ୍ଦ ହୋଇଗଲେ, CPR ବଟନ ଦବାଇ CPR ଆରମ୍ଭ କରନ୍ତୁ।',
+  'emergency.general.title': 'ପ୍ରାଥମିକ ଚିକିତ୍ସା',
+  'emergency.general.safe': 'ଆପଣ ଓ ସେହି ବ୍ୟକ୍ତି ସୁରକ୍ଷିତ ଅଛନ୍ତି ବୋଲି ନିଶ୍ଚିତ କରନ୍ତୁ। ତାଙ୍କୁ ଶୁଆଇ ସ୍ଥିର ରଖନ୍ତୁ।',
+  'emergency.general.breathing': 'ସେ ନିଶ୍ୱାସ ନେଉଛନ୍ତି କି ନାହିଁ ଦେଖନ୍ତୁ। ନହେଲେ, CPR ବଟନ ଦବାଇ CPR ଆରମ୍ଭ କରନ୍ତୁ।',
+  'emergency.general.wait': 'ତାଙ୍କ ସହିତ ରୁହନ୍ତୁ ଏବଂ ତାଙ୍କୁ ଗରମ ରଖନ୍ତୁ। ସାହାଯ୍ୟ ଆସିବା ପର୍ଯ୍ୟନ୍ତ ଖାଇବା ପିଇବା ପାଇଁ କିଛି ଦିଅନ୍ତୁ ନାହିଁ।',
+};
@@ -0,0 +1,326 @@
+import type { Catalog } from '../i18n';
+
+/** Punjabi */
+export const pa: Catalog = {
+  // ─── Triage ───
+  'triage.nearbyFacilities': 'ਇੱਥੇ ਤੁਹਾਡੇ ਨੇੜਲੇ ਹਸਪਤਾਲ ਅਤੇ ਕਲੀਨਿਕ ਹਨ। ਜੇ ਕੋਈ ਸਿਹਤ ਸਮੱਸਿਆ ਹੈ ਤਾਂ ਦੱਸੋ।',
+  'triage.languageSuggested': 'ਲੱਗਦਾ ਹੈ ਤੁਸੀਂ {language} ਵਿੱਚ ਲਿਖ ਰਹੇ ਹੋ — ਉਸ ਵਿੱਚ ਜਵਾਬ ਲਈ ਟੈਪ ਕਰੋ',
+
+  // ─── Welcome ───
+  'welcome.greeting': 'ਸਤ ਸ੍ਰੀ ਅਕਾਲ! ਤੁਸੀਂ ਕਿਵੇਂ ਹੋ?',
+  'welcome.greetingNamed': 'ਸਤ ਸ੍ਰੀ ਅਕਾਲ, {name}!',
+  'welcome.subtitle': 'ਆਪਣੇ ਲੱਛਣ ਦੱਸੋ — ਸਹੀ ਇਲਾਜ ਤੱਕ ਪਹੁੰਚਣ ਵਿੱਚ ਅਸੀਂ ਤੁਹਾਡੀ ਮਦਦ ਕਰਾਂਗੇ।',
+  'welcome.quickStart1': 'ਸਿਰ ਦਰਦ',
+  'welcome.quickStart2': 'ਬੁਖ਼ਾਰ ਅਤੇ ਖੰਘ',
+  'welcome.quickStart3': 'ਪੇਟ ਦਰਦ',
+
+  // ─── Post-result follow-ups ───
+  'postResult.tellMore': 'ਹੋਰ ਦੱਸੋ',
+  'postResult.feelingNow': 'ਹੁਣ ਕਿਵੇਂ ਲੱਗਦਾ',
+  'postResult.precautions': 'ਹੋਰ ਸਾਵਧਾਨੀ',
+
+  // ─── Report upload ───
+  'upload.button': 'ਰਿਪੋਰਟ ਅੱਪਲੋਡ ਕਰੋ',
+  'upload.analyzing': 'ਵਿਸ਼ਲੇਸ਼ਣ...',
+  'upload.medicationsAdded': { one: 'ਤੁਹਾਡੀ ਦਵਾਈਆਂ ਦੀ ਸੂਚੀ ਵਿੱਚ {count} ਦਵਾਈ ਜੋੜੀ ਗਈ', other: 'ਤੁਹਾਡੀ ਦਵਾਈਆਂ ਦੀ ਸੂਚੀ ਵਿੱਚ {count} ਦਵਾਈਆਂ ਜੋੜੀਆਂ ਗਈਆਂ' },
+  'upload.labResultsSaved': { one: '{count} ਲੈਬ ਮੁੱਲ ਰਿਪੋਰਟਾਂ ਵਿੱਚ ਤੁਹਾਡੇ ਰੁਝਾਨ ਵਿੱਚ ਸੁਰੱਖਿਅਤ ਕੀਤਾ ਗਿਆ', other: '{count} ਲੈਬ ਮੁੱਲ ਰਿਪੋਰਟਾਂ ਵਿੱਚ ਤੁਹਾਡੇ ਰੁਝਾਨ ਵਿੱਚ ਸੁਰੱਖਿਅਤ ਕੀਤੇ ਗਏ' },
+  'upload.setLinked': '{count} ਫਾਈਲਾਂ ਦਾ ਇਕੱਠੇ ਵਿਸ਼ਲੇਸ਼ਣ ਕੀਤਾ ਗਿਆ — ਤੁਸੀਂ ਇਸ ਚੈਟ ਵਿੱਚ ਇਹਨਾਂ ਬਾਰੇ ਪੁੱਛ ਸਕਦੇ ਹੋ',
+  'upload.tooManyFiles': 'ਇੱਕ ਵਾਰ ਵਿੱਚ ਵੱਧ ਤੋਂ ਵੱਧ {max} ਫਾਈਲਾਂ ਚੁਣੋ।',
+  'upload.tooLarge': 'ਫਾਈਲਾਂ ਬਹੁਤ ਵੱਡੀਆਂ ਹਨ — ਹਰੇਕ {fileMb}MB ਤੱਕ ਅਤੇ ਕੁੱਲ {setMb}MB ਤੱਕ।',
+  'upload.failed': 'ਦਸਤਾਵੇਜ਼ ਦਾ ਵਿਸ਼ਲੇਸ਼ਣ ਨਹੀਂ ਹੋ ਸਕਿਆ। ਕਿਰਪਾ ਕਰਕੇ ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ।',
+
+  // ─── Sign-up prompt ───
+  'signUp.title': 'ਆਪਣੀ ਸਿਹਤ ਟ੍ਰੈਕ ਕਰੋ',
+  'signUp.subtitle': 'ਮੁਫ਼ਤ ਖਾਤਾ ਬਣਾਓ — ਆਪਣੀ ਸਿਹਤ ਪ੍ਰੋਫਾਈਲ ਸੇਵ ਕਰੋ।',
+  'signUp.cta': 'ਸਾਈਨ ਅੱਪ ਕਰੋ',
+  'signUp.later': 'ਬਾਅਦ ਵਿੱਚ',
+  'signUp.profile': 'ਪ੍ਰੋਫਾਈਲ ਪੂਰੀ ਕਰੋ',
+
+  // ─── Voice mode ───
+  'voice.idle': 'ਬੋਲਣ ਲਈ ਟੈਪ ਕਰੋ',
+  'voice.listening': 'ਸੁਣ ਰਹੇ ਹਾਂ...',
+  'voice.transcribing': 'ਸਮਝ ਰਹੇ ਹਾਂ...',
+  'voice.thinking': 'ਸੋਚ ਰਹੇ ਹਾਂ...',
+  'voice.speaking': 'ਬੋਲ ਰਹੇ ਹਾਂ...',
+  'voice.notUnderstood': 'ਸਮਝ ਨਹੀਂ ਆਇਆ। ਦੁਬਾਰਾ ਬੋਲੋ ਜਾਂ ਟਾਈਪ ਕਰੋ।',
+
+  // ─── Voice acknowledgments — ~3 seconds of speech each ───
+  'voice.ack.generic': 'ਮੈਂ ਸੁਣ ਰਿਹਾ ਹਾਂ। ਤੁਹਾਡੇ ਲੱਛਣ ਦੇਖਦਾ ਹਾਂ।',
+  'voice.ack.head': 'ਤੁਹਾਡੇ ਸਿਰ ਵਿੱਚ ਦਰਦ ਹੈ। ਮੈਂ ਇਸ ਨੂੰ ਦੇਖਦਾ ਹਾਂ।',
+  'voice.ack.fever': 'ਤੁਹਾਨੂੰ ਬੁਖ਼ਾਰ ਹੈ। ਮੈਂ ਇਸ ਦਾ ਮੁਲਾਂਕਣ ਕਰਦਾ ਹਾਂ।',
+  'voice.ack.chest': 'ਤੁਹਾਡੀ ਛਾਤੀ ਵਿੱਚ ਤਕਲੀਫ਼ ਹੈ। ਮੈਂ ਤੁਰੰਤ ਦੇਖਦਾ ਹਾਂ।',
+  'voice.ack.stomach': 'ਤੁਹਾਡੇ ਪੇਟ ਵਿੱਚ ਤਕਲੀਫ਼ ਹੈ। ਮੈਂ ਇਸ ਨੂੰ ਦੇਖਦਾ ਹਾਂ।',
+  'voice.ack.breathing': 'ਤੁਹਾਨੂੰ ਸਾਹ ਦੀ ਤਕਲੀਫ਼ ਹੈ। ਮੈਂ ਧਿਆਨ ਨਾਲ ਦੇਖਦਾ ਹਾਂ।',
+  'voice.ack.pain': 'ਤੁਹਾਨੂੰ ਦਰਦ ਹੋ ਰਿਹਾ ਹੈ। ਮੈਂ ਤੁਹਾਡੇ ਲੱਛਣ ਦੇਖਦਾ ਹਾਂ।',
+  'voice.ack.child': 'ਬੱਚੇ ਦੀ ਗੱਲ ਹੈ। ਮੈਂ ਧਿਆਨ ਨਾਲ ਦੇਖਦਾ ਹਾਂ।',
+
+  // ─── Symptom fast-path follow-ups ───
+  'pattern.fever.question': 'ਕਿੰਨੇ ਦਿਨਾਂ ਤੋਂ ਬੁਖ਼ਾਰ ਹੈ?',
+  'pattern.fever.option1.label': 'ਅੱਜ ਤੋਂ',
+  'pattern.fever.option1.value': 'ਅੱਜ ਤੋਂ ਬੁਖ਼ਾਰ ਹੈ',
+  'pattern.fever.option2.label': '1-2 ਦਿਨ',
+  'pattern.fever.option2.value': '1-2 ਦਿਨਾਂ ਤੋਂ ਬੁਖ਼ਾਰ ਹੈ',
+  'pattern.fever.option3.label': '3-5 ਦਿਨ',
+  'pattern.fever.option3.value': '3-5 ਦਿਨਾਂ ਤੋਂ ਬੁਖ਼ਾਰ ਹੈ',
+  'pattern.fever.option4.label': '5 ਦਿਨਾਂ ਤੋਂ ਵੱਧ',
+  'pattern.fever.option4.value': '5 ਦਿਨਾਂ ਤੋਂ ਵੱਧ ਬੁਖ਼ਾਰ ਹੈ',
+  'pattern.headache.question': 'ਕੀ ਇਹ ਹੁਣ ਤੱਕ ਦਾ ਸਭ ਤੋਂ ਤੇਜ਼ ਸਿਰ ਦਰਦ ਹੈ, ਜਾਂ ਪਹਿਲਾਂ ਵਰਗਾ ਹੀ ਹੈ?',
+  'pattern.headache.option1.label': 'ਸਭ ਤੋਂ ਤੇਜ਼',
+  'pattern.headache.option1.value': 'ਇਹ ਹੁਣ ਤੱਕ ਦਾ ਸਭ ਤੋਂ ਤੇਜ਼ ਅਤੇ ਅਚਾਨਕ ਸਿਰ ਦਰਦ ਹੈ',
+  'pattern.headache.option2.label': 'ਪਹਿਲਾਂ ਵਰਗਾ',
+  'pattern.headache.option2.value': 'ਇਹ ਪਹਿਲਾਂ ਵੀ ਹੁੰਦਾ ਰਿਹਾ ਹੈ, ਉਹੋ ਜਿਹਾ ਹੀ ਹੈ',
+  'pattern.headache.option3.label': 'ਬੁਖ਼ਾਰ ਵੀ ਹੈ',
+  'pattern.headache.option3.value': 'ਸਿਰ ਦਰਦ ਦੇ ਨਾਲ ਬੁਖ਼ਾਰ ਵੀ ਹੈ',
+  'pattern.headache.option4.label': 'ਪਤਾ ਨਹੀਂ',
+  'pattern.headache.option4.value': 'ਮੈਨੂੰ ਪੱਕਾ ਨਹੀਂ ਪਤਾ',
+  'pattern.cough.question': 'ਕਿੰਨੇ ਦਿਨਾਂ ਤੋਂ ਖੰਘ ਹੈ? ਕੀ ਬਲਗਮ ਵਿੱਚ ਖੂਨ ਆ ਰਿਹਾ ਹੈ?',
+  'pattern.cough.option1.label': 'ਕੁਝ ਦਿਨ, ਖੂਨ ਨਹੀਂ',
+  'pattern.cough.option1.value': 'ਕੁਝ ਦਿਨਾਂ ਤੋਂ ਖੰਘ ਹੈ, ਬਲਗਮ ਵਿੱਚ ਖੂਨ ਨਹੀਂ',
+  'pattern.cough.option2.label': '1-2 ਹਫ਼ਤੇ',
+  'pattern.cough.option2.value': '1-2 ਹਫ਼ਤਿਆਂ ਤੋਂ ਖੰਘ ਹੈ',
+  'pattern.cough.option3.label': '2 ਹਫ਼ਤਿਆਂ ਤੋਂ ਵੱਧ',
+  'pattern.cough.option3.value': '2 ਹਫ਼ਤਿਆਂ ਤੋਂ ਵੱਧ ਖੰਘ ਹੈ',
+  'pattern.cough.option4.label': 'ਖੂਨ ਆ ਰਿਹਾ',
+  'pattern.cough.option4.value': 'ਬਲਗਮ ਵਿੱਚ ਖੂਨ ਆ ਰਿਹਾ ਹੈ',
+  'pattern.stomach_pain.question': 'ਦਰਦ ਠੀਕ ਕਿੱਥੇ ਹੈ — ਉੱਪਰ, ਹੇਠਾਂ, ਖੱਬੇ ਪਾਸੇ ਜਾਂ ਸੱਜੇ ਪਾਸੇ?',
+  'pattern.stomach_pain.option1.label': 'ਉੱਪਰ ਵਿਚਕਾਰ',
+  'pattern.stomach_pain.option1.value': 'ਪੇਟ ਦੇ ਉੱਪਰ ਵਿਚਕਾਰ ਦਰਦ',
+  'pattern.stomach_pain.option2.label': 'ਹੇਠਾਂ ਸੱਜੇ',
+  'pattern.stomach_pain.option2.value': 'ਪੇਟ ਦੇ ਹੇਠਾਂ ਸੱਜੇ ਪਾਸੇ ਦਰਦ',
+  'pattern.stomach_pain.option3.label': 'ਸਾਰੇ ਪੇਟ ਵਿੱਚ',
+  'pattern.stomach_pain.option3.value': 'ਸਾਰੇ ਪੇਟ ਵਿੱਚ ਦਰਦ',
+  'pattern.stomach_pain.option4.label': 'ਪਤਾ ਨਹੀਂ',
+  'pattern.stomach_pain.option4.value': 'ਦਰਦ ਕਿੱਥੇ ਹੈ ਇਹ ਠੀਕ ਨਹੀਂ ਦੱਸ ਸਕਦਾ',
+  'pattern.diarrhea.question': 'ਅੱਜ ਕਿੰਨੀ ਵਾਰ ਹੋਏ? ਕੀ ਟੱਟੀ ਵਿੱਚ ਖੂਨ ਜਾਂ ਲੇਸ ਹੈ?',
+  'pattern.diarrhea.option1.label': '2-3 ਵਾਰ',
+  'pattern.diarrhea.option1.value': 'ਅੱਜ 2-3 ਵਾਰ ਦਸਤ ਹੋਏ',
+  'pattern.diarrhea.option2.label': '4-6 ਵਾਰ',
+  'pattern.diarrhea.option2.value': 'ਅੱਜ 4-6 ਵਾਰ ਦਸਤ ਹੋਏ',
+  'pattern.diarrhea.option3.label': '6 ਤੋਂ ਵੱਧ',
+  'pattern.diarrhea.option3.value': 'ਅੱਜ 6 ਤੋਂ ਵੱਧ ਵਾਰ ਦਸਤ ਹੋਏ',
+  'pattern.diarrhea.option4.label': 'ਖੂਨ ਆ ਰਿਹਾ',
+  'pattern.diarrhea.option4.value': 'ਟੱਟੀ ਵਿੱਚ ਖੂਨ ਜਾਂ ਲੇਸ ਹੈ',
+  'pattern.period_issues.question': 'ਮਾਹਵਾਰੀ ਕਿੰਨੇ ਦਿਨ ਲੇਟ ਹੈ? ਕੀ ਭਾਰ ਵਧਿਆ ਹੈ ਜਾਂ ਚਿਹਰੇ ਤੇ ਵਾਧੂ ਵਾਲ ਜਾਂ ਮੁਹਾਸੇ ਹਨ?',
+  'pattern.period_issues.option1.label': 'ਕੁਝ ਦਿਨ ਲੇਟ',
+  'pattern.period_issues.option1.value': 'ਮਾਹਵਾਰੀ ਕੁਝ ਦਿਨ ਲੇਟ ਹੈ',
+  'pattern.period_issues.option2.label': '2 ਹਫ਼ਤਿਆਂ ਤੋਂ ਵੱਧ',
+  'pattern.period_issues.option2.value': 'ਮਾਹਵਾਰੀ 2 ਹਫ਼ਤਿਆਂ ਤੋਂ ਵੱਧ ਲੇਟ ਹੈ',
+  'pattern.period_issues.option3.label': 'ਅਨਿਯਮਿਤ + ਭਾਰ',
+  'pattern.period_issues.option3.value': 'ਮਾਹਵਾਰੀ ਅਨਿਯਮਿਤ ਹੈ ਅਤੇ ਭਾਰ ਵਧ ਗਿਆ ਹੈ',
+  'pattern.period_issues.option4.label': 'ਜ਼ਿਆਦਾ/ਦਰਦ',
+  'pattern.period_issues.option4.value': 'ਮਾਹਵਾਰੀ ਬਹੁਤ ਜ਼ਿਆਦਾ ਅਤੇ ਦਰਦ ਵਾਲੀ ਹੈ',
+  'pattern.body_ache.question': 'ਕੀ ਬੁਖ਼ਾਰ ਵੀ ਹੈ? ਦਰਦ ਜੋੜਾਂ ਵਿੱਚ ਹੈ ਜਾਂ ਸਾਰੇ ਸਰੀਰ ਵਿੱਚ?',
+  'pattern.body_ache.option1.label': 'ਬੁਖ਼ਾਰ + ਸਰੀਰ ਦਰਦ',
+  'pattern.body_ache.option1.value': 'ਬੁਖ਼ਾਰ ਦੇ ਨਾਲ ਸਾਰੇ ਸਰੀਰ ਵਿੱਚ ਦਰਦ ਹੈ',
+  'pattern.body_ache.option2.label': 'ਸਿਰਫ਼ ਜੋੜਾਂ ਵਿੱਚ',
+  'pattern.body_ache.option2.value': 'ਦਰਦ ਮੁੱਖ ਤੌਰ ਤੇ ਜੋੜਾਂ ਵਿੱਚ ਹੈ, ਬੁਖ਼ਾਰ ਨਹੀਂ',
+  'pattern.body_ache.option3.label': 'ਕਮਜ਼ੋਰੀ/ਥਕਾਵਟ',
+  'pattern.body_ache.option3.value': 'ਬਹੁਤ ਕਮਜ਼ੋਰੀ ਅਤੇ ਥਕਾਵਟ ਹੈ, ਕੋਈ ਖਾਸ ਦਰਦ ਨਹੀਂ',
+  'pattern.body_ache.option4.label': 'ਕਸਰਤ ਤੋਂ ਬਾਅਦ',
+  'pattern.body_ache.option4.value': 'ਕਸਰਤ ਜਾਂ ਮਿਹਨਤ ਤੋਂ ਬਾਅਦ ਸਰੀਰ ਦਰਦ ਸ਼ੁਰੂ ਹੋਇਆ',
+  'pattern.breathing.question': 'ਕੀ ਆਰਾਮ ਕਰਦਿਆਂ ਵੀ ਸਾਹ ਚੜ੍ਹਦਾ ਹੈ ਜਾਂ ਸਿਰਫ਼ ਕੰਮ ਕਰਦਿਆਂ? ਕੀ ਇਹ ਅਚਾਨਕ ਸ਼ੁਰੂ ਹੋਇਆ?',
+  'pattern.breathing.option1.label': 'ਆਰਾਮ ਵੇਲੇ ਵੀ',
+  'pattern.breathing.option1.value': 'ਆਰਾਮ ਕਰਦਿਆਂ ਵੀ ਸਾਹ ਚੜ੍ਹਦਾ ਹੈ',
+  'pattern.breathing.option2.label': 'ਕੰਮ ਕਰਦਿਆਂ',
+  'pattern.breathing.option2.value': 'ਸਿਰਫ਼ ਤੁਰਦਿਆਂ ਜਾਂ ਪੌੜੀਆਂ ਚੜ੍ਹਦਿਆਂ ਸਾਹ ਚੜ੍ਹਦਾ ਹੈ',
+  'pattern.breathing.option3.label': 'ਕਸਰਤ ਤੋਂ ਬਾਅਦ',
+  'pattern.breathing.option3.value': 'ਦੌੜਨ ਜਾਂ ਕਸਰਤ ਤੋਂ ਬਾਅਦ ਸਾਹ ਚੜ੍ਹਦਾ ਹੈ, ਆਰਾਮ ਨਾਲ ਠੀਕ ਹੋ ਜਾਂਦਾ ਹੈ',
+  'pattern.breathing.option4.label': 'ਅਚਾਨਕ ਸ਼ੁਰੂ',
+  'pattern.breathing.option4.value': 'ਸਾਹ ਦੀ ਤਕਲੀਫ਼ ਅਚਾਨਕ ਸ਼ੁਰੂ ਹੋਈ',
+  'pattern.skin.question': 'ਕੀ ਧੱਫੜ ਗੋਲ ਛੱਲੇ ਵਰਗੇ ਹਨ? ਕੀ ਪਰਿਵਾਰ ਵਿੱਚ ਕਿਸੇ ਹੋਰ ਨੂੰ ਵੀ ਹੈ?',
+  'pattern.skin.option1.label': 'ਗੋਲ ਧੱਫੜ',
+  'pattern.skin.option1.value': 'ਧੱਫੜ ਗੋਲ ਛੱਲੇ ਵਰਗੇ ਹਨ, ਵਿਚਕਾਰੋਂ ਸਾਫ਼, ਬਹੁਤ ਖਾਰਸ਼',
+  'pattern.skin.option2.label': 'ਸਾਰੇ ਸਰੀਰ ਤੇ ਖਾਰਸ਼',
+  'pattern.skin.option2.value': 'ਸਾਰੇ ਸਰੀਰ ਤੇ ਖਾਰਸ਼, ਰਾਤ ਨੂੰ ਵੱਧ',
+  'pattern.skin.option3.label': 'ਮੁਹਾਸੇ',
+  'pattern.skin.option3.value': 'ਚਿਹਰੇ ਤੇ ਮੁਹਾਸੇ ਹਨ',
+  'pattern.skin.option4.label': 'ਹੋਰ ਸਮੱਸਿਆ',
+  'pattern.skin.option4.value': 'ਚਮੜੀ ਦੀ ਕੋਈ ਹੋਰ ਸਮੱਸਿਆ ਹੈ',
+  'pattern.cold_flu.question': 'ਕਿੰਨੇ ਦਿਨਾਂ ਤੋਂ ਹੈ? ਕੀ ਬੁਖ਼ਾਰ ਜਾਂ ਸਰੀਰ ਦਰਦ ਵੀ ਹੈ?',
+  'pattern.cold_flu.option1.label': '1-3 ਦਿਨ, ਹਲਕਾ',
+  'pattern.cold_flu.option1.value': '1-3 ਦਿਨਾਂ ਤੋਂ ਜ਼ੁਕਾਮ, ਸਿਰਫ਼ ਨੱਕ ਵਗ ਰਿਹਾ ਹੈ',
+  'pattern.cold_flu.option2.label': 'ਬੁਖ਼ਾਰ ਨਾਲ',
+  'pattern.cold_flu.option2.value': 'ਜ਼ੁਕਾਮ ਦੇ ਨਾਲ ਬੁਖ਼ਾਰ ਅਤੇ ਸਰੀਰ ਦਰਦ',
+  'pattern.cold_flu.option3.label': 'ਹਫ਼ਤੇ ਤੋਂ ਵੱਧ',
+  'pattern.cold_flu.option3.value': 'ਹਫ਼ਤੇ ਤੋਂ ਵੱਧ ਸਮੇਂ ਤੋਂ ਜ਼ੁਕਾਮ',
+  'pattern.cold_flu.option4.label': 'ਵੱਧ ਰਿਹਾ ਹੈ',
+  'pattern.cold_flu.option4.value': 'ਜ਼ੁਕਾਮ ਪਹਿਲਾਂ ਹਲਕਾ ਸੀ ਪਰ ਹੁਣ ਵੱਧ ਰਿਹਾ ਹੈ',
+
+  // ─── Period health ───
+  'period.headerTitle': 'ਮਾਹਵਾਰੀ ਸਿਹਤ',
+  'period.headerTitleAlly': 'ਮਾਹਵਾਰੀ ਸਿਹਤ ਜਾਗਰੂਕਤਾ',
+  'period.headerSubtitle': 'AI-ਸੰਚਾਲਿਤ ਮਾਹਵਾਰੀ ਸਿਹਤ',
+  'period.headerSubtitleAlly': 'ਆਪਣੀ ਜ਼ਿੰਦਗੀ ਦੀਆਂ ਔਰਤਾਂ ਦਾ ਸਾਥ ਦਿਓ',
+  'period.history': 'ਇਤਿਹਾਸ',
+  'period.dashboard': 'ਡੈਸ਼ਬੋਰਡ',
+  'period.signInTitle': 'ਮਾਹਵਾਰੀ ਸਿਹਤ ਦੇਖਣ ਲਈ ਸਾਈਨ ਇਨ ਕਰੋ',
+  'period.signInDesc': 'ਤੁਹਾਡਾ ਸਿਹਤ ਡਾਟਾ ਨਿੱਜੀ ਹੈ ਅਤੇ ਸਿਰਫ਼ ਤੁਹਾਨੂੰ ਦਿਖਦਾ ਹੈ।',
+  'period.backToSehat': 'Sehat ਤੇ ਵਾਪਸ ਜਾਓ',
+  'period.retry': 'ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ',
+  'period.allyHeroTitle': 'ਉਸ ਦਾ ਸਾਥੀ ਬਣੋ',
+  'period.allyHeroDesc': 'ਭਾਰਤ ਵਿੱਚ 71% ਕਿਸ਼ੋਰ ਕੁੜੀਆਂ ਨੂੰ ਪਹਿਲੀ ਮਾਹਵਾਰੀ ਤੋਂ ਪਹਿਲਾਂ ਇਸ ਬਾਰੇ ਪਤਾ ਨਹੀਂ ਹੁੰਦਾ। ਤੁਸੀਂ ਇਹ ਬਦਲ ਸਕਦੇ ਹੋ — ਸਿੱਖ ਕੇ, ਸਮਝ ਕੇ ਅਤੇ ਆਪਣੇ ਆਲੇ-ਦੁਆਲੇ ਦੀਆਂ ਔਰਤਾਂ ਦਾ ਸਾਥ ਦੇ ਕੇ।',
+  'period.eduCard1Title': 'ਮਾਹਵਾਰੀ ਕੀ ਹੈ?',
+  'period.eduCard1Body': 'ਮਾਹਵਾਰੀ (ਪੀਰੀਅਡ) ਇੱਕ ਕੁਦਰਤੀ ਮਹੀਨਾਵਾਰ ਪ੍ਰਕਿਰਿਆ ਹੈ ਜਿਸ ਵਿੱਚ ਬੱਚੇਦਾਨੀ ਆਪਣੀ ਅੰਦਰਲੀ ਪਰਤ ਛੱਡਦੀ ਹੈ। ਇਹ ਆਮ ਤੌਰ ਤੇ 3-7 ਦਿਨ ਰਹਿੰਦੀ ਹੈ ਅਤੇ ਹਰ 21-35 ਦਿਨਾਂ ਬਾਅਦ ਆਉਂਦੀ ਹੈ। ਇਹ ਕੋਈ ਬਿਮਾਰੀ, ਕਮਜ਼ੋਰੀ ਜਾਂ ਅਸ਼ੁੱਧਤਾ ਨਹੀਂ — ਇਹ ਚੰਗੀ ਸਿਹਤ ਦੀ ਨਿਸ਼ਾਨੀ ਹੈ।',
+  'period.eduCard2Title': 'ਤੁਸੀਂ ਕਿਵੇਂ ਮਦਦ ਕਰ ਸਕਦੇ ਹੋ?',
+  'period.eduCard2Body': 'ਬਿਨਾਂ ਸ਼ਰਮ ਦੇ ਸੈਨੇਟਰੀ ਉਤਪਾਦ ਖਰੀਦੋ। ਮਰੋੜਾਂ ਲਈ ਗਰਮ ਪਾਣੀ ਦੀ ਬੋਤਲ ਦਿਓ। ਮਜ਼ਾਕ ਨਾ ਕਰੋ ਜਾਂ ਮੂੰਹ ਨਾ ਬਣਾਓ। ਲੋੜ ਹੋਵੇ ਤਾਂ ਥਾਂ ਦਿਓ। ਪੁੱਛੋ "ਮੈਂ ਕਿਵੇਂ ਮਦਦ ਕਰਾਂ?" — ਜਿਵੇਂ ਕਿਸੇ ਵੀ ਸਿਹਤ ਮਾਮਲੇ ਵਿੱਚ ਪੁੱਛਦੇ ਹੋ।',
+  'period.eduCard3Title': 'ਭੁਲਾਉਣ ਵਾਲੇ ਵਹਿਮ',
+  'period.eduCard3Body': 'ਮਾਹਵਾਰੀ ਦੌਰਾਨ ਔਰਤਾਂ ਖਾਣਾ ਬਣਾ ਸਕਦੀਆਂ ਹਨ, ਮੰਦਰ ਜਾ ਸਕਦੀਆਂ ਹਨ, ਅਚਾਰ ਨੂੰ ਛੂਹ ਸਕਦੀਆਂ ਹਨ ਅਤੇ ਸਭ ਕੁਝ ਕਰ ਸਕਦੀਆਂ ਹਨ — ਇਨ੍ਹਾਂ ਪਾਬੰਦੀਆਂ ਦਾ ਕੋਈ ਵਿਗਿਆਨਕ ਆਧਾਰ ਨਹੀਂ। ਮਾਹਵਾਰੀ ਦਾ ਖੂਨ "ਗੰਦਾ" ਨਹੀਂ — ਇਹ ਉਹੀ ਖੂਨ ਹੈ ਜੋ ਤੁਹਾਡੀਆਂ ਨਾੜੀਆਂ ਵਿੱਚ ਵਗਦਾ ਹੈ।',
+  'period.eduCard4Title': 'ਡਾਕਟਰ ਕੋਲ ਜਾਣ ਲਈ ਕਦੋਂ ਕਹਿਣਾ',
+  'period.eduCard4Body': 'ਜੇ ਉਸ ਨੂੰ ਬਹੁਤ ਜ਼ਿਆਦਾ ਮਾਹਵਾਰੀ (ਹਰ 1-2 ਘੰਟੇ ਪੈਡ ਬਦਲਣਾ ਪਵੇ), ਰੋਜ਼ਾਨਾ ਕੰਮ ਰੋਕਣ ਵਾਲਾ ਤੇਜ਼ ਦਰਦ, 3+ ਮਹੀਨਿਆਂ ਤੋਂ ਮਾਹਵਾਰੀ ਨਾ ਆਉਣਾ, ਜਾਂ ਮਾਹਵਾਰੀਆਂ ਵਿਚਕਾਰ ਧੱਬੇ ਆਉਣ — ਤਾਂ ਇਸਤਰੀ ਰੋਗ ਮਾਹਿਰ ਕੋਲ ਜਾਣ ਲਈ ਕਹੋ।',
+  'period.quickFacts': 'ਮੁੱਖ ਤੱਥ',
+  'period.fact1': 'ਔਸਤ ਮਾਹਵਾਰੀ 3-7 ਦਿਨ ਰਹਿੰਦੀ ਹੈ ਅਤੇ ਹਰ 21-35 ਦਿਨਾਂ ਬਾਅਦ ਆਉਂਦੀ ਹੈ',
+  'period.fact2': 'ਮਰੋੜ, ਮੂਡ ਵਿੱਚ ਬਦਲਾਅ ਅਤੇ ਥਕਾਵਟ ਆਮ ਹਨ — "ਡਰਾਮਾ" ਨਹੀਂ',
+  'period.fact3': 'ਇੱਕ ਔਰਤ ਜੀਵਨ ਭਰ ਵਿੱਚ ~10,000-15,000 ਪੈਡ ਵਰਤਦੀ ਹੈ — ਮਾਹਵਾਰੀ ਉਤਪਾਦ ਜ਼ਰੂਰੀ ਹਨ, ਐਸ਼ ਨਹੀਂ',
+  'period.fact4': 'PCOS ਹਰ 5 ਵਿੱਚੋਂ 1 ਭਾਰਤੀ ਔਰਤ ਨੂੰ ਪ੍ਰਭਾਵਿਤ ਕਰਦਾ ਹੈ — ਇਸ ਨੂੰ ਸ਼ਰਮ ਨਹੀਂ, ਜਾਗਰੂਕਤਾ ਚਾਹੀਦੀ ਹੈ',
+  'period.fact5': 'ਮਾਹਵਾਰੀ ਬਾਰੇ ਖੁੱਲ੍ਹ ਕੇ ਗੱਲ ਕਰਨ ਨਾਲ ਅਗਲੀ ਪੀੜ੍ਹੀ ਵਧੇਰੇ ਸਿਹਤਮੰਦ ਹੁੰਦੀ ਹੈ',
+  'period.ctaShare': 'ਇਹ ਪੰਨਾ ਕਿਸੇ ਲੋੜਵੰਦ ਨਾਲ ਸਾਂਝਾ ਕਰੋ',
+  'period.ctaBreak': 'ਝਿਜਕ ਤੋੜਨ ਦੀ ਸ਼ੁਰੂਆਤ ਇੱਕ ਗੱਲਬਾਤ ਨਾਲ ਹੁੰਦੀ ਹੈ। ਤੁਸੀਂ ਆਪਣੀ ਸ਼ੁਰੂ ਕਰ ਦਿੱਤੀ ਹੈ।',
+  'period.cycleOverview': 'ਚੱਕਰ ਦੀ ਝਲਕ',
+  'period.cyclesLogged': '{count} ਚੱਕਰ ਦਰਜ',
+  'period.avgCycleDays': 'ਔਸਤ ਚੱਕਰ (ਦਿਨ)',
+  'period.avgPeriodDays': 'ਔਸਤ ਮਾਹਵਾਰੀ (ਦਿਨ)',
+  'period.daysLate': 'ਦਿਨ ਲੇਟ',
+  'period.daysUntilNext': 'ਅਗਲੀ ਤੱਕ ਦਿਨ',
+  'period.nextPeriod': 'ਅਗਲੀ ਮਾਹਵਾਰੀ',
+  'period.logPeriod': 'ਮਾਹਵਾਰੀ ਦਰਜ ਕਰੋ',
+  'period.logYourPeriod': 'ਆਪਣੀ ਮਾਹਵਾਰੀ ਦਰਜ ਕਰੋ',
+  'period.startDate': 'ਸ਼ੁਰੂਆਤੀ ਤਾਰੀਖ',
+  'period.periodLength': 'ਮਾਹਵਾਰੀ ਦੀ ਮਿਆਦ (ਦਿਨ)',
+  'period.flowLevel': 'ਵਹਾਅ ਦਾ ਪੱਧਰ',
+  'period.flowLight': 'ਹਲਕਾ',
+  'period.flowMedium': 'ਦਰਮਿਆਨਾ',
+  'period.flowHeavy': 'ਭਾਰੀ',
+  'period.symptoms': 'ਲੱਛਣ',
+  'period.mood': 'ਮੂਡ',
+  'period.notesOpt': 'ਨੋਟਸ (ਵਿਕਲਪਿਕ)',
+  'period.save': 'ਸੇਵ ਕਰੋ',
+  'period.saving': 'ਸੇਵ ਹੋ ਰਿਹਾ ਹੈ...',
+  'period.cycleHistory': 'ਚੱਕਰ ਦਾ ਇਤਿਹਾਸ',
+  'period.days': '{count} ਦਿਨ',
+  'period.flow': 'ਵਹਾਅ',
+  'period.dayCycle': '{count} ਦਿਨ ਦਾ ਚੱਕਰ',
+  'period.emptyTitle': 'ਆਪਣਾ ਚੱਕਰ ਟ੍ਰੈਕ ਕਰਨਾ ਸ਼ੁਰੂ ਕਰੋ',
+  'period.emptyDesc': 'ਨਿੱਜੀ ਅਨੁਮਾਨ, ਸਿਹਤ ਜਾਣਕਾਰੀ ਅਤੇ ਯਾਦ-ਦਹਾਨੀਆਂ ਲਈ ਆਪਣੀ ਮਾਹਵਾਰੀ ਦਰਜ ਕਰੋ — ਸਭ ਤੁਹਾਡੀ ਭਾਸ਼ਾ ਵਿੱਚ।',
+  'period.askTitle': 'ਮਾਹਵਾਰੀ ਸਿਹਤ ਬਾਰੇ ਪੁੱਛੋ',
+  'period.askTitleAlly': 'ਮਾਹਵਾਰੀ ਸਿਹਤ ਬਾਰੇ ਪੁੱਛੋ',
+  'period.askDesc': 'ਮਾਹਵਾਰੀ, ਚੱਕਰ ਦੀ ਸਿਹਤ, ਸਫ਼ਾਈ, PCOS ਜਾਂ ਮਾਹਵਾਰੀ ਤੰਦਰੁਸਤੀ ਬਾਰੇ ਕੁਝ ਵੀ ਪੁੱਛੋ — ਆਪਣੀ ਭਾਸ਼ਾ ਵਿੱਚ।',
+  'period.askDescAlly': 'ਮਾਹਵਾਰੀ ਸਿਹਤ ਬਾਰੇ ਕੁਝ ਵੀ ਪੁੱਛੋ — ਮਾਹਵਾਰੀ ਨੂੰ ਸਮਝੋ, ਵਹਿਮ ਤੋੜੋ, ਸਾਥ ਦੇਣਾ ਸਿੱਖੋ — ਆਪਣੀ ਭਾਸ਼ਾ ਵਿੱਚ।',
+  'period.askPlaceholder': 'ਆਪਣਾ ਸਵਾਲ ਪੁੱਛੋ...',
+  'period.askBtn': 'ਪੁੱਛੋ',
+  'period.thinking': 'ਸੋਚ ਰਹੇ ਹਾਂ...',
+  'period.aiDisclaimer': 'AI ਜਵਾਬ — ਡਾਕਟਰੀ ਸਲਾਹ ਲਈ ਡਾਕਟਰ ਨਾਲ ਗੱਲ ਕਰੋ',
+  'period.sCramps': 'ਮਰੋੜ',
+  'period.sHeadache': 'ਸਿਰ ਦਰਦ',
+  'period.sBackPain': 'ਕਮਰ ਦਰਦ',
+  'period.sBloating': 'ਪੇਟ ਫੁੱਲਣਾ',
+  'period.sFatigue': 'ਥਕਾਵਟ',
+  'period.sMoodSwings': 'ਮੂਡ ਬਦਲਣਾ',
+  'period.sAcne': 'ਮੁਹਾਸੇ',
+  'period.sBreast': 'ਛਾਤੀ ਵਿੱਚ ਦੁਖਣਾ',
+  'period.sNausea': 'ਜੀ ਕੱਚਾ ਹੋਣਾ',
+  'period.sCravings': 'ਖਾਣ ਦੀ ਲਾਲਸਾ',
+  'period.mHappy': 'ਖੁਸ਼',
+  'period.mCalm': 'ਸ਼ਾਂਤ',
+  'period.mAnxious': 'ਚਿੰਤਤ',
+  'period.mSad': 'ਉਦਾਸ',
+  'period.mIrritable': 'ਚਿੜਚਿੜਾ',
+  'period.mEnergetic': 'ਜੋਸ਼ੀਲਾ',
+  'period.mTired': 'ਥੱਕਿਆ',
+  'period.footerAlly': 'ਗਿਆਨ ਹੀ ਸ਼ਕਤੀ ਹੈ। ਮਾਹਵਾਰੀ ਸਿਹਤ ਬਾਰੇ ਚੁੱਪ ਤੋੜੋ।',
+  'period.deleteConfirm': 'ਕੀ ਇਹ ਚੱਕਰ ਐਂਟਰੀ ਮਿਟਾਉਣੀ ਹੈ?',
+  'period.footerTracker': 'ਤੁਹਾਡਾ ਮਾਹਵਾਰੀ ਡਾਟਾ ਨਿੱਜੀ ਹੈ ਅਤੇ ਸਿਰਫ਼ ਤੁਹਾਨੂੰ ਦਿਖਦਾ ਹੈ। ਇਹ ਡਾਕਟਰੀ ਨਿਦਾਨ ਨਹੀਂ ਹੈ।',
+  'period.allyQuestion1': 'ਮਾਹਵਾਰੀ ਬਾਰੇ ਮੈਨੂੰ ਕੀ ਜਾਣਨਾ ਚਾਹੀਦਾ ਹੈ?',
+  'period.allyQuestion2': 'ਮੈਂ ਆਪਣੀ ਭੈਣ/ਪਤਨੀ ਦੀ ਕਿਵੇਂ ਮਦਦ ਕਰ ਸਕਦਾ ਹਾਂ?',
+  'period.allyQuestion3': 'ਮਾਹਵਾਰੀ ਬਾਰੇ ਆਮ ਵਹਿਮ ਕੀ ਹਨ?',
+  'period.selfQuestion1': 'ਮਾਹਵਾਰੀ ਦਾ ਦਰਦ ਕੁਦਰਤੀ ਤਰੀਕੇ ਨਾਲ ਕਿਵੇਂ ਘਟਾਈਏ',
+  'period.selfQuestion2': 'PCOS ਕੀ ਹੈ?',
+  'period.selfQuestion3': 'ਮਾਹਵਾਰੀ ਦੌਰਾਨ ਕੀ ਖਾਣਾ ਚਾਹੀਦਾ ਹੈ',
+
+  // ─── Follow-up check reminders ───
+  'followup.reminder': 'Sehat ਚੈੱਕ-ਇਨ: ਹੁਣ ਤੁਸੀਂ ਕਿਵੇਂ ਮਹਿਸੂਸ ਕਰ ਰਹੇ ਹੋ — ਪਹਿਲਾਂ ਨਾਲੋਂ ਬਿਹਤਰ, ਉਵੇਂ ਹੀ, ਜਾਂ ਹੋਰ ਖ਼ਰਾਬ?',
+  'followup.reminderLink': 'ਇੱਥੇ ਜਵਾਬ ਦਿਓ: {url}',
+  'followup.emailSubject': 'ਤੁਸੀਂ ਕਿਵੇਂ ਮਹਿਸੂਸ ਕਰ ਰਹੇ ਹੋ? — Sehat ਚੈੱਕ-ਇਨ',
+
+  // ─── Follow-up inbox ───
+  'followup.pageTitle': 'ਚੈੱਕ-ਇਨ',
+  'followup.sectionDue': 'ਹੁਣ ਕਰਨ ਵਾਲੇ',
+  'followup.sectionUpcoming': 'ਆਉਣ ਵਾਲੇ',
+  'followup.sectionPast': 'ਪਿਛਲੇ',
+  'followup.checkAt': '{date} ਨੂੰ ਚੈੱਕ-ਇਨ',
+  'followup.escalation': 'ਜੇ ਇਹ ਹੋਵੇ ਤਾਂ ਤੁਰੰਤ ਇਲਾਜ ਲਓ: {criteria}',
+  'followup.question': 'ਹੁਣ ਤੁਸੀਂ ਕਿਵੇਂ ਮਹਿਸੂਸ ਕਰ ਰਹੇ ਹੋ?',
+  'followup.better': 'ਬਿਹਤਰ',
+  'followup.same': 'ਉਵੇਂ ਹੀ',
+  'followup.worse': 'ਹੋਰ ਖ਼ਰਾਬ',
+  'followup.dismiss': 'ਹਟਾਓ',
+  'followup.continue': 'ਗੱਲਬਾਤ ਜਾਰੀ ਰੱਖੋ',
+  'followup.statusCompleted': 'ਜਵਾਬ ਦਿੱਤਾ',
+  'followup.statusEscalated': 'ਤਬੀਅਤ ਵਿਗੜੀ',
+  'followup.statusDismissed': 'ਹਟਾਇਆ ਗਿਆ',
+  'followup.empty': 'ਅਜੇ ਕੋਈ ਚੈੱਕ-ਇਨ ਨਹੀਂ। ਜਦੋਂ Sehat ਨੂੰ ਕਿਸੇ ਲੱਛਣ ਬਾਰੇ ਬਾਅਦ ਵਿੱਚ ਤੁਹਾਡਾ ਹਾਲ ਜਾਣਨਾ ਹੋਵੇਗਾ, ਤਾਂ ਉਹ ਚੈੱਕ-ਇਨ ਤੈਅ ਕਰੇਗਾ।',
+  'followup.signIn': 'ਆਪਣੇ ਚੈੱਕ-ਇਨ ਦੇਖਣ ਲਈ ਸਾਈਨ ਇਨ ਕਰੋ',
+  'followup.loadError': 'ਤੁਹਾਡੇ ਚੈੱਕ-ਇਨ ਲੋਡ ਨਹੀਂ ਹੋ ਸਕੇ',
+  'followup.answerError': 'ਤੁਹਾਡਾ ਜਵਾਬ ਸੇਵ ਨਹੀਂ ਹੋ ਸਕਿਆ। ਕਿਰਪਾ ਕਰਕੇ ਦੁਬਾਰਾ ਕੋਸ਼ਿਸ਼ ਕਰੋ।',
+  'followup.checkInBanner': 'ਫਾਲੋ-ਅੱਪ ਚੈੱਕ-ਇਨ: {reason}',
+
+  // ─── Emergency guide ───
+  'emergency.title': 'ਐਮਰਜੈਂਸੀ',
+  'emergency.intro': 'ਇਹ ਐਮਰਜੈਂਸੀ ਹੈ। ਹੁਣੇ {number} ਤੇ ਕਾਲ ਕਰੋ — ਲਾਲ ਬਟਨ ਦਬਾਓ। ਮਦਦ ਆਉਣ ਤੱਕ ਮੈਂ ਤੁਹਾਨੂੰ ਇੱਕ-ਇੱਕ ਕਦਮ ਦੱਸਾਂਗਾ।',
+  'emergency.call': 'ਹੁਣੇ {number} ਤੇ ਕਾਲ ਕਰੋ',
+  'emergency.ambulance': 'ਐਂਬੂਲੈਂਸ: {number}',
+  'emergency.stepOf': 'ਕਦਮ {current} / {total}',
+  'emergency.next': 'ਅੱਗੇ',
+  'emergency.repeat': 'ਫਿਰ ਤੋਂ',
+  'emergency.back': 'ਪਿੱਛੇ',
+  'emergency.sayNext': 'ਹੋ ਜਾਣ ਤੇ "ਹੋ ਗਿਆ" ਕਹੋ, ਜਾਂ ਅੱਗੇ ਦਬਾਓ',
+  'emergency.sayBreathing': '"ਸਾਹ ਲੈ ਰਹੇ" ਜਾਂ "ਸਾਹ ਨਹੀਂ" ਕਹੋ, ਜਾਂ ਕੋਈ ਬਟਨ ਦਬਾਓ',
+  'emergency.breathing': 'ਸਾਹ ਲੈ ਰਹੇ ਹਨ',
+  'emergency.startCpr': 'ਸਾਹ ਨਹੀਂ ਲੈ ਰਹੇ? CPR ਸ਼ੁਰੂ ਕਰੋ',
+  'emergency.pushWithBeat': 'ਬੀਟ ਨਾਲ ਦਬਾਓ',
+  'emergency.pauseBeat': 'ਬੀਟ ਰੋਕੋ',
+  'emergency.resumeBeat': 'ਬੀਟ ਫਿਰ ਸ਼ੁਰੂ ਕਰੋ',
+  'emergency.fromAssessment': 'ਤੁਹਾਡੇ ਮੁਲਾਂਕਣ ਤੋਂ',
+  'emergency.finished': 'ਇਹ ਸਾਰੇ ਕਦਮ ਸਨ। ਮਦਦ ਆਉਣ ਤੱਕ ਉਹਨਾਂ ਦੇ ਨਾਲ ਰਹੋ ਅਤੇ ਉਹਨਾਂ ਦੇ ਸਾਹ ਤੇ ਨਜ਼ਰ ਰੱਖੋ।',
+  'emergency.close': 'ਗਾਈਡ ਬੰਦ ਕਰੋ',
+  'emergency.cpr.title': 'ਸੀਪੀਆਰ (CPR)',
+  'emergency.cpr.check': 'ਉਹਨਾਂ ਦੇ ਮੋਢੇ ਥਪਥਪਾਓ ਅਤੇ ਉੱਚੀ ਆਵਾਜ਼ ਮਾਰੋ। ਕੀ ਉਹ ਠੀਕ ਤਰ੍ਹਾਂ ਸਾਹ ਲੈ ਰਹੇ ਹਨ? "ਸਾਹ ਲੈ ਰਹੇ" ਜਾਂ "ਸਾਹ ਨਹੀਂ" ਕਹੋ।',
+  'emergency.cpr.position': 'ਉਹਨਾਂ ਨੂੰ ਸਖ਼ਤ ਥਾਂ ਤੇ ਪਿੱਠ ਦੇ ਭਾਰ ਸਿੱਧਾ ਲਿਟਾਓ ਅਤੇ ਉਹਨਾਂ ਦੀ ਛਾਤੀ ਕੋਲ ਗੋਡਿਆਂ ਭਾਰ ਬੈਠੋ।',
+  'emergency.cpr.hands': 'ਇੱਕ ਹਥੇਲੀ ਦਾ ਹੇਠਲਾ ਹਿੱਸਾ ਛਾਤੀ ਦੇ ਵਿਚਕਾਰ ਰੱਖੋ ਅਤੇ ਦੂਜਾ ਹੱਥ ਉਸਦੇ ਉੱਤੇ। ਬਾਹਾਂ ਸਿੱਧੀਆਂ ਰੱਖੋ।',
+  'emergency.cpr.compress': 'ਹਰ ਬੀਟ ਨਾਲ ਜ਼ੋਰ ਨਾਲ ਅਤੇ ਤੇਜ਼ੀ ਨਾਲ ਲਗਭਗ 5 ਸੈਂਟੀਮੀਟਰ ਹੇਠਾਂ ਦਬਾਓ। 30 ਤੱਕ ਗਿਣੋ ਅਤੇ ਫਿਰ ਸ਼ੁਰੂ ਕਰੋ। ਮਦਦ ਆਉਣ ਤੱਕ ਰੁਕੋ ਨਾ।',
+  'emergency.recovery.title': 'ਰਿਕਵਰੀ ਪੋਜ਼ੀਸ਼ਨ',
+  'emergency.recovery.side': 'ਉਹਨਾਂ ਦੇ ਕੋਲ ਗੋਡਿਆਂ ਭਾਰ ਬੈਠੋ। ਦੂਰ ਵਾਲਾ ਗੋਡਾ ਮੋੜੋ ਅਤੇ ਉਸਨੂੰ ਖਿੱਚ ਕੇ ਉਹਨਾਂ ਨੂੰ ਆਪਣੇ ਵੱਲ ਪਾਸੇ ਭਾਰ ਕਰ ਦਿਓ।',
+  'emergency.recovery.airway': 'ਸਿਰ ਹੌਲੀ ਜਿਹੀ ਪਿੱਛੇ ਝੁਕਾਓ ਅਤੇ ਮੂੰਹ ਹੇਠਾਂ ਵੱਲ ਰੱਖੋ, ਤਾਂ ਜੋ ਸਾਹ ਚੱਲਦਾ ਰਹੇ ਅਤੇ ਮੂੰਹ ਵਿੱਚ ਜੋ ਹੈ ਉਹ ਬਾਹਰ ਨਿਕਲ ਜਾਵੇ।',
+  'emergency.recovery.watch': 'ਉਹਨਾਂ ਦੇ ਨਾਲ ਰਹੋ ਅਤੇ ਉਹਨਾਂ ਦਾ ਸਾਹ ਦੇਖਦੇ ਰਹੋ। ਜੇ ਸਾਹ ਰੁਕ ਜਾਵੇ, ਤਾਂ "ਸਾਹ ਨਹੀਂ" ਕਹੋ ਜਾਂ CPR ਸ਼ੁਰੂ ਕਰੋ ਦਬਾਓ।',
+  'emergency.choking.title': 'ਗਲਾ ਘੁੱਟਣਾ',
+  'emergency.choking.cough': 'ਜੇ ਉਹ ਖੰਘ ਜਾਂ ਬੋਲ ਸਕਦੇ ਹਨ, ਤਾਂ ਉਹਨਾਂ ਨੂੰ ਖੰਘਦੇ ਰਹਿਣ ਦਿਓ। ਹਾਲੇ ਪਿੱਠ ਤੇ ਨਾ ਮਾਰੋ।',
+  'emergency.choking.backBlows': 'ਜੇ ਉਹ ਸਾਹ ਨਹੀਂ ਲੈ ਸਕਦੇ ਜਾਂ ਬੋਲ ਨਹੀਂ ਸਕਦੇ, ਤਾਂ ਉਹਨਾਂ ਨੂੰ ਅੱਗੇ ਝੁਕਾਓ ਅਤੇ ਹਥੇਲੀ ਦੇ ਹੇਠਲੇ ਹਿੱਸੇ ਨਾਲ ਮੋਢਿਆਂ ਵਿਚਕਾਰ 5 ਵਾਰ ਜ਼ੋਰ ਨਾਲ ਮਾਰੋ।',
+  'emergency.choking.thrusts': 'ਫਿਰ ਉਹਨਾਂ ਦੇ ਪਿੱਛੇ ਖੜ੍ਹੇ ਹੋ ਕੇ ਧੁੰਨੀ ਤੋਂ ਥੋੜ੍ਹਾ ਉੱਪਰ ਮੁੱਠੀ ਰੱਖੋ ਅਤੇ 5 ਵਾਰ ਜ਼ੋਰ ਨਾਲ ਅੰਦਰ ਅਤੇ ਉੱਪਰ ਵੱਲ ਖਿੱਚੋ। ਪਿੱਠ ਤੇ ਮਾਰਨਾ ਅਤੇ ਪੇਟ ਦਬਾਉਣਾ ਦੁਹਰਾਉਂਦੇ ਰਹੋ।',
+  'emergency.choking.unconscious': 'ਜੇ ਉਹ ਬੇਹੋਸ਼ ਹੋ ਜਾਣ, ਤਾਂ ਪਿੱਠ ਦੇ ਭਾਰ ਲਿਟਾ ਕੇ CPR ਸ਼ੁਰੂ ਕਰੋ।',
+  'emergency.snakebite.title': 'ਸੱਪ ਦਾ ਡੰਗ',
+  'emergency.snakebite.calm': 'ਵਿਅਕਤੀ ਨੂੰ ਸ਼ਾਂਤ ਰੱਖੋ ਅਤੇ ਲਿਟਾ ਕੇ ਸਥਿਰ ਰੱਖੋ। ਹਿੱਲਣ ਨਾਲ ਜ਼ਹਿਰ ਤੇਜ਼ੀ ਨਾਲ ਫੈਲਦਾ ਹੈ।',
+  'emergency.snakebite.immobilize': 'ਡੰਗੇ ਹੋਏ ਹੱਥ ਜਾਂ ਪੈਰ ਨੂੰ ਪੱਟੀ ਵਾਂਗ ਸਥਿਰ ਰੱਖੋ, ਦਿਲ ਤੋਂ ਹੇਠਾਂ। ਮੁੰਦਰੀਆਂ, ਚੂੜੀਆਂ, ਘੜੀ ਅਤੇ ਤੰਗ ਕੱਪੜੇ ਉਤਾਰ ਦਿਓ।',
+  'emergency.snakebite.dont': 'ਡੰਗ ਵਾਲੀ ਥਾਂ ਨੂੰ ਨਾ ਕੱਟੋ, ਨਾ ਚੂਸੋ, ਕੱਸ ਕੇ ਪੱਟੀ ਨਾ ਬੰਨ੍ਹੋ, ਅਤੇ ਉਸ ਤੇ ਬਰਫ਼ ਜਾਂ ਜੜੀ-ਬੂਟੀ ਨਾ ਲਗਾਓ।',
+  'emergency.snakebite.transport': 'ਉਹਨਾਂ ਨੂੰ ਚੁੱਕ ਕੇ ਅਜਿਹੇ ਹਸਪਤਾਲ ਲੈ ਜਾਓ ਜਿੱਥੇ ਐਂਟੀ-ਵੈਨਮ ਹੋਵੇ। ਉਹਨਾਂ ਨੂੰ ਤੁਰਨ ਨਾ ਦਿਓ। ਡੰਗ ਦਾ ਸਮਾਂ ਨੋਟ ਕਰੋ।',
+  'emergency.stroke.title': 'ਸਟ੍ਰੋਕ — FAST ਜਾਂਚ',
+  'emergency.stroke.face': 'ਚਿਹਰਾ (F): ਉਹਨਾਂ ਨੂੰ ਮੁਸਕੁਰਾਉਣ ਲਈ ਕਹੋ। ਕੀ ਚਿਹਰੇ ਦਾ ਇੱਕ ਪਾਸਾ ਲਟਕ ਰਿਹਾ ਹੈ?',
+  'emergency.stroke.arms': 'ਬਾਹਾਂ (A): ਦੋਵੇਂ ਬਾਹਾਂ ਚੁੱਕਣ ਲਈ ਕਹੋ। ਕੀ ਇੱਕ ਬਾਂਹ ਹੇਠਾਂ ਡਿੱਗਦੀ ਹੈ?',
+  'emergency.stroke.speech': 'ਬੋਲੀ (S): ਇੱਕ ਸੌਖਾ ਵਾਕ ਦੁਹਰਾਉਣ ਲਈ ਕਹੋ। ਕੀ ਬੋਲੀ ਥਥਲਾ ਰਹੀ ਹੈ ਜਾਂ ਅਜੀਬ ਹੈ?',
+  'emergency.stroke.time': 'ਸਮਾਂ (T): ਜੇ ਇਹਨਾਂ ਵਿੱਚੋਂ ਕੁਝ ਵੀ ਦਿਸੇ, ਤਾਂ ਸ਼ੁਰੂ ਹੋਣ ਦਾ ਸਮਾਂ ਨੋਟ ਕਰੋ ਅਤੇ ਉਹਨਾਂ ਨੂੰ ਹੁਣੇ ਹਸਪਤਾਲ ਲੈ ਜਾਓ। ਖਾਣਾ, ਪਾਣੀ ਜਾਂ ਦਵਾਈ ਨਾ ਦਿਓ।',
+  'emergency.seizure.title': 'ਦੌਰਾ',
+  'emergency.seizure.clear': 'ਸਖ਼ਤ ਅਤੇ ਤਿੱਖੀਆਂ ਚੀਜ਼ਾਂ ਉਹਨਾਂ ਤੋਂ ਦੂਰ ਕਰੋ। ਉਹਨਾਂ ਨੂੰ ਜ਼ਬਰਦਸਤੀ ਨਾ ਫੜੋ।',
+  'emergency.seizure.head': 'ਉਹਨਾਂ ਦੇ ਸਿਰ ਹੇਠਾਂ ਕੁਝ ਨਰਮ ਰੱਖੋ। ਮੂੰਹ ਵਿੱਚ ਕੁਝ ਨਾ ਪਾਓ — ਨਾ ਚਮਚਾ, ਨਾ ਪਾਣੀ।',
+  'emergency.seizure.side': 'ਝਟਕੇ ਰੁਕਣ ਤੇ ਉਹਨਾਂ ਨੂੰ ਪਾਸੇ ਵੱਲ ਮੋੜੋ ਅਤੇ ਦੇਖੋ ਕਿ ਉਹ ਸਾਹ ਲੈ ਰਹੇ ਹਨ।',
+  'emergency.seizure.time': 'ਦੇਖੋ ਕਿ ਇਹ ਕਿੰਨੀ ਦੇਰ ਚੱਲਦਾ ਹੈ। 5 ਮਿੰਟ ਤੋਂ ਵੱਧ ਝਟਕੇ ਆਉਣਾ ਐਮਰਜੈਂਸੀ ਹੈ।',
+  'emergency.bleeding.title': 'ਬਹੁਤ ਜ਼ਿਆਦਾ ਖੂਨ ਵਗਣਾ',
+  'emergency.bleeding.press': 'ਸਾਫ਼ ਕੱਪੜੇ ਨਾਲ ਜ਼ਖ਼ਮ ਤੇ ਜ਼ੋਰ ਨਾਲ ਦਬਾਓ। ਦੇਖਣ ਲਈ ਕੱਪੜਾ ਨਾ ਚੁੱਕੋ।',
+  'emergency.bleeding.more': 'ਜੇ ਖੂਨ ਕੱਪੜੇ ਵਿੱਚੋਂ ਬਾਹਰ ਆ ਜਾਵੇ, ਤਾਂ ਉੱਤੇ ਹੋਰ ਕੱਪੜਾ ਰੱਖੋ ਅਤੇ ਦਬਾਉਂਦੇ ਰਹੋ।',
+  'emergency.bleeding.raise': 'ਉਹਨਾਂ ਨੂੰ ਲਿਟਾ ਕੇ ਰੱਖੋ ਅਤੇ ਹੋ ਸਕੇ ਤਾਂ ਸੱਟ ਵਾਲਾ ਹਿੱਸਾ ਦਿਲ ਤੋਂ ਉੱਚਾ ਕਰੋ।',
+  'emergency.chest.title': 'ਛਾਤੀ ਵਿੱਚ ਦਰਦ',
+  'emergency.chest.rest': 'ਉਹਨਾਂ ਨੂੰ ਕਿਸੇ ਚੀਜ਼ ਨਾਲ ਢੋਅ ਲਗਾ ਕੇ ਬੈਠਣ ਅਤੇ ਆਰਾਮ ਕਰਨ ਵਿੱਚ ਮਦਦ ਕਰੋ। ਤੰਗ ਕੱਪੜੇ ਢਿੱਲੇ ਕਰੋ।',
+  'emergency.chest.nothing': 'ਉਹਨਾਂ ਨੂੰ ਤੁਰਨ-ਫਿਰਨ ਨਾ ਦਿਓ। ਖਾਣ-ਪੀਣ ਨੂੰ ਕੁਝ ਨਾ ਦਿਓ, ਅਤੇ ਨੋਟ ਕਰੋ ਕਿ ਦਰਦ ਕਦੋਂ ਸ਼ੁਰੂ ਹੋਇਆ।',
+  'emergency.chest.watch': 'ਉਹਨਾਂ ਦੇ ਨਾਲ ਰਹੋ। ਜੇ ਉਹ ਡਿੱਗ ਪੈਣ ਅਤੇ ਠੀਕ ਤਰ੍ਹਾਂ ਸਾਹ ਲੈਣਾ ਬੰਦ ਕਰ ਦੇਣ, ਤਾਂ CPR ਬਟਨ ਦਬਾ ਕੇ CPR ਸ਼ੁਰੂ ਕਰੋ।',
+  'emergency.general.title': 'ਮੁੱਢਲੀ ਸਹਾਇਤਾ',
+  'emergency.general.safe': 'ਪੱਕਾ ਕਰੋ ਕਿ ਤੁਸੀਂ ਅਤੇ ਉਹ ਵਿਅਕਤੀ ਸੁਰੱਖਿਅਤ ਹੋ। ਉਹਨਾਂ ਨੂੰ ਲਿਟਾ ਕੇ ਸਥਿਰ ਰੱਖੋ।',
+  'emergency.general.breathing': 'ਦੇਖੋ ਕਿ ਉਹ ਸਾਹ ਲੈ ਰਹੇ ਹਨ। ਜੇ ਨਹੀਂ, ਤਾਂ CPR ਬਟਨ ਦਬਾ ਕੇ CPR ਸ਼ੁਰੂ ਕਰੋ।',
+  'emergency.general.wait': 'ਉਹਨਾਂ ਦੇ ਨਾਲ ਰਹੋ ਅਤੇ ਉਹਨਾਂ ਨੂੰ ਨਿੱਘਾ ਰੱਖੋ। ਮਦਦ ਆਉਣ ਤੱਕ ਖਾਣ-ਪੀਣ ਨੂੰ ਕੁਝ ਨਾ ਦਿਓ।',
+};
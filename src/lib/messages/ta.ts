@@ -0,0 +1,326 @@
+import type { Catalog } from '../i18n';
+
+/** Tamil */
+export const ta: Catalog = {
+  // ─── Triage ───
+  'triage.nearbyFacilities': 'உங்களுக்கு அருகிலுள்ள மருத்துவமனைகள். ஏதாவது உடல்நலப் பிரச்சனை இருந்தால் சொல்லுங்கள்.',
+  'triage.languageSuggested': 'நீங்கள் {language} மொழியில் எழுதுவதாகத் தெரிகிறது — அதில் பதில் பெற தட்டவும்',
+
+  // ─── Welcome ───
+  'welcome.greeting': 'வணக்கம்! எப்படி இருக்கீர்கள்?',
+  'welcome.greetingNamed': 'வணக்கம், {name}!',
+  'welcome.subtitle': 'உங்கள் அறிகுறிகளை சொல்லுங்கள் — சரியான சிகிச்சைக்கு நாங்கள் வழிகாட்டுவோம்.',
+  'welcome.quickStart1': 'தலைவலி',
+  'welcome.quickStart2': 'காய்ச்சல் மற்றும் இருமல்',
+  'welcome.quickStart3': 'வயிற்று வலி',
+
+  // ─── Post-result follow-ups ───
+  'postResult.tellMore': 'மேலும் சொல்லுங்கள்',
+  'postResult.feelingNow': 'இப்போது எப்படி',
+  'postResult.precautions': 'மேலும் முன்னெச்சரிக்கை',
+
+  // ─── Report upload ───
+  'upload.button': 'அறிக்கை பதிவேற்றவும்',
+  'upload.analyzing': 'பகுப்பாய்வு...',
+  'upload.medicationsAdded': { one: 'உங்கள் மருந்து பட்டியலில் {count} மருந்து சேர்க்கப்பட்டது', other: 'உங்கள் மருந்து பட்டியலில் {count} மருந்துகள் சேர்க்கப்பட்டன' },
+  'upload.labResultsSaved': { one: '{count} ஆய்வக மதிப்பு அறிக்கைகளில் உங்கள் போக்கில் சேமிக்கப்பட்டது', other: '{count} ஆய்வக மதிப்புகள் அறிக்கைகளில் உங்கள் போக்கில் சேமிக்கப்பட்டன' },
+  'upload.setLinked': '{count} கோப்புகள் ஒன்றாக பகுப்பாய்வு செய்யப்பட்டன — இந்த அரட்டையில் அவற்றைப் பற்றி கேட்கலாம்',
+  'upload.tooManyFiles': 'ஒரு முறைக்கு அதிகபட்சம் {max} கோப்புகளைத் தேர்ந்தெடுக்கவும்.',
+  'upload.tooLarge': 'கோப்புகள் மிகப் பெரியவை — ஒவ்வொன்றும் {fileMb}MB வரை, மொத்தம் {setMb}MB வரை.',
+  'upload.failed': 'ஆவணத்தைப் பகுப்பாய்வு செய்ய முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+
+  // ─── Sign-up prompt ───
+  'signUp.title': 'உங்கள் ஆரோக்கியத்தை கண்காணிக்கவும்',
+  'signUp.subtitle': 'இலவச கணக்கு உருவாக்கி, உங்கள் சுகாதார சுயவிவரத்தை சேமிக்கவும்.',
+  'signUp.cta': 'பதிவு செய்யுங்கள்',
+  'signUp.later': 'பின்னர்',
+  'signUp.profile': 'சுயவிவரத்தை பூர்த்தி செய்யுங்கள்',
+
+  // ─── Voice mode ───
+  'voice.idle': 'பேச தட்டவும்',
+  'voice.listening': 'கேட்கிறோம்...',
+  'voice.transcribing': 'புரிந்துகொள்கிறோம்...',
+  'voice.thinking': 'யோசிக்கிறோம்...',
+  'voice.speaking': 'பேசுகிறோம்...',
+  'voice.notUnderstood': 'புரியவில்லை. மீண்டும் பேசுங்கள் அல்லது தட்டச்சு செய்யுங்கள்.',
+
+  // ─── Voice acknowledgments — ~3 seconds of speech each ───
+  'voice.ack.generic': 'நான் கேட்கிறேன். உங்கள் அறிகுறிகளை மதிப்பிடுகிறேன்.',
+  'voice.ack.head': 'உங்கள் தலைவலி பற்றி புரிகிறது. நான் பார்க்கிறேன்.',
+  'voice.ack.fever': 'உங்களுக்கு காய்ச்சல் இருக்கிறது. நான் மதிப்பிடுகிறேன்.',
+  'voice.ack.chest': 'உங்கள் நெஞ்சு வலி பற்றி புரிகிறது. உடனே பார்க்கிறேன்.',
+  'voice.ack.stomach': 'வயிற்று பிரச்சனை பற்றி புரிகிறது. நான் பார்க்கிறேன்.',
+  'voice.ack.breathing': 'மூச்சு பிரச்சனை பற்றி புரிகிறது. கவனமாக பார்க்கிறேன்.',
+  'voice.ack.pain': 'உங்கள் வலி பற்றி புரிகிறது. அறிகுறிகளை மதிப்பிடுகிறேன்.',
+  'voice.ack.child': 'குழந்தை பற்றிய விஷயம். கவனமாக பார்க்கிறேன்.',
+
+  // ─── Symptom fast-path follow-ups ───
+  'pattern.fever.question': 'எத்தனை நாட்களாக காய்ச்சல் இருக்கிறது?',
+  'pattern.fever.option1.label': 'இன்று முதல்',
+  'pattern.fever.option1.value': 'இன்று முதல் காய்ச்சல்',
+  'pattern.fever.option2.label': '1-2 நாட்கள்',
+  'pattern.fever.option2.value': '1-2 நாட்களாக காய்ச்சல்',
+  'pattern.fever.option3.label': '3-5 நாட்கள்',
+  'pattern.fever.option3.value': '3-5 நாட்களாக காய்ச்சல்',
+  'pattern.fever.option4.label': '5 நாட்களுக்கு மேல்',
+  'pattern.fever.option4.value': '5 நாட்களுக்கு மேல் காய்ச்சல்',
+  'pattern.headache.question': 'இது உங்களுக்கு இதுவரை வந்ததிலேயே மிக மோசமான தலைவலியா, அல்லது வழக்கமானதா?',
+  'pattern.headache.option1.label': 'மிக மோசமான',
+  'pattern.headache.option1.value': 'இது இதுவரை வந்ததிலேயே மிக மோசமான திடீர் தலைவலி',
+  'pattern.headache.option2.label': 'வழக்கமானது',
+  'pattern.headache.option2.value': 'வழக்கமாக வரும் தலைவலி போல் இருக்கிறது',
+  'pattern.headache.option3.label': 'காய்ச்சலுடன்',
+  'pattern.headache.option3.value': 'தலைவலியுடன் காய்ச்சலும் இருக்கிறது',
+  'pattern.headache.option4.label': 'தெரியாது',
+  'pattern.headache.option4.value': 'எனக்கு உறுதியாக தெரியவில்லை',
+  'pattern.cough.question': 'எத்தனை நாட்களாக இருமல் இருக்கிறது? சளியில் ரத்தம் வருகிறதா?',
+  'pattern.cough.option1.label': 'சில நாட்கள்',
+  'pattern.cough.option1.value': 'சில நாட்களாக இருமல், ரத்தம் இல்லை',
+  'pattern.cough.option2.label': '1-2 வாரங்கள்',
+  'pattern.cough.option2.value': '1-2 வாரங்களாக இருமல்',
+  'pattern.cough.option3.label': '2 வாரத்திற்கு மேல்',
+  'pattern.cough.option3.value': '2 வாரத்திற்கு மேல் இருமல்',
+  'pattern.cough.option4.label': 'ரத்தம் வருகிறது',
+  'pattern.cough.option4.value': 'சளியில் ரத்தம் வருகிறது',
+  'pattern.stomach_pain.question': 'வலி எங்கே — மேலே, கீழே, இடது பக்கம், வலது பக்கம்?',
+  'pattern.stomach_pain.option1.label': 'மேல் நடுவில்',
+  'pattern.stomach_pain.option1.value': 'வயிற்றின் மேல் நடுவில் வலி',
+  'pattern.stomach_pain.option2.label': 'கீழ் வலது',
+  'pattern.stomach_pain.option2.value': 'வயிற்றின் கீழ் வலது பக்கம் வலி',
+  'pattern.stomach_pain.option3.label': 'எல்லா இடத்திலும்',
+  'pattern.stomach_pain.option3.value': 'முழு வயிறும் வலிக்கிறது',
+  'pattern.stomach_pain.option4.label': 'தெரியாது',
+  'pattern.stomach_pain.option4.value': 'எனக்கு எங்கே வலிக்கிறது என்று தெரியவில்லை',
+  'pattern.diarrhea.question': 'இன்று எத்தனை முறை? மலத்தில் ரத்தம் அல்லது சளி இருக்கிறதா?',
+  'pattern.diarrhea.option1.label': '2-3 முறை',
+  'pattern.diarrhea.option1.value': 'இன்று 2-3 முறை வயிற்றுப்போக்கு',
+  'pattern.diarrhea.option2.label': '4-6 முறை',
+  'pattern.diarrhea.option2.value': 'இன்று 4-6 முறை வயிற்றுப்போக்கு',
+  'pattern.diarrhea.option3.label': '6 முறைக்கு மேல்',
+  'pattern.diarrhea.option3.value': 'இன்று 6 முறைக்கு மேல் வயிற்றுப்போக்கு',
+  'pattern.diarrhea.option4.label': 'ரத்தம் வருகிறது',
+  'pattern.diarrhea.option4.value': 'மலத்தில் ரத்தம் அல்லது சளி வருகிறது',
+  'pattern.period_issues.question': 'எத்தனை நாட்கள் மாதவிடாய் தாமதமாகியுள்ளது? எடை அதிகரித்ததா அல்லது முகத்தில் முடி அல்லது பருக்கள் வந்துள்ளதா?',
+  'pattern.period_issues.option1.label': 'சில நாட்கள் தாமதம்',
+  'pattern.period_issues.option1.value': 'மாதவிடாய் சில நாட்கள் தாமதம்',
+  'pattern.period_issues.option2.label': '2 வாரத்திற்கு மேல்',
+  'pattern.period_issues.option2.value': 'மாதவிடாய் 2 வாரத்திற்கு மேல் தாமதம்',
+  'pattern.period_issues.option3.label': 'ஒழுங்கற்ற + எடை',
+  'pattern.period_issues.option3.value': 'மாதவிடாய் ஒழுங்கற்ற, எடை அதிகரித்துள்ளது',
+  'pattern.period_issues.option4.label': 'அதிக/வலி',
+  'pattern.period_issues.option4.value': 'மாதவிடாய் மிகவும் அதிகமாகவும் வலியுடனும் இருக்கிறது',
+  'pattern.body_ache.question': 'காய்ச்சலும் இருக்கிறதா? வலி மூட்டுகளில் உள்ளதா அல்லது முழு உடலிலும் உள்ளதா?',
+  'pattern.body_ache.option1.label': 'காய்ச்சல் + வலி',
+  'pattern.body_ache.option1.value': 'காய்ச்சலுடன் உடல் முழுவதும் வலி',
+  'pattern.body_ache.option2.label': 'மூட்டு வலி மட்டும்',
+  'pattern.body_ache.option2.value': 'மூட்டுகளில் மட்டும் வலி, காய்ச்சல் இல்லை',
+  'pattern.body_ache.option3.label': 'சோர்வு/களைப்பு',
+  'pattern.body_ache.option3.value': 'மிகவும் சோர்வாகவும் களைப்பாகவும் உள்ளது',
+  'pattern.body_ache.option4.label': 'உடற்பயிற்சிக்குப் பிறகு',
+  'pattern.body_ache.option4.value': 'உடற்பயிற்சிக்குப் பிறகு வலி தொடங்கியது',
+  'pattern.breathing.question': 'மூச்சு திணறல் ஓய்வில் வருகிறதா அல்லது செயல்பாட்டின் போது மட்டும்? திடீரென்று தொடங்கியதா?',
+  'pattern.breathing.option1.label': 'ஓய்வில்',
+  'pattern.breathing.option1.value': 'எந்த செயல்பாடும் இல்லாமலே மூச்சு திணறல்',
+  'pattern.breathing.option2.label': 'செயல்பாட்டின் போது',
+  'pattern.breathing.option2.value': 'நடக்கும்போது அல்லது படி ஏறும்போது மட்டும்',
+  'pattern.breathing.option3.label': 'உடற்பயிற்சிக்குப் பிறகு',
+  'pattern.breathing.option3.value': 'ஓடிய பிறகு மூச்சு திணறல், ஓய்வில் சரியாகிறது',
+  'pattern.breathing.option4.label': 'திடீரென்று',
+  'pattern.breathing.option4.value': 'மூச்சு திணறல் திடீரென்று தொடங்கியது',
+  'pattern.skin.question': 'தடிப்பு வளையம் போல் உள்ளதா? உங்கள் குடும்பத்தில் வேறு யாருக்கும் இருக்கிறதா?',
+  'pattern.skin.option1.label': 'வளைய வடிவம்',
+  'pattern.skin.option1.value': 'வளைய வடிவ தடிப்பு, நடுவில் தெளிவாக, மிகவும் அரிப்பு',
+  'pattern.skin.option2.label': 'எல்லா இடத்திலும்',
+  'pattern.skin.option2.value': 'உடல் முழுவதும் அரிப்பு, இரவில் அதிகம்',
+  'pattern.skin.option3.label': 'பருக்கள்',
+  'pattern.skin.option3.value': 'முகத்தில் பருக்கள் உள்ளன',
+  'pattern.skin.option4.label': 'வேறு பிரச்சனை',
+  'pattern.skin.option4.value': 'வேறு ஏதாவது தோல் பிரச்சனை உள்ளது',
+  'pattern.cold_flu.question': 'எத்தனை நாட்களாக இருக்கிறது? காய்ச்சல் அல்லது உடல் வலியும் இருக்கிறதா?',
+  'pattern.cold_flu.option1.label': '1-3 நாட்கள்',
+  'pattern.cold_flu.option1.value': '1-3 நாட்களாக சளி, மூக்கு ஒழுகுதல் மட்டும்',
+  'pattern.cold_flu.option2.label': 'காய்ச்சலுடன்',
+  'pattern.cold_flu.option2.value': 'சளியுடன் காய்ச்சலும் உடல் வலியும்',
+  'pattern.cold_flu.option3.label': 'ஒரு வாரத்திற்கு மேல்',
+  'pattern.cold_flu.option3.value': 'ஒரு வாரத்திற்கு மேலாக சளி',
+  'pattern.cold_flu.option4.label': 'மோசமாகிறது',
+  'pattern.cold_flu.option4.value': 'சளி ஆரம்பத்தில் லேசாக இருந்தது, இப்போது அதிகமாகிறது',
+
+  // ─── Period health ───
+  'period.headerTitle': 'மாதவிடாய் ஆரோக்கியம்',
+  'period.headerTitleAlly': 'மாதவிடாய் விழிப்புணர்வு',
+  'period.headerSubtitle': 'AI-இயக்கப்படும் மாதவிடாய் நலம்',
+  'period.headerSubtitleAlly': 'உங்கள் வாழ்க்கையில் உள்ள பெண்களை ஆதரியுங்கள்',
+  'period.history': 'வரலாறு',
+  'period.dashboard': 'டாஷ்போர்டு',
+  'period.signInTitle': 'மாதவிடாய் ஆரோக்கியத்தை அணுக உள்நுழையவும்',
+  'period.signInDesc': 'உங்கள் சுகாதார தகவல் தனிப்பட்டது மற்றும் உங்களுக்கு மட்டுமே தெரியும்.',
+  'period.backToSehat': 'சேஹத்திற்குத் திரும்பு',
+  'period.retry': 'மீண்டும் முயற்சிக்கவும்',
+  'period.allyHeroTitle': 'அவளுக்கு துணை நில்',
+  'period.allyHeroDesc': 'இந்தியாவில் 71% இளம் பெண்கள் தங்கள் முதல் மாதவிடாய்க்கு முன் அதைப் பற்றி அறிந்திருக்கவில்லை. நீங்கள் இதை மாற்றலாம் — கற்றுக்கொள்வதன் மூலம், புரிந்துகொள்வதன் மூலம் மற்றும் ஆதரவாக இருப்பதன் மூலம்.',
+  'period.eduCard1Title': 'மாதவிடாய் என்றால் என்ன?',
+  'period.eduCard1Body': 'மாதவிடாய் (பீரியட்ஸ்) என்பது கருப்பை தனது உள்படலத்தை வெளியேற்றும் இயற்கையான மாதாந்திர செயல்முறையாகும். இது பொதுவாக 3-7 நாட்கள் நீடிக்கும், 21-35 நாட்களுக்கு ஒருமுறை நடக்கும். இது நோய், பலவீனம் அல்லது அசுத்தம் அல்ல — நல்ல ஆரோக்கியத்தின் அறிகுறி.',
+  'period.eduCard2Title': 'நீங்கள் எப்படி உதவலாம்?',
+  'period.eduCard2Body': 'சங்கடமின்றி சானிட்டரி பொருட்களை வாங்குங்கள். வலிக்கு வெந்நீர் பாட்டில் கொடுங்கள். கேலி செய்யாதீர்கள். தேவைப்படும்போது இடம் கொடுங்கள். "நான் எப்படி உதவலாம்?" என்று கேளுங்கள்.',
+  'period.eduCard3Title': 'களைய வேண்டிய கட்டுக்கதைகள்',
+  'period.eduCard3Body': 'மாதவிடாய் நேரத்தில் பெண்கள் சமைக்கலாம், கோவிலுக்கு செல்லலாம், ஊறுகாய் தொடலாம் — இந்த கட்டுப்பாடுகளுக்கு அறிவியல் அடிப்படை இல்லை. மாதவிடாய் இரத்தம் "அசுத்தம்" அல்ல — அது உங்கள் நரம்புகளில் ஓடும் அதே இரத்தம்.',
+  'period.eduCard4Title': 'மருத்துவரிடம் எப்போது செல்ல வேண்டும்',
+  'period.eduCard4Body': 'மிக அதிக இரத்தப்போக்கு (ஒவ்வொரு 1-2 மணி நேரத்திற்கும் பேட் மாற்றுதல்), தினசரி செயல்களைத் தடுக்கும் கடுமையான வலி, 3+ மாதங்கள் மாதவிடாய் வராமை, அல்லது இடையிடையே ரத்தக்கசிவு — மகப்பேறு மருத்துவரிடம் செல்ல ஊக்குவியுங்கள்.',
+  'period.quickFacts': 'முக்கிய தகவல்கள்',
+  'period.fact1': 'மாதவிடாய் பொதுவாக 3-7 நாட்கள் நீடிக்கும், 21-35 நாட்களுக்கு ஒருமுறை வரும்',
+  'period.fact2': 'வலி, மனநிலை மாற்றங்கள் மற்றும் சோர்வு இயல்பானவை — "நாடகம்" அல்ல',
+  'period.fact3': 'ஒரு பெண் தனது வாழ்நாளில் ~10,000-15,000 பேட்கள் பயன்படுத்துகிறாள் — மாதவிடாய் பொருட்கள் அத்தியாவசியம், ஆடம்பரம் அல்ல',
+  'period.fact4': 'PCOS இந்தியாவில் ஒவ்வொரு 5 பெண்களில் 1 பெண்ணை பாதிக்கிறது — இதற்கு விழிப்புணர்வு தேவை, அவமானம் அல்ல',
+  'period.fact5': 'மாதவிடாய் பற்றி வெளிப்படையாக பேசுவது அடுத்த தலைமுறையை ஆரோக்கியமாக வளர்க்க உதவுகிறது',
+  'period.ctaShare': 'இந்த பக்கத்தை தேவையானவர்களுடன் பகிரவும்',
+  'period.ctaBreak': 'தடையை உடைப்பது ஒரு உரையாடலில் தொடங்குகிறது. நீங்கள் இப்போது தொடங்கினீர்கள்.',
+  'period.cycleOverview': 'சுழற்சி கண்ணோட்டம்',
+  'period.cyclesLogged': '{count} சுழற்சிகள் பதிவு',
+  'period.avgCycleDays': 'சராசரி சுழற்சி (நாட்கள்)',
+  'period.avgPeriodDays': 'சராசரி மாதவிடாய் (நாட்கள்)',
+  'period.daysLate': 'நாட்கள் தாமதம்',
+  'period.daysUntilNext': 'அடுத்ததற்கு நாட்கள்',
+  'period.nextPeriod': 'அடுத்த மாதவிடாய்',
+  'period.logPeriod': 'மாதவிடாய் பதிவு செய்',
+  'period.logYourPeriod': 'உங்கள் மாதவிடாயை பதிவு செய்யுங்கள்',
+  'period.startDate': 'தொடக்க தேதி',
+  'period.periodLength': 'மாதவிடாய் நீளம் (நாட்கள்)',
+  'period.flowLevel': 'ரத்தப்போக்கு அளவு',
+  'period.flowLight': 'குறைவு',
+  'period.flowMedium': 'நடுத்தரம்',
+  'period.flowHeavy': 'அதிகம்',
+  'period.symptoms': 'அறிகுறிகள்',
+  'period.mood': 'மனநிலை',
+  'period.notesOpt': 'குறிப்புகள் (விருப்பம்)',
+  'period.save': 'சேமி',
+  'period.saving': 'சேமிக்கிறது...',
+  'period.cycleHistory': 'சுழற்சி வரலாறு',
+  'period.days': '{count} நாட்கள்',
+  'period.flow': 'போக்கு',
+  'period.dayCycle': '{count} நாள் சுழற்சி',
+  'period.emptyTitle': 'உங்கள் சுழற்சியை கண்காணிக்க தொடங்குங்கள்',
+  'period.emptyDesc': 'உங்கள் மாதவிடாயைப் பதிவு செய்யுங்கள் — தனிப்பயனாக்கப்பட்ட கணிப்புகள், சுகாதார நுண்ணறிவு மற்றும் நினைவூட்டல்களைப் பெறுங்கள்.',
+  'period.askTitle': 'மாதவிடாய் ஆரோக்கியம் பற்றி கேளுங்கள்',
+  'period.askTitleAlly': 'மாதவிடாய் சுகாதாரம் பற்றி கேளுங்கள்',
+  'period.askDesc': 'மாதவிடாய், சுழற்சி ஆரோக்கியம், சுகாதாரம், PCOS, அல்லது மாதவிடாய் நலம் பற்றி கேளுங்கள் — உங்கள் மொழியில்.',
+  'period.askDescAlly': 'மாதவிடாய் சுகாதாரம் பற்றி எதையும் கேளுங்கள் — மாதவிடாயைப் புரிந்துகொள்ளுங்கள், கட்டுக்கதைகளை உடையுங்கள், ஆதரவாக இருக்கக் கற்றுக்கொள்ளுங்கள்.',
+  'period.askPlaceholder': 'உங்கள் கேள்வியைக் கேளுங்கள்...',
+  'period.askBtn': 'கேள்',
+  'period.thinking': 'யோசிக்கிறது...',
+  'period.aiDisclaimer': 'AI பதில் — மருத்துவ ஆலோசனைக்கு மருத்துவரை அணுகவும்',
+  'period.sCramps': 'வலி',
+  'period.sHeadache': 'தலைவலி',
+  'period.sBackPain': 'முதுகு வலி',
+  'period.sBloating': 'வீக்கம்',
+  'period.sFatigue': 'சோர்வு',
+  'period.sMoodSwings': 'மனநிலை மாற்றம்',
+  'period.sAcne': 'முகப்பரு',
+  'period.sBreast': 'மார்பக வலி',
+  'period.sNausea': 'குமட்டல்',
+  'period.sCravings': 'பசி உணர்வு',
+  'period.mHappy': 'மகிழ்ச்சி',
+  'period.mCalm': 'அமைதி',
+  'period.mAnxious': 'கவலை',
+  'period.mSad': 'சோகம்',
+  'period.mIrritable': 'எரிச்சல்',
+  'period.mEnergetic': 'சுறுசுறுப்பு',
+  'period.mTired': 'களைப்பு',
+  'period.footerAlly': 'அறிவே சக்தி. மாதவிடாய் சுகாதாரத்தில் மௌனத்தை உடையுங்கள்.',
+  'period.deleteConfirm': 'இந்த சுழற்சியை நீக்க விரும்புகிறீர்களா?',
+  'period.footerTracker': 'உங்கள் மாதவிடாய் தகவல் தனிப்பட்டது. இது மருத்துவ நோயறிதல் அல்ல.',
+  'period.allyQuestion1': 'மாதவிடாய் பற்றி நான் என்ன தெரிந்து கொள்ள வேண்டும்?',
+  'period.allyQuestion2': 'என் சகோதரி/மனைவிக்கு எப்படி உதவலாம்?',
+  'period.allyQuestion3': 'மாதவிடாய் பற்றிய கட்டுக்கதைகள் என்ன?',
+  'period.selfQuestion1': 'மாதவிடாய் வலியை இயற்கையாக குறைப்பது எப்படி',
+  'period.selfQuestion2': 'PCOS என்றால் என்ன?',
+  'period.selfQuestion3': 'மாதவிடாய் நேரத்தில் என்ன சாப்பிட வேண்டும்',
+
+  // ─── Follow-up check reminders ───
+  'followup.reminder': 'சேஹத் செக்-இன்: இப்போது எப்படி உணர்கிறீர்கள் — முன்பை விட நன்றாக, அதே மாதிரி, அல்லது மோசமாக?',
+  'followup.reminderLink': 'இங்கே பதிலளிக்கவும்: {url}',
+  'followup.emailSubject': 'எப்படி உணர்கிறீர்கள்? — சேஹத் செக்-இன்',
+
+  // ─── Follow-up inbox ───
+  'followup.pageTitle': 'செக்-இன்கள்',
+  'followup.sectionDue': 'இப்போது செய்ய வேண்டியவை',
+  'followup.sectionUpcoming': 'வரவிருப்பவை',
+  'followup.sectionPast': 'முந்தையவை',
+  'followup.checkAt': '{date} அன்று செக்-இன்',
+  'followup.escalation': 'இப்படி இருந்தால் உடனே சிகிச்சை பெறுங்கள்: {criteria}',
+  'followup.question': 'இப்போது எப்படி உணர்கிறீர்கள்?',
+  'followup.better': 'நன்றாக உள்ளது',
+  'followup.same': 'அதே மாதிரி',
+  'followup.worse': 'மோசமாக உள்ளது',
+  'followup.dismiss': 'நிராகரி',
+  'followup.continue': 'உரையாடலைத் தொடரவும்',
+  'followup.statusCompleted': 'பதிலளிக்கப்பட்டது',
+  'followup.statusEscalated': 'மோசமானது',
+  'followup.statusDismissed': 'நிராகரிக்கப்பட்டது',
+  'followup.empty': 'இன்னும் செக்-இன்கள் இல்லை. ஒரு அறிகுறி பற்றி பின்னர் உங்களிடம் கேட்க வேண்டுமெனில் சேஹத் ஒன்றை அமைக்கும்.',
+  'followup.signIn': 'உங்கள் செக்-இன்களைப் பார்க்க உள்நுழையவும்',
+  'followup.loadError': 'உங்கள் செக்-இன்களை ஏற்ற முடியவில்லை',
+  'followup.answerError': 'உங்கள் பதிலைச் சேமிக்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.',
+  'followup.checkInBanner': 'தொடர் செக்-இன்: {reason}',
+
+  // ─── Emergency guide ───
+  'emergency.title': 'அவசரநிலை',
+  'emergency.intro': 'இது அவசரநிலை. இப்போதே {number} ஐ அழையுங்கள் — சிவப்பு பொத்தானை அழுத்துங்கள். உதவி வரும் வரை ஒவ்வொரு படியாக நான் வழிகாட்டுவேன்.',
+  'emergency.call': 'இப்போதே {number} ஐ அழையுங்கள்',
+  'emergency.ambulance': 'ஆம்புலன்ஸ்: {number}',
+  'emergency.stepOf': 'படி {current} / {total}',
+  'emergency.next': 'அடுத்து',
+  'emergency.repeat': 'மீண்டும்',
+  'emergency.back': 'முந்தைய',
+  'emergency.sayNext': 'முடிந்ததும் "முடிந்தது" என்று சொல்லுங்கள், அல்லது அடுத்து அழுத்துங்கள்',
+  'emergency.sayBreathing': '"மூச்சு இருக்கு" அல்லது "மூச்சு இல்லை" என்று சொல்லுங்கள், அல்லது ஒரு பொத்தானை அழுத்துங்கள்',
+  'emergency.breathing': 'மூச்சு இருக்கிறது',
+  'emergency.startCpr': 'மூச்சு இல்லையா? CPR தொடங்குங்கள்',
+  'emergency.pushWithBeat': 'துடிப்புடன் அழுத்துங்கள்',
+  'emergency.pauseBeat': 'துடிப்பை நிறுத்து',
+  'emergency.resumeBeat': 'துடிப்பை மீண்டும் தொடங்கு',
+  'emergency.fromAssessment': 'உங்கள் மதிப்பீட்டிலிருந்து',
+  'emergency.finished': 'இவை எல்லாப் படிகளும். உதவி வரும் வரை அவர்களுடன் இருந்து அவர்களின் மூச்சைக் கவனியுங்கள்.',
+  'emergency.close': 'வழிகாட்டியை மூடு',
+  'emergency.cpr.title': 'சிபிஆர் (CPR)',
+  'emergency.cpr.check': 'அவர்களின் தோளைத் தட்டி சத்தமாக அழையுங்கள். சாதாரணமாக மூச்சு விடுகிறார்களா? "மூச்சு இருக்கு" அல்லது "மூச்சு இல்லை" என்று சொல்லுங்கள்.',
+  'emergency.cpr.position': 'அவர்களை உறுதியான தரையில் மல்லாக்கப் படுக்க வைத்து, மார்புக்கு அருகில் மண்டியிட்டு உட்காருங்கள்.',
+  'emergency.cpr.hands': 'ஒரு உள்ளங்கையின் அடிப்பகுதியை மார்பின் நடுவில் வைத்து, மற்ற கையை அதன் மேல் வையுங்கள். கைகளை நேராக வைத்திருங்கள்.',
+  'emergency.cpr.compress': 'ஒவ்வொரு துடிப்புக்கும் சுமார் 5 சென்டிமீட்டர் ஆழம் வலுவாகவும் வேகமாகவும் அழுத்துங்கள். 30 வரை எண்ணி மீண்டும் தொடங்குங்கள். உதவி வரும் வரை நிறுத்தாதீர்கள்.',
+  'emergency.recovery.title': 'மீட்பு நிலை',
+  'emergency.recovery.side': 'அவர்கள் அருகில் மண்டியிடுங்கள். தூரத்தில் உள்ள முழங்காலை மடக்கி, அதைப் பிடித்து இழுத்து அவர்களை உங்கள் பக்கம் பக்கவாட்டில் திருப்புங்கள்.',
+  'emergency.recovery.airway': 'தலையை மெதுவாகப் பின்னால் சாய்த்து வாய் கீழ்நோக்கி இருக்கும்படி வையுங்கள், அப்போது மூச்சு தடையின்றி இருக்கும், வாயில் உள்ளவை வெளியேறும்.',
+  'emergency.recovery.watch': 'அவர்களுடன் இருந்து மூச்சைக் கவனித்துக்கொண்டே இருங்கள். மூச்சு நின்றால் "மூச்சு இல்லை" என்று சொல்லுங்கள் அல்லது CPR தொடங்குங்கள் அழுத்துங்கள்.',
+  'emergency.choking.title': 'தொண்டை அடைப்பு',
+  'emergency.choking.cough': 'அவர்களால் இருமவோ பேசவோ முடிந்தால், இருமிக்கொண்டே இருக்க விடுங்கள். இப்போது முதுகில் அடிக்காதீர்கள்.',
+  'emergency.choking.backBlows': 'மூச்சு விடவோ பேசவோ முடியவில்லை என்றால், அவர்களை முன்னால் குனிய வைத்து, உள்ளங்கையின் அடிப்பகுதியால் தோள்பட்டைகளுக்கு இடையே 5 முறை வலுவாக அடியுங்கள்.',
+  'emergency.choking.thrusts': 'பிறகு அவர்களுக்குப் பின்னால் நின்று, தொப்புளுக்குச் சற்று மேலே முஷ்டியை வைத்து, 5 முறை உள்ளேயும் மேலேயும் வேகமாக இழுங்கள். முதுகு அடியையும் வயிற்று அழுத்தத்தையும் மாற்றி மாற்றிச் செய்யுங்கள்.',
+  'emergency.choking.unconscious': 'அவர்கள் மயக்கமடைந்தால், மல்லாக்கப் படுக்க வைத்து CPR தொடங்குங்கள்.',
+  'emergency.snakebite.title': 'பாம்புக்கடி',
+  'emergency.snakebite.calm': 'அவரை அமைதியாகவும் அசையாமல் படுத்தும் இருக்க வையுங்கள். அசைந்தால் விஷம் வேகமாகப் பரவும்.',
+  'emergency.snakebite.immobilize': 'கடிபட்ட கை அல்லது காலை, இதயத்தை விடக் கீழே, கட்டுப் போட்டது போல அசையாமல் வையுங்கள். மோதிரம், வளையல், கடிகாரம், இறுக்கமான உடைகளை அகற்றுங்கள்.',
+  'emergency.snakebite.dont': 'கடித்த இடத்தை வெட்டாதீர்கள், உறிஞ்சாதீர்கள், இறுக்கமாகக் கட்டாதீர்கள், அதில் ஐஸ் அல்லது மூலிகைகள் வைக்காதீர்கள்.',
+  'emergency.snakebite.transport': 'விஷமுறிவு மருந்து உள்ள மருத்துவமனைக்கு அவர்களைத் தூக்கிச் செல்லுங்கள். நடக்க விடாதீர்கள். கடித்த நேரத்தைக் குறித்துக்கொள்ளுங்கள்.',
+  'emergency.stroke.title': 'பக்கவாதம் — FAST சோதனை',
+  'emergency.stroke.face': 'முகம் (F): சிரிக்கச் சொல்லுங்கள். முகத்தின் ஒரு பக்கம் தொங்குகிறதா?',
+  'emergency.stroke.arms': 'கைகள் (A): இரண்டு கைகளையும் தூக்கச் சொல்லுங்கள். ஒரு கை கீழே இறங்குகிறதா?',
+  'emergency.stroke.speech': 'பேச்சு (S): ஒரு எளிய வாக்கியத்தைத் திரும்பச் சொல்லச் சொல்லுங்கள். பேச்சு குழறுகிறதா அல்லது விசித்திரமாக உள்ளதா?',
+  'emergency.stroke.time': 'நேரம் (T): இவற்றில் ஏதாவது தெரிந்தால், தொடங்கிய நேரத்தைக் குறித்து, உடனே மருத்துவமனைக்கு அழைத்துச் செல்லுங்கள். உணவு, தண்ணீர், மருந்து கொடுக்காதீர்கள்.',
+  'emergency.seizure.title': 'வலிப்பு',
+  'emergency.seizure.clear': 'கடினமான, கூர்மையான பொருட்களை அவர்களிடமிருந்து அகற்றுங்கள். அவர்களைப் பிடித்து அழுத்தாதீர்கள்.',
+  'emergency.seizure.head': 'தலைக்குக் கீழே மென்மையான ஒன்றை வையுங்கள். வாயில் எதுவும் வைக்காதீர்கள் — கரண்டியோ தண்ணீரோ வேண்டாம்.',
+  'emergency.seizure.side': 'வலிப்பு நின்றதும், அவர்களைப் பக்கவாட்டில் திருப்பி மூச்சு விடுகிறார்களா என்று பாருங்கள்.',
+  'emergency.seizure.time': 'எவ்வளவு நேரம் நீடிக்கிறது என்று கவனியுங்கள். 5 நிமிடங்களுக்கு மேல் வலிப்பு இருந்தால் அது அவசரநிலை.',
+  'emergency.bleeding.title': 'கடுமையான இரத்தப்போக்கு',
+  'emergency.bleeding.press': 'சுத்தமான துணியால் காயத்தின் மேல் வலுவாக அழுத்துங்கள். பார்ப்பதற்காகத் துணியைத் தூக்காதீர்கள்.',
+  'emergency.bleeding.more': 'இரத்தம் துணி வழியே கசிந்தால், மேலே இன்னொரு துணி வைத்து அழுத்திக்கொண்டே இருங்கள்.',
+  'emergency.bleeding.raise': 'அவர்களைப் படுக்க வைத்திருங்கள், முடிந்தால் காயம்பட்ட பகுதியை இதயத்தை விட மேலே உயர்த்துங்கள்.',
+  'emergency.chest.title': 'நெஞ்சு வலி',
+  'emergency.chest.rest': 'எதிலாவது சாய்ந்து உட்கார்ந்து ஓய்வெடுக்க உதவுங்கள். இறுக்கமான உடைகளைத் தளர்த்துங்கள்.',
+  'emergency.chest.nothing': 'அவர்களை நடமாட விடாதீர்கள். சாப்பிடவோ குடிக்கவோ எதுவும் கொடுக்காதீர்கள், வலி எப்போது தொடங்கியது என்று குறித்துக்கொள்ளுங்கள்.',
+  'emergency.chest.watch': 'அவர்களுடன் இருங்கள். அவர்கள் சரிந்து சாதாரணமாக மூச்சு விடுவது நின்றால், CPR பொத்தானை அழுத்தி CPR தொடங்குங்கள்.',
+  'emergency.general.title': 'முதலுதவி',
+  'emergency.general.safe': 'நீங்களும் அவரும் பாதுகாப்பாக இருக்கிறீர்களா என்று உறுதி செய்யுங்கள். அவரைப் படுக்க வைத்து அசையாமல் வையுங்கள்.',
+  'emergency.general.breathing': 'அவர்கள் மூச்சு விடுகிறார்களா என்று பாருங்கள். இல்லையென்றால், CPR பொத்தானை அழுத்தி CPR தொடங்குங்கள்.',
+  'emergency.general.wait': 'அவர்களுடன் இருந்து, கதகதப்பாக வையுங்கள். உதவி வரும் வரை சாப்பிடவோ குடிக்கவோ எதுவும் கொடுக்காதீர்கள்.',
+};
@@ -0,0 +1,326 @@
+import type { Catalog } from '../i18n';
+
+/** Telugu */
+export const te: Catalog = {
+  // ─── Triage ───
+  'triage.nearbyFacilities': 'మీ సమీపంలోని ఆసుపత్రులు ఇక్కడ ఉన్నాయి. ఏదైనా ఆరోగ్య సమస్య ఉంటే చెప్పండి.',
+  'triage.languageSuggested': 'మీరు {language}లో రాస్తున్నట్లు ఉంది — అందులో సమాధానం కోసం నొక్కండి',
+
+  // ─── Welcome ───
+  'welcome.greeting': 'నమస్కారం! ఎలా ఉన్నారు?',
+  'welcome.greetingNamed': 'నమస్కారం, {name}!',
+  'welcome.subtitle': 'మీ లక్షణాలను చెప్పండి — సరైన వైద్యానికి మేము మిమ్మల్ని మార్గదర్శనం చేస్తాము.',
+  'welcome.quickStart1': 'తలనొప్పి',
+  'welcome.quickStart2': 'జ్వరం మరియు దగ్గు',
+  'welcome.quickStart3': 'కడుపు నొప్పి',
+
+  // ─── Post-result follow-ups ───
+  'postResult.tellMore': 'మరింత చెప్పండి',
+  'postResult.feelingNow': 'ఇప్పుడు ఎలా ఉంది',
+  'postResult.precautions': 'మరిన్ని జాగ్రత్తలు',
+
+  // ─── Report upload ───
+  'upload.button': 'రిపోర్ట్ అప్‌లోడ్',
+  'upload.analyzing': 'విశ్లేషణ...',
+  'upload.medicationsAdded': { one: 'మీ మందుల జాబితాకు {count} మందు జోడించబడింది', other: 'మీ మందుల జాబితాకు {count} మందులు జోడించబడ్డాయి' },
+  'upload.labResultsSaved': { one: '{count} ల్యాబ్ విలువ రిపోర్ట్‌లలో మీ ట్రెండ్‌కు సేవ్ చేయబడింది', other: '{count} ల్యాబ్ విలువలు రిపోర్ట్‌లలో మీ ట్రెండ్‌కు సేవ్ చేయబడ్డాయి' },
+  'upload.setLinked': '{count} ఫైళ్లను కలిపి విశ్లేషించాము — ఈ చాట్‌లో వాటి గురించి అడగవచ్చు',
+  'upload.tooManyFiles': 'ఒకేసారి గరిష్టంగా {max} ఫైళ్లను ఎంచుకోండి.',
+  'upload.tooLarge': 'ఫైళ్లు చాలా పెద్దవి — ఒక్కొక్కటి {fileMb}MB వరకు, మొత్తం {setMb}MB వరకు.',
+  'upload.failed': 'పత్రాన్ని విశ్లేషించలేకపోయాము. మళ్ళీ ప్రయత్నించండి.',
+
+  // ─── Sign-up prompt ───
+  'signUp.title': 'మీ ఆరోగ్యాన్ని ట్రాక్ చేయండి',
+  'signUp.subtitle': 'ఉచిత ఖాతా సృష్టించి, మీ ఆరోగ్య ప్రొఫైల్‌ను సేవ్ చేయండి.',
+  'signUp.cta': 'సైన్ అప్ చేయండి',
+  'signUp.later': 'తర్వాత',
+  'signUp.profile': 'ప్రొఫైల్ పూర్తి చేయండి',
+
+  // ─── Voice mode ───
+  'voice.idle': 'మాట్లాడటానికి నొక్కండి',
+  'voice.listening': 'వింటున్నాము...',
+  'voice.transcribing': 'అర్థం చేసుకుంటున్నాము...',
+  'voice.thinking': 'ఆలోచిస్తున్నాము...',
+  'voice.speaking': 'చెబుతున్నాము...',
+  'voice.notUnderstood': 'అర్థం కాలేదు. మళ్ళీ చెప్పండి లేదా టైప్ చేయండి.',
+
+  // ─── Voice acknowledgments — ~3 seconds of speech each ───
+  'voice.ack.generic': 'నేను వింటున్నాను. మీ లక్షణాలను అంచనా వేస్తాను.',
+  'voice.ack.head': 'మీ తలనొప్పి గురించి అర్థమైంది. నేను చూస్తాను.',
+  'voice.ack.fever': 'మీకు జ్వరం ఉంది. నేను అంచనా వేస్తాను.',
+  'voice.ack.chest': 'మీ ఛాతీ లక్షణాల గురించి అర్థమైంది. వెంటనే చూస్తాను.',
+  'voice.ack.stomach': 'కడుపు సమస్య గురించి అర్థమైంది. నేను చూస్తాను.',
+  'voice.ack.breathing': 'ఊపిరి సమస్య గురించి అర్థమైంది. జాగ్రత్తగా చూస్తాను.',
+  'voice.ack.pain': 'మీ నొప్పి గురించి అర్థమైంది. లక్షణాలను అంచనా వేస్తాను.',
+  'voice.ack.child': 'పిల్లల విషయం. జాగ్రత్తగా చూస్తాను.',
+
+  // ─── Symptom fast-path follow-ups ───
+  'pattern.fever.question': 'ఎన్ని రోజులుగా జ్వరం ఉంది?',
+  'pattern.fever.option1.label': 'ఈ రోజు నుండి',
+  'pattern.fever.option1.value': 'ఈ రోజు నుండి జ్వరం',
+  'pattern.fever.option2.label': '1-2 రోజులు',
+  'pattern.fever.option2.value': '1-2 రోజులుగా జ్వరం',
+  'pattern.fever.option3.label': '3-5 రోజులు',
+  'pattern.fever.option3.value': '3-5 రోజులుగా జ్వరం',
+  'pattern.fever.option4.label': '5 రోజులకు పైగా',
+  'pattern.fever.option4.value': '5 రోజులకు పైగా జ్వరం',
+  'pattern.headache.question': 'ఇది మీకు ఇప్పటివరకు వచ్చిన అత్యంత తీవ్రమైన తలనొప్పా, లేక మామూలుగా వచ్చేదా?',
+  'pattern.headache.option1.label': 'అత్యంత తీవ్రం',
+  'pattern.headache.option1.value': 'ఇది ఇప్పటివరకు వచ్చిన అత్యంత తీవ్రమైన ఆకస్మిక తలనొప్పి',
+  'pattern.headache.option2.label': 'మామూలు',
+  'pattern.headache.option2.value': 'ఇది మామూలుగా వచ్చే తలనొప్పి లాగా ఉంది',
+  'pattern.headache.option3.label': 'జ్వరంతో',
+  'pattern.headache.option3.value': 'తలనొప్పితో పాటు జ్వరం కూడా ఉంది',
+  'pattern.headache.option4.label': 'తెలియదు',
+  'pattern.headache.option4.value': 'నాకు ఖచ్చితంగా తెలియదు',
+  'pattern.cough.question': 'ఎన్ని రోజులుగా దగ్గు ఉంది? కఫంలో రక్తం వస్తుందా?',
+  'pattern.cough.option1.label': 'కొన్ని రోజులు',
+  'pattern.cough.option1.value': 'కొన్ని రోజులుగా దగ్గు, రక్తం లేదు',
+  'pattern.cough.option2.label': '1-2 వారాలు',
+  'pattern.cough.option2.value': '1-2 వారాలుగా దగ్గు',
+  'pattern.cough.option3.label': '2 వారాలకు పైగా',
+  'pattern.cough.option3.value': '2 వారాలకు పైగా దగ్గు',
+  'pattern.cough.option4.label': 'రక్తం వస్తుంది',
+  'pattern.cough.option4.value': 'కఫంలో రక్తం వస్తుంది',
+  'pattern.stomach_pain.question': 'నొప్పి ఎక్కడ ఉంది — పైన, కింద, ఎడమవైపు, కుడివైపు?',
+  'pattern.stomach_pain.option1.label': 'పైన మధ్యలో',
+  'pattern.stomach_pain.option1.value': 'పొట్ట పైన మధ్యలో నొప్పి',
+  'pattern.stomach_pain.option2.label': 'కింద కుడివైపు',
+  'pattern.stomach_pain.option2.value': 'పొట్ట కింద కుడివైపు నొప్పి',
+  'pattern.stomach_pain.option3.label': 'అంతటా',
+  'pattern.stomach_pain.option3.value': 'పొట్ట అంతటా నొప్పి',
+  'pattern.stomach_pain.option4.label': 'తెలియదు',
+  'pattern.stomach_pain.option4.value': 'నాకు ఎక్కడ నొప్పి ఉందో తెలియదు',
+  'pattern.diarrhea.question': 'ఈ రోజు ఎన్ని సార్లు? మలంలో రక్తం లేదా మ్యూకస్ ఉందా?',
+  'pattern.diarrhea.option1.label': '2-3 సార్లు',
+  'pattern.diarrhea.option1.value': 'ఈ రోజు 2-3 సార్లు విరేచనాలు',
+  'pattern.diarrhea.option2.label': '4-6 సార్లు',
+  'pattern.diarrhea.option2.value': 'ఈ రోజు 4-6 సార్లు విరేచనాలు',
+  'pattern.diarrhea.option3.label': '6 కంటే ఎక్కువ',
+  'pattern.diarrhea.option3.value': 'ఈ రోజు 6 కంటే ఎక్కువ సార్లు విరేచనాలు',
+  'pattern.diarrhea.option4.label': 'రక్తం వస్తుంది',
+  'pattern.diarrhea.option4.value': 'మలంలో రక్తం లేదా మ్యూకస్ వస్తుంది',
+  'pattern.period_issues.question': 'నెలసరి ఎన్ని రోజులు ఆలస్యమైంది? బరువు పెరిగిందా లేదా ముఖంపై వెంట్రుకలు లేదా మొటిమలు వచ్చాయా?',
+  'pattern.period_issues.option1.label': 'కొన్ని రోజులు ఆలస్యం',
+  'pattern.period_issues.option1.value': 'నెలసరి కొన్ని రోజులు ఆలస్యం',
+  'pattern.period_issues.option2.label': '2 వారాలకు పైగా',
+  'pattern.period_issues.option2.value': 'నెలసరి 2 వారాలకు పైగా ఆలస్యం',
+  'pattern.period_issues.option3.label': 'అక్రమం + బరువు',
+  'pattern.period_issues.option3.value': 'నెలసరి అక్రమంగా ఉంది మరియు బరువు పెరిగింది',
+  'pattern.period_issues.option4.label': 'ఎక్కువ/నొప్పి',
+  'pattern.period_issues.option4.value': 'నెలసరి చాలా ఎక్కువగా మరియు నొప్పిగా ఉంది',
+  'pattern.body_ache.question': 'జ్వరం కూడా ఉందా? నొప్పి కీళ్లలో ఉందా లేదా ఒళ్ళంతా ఉందా?',
+  'pattern.body_ache.option1.label': 'జ్వరం + నొప్పి',
+  'pattern.body_ache.option1.value': 'జ్వరంతో పాటు ఒళ్ళంతా నొప్పి',
+  'pattern.body_ache.option2.label': 'కీళ్ల నొప్పి మాత్రమే',
+  'pattern.body_ache.option2.value': 'కీళ్లలో మాత్రమే నొప్పి, జ్వరం లేదు',
+  'pattern.body_ache.option3.label': 'బలహీనత/అలసట',
+  'pattern.body_ache.option3.value': 'చాలా బలహీనంగా మరియు అలసటగా ఉంది',
+  'pattern.body_ache.option4.label': 'వ్యాయామం తర్వాత',
+  'pattern.body_ache.option4.value': 'శారీరక శ్రమ తర్వాత నొప్పి మొదలైంది',
+  'pattern.breathing.question': 'ఊపిరి ఆడకపోవడం విశ్రాంతిలో ఉందా లేక పని చేసేటప్పుడు మాత్రమే? ఆకస్మికంగా మొదలైందా?',
+  'pattern.breathing.option1.label': 'విశ్రాంతిలో',
+  'pattern.breathing.option1.value': 'ఏమీ చేయకుండానే ఊపిరి ఆడటం లేదు',
+  'pattern.breathing.option2.label': 'పని చేసేటప్పుడు',
+  'pattern.breathing.option2.value': 'నడిచేటప్పుడు లేదా మెట్లు ఎక్కేటప్పుడు మాత్రమే',
+  'pattern.breathing.option3.label': 'వ్యాయామం తర్వాత',
+  'pattern.breathing.option3.value': 'పరుగెత్తిన తర్వాత ఊపిరి ఆడదు, విశ్రాంతి తీసుకుంటే బాగవుతుంది',
+  'pattern.breathing.option4.label': 'ఆకస్మికంగా',
+  'pattern.breathing.option4.value': 'ఊపిరి ఆడకపోవడం ఆకస్మికంగా మొదలైంది',
+  'pattern.skin.question': 'దద్దు వలయాకారంగా ఉందా? మీ కుటుంబంలో ఇంకెవరికైనా ఉందా?',
+  'pattern.skin.option1.label': 'వలయాకారం',
+  'pattern.skin.option1.value': 'వలయాకార దద్దు, మధ్యలో తేటగా, చాలా దురద',
+  'pattern.skin.option2.label': 'అంతటా దురద',
+  'pattern.skin.option2.value': 'ఒళ్ళంతా దురద, రాత్రి ఎక్కువ',
+  'pattern.skin.option3.label': 'మొటిమలు',
+  'pattern.skin.option3.value': 'ముఖంపై మొటిమలు ఉన్నాయి',
+  'pattern.skin.option4.label': 'ఇతర సమస్య',
+  'pattern.skin.option4.value': 'ఇంకేదైనా చర్మ సమస్య ఉంది',
+  'pattern.cold_flu.question': 'ఎన్ని రోజులుగా ఉంది? జ్వరం లేదా ఒళ్ళు నొప్పులు కూడా ఉన్నాయా?',
+  'pattern.cold_flu.option1.label': '1-3 రోజులు',
+  'pattern.cold_flu.option1.value': '1-3 రోజులుగా జలుబు, ముక్కు కారడం మాత్రమే',
+  'pattern.cold_flu.option2.label': 'జ్వరంతో',
+  'pattern.cold_flu.option2.value': 'జలుబుతో పాటు జ్వరం మరియు ఒళ్ళు నొప్పులు',
+  'pattern.cold_flu.option3.label': 'వారం కంటే ఎక్కువ',
+  'pattern.cold_flu.option3.value': 'వారం కంటే ఎక్కువ రోజులుగా జలుబు',
+  'pattern.cold_flu.option4.label': 'పెరుగుతోంది',
+  'pattern.cold_flu.option4.value': 'జలుబు మొదట తేలికగా ఉంది కానీ ఇప్పుడు పెరుగుతోంది',
+
+  // ─── Period health ───
+  'period.headerTitle': 'ఋతు ఆరోగ్యం',
+  'period.headerTitleAlly': 'ఋతు ఆరోగ్య అవగాహన',
+  'period.headerSubtitle': 'AI-ఆధారిత ఋతు ఆరోగ్యం',
+  'period.headerSubtitleAlly': 'మీ జీవితంలోని మహిళలకు మద్దతు ఇవ్వండి',
+  'period.history': 'చరిత్ర',
+  'period.dashboard': 'డాష్‌బోర్డ్',
+  'period.signInTitle': 'ఋతు ఆరోగ్యాన్ని చూడటానికి సైన్ ఇన్ చేయండి',
+  'period.signInDesc': 'మీ ఆరోగ్య డేటా ప్రైవేట్ మరియు మీకు మాత్రమే కనిపిస్తుంది.',
+  'period.backToSehat': 'సెహత్‌కు తిరిగి వెళ్ళండి',
+  'period.retry': 'మళ్ళీ ప్రయత్నించండి',
+  'period.allyHeroTitle': 'ఆమెకు అండగా ఉండండి',
+  'period.allyHeroDesc': 'భారతదేశంలో 71% యుక్తవయస్కులైన అమ్మాయిలకు తొలి ఋతుస్రావానికి ముందు దాని గురించి తెలియదు. మీరు దీన్ని మార్చవచ్చు — నేర్చుకుని, అర్థం చేసుకుని, మద్దతు ఇవ్వడం ద్వారా.',
+  'period.eduCard1Title': 'ఋతుస్రావం అంటే ఏమిటి?',
+  'period.eduCard1Body': 'ఋతుస్రావం (పీరియడ్స్) అనేది గర్భాశయం దాని లైనింగ్‌ను విడిచిపెట్టే సహజ నెలవారీ ప్రక్రియ. ఇది సాధారణంగా 3-7 రోజులు ఉంటుంది, ప్రతి 21-35 రోజులకు జరుగుతుంది. ఇది వ్యాధి, బలహీనత లేదా అపవిత్రత కాదు — ఇది మంచి ఆరోగ్య సంకేతం.',
+  'period.eduCard2Title': 'మీరు ఎలా సహాయం చేయగలరు?',
+  'period.eduCard2Body': 'సిగ్గుపడకుండా శానిటరీ ఉత్పత్తులు కొనండి. నొప్పికి వేడి నీళ్ళ సీసా ఇవ్వండి. జోకులు వేయకండి. అవసరమైనప్పుడు స్థలం ఇవ్వండి. "నేను ఎలా సహాయం చేయగలను?" అని అడగండి.',
+  'period.eduCard3Title': 'నేర్చుకోవలసిన నిజాలు',
+  'period.eduCard3Body': 'పీరియడ్స్‌లో మహిళలు వంట చేయవచ్చు, గుడికి వెళ్ళవచ్చు, ఊరగాయ ముట్టుకోవచ్చు — ఈ ఆంక్షలకు శాస్త్రీయ ఆధారం లేదు. ఋతు రక్తం "అపవిత్రం" కాదు — ఇది మీ నరాల్లో ప్రవహించే అదే రక్తం.',
+  'period.eduCard4Title': 'వైద్యుడి దగ్గరకు ఎప్పుడు వెళ్ళాలి',
+  'period.eduCard4Body': 'చాలా ఎక్కువ రక్తస్రావం (ప్రతి 1-2 గంటలకు ప్యాడ్ మార్చడం), రోజువారీ పనులు చేయలేనంత నొప్పి, 3+ నెలలు పీరియడ్స్ రాకపోవడం, లేదా మధ్యలో స్పాటింగ్ — గైనకాలజిస్ట్‌ను సంప్రదించమని చెప్పండి.',
+  'period.quickFacts': 'ముఖ్యమైన విషయాలు',
+  'period.fact1': 'పీరియడ్స్ సాధారణంగా 3-7 రోజులు ఉంటాయి, ప్రతి 21-35 రోజులకు వస్తాయి',
+  'period.fact2': 'నొప్పులు, మూడ్ మార్పులు మరియు అలసట సహజం — "డ్రామా" కాదు',
+  'period.fact3': 'ఒక మహిళ తన జీవితకాలంలో ~10,000-15,000 ప్యాడ్‌లు వాడుతుంది — పీరియడ్ ఉత్పత్తులు అవసరం, విలాసం కాదు',
+  'period.fact4': 'PCOS భారతదేశంలో ప్రతి 5 మంది మహిళల్లో 1 మందిని ప్రభావితం చేస్తుంది — దీనికి అవగాహన కావాలి, సిగ్గు కాదు',
+  'period.fact5': 'పీరియడ్స్ గురించి బహిరంగంగా మాట్లాడటం తదుపరి తరాన్ని ఆరోగ్యంగా పెరగడానికి సహాయపడుతుంది',
+  'period.ctaShare': 'ఈ పేజీని అవసరమైన వారితో షేర్ చేయండి',
+  'period.ctaBreak': 'సంకోచాన్ని బద్దలు కొట్టడం ఒక సంభాషణతో మొదలవుతుంది. మీరు ఇప్పుడే మొదలు పెట్టారు.',
+  'period.cycleOverview': 'చక్రం అవలోకనం',
+  'period.cyclesLogged': '{count} చక్రాలు నమోదు',
+  'period.avgCycleDays': 'సగటు చక్రం (రోజులు)',
+  'period.avgPeriodDays': 'సగటు పీరియడ్ (రోజులు)',
+  'period.daysLate': 'రోజులు ఆలస్యం',
+  'period.daysUntilNext': 'తదుపరి వరకు రోజులు',
+  'period.nextPeriod': 'తదుపరి పీరియడ్',
+  'period.logPeriod': 'పీరియడ్ నమోదు చేయండి',
+  'period.logYourPeriod': 'మీ పీరియడ్ నమోదు చేయండి',
+  'period.startDate': 'ప్రారంభ తేదీ',
+  'period.periodLength': 'పీరియడ్ కాలం (రోజులు)',
+  'period.flowLevel': 'ప్రవాహ స్థాయి',
+  'period.flowLight': 'తక్కువ',
+  'period.flowMedium': 'మధ్యస్థం',
+  'period.flowHeavy': 'ఎక్కువ',
+  'period.symptoms': 'లక్షణాలు',
+  'period.mood': 'మూడ్',
+  'period.notesOpt': 'నోట్స్ (ఐచ్ఛికం)',
+  'period.save': 'సేవ్ చేయండి',
+  'period.saving': 'సేవ్ అవుతోంది...',
+  'period.cycleHistory': 'చక్ర చరిత్ర',
+  'period.days': '{count} రోజులు',
+  'period.flow': 'ప్రవాహం',
+  'period.dayCycle': '{count} రోజు చక్రం',
+  'period.emptyTitle': 'మీ చక్రాన్ని ట్రాక్ చేయడం ప్రారంభించండి',
+  'period.emptyDesc': 'మీ పీరియడ్‌లను నమోదు చేయండి — వ్యక్తిగత అంచనాలు, ఆరోగ్య సమాచారం మరియు రిమైండర్‌లు పొందండి.',
+  'period.askTitle': 'ఋతు ఆరోగ్యం గురించి అడగండి',
+  'period.askTitleAlly': 'ఋతు ఆరోగ్యం గురించి అడగండి',
+  'period.askDesc': 'పీరియడ్స్, చక్ర ఆరోగ్యం, పరిశుభ్రత, PCOS, లేదా ఋతు ఆరోగ్యం గురించి ఏదైనా అడగండి — మీ భాషలో.',
+  'period.askDescAlly': 'ఋతు ఆరోగ్యం గురించి ఏదైనా అడగండి — పీరియడ్స్ అర్థం చేసుకోండి, అపోహలు తొలగించండి, మద్దతు ఇవ్వడం నేర్చుకోండి.',
+  'period.askPlaceholder': 'మీ ప్రశ్న అడగండి...',
+  'period.askBtn': 'అడగండి',
+  'period.thinking': 'ఆలోచిస్తోంది...',
+  'period.aiDisclaimer': 'AI సమాధానం — వైద్య సలహా కోసం వైద్యుడిని సంప్రదించండి',
+  'period.sCramps': 'నొప్పులు',
+  'period.sHeadache': 'తలనొప్పి',
+  'period.sBackPain': 'నడుము నొప్పి',
+  'period.sBloating': 'ఉబ్బరం',
+  'period.sFatigue': 'అలసట',
+  'period.sMoodSwings': 'మూడ్ మార్పులు',
+  'period.sAcne': 'మొటిమలు',
+  'period.sBreast': 'రొమ్ము నొప్పి',
+  'period.sNausea': 'వాంతి భావన',
+  'period.sCravings': 'ఆహార కోరిక',
+  'period.mHappy': 'సంతోషం',
+  'period.mCalm': 'ప్రశాంతం',
+  'period.mAnxious': 'ఆందోళన',
+  'period.mSad': 'దుఃఖం',
+  'period.mIrritable': 'చిరాకు',
+  'period.mEnergetic': 'శక్తివంతం',
+  'period.mTired': 'అలసట',
+  'period.footerAlly': 'జ్ఞానమే శక్తి. ఋతు ఆరోగ్యంపై మౌనాన్ని బద్దలు కొట్టండి.',
+  'period.deleteConfirm': 'ఈ చక్రాన్ని తొలగించాలనుకుంటున్నారా?',
+  'period.footerTracker': 'మీ పీరియడ్ డేటా ప్రైవేట్. ఇది వైద్య నిర్ధారణ కాదు.',
+  'period.allyQuestion1': 'పీరియడ్స్ గురించి నాకు ఏమి తెలియాలి?',
+  'period.allyQuestion2': 'నా సోదరి/భార్యకు నేను ఎలా సహాయం చేయగలను?',
+  'period.allyQuestion3': 'పీరియడ్స్ గురించి అపోహలు ఏమిటి?',
+  'period.selfQuestion1': 'పీరియడ్ నొప్పిని సహజంగా తగ్గించడం ఎలా',
+  'period.selfQuestion2': 'PCOS అంటే ఏమిటి?',
+  'period.selfQuestion3': 'పీరియడ్ సమయంలో ఏమి తినాలి',
+
+  // ─── Follow-up check reminders ───
+  'followup.reminder': 'సెహత్ చెక్-ఇన్: ఇప్పుడు మీకు ఎలా ఉంది — మునుపటి కంటే మెరుగ్గా, అలాగే, లేదా మరింత అధ్వాన్నంగా?',
+  'followup.reminderLink': 'ఇక్కడ సమాధానం ఇవ్వండి: {url}',
+  'followup.emailSubject': 'మీకు ఎలా ఉంది? — సెహత్ చెక్-ఇన్',
+
+  // ─── Follow-up inbox ───
+  'followup.pageTitle': 'చెక్-ఇన్‌లు',
+  'followup.sectionDue': 'ఇప్పుడు చేయాల్సినవి',
+  'followup.sectionUpcoming': 'రాబోయేవి',
+  'followup.sectionPast': 'గతంలోనివి',
+  'followup.checkAt': '{date} న చెక్-ఇన్',
+  'followup.escalation': 'ఇలా ఉంటే వెంటనే చికిత్స పొందండి: {criteria}',
+  'followup.question': 'ఇప్పుడు మీకు ఎలా ఉంది?',
+  'followup.better': 'మెరుగ్గా ఉంది',
+  'followup.same': 'అలాగే ఉంది',
+  'followup.worse': 'అధ్వాన్నంగా ఉంది',
+  'followup.dismiss': 'తీసివేయి',
+  'followup.continue': 'సంభాషణ కొనసాగించండి',
+  'followup.statusCompleted': 'సమాధానం ఇచ్చారు',
+  'followup.statusEscalated': 'అధ్వాన్నమైంది',
+  'followup.statusDismissed': 'తీసివేయబడింది',
+  'followup.empty': 'ఇంకా చెక్-ఇన్‌లు లేవు. ఏదైనా లక్షణం గురించి తర్వాత మీ నుండి తెలుసుకోవాలంటే సెహత్ ఒకటి షెడ్యూల్ చేస్తుంది.',
+  'followup.signIn': 'మీ చెక్-ఇన్‌లు చూడటానికి సైన్ ఇన్ చేయండి',
+  'followup.loadError': 'మీ చెక్-ఇన్‌లను లోడ్ చేయలేకపోయాం',
+  'followup.answerError': 'మీ సమాధానాన్ని సేవ్ చేయలేకపోయాం. దయచేసి మళ్లీ ప్రయత్నించండి.',
+  'followup.checkInBanner': 'ఫాలో-అప్ చెక్-ఇన్: {reason}',
+
+  // ─── Emergency guide ───
+  'emergency.title': 'అత్యవసరం',
+  'emergency.intro': 'ఇది అత్యవసర పరిస్థితి. ఇప్పుడే {number} కి కాల్ చేయండి — ఎరుపు బటన్ నొక్కండి. సహాయం వచ్చే వరకు నేను మీకు ఒక్కో అడుగు చెబుతాను.',
+  'emergency.call': 'ఇప్పుడే {number} కి కాల్ చేయండి',
+  'emergency.ambulance': 'అంబులెన్స్: {number}',
+  'emergency.stepOf': 'అడుగు {current} / {total}',
+  'emergency.next': 'తర్వాత',
+  'emergency.repeat': 'మళ్ళీ',
+  'emergency.back': 'వెనక్కి',
+  'emergency.sayNext': 'అయిపోయాక "అయింది" అని చెప్పండి, లేదా తర్వాత నొక్కండి',
+  'emergency.sayBreathing': '"ఊపిరి ఉంది" లేదా "ఊపిరి లేదు" అని చెప్పండి, లేదా ఒక బటన్ నొక్కండి',
+  'emergency.breathing': 'ఊపిరి ఉంది',
+  'emergency.startCpr': 'ఊపిరి లేదా? CPR మొదలుపెట్టండి',
+  'emergency.pushWithBeat': 'బీట్‌తో పాటు నొక్కండి',
+  'emergency.pauseBeat': 'బీట్ ఆపండి',
+  'emergency.resumeBeat': 'బీట్ మళ్ళీ మొదలుపెట్టండి',
+  'emergency.fromAssessment': 'మీ అంచనా నుండి',
+  'emergency.finished': 'ఇవే అన్ని అడుగులు. సహాయం వచ్చే వరకు వారితోనే ఉండి వారి శ్వాసను గమనిస్తూ ఉండండి.',
+  'emergency.close': 'గైడ్ మూసివేయండి',
+  'emergency.cpr.title': 'సీపీఆర్ (CPR)',
+  'emergency.cpr.check': 'వారి భుజాలు తట్టి గట్టిగా పిలవండి. వారు సాధారణంగా శ్వాస తీసుకుంటున్నారా? "ఊపిరి ఉంది" లేదా "ఊపిరి లేదు" అని చెప్పండి.',
+  'emergency.cpr.position': 'వారిని గట్టి నేలపై వెల్లకిలా పడుకోబెట్టి, వారి ఛాతీ పక్కన మోకాళ్ళపై కూర్చోండి.',
+  'emergency.cpr.hands': 'ఒక అరచేతి కింది భాగాన్ని ఛాతీ మధ్యలో ఉంచి, మరో చేతిని దానిపై ఉంచండి. చేతులు నిటారుగా ఉంచండి.',
+  'emergency.cpr.compress': 'ప్రతి బీట్‌కు సుమారు 5 సెంటీమీటర్లు గట్టిగా, వేగంగా నొక్కండి. 30 వరకు లెక్కపెట్టి మళ్ళీ మొదలుపెట్టండి. సహాయం వచ్చే వరకు ఆపకండి.',
+  'emergency.recovery.title': 'రికవరీ పొజిషన్',
+  'emergency.recovery.side': 'వారి పక్కన మోకాళ్లపై కూర్చోండి. దూరంగా ఉన్న మోకాలిని మడిచి, దాన్ని లాగి వారిని మీ వైపుకు పక్కకు తిప్పండి.',
+  'emergency.recovery.airway': 'తలను మెల్లగా వెనక్కి వంచి నోరు కిందికి ఉండేలా చూడండి, అప్పుడు శ్వాస ఆడుతుంది, నోటిలో ఉన్నది బయటకు పోతుంది.',
+  'emergency.recovery.watch': 'వారితోనే ఉండి వారి శ్వాసను గమనిస్తూ ఉండండి. శ్వాస ఆగిపోతే "ఊపిరి లేదు" అని చెప్పండి లేదా CPR మొదలుపెట్టండి నొక్కండి.',
+  'emergency.choking.title': 'గొంతులో అడ్డుపడటం',
+  'emergency.choking.cough': 'వారు దగ్గగలిగితే లేదా మాట్లాడగలిగితే, దగ్గుతూనే ఉండనివ్వండి. ఇప్పుడే వీపుపై కొట్టకండి.',
+  'emergency.choking.backBlows': 'వారు శ్వాస తీసుకోలేకపోతే లేదా మాట్లాడలేకపోతే, ముందుకు వంచి, అరచేతి కింది భాగంతో భుజాల మధ్య 5 సార్లు గట్టిగా కొట్టండి.',
+  'emergency.choking.thrusts': 'తర్వాత వారి వెనుక నిలబడి, బొడ్డుకు కొంచెం పైన పిడికిలి ఉంచి, 5 సార్లు లోపలికి పైకి వేగంగా లాగండి. వీపు దెబ్బలు, పొట్ట నొక్కడం మార్చి మార్చి చేస్తూ ఉండండి.',
+  'emergency.choking.unconscious': 'వారు స్పృహ కోల్పోతే, వెల్లకిలా పడుకోబెట్టి CPR మొదలుపెట్టండి.',
+  'emergency.snakebite.title': 'పాము కాటు',
+  'emergency.snakebite.calm': 'వ్యక్తిని ప్రశాంతంగా, కదలకుండా పడుకోబెట్టి ఉంచండి. కదిలితే విషం వేగంగా వ్యాపిస్తుంది.',
+  'emergency.snakebite.immobilize': 'కాటు పడిన చేయి లేదా కాలును, గుండె కంటే కిందగా, కట్టు కట్టినట్టు కదలకుండా ఉంచండి. ఉంగరాలు, గాజులు, గడియారం, బిగుతైన బట్టలు తీసేయండి.',
+  'emergency.snakebite.dont': 'కాటు చోట కోయకండి, పీల్చకండి, గట్టిగా కట్టు కట్టకండి, దానిపై మంచు లేదా మూలికలు పెట్టకండి.',
+  'emergency.snakebite.transport': 'విష విరుగుడు ఉన్న ఆసుపత్రికి వారిని మోసుకెళ్ళండి. నడవనివ్వకండి. కాటు సమయాన్ని రాసుకోండి.',
+  'emergency.stroke.title': 'స్ట్రోక్ — FAST పరీక్ష',
+  'emergency.stroke.face': 'ముఖం (F): నవ్వమని చెప్పండి. ముఖం ఒక వైపు జారిపోయిందా?',
+  'emergency.stroke.arms': 'చేతులు (A): రెండు చేతులూ పైకి ఎత్తమని చెప్పండి. ఒక చేయి కిందికి జారుతోందా?',
+  'emergency.stroke.speech': 'మాట (S): ఒక సులభమైన వాక్యం తిరిగి చెప్పమనండి. మాట తడబడుతోందా లేదా వింతగా ఉందా?',
+  'emergency.stroke.time': 'సమయం (T): వీటిలో ఏదైనా కనిపిస్తే, మొదలైన సమయాన్ని రాసుకుని, వెంటనే ఆసుపత్రికి తీసుకెళ్ళండి. ఆహారం, నీళ్ళు, మందులు ఇవ్వకండి.',
+  'emergency.seizure.title': 'ఫిట్స్ (మూర్ఛ)',
+  'emergency.seizure.clear': 'గట్టి, పదునైన వస్తువులను వారి నుండి దూరంగా తీయండి. వారిని బలవంతంగా పట్టుకోకండి.',
+  'emergency.seizure.head': 'వారి తల కింద ఏదైనా మెత్తనిది ఉంచండి. నోట్లో ఏమీ పెట్టకండి — చెంచా కాదు, నీళ్ళు కాదు.',
+  'emergency.seizure.side': 'వణుకు ఆగిన తర్వాత, వారిని ఒక పక్కకు తిప్పి శ్వాస తీసుకుంటున్నారో లేదో చూడండి.',
+  'emergency.seizure.time': 'ఎంతసేపు ఉందో గమనించండి. 5 నిమిషాల కంటే ఎక్కువ వణుకు ఉంటే అది అత్యవసరం.',
+  'emergency.bleeding.title': 'తీవ్రమైన రక్తస్రావం',
+  'emergency.bleeding.press': 'శుభ్రమైన గుడ్డతో గాయంపై గట్టిగా నొక్కండి. చూడటానికి గుడ్డ ఎత్తకండి.',
+  'emergency.bleeding.more': 'రక్తం గుడ్డలోంచి బయటకు వస్తే, పైన మరో గుడ్డ పెట్టి నొక్కుతూనే ఉండండి.',
+  'emergency.bleeding.raise': 'వారిని పడుకోబెట్టి ఉంచండి, వీలైతే గాయపడిన భాగాన్ని గుండె కంటే పైకి ఎత్తండి.',
+  'emergency.chest.title': 'ఛాతీ నొప్పి',
+  'emergency.chest.rest': 'దేనికైనా ఆనుకుని కూర్చుని విశ్రాంతి తీసుకోవడానికి సహాయం చేయండి. బిగుతైన బట్టలు వదులు చేయండి.',
+  'emergency.chest.nothing': 'వారిని తిరగనివ్వకండి. తినడానికి, తాగడానికి ఏమీ ఇవ్వకండి, నొప్పి ఎప్పుడు మొదలైందో రాసుకోండి.',
+  'emergency.chest.watch': 'వారితోనే ఉండండి. వారు కుప్పకూలి సాధారణంగా శ్వాస తీసుకోవడం ఆగిపోతే, CPR బటన్ నొక్కి CPR మొదలుపెట్టండి.',
+  'emergency.general.title': 'ప్రథమ చికిత్స',
+  'emergency.general.safe': 'మీరు, ఆ వ్యక్తి సురక్షితంగా ఉన్నారని నిర్ధారించుకోండి. వారిని పడుకోబెట్టి కదలకుండా ఉంచండి.',
+  'emergency.general.breathing': 'వారు శ్వాస తీసుకుంటున్నారో లేదో చూడండి. లేకపోతే, CPR బటన్ నొక్కి CPR మొదలుపెట్టండి.',
+  'emergency.general.wait': 'వారితోనే ఉండి వెచ్చగా ఉంచండి. సహాయం వచ్చే వరకు తినడానికి, తాగడానికి ఏమీ ఇవ్వకండి.',
+};
@@ -0,0 +1,326 @@
+import type { Catalog } from '../i18n';
+
+/** Urdu */
+export const ur: Catalog = {
+  // ─── Triage ───
+  'triage.nearbyFacilities': 'یہاں آپ کے قریب کے ہسپتال اور کلینک ہیں۔ اگر کوئی صحت کا مسئلہ ہے تو بتائیں۔',
+  'triage.languageSuggested': 'لگتا ہے آپ {language} میں لکھ رہے ہیں — اسی میں جواب کے لیے ٹیپ کریں',
+
+  // ─── Welcome ───
+  'welcome.greeting': 'السلام علیکم! آپ کیسے ہیں؟',
+  'welcome.greetingNamed': 'السلام علیکم، {name}!',
+  'welcome.subtitle': 'اپنی علامات بتائیں — صحیح علاج تک پہنچنے میں ہم آپ کی مدد کریں گے۔',
+  'welcome.quickStart1': 'سر درد',
+  'welcome.quickStart2': 'بخار اور کھانسی',
+  'welcome.quickStart3': 'پیٹ درد',
+
+  // ─── Post-result follow-ups ───
+  'postResult.tellMore': 'مزید بتائیں',
+  'postResult.feelingNow': 'اب کیسا لگ رہا ہے',
+  'postResult.precautions': 'مزید احتیاط',
+
+  // ─── Report upload ───
+  'upload.button': 'رپورٹ اپلوڈ کریں',
+  'upload.analyzing': 'تجزیہ ہو رہا ہے...',
+  'upload.medicationsAdded': { one: 'آپ کی دواؤں کی فہرست میں {count} دوا شامل کی گئی', other: 'آپ کی دواؤں کی فہرست میں {count} دوائیں شامل کی گئیں' },
+  'upload.labResultsSaved': { one: '{count} لیب ویلیو رپورٹس میں آپ کے رجحان میں محفوظ کی گئی', other: '{count} لیب ویلیوز رپورٹس میں آپ کے رجحان میں محفوظ کی گئیں' },
+  'upload.setLinked': '{count} فائلوں کا ایک ساتھ تجزیہ کیا گیا — آپ اس چیٹ میں ان کے بارے میں پوچھ سکتے ہیں',
+  'upload.tooManyFiles': 'ایک وقت میں زیادہ سے زیادہ {max} فائلیں منتخب کریں۔',
+  'upload.tooLarge': 'فائلیں بہت بڑی ہیں — ہر فائل {fileMb}MB تک اور کل {setMb}MB تک۔',
+  'upload.failed': 'دستاویز کا تجزیہ نہیں ہو سکا۔ براہ کرم دوبارہ کوشش کریں۔',
+
+  // ─── Sign-up prompt ───
+  'signUp.title': 'اپنی صحت ٹریک کریں',
+  'signUp.subtitle': 'مفت اکاؤنٹ بنائیں — اپنی صحت کی پروفائل محفوظ کریں۔',
+  'signUp.cta': 'سائن اپ کریں',
+  'signUp.later': 'بعد میں',
+  'signUp.profile': 'پروفائل مکمل کریں',
+
+  // ─── Voice mode ───
+  'voice.idle': 'بولنے کے لیے ٹیپ کریں',
+  'voice.listening': 'سن رہے ہیں...',
+  'voice.transcribing': 'سمجھ رہے ہیں...',
+  'voice.thinking': 'سوچ رہے ہیں...',
+  'voice.speaking': 'بول رہے ہیں...',
+  'voice.notUnderstood': 'سمجھ نہیں آیا۔ دوبارہ بولیں یا ٹائپ کریں۔',
+
+  // ─── Voice acknowledgments — ~3 seconds of speech each ───
+  'voice.ack.generic': 'میں سن رہا ہوں۔ آپ کی علامات دیکھتا ہوں۔',
+  'voice.ack.head': 'آپ کے سر میں درد ہو رہا ہے۔ میں اسے دیکھتا ہوں۔',
+  'voice.ack.fever': 'آپ کو بخار ہے۔ میں اس کا جائزہ لیتا ہوں۔',
+  'voice.ack.chest': 'آپ کے سینے میں تکلیف ہے۔ میں فوراً دیکھتا ہوں۔',
+  'voice.ack.stomach': 'آپ کے پیٹ میں تکلیف ہے۔ میں اسے دیکھتا ہوں۔',
+  'voice.ack.breathing': 'آپ کو سانس کی تکلیف ہے۔ میں دھیان سے دیکھتا ہوں۔',
+  'voice.ack.pain': 'آپ کو درد ہو رہا ہے۔ میں آپ کی علامات دیکھتا ہوں۔',
+  'voice.ack.child': 'بچے کی بات ہے۔ میں دھیان سے دیکھتا ہوں۔',
+
+  // ─── Symptom fast-path follow-ups ───
+  'pattern.fever.question': 'کتنے دن سے بخار ہے؟',
+  'pattern.fever.option1.label': 'آج سے',
+  'pattern.fever.option1.value': 'بخار آج سے ہے',
+  'pattern.fever.option2.label': '1-2 دن',
+  'pattern.fever.option2.value': '1-2 دن سے بخار ہے',
+  'pattern.fever.option3.label': '3-5 دن',
+  'pattern.fever.option3.value': '3-5 دن سے بخار ہے',
+  'pattern.fever.option4.label': '5 دن سے زیادہ',
+  'pattern.fever.option4.value': '5 دن سے زیادہ بخار ہے',
+  'pattern.headache.question': 'کیا یہ اب تک کا سب سے شدید سر درد ہے، یا پہلے جیسا ہی ہے؟',
+  'pattern.headache.option1.label': 'سب سے شدید',
+  'pattern.headache.option1.value': 'یہ اب تک کا سب سے شدید اور اچانک سر درد ہے',
+  'pattern.headache.option2.label': 'پہلے جیسا',
+  'pattern.headache.option2.value': 'یہ پہلے بھی ہوتا رہا ہے، ویسا ہی ہے',
+  'pattern.headache.option3.label': 'بخار بھی ہے',
+  'pattern.headache.option3.value': 'سر درد کے ساتھ بخار بھی ہے',
+  'pattern.headache.option4.label': 'پتہ نہیں',
+  'pattern.headache.option4.value': 'مجھے پکا نہیں پتہ',
+  'pattern.cough.question': 'کتنے دن سے کھانسی ہے؟ کیا بلغم میں خون آ رہا ہے؟',
+  'pattern.cough.option1.label': 'کچھ دن، خون نہیں',
+  'pattern.cough.option1.value': 'کچھ دن سے کھانسی ہے، بلغم میں خون نہیں',
+  'pattern.cough.option2.label': '1-2 ہفتے',
+  'pattern.cough.option2.value': '1-2 ہفتے سے کھانسی ہے',
+  'pattern.cough.option3.label': '2 ہفتے سے زیادہ',
+  'pattern.cough.option3.value': '2 ہفتے سے زیادہ کھانسی ہے',
+  'pattern.cough.option4.label': 'خون آ رہا ہے',
+  'pattern.cough.option4.value': 'بلغم میں خون آ رہا ہے',
+  'pattern.stomach_pain.question': 'درد ٹھیک کہاں ہے — اوپر، نیچے، بائیں طرف یا دائیں طرف؟',
+  'pattern.stomach_pain.option1.label': 'اوپر درمیان',
+  'pattern.stomach_pain.option1.value': 'پیٹ کے اوپری درمیانی حصے میں درد',
+  'pattern.stomach_pain.option2.label': 'نیچے دائیں',
+  'pattern.stomach_pain.option2.value': 'پیٹ کے نچلے دائیں حصے میں درد',
+  'pattern.stomach_pain.option3.label': 'پورے پیٹ میں',
+  'pattern.stomach_pain.option3.value': 'پورے پیٹ میں درد',
+  'pattern.stomach_pain.option4.label': 'پتہ نہیں',
+  'pattern.stomach_pain.option4.value': 'درد کہاں ہے یہ ٹھیک سے نہیں بتا سکتا',
+  'pattern.diarrhea.question': 'آج کتنی بار ہوئے؟ کیا پاخانے میں خون یا آنو ہے؟',
+  'pattern.diarrhea.option1.label': '2-3 بار',
+  'pattern.diarrhea.option1.value': 'آج 2-3 بار دست ہوئے',
+  'pattern.diarrhea.option2.label': '4-6 بار',
+  'pattern.diarrhea.option2.value': 'آج 4-6 بار دست ہوئے',
+  'pattern.diarrhea.option3.label': '6 سے زیادہ',
+  'pattern.diarrhea.option3.value': 'آج 6 سے زیادہ بار دست ہوئے',
+  'pattern.diarrhea.option4.label': 'خون آ رہا ہے',
+  'pattern.diarrhea.option4.value': 'پاخانے میں خون یا آنو ہے',
+  'pattern.period_issues.question': 'ماہواری کتنے دن سے لیٹ ہے؟ کیا وزن بڑھا ہے یا چہرے پر زیادہ بال یا مہاسے ہیں؟',
+  'pattern.period_issues.option1.label': 'کچھ دن لیٹ',
+  'pattern.period_issues.option1.value': 'ماہواری کچھ دن لیٹ ہے',
+  'pattern.period_issues.option2.label': '2 ہفتے سے زیادہ',
+  'pattern.period_issues.option2.value': 'ماہواری 2 ہفتے سے زیادہ لیٹ ہے',
+  'pattern.period_issues.option3.label': 'بے قاعدہ + وزن',
+  'pattern.period_issues.option3.value': 'ماہواری بے قاعدہ ہے اور وزن بڑھ گیا ہے',
+  'pattern.period_issues.option4.label': 'زیادہ/درد',
+  'pattern.period_issues.option4.value': 'ماہواری بہت زیادہ اور دردناک ہے',
+  'pattern.body_ache.question': 'کیا بخار بھی ہے؟ درد جوڑوں میں ہے یا پورے جسم میں؟',
+  'pattern.body_ache.option1.label': 'بخار + بدن درد',
+  'pattern.body_ache.option1.value': 'بخار کے ساتھ پورے جسم میں درد ہے',
+  'pattern.body_ache.option2.label': 'صرف جوڑوں میں',
+  'pattern.body_ache.option2.value': 'درد زیادہ تر جوڑوں میں ہے، بخار نہیں',
+  'pattern.body_ache.option3.label': 'کمزوری/تھکاوٹ',
+  'pattern.body_ache.option3.value': 'بہت کمزوری اور تھکاوٹ ہے، کوئی خاص درد نہیں',
+  'pattern.body_ache.option4.label': 'ورزش کے بعد',
+  'pattern.body_ache.option4.value': 'ورزش یا محنت کے بعد جسم میں درد شروع ہوا',
+  'pattern.breathing.question': 'کیا آرام کرتے وقت بھی سانس پھولتی ہے یا صرف کام کرتے وقت؟ کیا یہ اچانک شروع ہوا؟',
+  'pattern.breathing.option1.label': 'آرام میں بھی',
+  'pattern.breathing.option1.value': 'آرام کرتے وقت بھی سانس پھولتی ہے',
+  'pattern.breathing.option2.label': 'کام کرتے وقت',
+  'pattern.breathing.option2.value': 'صرف چلنے یا سیڑھیاں چڑھنے پر سانس پھولتی ہے',
+  'pattern.breathing.option3.label': 'ورزش کے بعد',
+  'pattern.breathing.option3.value': 'دوڑنے یا ورزش کے بعد سانس پھولتی ہے، آرام سے ٹھیک ہو جاتی ہے',
+  'pattern.breathing.option4.label': 'اچانک شروع',
+  'pattern.breathing.option4.value': 'سانس کی تکلیف اچانک شروع ہوئی',
+  'pattern.skin.question': 'کیا دانے گول چھلے جیسے ہیں؟ کیا گھر میں کسی اور کو بھی ہے؟',
+  'pattern.skin.option1.label': 'گول دانے',
+  'pattern.skin.option1.value': 'دانے گول چھلے جیسے ہیں، بیچ سے صاف، بہت خارش',
+  'pattern.skin.option2.label': 'پورے جسم پر خارش',
+  'pattern.skin.option2.value': 'پورے جسم پر خارش، رات کو زیادہ',
+  'pattern.skin.option3.label': 'مہاسے',
+  'pattern.skin.option3.value': 'چہرے پر مہاسے ہیں',
+  'pattern.skin.option4.label': 'کوئی اور مسئلہ',
+  'pattern.skin.option4.value': 'جلد کا کوئی اور مسئلہ ہے',
+  'pattern.cold_flu.question': 'کتنے دن سے ہے؟ کیا بخار یا جسم درد بھی ہے؟',
+  'pattern.cold_flu.option1.label': '1-3 دن، ہلکا',
+  'pattern.cold_flu.option1.value': '1-3 دن سے زکام، بس ناک بہہ رہی ہے',
+  'pattern.cold_flu.option2.label': 'بخار کے ساتھ',
+  'pattern.cold_flu.option2.value': 'زکام کے ساتھ بخار اور جسم درد',
+  'pattern.cold_flu.option3.label': 'ایک ہفتے سے زیادہ',
+  'pattern.cold_flu.option3.value': 'ایک ہفتے سے زیادہ زکام',
+  'pattern.cold_flu.option4.label': 'بڑھ رہا ہے',
+  'pattern.cold_flu.option4.value': 'زکام پہلے ہلکا تھا لیکن اب بڑھ رہا ہے',
+
+  // ─── Period health ───
+  'period.headerTitle': 'ماہواری کی صحت',
+  'period.headerTitleAlly': 'ماہواری کی صحت سے آگاہی',
+  'period.headerSubtitle': 'AI سے چلنے والی ماہواری کی صحت',
+  'period.headerSubtitleAlly': 'اپنی زندگی کی خواتین کا ساتھ دیں',
+  'period.history': 'تاریخچہ',
+  'period.dashboard': 'ڈیش بورڈ',
+  'period.signInTitle': 'ماہواری کی صحت دیکھنے کے لیے سائن ان کریں',
+  'period.signInDesc': 'آپ کا صحت کا ڈیٹا نجی ہے اور صرف آپ کو نظر آتا ہے۔',
+  'period.backToSehat': 'Sehat پر واپس جائیں',
+  'period.retry': 'دوبارہ کوشش کریں',
+  'period.allyHeroTitle': 'اس کا ساتھ دیں',
+  'period.allyHeroDesc': 'بھارت میں 71% نوعمر لڑکیوں کو پہلی ماہواری سے پہلے اس کے بارے میں معلوم نہیں ہوتا۔ آپ یہ بدل سکتے ہیں — سیکھ کر، سمجھ کر اور اپنے آس پاس کی خواتین کا ساتھ دے کر۔',
+  'period.eduCard1Title': 'ماہواری کیا ہے؟',
+  'period.eduCard1Body': 'ماہواری (پیریڈ) ایک قدرتی ماہانہ عمل ہے جس میں بچہ دانی اپنی اندرونی تہہ خارج کرتی ہے۔ یہ عام طور پر 3-7 دن رہتی ہے اور ہر 21-35 دن بعد آتی ہے۔ یہ کوئی بیماری، کمزوری یا ناپاکی نہیں — یہ اچھی صحت کی علامت ہے۔',
+  'period.eduCard2Title': 'آپ کیسے مدد کر سکتے ہیں؟',
+  'period.eduCard2Body': 'بغیر جھجک کے سینیٹری مصنوعات خریدیں۔ مروڑ کے لیے گرم پانی کی بوتل دیں۔ مذاق نہ کریں یا منہ نہ بنائیں۔ ضرورت ہو تو جگہ دیں۔ پوچھیں "میں کیسے مدد کروں؟" — جیسے کسی بھی صحت کے معاملے میں پوچھتے ہیں۔',
+  'period.eduCard3Title': 'چھوڑنے والی غلط فہمیاں',
+  'period.eduCard3Body': 'ماہواری کے دوران خواتین کھانا پکا سکتی ہیں، عبادت گاہ جا سکتی ہیں، اچار چھو سکتی ہیں اور سب کچھ کر سکتی ہیں — ان پابندیوں کی کوئی سائنسی بنیاد نہیں۔ ماہواری کا خون "گندا" نہیں — یہ وہی خون ہے جو آپ کی رگوں میں بہتا ہے۔',
+  'period.eduCard4Title': 'ڈاکٹر کو دکھانے کا مشورہ کب دیں',
+  'period.eduCard4Body': 'اگر اسے بہت زیادہ ماہواری ہو (ہر 1-2 گھنٹے بعد پیڈ بدلنا پڑے)، روزمرہ کام روکنے والا شدید درد، 3+ مہینے سے ماہواری نہ آنا، یا دو ماہواریوں کے درمیان دھبے آئیں — تو ماہر امراض نسواں کو دکھانے کا مشورہ دیں۔',
+  'period.quickFacts': 'اہم حقائق',
+  'period.fact1': 'اوسط ماہواری 3-7 دن رہتی ہے اور ہر 21-35 دن بعد آتی ہے',
+  'period.fact2': 'مروڑ، موڈ میں تبدیلی اور تھکاوٹ عام ہیں — "ڈرامہ" نہیں',
+  'period.fact3': 'ایک عورت زندگی بھر میں ~10,000-15,000 پیڈ استعمال کرتی ہے — ماہواری کی مصنوعات ضرورت ہیں، عیش نہیں',
+  'period.fact4': 'PCOS ہر 5 میں سے 1 بھارتی عورت کو متاثر کرتا ہے — اسے شرم نہیں، آگاہی چاہیے',
+  'period.fact5': 'ماہواری کے بارے میں کھل کر بات کرنے سے اگلی نسل زیادہ صحت مند ہوتی ہے',
+  'period.ctaShare': 'یہ صفحہ کسی ضرورت مند کے ساتھ شیئر کریں',
+  'period.ctaBreak': 'جھجک توڑنے کی شروعات ایک بات چیت سے ہوتی ہے۔ آپ نے اپنی شروع کر دی ہے۔',
+  'period.cycleOverview': 'سائیکل کا جائزہ',
+  'period.cyclesLogged': '{count} سائیکل درج',
+  'period.avgCycleDays': 'اوسط سائیکل (دن)',
+  'period.avgPeriodDays': 'اوسط ماہواری (دن)',
+  'period.daysLate': 'دن لیٹ',
+  'period.daysUntilNext': 'اگلی تک دن',
+  'period.nextPeriod': 'اگلی ماہواری',
+  'period.logPeriod': 'ماہواری درج کریں',
+  'period.logYourPeriod': 'اپنی ماہواری درج کریں',
+  'period.startDate': 'شروع کی تاریخ',
+  'period.periodLength': 'ماہواری کی مدت (دن)',
+  'period.flowLevel': 'بہاؤ کی سطح',
+  'period.flowLight': 'ہلکا',
+  'period.flowMedium': 'درمیانہ',
+  'period.flowHeavy': 'زیادہ',
+  'period.symptoms': 'علامات',
+  'period.mood': 'موڈ',
+  'period.notesOpt': 'نوٹس (اختیاری)',
+  'period.save': 'محفوظ کریں',
+  'period.saving': 'محفوظ ہو رہا ہے...',
+  'period.cycleHistory': 'سائیکل کی تاریخ',
+  'period.days': '{count} دن',
+  'period.flow': 'بہاؤ',
+  'period.dayCycle': '{count} دن کا سائیکل',
+  'period.emptyTitle': 'اپنا سائیکل ٹریک کرنا شروع کریں',
+  'period.emptyDesc': 'ذاتی پیش گوئیوں، صحت کی معلومات اور یاد دہانیوں کے لیے اپنی ماہواری درج کریں — سب آپ کی زبان میں۔',
+  'period.askTitle': 'ماہواری کی صحت کے بارے میں پوچھیں',
+  'period.askTitleAlly': 'ماہواری کی صحت کے بارے میں پوچھیں',
+  'period.askDesc': 'ماہواری، سائیکل کی صحت، صفائی، PCOS یا ماہواری کی تندرستی کے بارے میں کچھ بھی پوچھیں — اپنی زبان میں۔',
+  'period.askDescAlly': 'ماہواری کی صحت کے بارے میں کچھ بھی پوچھیں — ماہواری کو سمجھیں، غلط فہمیاں دور کریں، ساتھ دینا سیکھیں — اپنی زبان میں۔',
+  'period.askPlaceholder': 'اپنا سوال پوچھیں...',
+  'period.askBtn': 'پوچھیں',
+  'period.thinking': 'سوچ رہے ہیں...',
+  'period.aiDisclaimer': 'AI جواب — طبی مشورے کے لیے ڈاکٹر سے رجوع کریں',
+  'period.sCramps': 'مروڑ',
+  'period.sHeadache': 'سر درد',
+  'period.sBackPain': 'کمر درد',
+  'period.sBloating': 'پیٹ پھولنا',
+  'period.sFatigue': 'تھکاوٹ',
+  'period.sMoodSwings': 'موڈ میں تبدیلی',
+  'period.sAcne': 'مہاسے',
+  'period.sBreast': 'چھاتی میں درد',
+  'period.sNausea': 'متلی',
+  'period.sCravings': 'کھانے کی طلب',
+  'period.mHappy': 'خوش',
+  'period.mCalm': 'پرسکون',
+  'period.mAnxious': 'پریشان',
+  'period.mSad': 'اداس',
+  'period.mIrritable': 'چڑچڑا',
+  'period.mEnergetic': 'توانا',
+  'period.mTired': 'تھکا ہوا',
+  'period.footerAlly': 'علم ہی طاقت ہے۔ ماہواری کی صحت کے بارے میں خاموشی توڑیں۔',
+  'period.deleteConfirm': 'کیا یہ سائیکل اندراج حذف کریں؟',
+  'period.footerTracker': 'آپ کا ماہواری کا ڈیٹا نجی ہے اور صرف آپ کو نظر آتا ہے۔ یہ طبی تشخیص نہیں ہے۔',
+  'period.allyQuestion1': 'ماہواری کے بارے میں مجھے کیا جاننا چاہیے؟',
+  'period.allyQuestion2': 'میں اپنی بہن/بیوی کی کیسے مدد کر سکتا ہوں؟',
+  'period.allyQuestion3': 'ماہواری کے بارے میں عام غلط فہمیاں کیا ہیں؟',
+  'period.selfQuestion1': 'ماہواری کا درد قدرتی طور پر کیسے کم کریں',
+  'period.selfQuestion2': 'PCOS کیا ہے؟',
+  'period.selfQuestion3': 'ماہواری کے دوران کیا کھانا چاہیے',
+
+  // ─── Follow-up check reminders ───
+  'followup.reminder': 'Sehat چیک اِن: اب آپ کیسا محسوس کر رہے ہیں — پہلے سے بہتر، ویسا ہی، یا زیادہ خراب؟',
+  'followup.reminderLink': 'یہاں جواب دیں: {url}',
+  'followup.emailSubject': 'آپ کیسا محسوس کر رہے ہیں؟ — Sehat چیک اِن',
+
+  // ─── Follow-up inbox ───
+  'followup.pageTitle': 'چیک اِن',
+  'followup.sectionDue': 'ابھی کرنے والے',
+  'followup.sectionUpcoming': 'آنے والے',
+  'followup.sectionPast': 'پچھلے',
+  'followup.checkAt': '{date} کو چیک اِن',
+  'followup.escalation': 'اگر ایسا ہو تو فوراً علاج کروائیں: {criteria}',
+  'followup.question': 'اب آپ کیسا محسوس کر رہے ہیں؟',
+  'followup.better': 'بہتر',
+  'followup.same': 'ویسا ہی',
+  'followup.worse': 'زیادہ خراب',
+  'followup.dismiss': 'ہٹائیں',
+  'followup.continue': 'بات چیت جاری رکھیں',
+  'followup.statusCompleted': 'جواب دیا',
+  'followup.statusEscalated': 'طبیعت بگڑی',
+  'followup.statusDismissed': 'ہٹا دیا گیا',
+  'followup.empty': 'ابھی کوئی چیک اِن نہیں۔ جب Sehat کو کسی علامت کے بارے میں بعد میں آپ کا حال جاننا ہوگا تو وہ چیک اِن طے کرے گا۔',
+  'followup.signIn': 'اپنے چیک اِن دیکھنے کے لیے سائن اِن کریں',
+  'followup.loadError': 'آپ کے چیک اِن لوڈ نہیں ہو سکے',
+  'followup.answerError': 'آپ کا جواب محفوظ نہیں ہو سکا۔ براہ کرم دوبارہ کوشش کریں۔',
+  'followup.checkInBanner': 'فالو اَپ چیک اِن: {reason}',
+
+  // ─── Emergency guide ───
+  'emergency.title': 'ایمرجنسی',
+  'emergency.intro': 'یہ ایمرجنسی ہے۔ ابھی {number} پر کال کریں — سرخ بٹن دبائیں۔ مدد آنے تک میں آپ کو ایک ایک قدم بتاؤں گا۔',
+  'emergency.call': 'ابھی {number} پر کال کریں',
+  'emergency.ambulance': 'ایمبولینس: {number}',
+  'emergency.stepOf': 'قدم {current} / {total}',
+  'emergency.next': 'آگے',
+  'emergency.repeat': 'پھر سے',
+  'emergency.back': 'پیچھے',
+  'emergency.sayNext': 'ہو جانے پر "ہو گیا" کہیں، یا آگے دبائیں',
+  'emergency.sayBreathing': '"سانس لے رہے" یا "سانس نہیں" کہیں، یا کوئی بٹن دبائیں',
+  'emergency.breathing': 'سانس لے رہے ہیں',
+  'emergency.startCpr': 'سانس نہیں لے رہے؟ CPR شروع کریں',
+  'emergency.pushWithBeat': 'بیٹ کے ساتھ دبائیں',
+  'emergency.pauseBeat': 'بیٹ روکیں',
+  'emergency.resumeBeat': 'بیٹ دوبارہ شروع کریں',
+  'emergency.fromAssessment': 'آپ کے جائزے سے',
+  'emergency.finished': 'یہ سب قدم تھے۔ مدد آنے تک ان کے ساتھ رہیں اور ان کی سانس پر نظر رکھیں۔',
+  'emergency.close': 'گائیڈ بند کریں',
+  'emergency.cpr.title': 'سی پی آر (CPR)',
+  'emergency.cpr.check': 'ان کے کندھے تھپتھپائیں اور زور سے پکاریں۔ کیا وہ ٹھیک سے سانس لے رہے ہیں؟ "سانس لے رہے" یا "سانس نہیں" کہیں۔',
+  'emergency.cpr.position': 'انہیں کسی سخت جگہ پر پیٹھ کے بل سیدھا لٹائیں اور ان کے سینے کے پاس گھٹنوں کے بل بیٹھیں۔',
+  'emergency.cpr.hands': 'ایک ہتھیلی کا نچلا حصہ سینے کے بیچ میں رکھیں اور دوسرا ہاتھ اس کے اوپر۔ بازو سیدھے رکھیں۔',
+  'emergency.cpr.compress': 'ہر بیٹ کے ساتھ زور سے اور تیزی سے تقریباً 5 سینٹی میٹر نیچے دبائیں۔ 30 تک گنیں اور پھر سے شروع کریں۔ مدد آنے تک رکیں نہیں۔',
+  'emergency.recovery.title': 'ریکوری پوزیشن',
+  'emergency.recovery.side': 'ان کے پاس گھٹنوں کے بل بیٹھیں۔ دور والا گھٹنا موڑیں اور اسے کھینچ کر انہیں اپنی طرف کروٹ دلا دیں۔',
+  'emergency.recovery.airway': 'سر کو آہستہ سے پیچھے جھکائیں اور منہ نیچے کی طرف رکھیں، تاکہ سانس چلتی رہے اور منہ میں جو ہو وہ باہر نکل جائے۔',
+  'emergency.recovery.watch': 'ان کے ساتھ رہیں اور ان کی سانس دیکھتے رہیں۔ اگر سانس رک جائے تو "سانس نہیں" کہیں یا CPR شروع کریں دبائیں۔',
+  'emergency.choking.title': 'گلا گھٹنا',
+  'emergency.choking.cough': 'اگر وہ کھانس یا بول سکتے ہیں تو انہیں کھانستے رہنے دیں۔ ابھی پیٹھ پر نہ ماریں۔',
+  'emergency.choking.backBlows': 'اگر وہ سانس نہیں لے پا رہے یا بول نہیں پا رہے تو انہیں آگے جھکائیں اور ہتھیلی کے نچلے حصے سے کندھوں کے بیچ 5 بار زور سے ماریں۔',
+  'emergency.choking.thrusts': 'پھر ان کے پیچھے کھڑے ہو کر ناف سے ذرا اوپر مٹھی رکھیں اور 5 بار زور سے اندر اور اوپر کی طرف کھینچیں۔ پیٹھ پر مارنا اور پیٹ دبانا باری باری جاری رکھیں۔',
+  'emergency.choking.unconscious': 'اگر وہ بے ہوش ہو جائیں تو انہیں پیٹھ کے بل لٹا کر CPR شروع کریں۔',
+  'emergency.snakebite.title': 'سانپ کا کاٹنا',
+  'emergency.snakebite.calm': 'شخص کو پرسکون رکھیں اور لٹا کر ساکت رکھیں۔ ہلنے جلنے سے زہر تیزی سے پھیلتا ہے۔',
+  'emergency.snakebite.immobilize': 'کاٹے گئے ہاتھ یا پاؤں کو پٹی کی طرح ساکت رکھیں، دل سے نیچے۔ انگوٹھیاں، چوڑیاں، گھڑی اور تنگ کپڑے اتار دیں۔',
+  'emergency.snakebite.dont': 'کاٹنے کی جگہ کو نہ کاٹیں، نہ چوسیں، کس کر پٹی نہ باندھیں، اور اس پر برف یا جڑی بوٹی نہ لگائیں۔',
+  'emergency.snakebite.transport': 'انہیں اٹھا کر ایسے اسپتال لے جائیں جہاں اینٹی وینم ہو۔ انہیں چلنے نہ دیں۔ کاٹنے کا وقت نوٹ کریں۔',
+  'emergency.stroke.title': 'اسٹروک — FAST جانچ',
+  'emergency.stroke.face': 'چہرہ (F): انہیں مسکرانے کو کہیں۔ کیا چہرے کا ایک حصہ لٹک رہا ہے؟',
+  'emergency.stroke.arms': 'بازو (A): انہیں دونوں بازو اٹھانے کو کہیں۔ کیا ایک بازو نیچے گر رہا ہے؟',
+  'emergency.stroke.speech': 'بولی (S): انہیں ایک آسان جملہ دہرانے کو کہیں۔ کیا بولی لڑکھڑا رہی ہے یا عجیب ہے؟',
+  'emergency.stroke.time': 'وقت (T): اگر ان میں سے کچھ بھی نظر آئے تو شروع ہونے کا وقت نوٹ کریں اور انہیں ابھی اسپتال لے جائیں۔ کھانا، پانی یا دوا نہ دیں۔',
+  'emergency.seizure.title': 'دورہ',
+  'emergency.seizure.clear': 'سخت اور نوکیلی چیزیں ان سے دور کریں۔ انہیں زبردستی نہ پکڑیں۔',
+  'emergency.seizure.head': 'ان کے سر کے نیچے کوئی نرم چیز رکھیں۔ منہ میں کچھ نہ ڈالیں — نہ چمچ، نہ پانی۔',
+  'emergency.seizure.side': 'جھٹکے رکنے پر انہیں کروٹ دلائیں اور دیکھیں کہ وہ سانس لے رہے ہیں۔',
+  'emergency.seizure.time': 'دیکھیں کہ دورہ کتنی دیر چلتا ہے۔ 5 منٹ سے زیادہ جھٹکے آنا ایمرجنسی ہے۔',
+  'emergency.bleeding.title': 'بہت زیادہ خون بہنا',
+  'emergency.bleeding.press': 'صاف کپڑے سے زخم پر زور سے دبائیں۔ دیکھنے کے لیے کپڑا نہ ہٹائیں۔',
+  'emergency.bleeding.more': 'اگر خون کپڑے سے باہر آ جائے تو اوپر اور کپڑا رکھیں اور دباتے رہیں۔',
+  'emergency.bleeding.raise': 'انہیں لٹائے رکھیں اور ہو سکے تو چوٹ والے حصے کو دل سے اوپر اٹھائیں۔',
+  'emergency.chest.title': 'سینے میں درد',
+  'emergency.chest.rest': 'انہیں کسی چیز سے ٹیک لگا کر بیٹھنے اور آرام کرنے میں مدد کریں۔ تنگ کپڑے ڈھیلے کریں۔',
+  'emergency.chest.nothing': 'انہیں چلنے پھرنے نہ دیں۔ کھانے پینے کو کچھ نہ دیں، اور نوٹ کریں کہ درد کب شروع ہوا۔',
+  'emergency.chest.watch': 'ان کے ساتھ رہیں۔ اگر وہ گر جائیں اور ٹھیک سے سانس لینا بند کر دیں تو CPR بٹن دبا کر CPR شروع کریں۔',
+  'emergency.general.title': 'ابتدائی طبی امداد',
+  'emergency.general.safe': 'یقینی بنائیں کہ آپ اور وہ شخص محفوظ ہیں۔ انہیں لٹا کر ساکت رکھیں۔',
+  'emergency.general.breathing': 'دیکھیں کہ وہ سانس لے رہے ہیں۔ اگر نہیں تو CPR بٹن دبا کر CPR شروع کریں۔',
+  'emergency.general.wait': 'ان کے ساتھ رہیں اور انہیں گرم رکھیں۔ مدد آنے تک کھانے پینے کو کچھ نہ دیں۔',
+};
@@ -0,0 +1,87 @@
+'use client';
+
+/**
+ * CPR metronome — a short click at a fixed tempo using Web Audio API.
+ * Clicks are scheduled ahead on the audio clock, so the beat holds steady
+ * while the main thread is busy with TTS, rendering or the mic.
+ * The first beat of each set is pitched higher, so the count is audible.
+ */
+
+export interface Metronome {
+  stop(): void;
+}
+
+// How far ahead clicks are scheduled, and how often the scheduler wakes
+const LOOKAHEAD_S = 0.1;
+const TICK_MS = 25;
+const CLICK_S = 0.04;
+
+/**
+ * Click at `bpm` until stopped. onBeat gets the beat number within the set
+ * (1..beatsPerSet), called as the click sounds.
+ */
+export function startMetronome(
+  bpm: number,
+  options: { beatsPerSet?: number; onBeat?: (beat: number) => void } = {}
+): Metronome {
+  const beatsPerSet = options.beatsPerSet ?? 0;
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+  let context: AudioContext | null = null;
+  let scheduler: ReturnType<typeof setInterval> | null = null;
+
+  try {
+    context = new AudioContext();
+    if (context.state === 'suspended') context.resume();
+  } catch {
+    // Web Audio API not available — beats still count, silently
+  }
+
+  const interval = 60 / bpm;
+  const startedAt = performance.now() / 1000;
+  const now = () => context?.currentTime ?? performance.now() / 1000 - startedAt;
+  let nextBeatAt = now() + 0.05;
+  let beat = 0;
+
+  function click(at: number, accent: boolean) {
+    if (!context) return;
+    const osc = context.createOscillator();
+    osc.type = 'square';
+    osc.frequency.setValueAtTime(accent ? 1500 : 1000, at);
+    const gain = context.createGain();
+    gain.gain.setValueAtTime(0.25, at);
+    gain.gain.exponentialRampToValueAtTime(0.001, at + CLICK_S);
+    osc.connect(gain).connect(context.destination);
+    osc.start(at);
+    osc.stop(at + CLICK_S);
+  }
+
+  function schedule() {
+    while (nextBeatAt < now() + LOOKAHEAD_S) {
+      beat = beatsPerSet ? (beat % beatsPerSet) + 1 : beat + 1;
+      const current = beat;
+      click(nextBeatAt, current === 1);
+      if (options.onBeat) {
+        const timer = setTimeout(() => {
+          timers.delete(timer);
+          options.onBeat?.(current);
+        }, Math.max(0, (nextBeatAt - now()) * 1000));
+        timers.add(timer);
+      }
+      nextBeatAt += interval;
+    }
+  }
+
+  schedule();
+  scheduler = setInterval(schedule, TICK_MS);
+
+  return {
+    stop() {
+      if (scheduler) clearInterval(scheduler);
+      scheduler = null;
+      timers.forEach(clearTimeout);
+      timers.clear();
+      context?.close().catch(() => {});
+      context = null;
+    },
+  };
+}
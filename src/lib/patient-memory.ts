@@ -0,0 +1,204 @@
+/**
+ * Patient memory — what Sehat remembers about a signed-in patient.
+ *
+ * The triage agent records clinical notes as it hears them
+ * (save_clinical_note, update_risk_profile). Those notes start as
+ * `inferred`: the model's reading of a conversation, never checked by the
+ * patient. On the /memory screen the patient can confirm, correct or delete
+ * each one; confirming or correcting a note makes it `confirmed`.
+ *
+ * Later sessions weigh the two differently:
+ *   - confirmed notes join the verified patient context in the system prompt
+ *   - inferred notes are only returned by get_patient_history, labelled as
+ *     unconfirmed — something to ask about, not a fact to act on
+ */
+
+import { getServiceClient } from './supabase';
+
+// ─── Types ───────────────────────────────────────────
+
+export const NOTE_TYPES = ['chronic_condition', 'allergy', 'family_history', 'medication', 'observation'] as const;
+
+export type NoteType = typeof NOTE_TYPES[number];
+
+export type NoteStatus = 'inferred' | 'confirmed';
+
+export interface ClinicalNote {
+  id: string;
+  clerk_user_id: string;
+  note_type: NoteType;
+  content: string;
+  severity_context: string | null;
+  session_id: string | null;
+  status: NoteStatus;
+  confirmed_at: string | null;
+  updated_at: string | null;
+  created_at: string;
+}
+
+/** A note the agent wants to record */
+export interface InferredNote {
+  note_type: NoteType;
+  content: string;
+  severity_context?: string | null;
+}
+
+export interface NoteUpdate {
+  content?: string;
+  note_type?: NoteType;
+  /** Mark the note as checked by the patient */
+  confirm?: boolean;
+}
+
+export type UpdateNoteResult =
+  | { ok: true; note: ClinicalNote }
+  | { ok: false; reason: 'not_found' | 'invalid' };
+
+const MAX_NOTE_LENGTH = 500;
+
+export function isNoteType(value: unknown): value is NoteType {
+  return typeof value === 'string' && (NOTE_TYPES as readonly string[]).includes(value);
+}
+
+function normalize(content: string): string {
+  return content.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+// ─── Recording (agent) ───────────────────────────────
+
+/**
+ * Save notes from a triage as `inferred`. Notes the patient already has —
+ * same type and text, confirmed or not — are skipped, so repeating a fact
+ * in every session doesn't pile up copies.
+ * Returns how many notes were saved.
+ */
+export async function recordInferredNotes(
+  clerkUserId: string,
+  sessionId: string | null,
+  notes: InferredNote[]
+): Promise<number> {
+  const supabase = getServiceClient();
+  if (!supabase) throw new Error('Database not configured');
+
+  const candidates = notes
+    .map((n) => ({ ...n, content: n.content.trim().slice(0, MAX_NOTE_LENGTH) }))
+    .filter((n) => isNoteType(n.note_type) && n.content);
+  if (candidates.length === 0) return 0;
+
+  const { data: existing } = await supabase
+    .from('clinical_notes')
+    .select('note_type, content')
+    .eq('clerk_user_id', clerkUserId)
+    .in('note_type', Array.from(new Set(candidates.map((n) => n.note_type))));
+
+  const seen = new Set((existing || []).map((n) => `${n.note_type}:${normalize(n.content)}`));
+  const rows = [];
+  for (const note of candidates) {
+    const key = `${note.note_type}:${normalize(note.content)}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    rows.push({
+      clerk_user_id: clerkUserId,
+      note_type: note.note_type,
+      content: note.content,
+      severity_context: note.severity_context ?? null,
+      session_id: sessionId,
+      status: 'inferred' as NoteStatus,
+    });
+  }
+  if (rows.length === 0) return 0;
+
+  const { error } = await supabase.from('clinical_notes').insert(rows);
+  if (error) throw new Error(error.message);
+  return rows.length;
+}
+
+// ─── Reading ─────────────────────────────────────────
+
+/** All of a patient's notes, confirmed first, newest first within each status */
+export async function listNotes(clerkUserId: string): Promise<ClinicalNote[]> {
+  const supabase = getServiceClient();
+  if (!supabase) throw new Error('Database not configured');
+
+  const { data, error } = await supabase
+    .from('clinical_notes')
+    .select('*')
+    .eq('clerk_user_id', clerkUserId)
+    .order('created_at', { ascending: false });
+  if (error) throw new Error(error.message);
+
+  const notes = (data || []) as ClinicalNote[];
+  return [
+    ...notes.filter((n) => n.status === 'confirmed'),
+    ...notes.filter((n) => n.status !== 'confirmed'),
+  ];
+}
+
+/** Confirmed notes for the verified patient context — empty when unavailable */
+export async function loadConfirmedNotes(clerkUserId: string, limit = 20): Promise<Pick<ClinicalNote, 'note_type' | 'content'>[]> {
+  const supabase = getServiceClient();
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from('clinical_notes')
+    .select('note_type, content')
+    .eq('clerk_user_id', clerkUserId)
+    .eq('status', 'confirmed')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) {
+    console.error('[patient-memory] Failed to load confirmed notes:', error.message);
+    return [];
+  }
+  return (data || []) as Pick<ClinicalNote, 'note_type' | 'content'>[];
+}
+
+// ─── Patient edits ───────────────────────────────────
+
+/**
+ * Apply a patient's edit. Any edit — a corrected text or type, or a plain
+ * confirm — marks the note confirmed: the patient has now vouched for it.
+ */
+export async function updateNote(noteId: string, clerkUserId: string, update: NoteUpdate): Promise<UpdateNoteResult> {
+  const supabase = getServiceClient();
+  if (!supabase) throw new Error('Database not configured');
+
+  const changes: Record<string, unknown> = {};
+  if (update.content !== undefined) {
+    const content = update.content.trim();
+    if (!content || content.length > MAX_NOTE_LENGTH) return { ok: false, reason: 'invalid' };
+    changes.content = content;
+  }
+  if (update.note_type !== undefined) {
+    if (!isNoteType(update.note_type)) return { ok: false, reason: 'invalid' };
+    changes.note_type = update.note_type;
+  }
+  if (Object.keys(changes).length === 0 && !update.confirm) return { ok: false, reason: 'invalid' };
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('clinical_notes')
+    .update({ ...changes, status: 'confirmed', confirmed_at: now, updated_at: now })
+    .eq('id', noteId)
+    .eq('clerk_user_id', clerkUserId)
+    .select('*');
+  if (error) throw new Error(error.message);
+  if (!data || data.length === 0) return { ok: false, reason: 'not_found' };
+
+  return { ok: true, note: data[0] as ClinicalNote };
+}
+
+/** Forget a note. Returns false when the patient has no such note. */
+export async function deleteNote(noteId: string, clerkUserId: string): Promise<boolean> {
+  const supabase = getServiceClient();
+  if (!supabase) throw new Error('Database not configured');
+
+  const { data, error } = await supabase
+    .from('clinical_notes')
+    .delete()
+    .eq('id', noteId)
+    .eq('clerk_user_id', clerkUserId)
+    .select('id');
+  if (error) throw new Error(error.message);
+  return !!data && data.length > 0;
+}
@@ -0,0 +1,57 @@
+/**
+ * Browser-side PCM helpers for the voice recorders — everything the STT
+ * endpoints are sent is 16 kHz mono 16-bit, the rate Saarika and Whisper
+ * both work at.
+ */
+
+export const PCM_SAMPLE_RATE = 16000;
+
+/** Average float samples down to 16 kHz 16-bit PCM */
+export function downsampleToPcm(input: Float32Array, inputRate: number): Int16Array {
+  const ratio = inputRate / PCM_SAMPLE_RATE;
+  const output = new Int16Array(Math.floor(input.length / ratio));
+  for (let i = 0; i < output.length; i++) {
+    const from = Math.floor(i * ratio);
+    const to = Math.max(Math.floor((i + 1) * ratio), from + 1);
+    let sum = 0;
+    for (let j = from; j < to; j++) sum += input[j];
+    const sample = Math.max(-1, Math.min(1, sum / (to - from)));
+    output[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return output;
+}
+
+export function pcmToFloat(pcm: Int16Array): Float32Array {
+  return Float32Array.from(pcm, (sample) => sample / 0x8000);
+}
+
+export function concatPcm(chunks: Int16Array[]): Int16Array {
+  const out = new Int16Array(chunks.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+export function encodeWav(pcm: Int16Array): Blob {
+  const header = new DataView(new ArrayBuffer(44));
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) header.setUint8(offset + i, value.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + pcm.byteLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, 1, true); // mono
+  header.setUint32(24, PCM_SAMPLE_RATE, true);
+  header.setUint32(28, PCM_SAMPLE_RATE * 2, true);
+  header.setUint16(32, 2, true);
+  header.setUint16(34, 16, true);
+  writeString(36, 'data');
+  header.setUint32(40, pcm.byteLength, true);
+  return new Blob([header.buffer, pcm.buffer as ArrayBuffer], { type: 'audio/wav' });
+}
@@ -1,55 +1,391 @@
 /**
- * Simple in-memory rate limiter for API routes.
- * Tracks requests by IP with a sliding window.
- * Resets on cold start (acceptable for hackathon/demo).
+ * Rate limiting for API routes, shared across serverless replicas.
+ *
+ * Counters live in a pluggable store, selected by RATE_LIMIT_STORE:
+ *   - memory:   per-process Map (default; resets on cold start, per-instance)
+ *   - supabase: rate_limits table + SQL functions (see supabase/schema.sql)
+ *   - redis:    any Redis-compatible REST endpoint (Upstash, Vercel KV, ...)
+ *
+ * Two algorithms, selected by RATE_LIMIT_ALGORITHM:
+ *   - sliding-window: previous window's count weighted by overlap + current count (default)
+ *   - token-bucket:   `limit` tokens refilled evenly over the window; allows short bursts
+ *
+ * Each policy limits by client IP, and by Clerk user ID when signed in.
+ * A store error fails open onto the memory store — a limiter outage must
+ * never take triage down with it.
  */
 
-interface RateLimitEntry {
-  count: number;
-  resetAt: number;
+import { getServiceClient } from './supabase';
+
+// ─── Types ───────────────────────────────────────────
+
+export type StoreName = 'memory' | 'supabase' | 'redis';
+
+export type RateLimitAlgorithm = 'sliding-window' | 'token-bucket';
+
+export interface RateLimitStore {
+  readonly name: StoreName;
+  /** False when required credentials are missing */
+  readonly configured: boolean;
+  /** Add one to a counter, creating it with a TTL; returns the new count */
+  increment(key: string, ttlMs: number): Promise<number>;
+  /** Current counter value; 0 when missing or expired */
+  get(key: string): Promise<number>;
+  /** Atomically refill a bucket, then take one token if available */
+  takeToken(key: string, capacity: number, refillPerMs: number): Promise<{ allowed: boolean; tokens: number }>;
+}
+
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitPolicy {
+  /** Per client IP */
+  ip: RateLimitRule;
+  /** Per signed-in user, on top of the IP rule */
+  user?: RateLimitRule;
+}
+
+export type RateLimitPolicyName = 'triage' | 'transcribe' | 'tts';
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** Which rule produced this decision */
+  scope: 'ip' | 'user';
+  limit: number;
+  windowMs: number;
+  remaining: number;
+  /** Until the quota is fully available again */
+  resetMs: number;
+  /** Until the next request would be allowed; 0 when allowed */
+  retryAfterMs: number;
+}
+
+const MINUTE = 60_000;
+const DAY = 24 * 60 * MINUTE;
+
+const POLICIES: Record<RateLimitPolicyName, RateLimitPolicy> = {
+  triage: { ip: { limit: 20, windowMs: MINUTE }, user: { limit: 200, windowMs: DAY } },
+  transcribe: { ip: { limit: 30, windowMs: MINUTE }, user: { limit: 500, windowMs: DAY } },
+  tts: { ip: { limit: 50, windowMs: MINUTE }, user: { limit: 1000, windowMs: DAY } },
+};
+
+// ─── Memory store ────────────────────────────────────
+
+interface MemoryEntry {
+  value: number;
+  /** Last refill, for token buckets */
+  updatedAt: number;
+  expiresAt: number;
+}
+
+/** Per-process store — the default, and the fallback when a shared store fails */
+export function createMemoryStore(): RateLimitStore {
+  const entries = new Map<string, MemoryEntry>();
+
+  // Clean up expired entries every 60s to prevent memory leak
+  let lastCleanup = Date.now();
+  function cleanup(now: number) {
+    if (now - lastCleanup < 60000) return;
+    lastCleanup = now;
+    for (const [key, entry] of entries) {
+      if (now > entry.expiresAt) entries.delete(key);
+    }
+  }
+
+  function live(key: string, now: number): MemoryEntry | null {
+    const entry = entries.get(key);
+    return entry && now <= entry.expiresAt ? entry : null;
+  }
+
+  return {
+    name: 'memory',
+    configured: true,
+
+    async increment(key, ttlMs) {
+      const now = Date.now();
+      cleanup(now);
+      const entry = live(key, now);
+      if (!entry) {
+        entries.set(key, { value: 1, updatedAt: now, expiresAt: now + ttlMs });
+        return 1;
+      }
+      entry.value++;
+      return entry.value;
+    },
+
+    async get(key) {
+      return live(key, Date.now())?.value ?? 0;
+    },
+
+    async takeToken(key, capacity, refillPerMs) {
+      const now = Date.now();
+      cleanup(now);
+      const entry = live(key, now);
+      let tokens = entry
+        ? Math.min(capacity, entry.value + (now - entry.updatedAt) * refillPerMs)
+        : capacity;
+      const allowed = tokens >= 1;
+      if (allowed) tokens -= 1;
+      entries.set(key, { value: tokens, updatedAt: now, expiresAt: now + Math.ceil(capacity / refillPerMs) });
+      return { allowed, tokens };
+    },
+  };
+}
+
+// ─── Supabase store ──────────────────────────────────
+
+function createSupabaseStore(): RateLimitStore {
+  const supabase = getServiceClient();
+
+  function client() {
+    if (!supabase) throw new Error('Supabase is not configured');
+    return supabase;
+  }
+
+  return {
+    name: 'supabase',
+    configured: !!supabase,
+
+    async increment(key, ttlMs) {
+      const { data, error } = await client().rpc('rate_limit_increment', { p_key: key, p_ttl_ms: ttlMs });
+      if (error) throw new Error(error.message);
+      return Number(data);
+    },
+
+    async get(key) {
+      const { data, error } = await client()
+        .from('rate_limits')
+        .select('value')
+        .eq('key', key)
+        .gt('expires_at', new Date().toISOString())
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      return data ? Number(data.value) : 0;
+    },
+
+    async takeToken(key, capacity, refillPerMs) {
+      const { data, error } = await client().rpc('rate_limit_take_token', {
+        p_key: key,
+        p_capacity: capacity,
+        p_refill_per_ms: refillPerMs,
+      });
+      if (error) throw new Error(error.message);
+      const row = Array.isArray(data) ? data[0] : data;
+      return { allowed: !!row?.allowed, tokens: Number(row?.tokens ?? 0) };
+    },
+  };
 }
 
-const store = new Map<string, RateLimitEntry>();
+// ─── Redis store (REST) ──────────────────────────────
+
+// Refill-then-take in one round trip. Tokens come back as a string —
+// Redis truncates Lua numbers to integers.
+const TAKE_TOKEN_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(bucket[1]) or capacity
+local ts = tonumber(bucket[2]) or now
+tokens = math.min(capacity, tokens + (now - ts) * rate)
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', tostring(now))
+redis.call('PEXPIRE', KEYS[1], math.ceil(capacity / rate))
+return { allowed, tostring(tokens) }
+`;
 
-// Clean up expired entries every 60s to prevent memory leak
-let lastCleanup = Date.now();
-function cleanup() {
+type RedisCommand = (string | number)[];
+
+function createRedisStore(): RateLimitStore {
+  const url = (process.env.RATE_LIMIT_REDIS_URL || '').replace(/\/$/, '');
+  const token = process.env.RATE_LIMIT_REDIS_TOKEN;
+
+  async function pipeline(commands: RedisCommand[]): Promise<unknown[]> {
+    const response = await fetch(`${url}/pipeline`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify(commands),
+    });
+    if (!response.ok) {
+      throw new Error(`Redis REST ${response.status}: ${await response.text()}`);
+    }
+    const results: { result?: unknown; error?: string }[] = await response.json();
+    return results.map((r) => {
+      if (r.error) throw new Error(`Redis: ${r.error}`);
+      return r.result;
+    });
+  }
+
+  return {
+    name: 'redis',
+    configured: !!url,
+
+    async increment(key, ttlMs) {
+      const [, count] = await pipeline([
+        ['SET', key, 0, 'PX', ttlMs, 'NX'],
+        ['INCR', key],
+      ]);
+      return Number(count);
+    },
+
+    async get(key) {
+      const [value] = await pipeline([['GET', key]]);
+      return Number(value ?? 0);
+    },
+
+    async takeToken(key, capacity, refillPerMs) {
+      const [result] = await pipeline([
+        ['EVAL', TAKE_TOKEN_SCRIPT, 1, key, capacity, refillPerMs, Date.now()],
+      ]);
+      const [allowed, tokens] = result as [number, string];
+      return { allowed: allowed === 1, tokens: Number(tokens) };
+    },
+  };
+}
+
+// ─── Algorithms ──────────────────────────────────────
+
+async function slidingWindow(
+  store: RateLimitStore,
+  key: string,
+  rule: RateLimitRule,
+  scope: RateLimitDecision['scope']
+): Promise<RateLimitDecision> {
+  const { limit, windowMs } = rule;
   const now = Date.now();
-  if (now - lastCleanup < 60000) return;
-  lastCleanup = now;
-  for (const [key, entry] of store) {
-    if (now > entry.resetAt) store.delete(key);
+  const window = Math.floor(now / windowMs);
+  const elapsed = now - window * windowMs;
+  const weight = 1 - elapsed / windowMs;
+
+  // Increment first and decide from the returned count — reading and then
+  // incrementing would let concurrent requests on other replicas all pass.
+  // Blocked requests count too, so hammering a full window doesn't help.
+  // Counters outlive their window so the next one can weight them.
+  const [previous, count] = await Promise.all([
+    store.get(`${key}:${window - 1}`),
+    store.increment(`${key}:${window}`, windowMs * 2),
+  ]);
+  const current = count - 1;
+  const estimate = previous * weight + current;
+  const decision = { scope, limit, windowMs, resetMs: windowMs - elapsed };
+
+  if (estimate + 1 > limit) {
+    // Wait until the previous window's weighted share has decayed enough —
+    // or, when this window alone is full, into the next window
+    const retryAfterMs = current < limit
+      ? windowMs * (1 - (limit - 1 - current) / previous) - elapsed
+      : windowMs - elapsed + windowMs * Math.max(0, 1 - (limit - 1) / current);
+    const wait = Math.max(1000, Math.ceil(retryAfterMs));
+    return { ...decision, allowed: false, remaining: 0, resetMs: Math.max(decision.resetMs, wait), retryAfterMs: wait };
   }
+
+  const remaining = Math.max(0, Math.floor(limit - (previous * weight + count)));
+  return { ...decision, allowed: true, remaining, retryAfterMs: 0 };
 }
 
-/**
- * Check and consume a rate limit token.
- * @param key - Unique identifier (e.g., IP + route)
- * @param limit - Max requests per window
- * @param windowMs - Window duration in milliseconds
- * @returns { allowed, remaining, resetIn } or null if blocked
- */
-export function rateLimit(
+async function tokenBucket(
+  store: RateLimitStore,
   key: string,
-  limit: number,
-  windowMs: number = 60000
-): { allowed: boolean; remaining: number } {
-  cleanup();
+  rule: RateLimitRule,
+  scope: RateLimitDecision['scope']
+): Promise<RateLimitDecision> {
+  const { limit, windowMs } = rule;
+  const refillPerMs = limit / windowMs;
+  const { allowed, tokens } = await store.takeToken(key, limit, refillPerMs);
 
-  const now = Date.now();
-  const entry = store.get(key);
+  return {
+    allowed,
+    scope,
+    limit,
+    windowMs,
+    remaining: Math.max(0, Math.floor(tokens)),
+    resetMs: Math.ceil((limit - tokens) / refillPerMs),
+    retryAfterMs: allowed ? 0 : Math.max(1000, Math.ceil((1 - tokens) / refillPerMs)),
+  };
+}
 
-  if (!entry || now > entry.resetAt) {
-    store.set(key, { count: 1, resetAt: now + windowMs });
-    return { allowed: true, remaining: limit - 1 };
+// ─── Selection ───────────────────────────────────────
+
+const memoryStore = createMemoryStore();
+let cachedStore: RateLimitStore | null = null;
+
+/** Store selected by RATE_LIMIT_STORE (default: memory), cached per process */
+export function getRateLimitStore(): RateLimitStore {
+  if (cachedStore) return cachedStore;
+
+  const name = (process.env.RATE_LIMIT_STORE || 'memory').toLowerCase();
+  const store = name === 'supabase' ? createSupabaseStore()
+    : name === 'redis' ? createRedisStore()
+    : memoryStore;
+
+  if (!store.configured) {
+    console.warn(`[rate-limit] ${store.name} store is not configured, using memory`);
   }
+  cachedStore = store.configured ? store : memoryStore;
+  return cachedStore;
+}
 
-  if (entry.count >= limit) {
-    return { allowed: false, remaining: 0 };
+function getAlgorithm(): RateLimitAlgorithm {
+  return process.env.RATE_LIMIT_ALGORITHM === 'token-bucket' ? 'token-bucket' : 'sliding-window';
+}
+
+async function checkRule(key: string, rule: RateLimitRule, scope: RateLimitDecision['scope']): Promise<RateLimitDecision> {
+  const run = getAlgorithm() === 'token-bucket' ? tokenBucket : slidingWindow;
+  const store = getRateLimitStore();
+  try {
+    return await run(store, key, rule, scope);
+  } catch (error) {
+    console.error(`[rate-limit] ${store.name} store failed, using memory:`, error);
+    return run(memoryStore, key, rule, scope);
   }
+}
+
+// ─── Public API ──────────────────────────────────────
+
+/**
+ * Check and consume one request against a policy.
+ * The IP rule is checked first; a blocked IP doesn't spend the user's quota.
+ * Returns the tighter of the two decisions.
+ */
+export async function checkRateLimit(
+  policyName: RateLimitPolicyName,
+  request: Request,
+  userId?: string | null
+): Promise<RateLimitDecision> {
+  const policy = POLICIES[policyName];
+  const ipDecision = await checkRule(`rl:${policyName}:ip:${getClientIP(request)}`, policy.ip, 'ip');
+  if (!ipDecision.allowed || !userId || !policy.user) return ipDecision;
+
+  const userDecision = await checkRule(`rl:${policyName}:user:${userId}`, policy.user, 'user');
+  return !userDecision.allowed || userDecision.remaining < ipDecision.remaining ? userDecision : ipDecision;
+}
+
+/** RateLimit-* headers (IETF draft), plus Retry-After when blocked */
+export function rateLimitHeaders(decision: RateLimitDecision): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(decision.limit),
+    'RateLimit-Remaining': String(decision.remaining),
+    'RateLimit-Reset': String(Math.ceil(decision.resetMs / 1000)),
+    'RateLimit-Policy': `${decision.limit};w=${Math.round(decision.windowMs / 1000)}`,
+  };
+  if (!decision.allowed) {
+    headers['Retry-After'] = String(Math.ceil(decision.retryAfterMs / 1000));
+  }
+  return headers;
+}
 
-  entry.count++;
-  return { allowed: true, remaining: limit - entry.count };
+/** 429 response for a blocked decision */
+export function rateLimitResponse(decision: RateLimitDecision, message: string): Response {
+  return Response.json({ error: message }, { status: 429, headers: rateLimitHeaders(decision) });
 }
 
 /**
@@ -0,0 +1,199 @@
+/**
+ * Deterministic safety floor for triage results.
+ *
+ * The model decides severity, but three rule-based signals set a minimum it
+ * can't go below:
+ *   1. detectEmergency keyword/pattern matches in the patient's messages
+ *   2. check_symptom_combinations clusters with an emergency/urgent hint
+ *      (re-run here on the result's symptoms, plus any the model fetched).
+ *      Clusters are pattern hints, not diagnoses — they floor at urgent at
+ *      most; the agent passes them to the model to weigh an emergency.
+ *   3. calculate_risk_score thresholds, when the model called the tool
+ *
+ * applySafetyFloor() only ever raises severity, care level and urgency —
+ * never lowers them — and records why on the result. applyMedicationWarnings()
+ * does the same for check_medication_safety's major findings: their do_not
+ * lines reach action_plan.do_not even if the model left them out.
+ */
+
+import { CareLevel, EmergencyDetection, Language, SafetyOverride, Severity, TriageResult, Urgency } from '@/types';
+import { EMERGENCY_NUMBERS } from './constants';
+import { detectEmergency } from './emergency-detector';
+import { ClusterMatch, matchSymptomClusters } from './triage-tools';
+
+export interface SafetyFloor {
+  severity: Severity;
+  care_level: CareLevel;
+  urgency: Urgency;
+  reasons: string[];
+}
+
+export interface SafetyFloorInput {
+  /** Current message plus earlier user turns — a follow-up answer must not clear an emergency */
+  userMessages: string[];
+  language: Language;
+  result: TriageResult;
+  /** Tool results from this run, as yielded in tool_result events */
+  toolResults: { name: string; result: Record<string, unknown> }[];
+}
+
+const SEVERITY_RANK: Record<Severity, number> = { self_care: 0, routine: 1, urgent: 2, emergency: 3 };
+const CARE_RANK: Record<CareLevel, number> = { home: 0, phc: 1, district_hospital: 2, emergency: 3 };
+const URGENCY_RANK: Record<Urgency, number> = {
+  when_convenient: 0, within_week: 1, within_24h: 2, within_6h: 3, immediate: 4,
+};
+
+/** Minimum care level and urgency that go with each floor severity */
+const FLOOR_FOR_SEVERITY: Record<Severity, { care_level: CareLevel; urgency: Urgency }> = {
+  emergency: { care_level: 'emergency', urgency: 'immediate' },
+  urgent: { care_level: 'phc', urgency: 'within_24h' },
+  routine: { care_level: 'home', urgency: 'when_convenient' },
+  self_care: { care_level: 'home', urgency: 'when_convenient' },
+};
+
+// Same thresholds as calculate_risk_score's recommendation text
+const RISK_URGENT_THRESHOLD = 70;
+const RISK_ROUTINE_THRESHOLD = 40;
+
+function clustersFromTools(toolResults: SafetyFloorInput['toolResults']): ClusterMatch[] {
+  return toolResults
+    .filter((t) => t.name === 'check_symptom_combinations' && Array.isArray(t.result.possible_clusters))
+    .flatMap((t) => t.result.possible_clusters as ClusterMatch[]);
+}
+
+function highestRiskScore(toolResults: SafetyFloorInput['toolResults']): number | null {
+  const scores = toolResults
+    .filter((t) => t.name === 'calculate_risk_score' && typeof t.result.risk_score === 'number')
+    .map((t) => t.result.risk_score as number);
+  return scores.length > 0 ? Math.max(...scores) : null;
+}
+
+/** Combine the rule-based signals into a minimum severity, or null if none fired */
+export function computeSafetyFloor(input: SafetyFloorInput): SafetyFloor | null {
+  const raised: Severity[] = [];
+  const reasons: string[] = [];
+
+  const raise = (to: Severity, reason: string) => {
+    raised.push(to);
+    reasons.push(reason);
+  };
+
+  // 1. Emergency keywords
+  const detection: EmergencyDetection = detectEmergency(input.userMessages.join('\n'), input.language);
+  if (detection.isEmergency) {
+    raise('emergency', `Emergency keywords matched: ${detection.matchedKeywords.join(', ')}`);
+  }
+
+  // 2. Red-flag symptom clusters — never more than urgent on their own
+  const clusters = [
+    ...matchSymptomClusters([...input.result.symptoms_identified, ...input.result.red_flags]),
+    ...clustersFromTools(input.toolResults),
+  ];
+  const seen = new Set<string>();
+  for (const cluster of clusters) {
+    if (seen.has(cluster.name) || cluster.severity_hint === 'routine') continue;
+    seen.add(cluster.name);
+    raise('urgent', `Symptom cluster "${cluster.name}" (${cluster.matching_symptoms.join(', ')})`);
+  }
+
+  // 3. Risk score thresholds
+  const riskScore = highestRiskScore(input.toolResults);
+  if (riskScore !== null && riskScore >= RISK_URGENT_THRESHOLD) {
+    raise('urgent', `Risk score ${riskScore} ≥ ${RISK_URGENT_THRESHOLD}`);
+  } else if (riskScore !== null && riskScore >= RISK_ROUTINE_THRESHOLD) {
+    raise('routine', `Risk score ${riskScore} ≥ ${RISK_ROUTINE_THRESHOLD}`);
+  }
+
+  if (raised.length === 0) return null;
+  const severity = raised.reduce((a, b) => (SEVERITY_RANK[b] > SEVERITY_RANK[a] ? b : a));
+  return { severity, ...FLOOR_FOR_SEVERITY[severity], reasons };
+}
+
+/**
+ * Clamp the result upward to the floor. Returns the result unchanged when the
+ * model already met it; otherwise a copy with safety_override filled in.
+ */
+export function applySafetyFloor(result: TriageResult, floor: SafetyFloor | null): TriageResult {
+  if (!floor) return result;
+
+  const plan = result.action_plan;
+  const raiseSeverity = SEVERITY_RANK[floor.severity] > SEVERITY_RANK[result.severity];
+  const raiseCare = CARE_RANK[floor.care_level] > CARE_RANK[plan.care_level];
+  const raiseUrgency = URGENCY_RANK[floor.urgency] > URGENCY_RANK[plan.urgency];
+  if (!raiseSeverity && !raiseCare && !raiseUrgency) return result;
+
+  const severity = raiseSeverity ? floor.severity : result.severity;
+  const careLevel = raiseCare ? floor.care_level : plan.care_level;
+
+  const override: SafetyOverride = {
+    model_severity: result.severity,
+    model_care_level: plan.care_level,
+    severity,
+    care_level: careLevel,
+    reasons: floor.reasons,
+  };
+
+  console.warn(
+    `[safety-floor] Raised ${result.severity}/${plan.care_level} → ${severity}/${careLevel}: ${floor.reasons.join('; ')}`
+  );
+
+  const isEmergency = severity === 'emergency';
+  return {
+    ...result,
+    is_medical_query: true,
+    severity,
+    // An emergency must not wait on another follow-up round
+    ...(isEmergency ? { needs_follow_up: false, follow_up_question: null, follow_up_options: null } : {}),
+    action_plan: {
+      ...plan,
+      care_level: careLevel,
+      urgency: raiseUrgency ? floor.urgency : plan.urgency,
+      emergency_numbers: isEmergency && !plan.emergency_numbers?.length
+        ? [EMERGENCY_NUMBERS.unified, EMERGENCY_NUMBERS.ambulance]
+        : plan.emergency_numbers,
+    },
+    safety_override: override,
+  };
+}
+
+/**
+ * Add each major medication finding's do_not to the action plan, once. The
+ * model writes do_not lines in the patient's language and starts each with
+ * its finding's id ("[allergy:amoxil+penicillins] …"), so a translated line
+ * counts as covering the finding; the tags are removed here. The English
+ * line is appended only for a major finding no line carries.
+ */
+export function applyMedicationWarnings(
+  result: TriageResult,
+  toolResults: SafetyFloorInput['toolResults']
+): TriageResult {
+  const findings = toolResults
+    .filter((t) => t.name === 'check_medication_safety' && Array.isArray(t.result.findings))
+    .flatMap((t) => t.result.findings as { id?: string; severity?: string; do_not?: string }[]);
+  if (findings.length === 0) return result;
+  const ids = new Set(findings.map((f) => f.id).filter((id): id is string => typeof id === 'string'));
+
+  const covered = new Set<string>();
+  const lines = result.action_plan.do_not.map((line) => {
+    const tag = /^\s*\[([^\]]+)\]\s*/.exec(line);
+    if (!tag || !ids.has(tag[1].trim())) return line;
+    covered.add(tag[1].trim());
+    return line.slice(tag[0].length);
+  });
+
+  const missing = [...new Set(
+    findings
+      .filter((f) => f.severity === 'major' && typeof f.do_not === 'string' && !(f.id && covered.has(f.id)))
+      .map((f) => f.do_not as string)
+  )].filter((w) => !lines.includes(w));
+
+  return {
+    ...result,
+    action_plan: { ...result.action_plan, do_not: [...lines, ...missing] },
+  };
+}
+
+/** One-line summary of an override for triage_sessions */
+export function formatOverrideReason(override: SafetyOverride): string {
+  return `${override.model_severity} → ${override.severity}: ${override.reasons.join('; ')}`;
+}
@@ -0,0 +1,903 @@
+/**
+ * Speech provider abstraction — lets /api/transcribe, /api/tts, /api/tts-stream
+ * and /api/tts-ws run against different speech backends:
+ *   - sarvam: Sarvam AI — Saaras STT and Bulbul TTS, REST and WebSocket (default)
+ *   - local:  an OpenAI-compatible audio server on the same box — e.g.
+ *             faster-whisper-server for /v1/audio/transcriptions and a Piper
+ *             wrapper for /v1/audio/speech — so voice keeps working offline
+ *
+ * The primary provider is chosen per language (SPEECH_PROVIDER, overridden by
+ * SPEECH_PROVIDER_BY_LANGUAGE="en-IN=local,hi-IN=sarvam"). When it errors or
+ * times out the request fails over to the other provider, if that one is
+ * configured and serves the language. Every attempt is recorded with
+ * telemetry.recordTranscribe / recordTTS, tagged with the provider.
+ *
+ * Audio formats are fixed by the interface, not the provider: batch TTS is
+ * WAV, streaming TTS is MP3 (what the browser's MediaSource plays), and
+ * streaming STT takes 16-bit mono PCM.
+ */
+
+import WebSocket from 'ws';
+import { SUPPORTED_LANGUAGES } from './constants';
+import { telemetry } from './telemetry';
+
+// ─── Types ───────────────────────────────────────────
+
+export type SpeechProviderName = 'sarvam' | 'local';
+export type SpeechCapability = 'stt' | 'tts';
+
+export interface TranscribeRequest {
+  audio: Blob;
+  fileName: string;
+  /** BCP-47 speech code ("hi-IN"), or null to auto-detect */
+  languageCode: string | null;
+}
+
+export interface Transcription {
+  transcript: string;
+  /** Language the provider reports, when it reports one */
+  languageCode: string | null;
+}
+
+export interface StreamingTranscribeOptions {
+  languageCode: string | null;
+  /** Sample rate of the 16-bit mono PCM chunks */
+  sampleRate: number;
+}
+
+/**
+ * A partial is the best transcript of everything said so far and replaces
+ * the previous one; the final comes once, after the audio ends.
+ */
+export type TranscriptEvent =
+  | { type: 'partial' | 'final'; transcript: string; languageCode: string | null }
+  | { type: 'speech_start' }
+  | { type: 'speech_end' };
+
+export interface SpeechProvider {
+  readonly name: SpeechProviderName;
+  /** False when required credentials/endpoints are missing */
+  readonly configured: boolean;
+  /** TTS model and speaker — audio from different voices is never interchangeable */
+  readonly voice: string;
+  /** Whether this provider can serve the language (null = auto-detect) */
+  supports(capability: SpeechCapability, languageCode: string | null): boolean;
+  /** Batch STT — one recording in, one transcript out */
+  transcribe(request: TranscribeRequest, signal: AbortSignal): Promise<Transcription>;
+  /** Streaming STT — PCM chunks in, partial transcripts out while speech continues, then a final */
+  transcribeStream(
+    audio: AsyncIterable<Uint8Array>,
+    options: StreamingTranscribeOptions,
+    signal: AbortSignal
+  ): AsyncIterable<TranscriptEvent>;
+  /** Batch TTS — the whole text as one WAV file */
+  synthesize(text: string, languageCode: string, signal: AbortSignal): Promise<Buffer>;
+  /** Streaming TTS — MP3 chunks as they are synthesised */
+  synthesizeStream(text: string, languageCode: string, signal: AbortSignal): AsyncIterable<Buffer>;
+}
+
+/** Error from a speech backend, carrying the HTTP status when there was one */
+export class SpeechProviderError extends Error {
+  constructor(
+    public readonly provider: SpeechProviderName,
+    public readonly status: number | null,
+    message: string
+  ) {
+    super(message);
+    this.name = 'SpeechProviderError';
+  }
+}
+
+/** How long a provider gets before the request fails over */
+const STT_TIMEOUT_MS = 15_000;
+const TTS_TIMEOUT_MS = 15_000;
+/** Streaming TTS must start within this; after that it may run up to STREAM_TIMEOUT_MS */
+const FIRST_CHUNK_TIMEOUT_MS = 8_000;
+const STREAM_TIMEOUT_MS = 30_000;
+/** Per-request text limit for REST TTS — Sarvam's is 500; leave buffer */
+const MAX_CHUNK_CHARS = 480;
+
+// ─── Text helpers ────────────────────────────────────
+
+/** Strip markdown so it isn't read aloud */
+export function toSpeechText(text: string): string {
+  return text
+    .replace(/#{1,3}\s+/g, '')
+    .replace(/\*\*(.+?)\*\*/g, '$1')
+    .replace(/\*(.+?)\*/g, '$1')
+    .replace(/^[-*]\s+/gm, '')
+    .replace(/^\d+\.\s+/gm, '')
+    .trim();
+}
+
+/** Split text into chunks at sentence boundaries, each <= maxLen chars */
+function chunkText(text: string, maxLen: number): string[] {
+  if (text.length <= maxLen) return [text];
+
+  const chunks: string[] = [];
+  let remaining = text;
+
+  while (remaining.length > 0) {
+    if (remaining.length <= maxLen) {
+      chunks.push(remaining);
+      break;
+    }
+
+    // Try to split at sentence boundary (. ! ?)
+    let splitAt = -1;
+    for (let i = maxLen; i >= maxLen / 2; i--) {
+      if ('.!?।'.includes(remaining[i])) {
+        splitAt = i + 1;
+        break;
+      }
+    }
+    // Fallback: split at last space
+    if (splitAt === -1) {
+      splitAt = remaining.lastIndexOf(' ', maxLen);
+    }
+    // Last resort: hard cut
+    if (splitAt <= 0) {
+      splitAt = maxLen;
+    }
+
+    chunks.push(remaining.slice(0, splitAt).trim());
+    remaining = remaining.slice(splitAt).trim();
+  }
+
+  return chunks.filter((c) => c.length > 0);
+}
+
+/** Split text into sentences for streaming playback, each <= maxLen chars */
+export function splitSentences(text: string, maxLen: number): string[] {
+  // Split on sentence-ending punctuation (including Hindi danda)
+  const raw = text.split(/(?<=[.!?।\n])\s+/).filter((s) => s.trim().length > 0);
+
+  // Re-merge any fragments that are too short (< 20 chars) with the previous
+  const merged: string[] = [];
+  for (const s of raw) {
+    if (merged.length > 0 && merged[merged.length - 1].length < 20) {
+      merged[merged.length - 1] += ' ' + s;
+    } else {
+      merged.push(s);
+    }
+  }
+
+  return merged.flatMap((s) => (s.length <= maxLen ? [s] : chunkText(s, maxLen)));
+}
+
+// ─── Audio helpers ───────────────────────────────────
+
+const WAV_HEADER_SIZE = 44;
+
+/** Join WAV files of the same format: header from the first, data from all */
+function concatWav(buffers: Buffer[]): Buffer {
+  if (buffers.length === 1) return buffers[0];
+
+  const dataParts = buffers.map((buf) => buf.subarray(WAV_HEADER_SIZE));
+  const totalDataSize = dataParts.reduce((sum, d) => sum + d.length, 0);
+
+  const header = Buffer.from(buffers[0].subarray(0, WAV_HEADER_SIZE));
+  // Bytes 4-7: file size - 8
+  header.writeUInt32LE(totalDataSize + WAV_HEADER_SIZE - 8, 4);
+  // Bytes 40-43: data chunk size
+  header.writeUInt32LE(totalDataSize, 40);
+
+  return Buffer.concat([header, ...dataParts]);
+}
+
+/** Wrap 16-bit mono PCM in a WAV header */
+function pcmToWav(pcm: Buffer, sampleRate: number): Buffer {
+  const header = Buffer.alloc(WAV_HEADER_SIZE);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(pcm.length + WAV_HEADER_SIZE - 8, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16);             // fmt chunk size
+  header.writeUInt16LE(1, 20);              // PCM
+  header.writeUInt16LE(1, 22);              // mono
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28); // byte rate
+  header.writeUInt16LE(2, 32);              // block align
+  header.writeUInt16LE(16, 34);             // bits per sample
+  header.write('data', 36);
+  header.writeUInt32LE(pcm.length, 40);
+  return Buffer.concat([header, pcm]);
+}
+
+/** Abort signal that fires on the parent's abort or after timeoutMs */
+function withTimeout(parent: AbortSignal | undefined, timeoutMs: number): { signal: AbortSignal; clear: () => void } {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+  const onAbort = () => controller.abort(parent?.reason);
+  if (parent?.aborted) controller.abort(parent.reason);
+  else parent?.addEventListener('abort', onAbort, { once: true });
+  return {
+    signal: controller.signal,
+    clear: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/**
+ * Push-to-pull bridge for callback APIs (WebSocket events) — values pushed
+ * before the consumer asks are buffered, and fail() surfaces on the next read.
+ */
+export function createQueue<T>() {
+  const items: T[] = [];
+  let waiting: (() => void) | null = null;
+  let ended = false;
+  let error: unknown = null;
+
+  const wake = () => {
+    waiting?.();
+    waiting = null;
+  };
+
+  return {
+    push(item: T) {
+      if (ended) return;
+      items.push(item);
+      wake();
+    },
+    end() {
+      ended = true;
+      wake();
+    },
+    fail(err: unknown) {
+      if (ended) return;
+      error = err;
+      ended = true;
+      wake();
+    },
+    async *drain(): AsyncGenerator<T> {
+      while (true) {
+        if (items.length > 0) {
+          yield items.shift()!;
+          continue;
+        }
+        if (error) throw error;
+        if (ended) return;
+        await new Promise<void>((resolve) => { waiting = resolve; });
+      }
+    },
+  };
+}
+
+// ─── Sarvam ──────────────────────────────────────────
+
+const SARVAM_STT_URL = 'https://api.sarvam.ai/speech-to-text';
+const SARVAM_STT_WS_URL = 'wss://api.sarvam.ai/speech-to-text/ws';
+const SARVAM_TTS_URL = 'https://api.sarvam.ai/text-to-speech';
+const SARVAM_TTS_WS_URL = 'wss://api.sarvam.ai/text-to-speech/ws';
+const SARVAM_SPEAKER = 'simran';
+const SARVAM_MAX_STREAM_CHARS = 2500;
+/** How long to wait for the last utterance after a flush */
+const SARVAM_FLUSH_WAIT_MS = 5000;
+
+/** Bulbul has no Urdu voice; Saaras transcribes every supported language */
+const SARVAM_TTS_CODES = new Set(SUPPORTED_LANGUAGES.filter((l) => l.code !== 'ur').map((l) => l.speechCode));
+
+function createSarvamProvider(): SpeechProvider {
+  const apiKey = process.env.SARVAM_API_KEY || '';
+
+  const synthesizeChunk = async (text: string, languageCode: string, signal: AbortSignal): Promise<Buffer> => {
+    const response = await fetch(SARVAM_TTS_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'API-Subscription-Key': apiKey,
+      },
+      body: JSON.stringify({
+        text,
+        target_language_code: languageCode,
+        speaker: SARVAM_SPEAKER,
+        model: 'bulbul:v3',
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      console.error('Sarvam TTS chunk error:', response.status, errorBody);
+      throw new SpeechProviderError('sarvam', response.status, `Sarvam TTS failed: ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (!data.audios || !data.audios[0]) {
+      throw new SpeechProviderError('sarvam', null, 'No audio returned from Sarvam');
+    }
+    return Buffer.from(data.audios[0], 'base64');
+  };
+
+  return {
+    name: 'sarvam',
+    configured: !!apiKey,
+    voice: `bulbul:v3/${SARVAM_SPEAKER}`,
+
+    supports: (capability, languageCode) =>
+      capability === 'stt' || (!!languageCode && SARVAM_TTS_CODES.has(languageCode)),
+
+    async transcribe(request, signal) {
+      // Sarvam rejects MIME types with codec params (e.g. "audio/webm;codecs=opus")
+      // so strip everything after the semicolon to get the base type
+      const cleanType = request.audio.type.split(';')[0] || 'audio/webm';
+      const cleanFile = new File([request.audio], request.fileName, { type: cleanType });
+      const form = new FormData();
+      form.append('file', cleanFile, cleanFile.name);
+      form.append('model', 'saaras:v3');
+      form.append('mode', 'transcribe');
+      // Use language hint or auto-detect (Saaras v3 supports auto-detection)
+      if (request.languageCode) {
+        form.append('language_code', request.languageCode);
+      }
+
+      const response = await fetch(SARVAM_STT_URL, {
+        method: 'POST',
+        headers: { 'API-Subscription-Key': apiKey },
+        body: form,
+        signal,
+      });
+      if (!response.ok) {
+        const errorBody = await response.text();
+        console.error('Sarvam STT error:', response.status, errorBody);
+        throw new SpeechProviderError('sarvam', response.status, `Transcription failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+      return { transcript: data.transcript || '', languageCode: data.language_code || null };
+    },
+
+    /**
+     * Sarvam sends a transcript per utterance as its VAD closes each one;
+     * partials are the utterances so far, joined.
+     */
+    transcribeStream(audio, options, signal) {
+      const queue = createQueue<TranscriptEvent>();
+      const segments: string[] = [];
+      let languageCode: string | null = null;
+      let flushed = false;
+      const params = new URLSearchParams({
+        'language-code': options.languageCode || 'unknown',
+        model: 'saarika:v2.5',
+        vad_signals: 'true',
+      });
+      const ws = new WebSocket(`${SARVAM_STT_WS_URL}?${params}`, {
+        headers: { 'api-subscription-key': apiKey },
+      });
+      const close = () => {
+        if (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING) ws.close();
+      };
+      const finish = () => {
+        queue.push({ type: 'final', transcript: segments.join(' '), languageCode });
+        queue.end();
+        close();
+      };
+      signal.addEventListener('abort', () => {
+        queue.fail(signal.reason ?? new Error('Aborted'));
+        close();
+      }, { once: true });
+
+      ws.on('open', async () => {
+        try {
+          for await (const chunk of audio) {
+            if (signal.aborted || ws.readyState !== WebSocket.OPEN) return;
+            ws.send(JSON.stringify({
+              audio: {
+                data: Buffer.from(chunk).toString('base64'),
+                encoding: 'audio/wav',
+                sample_rate: options.sampleRate,
+              },
+            }));
+          }
+          // End of audio — ask for the last utterance, and finish once it lands
+          if (ws.readyState === WebSocket.OPEN) {
+            flushed = true;
+            ws.send(JSON.stringify({ type: 'flush' }));
+            setTimeout(finish, SARVAM_FLUSH_WAIT_MS);
+          }
+        } catch (err) {
+          queue.fail(err);
+          close();
+        }
+      });
+
+      ws.on('message', (raw) => {
+        try {
+          const msg = JSON.parse(raw.toString());
+          if (msg.type === 'data' && typeof msg.data?.transcript === 'string') {
+            if (msg.data.transcript.trim()) segments.push(msg.data.transcript.trim());
+            languageCode = msg.data.language_code || languageCode;
+            if (flushed) finish();
+            else queue.push({ type: 'partial', transcript: segments.join(' '), languageCode });
+          } else if (msg.type === 'events' && msg.data?.signal_type === 'START_SPEECH') {
+            queue.push({ type: 'speech_start' });
+          } else if (msg.type === 'events' && msg.data?.signal_type === 'END_SPEECH') {
+            queue.push({ type: 'speech_end' });
+          } else if (msg.type === 'error') {
+            queue.fail(new SpeechProviderError('sarvam', null, msg.data?.message || 'Sarvam streaming STT failed'));
+            close();
+          }
+        } catch {
+          // Skip malformed messages
+        }
+      });
+
+      ws.on('error', (err) => queue.fail(new SpeechProviderError('sarvam', null, `Sarvam STT WebSocket error: ${err.message}`)));
+      // Closed before the flush was answered — what was heard is still the answer
+      ws.on('close', finish);
+
+      return queue.drain();
+    },
+
+    async synthesize(text, languageCode, signal) {
+      // Synthesize all chunks in parallel for multi-chunk responses (3-5x faster)
+      const chunks = chunkText(text, MAX_CHUNK_CHARS);
+      return concatWav(await Promise.all(chunks.map((chunk) => synthesizeChunk(chunk, languageCode, signal))));
+    },
+
+    /**
+     * One WebSocket handles up to 2500 chars — Sarvam splits sentences itself
+     * and sends progressive MP3, first chunk in ~200-300ms.
+     */
+    synthesizeStream(text, languageCode, signal) {
+      const queue = createQueue<Buffer>();
+      const ws = new WebSocket(`${SARVAM_TTS_WS_URL}?model=bulbul:v3&send_completion_event=true`, {
+        headers: { 'api-subscription-key': apiKey },
+      });
+      const close = () => {
+        if (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING) ws.close();
+      };
+      signal.addEventListener('abort', () => {
+        queue.fail(signal.reason ?? new Error('Aborted'));
+        close();
+      }, { once: true });
+
+      ws.on('open', () => {
+        ws.send(JSON.stringify({
+          type: 'config',
+          data: {
+            target_language_code: languageCode,
+            speaker: SARVAM_SPEAKER,
+            pace: 1.0,
+            temperature: 0.6,
+            speech_sample_rate: 24000,
+            output_audio_codec: 'mp3',
+            output_audio_bitrate: '128k',
+            min_buffer_size: 30,   // Minimum for fastest first audio
+            max_chunk_length: 150, // Natural sentence boundaries
+            enable_preprocessing: true,
+          },
+        }));
+        ws.send(JSON.stringify({ type: 'text', data: { text: text.slice(0, SARVAM_MAX_STREAM_CHARS) } }));
+        // Flush to process any remaining buffer
+        ws.send(JSON.stringify({ type: 'flush' }));
+      });
+
+      ws.on('message', (raw) => {
+        try {
+          const msg = JSON.parse(raw.toString());
+          if (msg.type === 'audio' && msg.data?.audio) {
+            queue.push(Buffer.from(msg.data.audio, 'base64'));
+          } else if (msg.type === 'event' && msg.data?.event_type === 'final') {
+            queue.end();
+            close();
+          } else if (msg.type === 'error') {
+            queue.fail(new SpeechProviderError('sarvam', null, msg.data?.message || 'Sarvam streaming TTS failed'));
+            close();
+          }
+        } catch {
+          // Skip malformed messages
+        }
+      });
+
+      ws.on('error', (err) => queue.fail(new SpeechProviderError('sarvam', null, `Sarvam TTS WebSocket error: ${err.message}`)));
+      ws.on('close', () => queue.end());
+
+      return queue.drain();
+    },
+  };
+}
+
+// ─── Local (OpenAI-compatible audio server) ──────────
+
+/** Whisper covers every supported language except Odia */
+const DEFAULT_LOCAL_STT_CODES = SUPPORTED_LANGUAGES.filter((l) => l.code !== 'or').map((l) => l.speechCode).join(',');
+/** Re-transcription interval for local streaming partials */
+const LOCAL_PARTIAL_EVERY_MS = 2000;
+/** Piper voices exist for few Indian languages — list the ones installed */
+const DEFAULT_LOCAL_TTS_CODES = 'en-IN,hi-IN';
+
+function parseCodes(value: string): Set<string> {
+  return new Set(value.split(',').map((c) => c.trim()).filter(Boolean));
+}
+
+function createLocalProvider(): SpeechProvider {
+  const baseUrl = (process.env.LOCAL_SPEECH_URL || '').replace(/\/+$/, '');
+  const apiKey = process.env.LOCAL_SPEECH_API_KEY;
+  const sttModel = process.env.LOCAL_STT_MODEL || 'whisper-1';
+  const ttsModel = process.env.LOCAL_TTS_MODEL || 'tts-1';
+  const ttsVoice = process.env.LOCAL_TTS_VOICE || 'alloy';
+  const sttCodes = parseCodes(process.env.LOCAL_STT_LANGUAGES || DEFAULT_LOCAL_STT_CODES);
+  const ttsCodes = parseCodes(process.env.LOCAL_TTS_LANGUAGES || DEFAULT_LOCAL_TTS_CODES);
+  const auth: Record<string, string> = apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+
+  const fail = async (response: Response, what: string): Promise<never> => {
+    const errorBody = await response.text().catch(() => '');
+    console.error(`Local ${what} error:`, response.status, errorBody.slice(0, 200));
+    throw new SpeechProviderError('local', response.status, `Local ${what} failed: ${response.status}`);
+  };
+
+  const speech = async (text: string, format: 'wav' | 'mp3', signal: AbortSignal): Promise<Buffer> => {
+    const response = await fetch(`${baseUrl}/v1/audio/speech`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...auth },
+      body: JSON.stringify({ model: ttsModel, input: text, voice: ttsVoice, response_format: format }),
+      signal,
+    });
+    if (!response.ok) await fail(response, 'TTS');
+    return Buffer.from(await response.arrayBuffer());
+  };
+
+  const transcribe = async (request: TranscribeRequest, signal: AbortSignal): Promise<Transcription> => {
+    const form = new FormData();
+    form.append('file', request.audio, request.fileName);
+    form.append('model', sttModel);
+    form.append('response_format', 'json');
+    // Whisper takes ISO 639-1 codes ("hi"), not speech codes ("hi-IN")
+    if (request.languageCode) form.append('language', request.languageCode.split('-')[0]);
+
+    const response = await fetch(`${baseUrl}/v1/audio/transcriptions`, {
+      method: 'POST',
+      headers: auth,
+      body: form,
+      signal,
+    });
+    if (!response.ok) await fail(response, 'STT');
+
+    const data = await response.json();
+    return { transcript: typeof data.text === 'string' ? data.text.trim() : '', languageCode: request.languageCode };
+  };
+
+  return {
+    name: 'local',
+    configured: !!baseUrl,
+    voice: `${ttsModel}/${ttsVoice}`,
+
+    supports: (capability, languageCode) => {
+      const codes = capability === 'stt' ? sttCodes : ttsCodes;
+      // Auto-detect goes to Whisper only when it serves more than one language
+      return languageCode ? codes.has(languageCode) : capability === 'stt' && codes.size > 1;
+    },
+
+    transcribe,
+
+    /**
+     * Whisper servers don't stream, so partials come from re-transcribing
+     * everything heard so far every LOCAL_PARTIAL_EVERY_MS of new audio —
+     * one request at a time — and the final from the complete recording.
+     */
+    transcribeStream(audio, options, signal) {
+      const queue = createQueue<TranscriptEvent>();
+      const chunks: Buffer[] = [];
+      const partialBytes = Math.round((options.sampleRate * 2 * LOCAL_PARTIAL_EVERY_MS) / 1000);
+      let bytesSincePartial = 0;
+      let pending: Promise<void> | null = null;
+      let ended = false;
+
+      const transcribeSoFar = () => transcribe({
+        audio: new Blob([new Uint8Array(pcmToWav(Buffer.concat(chunks), options.sampleRate))], { type: 'audio/wav' }),
+        fileName: 'stream.wav',
+        languageCode: options.languageCode,
+      }, signal);
+
+      (async () => {
+        for await (const chunk of audio) {
+          if (signal.aborted) return;
+          chunks.push(Buffer.from(chunk));
+          bytesSincePartial += chunk.length;
+          if (bytesSincePartial >= partialBytes && !pending) {
+            bytesSincePartial = 0;
+            pending = transcribeSoFar()
+              .then((result) => { if (!ended && result.transcript) queue.push({ type: 'partial', ...result }); })
+              // A failed partial isn't fatal — the final is what counts
+              .catch(() => {})
+              .finally(() => { pending = null; });
+          }
+        }
+        await pending;
+        ended = true;
+        queue.push({ type: 'final', ...(await transcribeSoFar()) });
+        queue.end();
+      })().catch((err) => queue.fail(err));
+
+      return queue.drain();
+    },
+
+    synthesize: (text, _languageCode, signal) => speech(text, 'wav', signal),
+
+    /** Sentence by sentence, so the first one plays while the rest synthesise */
+    async *synthesizeStream(text, _languageCode, signal) {
+      for (const sentence of splitSentences(text, MAX_CHUNK_CHARS)) {
+        yield await speech(sentence, 'mp3', signal);
+      }
+    },
+  };
+}
+
+// ─── Selection ───────────────────────────────────────
+
+let cachedProviders: Record<SpeechProviderName, SpeechProvider> | null = null;
+
+function getProviders(): Record<SpeechProviderName, SpeechProvider> {
+  return (cachedProviders ??= { sarvam: createSarvamProvider(), local: createLocalProvider() });
+}
+
+function toProviderName(value: string | undefined): SpeechProviderName | null {
+  const name = value?.trim().toLowerCase();
+  return name === 'sarvam' || name === 'local' ? name : null;
+}
+
+/** Primary provider for a language — SPEECH_PROVIDER_BY_LANGUAGE, then SPEECH_PROVIDER, then Sarvam */
+function primaryFor(languageCode: string | null): SpeechProviderName {
+  if (languageCode) {
+    for (const entry of (process.env.SPEECH_PROVIDER_BY_LANGUAGE || '').split(',')) {
+      const [code, name] = entry.split('=');
+      const provider = toProviderName(name);
+      if (code?.trim() === languageCode && provider) return provider;
+    }
+  }
+  return toProviderName(process.env.SPEECH_PROVIDER) ?? 'sarvam';
+}
+
+/**
+ * Providers to try for a request, in order: the language's primary, then
+ * the fallback. Only configured providers that serve the language are listed.
+ */
+export function getSpeechProviders(capability: SpeechCapability, languageCode: string | null): SpeechProvider[] {
+  const providers = getProviders();
+  const primary = primaryFor(languageCode);
+  const order: SpeechProviderName[] = primary === 'sarvam' ? ['sarvam', 'local'] : ['local', 'sarvam'];
+  return order
+    .map((name) => providers[name])
+    .filter((p) => p.configured && p.supports(capability, languageCode));
+}
+
+/** Thrown when no configured provider serves the language */
+export class SpeechUnavailableError extends Error {
+  constructor(capability: SpeechCapability, languageCode: string | null) {
+    super(`No ${capability === 'stt' ? 'speech-to-text' : 'text-to-speech'} provider configured${languageCode ? ` for ${languageCode}` : ''}`);
+    this.name = 'SpeechUnavailableError';
+  }
+}
+
+// ─── Failover ────────────────────────────────────────
+
+function recordAttempt(
+  capability: SpeechCapability,
+  event: { provider: SpeechProviderName; fallback: boolean; language: string; textLength: number; startTime: number; success: boolean }
+): void {
+  const common = {
+    timestamp: event.startTime,
+    language: event.language,
+    latencyMs: Date.now() - event.startTime,
+    success: event.success,
+    provider: event.provider,
+    fallback: event.fallback,
+  };
+  if (capability === 'stt') telemetry.recordTranscribe(common);
+  else telemetry.recordTTS({ ...common, textLength: event.textLength });
+}
+
+/** Run one batch call against each provider in turn until one succeeds */
+async function withFailover<T>(
+  capability: SpeechCapability,
+  languageCode: string | null,
+  textLength: number,
+  timeoutMs: number,
+  signal: AbortSignal | undefined,
+  call: (provider: SpeechProvider, signal: AbortSignal) => Promise<T>
+): Promise<{ result: T; provider: SpeechProviderName }> {
+  const providers = getSpeechProviders(capability, languageCode);
+  if (providers.length === 0) throw new SpeechUnavailableError(capability, languageCode);
+
+  let lastError: unknown = null;
+  for (const [i, provider] of providers.entries()) {
+    const startTime = Date.now();
+    const attempt = withTimeout(signal, timeoutMs);
+    try {
+      const result = await call(provider, attempt.signal);
+      recordAttempt(capability, { provider: provider.name, fallback: i > 0, language: languageCode || 'unknown', textLength, startTime, success: true });
+      return { result, provider: provider.name };
+    } catch (err) {
+      lastError = err;
+      recordAttempt(capability, { provider: provider.name, fallback: i > 0, language: languageCode || 'unknown', textLength, startTime, success: false });
+      // The caller went away — don't spend another provider on it
+      if (signal?.aborted) throw err;
+      if (i < providers.length - 1) {
+        console.warn(`[speech] ${provider.name} ${capability} failed, failing over to ${providers[i + 1].name}:`, err instanceof Error ? err.message : err);
+      }
+    } finally {
+      attempt.clear();
+    }
+  }
+  throw lastError;
+}
+
+/**
+ * Stream from each provider in turn. A provider that fails before its first
+ * item is replaced by the next; once items have been sent, an error is
+ * recorded as a failure and rethrown so the caller knows the output is
+ * incomplete. firstItemMs (TTS only — a listener
+ * may stay silent for a while) treats a provider that hasn't started in
+ * time as down.
+ */
+async function* streamWithFailover<T>(
+  capability: SpeechCapability,
+  languageCode: string | null,
+  textLength: number,
+  timing: { firstItemMs: number | null; totalMs: number | null },
+  signal: AbortSignal | undefined,
+  open: (provider: SpeechProvider, signal: AbortSignal) => AsyncIterable<T>
+): AsyncGenerator<T> {
+  const providers = getSpeechProviders(capability, languageCode);
+  if (providers.length === 0) throw new SpeechUnavailableError(capability, languageCode);
+
+  for (const [i, provider] of providers.entries()) {
+    const startTime = Date.now();
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const firstItemTimer = timing.firstItemMs === null ? null : setTimeout(
+      () => controller.abort(new Error(`Nothing received within ${timing.firstItemMs}ms`)),
+      timing.firstItemMs
+    );
+    const totalTimer = timing.totalMs === null ? null : setTimeout(
+      () => controller.abort(new Error(`Timed out after ${timing.totalMs}ms`)),
+      timing.totalMs
+    );
+
+    let started = false;
+    const record = (success: boolean) => recordAttempt(capability, {
+      provider: provider.name, fallback: i > 0, language: languageCode || 'unknown', textLength, startTime, success,
+    });
+    try {
+      for await (const item of open(provider, controller.signal)) {
+        if (!started) {
+          started = true;
+          if (firstItemTimer) clearTimeout(firstItemTimer);
+        }
+        yield item;
+      }
+      record(true);
+      return;
+    } catch (err) {
+      // The caller hanging up mid-stream isn't the provider's failure
+      record(started && !!signal?.aborted);
+      if (started) {
+        // Too late to fail over — the caller must know the output was cut short
+        console.error(`[speech] ${provider.name} ${capability} stream failed mid-way:`, err instanceof Error ? err.message : err);
+        throw err;
+      }
+      if (signal?.aborted || i === providers.length - 1) throw err;
+      console.warn(`[speech] ${provider.name} ${capability} stream failed, failing over to ${providers[i + 1].name}:`, err instanceof Error ? err.message : err);
+    } finally {
+      if (firstItemTimer) clearTimeout(firstItemTimer);
+      if (totalTimer) clearTimeout(totalTimer);
+      signal?.removeEventListener('abort', onAbort);
+      // Stop the provider if the consumer stopped reading early
+      controller.abort();
+    }
+  }
+}
+
+// ─── Hallucination check ─────────────────────────────
+
+// Common hallucination phrases — Sarvam hallucinates these from silence/noise
+const HALLUCINATION_KEYWORDS = [
+  'welcome to', 'subscribe', 'channel', 'like and share',
+  'video', 'samsung', 'galaxy', 'iphone', 'review',
+  'unboxing', 'best phone', 'manufacturer', 'this video',
+  'another video', 'our channel', 'my channel',
+  'engine and tires', 'raj kumar', 'press the bell',
+  'notification', 'comment below',
+];
+
+/**
+ * Sarvam and Whisper both hallucinate long text from very short/quiet audio.
+ * Classic signatures:
+ *   1. Tiny/silent audio produces long transcripts (YouTube intros, product reviews)
+ *   2. Repetitive phrases (same sentence 3+ times)
+ *   3. Common hallucination content (subscribe, channel, review, etc.)
+ *
+ * Thresholds are in compressed (webm/opus) bytes — raw 16 kHz PCM is about
+ * 8× larger, so callers scale it down first.
+ */
+export function isLikelyHallucination(transcript: string, audioBytes: number): boolean {
+  const audioBytesPerCharRatio = audioBytes / Math.max(transcript.length, 1);
+  const lowerTranscript = transcript.toLowerCase();
+  const hallucinationKeywordHits = HALLUCINATION_KEYWORDS.filter(kw => lowerTranscript.includes(kw)).length;
+
+  return (
+    // Tiny audio producing a novel
+    (audioBytes < 100_000 && transcript.length > 150) ||
+    // Extremely low bytes-per-char ratio (normal speech: ~200-500 bytes/char)
+    (audioBytesPerCharRatio < 50 && transcript.length > 100) ||
+    // Repetitive phrases (hallucination signature: same phrase 3+ times)
+    /(.{15,})\1{2,}/i.test(transcript) ||
+    // Contains 2+ hallucination keywords — almost certainly not real medical speech
+    hallucinationKeywordHits >= 2 ||
+    // Single hallucination keyword + short audio = very likely noise
+    (hallucinationKeywordHits >= 1 && audioBytes < 200_000)
+  );
+}
+
+// ─── Public API ──────────────────────────────────────
+
+/** Batch STT with failover */
+export function transcribeSpeech(request: TranscribeRequest, signal?: AbortSignal) {
+  return withFailover('stt', request.languageCode, 0, STT_TIMEOUT_MS, signal,
+    (provider, s) => provider.transcribe(request, s));
+}
+
+/** Batch TTS with failover — returns WAV */
+export function synthesizeSpeech(text: string, languageCode: string, signal?: AbortSignal) {
+  return withFailover('tts', languageCode, text.length, TTS_TIMEOUT_MS, signal,
+    (provider, s) => provider.synthesize(text, languageCode, s));
+}
+
+/**
+ * Streaming TTS with failover until the first chunk — yields MP3.
+ * onProvider hears each provider as it is tried; the last one heard is the
+ * one whose audio came through.
+ */
+export function streamSpeech(
+  text: string,
+  languageCode: string,
+  signal?: AbortSignal,
+  onProvider?: (provider: SpeechProvider) => void
+): AsyncGenerator<Buffer> {
+  return streamWithFailover('tts', languageCode, text.length, { firstItemMs: FIRST_CHUNK_TIMEOUT_MS, totalMs: STREAM_TIMEOUT_MS }, signal,
+    (provider, s) => {
+      onProvider?.(provider);
+      return provider.synthesizeStream(text, languageCode, s);
+    });
+}
+
+/**
+ * Streaming STT with failover until the first event. Audio read before the
+ * switch is replayed to the fallback provider, so nothing said is lost.
+ */
+export async function* streamTranscription(
+  audio: AsyncIterable<Uint8Array>,
+  options: StreamingTranscribeOptions,
+  signal?: AbortSignal
+): AsyncGenerator<TranscriptEvent> {
+  const source = audio[Symbol.asyncIterator]();
+  // Kept only until a provider commits — after that there is no failover
+  let received: Uint8Array[] | null = [];
+  let sourceDone = false;
+
+  const replay = (): AsyncIterable<Uint8Array> => ({
+    async *[Symbol.asyncIterator]() {
+      yield* received ? [...received] : [];
+      while (!sourceDone) {
+        const next = await source.next();
+        if (next.done) {
+          sourceDone = true;
+          return;
+        }
+        received?.push(next.value);
+        yield next.value;
+      }
+    },
+  });
+
+  const events = streamWithFailover('stt', options.languageCode, 0, { firstItemMs: null, totalMs: null }, signal,
+    (provider, s) => provider.transcribeStream(replay(), options, s));
+  for await (const event of events) {
+    received = null;
+    yield event;
+  }
+}
@@ -10,6 +10,7 @@
 
 import { Severity, Language } from '@/types';
 import { saveTelemetryEvent } from '@/lib/db';
+import { LANGUAGE_CODES } from '@/lib/constants';
 
 export type InputMode = 'text' | 'voice' | 'voice_conversation';
 
@@ -31,6 +32,10 @@ export interface TranscribeEvent {
   language: string;
   latencyMs: number;
   success: boolean;
+  /** Speech provider that handled this attempt */
+  provider?: string;
+  /** True when this attempt was a failover after the primary provider failed */
+  fallback?: boolean;
 }
 
 export interface TTSEvent {
@@ -39,6 +44,16 @@ export interface TTSEvent {
   textLength: number;
   latencyMs: number;
   success: boolean;
+  provider?: string;
+  fallback?: boolean;
+}
+
+/** Schema validation outcome for one final triage result */
+export interface ValidationEvent {
+  timestamp: number;
+  issueCount: number;
+  repairAttempted: boolean;
+  valid: boolean;
 }
 
 function avg(nums: number[]): number {
@@ -46,6 +61,23 @@ function avg(nums: number[]): number {
   return Math.round(nums.reduce((a, b) => a + b, 0) / nums.length);
 }
 
+/** Per-provider request count, success rate and latency for one speech capability */
+function providerStats(events: { provider?: string; success: boolean; latencyMs: number; fallback?: boolean }[]) {
+  const byProvider = new Map<string, typeof events>();
+  for (const e of events) {
+    const name = e.provider ?? 'unknown';
+    const list = byProvider.get(name) ?? [];
+    list.push(e);
+    byProvider.set(name, list);
+  }
+  return Object.fromEntries([...byProvider].map(([name, list]) => [name, {
+    requests: list.length,
+    successRate: Math.round((list.filter(e => e.success).length / list.length) * 100),
+    avgMs: avg(list.filter(e => e.success).map(e => e.latencyMs)),
+    fallbacks: list.filter(e => e.fallback).length,
+  }]));
+}
+
 function p95(nums: number[]): number {
   if (nums.length === 0) return 0;
   const sorted = [...nums].sort((a, b) => a - b);
@@ -57,6 +89,7 @@ class TelemetryStore {
   private triageEvents: TriageEvent[] = [];
   private transcribeEvents: TranscribeEvent[] = [];
   private ttsEvents: TTSEvent[] = [];
+  private validationEvents: ValidationEvent[] = [];
   private readonly maxEvents = 10000;
   private readonly startTime = Date.now();
 
@@ -88,6 +121,7 @@ class TelemetryStore {
       language: event.language,
       latency_ms: event.latencyMs,
       success: event.success,
+      provider: event.provider ?? null,
     });
   }
 
@@ -102,6 +136,19 @@ class TelemetryStore {
       text_length: event.textLength,
       latency_ms: event.latencyMs,
       success: event.success,
+      provider: event.provider ?? null,
+    });
+  }
+
+  recordValidation(event: ValidationEvent) {
+    this.validationEvents.push(event);
+    if (this.validationEvents.length > this.maxEvents) {
+      this.validationEvents = this.validationEvents.slice(-this.maxEvents);
+    }
+    saveTelemetryEvent({
+      event_type: 'validation',
+      had_error: event.repairAttempted,
+      success: event.valid,
     });
   }
 
@@ -113,6 +160,8 @@ class TelemetryStore {
     const recent = this.triageEvents.filter(e => e.timestamp > last24h);
     const recentSTT = this.transcribeEvents.filter(e => e.timestamp > last24h);
     const recentTTS = this.ttsEvents.filter(e => e.timestamp > last24h);
+    const recentValidation = this.validationEvents.filter(e => e.timestamp > last24h);
+    const repaired = recentValidation.filter(e => e.repairAttempted);
     const completed = recent.filter(e => !e.hadError && e.severity !== null);
 
     // Unique languages actually used
@@ -125,7 +174,8 @@ class TelemetryStore {
       // ── Impact KPIs ──
       totalTriages: this.triageEvents.length,
       totalEmergenciesDetected: this.triageEvents.filter(e => e.isEmergency).length,
-      totalVoiceSessions: this.transcribeEvents.length,
+      // Failover attempts belong to a request already counted
+      totalVoiceSessions: this.transcribeEvents.filter(e => !e.fallback).length,
       languagesServed: langsUsed.size,
       voiceUsagePercent: recent.length > 0
         ? Math.round((voiceCount / recent.length) * 100) : 0,
@@ -145,7 +195,7 @@ class TelemetryStore {
       },
 
       // ── Language Distribution (last 24h) ──
-      languageDistribution: (['hi', 'ta', 'te', 'mr', 'kn', 'bn', 'en'] as Language[]).reduce(
+      languageDistribution: LANGUAGE_CODES.reduce(
         (acc, lang) => {
           acc[lang] = recent.filter(e => e.language === lang).length;
           return acc;
@@ -183,8 +233,22 @@ class TelemetryStore {
           ? Math.round((recentSTT.filter(e => e.success).length / recentSTT.length) * 100) : 0,
         ttsSuccessRate: recentTTS.length > 0
           ? Math.round((recentTTS.filter(e => e.success).length / recentTTS.length) * 100) : 0,
-        totalSTTRequests: recentSTT.length,
-        totalTTSRequests: recentTTS.length,
+        totalSTTRequests: recentSTT.filter(e => !e.fallback).length,
+        totalTTSRequests: recentTTS.filter(e => !e.fallback).length,
+        failovers: recentSTT.filter(e => e.fallback).length + recentTTS.filter(e => e.fallback).length,
+        providers: {
+          stt: providerStats(recentSTT),
+          tts: providerStats(recentTTS),
+        },
+      },
+
+      // ── Result Schema Validation (last 24h) ──
+      validation: {
+        resultsChecked: recentValidation.length,
+        repairsNeeded: repaired.length,
+        repairsSucceeded: repaired.filter(e => e.valid).length,
+        repairRate: recentValidation.length > 0
+          ? Math.round((repaired.length / recentValidation.length) * 100) : 0,
       },
 
       // ── Error Rates (last 24h) ──
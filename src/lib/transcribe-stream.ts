@@ -0,0 +1,187 @@
+/**
+ * Live transcription sessions for /api/transcribe-stream.
+ *
+ * The browser sends its microphone audio as a run of small POSTs (raw 16-bit
+ * PCM, numbered by seq) while the patient is still speaking. Each session
+ * feeds those chunks into one streamTranscription run and keeps the latest
+ * partial transcript, so every POST can answer with what has been heard so
+ * far. The last POST marks the end of the audio and waits for the final.
+ *
+ * Sessions live in this process and are dropped once idle for
+ * SESSION_IDLE_MS — a patient who closes the tab mid-sentence leaves nothing
+ * running. On a multi-instance deploy a chunk can reach an instance without
+ * the session: it gets a 404, and the client reopens the session there with
+ * all its audio so far, or falls back to batch /api/transcribe.
+ */
+
+import { createQueue, isLikelyHallucination, streamTranscription } from './speech-provider';
+
+// ─── Types ───────────────────────────────────────────
+
+export interface TranscribeSession {
+  id: string;
+  /** Owner — null for anonymous patients */
+  clerkUserId: string | null;
+  languageCode: string | null;
+  sampleRate: number;
+  /** seq the next chunk must carry */
+  nextSeq: number;
+  audioBytes: number;
+  partial: string;
+  final: string | null;
+  detectedLanguage: string | null;
+  error: Error | null;
+  ended: boolean;
+  lastActivity: number;
+  push(chunk: Uint8Array): void;
+  end(): void;
+  abort(): void;
+  /** Settles when the provider has produced the final transcript or failed */
+  finished: Promise<void>;
+}
+
+export class TranscribeSessionError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'TranscribeSessionError';
+  }
+}
+
+// ─── Session store ───────────────────────────────────
+
+const SESSION_IDLE_MS = 30_000;
+const MAX_SESSIONS = 200;
+/** ~32s of 16 kHz mono 16-bit audio — the recorder stops at 30s */
+export const MAX_SESSION_AUDIO_BYTES = 1024 * 1024;
+
+const sessions = new Map<string, TranscribeSession>();
+
+function sweep(now = Date.now()): void {
+  for (const [id, session] of sessions) {
+    if (now - session.lastActivity > SESSION_IDLE_MS) {
+      session.abort();
+      sessions.delete(id);
+    }
+  }
+}
+
+/** Start a session — the provider connection opens on the first chunk */
+export function openTranscribeSession(
+  clerkUserId: string | null,
+  languageCode: string | null,
+  sampleRate: number
+): TranscribeSession {
+  sweep();
+  if (sessions.size >= MAX_SESSIONS) {
+    throw new TranscribeSessionError(503, 'Too many live transcriptions. Please try again shortly.');
+  }
+
+  const audio = createQueue<Uint8Array>();
+  const controller = new AbortController();
+
+  const session: TranscribeSession = {
+    id: crypto.randomUUID(),
+    clerkUserId,
+    languageCode,
+    sampleRate,
+    nextSeq: 0,
+    audioBytes: 0,
+    partial: '',
+    final: null,
+    detectedLanguage: null,
+    error: null,
+    ended: false,
+    lastActivity: Date.now(),
+    push: (chunk) => audio.push(chunk),
+    end: () => {
+      session.ended = true;
+      audio.end();
+    },
+    abort: () => {
+      audio.end();
+      controller.abort(new Error('Transcription session closed'));
+    },
+    finished: Promise.resolve(),
+  };
+
+  session.finished = (async () => {
+    try {
+      for await (const event of streamTranscription(audio.drain(), { languageCode, sampleRate }, controller.signal)) {
+        if (event.type !== 'partial' && event.type !== 'final') continue;
+        session.detectedLanguage = event.languageCode || session.detectedLanguage;
+        if (event.type === 'partial') {
+          session.partial = event.transcript;
+          continue;
+        }
+        // Raw PCM is ~8× the size of the compressed clips the check was tuned on
+        session.final = isLikelyHallucination(event.transcript, session.audioBytes / 8) ? '' : event.transcript;
+        if (!session.final && event.transcript) {
+          console.warn('[transcribe-stream] Hallucination detected, rejecting:', {
+            audioBytes: session.audioBytes,
+            preview: event.transcript.slice(0, 80),
+          });
+        }
+      }
+      if (session.final === null && !controller.signal.aborted) {
+        session.final = session.partial;
+      }
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        session.error = err instanceof Error ? err : new Error(String(err));
+        console.error('[transcribe-stream] Transcription failed:', session.error.message);
+      }
+    }
+  })();
+
+  sessions.set(session.id, session);
+  return session;
+}
+
+/** A live session owned by this caller — null when unknown, expired or someone else's */
+export function getTranscribeSession(id: string, clerkUserId: string | null): TranscribeSession | null {
+  const session = sessions.get(id);
+  if (!session || session.clerkUserId !== clerkUserId) return null;
+  return session;
+}
+
+/**
+ * Add the next chunk of audio. Chunks must arrive in seq order — the client
+ * sends one at a time — so a gap means a lost request and the session is
+ * no longer usable.
+ */
+export function appendTranscribeAudio(session: TranscribeSession, seq: number, chunk: Uint8Array, end: boolean): void {
+  if (session.ended) throw new TranscribeSessionError(409, 'Transcription already ended');
+  if (seq !== session.nextSeq) {
+    throw new TranscribeSessionError(409, `Expected chunk ${session.nextSeq}, got ${seq}`);
+  }
+  if (session.audioBytes + chunk.length > MAX_SESSION_AUDIO_BYTES) {
+    throw new TranscribeSessionError(413, 'Recording too long. Please record a shorter message.');
+  }
+
+  session.nextSeq++;
+  session.lastActivity = Date.now();
+  if (chunk.length > 0) {
+    session.audioBytes += chunk.length;
+    session.push(chunk);
+  }
+  if (end) session.end();
+}
+
+/** Wait for the final transcript, up to timeoutMs — then drop the session */
+export async function finishTranscribeSession(session: TranscribeSession, timeoutMs: number): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const timedOut = new Promise<void>((resolve) => { timer = setTimeout(resolve, timeoutMs); });
+  await Promise.race([session.finished, timedOut]);
+  if (timer) clearTimeout(timer);
+
+  if (session.final === null && !session.error) {
+    session.error = new Error('Timed out waiting for the final transcript');
+  }
+  session.abort();
+  sessions.delete(session.id);
+}
+
+export function closeTranscribeSession(session: TranscribeSession): void {
+  session.abort();
+  sessions.delete(session.id);
+}
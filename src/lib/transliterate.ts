@@ -0,0 +1,223 @@
+/**
+ * Transliteration + normalization for keyword matching across scripts.
+ *
+ * Patients type the same word many ways: "सीने में दर्द", "seene mein dard",
+ * "sine me dard". toCanonical() maps any of them to one lossy Latin skeleton
+ * ("sine me trt") so a native-script keyword list also matches its romanized
+ * and mixed-script variants:
+ *
+ *   1. Indic → Latin. Every Brahmic Unicode block (Devanagari, Bengali,
+ *      Gurmukhi, Gujarati, Odia, Tamil, Telugu, Kannada, Malayalam) shares
+ *      Devanagari's 128-code-point layout, so one offset table covers them all.
+ *   2. Skeleton. Drop what romanizers disagree on — aspiration (dh/d),
+ *      voicing (Tamil script doesn't mark it), vowel length (aa/a, ee/i),
+ *      nasalization, doubled letters and the non-initial short "a" (schwa
+ *      deletion).
+ *
+ * Urdu's Perso-Arabic script doesn't write most vowels, so it isn't
+ * transliterated; romanized Urdu still matches the Hindi keyword lists.
+ *
+ * The skeleton is only for matching — never show it to users.
+ * Used by detectEmergency, detectSymptomPattern and generateAcknowledgment.
+ */
+
+// ─── Indic → Latin ───────────────────────────────────
+
+const INDIC_START = 0x0900;
+const INDIC_END = 0x0d7f;
+
+/** Independent vowels, by offset within a script block */
+const VOWELS: Record<number, string> = {
+  0x05: 'a', 0x06: 'aa', 0x07: 'i', 0x08: 'ii', 0x09: 'u', 0x0a: 'uu', 0x0b: 'ri', 0x0c: 'li',
+  0x0d: 'e', 0x0e: 'e', 0x0f: 'e', 0x10: 'ai', 0x11: 'o', 0x12: 'o', 0x13: 'o', 0x14: 'au',
+  0x60: 'rii', 0x61: 'lii',
+};
+
+/** Dependent vowel signs (matras) */
+const VOWEL_SIGNS: Record<number, string> = {
+  0x3e: 'aa', 0x3f: 'i', 0x40: 'ii', 0x41: 'u', 0x42: 'uu', 0x43: 'ri', 0x44: 'rii',
+  0x45: 'e', 0x46: 'e', 0x47: 'e', 0x48: 'ai', 0x49: 'o', 0x4a: 'o', 0x4b: 'o', 0x4c: 'au',
+  0x57: '', 0x62: 'li', 0x63: 'lii',
+};
+
+const CONSONANTS: Record<number, string> = {
+  0x15: 'k', 0x16: 'kh', 0x17: 'g', 0x18: 'gh', 0x19: 'n',
+  0x1a: 'ch', 0x1b: 'chh', 0x1c: 'j', 0x1d: 'jh', 0x1e: 'n',
+  0x1f: 't', 0x20: 'th', 0x21: 'd', 0x22: 'dh', 0x23: 'n',
+  0x24: 't', 0x25: 'th', 0x26: 'd', 0x27: 'dh', 0x28: 'n', 0x29: 'n',
+  0x2a: 'p', 0x2b: 'ph', 0x2c: 'b', 0x2d: 'bh', 0x2e: 'm',
+  0x2f: 'y', 0x30: 'r', 0x31: 'r', 0x32: 'l', 0x33: 'l', 0x34: 'zh', 0x35: 'v',
+  0x36: 'sh', 0x37: 'sh', 0x38: 's', 0x39: 'h',
+  // Precomposed nukta forms (Devanagari क़ ख़ ग़ ज़ ड़ ढ़ फ़ य़)
+  0x58: 'k', 0x59: 'kh', 0x5a: 'g', 0x5b: 'z', 0x5c: 'd', 0x5d: 'dh', 0x5e: 'f', 0x5f: 'y',
+};
+
+/** Consonant + nukta (decomposed form) */
+const NUKTA_FORMS: Record<number, string> = {
+  0x15: 'k', 0x16: 'kh', 0x17: 'g', 0x1c: 'z', 0x21: 'd', 0x22: 'dh', 0x2b: 'f', 0x2f: 'y',
+};
+
+/** Signs that follow a syllable: candrabindu, anusvara, visarga */
+const MODIFIERS: Record<number, string> = { 0x01: 'n', 0x02: 'n', 0x03: 'h' };
+
+const VIRAMA = 0x4d;
+const NUKTA = 0x3c;
+
+/** Script-specific letters outside the shared layout */
+const EXTRA: Record<number, string> = {
+  0x0a70: 'n', 0x0a71: '', // Gurmukhi tippi, addak
+  0x0d7a: 'n', 0x0d7b: 'n', 0x0d7c: 'r', 0x0d7d: 'l', 0x0d7e: 'l', 0x0d7f: 'k', // Malayalam chillus
+  0x09ce: 't', // Bengali khanda ta
+};
+
+function isIndic(cp: number): boolean {
+  return cp >= INDIC_START && cp <= INDIC_END;
+}
+
+/** Offset of a code point within its script block, or -1 if not Indic */
+function indicOffset(cp: number | undefined): number {
+  return cp !== undefined && isIndic(cp) ? cp & 0x7f : -1;
+}
+
+/** Romanize Indic-script text; Latin and other characters pass through */
+export function transliterate(text: string): string {
+  const cps = Array.from(text.normalize('NFC'), (c) => c.codePointAt(0)!);
+  let out = '';
+
+  for (let i = 0; i < cps.length; i++) {
+    const cp = cps[i];
+    if (!isIndic(cp)) {
+      out += cp === 0x200c || cp === 0x200d ? '' : String.fromCodePoint(cp);
+      continue;
+    }
+    if (cp in EXTRA) {
+      out += EXTRA[cp];
+      continue;
+    }
+
+    const offset = cp & 0x7f;
+    if (offset in CONSONANTS) {
+      let consonant = CONSONANTS[offset];
+      if (indicOffset(cps[i + 1]) === NUKTA) {
+        consonant = NUKTA_FORMS[offset] ?? consonant;
+        i++;
+      }
+      const next = indicOffset(cps[i + 1]);
+      if (next === VIRAMA) {
+        i++;
+      } else if (next in VOWEL_SIGNS) {
+        consonant += VOWEL_SIGNS[next];
+        i++;
+      } else {
+        consonant += 'a'; // inherent vowel
+      }
+      out += consonant;
+    } else if (offset in VOWELS) {
+      out += VOWELS[offset];
+    } else if (offset in MODIFIERS) {
+      out += MODIFIERS[offset];
+    } else if (offset >= 0x66 && offset <= 0x6f) {
+      out += String(offset - 0x66); // native digits
+    }
+    // Nukta/virama without a consonant, avagraha, dandas etc. are dropped
+  }
+
+  return out;
+}
+
+// ─── Canonical skeleton ──────────────────────────────
+
+/** Reduce one romanized word to its matching skeleton */
+function skeletonize(word: string): string {
+  let s = word
+    .normalize('NFD').replace(/[\u0300-\u036f]/g, '') // ā → a
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '')
+    .replace(/x/g, 'ks').replace(/q/g, 'k').replace(/f/g, 'p').replace(/w/g, 'v').replace(/z/g, 'j')
+    .replace(/([kgcjtdpbs])h+/g, '$1')                // aspiration: dh → d, chh → c
+    .replace(/g/g, 'k').replace(/j/g, 'c').replace(/d/g, 't').replace(/b/g, 'p') // voicing
+    .replace(/aa/g, 'a').replace(/ee|ii/g, 'i').replace(/oo|uu/g, 'u')
+    .replace(/ai|ei/g, 'e').replace(/au|ou/g, 'o').replace(/ay(?![aeiou])/g, 'e')
+    .replace(/([aeiou])n(?![aeiou])/g, '$1')           // nasalization: "nahin"/"nahi", "mein"/"me"
+    .replace(/(.)\1+/g, '$1');
+
+  // Schwa: romanizers drop or add short "a" freely ("dard"/"darad")
+  if (s.length > 1) s = s[0] + s.slice(1).replace(/a/g, '');
+  return s.replace(/(.)\1+/g, '$1');
+}
+
+export interface CanonicalText {
+  /** Skeleton per word */
+  tokens: string[];
+  /** [start, end) of each word in the original text */
+  spans: [number, number][];
+}
+
+const WORD = /[^\s.,!?;:।॥،۔؟"()[\]{}\/-]+/gu;
+
+/** Split text into words and skeletonize each, keeping original offsets */
+export function canonicalize(text: string): CanonicalText {
+  const tokens: string[] = [];
+  const spans: [number, number][] = [];
+  for (const m of text.matchAll(WORD)) {
+    tokens.push(skeletonize(transliterate(m[0])));
+    spans.push([m.index, m.index + m[0].length]);
+  }
+  return { tokens, spans };
+}
+
+/** Whole-string skeleton, words joined by single spaces */
+export function toCanonical(text: string): string {
+  return canonicalize(text).tokens.filter(Boolean).join(' ');
+}
+
+// ─── Phrase matching ─────────────────────────────────
+
+// Skeletons shorter than this must match a whole word, not a prefix —
+// "विष" → "vs" would otherwise match the start of "vision"
+const MIN_PREFIX_LENGTH = 4;
+
+const phraseCache = new Map<string, string[]>();
+
+function phraseTokens(phrase: string): string[] {
+  let cached = phraseCache.get(phrase);
+  if (!cached) {
+    cached = canonicalize(phrase).tokens.filter(Boolean);
+    phraseCache.set(phrase, cached);
+  }
+  return cached;
+}
+
+/** Whether a keyword is written in Latin script (already matched verbatim) */
+export function isLatinPhrase(phrase: string): boolean {
+  return !/[^\u0000-\u024f\s]/.test(phrase);
+}
+
+/**
+ * Find a phrase in canonicalized text. Words must match in sequence; the last
+ * word may be a prefix ("बुखार" matches "bukhaar" and "bukharwa").
+ * Returns the original-text spans of each occurrence.
+ */
+export function findPhrase(text: CanonicalText, phrase: string): [number, number][] {
+  const words = phraseTokens(phrase);
+  if (words.length === 0) return [];
+
+  const allowPrefix = words.join('').length >= MIN_PREFIX_LENGTH;
+  const last = words.length - 1;
+  const found: [number, number][] = [];
+
+  for (let i = 0; i + last < text.tokens.length; i++) {
+    const matches = words.every((w, k) => {
+      const token = text.tokens[i + k];
+      return k === last && allowPrefix ? token.startsWith(w) : token === w;
+    });
+    if (matches) found.push([text.spans[i][0], text.spans[i + last][1]]);
+  }
+  return found;
+}
+
+/** Whether any word in the text starts with the fragment's skeleton */
+export function hasFragment(text: CanonicalText, fragment: string): boolean {
+  const [word] = phraseTokens(fragment);
+  return !!word && word.length >= 3 && text.tokens.some((t) => t.startsWith(word));
+}
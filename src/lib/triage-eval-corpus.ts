@@ -0,0 +1,327 @@
+/**
+ * Golden triage corpus — multilingual vignettes with the clinically expected
+ * outcome and a recorded model transcript for offline replay.
+ *
+ * Bump EVAL_CORPUS_VERSION whenever a case is added, removed, or its expected
+ * outcome changes, so reports from different corpus revisions are never
+ * compared against each other.
+ *
+ * `expected.red_flags` are case-insensitive substrings — a flag counts as
+ * found if any red flag in the model's result contains it.
+ */
+
+import { CareLevel, Language, Severity, Urgency } from '@/types';
+import { ScriptedTurn } from './llm-provider';
+
+export const EVAL_CORPUS_VERSION = 'v2';
+
+export interface GoldenCase {
+  id: string;
+  language: Language;
+  message: string;
+  history?: { role: 'user' | 'assistant'; content: string }[];
+  input_mode?: 'text' | 'voice' | 'voice_conversation';
+  expected: {
+    severity: Severity;
+    care_level: CareLevel;
+    red_flags: string[];
+    needs_follow_up: boolean;
+  };
+  /** Model turns as streamed when the case was recorded */
+  recorded: ScriptedTurn[];
+}
+
+/** Build a complete triage JSON response as the model would emit it */
+function recordedResult(r: {
+  severity: Severity;
+  care_level: CareLevel;
+  urgency: Urgency;
+  symptoms: string[];
+  red_flags?: string[];
+  go_to: string;
+  confidence?: number;
+  follow_up_question?: string;
+}): Record<string, unknown> {
+  return {
+    is_medical_query: true,
+    severity: r.severity,
+    confidence: r.confidence ?? 0.85,
+    reasoning_summary: `Recorded triage: ${r.symptoms.join(', ')}.`,
+    symptoms_identified: r.symptoms,
+    red_flags: r.red_flags ?? [],
+    risk_factors: [],
+    needs_follow_up: !!r.follow_up_question,
+    follow_up_question: r.follow_up_question ?? null,
+    action_plan: {
+      go_to: r.go_to,
+      care_level: r.care_level,
+      urgency: r.urgency,
+      tell_doctor: { english: `Patient reports ${r.symptoms.join(', ')}.`, local: '' },
+      do_not: [],
+      first_aid: [],
+      emergency_numbers: r.severity === 'emergency' ? ['112', '108'] : [],
+    },
+    disclaimer: 'This is AI-assisted triage guidance, not a medical diagnosis.',
+  };
+}
+
+export const GOLDEN_CASES: GoldenCase[] = [
+  // ── Emergencies (under-triage here is a hard failure) ──
+  {
+    id: 'en-cardiac-01',
+    language: 'en',
+    message: 'My father is 58, he has had chest pain spreading to his left arm for 20 minutes and he is sweating a lot',
+    expected: { severity: 'emergency', care_level: 'emergency', red_flags: ['chest pain', 'arm'], needs_follow_up: false },
+    recorded: [
+      {
+        thinking: 'Chest pain radiating to the left arm with diaphoresis in a 58-year-old male. Cross-check the cluster.',
+        tool_calls: [{ name: 'check_symptom_combinations', input: { symptoms: ['chest pain', 'arm pain', 'sweating'] } }],
+      },
+      {
+        thinking: 'Cluster matches cardiac event. Emergency.',
+        response: recordedResult({
+          severity: 'emergency', care_level: 'emergency', urgency: 'immediate',
+          symptoms: ['chest pain', 'left arm pain', 'sweating'],
+          red_flags: ['Chest pain radiating to left arm', 'Profuse sweating with chest pain'],
+          go_to: 'Call 108 now and go to the nearest hospital emergency department.',
+          confidence: 0.95,
+        }),
+      },
+    ],
+  },
+  {
+    id: 'hi-stroke-01',
+    language: 'hi',
+    message: 'मेरी माँ का चेहरा अचानक टेढ़ा हो गया है और वो ठीक से बोल नहीं पा रही',
+    expected: { severity: 'emergency', care_level: 'emergency', red_flags: ['face', 'speech'], needs_follow_up: false },
+    recorded: [
+      {
+        thinking: 'Sudden facial droop and speech difficulty — FAST positive.',
+        response: recordedResult({
+          severity: 'emergency', care_level: 'emergency', urgency: 'immediate',
+          symptoms: ['facial drooping', 'speech difficulty'],
+          red_flags: ['Sudden face drooping', 'Slurred speech'],
+          go_to: 'तुरंत 108 पर कॉल करें और नज़दीकी अस्पताल की इमरजेंसी में जाएं।',
+          confidence: 0.95,
+        }),
+      },
+    ],
+  },
+  {
+    id: 'ta-snakebite-01',
+    language: 'ta',
+    message: 'வயலில் பாம்பு கடித்தது, கால் வீங்குகிறது',
+    expected: { severity: 'emergency', care_level: 'emergency', red_flags: ['snake'], needs_follow_up: false },
+    recorded: [
+      {
+        response: recordedResult({
+          severity: 'emergency', care_level: 'emergency', urgency: 'immediate',
+          symptoms: ['snake bite', 'leg swelling'],
+          red_flags: ['Snake bite with progressive swelling'],
+          go_to: 'உடனே 108 அழைத்து அருகிலுள்ள மருத்துவமனைக்குச் செல்லுங்கள்.',
+          confidence: 0.95,
+        }),
+      },
+    ],
+  },
+  {
+    id: 'hi-pregnancy-bleeding-01',
+    language: 'hi',
+    message: 'मैं 7 महीने की गर्भवती हूं और अचानक बहुत खून आ रहा है',
+    expected: { severity: 'emergency', care_level: 'emergency', red_flags: ['bleeding'], needs_follow_up: false },
+    recorded: [
+      {
+        response: recordedResult({
+          severity: 'emergency', care_level: 'emergency', urgency: 'immediate',
+          symptoms: ['vaginal bleeding', 'third trimester pregnancy'],
+          red_flags: ['Heavy bleeding in pregnancy'],
+          go_to: 'तुरंत 108 पर कॉल करें और नज़दीकी अस्पताल जाएं।',
+          confidence: 0.95,
+        }),
+      },
+    ],
+  },
+  {
+    id: 'bn-cyanosis-01',
+    language: 'bn',
+    message: 'শ্বাসকষ্ট হচ্ছে, ঠোঁট নীল হয়ে যাচ্ছে',
+    expected: { severity: 'emergency', care_level: 'emergency', red_flags: ['breath', 'blue'], needs_follow_up: false },
+    recorded: [
+      {
+        response: recordedResult({
+          severity: 'emergency', care_level: 'emergency', urgency: 'immediate',
+          symptoms: ['breathing difficulty', 'blue lips'],
+          red_flags: ['Severe breathing difficulty', 'Blue lips (cyanosis)'],
+          go_to: 'এখনই 108 নম্বরে ফোন করুন এবং নিকটতম হাসপাতালে যান।',
+          confidence: 0.95,
+        }),
+      },
+    ],
+  },
+  {
+    id: 'en-suicidal-01',
+    language: 'en',
+    message: "I don't want to live anymore, I keep thinking about ending it tonight",
+    expected: { severity: 'emergency', care_level: 'emergency', red_flags: ['suicid'], needs_follow_up: false },
+    recorded: [
+      {
+        response: recordedResult({
+          severity: 'emergency', care_level: 'emergency', urgency: 'immediate',
+          symptoms: ['suicidal thoughts'],
+          red_flags: ['Active suicidal ideation with a timeframe'],
+          go_to: 'Please call Tele-MANAS at 14416 or 112 right now, and stay with someone you trust.',
+          confidence: 0.9,
+        }),
+      },
+    ],
+  },
+
+  // ── Urgent ──
+  {
+    id: 'te-infant-fever-01',
+    language: 'te',
+    message: 'నా 2 నెలల బిడ్డకు 102 జ్వరం ఉంది, పాలు తాగడం లేదు',
+    expected: { severity: 'urgent', care_level: 'district_hospital', red_flags: ['infant'], needs_follow_up: false },
+    recorded: [
+      {
+        response: recordedResult({
+          severity: 'urgent', care_level: 'district_hospital', urgency: 'within_6h',
+          symptoms: ['fever', 'poor feeding'],
+          red_flags: ['Fever in infant under 3 months', 'Poor feeding'],
+          go_to: 'ఈరోజే జిల్లా ఆసుపత్రిలో పిల్లల వైద్యుడిని చూపించండి.',
+        }),
+      },
+    ],
+  },
+  {
+    id: 'mr-dengue-01',
+    language: 'mr',
+    message: 'तीन दिवसांपासून खूप ताप, अंगदुखी आणि अंगावर पुरळ आले आहे',
+    expected: { severity: 'urgent', care_level: 'district_hospital', red_flags: [], needs_follow_up: false },
+    recorded: [
+      {
+        tool_calls: [{ name: 'check_regional_disease_alerts', input: { symptoms: ['fever', 'body ache', 'rash'], month: 9 } }],
+      },
+      {
+        response: recordedResult({
+          severity: 'urgent', care_level: 'district_hospital', urgency: 'within_24h',
+          symptoms: ['fever', 'body ache', 'rash'],
+          go_to: 'आज किंवा उद्या जिल्हा रुग्णालयात रक्त तपासणी करा.',
+        }),
+      },
+    ],
+  },
+  {
+    id: 'hi-hinglish-dehydration-01',
+    language: 'hi',
+    message: 'bacche ko 2 din se dast aur ulti ho rahi hai, peshab bhi kam aa raha hai',
+    expected: { severity: 'urgent', care_level: 'district_hospital', red_flags: ['urin'], needs_follow_up: false },
+    recorded: [
+      {
+        response: recordedResult({
+          severity: 'urgent', care_level: 'district_hospital', urgency: 'within_6h',
+          symptoms: ['diarrhea', 'vomiting', 'reduced urination'],
+          red_flags: ['Reduced urination in a child (dehydration)'],
+          go_to: 'आज ही बच्चे को अस्पताल ले जाएं और ORS देते रहें।',
+        }),
+      },
+    ],
+  },
+
+  // ── Routine ──
+  {
+    id: 'bn-uti-01',
+    language: 'bn',
+    message: 'দুই দিন ধরে প্রস্রাবে জ্বালা করছে',
+    expected: { severity: 'routine', care_level: 'phc', red_flags: [], needs_follow_up: false },
+    recorded: [
+      {
+        response: recordedResult({
+          severity: 'routine', care_level: 'phc', urgency: 'within_week',
+          symptoms: ['burning urination'],
+          go_to: 'এই সপ্তাহে কাছের প্রাথমিক স্বাস্থ্যকেন্দ্রে দেখান।',
+        }),
+      },
+    ],
+  },
+  {
+    id: 'ta-heartburn-01',
+    language: 'ta',
+    message: 'சாப்பிட்ட பிறகு நெஞ்செரிச்சல் ஒரு வாரமாக இருக்கிறது',
+    expected: { severity: 'routine', care_level: 'phc', red_flags: [], needs_follow_up: false },
+    recorded: [
+      {
+        response: recordedResult({
+          severity: 'routine', care_level: 'phc', urgency: 'within_week',
+          symptoms: ['heartburn after meals'],
+          go_to: 'இந்த வாரம் அருகிலுள்ள ஆரம்ப சுகாதார நிலையத்தில் காட்டுங்கள்.',
+        }),
+      },
+    ],
+  },
+  {
+    // Negated emergency keyword — "होश नहीं" must not be read inside "बेहोश नहीं"
+    id: 'hi-negated-unconscious-01',
+    language: 'hi',
+    message: 'पापा को सुबह से हल्के चक्कर आ रहे हैं, पर वो बेहोश नहीं हैं और ठीक से बात कर रहे हैं',
+    expected: { severity: 'routine', care_level: 'phc', red_flags: [], needs_follow_up: false },
+    recorded: [
+      {
+        response: recordedResult({
+          severity: 'routine', care_level: 'phc', urgency: 'within_24h',
+          symptoms: ['mild dizziness'],
+          go_to: 'आज या कल नज़दीकी प्राथमिक स्वास्थ्य केंद्र में दिखाएं। बेहोश हों तो तुरंत 108 पर कॉल करें।',
+        }),
+      },
+    ],
+  },
+  {
+    id: 'en-headache-followup-01',
+    language: 'en',
+    message: 'I have a headache',
+    expected: { severity: 'routine', care_level: 'phc', red_flags: [], needs_follow_up: true },
+    recorded: [
+      {
+        response: recordedResult({
+          severity: 'routine', care_level: 'phc', urgency: 'within_week',
+          symptoms: ['headache'],
+          go_to: 'Visit your nearest clinic if it continues.',
+          confidence: 0.5,
+          follow_up_question: 'How long have you had this headache, and is it the worst headache of your life?',
+        }),
+      },
+    ],
+  },
+
+  // ── Self-care ──
+  {
+    id: 'kn-cold-01',
+    language: 'kn',
+    message: 'ಎರಡು ದಿನದಿಂದ ಮೂಗು ಸೋರುತ್ತಿದೆ, ಸ್ವಲ್ಪ ಕೆಮ್ಮು ಇದೆ',
+    expected: { severity: 'self_care', care_level: 'home', red_flags: [], needs_follow_up: false },
+    recorded: [
+      {
+        response: recordedResult({
+          severity: 'self_care', care_level: 'home', urgency: 'when_convenient',
+          symptoms: ['runny nose', 'mild cough'],
+          go_to: 'ಮನೆಯಲ್ಲೇ ವಿಶ್ರಾಂತಿ ಪಡೆಯಿರಿ, ಜ್ವರ ಬಂದರೆ ವೈದ್ಯರನ್ನು ಭೇಟಿ ಮಾಡಿ.',
+        }),
+      },
+    ],
+  },
+  {
+    id: 'te-minor-burn-01',
+    language: 'te',
+    message: 'వంట చేస్తూ వేలికి చిన్న కాలిన గాయం అయింది',
+    expected: { severity: 'self_care', care_level: 'home', red_flags: [], needs_follow_up: false },
+    recorded: [
+      {
+        response: recordedResult({
+          severity: 'self_care', care_level: 'home', urgency: 'when_convenient',
+          symptoms: ['minor finger burn'],
+          go_to: 'చల్లని నీటి కింద 10 నిమిషాలు ఉంచండి. బొబ్బలు పెద్దవైతే వైద్యుడిని చూడండి.',
+        }),
+      },
+    ],
+  },
+];
@@ -0,0 +1,223 @@
+/**
+ * Offline evaluation harness for streamTriage.
+ *
+ * Replays the golden corpus (triage-eval-corpus.ts) through the real agent
+ * loop — prompt building, tool execution, parsing and validation — with the
+ * model behind a swappable provider:
+ *   - replay: recorded transcripts via the fake provider, no network
+ *   - live:   the configured provider (catches prompt/tool regressions)
+ *
+ * Each final TriageResult is scored against the expected severity, care level,
+ * red flags and follow-up decision. Under-triage of an emergency is a hard
+ * failure — the report never passes while one exists.
+ */
+
+import { Language, Message, Severity, TriageResult } from '@/types';
+import { streamTriage } from './triage-agent';
+import { createFakeProvider } from './llm-provider';
+import { EVAL_CORPUS_VERSION, GOLDEN_CASES, GoldenCase } from './triage-eval-corpus';
+
+export type EvalMode = 'replay' | 'live';
+
+export type TriageOutcome = 'exact' | 'under' | 'over' | 'no_result';
+
+export interface CaseScore {
+  id: string;
+  language: Language;
+  expectedSeverity: Severity;
+  actualSeverity: Severity | null;
+  outcome: TriageOutcome;
+  careLevelMatch: boolean;
+  followUpMatch: boolean;
+  redFlagRecall: number;
+  missingRedFlags: string[];
+  toolsCalled: string[];
+  hardFailure: boolean;
+  error: string | null;
+}
+
+export interface BucketScore {
+  total: number;
+  exact: number;
+  underTriage: number;
+  overTriage: number;
+  /** Percentages (0-100), rounded */
+  underTriageRate: number;
+  overTriageRate: number;
+  careLevelAccuracy: number;
+  followUpAccuracy: number;
+  redFlagRecall: number;
+}
+
+export interface EvalReport {
+  corpusVersion: string;
+  mode: EvalMode;
+  startedAt: string;
+  durationMs: number;
+  passed: boolean;
+  overall: BucketScore;
+  byLanguage: Partial<Record<Language, BucketScore>>;
+  bySeverity: Partial<Record<Severity, BucketScore>>;
+  hardFailures: CaseScore[];
+  cases: CaseScore[];
+}
+
+const SEVERITY_RANK: Record<Severity, number> = {
+  self_care: 0,
+  routine: 1,
+  urgent: 2,
+  emergency: 3,
+};
+
+// ─── Scoring ─────────────────────────────────────────
+
+function scoreCase(
+  c: GoldenCase,
+  result: TriageResult | null,
+  toolsCalled: string[],
+  error: string | null
+): CaseScore {
+  const expected = c.expected;
+  const actualSeverity = result && result.is_medical_query !== false ? result.severity : null;
+
+  // A missing or non-medical result is treated as the worst case: under-triage
+  let outcome: TriageOutcome = 'no_result';
+  if (actualSeverity) {
+    const diff = SEVERITY_RANK[actualSeverity] - SEVERITY_RANK[expected.severity];
+    outcome = diff === 0 ? 'exact' : diff < 0 ? 'under' : 'over';
+  }
+
+  const actualFlags = (result?.red_flags ?? []).map((f) => f.toLowerCase());
+  const missingRedFlags = expected.red_flags.filter(
+    (flag) => !actualFlags.some((f) => f.includes(flag.toLowerCase()))
+  );
+  const redFlagRecall = expected.red_flags.length > 0
+    ? (expected.red_flags.length - missingRedFlags.length) / expected.red_flags.length
+    : 1;
+
+  const underTriaged = outcome === 'under' || outcome === 'no_result';
+
+  return {
+    id: c.id,
+    language: c.language,
+    expectedSeverity: expected.severity,
+    actualSeverity,
+    outcome,
+    careLevelMatch: result?.action_plan.care_level === expected.care_level,
+    followUpMatch: result?.needs_follow_up === expected.needs_follow_up,
+    redFlagRecall,
+    missingRedFlags,
+    toolsCalled,
+    hardFailure: expected.severity === 'emergency' && underTriaged,
+    error,
+  };
+}
+
+function pct(n: number, total: number): number {
+  return total > 0 ? Math.round((n / total) * 100) : 0;
+}
+
+function aggregate(scores: CaseScore[]): BucketScore {
+  const total = scores.length;
+  const under = scores.filter((s) => s.outcome === 'under' || s.outcome === 'no_result').length;
+  const over = scores.filter((s) => s.outcome === 'over').length;
+  return {
+    total,
+    exact: scores.filter((s) => s.outcome === 'exact').length,
+    underTriage: under,
+    overTriage: over,
+    underTriageRate: pct(under, total),
+    overTriageRate: pct(over, total),
+    careLevelAccuracy: pct(scores.filter((s) => s.careLevelMatch).length, total),
+    followUpAccuracy: pct(scores.filter((s) => s.followUpMatch).length, total),
+    redFlagRecall: total > 0 ? Math.round((scores.reduce((a, s) => a + s.redFlagRecall, 0) / total) * 100) : 0,
+  };
+}
+
+function groupBy<K extends string>(scores: CaseScore[], key: (s: CaseScore) => K): Partial<Record<K, BucketScore>> {
+  const groups = new Map<K, CaseScore[]>();
+  for (const s of scores) {
+    const k = key(s);
+    groups.set(k, [...(groups.get(k) || []), s]);
+  }
+  const out: Partial<Record<K, BucketScore>> = {};
+  for (const [k, group] of groups) out[k] = aggregate(group);
+  return out;
+}
+
+// ─── Runner ──────────────────────────────────────────
+
+async function runCase(c: GoldenCase, mode: EvalMode): Promise<CaseScore> {
+  const provider = mode === 'replay' ? createFakeProvider(c.recorded) : undefined;
+  const history: Message[] = (c.history ?? []).map((m, i) => ({
+    id: `${c.id}-h${i}`,
+    role: m.role,
+    content: m.content,
+    timestamp: 0,
+  }));
+
+  let result: TriageResult | null = null;
+  let error: string | null = null;
+  const toolsCalled: string[] = [];
+
+  try {
+    for await (const event of streamTriage(
+      c.message,
+      c.language,
+      history,
+      c.input_mode ?? 'text',
+      null,
+      null,
+      null,
+      null,
+      { provider }
+    )) {
+      if (event.type === 'result') result = event.data;
+      else if (event.type === 'error') error = event.message;
+      else if (event.type === 'tool_call') toolsCalled.push(event.name);
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : 'unknown error';
+  }
+
+  return scoreCase(c, result, toolsCalled, error);
+}
+
+/**
+ * Run the golden corpus and build a scored report.
+ * Cases run sequentially so live mode stays within API rate limits.
+ */
+export async function runTriageEval(options: {
+  mode?: EvalMode;
+  languages?: Language[];
+  caseIds?: string[];
+} = {}): Promise<EvalReport> {
+  const mode = options.mode ?? 'replay';
+  const started = Date.now();
+
+  const cases = GOLDEN_CASES.filter(
+    (c) =>
+      (!options.languages || options.languages.includes(c.language)) &&
+      (!options.caseIds || options.caseIds.includes(c.id))
+  );
+
+  const scores: CaseScore[] = [];
+  for (const c of cases) {
+    scores.push(await runCase(c, mode));
+  }
+
+  const hardFailures = scores.filter((s) => s.hardFailure);
+
+  return {
+    corpusVersion: EVAL_CORPUS_VERSION,
+    mode,
+    startedAt: new Date(started).toISOString(),
+    durationMs: Date.now() - started,
+    passed: hardFailures.length === 0,
+    overall: aggregate(scores),
+    byLanguage: groupBy(scores, (s) => s.language),
+    bySeverity: groupBy(scores, (s) => s.expectedSeverity),
+    hardFailures,
+    cases: scores,
+  };
+}
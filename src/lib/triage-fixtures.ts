@@ -0,0 +1,290 @@
+/**
+ * Record-and-replay fixtures for the agentic triage loop.
+ *
+ * Recording (dev only, TRIAGE_RECORD_FIXTURES=1) wraps the LLM provider and
+ * the tool dispatcher for a /api/triage request and writes everything the
+ * loop saw — model turns, JSON-repair completions, tool inputs/outputs,
+ * patient context and the emitted StreamEvents — to a JSON fixture under
+ * TRIAGE_FIXTURE_DIR.
+ *
+ * Replay feeds the fixture back through streamTriage with the fake provider
+ * and recorded tool results, so a reported session re-runs locally with no
+ * network or database, and diffs the new events against the recorded ones.
+ *
+ * Fixtures contain the raw patient message — never enable recording in
+ * production, and scrub fixtures before committing them.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { GeoLocation, Language, Message, PatientProfile, StreamEvent } from '@/types';
+import { streamTriage, TriageRunOptions } from './triage-agent';
+import { LLMProvider, ScriptedCompletion, ScriptedTurn, createFakeProvider } from './llm-provider';
+import { executeTriageTool, ToolContext } from './triage-tools';
+import { BudgetTier } from './usage-budget';
+import { SessionDocument } from './session-documents';
+
+export const FIXTURE_VERSION = 1;
+
+export interface RecordedToolCall {
+  name: string;
+  input: Record<string, unknown>;
+  result: Record<string, unknown>;
+}
+
+export interface TriageFixture {
+  version: typeof FIXTURE_VERSION;
+  recorded_at: string;
+  provider: string;
+  model: string;
+  request: {
+    message: string;
+    language: Language;
+    history: Message[];
+    input_mode: 'text' | 'voice' | 'voice_conversation';
+    location: GeoLocation | null;
+    patient_profile: PatientProfile | null;
+    signed_in: boolean;
+    /** Run options that change the loop — absent in older fixtures, where the defaults applied */
+    allow_follow_up?: boolean;
+    budget_tier?: BudgetTier;
+    session_documents?: SessionDocument[];
+  };
+  turns: ScriptedTurn[];
+  /** complete() calls (JSON repair) in order — absent in older fixtures, which replay them from turns */
+  completions?: ScriptedCompletion[];
+  tool_calls: RecordedToolCall[];
+  events: StreamEvent[];
+}
+
+export interface FixtureRecorder {
+  /** Pass to streamTriage so model turns and tool calls are captured */
+  options: TriageRunOptions;
+  recordEvent(event: StreamEvent): void;
+  finish(): TriageFixture;
+}
+
+export interface ReplayOutcome {
+  events: StreamEvent[];
+  matched: boolean;
+  divergence: { index: number; expected: StreamEvent | null; actual: StreamEvent | null } | null;
+}
+
+const DEFAULT_FIXTURE_DIR = 'fixtures/triage';
+
+export function isFixtureRecordingEnabled(): boolean {
+  return process.env.NODE_ENV !== 'production' && process.env.TRIAGE_RECORD_FIXTURES === '1';
+}
+
+export function getFixtureDir(): string {
+  return path.resolve(process.cwd(), process.env.TRIAGE_FIXTURE_DIR || DEFAULT_FIXTURE_DIR);
+}
+
+// ─── Recording ───────────────────────────────────────
+
+/** Re-yield a provider stream while rebuilding it as a ScriptedTurn */
+async function* recordTurn(
+  stream: ReturnType<LLMProvider['stream']>,
+  turn: ScriptedTurn
+): ReturnType<LLMProvider['stream']> {
+  let blockType: 'thinking' | 'text' | 'tool_use' | null = null;
+  let thinking = '';
+  let text = '';
+  let toolName = '';
+  let toolJson = '';
+  const toolCalls: NonNullable<ScriptedTurn['tool_calls']> = [];
+
+  for await (const event of stream) {
+    yield event;
+
+    if (event.type === 'content_block_start') {
+      const block = event.content_block;
+      blockType = block.type === 'thinking' || block.type === 'text' || block.type === 'tool_use' ? block.type : null;
+      if (block.type === 'tool_use') {
+        toolName = block.name;
+        toolJson = '';
+      }
+    } else if (event.type === 'content_block_delta') {
+      if (event.delta.type === 'thinking_delta') thinking += event.delta.thinking;
+      else if (event.delta.type === 'text_delta') text += event.delta.text;
+      else if (event.delta.type === 'input_json_delta') toolJson += event.delta.partial_json;
+    } else if (event.type === 'content_block_stop' && blockType === 'tool_use') {
+      let input: Record<string, unknown> = {};
+      try {
+        if (toolJson) input = JSON.parse(toolJson);
+      } catch {
+        // Mirror the agent loop: invalid tool input becomes {}
+      }
+      toolCalls.push({ name: toolName, input });
+      blockType = null;
+    }
+  }
+
+  if (thinking) turn.thinking = thinking;
+  if (toolCalls.length > 0) turn.tool_calls = toolCalls;
+  if (text) turn.response = text;
+}
+
+export function createFixtureRecorder(
+  request: TriageFixture['request'],
+  provider: LLMProvider
+): FixtureRecorder {
+  const turns: ScriptedTurn[] = [];
+  const completions: ScriptedCompletion[] = [];
+  const toolCalls: RecordedToolCall[] = [];
+  const events: StreamEvent[] = [];
+
+  const recordingProvider: LLMProvider = {
+    ...provider,
+    stream(req) {
+      const turn: ScriptedTurn = {};
+      turns.push(turn);
+      return recordTurn(provider.stream(req), turn);
+    },
+    async complete(req) {
+      try {
+        const reply = await provider.complete(req);
+        completions.push(reply);
+        return reply;
+      } catch (err) {
+        completions.push({ error: err instanceof Error ? err.message : String(err) });
+        throw err;
+      }
+    },
+  };
+
+  const recordingExecutor = async (name: string, input: Record<string, unknown>, ctx: ToolContext) => {
+    const result = await executeTriageTool(name, input, ctx);
+    toolCalls.push({ name, input, result });
+    return result;
+  };
+
+  return {
+    options: { provider: recordingProvider, executeTool: recordingExecutor },
+    recordEvent: (event) => events.push(event),
+    finish: () => ({
+      version: FIXTURE_VERSION,
+      recorded_at: new Date().toISOString(),
+      provider: provider.name,
+      model: provider.model,
+      request,
+      turns,
+      completions,
+      tool_calls: toolCalls,
+      events,
+    }),
+  };
+}
+
+/** Write a fixture to the fixture dir. Returns the file path. */
+export async function saveFixture(fixture: TriageFixture, sessionId: string): Promise<string> {
+  const dir = getFixtureDir();
+  await fs.mkdir(dir, { recursive: true });
+  const safeId = sessionId.replace(/[^a-zA-Z0-9_-]/g, '').slice(0, 64) || 'session';
+  const filePath = path.join(dir, `${safeId}-${Date.now()}.json`);
+  await fs.writeFile(filePath, JSON.stringify(fixture, null, 2), 'utf8');
+  return filePath;
+}
+
+// ─── Loading ─────────────────────────────────────────
+
+/** Validate the shape of parsed fixture JSON. Throws with a precise message. */
+export function parseFixture(raw: unknown): TriageFixture {
+  if (!raw || typeof raw !== 'object') throw new Error('Fixture must be a JSON object');
+  const f = raw as Partial<TriageFixture>;
+  if (f.version !== FIXTURE_VERSION) throw new Error(`Unsupported fixture version: ${String(f.version)}`);
+  if (!f.request || typeof f.request.message !== 'string') throw new Error('Fixture is missing request.message');
+  if (!Array.isArray(f.turns)) throw new Error('Fixture is missing turns[]');
+  if (f.completions !== undefined && !Array.isArray(f.completions)) throw new Error('Fixture completions must be an array');
+  if (!Array.isArray(f.tool_calls)) throw new Error('Fixture is missing tool_calls[]');
+  if (!Array.isArray(f.events)) throw new Error('Fixture is missing events[]');
+  return f as TriageFixture;
+}
+
+export async function loadFixture(filePath: string): Promise<TriageFixture> {
+  return parseFixture(JSON.parse(await fs.readFile(filePath, 'utf8')));
+}
+
+/** Fixture file names in the fixture dir, newest first */
+export async function listFixtures(): Promise<string[]> {
+  try {
+    const files = await fs.readdir(getFixtureDir());
+    return files.filter(f => f.endsWith('.json')).sort().reverse();
+  } catch {
+    return [];
+  }
+}
+
+// ─── Replay ──────────────────────────────────────────
+
+/**
+ * Serve recorded tool results in order, matched by tool name.
+ * A call with no recording left returns an error result instead of touching the DB.
+ */
+function createReplayExecutor(toolCalls: RecordedToolCall[]): NonNullable<TriageRunOptions['executeTool']> {
+  const queues = new Map<string, RecordedToolCall[]>();
+  for (const call of toolCalls) {
+    queues.set(call.name, [...(queues.get(call.name) || []), call]);
+  }
+  return async (name) => {
+    const next = queues.get(name)?.shift();
+    return next ? next.result : { error: `No recorded result for tool: ${name}` };
+  };
+}
+
+/** Merge consecutive thinking/text deltas so chunking differences don't count as divergence */
+function normalizeEvents(events: StreamEvent[]): StreamEvent[] {
+  const out: StreamEvent[] = [];
+  for (const event of events) {
+    const prev = out[out.length - 1];
+    if (prev && (event.type === 'thinking' || event.type === 'text') && prev.type === event.type) {
+      out[out.length - 1] = { type: event.type, content: prev.content + event.content };
+    } else {
+      out.push(event);
+    }
+  }
+  return out;
+}
+
+/** Re-run a fixture deterministically and diff against the recorded events */
+export async function replayFixture(fixture: TriageFixture): Promise<ReplayOutcome> {
+  const { request } = fixture;
+  const events: StreamEvent[] = [];
+
+  try {
+    for await (const event of streamTriage(
+      request.message,
+      request.language,
+      request.history,
+      request.input_mode,
+      // Tools are replayed, so a placeholder ID only preserves signed-in code paths
+      request.signed_in ? 'fixture-replay' : null,
+      null,
+      request.patient_profile,
+      request.location,
+      {
+        provider: createFakeProvider(fixture.turns, fixture.completions),
+        executeTool: createReplayExecutor(fixture.tool_calls),
+        allowFollowUp: request.allow_follow_up,
+        budgetTier: request.budget_tier,
+        sessionDocuments: request.session_documents,
+      }
+    )) {
+      events.push(event);
+    }
+  } catch (error) {
+    events.push({ type: 'error', message: error instanceof Error ? error.message : 'Replay failed' });
+  }
+
+  const expected = normalizeEvents(fixture.events);
+  const actual = normalizeEvents(events);
+  const length = Math.max(expected.length, actual.length);
+
+  for (let i = 0; i < length; i++) {
+    if (JSON.stringify(expected[i] ?? null) !== JSON.stringify(actual[i] ?? null)) {
+      return { events, matched: false, divergence: { index: i, expected: expected[i] ?? null, actual: actual[i] ?? null } };
+    }
+  }
+
+  return { events, matched: true, divergence: null };
+}
@@ -0,0 +1,184 @@
+/**
+ * Formal schema for the model's TriageResult JSON.
+ *
+ * validateTriageSchema() reports every violation with its exact path
+ * (e.g. "action_plan.care_level"), so the agent can ask the model to repair
+ * just those fields instead of silently defaulting them.
+ *
+ * Deliberately dependency-free — a handful of node kinds covers the whole
+ * TriageResult/ActionPlan shape.
+ */
+
+import { CareLevel, Severity, Urgency } from '@/types';
+
+export const SEVERITIES: readonly Severity[] = ['emergency', 'urgent', 'routine', 'self_care'];
+export const CARE_LEVELS: readonly CareLevel[] = ['home', 'phc', 'district_hospital', 'emergency'];
+export const URGENCIES: readonly Urgency[] = [
+  'immediate', 'within_6h', 'within_24h', 'within_week', 'when_convenient',
+];
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+interface Modifiers {
+  optional?: boolean;
+  nullable?: boolean;
+}
+
+type SchemaNode = Modifiers & (
+  | { kind: 'string' }
+  | { kind: 'number'; min?: number; max?: number }
+  | { kind: 'boolean' }
+  | { kind: 'enum'; values: readonly string[] }
+  | { kind: 'array'; items: SchemaNode }
+  | { kind: 'object'; shape: Record<string, SchemaNode> }
+);
+
+// ─── Builders ────────────────────────────────────────
+
+const str = (m: Modifiers = {}): SchemaNode => ({ kind: 'string', ...m });
+const num = (min?: number, max?: number): SchemaNode => ({ kind: 'number', min, max });
+const bool = (): SchemaNode => ({ kind: 'boolean' });
+const oneOf = (values: readonly string[]): SchemaNode => ({ kind: 'enum', values });
+const arrayOf = (items: SchemaNode, m: Modifiers = {}): SchemaNode => ({ kind: 'array', items, ...m });
+const obj = (shape: Record<string, SchemaNode>, m: Modifiers = {}): SchemaNode => ({ kind: 'object', shape, ...m });
+
+export const ACTION_PLAN_SCHEMA = obj({
+  go_to: str(),
+  care_level: oneOf(CARE_LEVELS),
+  urgency: oneOf(URGENCIES),
+  tell_doctor: obj({ english: str(), local: str() }),
+  do_not: arrayOf(str()),
+  first_aid: arrayOf(str()),
+  emergency_numbers: arrayOf(str(), { optional: true }),
+});
+
+export const TRIAGE_RESULT_SCHEMA = obj({
+  is_medical_query: bool(),
+  redirect_message: str({ optional: true, nullable: true }),
+  severity: oneOf(SEVERITIES),
+  confidence: num(0, 1),
+  reasoning_summary: str(),
+  symptoms_identified: arrayOf(str()),
+  red_flags: arrayOf(str()),
+  risk_factors: arrayOf(str()),
+  needs_follow_up: bool(),
+  follow_up_question: str({ nullable: true }),
+  follow_up_options: arrayOf(obj({ label: str(), value: str() }), { optional: true, nullable: true }),
+  action_plan: ACTION_PLAN_SCHEMA,
+  disclaimer: str(),
+});
+
+// ─── Validation ──────────────────────────────────────
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `"${value.length > 40 ? value.slice(0, 40) + '…' : value}"`;
+  return typeof value;
+}
+
+function join(path: string, key: string | number): string {
+  return path ? `${path}.${key}` : String(key);
+}
+
+function validateNode(node: SchemaNode, value: unknown, path: string, issues: SchemaIssue[]): void {
+  if (value === undefined) {
+    if (!node.optional) issues.push({ path, message: 'is required' });
+    return;
+  }
+  if (value === null) {
+    if (!node.nullable) issues.push({ path, message: 'must not be null' });
+    return;
+  }
+
+  switch (node.kind) {
+    case 'string':
+      if (typeof value !== 'string') issues.push({ path, message: `expected string, got ${describe(value)}` });
+      return;
+    case 'boolean':
+      if (typeof value !== 'boolean') issues.push({ path, message: `expected boolean, got ${describe(value)}` });
+      return;
+    case 'number':
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        issues.push({ path, message: `expected number, got ${describe(value)}` });
+      } else if ((node.min !== undefined && value < node.min) || (node.max !== undefined && value > node.max)) {
+        issues.push({ path, message: `must be between ${node.min} and ${node.max}, got ${value}` });
+      }
+      return;
+    case 'enum':
+      if (typeof value !== 'string' || !node.values.includes(value)) {
+        issues.push({ path, message: `must be one of ${node.values.join(' | ')}, got ${describe(value)}` });
+      }
+      return;
+    case 'array':
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `expected array, got ${describe(value)}` });
+        return;
+      }
+      value.forEach((item, i) => validateNode(node.items, item, join(path, i), issues));
+      return;
+    case 'object':
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        issues.push({ path, message: `expected object, got ${describe(value)}` });
+        return;
+      }
+      for (const [key, child] of Object.entries(node.shape)) {
+        validateNode(child, (value as Record<string, unknown>)[key], join(path, key), issues);
+      }
+      return;
+  }
+}
+
+/** Validate parsed model output against TRIAGE_RESULT_SCHEMA plus cross-field rules */
+export function validateTriageSchema(data: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  validateNode(TRIAGE_RESULT_SCHEMA, data, '', issues);
+
+  if (data && typeof data === 'object') {
+    const d = data as Record<string, unknown>;
+    if (d.needs_follow_up === true && (typeof d.follow_up_question !== 'string' || !d.follow_up_question.trim())) {
+      issues.push({ path: 'follow_up_question', message: 'is required when needs_follow_up is true' });
+    }
+  }
+
+  return issues;
+}
+
+export function formatIssues(issues: SchemaIssue[]): string {
+  return issues.map((i) => `${i.path || '(root)'}: ${i.message}`).join('; ');
+}
+
+// ─── Repair helpers ──────────────────────────────────
+
+/**
+ * The field a repair should replace for an issue — array items are repaired
+ * as a whole array ("red_flags.2" → "red_flags").
+ */
+export function repairPathFor(issuePath: string): string {
+  const parts = issuePath.split('.');
+  const firstIndex = parts.findIndex((p) => /^\d+$/.test(p));
+  return (firstIndex === -1 ? parts : parts.slice(0, firstIndex)).join('.');
+}
+
+export function getAtPath(data: Record<string, unknown>, path: string): unknown {
+  let current: unknown = data;
+  for (const key of path.split('.')) {
+    if (!current || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+export function setAtPath(data: Record<string, unknown>, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let current = data;
+  for (const key of keys.slice(0, -1)) {
+    const next = current[key];
+    if (!next || typeof next !== 'object' || Array.isArray(next)) current[key] = {};
+    current = current[key] as Record<string, unknown>;
+  }
+  current[keys[keys.length - 1]] = value;
+}
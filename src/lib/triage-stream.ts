@@ -0,0 +1,158 @@
+/**
+ * Resumable SSE for /api/triage.
+ *
+ * Each POST opens a stream: the model run writes StreamEvents into a buffer
+ * keyed by session, and the HTTP response is just one subscriber to it. If the
+ * connection drops, the run carries on, and the client reconnects with
+ * GET /api/triage?sessionId=… plus the `Last-Event-ID` it last saw to receive
+ * the rest — the model is never re-run.
+ *
+ * Event IDs are `<streamId>:<seq>`, seq counting up from 1 within a stream.
+ * Buffers live in this process for STREAM_BUFFER_TTL_MS after the stream ends;
+ * after that, a finished stream is replayed from its triage_results row.
+ */
+
+import { StreamEvent } from '@/types';
+
+// ─── Types ───────────────────────────────────────────
+
+export interface BufferedStream {
+  streamId: string;
+  sessionId: string;
+  /** Owner of the session — null for anonymous sessions */
+  clerkUserId: string | null;
+  /** Encoded SSE frames; frames[i] carries seq i + 1 */
+  frames: string[];
+  done: boolean;
+  /** Set when the stream ends; the buffer is dropped after this */
+  expiresAt: number | null;
+  listeners: Set<() => void>;
+}
+
+export interface TriageStreamWriter {
+  streamId: string;
+  push(event: StreamEvent): void;
+  /** Send the [DONE] sentinel and close every subscriber. Idempotent. */
+  end(): void;
+  /** SSE body following this stream from its first event */
+  subscribe(): ReadableStream<Uint8Array>;
+}
+
+// ─── Buffer store ────────────────────────────────────
+
+export const STREAM_BUFFER_TTL_MS = 2 * 60 * 1000;
+const MAX_BUFFERED_STREAMS = 500;
+
+// Latest stream per session — a new turn replaces the previous one
+const streams = new Map<string, BufferedStream>();
+
+function sweep(now = Date.now()): void {
+  for (const [sessionId, stream] of streams) {
+    if (stream.expiresAt !== null && stream.expiresAt <= now) streams.delete(sessionId);
+  }
+  // Still over the cap: drop the oldest, finished streams first
+  for (const [sessionId, stream] of streams) {
+    if (streams.size <= MAX_BUFFERED_STREAMS) break;
+    if (stream.done) streams.delete(sessionId);
+  }
+}
+
+export function formatFrame(id: string, data: string): string {
+  return `id: ${id}\ndata: ${data}\n\n`;
+}
+
+export function parseEventId(id: string | null | undefined): { streamId: string; seq: number } | null {
+  if (!id) return null;
+  const sep = id.lastIndexOf(':');
+  if (sep <= 0) return null;
+  const seq = Number(id.slice(sep + 1));
+  if (!Number.isInteger(seq) || seq < 0) return null;
+  return { streamId: id.slice(0, sep), seq };
+}
+
+/** Start buffering a new turn for a session */
+export function openTriageStream(sessionId: string, clerkUserId: string | null): TriageStreamWriter {
+  sweep();
+
+  const stream: BufferedStream = {
+    streamId: crypto.randomUUID(),
+    sessionId,
+    clerkUserId,
+    frames: [],
+    done: false,
+    expiresAt: null,
+    listeners: new Set(),
+  };
+  streams.set(sessionId, stream);
+
+  const append = (data: string) => {
+    if (stream.done) return;
+    stream.frames.push(formatFrame(`${stream.streamId}:${stream.frames.length + 1}`, data));
+    for (const notify of stream.listeners) notify();
+  };
+
+  return {
+    streamId: stream.streamId,
+    push: (event) => append(JSON.stringify(event)),
+    end: () => {
+      if (stream.done) return;
+      append('[DONE]');
+      stream.done = true;
+      stream.expiresAt = Date.now() + STREAM_BUFFER_TTL_MS;
+      for (const notify of stream.listeners) notify();
+    },
+    subscribe: () => subscribeTriageStream(stream),
+  };
+}
+
+/** The buffered stream for a session, if it hasn't expired */
+export function findTriageStream(sessionId: string): BufferedStream | null {
+  sweep();
+  return streams.get(sessionId) ?? null;
+}
+
+/** An SSE body that replays frames after `afterSeq`, then follows the stream live until it ends */
+export function subscribeTriageStream(stream: BufferedStream, afterSeq = 0): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let flush: (() => void) | null = null;
+
+  return new ReadableStream({
+    start(controller) {
+      let cursor = Math.min(afterSeq, stream.frames.length);
+      const listener = () => {
+        try {
+          while (cursor < stream.frames.length) {
+            controller.enqueue(encoder.encode(stream.frames[cursor++]));
+          }
+          if (stream.done) {
+            stream.listeners.delete(listener);
+            controller.close();
+          }
+        } catch {
+          // Subscriber went away mid-write — the stream itself carries on
+          stream.listeners.delete(listener);
+        }
+      };
+      flush = listener;
+      stream.listeners.add(listener);
+      listener();
+    },
+    cancel() {
+      if (flush) stream.listeners.delete(flush);
+    },
+  });
+}
+
+/** SSE body for a finished stream rebuilt from persisted events */
+export function replayFrames(streamId: string, events: StreamEvent[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const frames = [...events.map((event) => JSON.stringify(event)), '[DONE]']
+    .map((data, i) => formatFrame(`${streamId}:${i + 1}`, data));
+
+  return new ReadableStream({
+    start(controller) {
+      for (const frame of frames) controller.enqueue(encoder.encode(frame));
+      controller.close();
+    },
+  });
+}
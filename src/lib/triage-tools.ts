@@ -10,6 +10,10 @@
 
 import Anthropic from '@anthropic-ai/sdk';
 import { getServiceClient } from './supabase';
+import { InferredNote, NoteStatus, isNoteType, recordInferredNotes } from './patient-memory';
+import { describeMedication, isCurrent, listMedications, Medication } from './medications';
+import { checkMedications, resolveDrug } from './drug-interactions';
+import { latestLabValues } from './lab-results';
 
 // ─── Types ───────────────────────────────────────────
 
@@ -46,13 +50,54 @@ export const TRIAGE_TOOLS: Anthropic.Tool[] = [
   {
     name: 'get_medication_context',
     description:
-      'Check if the patient mentioned medications or ongoing treatments in past triage sessions. Use this when current symptoms might interact with known medications or when the patient mentions taking medicines.',
+      'Fetch the patient\'s medication list — current medicines with dose and frequency, and ones stopped in the last 90 days. Use this when current symptoms might be a side effect or when the patient mentions taking medicines.',
     input_schema: {
       type: 'object' as const,
       properties: {},
       required: [],
     },
   },
+  {
+    name: 'check_medication_safety',
+    description:
+      'Check medicines against each other and against the patient\'s allergies using a local interaction table that knows common Indian brand names (Dolo, Combiflam, Ecosprin, Acitrom, Telma...). Automatically includes the signed-in patient\'s current medication list and recorded allergies. Returns interactions, allergy conflicts and duplicate ingredients, each with a do_not caution for the action plan.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        medications: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Medicines the patient mentioned taking in this conversation, brand or generic (e.g., ["Dolo 650", "Telma 40"])',
+        },
+        proposed: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Medicines you are considering suggesting (e.g., ["ibuprofen"])',
+        },
+        allergies: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Allergies the patient mentioned in this conversation (e.g., ["penicillin"])',
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'get_lab_results',
+    description:
+      'Fetch the latest value of each lab test from reports the patient uploaded (HbA1c, haemoglobin, platelets, creatinine, TSH...), abnormal values first, with the previous value to show the trend. Use this when symptoms could relate to a known lab abnormality — e.g. fatigue with low haemoglobin, fever with low platelets, or a diabetic patient.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        timeframe_days: {
+          type: 'number',
+          description: 'Look-back window in days (default 365)',
+        },
+      },
+      required: [],
+    },
+  },
 
   // ── Category 2: Symptom Analysis ──
   {
@@ -307,7 +352,7 @@ export const TRIAGE_TOOLS: Anthropic.Tool[] = [
   {
     name: 'update_risk_profile',
     description:
-      'Update the patient risk profile with newly mentioned risk factors, conditions, or medications. Merges with existing profile data. Use when the patient mentions diabetes, hypertension, pregnancy, regular medications, etc. Use silently.',
+      'Record newly mentioned risk factors, conditions, or medications as unconfirmed notes on the patient\'s record, for the patient to review. Use when the patient mentions diabetes, hypertension, pregnancy, regular medications, etc. Use silently.',
     input_schema: {
       type: 'object' as const,
       properties: {
@@ -332,6 +377,188 @@ export const TRIAGE_TOOLS: Anthropic.Tool[] = [
   },
 ];
 
+/**
+ * Tools that enrich the answer but never change its safety — dropped first
+ * when a caller is over their daily usage budget.
+ */
+export const OPTIONAL_TOOLS = new Set([
+  'recommend_specialist',
+  'get_facility_type',
+  'get_indian_health_schemes',
+  'save_clinical_note',
+  'update_risk_profile',
+]);
+
+// ─── Symptom Clusters ────────────────────────────────
+
+interface SymptomCluster {
+  name: string;
+  keywords: string[];
+  min_match: number;
+  severity_hint: 'emergency' | 'urgent' | 'routine';
+  specialist: string;
+}
+
+export interface ClusterMatch {
+  name: string;
+  matching_symptoms: string[];
+  severity_hint: SymptomCluster['severity_hint'];
+  specialist: string;
+}
+
+// Static medical knowledge base — symptom clusters
+const SYMPTOM_CLUSTERS: SymptomCluster[] = [
+  {
+    name: 'Dengue / Viral Hemorrhagic Fever',
+    keywords: ['fever', 'headache', 'body ache', 'joint pain', 'rash', 'muscle pain', 'fatigue', 'nausea', 'bleeding'],
+    min_match: 3,
+    severity_hint: 'urgent',
+    specialist: 'Internal Medicine / Infectious Disease',
+  },
+  {
+    name: 'Chikungunya',
+    keywords: ['fever', 'joint pain', 'swelling', 'rash', 'muscle pain', 'headache'],
+    min_match: 3,
+    severity_hint: 'urgent',
+    specialist: 'Internal Medicine / Rheumatology',
+  },
+  {
+    name: 'Malaria',
+    keywords: ['fever', 'chills', 'sweating', 'headache', 'nausea', 'vomiting', 'body ache', 'fatigue'],
+    min_match: 3,
+    severity_hint: 'urgent',
+    specialist: 'Internal Medicine',
+  },
+  {
+    name: 'Typhoid',
+    keywords: ['fever', 'headache', 'abdominal pain', 'weakness', 'poor appetite', 'diarrhea', 'constipation'],
+    min_match: 3,
+    severity_hint: 'urgent',
+    specialist: 'Internal Medicine',
+  },
+  {
+    name: 'Cardiac Event (MI / Angina)',
+    keywords: ['chest pain', 'chest pressure', 'arm pain', 'jaw pain', 'shortness of breath', 'sweating', 'nausea', 'dizziness'],
+    min_match: 2,
+    severity_hint: 'emergency',
+    specialist: 'Cardiology',
+  },
+  {
+    name: 'Stroke (CVA)',
+    keywords: ['facial drooping', 'arm weakness', 'speech difficulty', 'sudden headache', 'vision loss', 'confusion', 'numbness'],
+    min_match: 2,
+    severity_hint: 'emergency',
+    specialist: 'Neurology / Emergency',
+  },
+  {
+    name: 'Meningitis',
+    keywords: ['fever', 'headache', 'stiff neck', 'neck pain', 'sensitivity to light', 'confusion', 'vomiting', 'rash'],
+    min_match: 3,
+    severity_hint: 'emergency',
+    specialist: 'Neurology / Infectious Disease',
+  },
+  {
+    name: 'Pneumonia',
+    keywords: ['cough', 'fever', 'shortness of breath', 'chest pain', 'phlegm', 'fatigue', 'chills'],
+    min_match: 3,
+    severity_hint: 'urgent',
+    specialist: 'Pulmonology',
+  },
+  {
+    name: 'Urinary Tract Infection',
+    keywords: ['burning urination', 'frequent urination', 'lower abdominal pain', 'cloudy urine', 'fever', 'back pain'],
+    min_match: 2,
+    severity_hint: 'routine',
+    specialist: 'Urology / General Medicine',
+  },
+  {
+    name: 'Migraine',
+    keywords: ['headache', 'one-sided headache', 'nausea', 'sensitivity to light', 'sensitivity to sound', 'visual disturbance', 'aura'],
+    min_match: 2,
+    severity_hint: 'routine',
+    specialist: 'Neurology',
+  },
+  {
+    name: 'Gastroenteritis',
+    keywords: ['vomiting', 'diarrhea', 'nausea', 'abdominal pain', 'stomach cramps', 'fever', 'dehydration'],
+    min_match: 3,
+    severity_hint: 'routine',
+    specialist: 'Gastroenterology / General Medicine',
+  },
+  {
+    name: 'Appendicitis',
+    keywords: ['abdominal pain', 'right lower abdomen', 'nausea', 'vomiting', 'fever', 'loss of appetite'],
+    min_match: 3,
+    severity_hint: 'urgent',
+    specialist: 'Surgery',
+  },
+  {
+    name: 'Anemia',
+    keywords: ['fatigue', 'weakness', 'pale skin', 'dizziness', 'shortness of breath', 'cold hands', 'headache'],
+    min_match: 3,
+    severity_hint: 'routine',
+    specialist: 'Hematology / General Medicine',
+  },
+  {
+    name: 'Thyroid Disorder',
+    keywords: ['fatigue', 'weight change', 'hair loss', 'cold intolerance', 'heat intolerance', 'mood changes', 'swelling neck'],
+    min_match: 3,
+    severity_hint: 'routine',
+    specialist: 'Endocrinology',
+  },
+  {
+    name: 'Diabetic Emergency (DKA / Hypoglycemia)',
+    keywords: ['confusion', 'fruity breath', 'rapid breathing', 'excessive thirst', 'frequent urination', 'nausea', 'shakiness', 'sweating'],
+    min_match: 3,
+    severity_hint: 'emergency',
+    specialist: 'Endocrinology / Emergency',
+  },
+  {
+    name: 'Tuberculosis',
+    keywords: ['cough', 'persistent cough', 'blood in sputum', 'weight loss', 'night sweats', 'fever', 'fatigue', 'chest pain'],
+    min_match: 3,
+    severity_hint: 'urgent',
+    specialist: 'Pulmonology / TB Specialist',
+  },
+];
+
+// Shorter symptom strings ("", "ok", "na") carry no signal worth matching
+const MIN_SYMPTOM_LENGTH = 3;
+
+/** Whole-word/phrase match, tolerating a plural ("headaches", "rashes") */
+function mentionsKeyword(symptom: string, keyword: string): boolean {
+  const pattern = keyword.replace(/[\s-]+/g, '[\\s-]+');
+  return new RegExp(`(^|[^a-z])${pattern}(e?s)?($|[^a-z])`).test(symptom);
+}
+
+/**
+ * Match symptoms against SYMPTOM_CLUSTERS — shared by the tool, the safety
+ * floor and the agent's cluster hints. Keywords must appear as whole words,
+ * so a generic "pain" doesn't count as "chest pain".
+ */
+export function matchSymptomClusters(symptoms: string[]): ClusterMatch[] {
+  const lowered = symptoms
+    .map((s) => s.trim().toLowerCase())
+    .filter((s) => s.length >= MIN_SYMPTOM_LENGTH);
+  const matches: ClusterMatch[] = [];
+
+  for (const cluster of SYMPTOM_CLUSTERS) {
+    const matchingSymptoms = cluster.keywords.filter((keyword) =>
+      lowered.some((s) => mentionsKeyword(s, keyword))
+    );
+    if (matchingSymptoms.length >= cluster.min_match) {
+      matches.push({
+        name: cluster.name,
+        matching_symptoms: matchingSymptoms,
+        severity_hint: cluster.severity_hint,
+        specialist: cluster.specialist,
+      });
+    }
+  }
+
+  return matches;
+}
+
 // ─── Tool Handlers ───────────────────────────────────
 
 const handlers: Record<string, ToolHandler> = {
@@ -368,69 +595,146 @@ const handlers: Record<string, ToolHandler> = {
       date: s.created_at,
     }));
 
-    // Also fetch clinical notes for richer context
-    const { data: notes } = await supabase
+    // Also fetch clinical notes for richer context — confirmed and inferred
+    // separately, so a run of recent inferred notes can't crowd out confirmed ones
+    const notesWithStatus = (status: NoteStatus, noteLimit: number) => supabase
       .from('clinical_notes')
       .select('note_type, content, severity_context, created_at')
       .eq('clerk_user_id', ctx.clerkUserId)
+      .eq('status', status)
       .order('created_at', { ascending: false })
-      .limit(10);
+      .limit(noteLimit);
+    const [{ data: confirmedNotes }, { data: inferredNotes }] = await Promise.all([
+      notesWithStatus('confirmed', 20),
+      notesWithStatus('inferred', 10),
+    ]);
 
-    const clinicalNotes = (notes || []).map((n) => ({
+    const toNote = (n: { note_type: string; content: string; severity_context: string | null; created_at: string }) => ({
       type: n.note_type,
       content: n.content,
       severity_context: n.severity_context,
       date: n.created_at,
-    }));
+    });
 
-    return { sessions, total_sessions: sessions.length, clinical_notes: clinicalNotes };
+    return {
+      sessions,
+      total_sessions: sessions.length,
+      // Checked by the patient on their memory screen — as reliable as the stored profile
+      confirmed_notes: (confirmedNotes || []).map(toNote),
+      // Recorded from earlier conversations and never confirmed — may be wrong
+      inferred_notes: (inferredNotes || []).map(toNote),
+      note_guidance: 'Inferred notes are unconfirmed: ask about them if relevant, but do not state them as fact or let them alone raise or lower severity.',
+    };
   },
 
   get_medication_context: async (_input, ctx) => {
     if (!ctx.clerkUserId) {
-      return { mentioned_medications: [], conditions_treated: [], note: 'Anonymous user' };
+      return { current_medications: [], recently_stopped: [], note: 'Anonymous user — ask the patient what they take' };
     }
 
-    const supabase = getServiceClient();
-    if (!supabase) {
-      return { mentioned_medications: [], conditions_treated: [], note: 'Database not configured' };
+    if (!getServiceClient()) {
+      return { current_medications: [], recently_stopped: [], note: 'Database not configured' };
     }
 
-    const { data, error } = await supabase
-      .from('triage_results')
-      .select('result_json')
-      .eq('clerk_user_id', ctx.clerkUserId)
-      .order('created_at', { ascending: false })
-      .limit(10);
+    let medications: Medication[];
+    try {
+      medications = await listMedications(ctx.clerkUserId);
+    } catch (error) {
+      console.error('[triage-tools] get_medication_context error:', error instanceof Error ? error.message : error);
+      return { current_medications: [], recently_stopped: [], note: 'Failed to retrieve medications' };
+    }
 
-    if (error || !data) {
-      return { mentioned_medications: [], conditions_treated: [] };
+    const since = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const toEntry = (m: Medication) => ({
+      medicine: describeMedication(m),
+      started_on: m.started_on,
+      stopped_on: m.stopped_on,
+      source: m.source,
+    });
+
+    return {
+      current_medications: medications.filter(isCurrent).map(toEntry),
+      recently_stopped: medications.filter((m) => !isCurrent(m) && (m.stopped_on ?? '') >= since).map(toEntry),
+      ...(medications.length === 0 ? { note: 'No medications on record — ask the patient if relevant' } : {}),
+    };
+  },
+
+  get_lab_results: async (input, ctx) => {
+    if (!ctx.clerkUserId) {
+      return { latest: [], abnormal_count: 0, note: 'Anonymous user — no uploaded reports' };
     }
 
-    // Scan past results for medication mentions
-    const medicationPatterns = /medication|medicine|tablet|capsule|dose|drug|prescribed|taking|दवा|दवाई|गोली|மருந்து|మందు|औषध|ಔಷಧ|ওষুধ/i;
-    const medications = new Set<string>();
-    const conditions = new Set<string>();
+    if (!getServiceClient()) {
+      return { latest: [], abnormal_count: 0, note: 'Database not configured' };
+    }
 
-    for (const row of data) {
-      const json = row.result_json as Record<string, unknown>;
-      const reasoning = typeof json?.reasoning_summary === 'string' ? json.reasoning_summary : '';
-      const symptoms = Array.isArray(json?.symptoms_identified) ? json.symptoms_identified : [];
+    const days = typeof input.timeframe_days === 'number' ? Math.min(Math.max(input.timeframe_days, 1), 730) : 365;
+    try {
+      const latest = await latestLabValues(ctx.clerkUserId, days);
+      return {
+        latest: latest.slice(0, 25),
+        abnormal_count: latest.filter((v) => v.abnormal).length,
+        ...(latest.length === 0 ? { note: `No lab results in the last ${days} days` } : {}),
+      };
+    } catch (error) {
+      console.error('[triage-tools] get_lab_results error:', error instanceof Error ? error.message : error);
+      return { latest: [], abnormal_count: 0, note: 'Failed to retrieve lab results' };
+    }
+  },
 
-      if (medicationPatterns.test(reasoning)) {
-        // Extract simple medication context from reasoning
-        const matches = reasoning.match(/(?:taking|prescribed|on)\s+([^,.]+)/gi);
-        if (matches) matches.forEach((m: string) => medications.add(m.trim()));
+  check_medication_safety: async (input, ctx) => {
+    const strings = (value: unknown) => Array.isArray(value) ? value.filter((s): s is string => typeof s === 'string' && !!s.trim()) : [];
+    const mentioned = strings(input.medications);
+    const proposed = strings(input.proposed);
+    const allergies = strings(input.allergies).map((content) => ({ content, source: 'conversation' }));
+
+    // Signed-in patients: add their medication list and recorded allergies
+    let stored: Medication[] = [];
+    const supabase = ctx.clerkUserId ? getServiceClient() : null;
+    if (ctx.clerkUserId && supabase) {
+      const [meds, { data: allergyNotes }] = await Promise.all([
+        listMedications(ctx.clerkUserId).catch(() => [] as Medication[]),
+        supabase
+          .from('clinical_notes')
+          .select('content, status')
+          .eq('clerk_user_id', ctx.clerkUserId)
+          .eq('note_type', 'allergy')
+          .limit(20),
+      ]);
+      stored = meds.filter(isCurrent);
+      for (const note of allergyNotes || []) {
+        // Unconfirmed allergies still count — a false alarm is cheaper than a missed one
+        allergies.push({ content: note.content, source: note.status === 'confirmed' ? 'confirmed_note' : 'unconfirmed_note' });
       }
+    }
 
-      symptoms.forEach((s: unknown) => {
-        if (typeof s === 'string') conditions.add(s);
-      });
+    // Prescription rows often carry a brand the table doesn't know ("Warfin 5") next to its generic
+    const storedNames = stored.map((m) =>
+      m.generic_name && resolveDrug(m.name).generics.length === 0 ? m.generic_name : m.name
+    );
+    const names = [...storedNames, ...mentioned, ...proposed];
+    if (names.length === 0) {
+      return { findings: [], note: 'No medicines to check — ask the patient what they take' };
     }
 
+    const check = checkMedications({ medications: names, allergies: allergies.map((a) => a.content) });
+    const proposedSet = new Set(proposed.map((p) => p.toLowerCase()));
+
     return {
-      mentioned_medications: Array.from(medications).slice(0, 10),
-      conditions_treated: Array.from(conditions).slice(0, 15),
+      checked: check.resolved.map((d) => ({
+        medicine: d.input,
+        generics: d.generics,
+        source: proposedSet.has(d.input.toLowerCase()) ? 'proposed' : storedNames.includes(d.input) ? 'medication_list' : 'conversation',
+      })),
+      allergies_checked: allergies,
+      findings: check.findings.map((f) => ({
+        ...f,
+        involves_proposed: f.drugs.some((d) => proposedSet.has(d.toLowerCase())),
+      })),
+      unrecognized: check.unrecognized,
+      guidance: check.findings.length > 0
+        ? 'Add each do_not to action_plan.do_not in the patient\'s language, starting the line with the finding id in brackets, e.g. "[interaction:warfarin+ibuprofen] ..." (the tag is removed before the patient sees it). A major finding with no tagged line gets its English do_not appended. Do not suggest a proposed medicine that has a major finding.'
+        : 'No known interactions in the local table. Unrecognized medicines were not checked.',
     };
   },
 
@@ -513,146 +817,8 @@ const handlers: Record<string, ToolHandler> = {
   },
 
   check_symptom_combinations: async (input) => {
-    const symptoms = (input.symptoms as string[]).map((s) => s.toLowerCase());
-
-    // Static medical knowledge base — symptom clusters
-    const SYMPTOM_CLUSTERS = [
-      {
-        name: 'Dengue / Viral Hemorrhagic Fever',
-        keywords: ['fever', 'headache', 'body ache', 'joint pain', 'rash', 'muscle pain', 'fatigue', 'nausea', 'bleeding'],
-        min_match: 3,
-        severity_hint: 'urgent',
-        specialist: 'Internal Medicine / Infectious Disease',
-      },
-      {
-        name: 'Chikungunya',
-        keywords: ['fever', 'joint pain', 'swelling', 'rash', 'muscle pain', 'headache'],
-        min_match: 3,
-        severity_hint: 'urgent',
-        specialist: 'Internal Medicine / Rheumatology',
-      },
-      {
-        name: 'Malaria',
-        keywords: ['fever', 'chills', 'sweating', 'headache', 'nausea', 'vomiting', 'body ache', 'fatigue'],
-        min_match: 3,
-        severity_hint: 'urgent',
-        specialist: 'Internal Medicine',
-      },
-      {
-        name: 'Typhoid',
-        keywords: ['fever', 'headache', 'abdominal pain', 'weakness', 'poor appetite', 'diarrhea', 'constipation'],
-        min_match: 3,
-        severity_hint: 'urgent',
-        specialist: 'Internal Medicine',
-      },
-      {
-        name: 'Cardiac Event (MI / Angina)',
-        keywords: ['chest pain', 'chest pressure', 'arm pain', 'jaw pain', 'shortness of breath', 'sweating', 'nausea', 'dizziness'],
-        min_match: 2,
-        severity_hint: 'emergency',
-        specialist: 'Cardiology',
-      },
-      {
-        name: 'Stroke (CVA)',
-        keywords: ['facial drooping', 'arm weakness', 'speech difficulty', 'sudden headache', 'vision loss', 'confusion', 'numbness'],
-        min_match: 2,
-        severity_hint: 'emergency',
-        specialist: 'Neurology / Emergency',
-      },
-      {
-        name: 'Meningitis',
-        keywords: ['fever', 'headache', 'stiff neck', 'neck pain', 'sensitivity to light', 'confusion', 'vomiting', 'rash'],
-        min_match: 3,
-        severity_hint: 'emergency',
-        specialist: 'Neurology / Infectious Disease',
-      },
-      {
-        name: 'Pneumonia',
-        keywords: ['cough', 'fever', 'shortness of breath', 'chest pain', 'phlegm', 'fatigue', 'chills'],
-        min_match: 3,
-        severity_hint: 'urgent',
-        specialist: 'Pulmonology',
-      },
-      {
-        name: 'Urinary Tract Infection',
-        keywords: ['burning urination', 'frequent urination', 'lower abdominal pain', 'cloudy urine', 'fever', 'back pain'],
-        min_match: 2,
-        severity_hint: 'routine',
-        specialist: 'Urology / General Medicine',
-      },
-      {
-        name: 'Migraine',
-        keywords: ['headache', 'one-sided headache', 'nausea', 'sensitivity to light', 'sensitivity to sound', 'visual disturbance', 'aura'],
-        min_match: 2,
-        severity_hint: 'routine',
-        specialist: 'Neurology',
-      },
-      {
-        name: 'Gastroenteritis',
-        keywords: ['vomiting', 'diarrhea', 'nausea', 'abdominal pain', 'stomach cramps', 'fever', 'dehydration'],
-        min_match: 3,
-        severity_hint: 'routine',
-        specialist: 'Gastroenterology / General Medicine',
-      },
-      {
-        name: 'Appendicitis',
-        keywords: ['abdominal pain', 'right lower abdomen', 'nausea', 'vomiting', 'fever', 'loss of appetite'],
-        min_match: 3,
-        severity_hint: 'urgent',
-        specialist: 'Surgery',
-      },
-      {
-        name: 'Anemia',
-        keywords: ['fatigue', 'weakness', 'pale skin', 'dizziness', 'shortness of breath', 'cold hands', 'headache'],
-        min_match: 3,
-        severity_hint: 'routine',
-        specialist: 'Hematology / General Medicine',
-      },
-      {
-        name: 'Thyroid Disorder',
-        keywords: ['fatigue', 'weight change', 'hair loss', 'cold intolerance', 'heat intolerance', 'mood changes', 'swelling neck'],
-        min_match: 3,
-        severity_hint: 'routine',
-        specialist: 'Endocrinology',
-      },
-      {
-        name: 'Diabetic Emergency (DKA / Hypoglycemia)',
-        keywords: ['confusion', 'fruity breath', 'rapid breathing', 'excessive thirst', 'frequent urination', 'nausea', 'shakiness', 'sweating'],
-        min_match: 3,
-        severity_hint: 'emergency',
-        specialist: 'Endocrinology / Emergency',
-      },
-      {
-        name: 'Tuberculosis',
-        keywords: ['cough', 'persistent cough', 'blood in sputum', 'weight loss', 'night sweats', 'fever', 'fatigue', 'chest pain'],
-        min_match: 3,
-        severity_hint: 'urgent',
-        specialist: 'Pulmonology / TB Specialist',
-      },
-    ];
-
-    const matches: {
-      name: string;
-      matching_symptoms: string[];
-      severity_hint: string;
-      specialist: string;
-    }[] = [];
-
-    for (const cluster of SYMPTOM_CLUSTERS) {
-      const matchingSymptoms = cluster.keywords.filter((keyword) =>
-        symptoms.some((s) => s.includes(keyword) || keyword.includes(s))
-      );
-      if (matchingSymptoms.length >= cluster.min_match) {
-        matches.push({
-          name: cluster.name,
-          matching_symptoms: matchingSymptoms,
-          severity_hint: cluster.severity_hint,
-          specialist: cluster.specialist,
-        });
-      }
-    }
-
-    return { possible_clusters: matches };
+    const symptoms = (input.symptoms as string[]) || [];
+    return { possible_clusters: matchSymptomClusters(symptoms) };
   },
 
   recommend_specialist: async (input) => {
@@ -1289,24 +1455,22 @@ const handlers: Record<string, ToolHandler> = {
       return { saved: false, note: 'Database not configured' };
     }
 
-    const noteType = input.note_type as string;
-    const content = input.content as string;
+    const noteType = input.note_type;
+    const content = typeof input.content === 'string' ? input.content : '';
     const severityContext = typeof input.severity_context === 'string' ? input.severity_context : null;
+    if (!isNoteType(noteType) || !content.trim()) {
+      return { saved: false, note: 'Invalid note' };
+    }
 
-    const { error } = await supabase.from('clinical_notes').insert({
-      clerk_user_id: ctx.clerkUserId,
-      note_type: noteType,
-      content,
-      severity_context: severityContext,
-      session_id: ctx.sessionId || null,
-    });
-
-    if (error) {
-      console.error('[triage-tools] save_clinical_note error:', error.message);
+    try {
+      const saved = await recordInferredNotes(ctx.clerkUserId, ctx.sessionId || null, [
+        { note_type: noteType, content, severity_context: severityContext },
+      ]);
+      return saved > 0 ? { saved: true, note_type: noteType } : { saved: false, note: 'Already on record' };
+    } catch (error) {
+      console.error('[triage-tools] save_clinical_note error:', error instanceof Error ? error.message : error);
       return { saved: false, note: 'Failed to save note' };
     }
-
-    return { saved: true, note_type: noteType };
   },
 
   schedule_followup_check: async (input, ctx) => {
@@ -1357,36 +1521,25 @@ const handlers: Record<string, ToolHandler> = {
     const conditions = Array.isArray(input.conditions) ? input.conditions.filter((s): s is string => typeof s === 'string') : [];
     const medications = Array.isArray(input.medications) ? input.medications.filter((s): s is string => typeof s === 'string') : [];
 
-    // Fetch existing profile to merge
-    const { data: existing } = await supabase
-      .from('profiles')
-      .select('pre_existing_conditions')
-      .eq('clerk_user_id', ctx.clerkUserId)
-      .single();
-
-    const existingConditions = Array.isArray(existing?.pre_existing_conditions) ? existing.pre_existing_conditions : [];
-    const mergedConditions = Array.from(new Set([...existingConditions, ...conditions, ...medications]));
-
-    const { error } = await supabase
-      .from('profiles')
-      .upsert(
-        {
-          clerk_user_id: ctx.clerkUserId,
-          pre_existing_conditions: mergedConditions,
-        },
-        { onConflict: 'clerk_user_id' }
-      );
+    // Recorded as inferred notes rather than merged into the profile — the
+    // profile holds only what the patient entered; these await their review
+    const notes: InferredNote[] = [
+      ...conditions.map((content) => ({ note_type: 'chronic_condition' as const, content })),
+      ...medications.map((content) => ({ note_type: 'medication' as const, content })),
+      ...riskFactors.map((content) => ({ note_type: 'observation' as const, content: `Risk factor: ${content}` })),
+    ];
 
-    if (error) {
-      console.error('[triage-tools] update_risk_profile error:', error.message);
+    try {
+      const saved = await recordInferredNotes(ctx.clerkUserId, ctx.sessionId || null, notes);
+      return {
+        updated: saved > 0,
+        risk_factors_added: riskFactors,
+        notes_recorded: saved,
+      };
+    } catch (error) {
+      console.error('[triage-tools] update_risk_profile error:', error instanceof Error ? error.message : error);
       return { updated: false, note: 'Failed to update profile' };
     }
-
-    return {
-      updated: true,
-      risk_factors_added: riskFactors,
-      conditions_merged: mergedConditions.length,
-    };
   },
 };
 
@@ -0,0 +1,440 @@
+/**
+ * Server-side TTS audio cache.
+ *
+ * Many spoken lines are word-for-word the same for every patient — voice
+ * acknowledgments, the nearby-facilities line — and were synthesised again
+ * for each device. Audio is stored content-addressed: the key is a hash of
+ * provider + voice + language + format + normalised text, so the same
+ * phrase in the same voice is synthesised once, and a voice or provider
+ * change can never serve stale audio.
+ *
+ * Storage is pluggable, selected by TTS_CACHE_STORE:
+ *   - filesystem: files under TTS_CACHE_DIR (default; .cache/tts)
+ *   - supabase:   a Supabase Storage bucket, TTS_CACHE_BUCKET (shared by every replica)
+ *   - off:        no caching
+ *
+ * The cache is capped at TTS_CACHE_MAX_MB; past that, the least recently
+ * used entries are evicted. Static phrases are synthesised ahead of time
+ * by /api/cron/tts-cache (scheduled daily in vercel.json, and worth a call
+ * after each deploy) and are never evicted — the emergency guide's lines are
+ * rarely played, which is exactly why they must not be the first to go.
+ *
+ * The cache is never load-bearing — a store error is logged and the phrase
+ * synthesised as if it had missed.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Language } from '@/types';
+import { EMERGENCY_NUMBERS, SUPPORTED_LANGUAGES, supportsTTS } from './constants';
+import { EMERGENCY_SPEECH_KEYS } from './emergency-protocol';
+import { MessageKey, t } from './i18n';
+import { getSpeechProviders, SpeechProvider, streamSpeech, synthesizeSpeech, toSpeechText } from './speech-provider';
+import { getServiceClient } from './supabase';
+
+// ─── Types ───────────────────────────────────────────
+
+export type TTSCacheStoreName = 'filesystem' | 'supabase';
+
+/** wav from batch synthesis, mp3 from streaming */
+export type TTSAudioFormat = 'wav' | 'mp3';
+
+export interface TTSCacheEntry {
+  key: string;
+  size: number;
+  /** Last read or write, ms since epoch */
+  lastUsed: number;
+}
+
+export interface TTSCacheStore {
+  readonly name: TTSCacheStoreName;
+  /** False when required credentials are missing */
+  readonly configured: boolean;
+  get(key: string): Promise<Buffer | null>;
+  put(key: string, audio: Buffer, format: TTSAudioFormat): Promise<void>;
+  list(): Promise<TTSCacheEntry[]>;
+  delete(keys: string[]): Promise<void>;
+}
+
+// ─── Keys ────────────────────────────────────────────
+
+/** Markdown-free, NFC, single-spaced — trivially different texts share audio */
+export function normalizeSpeechText(text: string): string {
+  return toSpeechText(text).normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+export function ttsCacheKey(provider: SpeechProvider, languageCode: string, format: TTSAudioFormat, text: string): string {
+  const hash = createHash('sha256')
+    .update([provider.name, provider.voice, languageCode, format, normalizeSpeechText(text)].join('\n'))
+    .digest('hex');
+  return `${hash}.${format}`;
+}
+
+// ─── Filesystem store ────────────────────────────────
+
+function createFilesystemStore(): TTSCacheStore {
+  const dir = process.env.TTS_CACHE_DIR || path.join(process.cwd(), '.cache', 'tts');
+
+  return {
+    name: 'filesystem',
+    configured: true,
+
+    async get(key) {
+      const file = path.join(dir, key);
+      try {
+        const audio = await fs.readFile(file);
+        // mtime doubles as last use, for eviction
+        const now = new Date();
+        fs.utimes(file, now, now).catch(() => {});
+        return audio;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw err;
+      }
+    },
+
+    async put(key, audio) {
+      await fs.mkdir(dir, { recursive: true });
+      // Write then rename, so a concurrent read never sees half a file
+      const tmp = path.join(dir, `${key}.${process.pid}.tmp`);
+      await fs.writeFile(tmp, audio);
+      await fs.rename(tmp, path.join(dir, key));
+    },
+
+    async list() {
+      let names: string[];
+      try {
+        names = await fs.readdir(dir);
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw err;
+      }
+      const entries = await Promise.all(names.filter((name) => !name.endsWith('.tmp')).map(async (name) => {
+        const stat = await fs.stat(path.join(dir, name)).catch(() => null);
+        return stat ? { key: name, size: stat.size, lastUsed: stat.mtimeMs } : null;
+      }));
+      return entries.filter((e): e is TTSCacheEntry => e !== null);
+    },
+
+    async delete(keys) {
+      await Promise.all(keys.map((key) => fs.unlink(path.join(dir, key)).catch(() => {})));
+    },
+  };
+}
+
+// ─── Supabase Storage store ──────────────────────────
+
+const SUPABASE_LIST_PAGE = 1000;
+
+function createSupabaseStore(): TTSCacheStore {
+  const bucket = process.env.TTS_CACHE_BUCKET || 'tts-cache';
+
+  function storage() {
+    const client = getServiceClient();
+    if (!client) throw new Error('Database not configured');
+    return client.storage.from(bucket);
+  }
+
+  return {
+    name: 'supabase',
+    configured: !!getServiceClient(),
+
+    async get(key) {
+      const { data, error } = await storage().download(key);
+      if (error) {
+        // Storage reports a missing object as an error
+        if (/not.?found|404/i.test(error.message)) return null;
+        throw new Error(error.message);
+      }
+      return Buffer.from(await data.arrayBuffer());
+    },
+
+    async put(key, audio, format) {
+      const { error } = await storage().upload(key, audio, {
+        contentType: format === 'wav' ? 'audio/wav' : 'audio/mpeg',
+        upsert: true,
+      });
+      if (error) throw new Error(error.message);
+    },
+
+    async list() {
+      const entries: TTSCacheEntry[] = [];
+      for (let offset = 0; ; offset += SUPABASE_LIST_PAGE) {
+        const { data, error } = await storage().list('', { limit: SUPABASE_LIST_PAGE, offset });
+        if (error) throw new Error(error.message);
+        for (const object of data || []) {
+          const lastUsed = object.last_accessed_at || object.updated_at || object.created_at;
+          entries.push({
+            key: object.name,
+            size: Number(object.metadata?.size ?? 0),
+            lastUsed: lastUsed ? new Date(lastUsed).getTime() : 0,
+          });
+        }
+        if (!data || data.length < SUPABASE_LIST_PAGE) return entries;
+      }
+    },
+
+    async delete(keys) {
+      if (keys.length === 0) return;
+      const { error } = await storage().remove(keys);
+      if (error) throw new Error(error.message);
+    },
+  };
+}
+
+// ─── Selection ───────────────────────────────────────
+
+let cachedStore: TTSCacheStore | null | undefined;
+
+/** Store selected by TTS_CACHE_STORE (default: filesystem) — null when caching is off */
+export function getTTSCacheStore(): TTSCacheStore | null {
+  if (cachedStore !== undefined) return cachedStore;
+
+  const name = (process.env.TTS_CACHE_STORE || 'filesystem').toLowerCase();
+  if (name === 'off') {
+    cachedStore = null;
+    return cachedStore;
+  }
+
+  const store = name === 'supabase' ? createSupabaseStore() : createFilesystemStore();
+  if (!store.configured) {
+    console.warn(`[tts-cache] ${store.name} store is not configured, using filesystem`);
+  }
+  cachedStore = store.configured ? store : createFilesystemStore();
+  return cachedStore;
+}
+
+// ─── Eviction ────────────────────────────────────────
+
+/** Evict down to this share of the cap, so every write doesn't trigger a sweep */
+const EVICT_TO = 0.9;
+
+function maxCacheBytes(): number {
+  const mb = Number(process.env.TTS_CACHE_MAX_MB);
+  return (Number.isFinite(mb) && mb > 0 ? mb : 200) * 1024 * 1024;
+}
+
+// Running total since the last listing — null until the store is first listed
+let knownBytes: number | null = null;
+let eviction: Promise<void> | null = null;
+
+async function evictLeastRecentlyUsed(store: TTSCacheStore): Promise<void> {
+  const entries = await store.list();
+  let total = entries.reduce((sum, e) => sum + e.size, 0);
+  const limit = maxCacheBytes();
+
+  if (total > limit) {
+    const pinned = new Set(staticSpeechJobs().map((job) => job.key));
+    const victims: string[] = [];
+    const candidates = entries.filter((e) => !pinned.has(e.key)).sort((a, b) => a.lastUsed - b.lastUsed);
+    for (const entry of candidates) {
+      if (total <= limit * EVICT_TO) break;
+      victims.push(entry.key);
+      total -= entry.size;
+    }
+    await store.delete(victims);
+    console.log(`[tts-cache] Evicted ${victims.length} entries, ${Math.round(total / 1024)}KB remain`);
+  }
+  knownBytes = total;
+}
+
+function trackWrite(store: TTSCacheStore, bytes: number): void {
+  if (knownBytes !== null) knownBytes += bytes;
+  if (eviction || (knownBytes !== null && knownBytes <= maxCacheBytes())) return;
+
+  eviction = evictLeastRecentlyUsed(store)
+    .catch((err) => console.error('[tts-cache] Eviction failed:', err instanceof Error ? err.message : err))
+    .finally(() => { eviction = null; });
+}
+
+// ─── Read / write ────────────────────────────────────
+
+async function readCache(key: string): Promise<Buffer | null> {
+  const store = getTTSCacheStore();
+  if (!store) return null;
+  try {
+    return await store.get(key);
+  } catch (err) {
+    console.error('[tts-cache] Read failed:', err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
+async function writeCache(key: string, audio: Buffer, format: TTSAudioFormat): Promise<void> {
+  const store = getTTSCacheStore();
+  if (!store || audio.length === 0) return;
+  try {
+    await store.put(key, audio, format);
+    trackWrite(store, audio.length);
+  } catch (err) {
+    console.error('[tts-cache] Write failed:', err instanceof Error ? err.message : err);
+  }
+}
+
+/** Longer texts are one-off answers that won't repeat — not worth the space */
+const MAX_CACHED_CHARS = 600;
+
+function cacheable(text: string): boolean {
+  return normalizeSpeechText(text).length <= MAX_CACHED_CHARS;
+}
+
+/** The provider that would serve this language now — cached audio must be in its voice */
+function primaryProvider(languageCode: string): SpeechProvider | null {
+  return getSpeechProviders('tts', languageCode)[0] ?? null;
+}
+
+// ─── Public API ──────────────────────────────────────
+
+/**
+ * Batch TTS through the cache — WAV. Audio from a fallback provider is
+ * stored under that provider's key, so it is only served while that
+ * provider is the primary.
+ */
+export async function synthesizeCached(
+  text: string,
+  languageCode: string,
+  signal?: AbortSignal
+): Promise<{ audio: Buffer; cached: boolean }> {
+  if (!cacheable(text)) {
+    return { audio: (await synthesizeSpeech(text, languageCode, signal)).result, cached: false };
+  }
+
+  const primary = primaryProvider(languageCode);
+  if (primary) {
+    const hit = await readCache(ttsCacheKey(primary, languageCode, 'wav', text));
+    if (hit) return { audio: hit, cached: true };
+  }
+
+  const { result: audio, provider: providerName } = await synthesizeSpeech(text, languageCode, signal);
+  const provider = getSpeechProviders('tts', languageCode).find((p) => p.name === providerName);
+  if (provider) await writeCache(ttsCacheKey(provider, languageCode, 'wav', text), audio, 'wav');
+  return { audio, cached: false };
+}
+
+/**
+ * Streaming TTS through the cache — MP3. A hit is yielded as one chunk; a
+ * miss streams as usual and is stored once it has played through.
+ */
+export async function* streamCachedSpeech(
+  text: string,
+  languageCode: string,
+  signal?: AbortSignal,
+  onCacheHit?: () => void
+): AsyncGenerator<Buffer> {
+  if (!cacheable(text)) {
+    yield* streamSpeech(text, languageCode, signal);
+    return;
+  }
+
+  const primary = primaryProvider(languageCode);
+  if (primary) {
+    const hit = await readCache(ttsCacheKey(primary, languageCode, 'mp3', text));
+    if (hit) {
+      onCacheHit?.();
+      yield hit;
+      return;
+    }
+  }
+
+  let provider: SpeechProvider | null = null;
+  const chunks: Buffer[] = [];
+  for await (const chunk of streamSpeech(text, languageCode, signal, (p) => { provider = p; })) {
+    chunks.push(chunk);
+    yield chunk;
+  }
+  // Only audio that streamed to the end — an abort leaves a truncated clip
+  if (provider && !signal?.aborted) {
+    await writeCache(ttsCacheKey(provider, languageCode, 'mp3', text), Buffer.concat(chunks), 'mp3');
+  }
+}
+
+// ─── Pre-generation ──────────────────────────────────
+
+/** Lines spoken word-for-word the same to every patient */
+export const STATIC_SPEECH_KEYS: MessageKey[] = [
+  'voice.ack.generic',
+  'voice.ack.head',
+  'voice.ack.fever',
+  'voice.ack.chest',
+  'voice.ack.stomach',
+  'voice.ack.breathing',
+  'voice.ack.pain',
+  'voice.ack.child',
+  'triage.nearbyFacilities',
+  // The emergency guide — it has to start speaking instantly
+  ...EMERGENCY_SPEECH_KEYS,
+];
+
+/** Placeholder values in static lines, as the client fills them */
+const STATIC_SPEECH_PARAMS = { number: EMERGENCY_NUMBERS.unified };
+
+const PREGENERATE_CONCURRENCY = 4;
+
+interface StaticSpeechJob {
+  text: string;
+  languageCode: string;
+  format: TTSAudioFormat;
+  /** Cache key under the current primary provider */
+  key: string;
+}
+
+/** Every static phrase × language with a voice × format, for the current primary providers */
+function staticSpeechJobs(): StaticSpeechJob[] {
+  const jobs: StaticSpeechJob[] = [];
+  for (const { code, speechCode } of SUPPORTED_LANGUAGES) {
+    // Nothing can speak it with the providers configured here
+    const provider = supportsTTS(speechCode) ? primaryProvider(speechCode) : null;
+    if (!provider) continue;
+    const texts = new Set(STATIC_SPEECH_KEYS.map((key) => t(key, code as Language, STATIC_SPEECH_PARAMS)));
+    for (const text of texts) {
+      for (const format of ['wav', 'mp3'] as const) {
+        jobs.push({ text, languageCode: speechCode, format, key: ttsCacheKey(provider, speechCode, format, text) });
+      }
+    }
+  }
+  return jobs;
+}
+
+export interface PregenerateReport {
+  /** Phrase × language × format combinations */
+  clips: number;
+  generated: number;
+  alreadyCached: number;
+  failed: number;
+}
+
+/**
+ * Synthesise every static phrase in every language with a voice, in both
+ * formats, for the current primary providers. Phrases already cached are
+ * skipped, so re-running after each deploy only pays for what changed.
+ */
+export async function pregenerateStaticSpeech(): Promise<PregenerateReport> {
+  const jobs = staticSpeechJobs();
+  const report: PregenerateReport = { clips: jobs.length, generated: 0, alreadyCached: 0, failed: 0 };
+  let next = 0;
+
+  async function worker() {
+    while (next < jobs.length) {
+      const { text, languageCode, format } = jobs[next++];
+      try {
+        if (format === 'wav') {
+          const { cached } = await synthesizeCached(text, languageCode);
+          report[cached ? 'alreadyCached' : 'generated']++;
+        } else {
+          let cached = false;
+          for await (const _chunk of streamCachedSpeech(text, languageCode, undefined, () => { cached = true; })) {
+            // Drain — the cache is written once the stream ends
+          }
+          report[cached ? 'alreadyCached' : 'generated']++;
+        }
+      } catch (err) {
+        report.failed++;
+        console.error(`[tts-cache] Pre-generation failed for ${languageCode}:`, err instanceof Error ? err.message : err);
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: PREGENERATE_CONCURRENCY }, worker));
+  return report;
+}
@@ -5,8 +5,11 @@
  * - Client-side cache (repeated plays are instant)
  * - Pre-warm support (synthesize in background before user clicks play)
  * - Fallback to blob-collect for browsers without MediaSource audio/mpeg
+ * - Languages without a TTS voice (Urdu) fail fast instead of hitting the API
  */
 
+import { supportsTTS } from './constants';
+
 // ─── Cache (LRU-bounded) ────────────────────────
 // Key = text+lang, Value = complete audio Blob ready to play
 const MAX_CACHE_ENTRIES = 50;
@@ -376,6 +379,16 @@ export function streamTTS(options: StreamTTSOptions): TTSPlaybackController {
   const controllerDone = new Promise<void>((r) => { resolveController = r; });
   let playing = false;
 
+  // No voice for this language — report it asynchronously so callers can
+  // finish wiring up the returned controller first
+  if (!supportsTTS(languageCode)) {
+    queueMicrotask(() => {
+      onError?.('TTS is not available for this language');
+      resolveController?.();
+    });
+    return { stop: () => resolveController?.(), done: controllerDone, isPlaying: () => false };
+  }
+
   const endCallbacks = () => {
     playing = false;
     currentAudio = null;
@@ -476,7 +489,7 @@ export function streamTTS(options: StreamTTSOptions): TTSPlaybackController {
 const prewarmCache = new Map<string, Promise<void>>();
 
 export function prewarmTTS(text: string, languageCode: string): void {
-  if (!text?.trim()) return;
+  if (!text?.trim() || !supportsTTS(languageCode)) return;
   const key = cacheKey(text, languageCode);
 
   if (audioCache.has(key) || prewarmCache.has(key)) return;
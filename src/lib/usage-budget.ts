@@ -0,0 +1,273 @@
+/**
+ * Model token accounting and per-caller daily budgets.
+ *
+ * Every model call reports its TokenUsage (see LLMRequest.onUsage); a
+ * UsageMeter sums one request's calls, and recordUsage() persists the total
+ * against the caller — the Clerk user, or a hash of the IP when anonymous.
+ *
+ * Budgets never hard-fail a request. As a caller's spend for the day (UTC)
+ * crosses a threshold, requests degrade instead:
+ *   - full:    normal thinking budget and tools
+ *   - reduced: ≥ 80% of budget — smaller thinking budget, optional tools skipped
+ *   - minimal: ≥ 100% — minimum thinking budget, one tool round, shorter replies
+ *
+ * Limits come from USAGE_DAILY_{TOKENS,COST}_{USER,ANON}; 0 disables one.
+ */
+
+import { createHash } from 'crypto';
+import { LLMProvider, TokenUsage } from './llm-provider';
+import { LLMUsageRecord, saveLLMUsage } from './db';
+import { getServiceClient } from './supabase';
+
+// ─── Types ───────────────────────────────────────────
+
+export type UsageRoute = LLMUsageRecord['route'];
+
+export type BudgetTier = LLMUsageRecord['budget_tier'];
+
+export interface UsageMeter {
+  /** Model calls so far */
+  readonly calls: number;
+  readonly total: TokenUsage;
+  add(usage: TokenUsage): void;
+}
+
+export interface BudgetStatus {
+  tier: BudgetTier;
+  /** Today's tokens (input + output + cache) */
+  tokensUsed: number;
+  costUsd: number;
+  /** 0 when unlimited */
+  tokenBudget: number;
+  costBudget: number;
+}
+
+export interface UsageSummary {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  costUsd: number;
+  byRoute: Record<UsageRoute, { requests: number; tokens: number; costUsd: number }>;
+  /** Requests served below the full tier */
+  degradedRequests: number;
+}
+
+// ─── Pricing ─────────────────────────────────────────
+
+/** USD per million tokens — defaults match the Opus tier, override for other models */
+const PRICE_INPUT = Number(process.env.LLM_PRICE_INPUT_PER_MTOK ?? 5);
+const PRICE_OUTPUT = Number(process.env.LLM_PRICE_OUTPUT_PER_MTOK ?? 25);
+const CACHE_READ_MULTIPLIER = 0.1;
+const CACHE_WRITE_MULTIPLIER = 1.25;
+
+export function estimateCostUsd(usage: TokenUsage): number {
+  const input = usage.inputTokens
+    + usage.cacheReadTokens * CACHE_READ_MULTIPLIER
+    + usage.cacheWriteTokens * CACHE_WRITE_MULTIPLIER;
+  return (input * PRICE_INPUT + usage.outputTokens * PRICE_OUTPUT) / 1_000_000;
+}
+
+function totalTokens(usage: Pick<TokenUsage, 'inputTokens' | 'outputTokens' | 'cacheReadTokens' | 'cacheWriteTokens'>): number {
+  return usage.inputTokens + usage.outputTokens + usage.cacheReadTokens + usage.cacheWriteTokens;
+}
+
+// ─── Metering ────────────────────────────────────────
+
+const EMPTY_USAGE: TokenUsage = {
+  inputTokens: 0, outputTokens: 0, thinkingTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0,
+};
+
+export function createUsageMeter(): UsageMeter {
+  let calls = 0;
+  const total: TokenUsage = { ...EMPTY_USAGE };
+  return {
+    get calls() { return calls; },
+    get total() { return { ...total }; },
+    add(usage) {
+      calls++;
+      for (const key of Object.keys(total) as (keyof TokenUsage)[]) total[key] += usage[key];
+    },
+  };
+}
+
+/** Wrap a provider so every stream/complete call reports its usage to the meter */
+export function meterProvider(provider: LLMProvider, meter: UsageMeter): LLMProvider {
+  const withMeter = <T extends { onUsage?: (usage: TokenUsage) => void }>(request: T): T => ({
+    ...request,
+    onUsage: (usage: TokenUsage) => {
+      meter.add(usage);
+      request.onUsage?.(usage);
+    },
+  });
+  return {
+    ...provider,
+    stream: (request) => provider.stream(withMeter(request)),
+    complete: (request) => provider.complete(withMeter(request)),
+  };
+}
+
+// ─── Subjects & budgets ──────────────────────────────
+
+/** Budget key: the signed-in user, else the client IP (hashed — never stored raw) */
+export function usageSubject(clerkUserId: string | null, ip: string): string {
+  if (clerkUserId) return `user:${clerkUserId}`;
+  return `ip:${createHash('sha256').update(ip).digest('hex').slice(0, 16)}`;
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function getLimits(subject: string): { tokenBudget: number; costBudget: number } {
+  const signedIn = subject.startsWith('user:');
+  return signedIn
+    ? { tokenBudget: envNumber('USAGE_DAILY_TOKENS_USER', 1_000_000), costBudget: envNumber('USAGE_DAILY_COST_USER', 5) }
+    : { tokenBudget: envNumber('USAGE_DAILY_TOKENS_ANON', 200_000), costBudget: envNumber('USAGE_DAILY_COST_ANON', 1) };
+}
+
+const REDUCED_AT = 0.8;
+
+function tierFor(fraction: number): BudgetTier {
+  if (fraction >= 1) return 'minimal';
+  if (fraction >= REDUCED_AT) return 'reduced';
+  return 'full';
+}
+
+function startOfDayUTC(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+// ─── In-memory fallback ──────────────────────────────
+
+interface MemoryUsageRecord extends LLMUsageRecord {
+  timestamp: number;
+}
+
+// Used when Supabase isn't configured or a query fails; resets on deploy
+const memoryRecords: MemoryUsageRecord[] = [];
+const MAX_MEMORY_RECORDS = 10000;
+
+// ─── Recording ───────────────────────────────────────
+
+/** Persist one request's usage. Fire-and-forget; skipped when no model call was made. */
+export function recordUsage(params: {
+  subject: string;
+  clerkUserId: string | null;
+  route: UsageRoute;
+  model: string;
+  meter: UsageMeter;
+  tier: BudgetTier;
+}): void {
+  if (params.meter.calls === 0) return;
+  const usage = params.meter.total;
+
+  const record: LLMUsageRecord = {
+    subject: params.subject,
+    clerk_user_id: params.clerkUserId,
+    route: params.route,
+    model: params.model,
+    input_tokens: usage.inputTokens,
+    output_tokens: usage.outputTokens,
+    thinking_tokens: usage.thinkingTokens,
+    cache_read_tokens: usage.cacheReadTokens,
+    cache_write_tokens: usage.cacheWriteTokens,
+    cost_usd: Number(estimateCostUsd(usage).toFixed(6)),
+    budget_tier: params.tier,
+  };
+
+  memoryRecords.push({ ...record, timestamp: Date.now() });
+  if (memoryRecords.length > MAX_MEMORY_RECORDS) {
+    memoryRecords.splice(0, memoryRecords.length - MAX_MEMORY_RECORDS);
+  }
+  saveLLMUsage(record);
+}
+
+type UsageRow = Pick<LLMUsageRecord,
+  'route' | 'input_tokens' | 'output_tokens' | 'thinking_tokens' | 'cache_read_tokens' | 'cache_write_tokens' | 'cost_usd' | 'budget_tier'>;
+
+const USAGE_COLUMNS = 'route, input_tokens, output_tokens, thinking_tokens, cache_read_tokens, cache_write_tokens, cost_usd, budget_tier';
+
+/** Usage rows since a time, from Supabase when available, else this process */
+async function loadUsage(since: Date, subject?: string): Promise<UsageRow[]> {
+  const supabase = getServiceClient();
+  if (supabase) {
+    try {
+      let query = supabase.from('llm_usage').select(USAGE_COLUMNS).gte('created_at', since.toISOString());
+      if (subject) query = query.eq('subject', subject);
+      const { data, error } = await query;
+      if (error) throw new Error(error.message);
+      return (data || []) as UsageRow[];
+    } catch (err) {
+      console.error('[usage-budget] Supabase query failed, using in-memory usage:', err);
+    }
+  }
+  return memoryRecords.filter((r) => r.timestamp >= since.getTime() && (!subject || r.subject === subject));
+}
+
+const rowTokens = (r: UsageRow) => totalTokens({
+  inputTokens: r.input_tokens,
+  outputTokens: r.output_tokens,
+  cacheReadTokens: r.cache_read_tokens,
+  cacheWriteTokens: r.cache_write_tokens,
+});
+
+// ─── Public queries ──────────────────────────────────
+
+/** Today's spend for a subject and the tier it puts the next request in */
+export async function getBudgetStatus(subject: string): Promise<BudgetStatus> {
+  const rows = await loadUsage(startOfDayUTC(), subject);
+  const tokensUsed = rows.reduce((n, r) => n + rowTokens(r), 0);
+  const costUsd = rows.reduce((n, r) => n + Number(r.cost_usd), 0);
+  const { tokenBudget, costBudget } = getLimits(subject);
+
+  const fraction = Math.max(
+    tokenBudget > 0 ? tokensUsed / tokenBudget : 0,
+    costBudget > 0 ? costUsd / costBudget : 0
+  );
+
+  return {
+    tier: tierFor(fraction),
+    tokensUsed,
+    costUsd: Number(costUsd.toFixed(4)),
+    tokenBudget,
+    costBudget,
+  };
+}
+
+/** Aggregate usage across all callers since a time — for /api/analytics */
+export async function getUsageSummary(since: Date): Promise<UsageSummary> {
+  const rows = await loadUsage(since);
+  const byRoute: UsageSummary['byRoute'] = {
+    triage: { requests: 0, tokens: 0, costUsd: 0 },
+    analyze_document: { requests: 0, tokens: 0, costUsd: 0 },
+    period_qa: { requests: 0, tokens: 0, costUsd: 0 },
+    followups: { requests: 0, tokens: 0, costUsd: 0 },
+  };
+
+  for (const r of rows) {
+    const route = byRoute[r.route];
+    if (!route) continue;
+    route.requests++;
+    route.tokens += rowTokens(r);
+    route.costUsd += Number(r.cost_usd);
+  }
+  for (const route of Object.values(byRoute)) route.costUsd = Number(route.costUsd.toFixed(4));
+
+  return {
+    requests: rows.length,
+    inputTokens: rows.reduce((n, r) => n + r.input_tokens + r.cache_read_tokens + r.cache_write_tokens, 0),
+    outputTokens: rows.reduce((n, r) => n + r.output_tokens, 0),
+    thinkingTokens: rows.reduce((n, r) => n + r.thinking_tokens, 0),
+    costUsd: Number(rows.reduce((n, r) => n + Number(r.cost_usd), 0).toFixed(4)),
+    byRoute,
+    degradedRequests: rows.filter((r) => r.budget_tier !== 'full').length,
+  };
+}
+
+/** Shrink a reply's max_tokens for a degraded tier */
+export function maxTokensForTier(maxTokens: number, tier: BudgetTier): number {
+  if (tier === 'full') return maxTokens;
+  return Math.max(512, Math.round(maxTokens * (tier === 'reduced' ? 0.5 : 0.25)));
+}
@@ -0,0 +1,304 @@
+/**
+ * Client-side voice activity detection — runs in the browser on raw mic samples.
+ *
+ * Each ~20ms frame is scored on three features, and counts as speech only
+ * when all of them agree:
+ * - Energy above an adaptive noise floor. The floor follows the frames
+ *   judged not to be speech, so a ceiling fan, a generator or a crowded
+ *   clinic raises it instead of reading as someone talking.
+ * - Share of energy in the speech band (300–3400 Hz) — traffic rumble,
+ *   wind and engine noise sit mostly below it.
+ * - Spectral flatness in the speech band — voiced speech is harmonic
+ *   (peaky), fans and hiss are flat.
+ *
+ * A turn starts once most of the last minSpeechMs of frames are speech —
+ * a door slam or a cough is too short — and ends after endSilenceMs
+ * without speech.
+ */
+
+// ─── Types ───────────────────────────────────────────
+
+export interface VadOptions {
+  sampleRate: number;
+  /** dB above the noise floor a frame needs to count as speech */
+  minSnrDb?: number;
+  /** Speech needed before a turn starts */
+  minSpeechMs?: number;
+  /** Silence after speech that ends the turn */
+  endSilenceMs?: number;
+}
+
+export interface VadEvent {
+  type: 'speech_start' | 'speech_end';
+  /** Sample index since the detector started — where the speech began or last sounded */
+  sample: number;
+}
+
+export interface VoiceActivityDetector {
+  /** Feed samples of any length; returns the turn boundaries they crossed */
+  process(samples: Float32Array): VadEvent[];
+  /** Inside a turn — speech started and hasn't ended */
+  readonly speaking: boolean;
+  readonly noiseFloorDb: number;
+  reset(): void;
+}
+
+const DEFAULT_MIN_SNR_DB = 9;
+const DEFAULT_MIN_SPEECH_MS = 150;
+const DEFAULT_END_SILENCE_MS = 900;
+
+/** Below this a frame is silence whatever the noise floor */
+const MIN_SPEECH_DB = -55;
+const SPEECH_BAND_LOW_HZ = 300;
+const SPEECH_BAND_HIGH_HZ = 3400;
+const MIN_SPEECH_BAND_RATIO = 0.45;
+const MAX_SPEECH_FLATNESS = 0.45;
+/** Share of frames in the start window that must be speech */
+const START_RATIO = 0.7;
+
+const INITIAL_NOISE_FLOOR_DB = -70;
+/** The floor rises quickly while the detector settles, then slowly */
+const SETTLE_MS = 500;
+const SETTLE_RISE = 0.2;
+const NOISE_RISE = 0.02;
+
+// ─── Spectrum ────────────────────────────────────────
+
+/** In-place radix-2 FFT; length must be a power of two */
+function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tr = re[b] * cos - im[b] * sin;
+        const ti = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+}
+
+/** ~20ms, rounded to a power of two for the FFT */
+function frameSizeFor(sampleRate: number): number {
+  return 2 ** Math.round(Math.log2(sampleRate * 0.02));
+}
+
+// ─── Detector ────────────────────────────────────────
+
+export function createVoiceActivityDetector(options: VadOptions): VoiceActivityDetector {
+  const { sampleRate } = options;
+  const minSnrDb = options.minSnrDb ?? DEFAULT_MIN_SNR_DB;
+  const frameSize = frameSizeFor(sampleRate);
+  const frameMs = (frameSize / sampleRate) * 1000;
+  const startFrames = Math.max(1, Math.round((options.minSpeechMs ?? DEFAULT_MIN_SPEECH_MS) / frameMs));
+  const endFrames = Math.max(1, Math.round((options.endSilenceMs ?? DEFAULT_END_SILENCE_MS) / frameMs));
+  const settleFrames = Math.round(SETTLE_MS / frameMs);
+
+  const binHz = sampleRate / frameSize;
+  const bandLow = Math.max(1, Math.floor(SPEECH_BAND_LOW_HZ / binHz));
+  const bandHigh = Math.min(frameSize / 2, Math.ceil(SPEECH_BAND_HIGH_HZ / binHz));
+  const window = Float64Array.from({ length: frameSize }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (frameSize - 1)));
+  const re = new Float64Array(frameSize);
+  const im = new Float64Array(frameSize);
+
+  const pending = new Float32Array(frameSize);
+  let pendingLength = 0;
+  let framesSeen = 0;
+  let noiseFloorDb = INITIAL_NOISE_FLOOR_DB;
+  let speaking = false;
+  // Recent frame decisions, for the start window
+  let recent: boolean[] = [];
+  let silentFrames = 0;
+  let lastSpeechEnd = 0;
+
+  function isSpeechFrame(frame: Float32Array): boolean {
+    let sumSquares = 0;
+    for (let i = 0; i < frameSize; i++) sumSquares += frame[i] * frame[i];
+    const energyDb = 10 * Math.log10(sumSquares / frameSize + 1e-12);
+
+    let speech = false;
+    if (energyDb > MIN_SPEECH_DB && energyDb > noiseFloorDb + minSnrDb) {
+      for (let i = 0; i < frameSize; i++) {
+        re[i] = frame[i] * window[i];
+        im[i] = 0;
+      }
+      fft(re, im);
+
+      let total = 0;
+      let band = 0;
+      let logSum = 0;
+      for (let k = 1; k <= frameSize / 2; k++) {
+        const power = re[k] * re[k] + im[k] * im[k];
+        total += power;
+        if (k >= bandLow && k <= bandHigh) {
+          band += power;
+          logSum += Math.log(power + 1e-12);
+        }
+      }
+      const bandBins = bandHigh - bandLow + 1;
+      const flatness = Math.exp(logSum / bandBins) / (band / bandBins + 1e-12);
+      speech = band / (total + 1e-12) >= MIN_SPEECH_BAND_RATIO && flatness <= MAX_SPEECH_FLATNESS;
+    }
+
+    // Quiet frames pull the floor straight down; steady noise raises it
+    if (energyDb < noiseFloorDb) {
+      noiseFloorDb = energyDb;
+    } else if (!speech) {
+      const rise = framesSeen < settleFrames ? SETTLE_RISE : NOISE_RISE;
+      noiseFloorDb += (energyDb - noiseFloorDb) * rise;
+    }
+    framesSeen++;
+    return speech;
+  }
+
+  function processFrame(frame: Float32Array, frameStart: number): VadEvent | null {
+    const speech = isSpeechFrame(frame);
+
+    if (!speaking) {
+      recent.push(speech);
+      if (recent.length > startFrames) recent.shift();
+      const speechCount = recent.filter(Boolean).length;
+      if (speech && recent.length === startFrames && speechCount >= Math.ceil(startFrames * START_RATIO)) {
+        speaking = true;
+        silentFrames = 0;
+        lastSpeechEnd = frameStart + frameSize;
+        const firstSpeech = recent.indexOf(true);
+        recent = [];
+        return { type: 'speech_start', sample: frameStart - (startFrames - 1 - firstSpeech) * frameSize };
+      }
+      return null;
+    }
+
+    if (speech) {
+      silentFrames = 0;
+      lastSpeechEnd = frameStart + frameSize;
+      return null;
+    }
+    silentFrames++;
+    if (silentFrames >= endFrames) {
+      speaking = false;
+      return { type: 'speech_end', sample: lastSpeechEnd };
+    }
+    return null;
+  }
+
+  return {
+    process(samples) {
+      const events: VadEvent[] = [];
+      let offset = 0;
+      while (offset < samples.length) {
+        const take = Math.min(frameSize - pendingLength, samples.length - offset);
+        pending.set(samples.subarray(offset, offset + take), pendingLength);
+        pendingLength += take;
+        offset += take;
+        if (pendingLength === frameSize) {
+          const event = processFrame(pending, framesSeen * frameSize);
+          if (event) events.push(event);
+          pendingLength = 0;
+        }
+      }
+      return events;
+    },
+    get speaking() {
+      return speaking;
+    },
+    get noiseFloorDb() {
+      return noiseFloorDb;
+    },
+    reset() {
+      pendingLength = 0;
+      framesSeen = 0;
+      noiseFloorDb = INITIAL_NOISE_FLOOR_DB;
+      speaking = false;
+      recent = [];
+      silentFrames = 0;
+      lastSpeechEnd = 0;
+    },
+  };
+}
+
+// ─── Trimming ────────────────────────────────────────
+
+/** Kept either side of the speech, so soft word edges aren't clipped */
+const TRIM_PADDING_MS = 250;
+
+/**
+ * Where the speech in a recording starts and ends, padded — null when it
+ * holds no speech at all, so there is nothing worth sending to STT.
+ */
+export function findSpeechBounds(samples: Float32Array, sampleRate: number): { start: number; end: number } | null {
+  const detector = createVoiceActivityDetector({ sampleRate });
+  const events = detector.process(samples);
+  const first = events.find((e) => e.type === 'speech_start');
+  if (!first) return null;
+
+  // Still speaking at the end of the recording — keep everything after the start
+  const last = detector.speaking ? samples.length : events.filter((e) => e.type === 'speech_end').pop()!.sample;
+  const padding = Math.round((TRIM_PADDING_MS / 1000) * sampleRate);
+  return { start: Math.max(0, first.sample - padding), end: Math.min(samples.length, last + padding) };
+}
+
+/** The recording with leading and trailing silence cut off — null when it holds no speech */
+export function trimSilence(samples: Float32Array, sampleRate: number): Float32Array | null {
+  const bounds = findSpeechBounds(samples, sampleRate);
+  return bounds ? samples.subarray(bounds.start, bounds.end) : null;
+}
+
+// ─── Mic monitoring ──────────────────────────────────
+
+export interface VoiceActivityMonitor {
+  stop(): void;
+}
+
+/**
+ * Run the detector on a live mic stream. The caller owns the stream —
+ * stop() only tears down the audio graph.
+ */
+export function monitorVoiceActivity(
+  stream: MediaStream,
+  options: Omit<VadOptions, 'sampleRate'> & {
+    onSpeechStart?: () => void;
+    onSpeechEnd?: () => void;
+  }
+): VoiceActivityMonitor {
+  const context = new AudioContext();
+  const source = context.createMediaStreamSource(stream);
+  // ScriptProcessor is deprecated but is the one raw-sample API every mobile browser has
+  const processor = context.createScriptProcessor(2048, 1, 1);
+  const detector = createVoiceActivityDetector({ ...options, sampleRate: context.sampleRate });
+
+  processor.onaudioprocess = (event) => {
+    for (const vadEvent of detector.process(event.inputBuffer.getChannelData(0))) {
+      if (vadEvent.type === 'speech_start') options.onSpeechStart?.();
+      else options.onSpeechEnd?.();
+    }
+  };
+  source.connect(processor);
+  processor.connect(context.destination);
+
+  return {
+    stop() {
+      processor.onaudioprocess = null;
+      processor.disconnect();
+      source.disconnect();
+      context.close().catch(() => {});
+    },
+  };
+}
@@ -1,4 +1,4 @@
-export type Language = 'hi' | 'ta' | 'te' | 'mr' | 'kn' | 'bn' | 'en';
+export type Language = 'hi' | 'ta' | 'te' | 'mr' | 'kn' | 'bn' | 'gu' | 'ml' | 'pa' | 'or' | 'ur' | 'en';
 
 export interface FollowUpOption {
   label: string;
@@ -51,6 +51,16 @@ export interface TriageResult {
   follow_up_options?: FollowUpOption[] | null;
   action_plan: ActionPlan;
   disclaimer: string;
+  /** Set when the deterministic safety floor raised the model's severity/care level */
+  safety_override?: SafetyOverride | null;
+}
+
+export interface SafetyOverride {
+  model_severity: Severity;
+  model_care_level: CareLevel;
+  severity: Severity;
+  care_level: CareLevel;
+  reasons: string[];
 }
 
 export interface PatientProfile {
@@ -59,12 +69,59 @@ export interface PatientProfile {
   gender?: string | null;
   pre_existing_conditions?: string[];
   preferred_language?: string | null;
+  /** Clinical notes the patient confirmed on their memory screen */
+  confirmed_notes?: { note_type: string; content: string }[];
+  /** Current medicines from the patient's medication list, one line each */
+  current_medications?: string[];
+}
+
+/** How the text around an emergency keyword frames it */
+export type EmergencyMatchReason =
+  | 'affirmed'          // present and unqualified — "chest pain since morning"
+  | 'negated'           // "no chest pain", "सीने में दर्द नहीं है"
+  | 'historical'        // "last year", "साल पहले"
+  | 'hypothetical'      // "what if", "अगर"
+  | 'third_party_past'  // someone else, past tense — still counted
+  | 'uncertain';        // hedged or conflicting cues — still counted
+
+export interface EmergencyMatch {
+  keyword: string;
+  /** 0-1 likelihood this is a current emergency */
+  confidence: number;
+  reason: EmergencyMatchReason;
+  /** The context word/phrase that set the reason */
+  cue?: string;
 }
 
 export interface EmergencyDetection {
   isEmergency: boolean;
+  /** Keywords that counted toward isEmergency */
   matchedKeywords: string[];
   detectedLanguage?: Language;
+  /** Highest per-keyword confidence; 0 when nothing matched */
+  confidence?: number;
+  /** Every keyword hit, including discounted ones, with its reason */
+  matches?: EmergencyMatch[];
+}
+
+export type DetectedScript =
+  | 'latin' | 'devanagari' | 'bengali' | 'gurmukhi' | 'gujarati' | 'odia'
+  | 'tamil' | 'telugu' | 'kannada' | 'malayalam' | 'arabic';
+
+/** Server-side language identification for one message, and what was done with it */
+export interface LanguageDetection {
+  /** Language the text is written in; null when too short to tell */
+  detected: Language | null;
+  /** 0-1 */
+  confidence: number;
+  script: DetectedScript | null;
+  /** Two scripts or languages in one message ("मुझे fever है", Hinglish) */
+  codeMixed: boolean;
+  /** Language the client selected */
+  requested: Language;
+  /** Language the response uses */
+  language: Language;
+  decision: 'kept' | 'overridden' | 'suggested';
 }
 
 export interface GeoLocation {
@@ -84,8 +141,11 @@ export interface NearbyHospital {
 export interface TriageRequest {
   message: string;
   language: Language;
+  /** Client's copy of the thread — only cross-checked; the server rebuilds history from its own record */
   conversationHistory: Message[];
   sessionId: string;
+  /** Issued in the 'session' stream event; lets an anonymous client continue its session */
+  sessionToken?: string | null;
   inputMode?: 'text' | 'voice' | 'voice_conversation';
   location?: GeoLocation | null;
 }
@@ -94,6 +154,19 @@ export interface TranscribeResponse {
   text: string;
   language: string;
   confidence: number;
+  /** Server-side identification of the transcript, against the language hint */
+  detection?: LanguageDetection;
+}
+
+/** /api/transcribe-stream — state of a live transcription after each audio chunk */
+export interface TranscribeStreamResponse {
+  id: string;
+  /** Best transcript of everything heard so far */
+  partial: string;
+  /** Set once the audio has ended and the provider has finished */
+  final: string | null;
+  language: string | null;
+  done: boolean;
 }
 
 export type StreamEvent =
@@ -104,6 +177,8 @@ export type StreamEvent =
   | { type: 'text'; content: string }
   | { type: 'error'; message: string }
   | { type: 'emergency'; data: EmergencyDetection }
+  | { type: 'language'; data: LanguageDetection }
+  | { type: 'session'; sessionId: string; token: string }
   | { type: 'tool_call'; name: string; input: Record<string, unknown> }
   | { type: 'tool_result'; name: string; result: Record<string, unknown> }
   | { type: 'early_tts'; content: string }
@@ -118,6 +193,8 @@ export interface ToolStep {
 
 export interface ConversationState {
   sessionId: string;
+  /** Server-issued token for continuing an anonymous session */
+  sessionToken: string | null;
   messages: Message[];
   currentResult: TriageResult | null;
   thinkingContent: string;
@@ -131,6 +208,8 @@ export interface ConversationState {
   toolSteps: ToolStep[];
   nearbyHospitals: NearbyHospital[];
   hospitalsFallbackUrl: string | null;
+  /** Language the last message looked like it was written in, when the server only suggested a switch */
+  languageSuggestion: Language | null;
 }
 
 export type ConversationAction =
@@ -142,6 +221,8 @@ export type ConversationAction =
   | { type: 'STREAM_RESULT'; data: TriageResult }
   | { type: 'STREAM_FOLLOW_UP'; question: string; options?: FollowUpOption[] }
   | { type: 'STREAM_EMERGENCY'; data: EmergencyDetection }
+  | { type: 'STREAM_LANGUAGE'; data: LanguageDetection }
+  | { type: 'STREAM_SESSION'; sessionId: string; token: string }
   | { type: 'STREAM_ERROR'; message: string }
   | { type: 'STREAM_END' }
   | { type: 'STREAM_TOOL_CALL'; name: string; input: Record<string, unknown> }
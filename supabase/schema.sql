@@ -243,3 +243,256 @@ CREATE POLICY "followup_checks_update" ON followup_checks FOR UPDATE USING (true
 INSERT INTO storage.buckets (id, name, public)
 VALUES ('medical-files', 'medical-files', false)
 ON CONFLICT DO NOTHING;
+
+-- ─── 12. Result Validation Telemetry ─────────────────────────
+-- 'validation' events record whether the model's final JSON passed schema
+-- validation (had_error = repair needed, success = valid after repair).
+ALTER TABLE telemetry_events DROP CONSTRAINT IF EXISTS telemetry_events_event_type_check;
+ALTER TABLE telemetry_events ADD CONSTRAINT telemetry_events_event_type_check
+  CHECK (event_type IN ('triage', 'transcribe', 'tts', 'validation'));
+
+-- ─── 13. Safety Floor Overrides ──────────────────────────────
+-- Set when the rule-based safety floor raised the model's severity.
+ALTER TABLE triage_sessions ADD COLUMN IF NOT EXISTS model_severity TEXT;
+ALTER TABLE triage_sessions ADD COLUMN IF NOT EXISTS safety_override_reason TEXT;
+
+-- ─── 14. Rate Limits ─────────────────────────────────────────
+-- Shared counters for RATE_LIMIT_STORE=supabase, so limits hold across
+-- serverless replicas. `value` is a request count (sliding window) or the
+-- tokens left (token bucket). Service role only — no RLS policies.
+CREATE TABLE IF NOT EXISTS rate_limits (
+  key TEXT PRIMARY KEY,
+  value DOUBLE PRECISION NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limits_expires ON rate_limits(expires_at);
+
+ALTER TABLE rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- Add one to a window counter, starting it fresh once expired
+CREATE OR REPLACE FUNCTION rate_limit_increment(p_key TEXT, p_ttl_ms BIGINT)
+RETURNS INTEGER LANGUAGE plpgsql AS $$
+DECLARE
+  v_count DOUBLE PRECISION;
+BEGIN
+  INSERT INTO rate_limits (key, value, expires_at)
+  VALUES (p_key, 1, NOW() + p_ttl_ms * INTERVAL '1 millisecond')
+  ON CONFLICT (key) DO UPDATE SET
+    value = CASE WHEN rate_limits.expires_at <= NOW() THEN 1 ELSE rate_limits.value + 1 END,
+    expires_at = CASE WHEN rate_limits.expires_at <= NOW() THEN EXCLUDED.expires_at ELSE rate_limits.expires_at END,
+    updated_at = NOW()
+  RETURNING value INTO v_count;
+  RETURN v_count::INTEGER;
+END $$;
+
+-- Refill a token bucket for the time since its last use, then take one token
+CREATE OR REPLACE FUNCTION rate_limit_take_token(p_key TEXT, p_capacity DOUBLE PRECISION, p_refill_per_ms DOUBLE PRECISION)
+RETURNS TABLE (allowed BOOLEAN, tokens DOUBLE PRECISION) LANGUAGE plpgsql AS $$
+DECLARE
+  v_tokens DOUBLE PRECISION;
+  v_updated TIMESTAMPTZ;
+  v_allowed BOOLEAN := FALSE;
+BEGIN
+  INSERT INTO rate_limits (key, value, expires_at)
+  VALUES (p_key, p_capacity, NOW())
+  ON CONFLICT (key) DO NOTHING;
+
+  SELECT value, updated_at INTO v_tokens, v_updated
+  FROM rate_limits WHERE key = p_key FOR UPDATE;
+
+  v_tokens := LEAST(p_capacity, v_tokens + EXTRACT(EPOCH FROM (NOW() - v_updated)) * 1000 * p_refill_per_ms);
+  IF v_tokens >= 1 THEN
+    v_tokens := v_tokens - 1;
+    v_allowed := TRUE;
+  END IF;
+
+  UPDATE rate_limits
+  SET value = v_tokens,
+      updated_at = NOW(),
+      expires_at = NOW() + (p_capacity / p_refill_per_ms) * INTERVAL '1 millisecond'
+  WHERE key = p_key;
+
+  RETURN QUERY SELECT v_allowed, v_tokens;
+END $$;
+
+-- Optional cleanup (e.g. pg_cron, hourly):
+--   DELETE FROM rate_limits WHERE expires_at < NOW();
+
+-- ─── 15. LLM Usage ───────────────────────────────────────────
+-- One row per request that called the model: token counts and estimated
+-- cost, keyed by `subject` (user:<clerk id> or ip:<hash>) for daily budgets.
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  subject TEXT NOT NULL,
+  clerk_user_id TEXT,
+  route TEXT NOT NULL CHECK (route IN ('triage', 'analyze_document', 'period_qa')),
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  thinking_tokens INTEGER NOT NULL DEFAULT 0,
+  cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+  cache_write_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  budget_tier TEXT NOT NULL DEFAULT 'full' CHECK (budget_tier IN ('full', 'reduced', 'minimal')),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_subject ON llm_usage(subject, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_created ON llm_usage(created_at DESC);
+
+-- Service role only — no RLS policies.
+ALTER TABLE llm_usage ENABLE ROW LEVEL SECURITY;
+
+-- ─── 16. Server-Side Conversation State ──────────────────────
+-- /api/triage rebuilds history from conversation_messages. Final results are
+-- stored as an assistant summary turn so later messages keep that context;
+-- session replay skips them (the full result comes from triage_results).
+ALTER TABLE conversation_messages ADD COLUMN IF NOT EXISTS is_result BOOLEAN DEFAULT FALSE;
+
+CREATE INDEX IF NOT EXISTS idx_conv_msg_session_created ON conversation_messages(session_id, created_at);
+
+-- ─── 17. Resumable Triage Streams ────────────────────────────
+-- Stream that produced each result, so a client that lost its connection
+-- after the in-memory buffer expired can still be sent the result.
+ALTER TABLE triage_results ADD COLUMN IF NOT EXISTS stream_id TEXT;
+
+-- ─── 18. Follow-up Delivery ──────────────────────────────────
+-- /api/cron/followups claims due checks (delivered_at) and records which
+-- channels reached the patient; the patient's answer closes the check and
+-- seeds a new triage session (followup_session_id).
+ALTER TABLE followup_checks ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMPTZ;
+ALTER TABLE followup_checks ADD COLUMN IF NOT EXISTS delivery_channels TEXT[] DEFAULT '{}';
+ALTER TABLE followup_checks ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE followup_checks ADD COLUMN IF NOT EXISTS last_error TEXT;
+ALTER TABLE followup_checks ADD COLUMN IF NOT EXISTS response TEXT CHECK (response IN ('better', 'same', 'worse'));
+ALTER TABLE followup_checks ADD COLUMN IF NOT EXISTS responded_at TIMESTAMPTZ;
+ALTER TABLE followup_checks ADD COLUMN IF NOT EXISTS followup_session_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_followup_checks_due ON followup_checks(check_at)
+  WHERE status = 'pending' AND delivered_at IS NULL;
+
+-- In-app inbox — one row per notification shown to a signed-in user
+CREATE TABLE IF NOT EXISTS inbox_messages (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  clerk_user_id TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('followup_check')),
+  ref_id TEXT,
+  title TEXT NOT NULL,
+  body TEXT,
+  url TEXT,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inbox_messages_clerk_user ON inbox_messages(clerk_user_id, created_at DESC);
+
+ALTER TABLE inbox_messages ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "inbox_messages_insert" ON inbox_messages FOR INSERT WITH CHECK (true);
+CREATE POLICY "inbox_messages_select" ON inbox_messages FOR SELECT USING (true);
+CREATE POLICY "inbox_messages_update" ON inbox_messages FOR UPDATE USING (true);
+
+-- ─── 19. Follow-up Inbox ─────────────────────────────────────
+-- /followups shows reason and escalation_criteria in the patient's preferred
+-- language; model translations are cached here, e.g.
+-- {"hi": {"reason": "...", "escalation_criteria": "..."}}.
+ALTER TABLE followup_checks ADD COLUMN IF NOT EXISTS translations JSONB DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_followup_checks_user_check_at ON followup_checks(clerk_user_id, check_at DESC);
+
+-- Translation calls are metered like other model routes
+ALTER TABLE llm_usage DROP CONSTRAINT IF EXISTS llm_usage_route_check;
+ALTER TABLE llm_usage ADD CONSTRAINT llm_usage_route_check
+  CHECK (route IN ('triage', 'analyze_document', 'period_qa', 'followups'));
+
+-- ─── 20. Patient Memory ──────────────────────────────────────
+-- Notes written by the triage agent start as 'inferred'; the patient confirms,
+-- corrects or deletes them on /memory. Only confirmed notes join the verified
+-- patient context — inferred ones reach the model labelled as unconfirmed.
+-- update_risk_profile now records inferred notes instead of editing profiles.
+ALTER TABLE clinical_notes ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'inferred'
+  CHECK (status IN ('inferred', 'confirmed'));
+ALTER TABLE clinical_notes ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMPTZ;
+ALTER TABLE clinical_notes ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_clinical_notes_user_status ON clinical_notes(clerk_user_id, status);
+
+CREATE POLICY "clinical_notes_update" ON clinical_notes FOR UPDATE USING (true);
+CREATE POLICY "clinical_notes_delete" ON clinical_notes FOR DELETE USING (true);
+
+-- ─── 21. Medications ────────────────────────────────────────
+-- Structured medication list, edited in the health profile and filled from
+-- prescription analyses. Replaces scanning past triage text for "taking X".
+-- A row is current until its stopped_on date arrives; generic_name is resolved
+-- from brand names server-side so interaction checks work on either.
+CREATE TABLE IF NOT EXISTS medications (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  clerk_user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  generic_name TEXT,
+  dose TEXT,
+  frequency TEXT,
+  started_on DATE,
+  stopped_on DATE,
+  source TEXT NOT NULL DEFAULT 'user' CHECK (source IN ('user', 'prescription')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ,
+  CHECK (stopped_on IS NULL OR started_on IS NULL OR stopped_on >= started_on)
+);
+
+CREATE INDEX IF NOT EXISTS idx_medications_user ON medications(clerk_user_id, created_at DESC);
+
+ALTER TABLE medications ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "medications_select" ON medications FOR SELECT USING (true);
+CREATE POLICY "medications_insert" ON medications FOR INSERT WITH CHECK (true);
+CREATE POLICY "medications_update" ON medications FOR UPDATE USING (true);
+CREATE POLICY "medications_delete" ON medications FOR DELETE USING (true);
+
+-- ─── 22. Lab Results ────────────────────────────────────────
+-- Numeric values extracted from uploaded lab reports, converted to one
+-- canonical unit per test (test_key) so trends line up across labs.
+-- upload_id points at medical_uploads.id; no foreign key because the upload
+-- row is written fire-and-forget and may land after its results.
+CREATE TABLE IF NOT EXISTS lab_results (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  clerk_user_id TEXT NOT NULL,
+  upload_id UUID,
+  test_key TEXT NOT NULL,
+  test_name TEXT NOT NULL,
+  value NUMERIC NOT NULL,
+  unit TEXT,
+  reference_low NUMERIC,
+  reference_high NUMERIC,
+  flag TEXT CHECK (flag IN ('low', 'normal', 'high')),
+  abnormal BOOLEAN NOT NULL DEFAULT false,
+  report_date DATE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lab_results_user_test ON lab_results(clerk_user_id, test_key, report_date);
+
+ALTER TABLE lab_results ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "lab_results_select" ON lab_results FOR SELECT USING (true);
+CREATE POLICY "lab_results_insert" ON lab_results FOR INSERT WITH CHECK (true);
+
+-- ─── 23. Document Sets ──────────────────────────────────────
+-- Several files uploaded together are analysed as one document and stored
+-- as one medical_uploads row; file_names lists them in order. session_id
+-- links the set to the triage session it was uploaded in.
+ALTER TABLE medical_uploads ADD COLUMN IF NOT EXISTS file_names TEXT[];
+
+CREATE INDEX IF NOT EXISTS idx_uploads_session ON medical_uploads(session_id);
+
+-- ─── 24. Speech Provider Telemetry ──────────────────────────
+-- Which speech backend (sarvam / local) served each transcribe / tts
+-- attempt, so latency and success can be compared per provider.
+ALTER TABLE telemetry_events ADD COLUMN IF NOT EXISTS provider TEXT;
+
+-- ─── 25. TTS Audio Cache ────────────────────────────────────
+-- Private Storage bucket for synthesised speech when TTS_CACHE_STORE=supabase.
+-- Objects are content-addressed (<sha256>.wav / .mp3) and only ever read
+-- and written with the service role.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('tts-cache', 'tts-cache', false)
+ON CONFLICT (id) DO NOTHING;